@@ -7,7 +7,7 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { NavigationContainer, DefaultTheme, DarkTheme } from '@react-navigation/native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { RootNavigator } from './src/navigation';
-import { getDatabase } from './src/services/database';
+import { getDatabase, settingsRepository, trashRepository, verifyMigrations } from './src/services/database';
 import { COLORS } from './src/constants/theme';
 import { notificationService } from './src/services/notifications';
 import { authService } from './src/services/auth';
@@ -17,6 +17,9 @@ import { ErrorBoundary } from './src/components/ErrorBoundary';
 import { initializeCurrencyCache } from './src/utils/currency';
 import { initializeDateCache } from './src/utils/date';
 import { recurringExpenseService } from './src/services/recurring';
+import { autoBackupService, verifyBackupUpgrades, BACKUP_SCHEMA_VERSION } from './src/services/backup';
+import { budgetAlertService } from './src/services/budgets';
+import { rentalReminderService } from './src/services/rentals';
 
 // Custom navigation themes
 const LightNavigationTheme = {
@@ -62,6 +65,9 @@ function AppContent() {
         const success = await authService.onAppForeground();
         setIsLocked(!success);
       }
+
+      // Take a scheduled backup if one is due
+      autoBackupService.runIfDue().catch(e => console.log('Automatic backup failed:', e));
     }
     appState.current = nextAppState;
   }, []);
@@ -101,6 +107,30 @@ function AppContent() {
           console.log('Recurring expense check failed:', e);
         }
 
+        // Purge items that have been in the trash longer than the retention period
+        try {
+          const settings = await settingsRepository.get();
+          await trashRepository.purgeExpired(settings.trashRetentionDays);
+        } catch (e) {
+          console.log('Trash purge failed:', e);
+        }
+
+        // Make sure backups and databases from every earlier app version can
+        // still be upgraded. Errors show up on the development error screen.
+        if (__DEV__) {
+          const problems = verifyBackupUpgrades(BACKUP_SCHEMA_VERSION);
+          if (problems.length > 0) {
+            console.error('Backup upgrade check failed:\n' + problems.join('\n'));
+          }
+          const migrationProblems = await verifyMigrations().catch(e => [(e as Error).message]);
+          if (migrationProblems.length > 0) {
+            console.error('Database migration check failed:\n' + migrationProblems.join('\n'));
+          }
+        }
+
+        // Take a scheduled backup if one is due (doesn't block startup)
+        autoBackupService.runIfDue().catch(e => console.log('Automatic backup failed:', e));
+
         // Show onboarding if not completed
         if (onboardingComplete !== 'true') {
           setShowOnboarding(true);
@@ -123,6 +153,18 @@ function AppContent() {
     initialize();
   }, []);
 
+  // Alert when spending nears or passes a budget, once the database is open
+  useEffect(() => {
+    if (!isReady) return;
+    return budgetAlertService.watch();
+  }, [isReady]);
+
+  // Keep rent-due and lease renewal reminders in step with the leases
+  useEffect(() => {
+    if (!isReady) return;
+    return rentalReminderService.watch();
+  }, [isReady]);
+
   const handleOnboardingComplete = () => {
     setShowOnboarding(false);
   };
@@ -0,0 +1,305 @@
+import React, { useState } from 'react';
+import { View, Text, Image, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { FileText, Plus } from 'lucide-react-native';
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Haptics from 'expo-haptics';
+import { AttachmentDraft, AttachmentEntityType, UUID } from '../types';
+import { attachmentRepository } from '../services/database';
+import { useQuery } from '../hooks';
+import { ImageViewer, DocumentViewer, InputDialog, SelectDialog } from './ui';
+import { COLORS } from '../constants/theme';
+import { getImageQuality } from '../utils/image';
+import { useTheme, useTranslation } from '../contexts';
+
+type AddSource = 'camera' | 'library' | 'file';
+
+type AttachmentAction = 'caption' | 'earlier' | 'later' | 'remove';
+
+interface AttachmentStripProps {
+  title?: string;
+  attachments: AttachmentDraft[];
+  onAdd: (draft: AttachmentDraft) => Promise<void> | void;
+  onCaption: (index: number, caption: string) => Promise<void> | void;
+  onMove: (index: number, offset: -1 | 1) => Promise<void> | void;
+  onRemove: (index: number) => Promise<void> | void;
+}
+
+// Asks for permission where needed and returns the picked file, or null when
+// the user cancelled
+async function pickAttachment(source: AddSource, t: (scope: string) => string): Promise<AttachmentDraft | null> {
+  if (source === 'file') {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/pdf', 'image/*'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets[0]) return null;
+    const file = result.assets[0];
+    return { fileUri: file.uri, fileType: file.mimeType?.startsWith('image/') ? 'image' : 'pdf' };
+  }
+
+  const permission = source === 'camera'
+    ? await ImagePicker.requestCameraPermissionsAsync()
+    : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    Alert.alert(
+      t('common.permissionRequired'),
+      t(source === 'camera' ? 'attachments.cameraPermission' : 'attachments.photoLibraryPermission')
+    );
+    return null;
+  }
+
+  const quality = await getImageQuality();
+  const result = source === 'camera'
+    ? await ImagePicker.launchCameraAsync({ quality })
+    : await ImagePicker.launchImageLibraryAsync({ mediaTypes: ImagePicker.MediaTypeOptions.Images, quality });
+  if (result.canceled || !result.assets[0]) return null;
+  return { fileUri: result.assets[0].uri, fileType: 'image' };
+}
+
+// A row of thumbnails with an add tile. Tapping a thumbnail opens it; a long
+// press offers the caption, moving and removing.
+function AttachmentStrip({ title, attachments, onAdd, onCaption, onMove, onRemove }: AttachmentStripProps) {
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  const [showSources, setShowSources] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [documentIndex, setDocumentIndex] = useState<number | null>(null);
+
+  const images = attachments.filter(attachment => attachment.fileType === 'image');
+
+  const run = async (action: () => Promise<void> | void) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to update attachments:', error);
+      Alert.alert(t('common.error'), t('attachments.saveError'));
+    }
+  };
+
+  const handleSource = async (source: string) => {
+    setShowSources(false);
+    const draft = await pickAttachment(source as AddSource, t);
+    if (!draft) return;
+    await run(() => onAdd(draft));
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+  };
+
+  const handleOpen = (index: number) => {
+    const attachment = attachments[index];
+    if (attachment.fileType === 'pdf') {
+      setDocumentIndex(index);
+    } else {
+      setViewerIndex(images.indexOf(attachment));
+    }
+  };
+
+  const handleAction = (action: string) => {
+    const index = selectedIndex;
+    setSelectedIndex(null);
+    if (index === null) return;
+
+    switch (action as AttachmentAction) {
+      case 'caption':
+        setEditingIndex(index);
+        break;
+      case 'earlier':
+        run(() => onMove(index, -1));
+        break;
+      case 'later':
+        run(() => onMove(index, 1));
+        break;
+      case 'remove':
+        Alert.alert(t('attachments.removeTitle'), t('attachments.removeMessage'), [
+          { text: t('common.cancel'), style: 'cancel' },
+          { text: t('common.remove'), style: 'destructive', onPress: () => run(() => onRemove(index)) },
+        ]);
+        break;
+    }
+  };
+
+  const actionOptions = selectedIndex === null ? [] : [
+    { label: t('attachments.editCaption'), value: 'caption' },
+    ...(selectedIndex > 0 ? [{ label: t('attachments.moveEarlier'), value: 'earlier' }] : []),
+    ...(selectedIndex < attachments.length - 1 ? [{ label: t('attachments.moveLater'), value: 'later' }] : []),
+    { label: t('common.remove'), value: 'remove' },
+  ];
+
+  const openDocument = documentIndex !== null ? attachments[documentIndex] : null;
+
+  return (
+    <View>
+      {title && (
+        <Text className={`text-sm font-semibold uppercase tracking-wide mb-3 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+          {title}
+        </Text>
+      )}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 12 }}>
+        {attachments.map((attachment, index) => (
+          <TouchableOpacity
+            key={attachment.id ?? attachment.fileUri}
+            onPress={() => handleOpen(index)}
+            onLongPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium).catch(() => {});
+              setSelectedIndex(index);
+            }}
+            activeOpacity={0.8}
+            className="w-20"
+          >
+            <View className={`w-20 h-20 rounded-xl overflow-hidden items-center justify-center ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}>
+              {attachment.fileType === 'image' ? (
+                <Image source={{ uri: attachment.fileUri }} className="w-full h-full" resizeMode="cover" />
+              ) : (
+                <View className="items-center">
+                  <FileText size={24} color={COLORS.categories.document} />
+                  <Text className={`text-xs mt-1 font-medium ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>PDF</Text>
+                </View>
+              )}
+            </View>
+            {attachment.caption ? (
+              <Text className={`text-xs mt-1 ${isDark ? 'text-slate-400' : 'text-slate-500'}`} numberOfLines={1}>
+                {attachment.caption}
+              </Text>
+            ) : null}
+          </TouchableOpacity>
+        ))}
+
+        <TouchableOpacity
+          onPress={() => setShowSources(true)}
+          activeOpacity={0.8}
+          className={`w-20 h-20 rounded-xl items-center justify-center border-2 border-dashed ${isDark ? 'bg-slate-800 border-slate-600' : 'bg-slate-100 border-slate-300'}`}
+        >
+          <Plus size={22} color={COLORS.slate[400]} />
+          <Text className={`text-xs mt-1 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('common.add')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+      {attachments.length > 0 && (
+        <Text className={`text-xs mt-2 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>{t('attachments.hint')}</Text>
+      )}
+
+      <SelectDialog
+        visible={showSources}
+        title={t('attachments.addTitle')}
+        options={[
+          { label: t('attachments.takePhoto'), value: 'camera' },
+          { label: t('attachments.choosePhoto'), value: 'library' },
+          { label: t('attachments.chooseFile'), value: 'file' },
+        ]}
+        cancelText={t('common.cancel')}
+        onCancel={() => setShowSources(false)}
+        onSelect={handleSource}
+      />
+
+      <SelectDialog
+        visible={selectedIndex !== null}
+        title={attachments[selectedIndex ?? -1]?.caption || t('attachments.options')}
+        options={actionOptions}
+        cancelText={t('common.cancel')}
+        onCancel={() => setSelectedIndex(null)}
+        onSelect={handleAction}
+      />
+
+      <InputDialog
+        visible={editingIndex !== null}
+        title={t('attachments.editCaption')}
+        placeholder={t('attachments.captionPlaceholder')}
+        defaultValue={attachments[editingIndex ?? -1]?.caption ?? ''}
+        cancelText={t('common.cancel')}
+        confirmText={t('common.save')}
+        onCancel={() => setEditingIndex(null)}
+        onConfirm={caption => {
+          const index = editingIndex;
+          setEditingIndex(null);
+          if (index !== null) run(() => onCaption(index, caption));
+        }}
+      />
+
+      <ImageViewer
+        visible={viewerIndex !== null}
+        images={images.map(image => image.fileUri)}
+        initialIndex={viewerIndex ?? 0}
+        onClose={() => setViewerIndex(null)}
+      />
+
+      <DocumentViewer
+        visible={openDocument !== null}
+        uri={openDocument?.fileUri ?? null}
+        name={openDocument?.caption}
+        fileType="pdf"
+        onClose={() => setDocumentIndex(null)}
+      />
+    </View>
+  );
+}
+
+interface AttachmentGalleryProps {
+  entityType: AttachmentEntityType;
+  entityId: UUID;
+  title?: string;
+  // Called after the attachments changed, for screens that show one of them
+  onChange?: () => void;
+}
+
+// The attachments of a saved record. Every change is written right away.
+export function AttachmentGallery({ entityType, entityId, title, onChange }: AttachmentGalleryProps) {
+  const { data: attachments = [] } = useQuery(
+    () => attachmentRepository.getByEntity(entityType, entityId),
+    ['attachments'],
+    [entityType, entityId]
+  );
+
+  const afterChange = () => onChange?.();
+
+  return (
+    <AttachmentStrip
+      title={title}
+      attachments={attachments}
+      onAdd={async draft => {
+        await attachmentRepository.create({ entityType, entityId, ...draft });
+        afterChange();
+      }}
+      onCaption={async (index, caption) => {
+        await attachmentRepository.updateCaption(attachments[index].id, caption);
+        afterChange();
+      }}
+      onMove={async (index, offset) => {
+        const ids = attachments.map(attachment => attachment.id);
+        [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+        await attachmentRepository.reorder(ids);
+        afterChange();
+      }}
+      onRemove={async index => {
+        await attachmentRepository.delete(attachments[index].id);
+        afterChange();
+      }}
+    />
+  );
+}
+
+interface AttachmentPickerProps {
+  title?: string;
+  value: AttachmentDraft[];
+  onChange: (drafts: AttachmentDraft[]) => void;
+}
+
+// The attachments of a record being edited in a form. Nothing is written
+// until the form saves them with attachmentRepository.saveDrafts.
+export function AttachmentPicker({ title, value, onChange }: AttachmentPickerProps) {
+  return (
+    <AttachmentStrip
+      title={title}
+      attachments={value}
+      onAdd={draft => onChange([...value, draft])}
+      onCaption={(index, caption) => onChange(value.map((draft, i) => (i === index ? { ...draft, caption } : draft)))}
+      onMove={(index, offset) => {
+        const drafts = [...value];
+        [drafts[index], drafts[index + offset]] = [drafts[index + offset], drafts[index]];
+        onChange(drafts);
+      }}
+      onRemove={index => onChange(value.filter((_, i) => i !== index))}
+    />
+  );
+}
@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { BudgetStatus } from '../types';
+import { BUDGET_ALERT_LEVELS, getBudgetLabel } from '../services/budgets';
+import { COLORS, SHADOWS } from '../constants/theme';
+import { formatCurrency, getReportingCurrency } from '../utils/currency';
+import { useTheme, useTranslation } from '../contexts';
+
+// Green until the first alert level, amber until the budget is used up
+export function getBudgetColor(percent: number): string {
+  if (percent >= 100) return COLORS.error;
+  if (percent >= BUDGET_ALERT_LEVELS[0]) return COLORS.warning;
+  return COLORS.primary[500];
+}
+
+interface BudgetProgressListProps {
+  statuses: BudgetStatus[];
+  // For lists that cover more than one property
+  showProperty?: boolean;
+  onPress?: (status: BudgetStatus) => void;
+}
+
+// A progress bar per budget for its current period, in one card
+export function BudgetProgressList({ statuses, showProperty = false, onPress }: BudgetProgressListProps) {
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  const reportingCurrency = getReportingCurrency();
+
+  return (
+    <View className={`rounded-2xl overflow-hidden ${isDark ? 'bg-slate-800' : 'bg-white'}`} style={SHADOWS.sm}>
+      {statuses.map((status, index) => {
+        const { budget } = status;
+        const color = getBudgetColor(status.percent);
+        const remaining = status.available - status.spent;
+
+        return (
+          <TouchableOpacity
+            key={budget.id}
+            onPress={onPress ? () => onPress(status) : undefined}
+            disabled={!onPress}
+            activeOpacity={0.7}
+            className={`px-4 py-3.5 ${
+              index < statuses.length - 1 ? `border-b ${isDark ? 'border-slate-700' : 'border-slate-100'}` : ''
+            }`}
+          >
+            <View className="flex-row items-center justify-between mb-2">
+              <View className="flex-1 mr-3">
+                <Text className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`} numberOfLines={1}>
+                  {getBudgetLabel(budget, t)}
+                </Text>
+                <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`} numberOfLines={1}>
+                  {showProperty ? `${status.propertyName} · ` : ''}
+                  {t(`budgets.periods.${budget.period}`)}
+                </Text>
+              </View>
+              <Text className={`text-sm font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                {Math.round(status.percent)}%
+              </Text>
+            </View>
+
+            <View className={`h-2 rounded-full overflow-hidden ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}>
+              <View
+                className="h-full rounded-full"
+                style={{ width: `${Math.min(status.percent, 100)}%`, backgroundColor: color }}
+              />
+            </View>
+
+            <View className="flex-row items-center justify-between mt-1.5">
+              <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                {t('budgets.spentOf', { spent: formatCurrency(status.spent, reportingCurrency), available: formatCurrency(status.available, reportingCurrency) })}
+              </Text>
+              <Text className="text-xs font-medium" style={{ color: remaining < 0 ? COLORS.error : isDark ? COLORS.slate[400] : COLORS.slate[500] }}>
+                {remaining < 0
+                  ? t('budgets.over', { amount: formatCurrency(-remaining, reportingCurrency) })
+                  : t('budgets.left', { amount: formatCurrency(remaining, reportingCurrency) })}
+              </Text>
+            </View>
+
+            {status.carriedOver !== 0 && (
+              <Text className={`text-xs mt-1 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                {t('budgets.carriedOver', { amount: formatCurrency(status.carriedOver, reportingCurrency) })}
+              </Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
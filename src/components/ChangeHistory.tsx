@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Alert } from 'react-native';
+import { History, Undo2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { ChangeLogEntry, FieldChange } from '../types';
+import { changeLogRepository, parseList } from '../services/database';
+import { useQuery } from '../hooks';
+import { Card } from './ui';
+import { COLORS } from '../constants/theme';
+import { formatCurrency } from '../utils/currency';
+import { formatDate, formatDateTime } from '../utils/date';
+import { useTheme, useTranslation } from '../contexts';
+
+interface ChangeHistoryProps {
+  // Table and id of the record whose changes are listed
+  table: string;
+  recordId: string;
+  // Called after a change was reverted, for screens that hold their own copy
+  // of the record
+  onReverted?: () => void;
+}
+
+const AMOUNT_FIELDS = ['amount', 'purchase_price'];
+
+// Entries shown before "Show all"
+const COLLAPSED_COUNT = 5;
+
+function humanize(field: string): string {
+  const text = field.replace(/_id$/, '').replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function ChangeHistory({ table, recordId, onReverted }: ChangeHistoryProps) {
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState(false);
+
+  const { data: entries = [] } = useQuery(
+    () => changeLogRepository.getByRecord(table, recordId),
+    [{ table, ids: [recordId] }, 'change_log'],
+    [table, recordId]
+  );
+
+  const getFieldLabel = (field: string) => t(`changeLog.fields.${field}`, { defaultValue: humanize(field) });
+
+  const formatValue = (field: string, value: FieldChange['oldValue'], label?: string): string => {
+    if (value === null || value === '') return t('changeLog.empty');
+    if (label) return label;
+    if (AMOUNT_FIELDS.includes(field)) return formatCurrency(Number(value));
+    if (field.startsWith('is_')) return value ? t('common.yes') : t('common.no');
+    if (field === 'date' || field.endsWith('_date')) return formatDate(String(value));
+    if (field === 'tags') return parseList(value).join(', ') || t('changeLog.empty');
+    if (field.endsWith('_uri')) return t('changeLog.file');
+    if (field === 'tax_treatment') return t(`taxSummary.treatments.${value}`);
+    return String(value);
+  };
+
+  const handleRevert = (entry: ChangeLogEntry) => {
+    Alert.alert(t('changeLog.revertTitle'), t('changeLog.revertMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('changeLog.revert'),
+        onPress: async () => {
+          try {
+            const result = await changeLogRepository.revert(entry.id);
+            if (result.reverted.length > 0) {
+              await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+              onReverted?.();
+            }
+            if (result.skipped.length > 0) {
+              Alert.alert(
+                t('changeLog.revertTitle'),
+                t(result.reverted.length > 0 ? 'changeLog.revertPartial' : 'changeLog.revertNothing', {
+                  fields: result.skipped.map(getFieldLabel).join(', '),
+                })
+              );
+            }
+          } catch (error) {
+            console.error('Failed to revert change:', error);
+            Alert.alert(t('common.error'), t('common.errorMessage'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const visible = expanded ? entries : entries.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <View>
+      <Text className={`text-sm font-semibold uppercase tracking-wide mb-3 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+        {t('changeLog.title')}
+      </Text>
+      <Card variant="default" padding="none" className={isDark ? 'bg-slate-800' : ''}>
+        {entries.length === 0 ? (
+          <View className="flex-row items-center px-4 py-3.5">
+            <History size={16} color={isDark ? COLORS.slate[500] : COLORS.slate[400]} />
+            <Text className={`text-sm ml-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('changeLog.noChanges')}</Text>
+          </View>
+        ) : (
+          visible.map((entry, index) => (
+            <View
+              key={entry.id}
+              className={`px-4 py-3 ${index < visible.length - 1 ? `border-b ${isDark ? 'border-slate-700' : 'border-slate-100'}` : ''}`}
+            >
+              <View className="flex-row items-center">
+                <View className="flex-1">
+                  <Text className={`text-sm font-medium ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                    {t(`changeLog.actions.${entry.action}`)}
+                  </Text>
+                  <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                    {formatDateTime(entry.changedAt)} · {entry.isThisDevice ? t('changeLog.thisDevice') : t('changeLog.otherDevice')}
+                  </Text>
+                </View>
+                {entry.action === 'update' && (
+                  <TouchableOpacity
+                    onPress={() => handleRevert(entry)}
+                    activeOpacity={0.7}
+                    className={`flex-row items-center px-3 py-1.5 rounded-lg ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+                  >
+                    <Undo2 size={14} color={COLORS.primary[600]} />
+                    <Text className="text-xs font-medium ml-1 text-primary-600">{t('changeLog.revert')}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              {entry.changes.map(change => (
+                <Text key={change.field} className={`text-sm mt-1.5 ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
+                  <Text className="font-medium">{getFieldLabel(change.field)}: </Text>
+                  {formatValue(change.field, change.oldValue, change.oldLabel)} → {formatValue(change.field, change.newValue, change.newLabel)}
+                </Text>
+              ))}
+            </View>
+          ))
+        )}
+        {entries.length > COLLAPSED_COUNT && (
+          <TouchableOpacity
+            onPress={() => setExpanded(!expanded)}
+            activeOpacity={0.7}
+            className={`px-4 py-3 items-center border-t ${isDark ? 'border-slate-700' : 'border-slate-100'}`}
+          >
+            <Text className="text-sm font-medium text-primary-600">
+              {expanded ? t('changeLog.showLess') : t('changeLog.showAll', { count: entries.length })}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </Card>
+    </View>
+  );
+}
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { AlertTriangle, ChevronDown } from 'lucide-react-native';
+import { SelectDialog } from './ui';
+import { COLORS } from '../constants/theme';
+import { CURRENCY_OPTIONS, useTheme, useTranslation } from '../contexts';
+
+interface CurrencySelectProps {
+  value: string;
+  onChange: (currency: string) => void;
+}
+
+// The currency of an amount on a form, as a pill that opens the currency list.
+// Amounts in other currencies than the app's are converted for totals with
+// the stored exchange rates.
+export function CurrencySelect({ value, onChange }: CurrencySelectProps) {
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  const [visible, setVisible] = useState(false);
+
+  return (
+    <>
+      <TouchableOpacity
+        onPress={() => setVisible(true)}
+        activeOpacity={0.7}
+        className={`flex-row items-center rounded-full px-3 py-1.5 ${isDark ? 'bg-slate-700' : 'bg-white'}`}
+      >
+        <Text className={`text-sm font-semibold mr-1 ${isDark ? 'text-slate-200' : 'text-slate-700'}`}>{value}</Text>
+        <ChevronDown size={14} color={isDark ? COLORS.slate[400] : COLORS.slate[500]} />
+      </TouchableOpacity>
+
+      <SelectDialog
+        visible={visible}
+        title={t('settingsScreen.dialogs.chooseCurrency')}
+        message={t('exchangeRates.pickerMessage')}
+        options={CURRENCY_OPTIONS}
+        cancelText={t('common.cancel')}
+        onCancel={() => setVisible(false)}
+        onSelect={currency => {
+          setVisible(false);
+          onChange(currency);
+        }}
+      />
+    </>
+  );
+}
+
+interface MissingRatesNoticeProps {
+  // Currencies with amounts no stored rate converts
+  currencies: string[];
+  onPress: () => void;
+}
+
+// Says which currencies are left out of the totals beside it, linking to the
+// exchange rates. Nothing is shown while every amount converts.
+export function MissingRatesNotice({ currencies, onPress }: MissingRatesNoticeProps) {
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  if (currencies.length === 0) return null;
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      activeOpacity={0.7}
+      className={`flex-row items-center px-4 py-3 rounded-xl ${isDark ? 'bg-amber-900/30' : 'bg-amber-50'}`}
+    >
+      <AlertTriangle size={18} color={COLORS.warning} />
+      <View className="flex-1 ml-3">
+        <Text className={`text-sm ${isDark ? 'text-amber-400' : 'text-amber-700'}`}>
+          {t('exchangeRates.missingRates', { currencies: currencies.join(', ') })}
+        </Text>
+        <Text className={`text-sm font-semibold mt-0.5 ${isDark ? 'text-amber-300' : 'text-amber-800'}`}>
+          {t('exchangeRates.addRates')}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
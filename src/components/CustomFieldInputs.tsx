@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Switch } from 'react-native';
+import { Calendar, X } from 'lucide-react-native';
+import { formatISO } from 'date-fns';
+import { CustomFieldDefinition, CustomFieldEntityType, CustomFieldValues, UUID } from '../types';
+import { customFieldRepository, customFieldValueRepository } from '../services/database';
+import { useQuery } from '../hooks';
+import { Card, Input, DatePickerModal } from './ui';
+import { COLORS } from '../constants/theme';
+import { formatDate, parseDate } from '../utils/date';
+import { useTheme, useTranslation } from '../contexts';
+
+// Keeps what can be part of a number; the value is checked when saved
+function cleanNumber(text: string): string {
+  return text.replace(/[^0-9.,-]/g, '');
+}
+
+export function formatCustomFieldValue(
+  definition: CustomFieldDefinition,
+  value: string,
+  t: (scope: string) => string
+): string {
+  switch (definition.fieldType) {
+    case 'date':
+      return formatDate(value);
+    case 'boolean':
+      return value === 'true' ? t('common.yes') : t('common.no');
+    default:
+      return value;
+  }
+}
+
+interface CustomFieldInputsProps {
+  entityType: CustomFieldEntityType;
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+}
+
+// Inputs for the custom fields of a record type, for its add and edit forms.
+// Nothing is shown until the user has defined a field. The form saves the
+// values with customFieldValueRepository.save.
+export function CustomFieldInputs({ entityType, values, onChange }: CustomFieldInputsProps) {
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  const { data: definitions = [] } = useQuery(
+    () => customFieldRepository.getByEntityType(entityType),
+    ['custom_field_definitions'],
+    [entityType]
+  );
+
+  const [dateFieldId, setDateFieldId] = useState<UUID | null>(null);
+  const [tempDate, setTempDate] = useState(new Date());
+
+  if (definitions.length === 0) return null;
+
+  const setValue = (id: UUID, value: string) => onChange({ ...values, [id]: value });
+
+  const labelClass = `text-sm font-semibold mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`;
+  const dateField = definitions.find(definition => definition.id === dateFieldId);
+
+  const renderInput = (definition: CustomFieldDefinition) => {
+    const value = values[definition.id] ?? '';
+
+    switch (definition.fieldType) {
+      case 'text':
+      case 'number':
+        return (
+          <Input
+            key={definition.id}
+            label={definition.name}
+            value={value}
+            onChangeText={text => setValue(definition.id, definition.fieldType === 'number' ? cleanNumber(text) : text)}
+            keyboardType={definition.fieldType === 'number' ? 'decimal-pad' : 'default'}
+            containerClassName="mb-4"
+          />
+        );
+
+      case 'date':
+        return (
+          <View key={definition.id} className="mb-4">
+            <Text className={labelClass}>{definition.name}</Text>
+            <View className={`flex-row items-center rounded-2xl px-4 py-3.5 ${isDark ? 'bg-slate-800' : 'bg-slate-50'}`}>
+              <TouchableOpacity
+                onPress={() => {
+                  setTempDate((value && parseDate(value)) || new Date());
+                  setDateFieldId(definition.id);
+                }}
+                activeOpacity={0.7}
+                className="flex-1 flex-row items-center"
+              >
+                <Calendar size={16} color={COLORS.slate[400]} />
+                <Text className={`text-base ml-2 ${value ? (isDark ? 'text-white' : 'text-slate-900') : 'text-slate-400'}`}>
+                  {value ? formatDate(value) : t('common.select')}
+                </Text>
+              </TouchableOpacity>
+              {value !== '' && (
+                <TouchableOpacity onPress={() => setValue(definition.id, '')} hitSlop={8}>
+                  <X size={16} color={COLORS.slate[400]} />
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        );
+
+      case 'select':
+        return (
+          <View key={definition.id} className="mb-4">
+            <Text className={labelClass}>{definition.name}</Text>
+            <View className="flex-row flex-wrap">
+              {['', ...definition.options].map(option => {
+                const isSelected = value === option;
+                return (
+                  <TouchableOpacity
+                    key={option || 'none'}
+                    onPress={() => setValue(definition.id, option)}
+                    activeOpacity={0.7}
+                    className={`px-4 py-2.5 rounded-xl mr-2 mb-2 border-2 ${
+                      isSelected
+                        ? 'border-primary-500 bg-primary-50'
+                        : isDark ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+                    }`}
+                  >
+                    <Text
+                      className={`text-sm font-medium ${
+                        isSelected ? 'text-primary-700' : isDark ? 'text-slate-300' : 'text-slate-700'
+                      }`}
+                    >
+                      {option || t('common.none')}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        );
+
+      case 'boolean':
+        return (
+          <View key={definition.id} className="flex-row items-center justify-between mb-4">
+            <Text className={`flex-1 text-sm font-semibold ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+              {definition.name}
+            </Text>
+            <Switch
+              value={value === 'true'}
+              onValueChange={checked => setValue(definition.id, checked ? 'true' : 'false')}
+              trackColor={{ false: COLORS.slate[300], true: COLORS.primary[500] }}
+            />
+          </View>
+        );
+    }
+  };
+
+  return (
+    <View>
+      {definitions.map(renderInput)}
+
+      <DatePickerModal
+        visible={dateField !== undefined}
+        value={tempDate}
+        title={dateField?.name}
+        onChange={setTempDate}
+        onClose={() => setDateFieldId(null)}
+        onConfirm={() => {
+          if (dateFieldId) setValue(dateFieldId, formatISO(tempDate, { representation: 'date' }));
+          setDateFieldId(null);
+        }}
+      />
+    </View>
+  );
+}
+
+interface CustomFieldListProps {
+  entityType: CustomFieldEntityType;
+  entityId: UUID;
+  className?: string;
+}
+
+// A saved record's custom field values under a section title. Fields left
+// empty are skipped and nothing is shown when all of them are.
+export function CustomFieldList({ entityType, entityId, className = '' }: CustomFieldListProps) {
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  const { data } = useQuery(
+    async () => ({
+      definitions: await customFieldRepository.getByEntityType(entityType),
+      values: await customFieldValueRepository.getByEntity(entityType, entityId),
+    }),
+    ['custom_field_definitions', 'custom_field_values'],
+    [entityType, entityId]
+  );
+
+  const filled = data?.definitions.filter(definition => data.values[definition.id]) ?? [];
+  if (!data || filled.length === 0) return null;
+
+  return (
+    <View className={className}>
+      <Text className={`text-sm font-semibold uppercase tracking-wide mb-3 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+        {t('customFields.title')}
+      </Text>
+      <Card variant="default" padding="md">
+        <View className="gap-2.5">
+          {filled.map(definition => (
+            <View key={definition.id} className="flex-row">
+              <Text className={`text-sm w-2/5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{definition.name}</Text>
+              <Text className={`flex-1 text-sm font-medium ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                {formatCustomFieldValue(definition, data.values[definition.id], t)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      </Card>
+    </View>
+  );
+}
@@ -0,0 +1,321 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Switch, TextInput } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Plus, Split, UserRound, X } from 'lucide-react-native';
+import { RootStackParamList } from '../navigation/types';
+import { ExpenseSplit, ExpenseSplitData, UUID } from '../types';
+import {
+  getShareAmount,
+  householdMemberRepository,
+  propertyRepository,
+  roomRepository,
+} from '../services/database';
+import { useQuery } from '../hooks';
+import { COLORS } from '../constants/theme';
+import { formatCurrency, getCurrencySymbol, parseCurrencyInput } from '../utils/currency';
+import { generateUUID } from '../utils/uuid';
+import { useTheme, useTranslation } from '../contexts';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+// A share as the form edits it, with its value as typed
+export interface SplitDraft {
+  key: string;
+  propertyId: UUID;
+  roomId?: UUID;
+  memberId?: UUID;
+  mode: 'percent' | 'amount';
+  value: string;
+}
+
+function parsePercent(value: string): number {
+  return parseFloat(value.replace(',', '.')) || 0;
+}
+
+function formatPercent(percent: number): string {
+  return String(Math.round(percent * 100) / 100);
+}
+
+export function toSplitDrafts(splits: ExpenseSplit[]): SplitDraft[] {
+  return splits.map(split => ({
+    key: split.id,
+    propertyId: split.propertyId,
+    roomId: split.roomId,
+    memberId: split.memberId,
+    mode: split.percent !== undefined ? 'percent' : 'amount',
+    value: split.percent !== undefined ? formatPercent(split.percent) : String(split.amount ?? 0),
+  }));
+}
+
+export function toSplitData(drafts: SplitDraft[], currency: string): ExpenseSplitData[] {
+  return drafts.map(draft => ({
+    propertyId: draft.propertyId,
+    roomId: draft.roomId,
+    memberId: draft.memberId,
+    percent: draft.mode === 'percent' ? parsePercent(draft.value) : undefined,
+    amount: draft.mode === 'amount' ? parseCurrencyInput(draft.value, currency) : undefined,
+  }));
+}
+
+interface ExpenseSplitEditorProps {
+  // The expense's own property, which new shares start with
+  propertyId: UUID;
+  amount: number;
+  currency: string;
+  paidByMemberId?: UUID;
+  onPaidByChange: (memberId: UUID | undefined) => void;
+  splits: SplitDraft[];
+  onSplitsChange: (splits: SplitDraft[]) => void;
+}
+
+// "Paid by" and the shares of an expense across properties, rooms and
+// household members, for the expense forms. Without shares the expense
+// belongs whole to its property and room. The form saves the shares with
+// expenseSplitRepository.replaceForExpense.
+export function ExpenseSplitEditor({
+  propertyId,
+  amount,
+  currency,
+  paidByMemberId,
+  onPaidByChange,
+  splits,
+  onSplitsChange,
+}: ExpenseSplitEditorProps) {
+  const navigation = useNavigation<NavigationProp>();
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  const { data } = useQuery(
+    async () => {
+      const [properties, rooms, members] = await Promise.all([
+        propertyRepository.getAll(),
+        roomRepository.getAll(),
+        householdMemberRepository.getAll(),
+      ]);
+      return { properties, rooms, members };
+    },
+    ['properties', 'rooms', 'household_members']
+  );
+  const properties = data?.properties ?? [];
+  const rooms = data?.rooms ?? [];
+  const members = data?.members ?? [];
+
+  const shares = toSplitData(splits, currency).map(split => getShareAmount(split, amount));
+  const remaining = amount - shares.reduce((sum, share) => sum + share, 0);
+
+  const updateSplit = (key: string, changes: Partial<SplitDraft>) =>
+    onSplitsChange(splits.map(split => (split.key === key ? { ...split, ...changes } : split)));
+
+  // A new share takes what is left, as a percentage while all shares are
+  const addSplit = (list: SplitDraft[] = splits) => {
+    const allPercent = list.every(split => split.mode === 'percent');
+    const left = allPercent
+      ? 100 - list.reduce((sum, split) => sum + parsePercent(split.value), 0)
+      : remaining;
+    onSplitsChange([
+      ...list,
+      {
+        key: generateUUID(),
+        propertyId,
+        mode: allPercent ? 'percent' : 'amount',
+        value: left > 0 ? (allPercent ? formatPercent(left) : String(Math.round(left * 100) / 100)) : '',
+      },
+    ]);
+  };
+
+  // Equal percentages, the last one rounded so they add up to 100
+  const splitEvenly = () => {
+    const each = Math.floor((100 / splits.length) * 100) / 100;
+    onSplitsChange(splits.map((split, index) => ({
+      ...split,
+      mode: 'percent',
+      value: formatPercent(index === splits.length - 1 ? 100 - each * (splits.length - 1) : each),
+    })));
+  };
+
+  const chipClass = (selected: boolean) =>
+    `px-3 py-1.5 rounded-lg mr-2 border ${
+      selected
+        ? isDark ? 'border-primary-500 bg-primary-900/40' : 'border-primary-500 bg-primary-50'
+        : isDark ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+    }`;
+  const chipTextClass = (selected: boolean) =>
+    `text-sm font-medium ${selected ? 'text-primary-700' : isDark ? 'text-slate-300' : 'text-slate-700'}`;
+  const labelClass = `text-xs font-medium mb-1.5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`;
+
+  const renderChips = <T extends string>(
+    options: Array<{ value: T | undefined; label: string }>,
+    selected: T | undefined,
+    onSelect: (value: T | undefined) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value ?? 'none'}
+          onPress={() => onSelect(option.value)}
+          activeOpacity={0.7}
+          className={chipClass(selected === option.value)}
+        >
+          <Text className={chipTextClass(selected === option.value)}>{option.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const memberOptions = [
+    { value: undefined, label: t('common.none') },
+    ...members.map(member => ({ value: member.id, label: member.name })),
+  ];
+
+  return (
+    <View className="mb-4">
+      {/* Paid by */}
+      <View className="mb-4">
+        <View className="flex-row items-center justify-between mb-2">
+          <View className="flex-row items-center">
+            <UserRound size={16} color={isDark ? COLORS.slate[400] : COLORS.slate[500]} />
+            <Text className={`text-sm font-medium ml-1.5 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+              {t('expenseSplits.paidBy')}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => navigation.navigate('SettleUp')} hitSlop={8}>
+            <Text className="text-sm font-semibold text-primary-600">
+              {members.length > 0 ? t('expenseSplits.manageMembers') : t('expenseSplits.addMembers')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {members.length > 0
+          ? renderChips(memberOptions, paidByMemberId, onPaidByChange)
+          : (
+            <Text className={`text-sm ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+              {t('expenseSplits.noMembersHint')}
+            </Text>
+          )}
+      </View>
+
+      {/* Split */}
+      <View className="flex-row items-center justify-between mb-2">
+        <View className="flex-row items-center flex-1">
+          <Split size={16} color={isDark ? COLORS.slate[400] : COLORS.slate[500]} />
+          <Text className={`text-sm font-medium ml-1.5 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+            {t('expenseSplits.splitExpense')}
+          </Text>
+        </View>
+        <Switch
+          value={splits.length > 0}
+          onValueChange={enabled => (enabled ? addSplit([]) : onSplitsChange([]))}
+          trackColor={{ false: COLORS.slate[300], true: COLORS.primary[500] }}
+        />
+      </View>
+
+      {splits.length > 0 && (
+        <View>
+          {splits.map((split, index) => {
+            const propertyRooms = rooms.filter(room => room.propertyId === split.propertyId);
+            return (
+              <View
+                key={split.key}
+                className={`rounded-xl p-3 mb-2 border ${isDark ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-200'}`}
+              >
+                <View className="flex-row items-center justify-between mb-2">
+                  <Text className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                    {t('expenseSplits.share', { number: index + 1 })}
+                  </Text>
+                  <View className="flex-row items-center">
+                    <Text className="text-sm font-semibold text-primary-600 mr-3">
+                      {formatCurrency(shares[index], currency)}
+                    </Text>
+                    <TouchableOpacity onPress={() => onSplitsChange(splits.filter(s => s.key !== split.key))} hitSlop={8}>
+                      <X size={16} color={COLORS.slate[400]} />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+
+                <Text className={labelClass}>{t('expenseSplits.property')}</Text>
+                {renderChips(
+                  properties.map(property => ({ value: property.id, label: property.name })),
+                  split.propertyId,
+                  value => value && updateSplit(split.key, { propertyId: value, roomId: undefined })
+                )}
+
+                {propertyRooms.length > 0 && (
+                  <View className="mt-2">
+                    <Text className={labelClass}>{t('expenseSplits.room')}</Text>
+                    {renderChips(
+                      [
+                        { value: undefined, label: t('expenseSplits.wholeProperty') },
+                        ...propertyRooms.map(room => ({ value: room.id, label: room.name })),
+                      ],
+                      split.roomId,
+                      value => updateSplit(split.key, { roomId: value })
+                    )}
+                  </View>
+                )}
+
+                {members.length > 0 && (
+                  <View className="mt-2">
+                    <Text className={labelClass}>{t('expenseSplits.owedBy')}</Text>
+                    {renderChips(memberOptions, split.memberId, value => updateSplit(split.key, { memberId: value }))}
+                  </View>
+                )}
+
+                <View className="flex-row items-center mt-3">
+                  <View className={`flex-row rounded-lg overflow-hidden border ${isDark ? 'border-slate-700' : 'border-slate-200'}`}>
+                    {(['percent', 'amount'] as const).map(mode => (
+                      <TouchableOpacity
+                        key={mode}
+                        onPress={() => updateSplit(split.key, { mode, value: '' })}
+                        activeOpacity={0.7}
+                        className={`px-3 py-2 ${split.mode === mode ? 'bg-primary-500' : isDark ? 'bg-slate-800' : 'bg-white'}`}
+                      >
+                        <Text className={`text-sm font-semibold ${split.mode === mode ? 'text-white' : isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                          {mode === 'percent' ? '%' : getCurrencySymbol(currency)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <TextInput
+                    value={split.value}
+                    onChangeText={text => updateSplit(split.key, { value: text.replace(/[^\d.,]/g, '') })}
+                    keyboardType="decimal-pad"
+                    placeholder={split.mode === 'percent' ? '50' : '0,00'}
+                    placeholderTextColor={COLORS.slate[400]}
+                    className={`flex-1 ml-2 rounded-lg px-3 py-2 text-base border ${
+                      isDark ? 'bg-slate-900 border-slate-700 text-white' : 'bg-white border-slate-200 text-slate-900'
+                    }`}
+                  />
+                </View>
+              </View>
+            );
+          })}
+
+          <View className="flex-row items-center justify-between mt-1">
+            <Text
+              className={`text-sm font-medium ${
+                Math.abs(remaining) < 0.005 ? 'text-green-600' : 'text-amber-600'
+              }`}
+            >
+              {Math.abs(remaining) < 0.005
+                ? t('expenseSplits.addsUp')
+                : remaining > 0
+                  ? t('expenseSplits.remaining', { amount: formatCurrency(remaining, currency) })
+                  : t('expenseSplits.over', { amount: formatCurrency(-remaining, currency) })}
+            </Text>
+            <View className="flex-row">
+              {splits.length > 1 && (
+                <TouchableOpacity onPress={splitEvenly} activeOpacity={0.7} className="px-2 py-1">
+                  <Text className="text-sm font-semibold text-primary-600">{t('expenseSplits.splitEvenly')}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => addSplit()} activeOpacity={0.7} className="flex-row items-center px-2 py-1">
+                <Plus size={14} color={COLORS.primary[600]} />
+                <Text className="text-sm font-semibold text-primary-600 ml-1">{t('expenseSplits.addShare')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
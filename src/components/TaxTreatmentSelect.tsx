@@ -0,0 +1,60 @@
+import React from 'react';
+import { View, Text, ScrollView, TouchableOpacity } from 'react-native';
+import { Landmark } from 'lucide-react-native';
+import { TaxTreatment } from '../types';
+import { TAX_TREATMENTS } from '../services/database/entities';
+import { COLORS } from '../constants/theme';
+import { useTheme, useTranslation } from '../contexts';
+
+interface TaxTreatmentSelectProps {
+  value?: TaxTreatment;
+  onChange: (value: TaxTreatment | undefined) => void;
+}
+
+// How a cost counts on a tax return, as chips. "Not set" leaves it untagged,
+// and the annual tax summary lists it apart.
+export function TaxTreatmentSelect({ value, onChange }: TaxTreatmentSelectProps) {
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  const options: Array<{ value: TaxTreatment | undefined; label: string }> = [
+    { value: undefined, label: t('taxSummary.treatments.none') },
+    ...TAX_TREATMENTS.map(treatment => ({ value: treatment, label: t(`taxSummary.treatments.${treatment}`) })),
+  ];
+
+  return (
+    <View className="mb-4">
+      <View className="flex-row items-center mb-2">
+        <Landmark size={16} color={isDark ? COLORS.slate[400] : COLORS.slate[500]} />
+        <Text className={`text-sm font-medium ml-1.5 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+          {t('taxSummary.treatment')}
+        </Text>
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {options.map(option => {
+          const selected = value === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value ?? 'none'}
+              onPress={() => onChange(option.value)}
+              activeOpacity={0.7}
+              className={`px-3 py-1.5 rounded-lg mr-2 border ${
+                selected
+                  ? isDark ? 'border-primary-500 bg-primary-900/40' : 'border-primary-500 bg-primary-50'
+                  : isDark ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-white'
+              }`}
+            >
+              <Text
+                className={`text-sm font-medium ${
+                  selected ? 'text-primary-700' : isDark ? 'text-slate-300' : 'text-slate-700'
+                }`}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
@@ -30,6 +30,8 @@ interface AssetSelectionModalProps {
   visible: boolean;
   assets: Asset[];
   selectedAssets: SelectedAsset[];
+  // The expense's currency, which the amounts are in
+  currency?: string;
   onCancel: () => void;
   onConfirm: (selected: SelectedAsset[]) => void;
 }
@@ -38,6 +40,7 @@ export function AssetSelectionModal({
   visible,
   assets,
   selectedAssets: initialSelected,
+  currency,
   onCancel,
   onConfirm,
 }: AssetSelectionModalProps) {
@@ -161,7 +164,7 @@ export function AssetSelectionModal({
                         {selected.length} asset{selected.length > 1 ? 's' : ''} selected
                       </Text>
                       <Text className={`text-sm font-bold ${isDark ? 'text-primary-400' : 'text-primary-700'}`}>
-                        Total: {formatCurrency(getTotalAmount())}
+                        Total: {formatCurrency(getTotalAmount(), currency)}
                       </Text>
                     </View>
                   </View>
@@ -202,7 +205,7 @@ export function AssetSelectionModal({
                           </View>
                           <View className="flex-row items-center">
                             <Text className={`text-sm mr-1 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
-                              {getCurrencySymbol()}
+                              {getCurrencySymbol(currency)}
                             </Text>
                             {editingAssetId === item.assetId ? (
                               <TextInput
@@ -1,13 +1,14 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { settingsRepository } from '../services/database/repositories/settingsRepository';
 import { AppSettings } from '../types';
-import { updateCurrencyCache } from '../utils/currency';
+import { updateCurrencyCache, updateReportingCurrencyCache } from '../utils/currency';
 import { updateDateCache } from '../utils/date';
 
 interface SettingsContextType {
   settings: AppSettings | null;
   isLoading: boolean;
   updateCurrency: (currency: string) => Promise<void>;
+  updateReportingCurrency: (currency: string) => Promise<void>;
   updateDateFormat: (dateFormat: string) => Promise<void>;
   updatePhotoQuality: (quality: AppSettings['photoQuality']) => Promise<void>;
   updateEncryptExports: (enabled: boolean) => Promise<void>;
@@ -63,6 +64,7 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
       if (data?.currency) {
         updateCurrencyCache(data.currency);
       }
+      updateReportingCurrencyCache(data?.reportingCurrency);
       if (data?.dateFormat) {
         updateDateCache(data.dateFormat);
       }
@@ -91,6 +93,21 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     }
   }, []);
 
+  // An empty currency reports in the app currency
+  const updateReportingCurrency = useCallback(async (currency: string) => {
+    try {
+      await settingsRepository.setReportingCurrency(currency);
+      setSettings(prev => {
+        if (!prev) return prev;
+        return { ...prev, reportingCurrency: currency || undefined };
+      });
+      updateReportingCurrencyCache(currency);
+    } catch (error) {
+      console.error('Failed to update reporting currency:', error);
+      throw error;
+    }
+  }, []);
+
   const updateDateFormat = useCallback(async (dateFormat: string) => {
     try {
       await settingsRepository.setDateFormat(dateFormat);
@@ -139,6 +156,7 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     settings,
     isLoading,
     updateCurrency,
+    updateReportingCurrency,
     updateDateFormat,
     updatePhotoQuality,
     updateEncryptExports,
@@ -0,0 +1,4 @@
+export { useQuery } from './useQuery';
+export type { QueryDependency, QueryResult } from './useQuery';
+export { usePaginatedQuery } from './usePaginatedQuery';
+export type { PaginatedQueryResult } from './usePaginatedQuery';
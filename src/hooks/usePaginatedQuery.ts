@@ -0,0 +1,114 @@
+import { DependencyList, useCallback, useEffect, useRef, useState } from 'react';
+import { subscribeToChanges } from '../services/database';
+import { Page, PageCursor } from '../types';
+import { isAffected, QueryDependency } from './useQuery';
+
+export interface PaginatedQueryResult<T> {
+  items: T[];
+  loading: boolean;
+  refreshing: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  error: unknown;
+  // Fetches the next page, e.g. when the list is scrolled near its end
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+// useQuery for lists read a page at a time. A change to a dependency reloads
+// as many items as are already shown, so the list keeps its length and the
+// user's scroll position; a change to `deps` starts over from the first page.
+export function usePaginatedQuery<T>(
+  fetchPage: (cursor: PageCursor | null, limit: number) => Promise<Page<T>>,
+  dependencies: QueryDependency[],
+  deps: DependencyList = [],
+  pageSize: number = 50
+): PaginatedQueryResult<T> {
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const fetchPageRef = useRef(fetchPage);
+  const dependenciesRef = useRef(dependencies);
+  fetchPageRef.current = fetchPage;
+  dependenciesRef.current = dependencies;
+
+  const cursorRef = useRef<PageCursor | null>(null);
+  const loadedRef = useRef(0);
+  const runIdRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  const mountedRef = useRef(true);
+
+  const reload = useCallback(async (keepLoaded: boolean) => {
+    const runId = ++runIdRef.current;
+    const limit = keepLoaded ? Math.max(pageSize, loadedRef.current) : pageSize;
+    try {
+      const page = await fetchPageRef.current(null, limit);
+      if (!mountedRef.current || runId !== runIdRef.current) return;
+      cursorRef.current = page.nextCursor;
+      loadedRef.current = page.items.length;
+      setItems(page.items);
+      setHasMore(page.nextCursor !== null);
+      setError(null);
+    } catch (e) {
+      if (!mountedRef.current || runId !== runIdRef.current) return;
+      console.error('Query failed:', e);
+      setError(e);
+    } finally {
+      if (mountedRef.current && runId === runIdRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  }, [pageSize]);
+
+  const loadMore = useCallback(async () => {
+    const cursor = cursorRef.current;
+    if (!cursor || loadingMoreRef.current) return;
+
+    const runId = runIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPageRef.current(cursor, pageSize);
+      // A reload since this started already covers these rows
+      if (!mountedRef.current || runId !== runIdRef.current) return;
+      cursorRef.current = page.nextCursor;
+      loadedRef.current += page.items.length;
+      setItems(prev => [...prev, ...page.items]);
+      setHasMore(page.nextCursor !== null);
+    } catch (e) {
+      console.error('Loading more failed:', e);
+    } finally {
+      loadingMoreRef.current = false;
+      if (mountedRef.current) setLoadingMore(false);
+    }
+  }, [pageSize]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    reload(false);
+  }, deps);
+
+  useEffect(() => subscribeToChanges(changes => {
+    if (isAffected(dependenciesRef.current, changes)) {
+      reload(true);
+    }
+  }), [reload]);
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    await reload(true);
+  }, [reload]);
+
+  return { items, loading, refreshing, loadingMore, hasMore, error, loadMore, refresh };
+}
@@ -0,0 +1,88 @@
+import { DependencyList, useCallback, useEffect, useRef, useState } from 'react';
+import { subscribeToChanges, TableChange } from '../services/database';
+
+// A table the query reads, optionally narrowed to the rows it shows
+export type QueryDependency = string | { table: string; ids: string[] };
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  loading: boolean;
+  refreshing: boolean;
+  error: unknown;
+  // Re-runs the query, e.g. for pull-to-refresh
+  refresh: () => Promise<void>;
+}
+
+export function isAffected(dependencies: QueryDependency[], changes: TableChange[]): boolean {
+  return changes.some(change => dependencies.some(dependency => {
+    if (typeof dependency === 'string') return dependency === change.table;
+    if (dependency.table !== change.table) return false;
+    return change.ids.length === 0 || change.ids.some(id => dependency.ids.includes(id));
+  }));
+}
+
+// Runs `fetcher` on mount and again whenever `deps` change or a write
+// touches one of the tables it depends on. A newer run replaces one still
+// in flight, whose result is dropped.
+export function useQuery<T>(
+  fetcher: () => Promise<T>,
+  dependencies: QueryDependency[],
+  deps: DependencyList = []
+): QueryResult<T> {
+  const [data, setData] = useState<T | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  // Always call the latest fetcher and dependency list without resubscribing
+  const fetcherRef = useRef(fetcher);
+  const dependenciesRef = useRef(dependencies);
+  fetcherRef.current = fetcher;
+  dependenciesRef.current = dependencies;
+
+  const runIdRef = useRef(0);
+  const mountedRef = useRef(true);
+
+  const run = useCallback(async () => {
+    const runId = ++runIdRef.current;
+    try {
+      const result = await fetcherRef.current();
+      if (!mountedRef.current || runId !== runIdRef.current) return;
+      setData(result);
+      setError(null);
+    } catch (e) {
+      if (!mountedRef.current || runId !== runIdRef.current) return;
+      console.error('Query failed:', e);
+      setError(e);
+    } finally {
+      if (mountedRef.current && runId === runIdRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    run();
+  }, deps);
+
+  useEffect(() => subscribeToChanges(changes => {
+    if (isAffected(dependenciesRef.current, changes)) {
+      run();
+    }
+  }), [run]);
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    await run();
+  }, [run]);
+
+  return { data, loading, refreshing, error, refresh };
+}
@@ -7,6 +7,7 @@ import { TabNavigator } from './TabNavigator';
 import { PropertyDetailScreen } from '../screens/properties/PropertyDetailScreen';
 import { AddPropertyScreen } from '../screens/properties/AddPropertyScreen';
 import { EditPropertyScreen } from '../screens/properties/EditPropertyScreen';
+import { PropertyHandoverScreen } from '../screens/properties/PropertyHandoverScreen';
 
 // Room screens
 import { RoomDetailScreen } from '../screens/rooms/RoomDetailScreen';
@@ -17,7 +18,7 @@ import { EditRoomScreen } from '../screens/rooms/EditRoomScreen';
 import { AddAssetScreen, AssetDetailScreen, EditAssetScreen, PropertyAssetsScreen } from '../screens/assets';
 
 // Expense screens
-import { AddExpenseScreen, ExpenseDetailScreen, EditExpenseScreen, PropertyExpensesScreen } from '../screens/expenses';
+import { AddExpenseScreen, ExpenseDetailScreen, EditExpenseScreen, PropertyExpensesScreen, StatementImportScreen } from '../screens/expenses';
 
 // Worker screens
 import { AddWorkerScreen, WorkerDetailScreen, EditWorkerScreen } from '../screens/workers';
@@ -37,8 +38,19 @@ import { RenovationsScreen, RenovationDetailScreen } from '../screens/renovation
 import { BillTemplatesScreen } from '../screens/bills';
 import { NotificationsScreen } from '../screens/notifications';
 import { NotesScreen } from '../screens/notes';
-import { ReportsScreen } from '../screens/reports';
+import { ReportsScreen, TaxSummaryScreen } from '../screens/reports';
+import { BudgetsScreen } from '../screens/budgets';
+import { RentalScreen, LeaseFormScreen } from '../screens/rentals';
 import { ManageCategoriesScreen } from '../screens/settings/ManageCategoriesScreen';
+import { ManageCustomFieldsScreen } from '../screens/settings/ManageCustomFieldsScreen';
+import { ExchangeRatesScreen } from '../screens/settings/ExchangeRatesScreen';
+import { SettleUpScreen } from '../screens/settings/SettleUpScreen';
+import { MergeImportScreen } from '../screens/settings/MergeImportScreen';
+import { BackupHistoryScreen } from '../screens/settings/BackupHistoryScreen';
+import { SpreadsheetExportScreen } from '../screens/settings/SpreadsheetExportScreen';
+import { TrashScreen } from '../screens/settings/TrashScreen';
+import { DiagnosticsScreen } from '../screens/settings/DiagnosticsScreen';
+import { StorageScreen } from '../screens/settings/StorageScreen';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
@@ -65,6 +77,7 @@ export function RootNavigator() {
         component={EditPropertyScreen}
         options={{ animation: 'slide_from_bottom', presentation: 'modal' }}
       />
+      <Stack.Screen name="PropertyHandover" component={PropertyHandoverScreen} />
 
       {/* Room screens */}
       <Stack.Screen name="RoomDetail" component={RoomDetailScreen} />
@@ -133,10 +146,24 @@ export function RootNavigator() {
       <Stack.Screen name="BillTemplates" component={BillTemplatesScreen} />
       <Stack.Screen name="Notifications" component={NotificationsScreen} />
       <Stack.Screen name="PropertyExpenses" component={PropertyExpensesScreen} />
+      <Stack.Screen name="StatementImport" component={StatementImportScreen} />
       <Stack.Screen name="PropertyAssets" component={PropertyAssetsScreen} />
       <Stack.Screen name="Notes" component={NotesScreen} />
       <Stack.Screen name="Reports" component={ReportsScreen} />
+      <Stack.Screen name="Budgets" component={BudgetsScreen} />
+      <Stack.Screen name="Rental" component={RentalScreen} />
+      <Stack.Screen name="LeaseForm" component={LeaseFormScreen} />
+      <Stack.Screen name="TaxSummary" component={TaxSummaryScreen} />
       <Stack.Screen name="ManageCategories" component={ManageCategoriesScreen} />
+      <Stack.Screen name="ManageCustomFields" component={ManageCustomFieldsScreen} />
+      <Stack.Screen name="ExchangeRates" component={ExchangeRatesScreen} />
+      <Stack.Screen name="SettleUp" component={SettleUpScreen} />
+      <Stack.Screen name="MergeImport" component={MergeImportScreen} />
+      <Stack.Screen name="BackupHistory" component={BackupHistoryScreen} />
+      <Stack.Screen name="SpreadsheetExport" component={SpreadsheetExportScreen} />
+      <Stack.Screen name="Trash" component={TrashScreen} />
+      <Stack.Screen name="Diagnostics" component={DiagnosticsScreen} />
+      <Stack.Screen name="Storage" component={StorageScreen} />
     </Stack.Navigator>
   );
 }
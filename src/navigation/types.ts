@@ -20,6 +20,7 @@ export type RootStackParamList = {
   ExpenseDetail: { expenseId: UUID };
   AddProperty: undefined;
   EditProperty: { propertyId: UUID };
+  PropertyHandover: { propertyId: UUID };
   AddRoom: { propertyId: UUID };
   EditRoom: { roomId: UUID };
   AddAsset: { propertyId: UUID; roomId?: UUID };
@@ -42,10 +43,24 @@ export type RootStackParamList = {
   BillTemplates: { propertyId: UUID };
   Notifications: undefined;
   PropertyExpenses: { propertyId: UUID };
+  StatementImport: { propertyId: UUID };
   PropertyAssets: { propertyId: UUID };
   Notes: { propertyId: UUID };
   Reports: undefined;
   ManageCategories: undefined;
+  ManageCustomFields: undefined;
+  ExchangeRates: undefined;
+  SettleUp: undefined;
+  Budgets: { propertyId?: UUID } | undefined;
+  Rental: { propertyId: UUID };
+  LeaseForm: { propertyId: UUID; leaseId?: UUID };
+  TaxSummary: undefined;
+  MergeImport: undefined;
+  BackupHistory: undefined;
+  SpreadsheetExport: { propertyId?: UUID } | undefined;
+  Trash: undefined;
+  Diagnostics: undefined;
+  Storage: undefined;
 };
 
 declare global {
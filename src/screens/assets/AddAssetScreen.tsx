@@ -4,7 +4,6 @@ import {
   Text,
   ScrollView,
   TouchableOpacity,
-  Image,
   Alert,
   KeyboardAvoidingView,
   Platform,
@@ -13,23 +12,26 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import * as ImagePicker from 'expo-image-picker';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import {
   X,
-  Camera,
   Check,
   Calendar,
   DollarSign,
   Shield,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { AssetCategory, Room } from '../../types';
-import { assetRepository, roomRepository } from '../../services/database';
+import { AssetCategory, AttachmentDraft, CustomFieldValues, Room } from '../../types';
+import { assetRepository, roomRepository, attachmentRepository, customFieldValueRepository } from '../../services/database';
 import { Button, Input, IconButton, TextArea, DatePickerModal } from '../../components/ui';
+import { AttachmentPicker } from '../../components/AttachmentGallery';
+import { CustomFieldInputs } from '../../components/CustomFieldInputs';
+import { CurrencySelect } from '../../components/CurrencySelect';
 import { COLORS, ASSET_CATEGORIES } from '../../constants/theme';
 import { format, formatISO } from 'date-fns';
 import { useTranslation, useTheme } from '../../contexts';
+import { describeSaveError } from '../../utils/validation';
+import { getCachedCurrency, getCurrencySymbol } from '../../utils/currency';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type AddAssetRouteProp = RouteProp<RootStackParamList, 'AddAsset'>;
@@ -66,9 +68,11 @@ export function AddAssetScreen() {
   const [serialNumber, setSerialNumber] = useState('');
   const [purchaseDate, setPurchaseDate] = useState<Date | undefined>();
   const [purchasePrice, setPurchasePrice] = useState('');
+  const [purchaseCurrency, setPurchaseCurrency] = useState(getCachedCurrency());
   const [warrantyEndDate, setWarrantyEndDate] = useState<Date | undefined>();
   const [notes, setNotes] = useState('');
-  const [imageUri, setImageUri] = useState<string | undefined>();
+  const [attachments, setAttachments] = useState<AttachmentDraft[]>([]);
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
   const [loading, setLoading] = useState(false);
   const [rooms, setRooms] = useState<Room[]>([]);
   const [selectedRoomId, setSelectedRoomId] = useState<string | undefined>(route.params.roomId);
@@ -92,43 +96,6 @@ export function AddAssetScreen() {
     loadRooms();
   }, [loadRooms]);
 
-  const handlePickImage = async () => {
-    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
-    if (!permission.granted) {
-      Alert.alert(t('common.permissionRequired'), t('permissions.photosDescription'));
-      return;
-    }
-
-    const result = await ImagePicker.launchImageLibraryAsync({
-      mediaTypes: ImagePicker.MediaTypeOptions.Images,
-      allowsEditing: true,
-      aspect: [1, 1],
-      quality: 0.8,
-    });
-
-    if (!result.canceled && result.assets[0]) {
-      setImageUri(result.assets[0].uri);
-    }
-  };
-
-  const handleTakePhoto = async () => {
-    const permission = await ImagePicker.requestCameraPermissionsAsync();
-    if (!permission.granted) {
-      Alert.alert(t('common.permissionRequired'), t('permissions.cameraDescription'));
-      return;
-    }
-
-    const result = await ImagePicker.launchCameraAsync({
-      allowsEditing: true,
-      aspect: [1, 1],
-      quality: 0.8,
-    });
-
-    if (!result.canceled && result.assets[0]) {
-      setImageUri(result.assets[0].uri);
-    }
-  };
-
   const handleSave = async () => {
     if (!name.trim()) {
       Alert.alert(t('common.required'), t('common.required'));
@@ -138,7 +105,7 @@ export function AddAssetScreen() {
     setLoading(true);
 
     try {
-      await assetRepository.create({
+      const asset = await assetRepository.create({
         propertyId: route.params.propertyId,
         roomId: selectedRoomId,
         name: name.trim(),
@@ -148,15 +115,17 @@ export function AddAssetScreen() {
         serialNumber: serialNumber.trim() || undefined,
         purchaseDate: purchaseDate ? formatISO(purchaseDate, { representation: 'date' }) : undefined,
         purchasePrice: purchasePrice ? parseFloat(purchasePrice) : undefined,
+        purchaseCurrency: purchasePrice ? purchaseCurrency : undefined,
         warrantyEndDate: warrantyEndDate ? formatISO(warrantyEndDate, { representation: 'date' }) : undefined,
         notes: notes.trim() || undefined,
-        imageUri,
       });
+      await attachmentRepository.saveDrafts('asset', asset.id, attachments);
+      await customFieldValueRepository.save('asset', asset.id, customValues);
 
       navigation.goBack();
     } catch (error) {
       console.error('Failed to create asset:', error);
-      Alert.alert(t('common.error'), t('common.tryAgain'));
+      Alert.alert(t('common.error'), describeSaveError(error, t('common.tryAgain'), t));
     } finally {
       setLoading(false);
     }
@@ -224,47 +193,10 @@ export function AddAssetScreen() {
           showsVerticalScrollIndicator={false}
           keyboardShouldPersistTaps="handled"
         >
-          {/* Photo Section */}
+          {/* Photos and manuals */}
           <View className="mb-6">
-            <Text className="text-sm font-medium text-slate-700 mb-2">{t('property.photo')}</Text>
-            <View className="flex-row items-center">
-              <TouchableOpacity
-                onPress={handlePickImage}
-                activeOpacity={0.8}
-                className="w-24 h-24 rounded-2xl overflow-hidden bg-slate-100 items-center justify-center"
-              >
-                {imageUri ? (
-                  <Image
-                    source={{ uri: imageUri }}
-                    className="w-full h-full"
-                    resizeMode="cover"
-                  />
-                ) : (
-                  <View className="items-center">
-                    <Camera size={28} color={COLORS.slate[400]} />
-                    <Text className="text-xs text-slate-500 mt-1">{t('worker.addPhoto')}</Text>
-                  </View>
-                )}
-              </TouchableOpacity>
-
-              {imageUri && (
-                <View className="ml-3 gap-2">
-                  <Button
-                    title={t('common.change')}
-                    variant="outline"
-                    size="sm"
-                    onPress={handlePickImage}
-                  />
-                  <Button
-                    title={t('property.takePhoto')}
-                    variant="outline"
-                    size="sm"
-                    icon={<Camera size={14} color={COLORS.slate[700]} />}
-                    onPress={handleTakePhoto}
-                  />
-                </View>
-              )}
-            </View>
+            <Text className="text-sm font-medium text-slate-700 mb-2">{t('attachments.title')}</Text>
+            <AttachmentPicker value={attachments} onChange={setAttachments} />
           </View>
 
           {/* Name */}
@@ -394,10 +326,15 @@ export function AddAssetScreen() {
                   value={purchasePrice}
                   onChangeText={setPurchasePrice}
                   keyboardType="decimal-pad"
-                  leftIcon={<Text className="text-slate-500">$</Text>}
+                  leftIcon={<Text className="text-slate-500">{getCurrencySymbol(purchaseCurrency)}</Text>}
                 />
               </View>
             </View>
+
+            <View className="flex-row items-center justify-between">
+              <Text className="text-xs text-slate-500">{t('exchangeRates.currency')}</Text>
+              <CurrencySelect value={purchaseCurrency} onChange={setPurchaseCurrency} />
+            </View>
           </View>
 
           {/* Warranty Info */}
@@ -436,6 +373,8 @@ export function AddAssetScreen() {
             rows={3}
             containerClassName="mb-4"
           />
+
+          <CustomFieldInputs entityType="asset" values={customValues} onChange={setCustomValues} />
         </ScrollView>
       </KeyboardAvoidingView>
 
@@ -7,7 +7,6 @@ import {
   TouchableOpacity,
   Image,
   Alert,
-  Linking,
 } from 'react-native';
 import { useFocusEffect, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -17,7 +16,6 @@ import {
   Calendar,
   DollarSign,
   Tag,
-  FileText,
   Camera,
   ShieldCheck,
   AlertTriangle,
@@ -27,15 +25,24 @@ import {
   Clock,
   Wrench,
   MapPin,
-  ExternalLink,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { RootStackParamList } from '../../navigation/types';
 import { Asset, Room, Expense } from '../../types';
-import { assetRepository, roomRepository, expenseRepository } from '../../services/database';
+import {
+  assetRepository,
+  roomRepository,
+  expenseRepository,
+  exchangeRateRepository,
+  sumInReportingCurrency,
+  CurrencyConverter,
+} from '../../services/database';
 import { ScreenHeader, Card, PressableCard, Button, IconButton, Badge, SingleImageViewer } from '../../components/ui';
+import { ChangeHistory } from '../../components/ChangeHistory';
+import { AttachmentGallery } from '../../components/AttachmentGallery';
+import { CustomFieldList } from '../../components/CustomFieldInputs';
 import { COLORS, ASSET_CATEGORIES, EXPENSE_TYPES } from '../../constants/theme';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
 import { formatDate, formatRelativeDate } from '../../utils/date';
 import { useTheme, useTranslation } from '../../contexts';
 
@@ -52,6 +59,7 @@ export function AssetDetailScreen() {
   const [asset, setAsset] = useState<Asset | null>(null);
   const [room, setRoom] = useState<Room | null>(null);
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [convert, setConvert] = useState<CurrencyConverter>(() => (amount: number) => amount);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [showImageViewer, setShowImageViewer] = useState(false);
@@ -66,8 +74,12 @@ export function AssetDetailScreen() {
         setRoom(roomData);
       }
 
-      const expensesData = await expenseRepository.getByAssetId(assetId);
+      const [expensesData, converter] = await Promise.all([
+        expenseRepository.getByAssetId(assetId),
+        exchangeRateRepository.getConverter(),
+      ]);
       setExpenses(expensesData);
+      setConvert(() => converter);
     } catch (error) {
       console.error('Failed to load asset:', error);
     } finally {
@@ -118,12 +130,6 @@ export function AssetDetailScreen() {
     navigation.navigate('ExpenseDetail', { expenseId: expense.id });
   };
 
-  const handleOpenManual = () => {
-    if (asset?.manualUri) {
-      Linking.openURL(asset.manualUri);
-    }
-  };
-
   if (!asset) {
     return (
       <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
@@ -140,7 +146,7 @@ export function AssetDetailScreen() {
   }
 
   const categoryConfig = ASSET_CATEGORIES[asset.category] || ASSET_CATEGORIES.other;
-  const totalRepairCost = expenses.reduce((sum, e) => sum + e.amount, 0);
+  const totalRepairCost = sumInReportingCurrency(expenses, convert);
 
   // Check warranty status
   const warrantyStatus = (() => {
@@ -310,7 +316,7 @@ export function AssetDetailScreen() {
                 </View>
               </View>
               <Text className={`text-xl font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                {formatCurrency(asset.purchasePrice)}
+                {formatCurrency(asset.purchasePrice, asset.purchaseCurrency)}
               </Text>
               <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('asset.purchasePrice')}</Text>
             </Card>
@@ -323,7 +329,7 @@ export function AssetDetailScreen() {
               </View>
             </View>
             <Text className={`text-xl font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-              {formatCurrency(totalRepairCost)}
+              {formatCurrency(totalRepairCost, getReportingCurrency())}
             </Text>
             <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>Total Repairs</Text>
           </Card>
@@ -387,24 +393,7 @@ export function AssetDetailScreen() {
               </View>
             )}
 
-            {asset.manualUri && (
-              <TouchableOpacity
-                onPress={handleOpenManual}
-                className="flex-row items-center px-4 py-3.5"
-                activeOpacity={0.7}
-              >
-                <View className={`w-9 h-9 rounded-xl items-center justify-center ${isDark ? 'bg-indigo-900/40' : 'bg-indigo-100'}`}>
-                  <FileText size={18} color={COLORS.categories.document} />
-                </View>
-                <View className="flex-1 ml-3">
-                  <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>User Manual</Text>
-                  <Text className="text-base font-medium text-primary-600">View Document</Text>
-                </View>
-                <ExternalLink size={18} color={COLORS.primary[600]} />
-              </TouchableOpacity>
-            )}
-
-            {!asset.serialNumber && !asset.purchaseDate && !asset.warrantyEndDate && !asset.manualUri && (
+            {!asset.serialNumber && !asset.purchaseDate && !asset.warrantyEndDate && (
               <View className="px-4 py-4">
                 <Text className={`text-center ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('common.noData')}</Text>
               </View>
@@ -412,6 +401,13 @@ export function AssetDetailScreen() {
           </Card>
         </View>
 
+        {/* Attachments */}
+        <View className="px-5 mt-5">
+          <AttachmentGallery entityType="asset" entityId={assetId} title={t('attachments.title')} onChange={loadData} />
+        </View>
+
+        <CustomFieldList entityType="asset" entityId={assetId} className="px-5 mt-5" />
+
         {/* Notes */}
         {asset.notes && (
           <View className="px-5 mt-5">
@@ -463,7 +459,7 @@ export function AssetDetailScreen() {
                         </View>
                       </View>
                       <Text className={`text-base font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                        {formatCurrency(expense.amount)}
+                        {formatCurrency(expense.amount, expense.currency)}
                       </Text>
                     </View>
                   </PressableCard>
@@ -485,6 +481,11 @@ export function AssetDetailScreen() {
           )}
         </View>
 
+        {/* Change History */}
+        <View className="px-5 mb-8">
+          <ChangeHistory table="assets" recordId={assetId} onReverted={loadData} />
+        </View>
+
         {/* Added Date */}
         <View className="px-5 pb-10">
           <View className="flex-row items-center justify-center py-3">
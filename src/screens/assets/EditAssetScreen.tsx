@@ -4,7 +4,6 @@ import {
   Text,
   ScrollView,
   TouchableOpacity,
-  Image,
   Alert,
   KeyboardAvoidingView,
   Platform,
@@ -13,23 +12,26 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import * as ImagePicker from 'expo-image-picker';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import {
   X,
-  Camera,
   Check,
   Calendar,
   DollarSign,
   Shield,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { Asset, AssetCategory, Room } from '../../types';
-import { assetRepository, roomRepository } from '../../services/database';
+import { Asset, AssetCategory, AttachmentDraft, CustomFieldValues, Room } from '../../types';
+import { assetRepository, roomRepository, attachmentRepository, customFieldValueRepository } from '../../services/database';
 import { Button, Input, IconButton, TextArea } from '../../components/ui';
+import { AttachmentPicker } from '../../components/AttachmentGallery';
+import { CustomFieldInputs } from '../../components/CustomFieldInputs';
+import { CurrencySelect } from '../../components/CurrencySelect';
 import { COLORS, ASSET_CATEGORIES } from '../../constants/theme';
 import { format, formatISO } from 'date-fns';
 import { useTheme, useTranslation } from '../../contexts';
+import { describeSaveError } from '../../utils/validation';
+import { getCachedCurrency, getCurrencySymbol } from '../../utils/currency';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type EditAssetRouteProp = RouteProp<RootStackParamList, 'EditAsset'>;
@@ -67,9 +69,11 @@ export function EditAssetScreen() {
   const [serialNumber, setSerialNumber] = useState('');
   const [purchaseDate, setPurchaseDate] = useState<Date | undefined>();
   const [purchasePrice, setPurchasePrice] = useState('');
+  const [purchaseCurrency, setPurchaseCurrency] = useState(getCachedCurrency());
   const [warrantyEndDate, setWarrantyEndDate] = useState<Date | undefined>();
   const [notes, setNotes] = useState('');
-  const [imageUri, setImageUri] = useState<string | undefined>();
+  const [attachments, setAttachments] = useState<AttachmentDraft[]>([]);
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
   const [rooms, setRooms] = useState<Room[]>([]);
@@ -93,9 +97,11 @@ export function EditAssetScreen() {
         setSerialNumber(asset.serialNumber || '');
         setPurchaseDate(asset.purchaseDate ? new Date(asset.purchaseDate) : undefined);
         setPurchasePrice(asset.purchasePrice?.toString() || '');
+        setPurchaseCurrency(asset.purchaseCurrency ?? getCachedCurrency());
         setWarrantyEndDate(asset.warrantyEndDate ? new Date(asset.warrantyEndDate) : undefined);
         setNotes(asset.notes || '');
-        setImageUri(asset.imageUri);
+        setAttachments(await attachmentRepository.getByEntity('asset', assetId));
+        setCustomValues(await customFieldValueRepository.getByEntity('asset', assetId));
         setSelectedRoomId(asset.roomId);
         setPropertyId(asset.propertyId);
 
@@ -116,43 +122,6 @@ export function EditAssetScreen() {
     loadAsset();
   }, [loadAsset]);
 
-  const handlePickImage = async () => {
-    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
-    if (!permission.granted) {
-      Alert.alert(t('common.permissionRequired'), t('permissions.photosDescription'));
-      return;
-    }
-
-    const result = await ImagePicker.launchImageLibraryAsync({
-      mediaTypes: ImagePicker.MediaTypeOptions.Images,
-      allowsEditing: true,
-      aspect: [1, 1],
-      quality: 0.8,
-    });
-
-    if (!result.canceled && result.assets[0]) {
-      setImageUri(result.assets[0].uri);
-    }
-  };
-
-  const handleTakePhoto = async () => {
-    const permission = await ImagePicker.requestCameraPermissionsAsync();
-    if (!permission.granted) {
-      Alert.alert(t('common.permissionRequired'), t('permissions.cameraDescription'));
-      return;
-    }
-
-    const result = await ImagePicker.launchCameraAsync({
-      allowsEditing: true,
-      aspect: [1, 1],
-      quality: 0.8,
-    });
-
-    if (!result.canceled && result.assets[0]) {
-      setImageUri(result.assets[0].uri);
-    }
-  };
-
   const handleSave = async () => {
     if (!name.trim()) {
       Alert.alert(t('common.required'), t('common.required'));
@@ -171,15 +140,17 @@ export function EditAssetScreen() {
         serialNumber: serialNumber.trim() || undefined,
         purchaseDate: purchaseDate ? formatISO(purchaseDate, { representation: 'date' }) : undefined,
         purchasePrice: purchasePrice ? parseFloat(purchasePrice) : undefined,
+        purchaseCurrency: purchasePrice ? purchaseCurrency : undefined,
         warrantyEndDate: warrantyEndDate ? formatISO(warrantyEndDate, { representation: 'date' }) : undefined,
         notes: notes.trim() || undefined,
-        imageUri,
       });
+      await attachmentRepository.saveDrafts('asset', assetId, attachments);
+      await customFieldValueRepository.save('asset', assetId, customValues);
 
       navigation.goBack();
     } catch (error) {
       console.error('Failed to update asset:', error);
-      Alert.alert(t('common.error'), t('common.tryAgain'));
+      Alert.alert(t('common.error'), describeSaveError(error, t('common.tryAgain'), t));
     } finally {
       setLoading(false);
     }
@@ -255,45 +226,10 @@ export function EditAssetScreen() {
           showsVerticalScrollIndicator={false}
           keyboardShouldPersistTaps="handled"
         >
-          {/* Photo Section */}
+          {/* Photos and manuals */}
           <View className="mb-6">
-            <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>{t('property.photo')}</Text>
-            <View className="flex-row items-center">
-              <TouchableOpacity
-                onPress={handlePickImage}
-                activeOpacity={0.8}
-                className={`w-24 h-24 rounded-2xl overflow-hidden items-center justify-center ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}
-              >
-                {imageUri ? (
-                  <Image
-                    source={{ uri: imageUri }}
-                    className="w-full h-full"
-                    resizeMode="cover"
-                  />
-                ) : (
-                  <View className="items-center">
-                    <Camera size={28} color={COLORS.slate[400]} />
-                    <Text className={`text-xs mt-1 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('worker.addPhoto')}</Text>
-                  </View>
-                )}
-              </TouchableOpacity>
-
-              <View className="ml-3 gap-2">
-                <Button
-                  title={imageUri ? t('common.change') : t('property.choosePhoto')}
-                  variant="outline"
-                  size="sm"
-                  onPress={handlePickImage}
-                />
-                <Button
-                  title={t('property.takePhoto')}
-                  variant="outline"
-                  size="sm"
-                  icon={<Camera size={14} color={COLORS.slate[700]} />}
-                  onPress={handleTakePhoto}
-                />
-              </View>
-            </View>
+            <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>{t('attachments.title')}</Text>
+            <AttachmentPicker value={attachments} onChange={setAttachments} />
           </View>
 
           {/* Name */}
@@ -423,10 +359,15 @@ export function EditAssetScreen() {
                   value={purchasePrice}
                   onChangeText={setPurchasePrice}
                   keyboardType="decimal-pad"
-                  leftIcon={<Text className="text-slate-500">$</Text>}
+                  leftIcon={<Text className="text-slate-500">{getCurrencySymbol(purchaseCurrency)}</Text>}
                 />
               </View>
             </View>
+
+            <View className="flex-row items-center justify-between">
+              <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('exchangeRates.currency')}</Text>
+              <CurrencySelect value={purchaseCurrency} onChange={setPurchaseCurrency} />
+            </View>
           </View>
 
           {/* Warranty Info */}
@@ -465,6 +406,8 @@ export function EditAssetScreen() {
             rows={3}
             containerClassName="mb-4"
           />
+
+          <CustomFieldInputs entityType="asset" values={customValues} onChange={setCustomValues} />
         </ScrollView>
       </KeyboardAvoidingView>
 
@@ -14,14 +14,12 @@ import {
 } from 'react-native';
 import { useFocusEffect, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import * as ImagePicker from 'expo-image-picker';
 import * as Haptics from 'expo-haptics';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import {
   Plus,
   Package,
   ChevronRight,
-  Camera,
   X,
   Check,
   Calendar,
@@ -29,11 +27,19 @@ import {
   Search,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { Asset, AssetCategory, Room } from '../../types';
-import { assetRepository, roomRepository } from '../../services/database';
+import { Asset, AssetCategory, AttachmentDraft, Room } from '../../types';
+import {
+  assetRepository,
+  roomRepository,
+  attachmentRepository,
+  exchangeRateRepository,
+  sumInReportingCurrency,
+  CurrencyConverter,
+} from '../../services/database';
 import { ScreenHeader, Input, Button, Badge } from '../../components/ui';
+import { AttachmentPicker } from '../../components/AttachmentGallery';
 import { COLORS, ASSET_CATEGORIES, SHADOWS } from '../../constants/theme';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
 import { useTheme, useTranslation } from '../../contexts';
 import { format } from 'date-fns';
 
@@ -67,6 +73,7 @@ export function PropertyAssetsScreen() {
 
   // Assets list state
   const [assets, setAssets] = useState<Asset[]>([]);
+  const [convert, setConvert] = useState<CurrencyConverter>(() => (amount: number) => amount);
   const [rooms, setRooms] = useState<Room[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -83,7 +90,7 @@ export function PropertyAssetsScreen() {
   const [purchaseDate, setPurchaseDate] = useState<Date | undefined>();
   const [purchasePrice, setPurchasePrice] = useState('');
   const [warrantyEndDate, setWarrantyEndDate] = useState<Date | undefined>();
-  const [imageUri, setImageUri] = useState<string | undefined>();
+  const [attachments, setAttachments] = useState<AttachmentDraft[]>([]);
   const [selectedRoomId, setSelectedRoomId] = useState<string | undefined>();
   const [saving, setSaving] = useState(false);
 
@@ -95,12 +102,14 @@ export function PropertyAssetsScreen() {
 
   const loadData = useCallback(async () => {
     try {
-      const [assetsData, roomsData] = await Promise.all([
+      const [assetsData, roomsData, converter] = await Promise.all([
         assetRepository.getByPropertyId(propertyId),
         roomRepository.getByPropertyId(propertyId),
+        exchangeRateRepository.getConverter(),
       ]);
       setAssets(assetsData);
       setRooms(roomsData);
+      setConvert(() => converter);
     } catch (error) {
       console.error('Failed to load assets:', error);
     } finally {
@@ -139,47 +148,10 @@ export function PropertyAssetsScreen() {
     setPurchaseDate(undefined);
     setPurchasePrice('');
     setWarrantyEndDate(undefined);
-    setImageUri(undefined);
+    setAttachments([]);
     setSelectedRoomId(undefined);
   };
 
-  const handlePickImage = async () => {
-    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
-    if (!permission.granted) {
-      Alert.alert(t('common.permissionRequired'), t('permissions.photosDescription'));
-      return;
-    }
-
-    const result = await ImagePicker.launchImageLibraryAsync({
-      mediaTypes: ImagePicker.MediaTypeOptions.Images,
-      allowsEditing: true,
-      aspect: [1, 1],
-      quality: 0.8,
-    });
-
-    if (!result.canceled && result.assets[0]) {
-      setImageUri(result.assets[0].uri);
-    }
-  };
-
-  const handleTakePhoto = async () => {
-    const permission = await ImagePicker.requestCameraPermissionsAsync();
-    if (!permission.granted) {
-      Alert.alert(t('common.permissionRequired'), t('permissions.cameraDescription'));
-      return;
-    }
-
-    const result = await ImagePicker.launchCameraAsync({
-      allowsEditing: true,
-      aspect: [1, 1],
-      quality: 0.8,
-    });
-
-    if (!result.canceled && result.assets[0]) {
-      setImageUri(result.assets[0].uri);
-    }
-  };
-
   const handleSaveAsset = async () => {
     if (!name.trim()) {
       Alert.alert(t('common.required'), t('common.required'));
@@ -189,7 +161,7 @@ export function PropertyAssetsScreen() {
     setSaving(true);
 
     try {
-      await assetRepository.create({
+      const asset = await assetRepository.create({
         propertyId,
         roomId: selectedRoomId,
         name: name.trim(),
@@ -200,8 +172,8 @@ export function PropertyAssetsScreen() {
         purchaseDate: purchaseDate?.toISOString(),
         purchasePrice: purchasePrice ? parseFloat(purchasePrice) : undefined,
         warrantyEndDate: warrantyEndDate?.toISOString(),
-        imageUri,
       });
+      await attachmentRepository.saveDrafts('asset', asset.id, attachments);
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       closeAddModal();
@@ -389,9 +361,10 @@ export function PropertyAssetsScreen() {
               </Text>
               {filteredAssets.some((a) => a.purchasePrice) && (
                 <Text className={`text-sm font-semibold ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
-                  {t('worker.total')}: {formatCurrency(
-                    filteredAssets.reduce((sum, a) => sum + (a.purchasePrice || 0), 0)
-                  )}
+                  {t('worker.total')}: {formatCurrency(sumInReportingCurrency(
+                    filteredAssets.map(a => ({ amount: a.purchasePrice || 0, currency: a.purchaseCurrency, date: a.purchaseDate ?? a.createdAt })),
+                    convert
+                  ), getReportingCurrency())}
                 </Text>
               )}
             </View>
@@ -457,7 +430,7 @@ export function PropertyAssetsScreen() {
                       <View className="items-end">
                         {asset.purchasePrice && (
                           <Text className={`text-sm font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                            {formatCurrency(asset.purchasePrice)}
+                            {formatCurrency(asset.purchasePrice, asset.purchaseCurrency)}
                           </Text>
                         )}
                         <ChevronRight
@@ -510,47 +483,9 @@ export function PropertyAssetsScreen() {
               showsVerticalScrollIndicator={false}
               keyboardShouldPersistTaps="handled"
             >
-              {/* Photo Section */}
-              <View className="flex-row items-center mb-4">
-                <TouchableOpacity
-                  onPress={handlePickImage}
-                  activeOpacity={0.8}
-                  className={`w-24 h-24 rounded-2xl overflow-hidden items-center justify-center ${
-                    isDark ? 'bg-slate-800' : 'bg-slate-100'
-                  }`}
-                >
-                  {imageUri ? (
-                    <Image
-                      source={{ uri: imageUri }}
-                      className="w-full h-full"
-                      resizeMode="cover"
-                    />
-                  ) : (
-                    <View className="items-center">
-                      <Camera size={28} color={isDark ? COLORS.slate[500] : COLORS.slate[400]} />
-                      <Text className={`text-xs mt-1 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
-                        {t('worker.addPhoto')}
-                      </Text>
-                    </View>
-                  )}
-                </TouchableOpacity>
-                {imageUri && (
-                  <View className="ml-3 gap-2">
-                    <TouchableOpacity
-                      onPress={handlePickImage}
-                      className="px-3 py-2 bg-slate-200 rounded-lg"
-                    >
-                      <Text className="text-sm text-slate-700">{t('common.change')}</Text>
-                    </TouchableOpacity>
-                    <TouchableOpacity
-                      onPress={handleTakePhoto}
-                      className="px-3 py-2 bg-slate-200 rounded-lg flex-row items-center"
-                    >
-                      <Camera size={14} color={COLORS.slate[700]} />
-                      <Text className="text-sm text-slate-700 ml-1">{t('property.takePhoto')}</Text>
-                    </TouchableOpacity>
-                  </View>
-                )}
+              {/* Photos and manuals */}
+              <View className="mb-4">
+                <AttachmentPicker value={attachments} onChange={setAttachments} />
               </View>
 
               {/* Name */}
@@ -35,8 +35,9 @@ import { RootStackParamList } from '../../navigation/types';
 import { RecurringTemplateWithHistory, RecurringPaymentHistory, Property } from '../../types';
 import { recurringTemplateRepository, recurringPaymentHistoryRepository, propertyRepository } from '../../services/database';
 import { ScreenHeader, Card, Button, Badge } from '../../components/ui';
+import { CurrencySelect } from '../../components/CurrencySelect';
 import { COLORS } from '../../constants/theme';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getCachedCurrency } from '../../utils/currency';
 import { formatDate } from '../../utils/date';
 import { useTheme, useTranslation } from '../../contexts';
 
@@ -96,6 +97,7 @@ export function BillTemplatesScreen() {
   const [formCategory, setFormCategory] = useState('');
   const [formFrequency, setFormFrequency] = useState<RecurringTemplateWithHistory['frequency']>('monthly');
   const [formTypicalPaymentDay, setFormTypicalPaymentDay] = useState('');
+  const [formCurrency, setFormCurrency] = useState(getCachedCurrency());
 
   const loadData = useCallback(async () => {
     try {
@@ -129,6 +131,7 @@ export function BillTemplatesScreen() {
     setFormCategory('');
     setFormFrequency('monthly');
     setFormTypicalPaymentDay('');
+    setFormCurrency(getCachedCurrency());
     setShowFormModal(false);
     setEditingTemplate(null);
   };
@@ -138,6 +141,7 @@ export function BillTemplatesScreen() {
     setFormCategory(template.category);
     setFormFrequency(template.frequency);
     setFormTypicalPaymentDay(template.typicalPaymentDay || '');
+    setFormCurrency(template.currency ?? getCachedCurrency());
     setEditingTemplate(template);
     setShowFormModal(true);
   };
@@ -158,6 +162,7 @@ export function BillTemplatesScreen() {
         category: formCategory,
         frequency: formFrequency,
         typicalPaymentDay: formTypicalPaymentDay || undefined,
+        currency: formCurrency,
         isActive: true,
       };
 
@@ -502,7 +507,7 @@ export function BillTemplatesScreen() {
                         {template.lastPaymentDate && (
                           <Text className={`text-xs mt-2 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
                             {t('bills.lastPaid')}: {formatDate(template.lastPaymentDate)}
-                            {template.lastPaymentAmount && ` - ${formatCurrency(template.lastPaymentAmount)}`}
+                            {template.lastPaymentAmount && ` - ${formatCurrency(template.lastPaymentAmount, template.currency)}`}
                           </Text>
                         )}
                       </View>
@@ -639,6 +644,12 @@ export function BillTemplatesScreen() {
                   ))}
                 </ScrollView>
               </View>
+
+              {/* Currency */}
+              <View className="flex-row items-center justify-between">
+                <Text className={`text-sm font-medium ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>{t('exchangeRates.currency')}</Text>
+                <CurrencySelect value={formCurrency} onChange={setFormCurrency} />
+              </View>
             </View>
           </ScrollView>
         </View>
@@ -746,7 +757,7 @@ export function BillTemplatesScreen() {
                       </Text>
                     </View>
                     <Text className={`text-lg font-bold ${isDark ? 'text-primary-400' : 'text-primary-700'}`}>
-                      {formatCurrency(filteredPaymentHistory.reduce((sum, p) => sum + p.amount, 0))}
+                      {formatCurrency(filteredPaymentHistory.reduce((sum, p) => sum + p.amount, 0), selectedTemplate?.currency)}
                     </Text>
                   </View>
                 </View>
@@ -842,7 +853,7 @@ export function BillTemplatesScreen() {
                         <View className="flex-row items-center justify-between">
                           <View className="flex-1">
                             <Text className={`text-lg font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                              {formatCurrency(payment.amount)}
+                              {formatCurrency(payment.amount, selectedTemplate?.currency)}
                             </Text>
                             <View className="flex-row items-center mt-1">
                               <Calendar size={12} color={isDark ? COLORS.slate[500] : COLORS.slate[400]} />
@@ -914,6 +925,9 @@ export function BillTemplatesScreen() {
                     className={`flex-1 py-3.5 pl-2 text-lg ${isDark ? 'text-white' : 'text-slate-900'}`}
                     placeholderTextColor={isDark ? COLORS.slate[500] : COLORS.slate[400]}
                   />
+                  <Text className={`text-sm font-medium ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                    {selectedTemplate?.currency ?? getCachedCurrency()}
+                  </Text>
                 </View>
               </View>
 
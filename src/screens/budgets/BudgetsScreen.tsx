@@ -0,0 +1,393 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  RefreshControl,
+  Switch,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Plus, X, PiggyBank } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { RootStackParamList } from '../../navigation/types';
+import { Budget, BudgetPeriod, BudgetStatus, ExpenseType, UUID } from '../../types';
+import { budgetRepository, expenseRepository, propertyRepository } from '../../services/database';
+import { getCategoryLabel } from '../../services/budgets';
+import { useQuery } from '../../hooks';
+import { ScreenHeader } from '../../components/ui';
+import { BudgetProgressList } from '../../components/BudgetProgress';
+import { COLORS } from '../../constants/theme';
+import { formatCurrencyAmount, formatCurrencyInput, getCurrencySymbol, getReportingCurrency, parseCurrencyInput } from '../../utils/currency';
+import { useTheme, useTranslation } from '../../contexts';
+import { describeSaveError } from '../../utils/validation';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type BudgetsRouteProp = RouteProp<RootStackParamList, 'Budgets'>;
+
+const PERIODS: BudgetPeriod[] = ['monthly', 'yearly'];
+const EXPENSE_TYPES: ExpenseType[] = ['repair', 'bill', 'maintenance', 'purchase', 'other'];
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+function Chip({ label, selected, onPress }: ChipProps) {
+  const { isDark } = useTheme();
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      className={`px-4 py-2 rounded-xl border-2 ${
+        selected
+          ? 'border-primary-500 bg-primary-50'
+          : isDark ? 'border-slate-600 bg-slate-700' : 'border-slate-200 bg-slate-50'
+      }`}
+    >
+      <Text
+        className={`text-sm font-medium ${
+          selected ? 'text-primary-700' : isDark ? 'text-slate-300' : 'text-slate-700'
+        }`}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+export function BudgetsScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<BudgetsRouteProp>();
+  const propertyId = route.params?.propertyId;
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  // Modal states
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [budgetPropertyId, setBudgetPropertyId] = useState<UUID | undefined>(propertyId);
+  const [period, setPeriod] = useState<BudgetPeriod>('monthly');
+  const [expenseType, setExpenseType] = useState<ExpenseType | undefined>(undefined);
+  const [category, setCategory] = useState<string | undefined>(undefined);
+  const [amount, setAmount] = useState('');
+  const [rollover, setRollover] = useState(false);
+
+  const { data, loading, refreshing, refresh } = useQuery(
+    async () => ({
+      statuses: await budgetRepository.getStatuses(propertyId),
+      properties: propertyId ? [] : await propertyRepository.getAll(),
+    }),
+    ['budgets', 'expenses', 'expense_splits', 'exchange_rates', 'app_settings', 'properties'],
+    [propertyId]
+  );
+  const statuses = data?.statuses ?? [];
+  const properties = data?.properties ?? [];
+
+  // The categories the property's expenses of the type have been filed under
+  const { data: categories = [] } = useQuery(
+    async () => {
+      if (!budgetPropertyId || !expenseType) return [];
+      const totals = await expenseRepository.getTotalsBy('category', { propertyId: budgetPropertyId, type: expenseType });
+      return totals.map(total => total.key).filter(Boolean);
+    },
+    ['expenses', 'expense_splits'],
+    [budgetPropertyId, expenseType]
+  );
+  const categoryOptions = category && !categories.includes(category) ? [category, ...categories] : categories;
+
+  const title = propertyId ? t('budgets.propertyTitle') : t('budgets.title');
+
+  const openAddModal = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditingBudget(null);
+    setBudgetPropertyId(propertyId ?? (properties.length === 1 ? properties[0].id : undefined));
+    setPeriod('monthly');
+    setExpenseType(undefined);
+    setCategory(undefined);
+    setAmount('');
+    setRollover(false);
+    setModalVisible(true);
+  };
+
+  const openEditModal = async ({ budget }: BudgetStatus) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditingBudget(budget);
+    setBudgetPropertyId(budget.propertyId);
+    setPeriod(budget.period);
+    setExpenseType(budget.expenseType);
+    setCategory(budget.category);
+    setAmount(formatCurrencyAmount(budget.amount, getReportingCurrency()));
+    setRollover(budget.rollover);
+    setModalVisible(true);
+  };
+
+  const selectType = (type: ExpenseType | undefined) => {
+    setExpenseType(type);
+    setCategory(undefined);
+  };
+
+  const handleSave = async () => {
+    const parsedAmount = parseCurrencyInput(amount, getReportingCurrency());
+    if (!budgetPropertyId) {
+      Alert.alert(t('common.error'), t('budgets.propertyRequired'));
+      return;
+    }
+    if (parsedAmount <= 0) {
+      Alert.alert(t('common.invalidAmount'), t('common.amountGreaterThanZero'));
+      return;
+    }
+
+    const values = { expenseType, category, period, amount: parsedAmount, rollover };
+    try {
+      if (editingBudget) {
+        await budgetRepository.update(editingBudget.id, values);
+      } else {
+        await budgetRepository.create({ ...values, propertyId: budgetPropertyId });
+      }
+      setModalVisible(false);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Failed to save budget:', error);
+      Alert.alert(t('common.error'), describeSaveError(error, t('budgets.saveError'), t));
+    }
+  };
+
+  const handleDelete = (budget: Budget) => {
+    Alert.alert(t('budgets.deleteBudget'), t('budgets.deleteConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await budgetRepository.delete(budget.id);
+            setModalVisible(false);
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          } catch (error) {
+            console.error('Failed to delete budget:', error);
+            Alert.alert(t('common.error'), t('budgets.deleteError'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const labelClass = `text-sm font-medium mb-3 ${isDark ? 'text-slate-300' : 'text-slate-700'}`;
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={title}
+        showBack
+        onBack={() => navigation.goBack()}
+        rightAction={
+          <TouchableOpacity
+            onPress={openAddModal}
+            className="w-10 h-10 rounded-xl bg-primary-500 items-center justify-center"
+          >
+            <Plus size={20} color="#ffffff" />
+          </TouchableOpacity>
+        }
+      />
+
+      <ScrollView
+        className="flex-1 px-5 pt-4"
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refresh}
+            tintColor={COLORS.primary[600]}
+          />
+        }
+      >
+        {statuses.length === 0 && !loading ? (
+          <View className="items-center py-12 px-6">
+            <View className={`w-16 h-16 rounded-2xl items-center justify-center mb-4 ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}>
+              <PiggyBank size={32} color={isDark ? COLORS.slate[600] : COLORS.slate[400]} />
+            </View>
+            <Text className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+              {t('budgets.noBudgets')}
+            </Text>
+            <Text className={`text-sm mt-1 text-center ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              {t('budgets.addFirstBudget')}
+            </Text>
+          </View>
+        ) : (
+          <View className="pb-6">
+            <BudgetProgressList statuses={statuses} showProperty={!propertyId} onPress={openEditModal} />
+            <Text className={`text-xs mt-3 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+              {t('budgets.alertHint')}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Add/Edit Modal */}
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View className="flex-1 justify-end">
+          <TouchableOpacity
+            className="flex-1"
+            activeOpacity={1}
+            onPress={() => setModalVisible(false)}
+          />
+          <View className={`rounded-t-3xl px-5 pt-6 pb-10 ${isDark ? 'bg-slate-800' : 'bg-white'}`} style={{ maxHeight: '85%' }}>
+            {/* Modal Header */}
+            <View className="flex-row items-center justify-between mb-6">
+              <Text className={`text-xl font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                {editingBudget ? t('budgets.editBudget') : t('budgets.addBudget')}
+              </Text>
+              <TouchableOpacity onPress={() => setModalVisible(false)}>
+                <X size={24} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              {/* Property, chosen once */}
+              {!propertyId && !editingBudget && (
+                <View className="mb-5">
+                  <Text className={labelClass}>{t('budgets.property')}</Text>
+                  <View className="flex-row flex-wrap gap-2">
+                    {properties.map(property => (
+                      <Chip
+                        key={property.id}
+                        label={property.name}
+                        selected={budgetPropertyId === property.id}
+                        onPress={() => {
+                          setBudgetPropertyId(property.id);
+                          setCategory(undefined);
+                        }}
+                      />
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              {/* Amount */}
+              <View className="mb-5">
+                <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                  {t('budgets.amount')}
+                </Text>
+                <View className={`flex-row items-center px-4 rounded-xl border ${isDark ? 'bg-slate-700 border-slate-600' : 'bg-slate-50 border-slate-200'}`}>
+                  <Text className={`text-base font-semibold ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                    {getCurrencySymbol(getReportingCurrency())}
+                  </Text>
+                  <TextInput
+                    value={amount}
+                    onChangeText={value => setAmount(formatCurrencyInput(value, getReportingCurrency()))}
+                    placeholder="0"
+                    placeholderTextColor={isDark ? COLORS.slate[500] : COLORS.slate[400]}
+                    keyboardType="decimal-pad"
+                    className={`flex-1 ml-2 py-3 text-base ${isDark ? 'text-white' : 'text-slate-900'}`}
+                  />
+                </View>
+              </View>
+
+              {/* Period */}
+              <View className="mb-5">
+                <Text className={labelClass}>{t('budgets.period')}</Text>
+                <View className="flex-row flex-wrap gap-2">
+                  {PERIODS.map(option => (
+                    <Chip
+                      key={option}
+                      label={t(`budgets.periods.${option}`)}
+                      selected={period === option}
+                      onPress={() => setPeriod(option)}
+                    />
+                  ))}
+                </View>
+              </View>
+
+              {/* Expense type */}
+              <View className="mb-5">
+                <Text className={labelClass}>{t('budgets.expenseType')}</Text>
+                <View className="flex-row flex-wrap gap-2">
+                  <Chip label={t('budgets.allExpenses')} selected={!expenseType} onPress={() => selectType(undefined)} />
+                  {EXPENSE_TYPES.map(type => (
+                    <Chip
+                      key={type}
+                      label={t(`expense.types.${type}`)}
+                      selected={expenseType === type}
+                      onPress={() => selectType(type)}
+                    />
+                  ))}
+                </View>
+              </View>
+
+              {/* Category, from those the type's expenses use */}
+              {expenseType && categoryOptions.length > 0 && (
+                <View className="mb-5">
+                  <Text className={labelClass}>{t('budgets.category')}</Text>
+                  <View className="flex-row flex-wrap gap-2">
+                    <Chip label={t('budgets.allCategories')} selected={!category} onPress={() => setCategory(undefined)} />
+                    {categoryOptions.map(option => (
+                      <Chip
+                        key={option}
+                        label={getCategoryLabel({ expenseType, category: option }, t)}
+                        selected={category === option}
+                        onPress={() => setCategory(option)}
+                      />
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              {/* Rollover */}
+              <View className="flex-row items-center mb-6">
+                <View className="flex-1 mr-3">
+                  <Text className={`text-sm font-medium ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                    {t('budgets.rollover')}
+                  </Text>
+                  <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                    {t('budgets.rolloverHint')}
+                  </Text>
+                </View>
+                <Switch
+                  value={rollover}
+                  onValueChange={setRollover}
+                  trackColor={{ false: COLORS.slate[300], true: COLORS.primary[500] }}
+                />
+              </View>
+
+              {/* Action Buttons */}
+              <View className="flex-row gap-3">
+                <TouchableOpacity
+                  onPress={() => setModalVisible(false)}
+                  className={`flex-1 py-3.5 rounded-xl ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+                >
+                  <Text className={`text-center font-semibold ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                    {t('common.cancel')}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleSave}
+                  className="flex-1 py-3.5 rounded-xl bg-primary-500"
+                >
+                  <Text className="text-center font-semibold text-white">
+                    {t('common.save')}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
+              {editingBudget && (
+                <TouchableOpacity onPress={() => handleDelete(editingBudget)} className="py-3.5 mt-2">
+                  <Text className="text-center font-semibold text-red-500">{t('budgets.deleteBudget')}</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
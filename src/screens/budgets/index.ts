@@ -0,0 +1 @@
+export { BudgetsScreen } from './BudgetsScreen';
@@ -4,7 +4,6 @@ import {
   Text,
   ScrollView,
   TouchableOpacity,
-  Image,
   Alert,
   KeyboardAvoidingView,
   Platform,
@@ -13,11 +12,9 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import * as ImagePicker from 'expo-image-picker';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import {
   X,
-  Camera,
   Check,
   Calendar,
   DollarSign,
@@ -31,14 +28,18 @@ import {
   ChevronRight,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { ExpenseType, Room, Worker, Asset } from '../../types';
-import { expenseRepository, roomRepository, workerRepository, assetRepository, expenseAssetRepository } from '../../services/database';
+import { ExpenseType, Room, Worker, Asset, AttachmentDraft, CustomFieldValues, TaxTreatment } from '../../types';
+import { expenseRepository, roomRepository, workerRepository, assetRepository, expenseAssetRepository, attachmentRepository, customFieldValueRepository, expenseSplitRepository, splitsAddUp } from '../../services/database';
 import { Button, Input, IconButton, TextArea, AssetSelectionModal, SelectedAsset } from '../../components/ui';
+import { AttachmentPicker } from '../../components/AttachmentGallery';
+import { CustomFieldInputs } from '../../components/CustomFieldInputs';
+import { CurrencySelect } from '../../components/CurrencySelect';
+import { ExpenseSplitEditor, SplitDraft, toSplitData } from '../../components/ExpenseSplitEditor';
+import { TaxTreatmentSelect } from '../../components/TaxTreatmentSelect';
 import { COLORS, EXPENSE_TYPES, BILL_CATEGORIES, SHADOWS } from '../../constants/theme';
 import { useToast, useTranslation, useTheme } from '../../contexts';
-import { validateAmount, parseAmount } from '../../utils/validation';
-import { getImageQuality } from '../../utils/image';
-import { getCurrencySymbol, formatCurrency, formatCurrencyInput, parseCurrencyInput } from '../../utils/currency';
+import { validateAmount, parseAmount, describeSaveError } from '../../utils/validation';
+import { getCurrencySymbol, getCachedCurrency, formatCurrency, formatCurrencyInput, parseCurrencyInput } from '../../utils/currency';
 import { formatDateObjectWithDay } from '../../utils/date';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -97,9 +98,11 @@ export function AddExpenseScreen() {
   const [category, setCategory] = useState('');
   const [amount, setAmount] = useState('');
   const [displayAmount, setDisplayAmount] = useState('');
+  const [currency, setCurrency] = useState(getCachedCurrency());
   const [description, setDescription] = useState('');
   const [date, setDate] = useState(new Date());
-  const [receiptUri, setReceiptUri] = useState<string | undefined>();
+  const [attachments, setAttachments] = useState<AttachmentDraft[]>([]);
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
   const [notes, setNotes] = useState('');
   const [loading, setLoading] = useState(false);
   const [rooms, setRooms] = useState<Room[]>([]);
@@ -108,6 +111,9 @@ export function AddExpenseScreen() {
   const [selectedRoomId, setSelectedRoomId] = useState<string | undefined>(route.params.roomId);
   const [selectedWorkerId, setSelectedWorkerId] = useState<string | undefined>(route.params.workerId);
   const [selectedAssets, setSelectedAssets] = useState<SelectedAsset[]>([]);
+  const [paidByMemberId, setPaidByMemberId] = useState<string | undefined>();
+  const [taxTreatment, setTaxTreatment] = useState<TaxTreatment | undefined>();
+  const [splits, setSplits] = useState<SplitDraft[]>([]);
 
   // Date picker visibility
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -142,43 +148,6 @@ export function AddExpenseScreen() {
     }
   }, [type, category, t]);
 
-  const handlePickReceipt = async () => {
-    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
-    if (!permission.granted) {
-      Alert.alert(t('common.permissionNeeded'), t('common.photoLibraryPermission'));
-      return;
-    }
-
-    const quality = await getImageQuality();
-    const result = await ImagePicker.launchImageLibraryAsync({
-      mediaTypes: ImagePicker.MediaTypeOptions.Images,
-      allowsEditing: true,
-      quality,
-    });
-
-    if (!result.canceled && result.assets[0]) {
-      setReceiptUri(result.assets[0].uri);
-    }
-  };
-
-  const handleTakePhoto = async () => {
-    const permission = await ImagePicker.requestCameraPermissionsAsync();
-    if (!permission.granted) {
-      Alert.alert(t('common.permissionNeeded'), t('common.cameraPermission'));
-      return;
-    }
-
-    const quality = await getImageQuality();
-    const result = await ImagePicker.launchCameraAsync({
-      allowsEditing: true,
-      quality,
-    });
-
-    if (!result.canceled && result.assets[0]) {
-      setReceiptUri(result.assets[0].uri);
-    }
-  };
-
   // Handle amount input with currency formatting
   const handleAmountChange = (value: string) => {
     // Keep raw digits for storage
@@ -210,11 +179,17 @@ export function AddExpenseScreen() {
     if (totalAssetAmount > parsedAmount) {
       Alert.alert(
         t('common.invalidAssetAmounts'),
-        `${t('common.assetAmountsExceed')} (${formatCurrency(totalAssetAmount)}) ${t('common.totalExpenseAmount')} (${formatCurrency(parsedAmount)})`
+        `${t('common.assetAmountsExceed')} (${formatCurrency(totalAssetAmount, currency)}) ${t('common.totalExpenseAmount')} (${formatCurrency(parsedAmount, currency)})`
       );
       return;
     }
 
+    const splitData = toSplitData(splits, currency);
+    if (splitData.length > 0 && !splitsAddUp(splitData, parsedAmount)) {
+      Alert.alert(t('expenseSplits.notAddingUpTitle'), t('expenseSplits.notAddingUp', { amount: formatCurrency(parsedAmount, currency) }));
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -223,31 +198,32 @@ export function AddExpenseScreen() {
         roomId: selectedRoomId,
         assetId: route.params.assetId,
         workerId: selectedWorkerId,
+        paidByMemberId,
+        taxTreatment,
         type,
         category,
         amount: parsedAmount,
+        currency,
         date: date.toISOString(),
         description: description.trim(),
-        receiptUri,
         isRecurring: false,
         tags: [],
       });
 
+      await attachmentRepository.saveDrafts('expense', expense.id, attachments);
+      await customFieldValueRepository.save('expense', expense.id, customValues);
+      await expenseSplitRepository.replaceForExpense(expense.id, splitData);
+
       // Save asset associations if any
       if (selectedAssets.length > 0) {
         await expenseAssetRepository.createMany(expense.id, selectedAssets);
       }
 
-      // Update worker's total paid if worker is selected
-      if (selectedWorkerId) {
-        await workerRepository.updateTotalPaid(selectedWorkerId, parsedAmount);
-      }
-
       showSuccess(t('expense.addSuccess'));
       navigation.goBack();
     } catch (error) {
       console.error('Failed to create expense:', error);
-      showError(t('expense.addError'));
+      showError(describeSaveError(error, t('expense.addError'), t));
     } finally {
       setLoading(false);
     }
@@ -320,7 +296,7 @@ export function AddExpenseScreen() {
           <View className={`rounded-2xl p-5 mb-5 items-center ${isDark ? 'bg-primary-900/40' : 'bg-primary-50'}`}>
             <Text className="text-sm font-medium text-primary-700 mb-2">{t('expense.amount')}</Text>
             <View className="flex-row items-center">
-              <Text className="text-3xl font-bold text-primary-700">{getCurrencySymbol()}</Text>
+              <Text className="text-3xl font-bold text-primary-700">{getCurrencySymbol(currency)}</Text>
               <Input
                 placeholder="0,00"
                 value={displayAmount}
@@ -330,6 +306,9 @@ export function AddExpenseScreen() {
                 className="text-3xl font-bold text-primary-700 bg-transparent border-0 text-center"
               />
             </View>
+            <View className="mt-2">
+              <CurrencySelect value={currency} onChange={setCurrency} />
+            </View>
           </View>
 
           {/* Expense Type */}
@@ -525,7 +504,7 @@ export function AddExpenseScreen() {
                         {selectedAssets.length} {t('common.assetSelected', { count: selectedAssets.length })}
                       </Text>
                       <Text className="text-sm font-semibold text-primary-600">
-                        {formatCurrency(selectedAssets.reduce((sum, a) => sum + a.amount, 0))}
+                        {formatCurrency(selectedAssets.reduce((sum, a) => sum + a.amount, 0), currency)}
                       </Text>
                     </View>
                     <View className="flex-row flex-wrap mt-1.5 gap-1">
@@ -537,7 +516,7 @@ export function AddExpenseScreen() {
                             className={`rounded-lg px-2 py-0.5 ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
                           >
                             <Text className={`text-xs ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
-                              {asset.name}: {formatCurrency(selected.amount)}
+                              {asset.name}: {formatCurrency(selected.amount, currency)}
                             </Text>
                           </View>
                         ) : null;
@@ -564,59 +543,25 @@ export function AddExpenseScreen() {
             </View>
           )}
 
-          {/* Receipt */}
+          <ExpenseSplitEditor
+            propertyId={route.params.propertyId}
+            amount={parseCurrencyInput(displayAmount)}
+            currency={currency}
+            paidByMemberId={paidByMemberId}
+            onPaidByChange={setPaidByMemberId}
+            splits={splits}
+            onSplitsChange={setSplits}
+          />
+
+          <TaxTreatmentSelect value={taxTreatment} onChange={setTaxTreatment} />
+
+          {/* Attachments */}
           <View className="mb-4">
             <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>{t('expense.receiptOptional')}</Text>
-            <View className="flex-row items-center">
-              <TouchableOpacity
-                onPress={handlePickReceipt}
-                activeOpacity={0.8}
-                className={`w-20 h-20 rounded-xl overflow-hidden items-center justify-center border-2 border-dashed ${isDark ? 'bg-slate-800 border-slate-600' : 'bg-slate-100 border-slate-300'}`}
-              >
-                {receiptUri ? (
-                  <Image
-                    source={{ uri: receiptUri }}
-                    className="w-full h-full"
-                    resizeMode="cover"
-                  />
-                ) : (
-                  <View className="items-center">
-                    <Receipt size={24} color={COLORS.slate[400]} />
-                    <Text className={`text-xs mt-1 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('common.add')}</Text>
-                  </View>
-                )}
-              </TouchableOpacity>
-
-              {receiptUri && (
-                <View className="ml-3 gap-2">
-                  <Button
-                    title={t('common.change')}
-                    variant="outline"
-                    size="sm"
-                    onPress={handlePickReceipt}
-                  />
-                  <Button
-                    title={t('common.camera')}
-                    variant="outline"
-                    size="sm"
-                    icon={<Camera size={14} color={isDark ? COLORS.slate[300] : COLORS.slate[700]} />}
-                    onPress={handleTakePhoto}
-                  />
-                </View>
-              )}
-
-              {!receiptUri && (
-                <Button
-                  title={t('common.takePhoto')}
-                  variant="outline"
-                  size="sm"
-                  icon={<Camera size={14} color={isDark ? COLORS.slate[300] : COLORS.slate[700]} />}
-                  onPress={handleTakePhoto}
-                  className="ml-3"
-                />
-              )}
-            </View>
+            <AttachmentPicker value={attachments} onChange={setAttachments} />
           </View>
+
+          <CustomFieldInputs entityType="expense" values={customValues} onChange={setCustomValues} />
         </ScrollView>
       </KeyboardAvoidingView>
 
@@ -657,6 +602,7 @@ export function AddExpenseScreen() {
         visible={showAssetModal}
         assets={assets}
         selectedAssets={selectedAssets}
+        currency={currency}
         onCancel={() => setShowAssetModal(false)}
         onConfirm={(selected) => {
           setSelectedAssets(selected);
@@ -4,7 +4,6 @@ import {
   Text,
   ScrollView,
   TouchableOpacity,
-  Image,
   Alert,
   KeyboardAvoidingView,
   Platform,
@@ -13,11 +12,9 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import * as ImagePicker from 'expo-image-picker';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import {
   X,
-  Camera,
   Calendar,
   Wrench,
   Receipt,
@@ -27,13 +24,19 @@ import {
   Users,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { ExpenseType, Room, Worker } from '../../types';
-import { expenseRepository, roomRepository, workerRepository } from '../../services/database';
+import { ExpenseType, Room, Worker, AttachmentDraft, CustomFieldValues, TaxTreatment } from '../../types';
+import { expenseRepository, roomRepository, workerRepository, attachmentRepository, customFieldValueRepository, expenseSplitRepository, splitsAddUp } from '../../services/database';
 import { Button, Input, IconButton } from '../../components/ui';
+import { AttachmentPicker } from '../../components/AttachmentGallery';
+import { CustomFieldInputs } from '../../components/CustomFieldInputs';
+import { CurrencySelect } from '../../components/CurrencySelect';
+import { ExpenseSplitEditor, SplitDraft, toSplitDrafts, toSplitData } from '../../components/ExpenseSplitEditor';
+import { TaxTreatmentSelect } from '../../components/TaxTreatmentSelect';
 import { COLORS, EXPENSE_TYPES, BILL_CATEGORIES } from '../../constants/theme';
-import { getCurrencySymbol } from '../../utils/currency';
+import { getCurrencySymbol, getCachedCurrency, formatCurrency } from '../../utils/currency';
 import { formatDateObjectWithDay } from '../../utils/date';
 import { useToast, useTranslation, useTheme } from '../../contexts';
+import { describeSaveError } from '../../utils/validation';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type EditExpenseRouteProp = RouteProp<RootStackParamList, 'EditExpense'>;
@@ -72,9 +75,11 @@ export function EditExpenseScreen() {
   const [type, setType] = useState<ExpenseType>('repair');
   const [category, setCategory] = useState('');
   const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(getCachedCurrency());
   const [description, setDescription] = useState('');
   const [date, setDate] = useState(new Date());
-  const [receiptUri, setReceiptUri] = useState<string | undefined>();
+  const [attachments, setAttachments] = useState<AttachmentDraft[]>([]);
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
   const [rooms, setRooms] = useState<Room[]>([]);
@@ -82,8 +87,9 @@ export function EditExpenseScreen() {
   const [selectedRoomId, setSelectedRoomId] = useState<string | undefined>();
   const [selectedWorkerId, setSelectedWorkerId] = useState<string | undefined>();
   const [propertyId, setPropertyId] = useState<string>('');
-  const [originalWorkerId, setOriginalWorkerId] = useState<string | undefined>();
-  const [originalAmount, setOriginalAmount] = useState(0);
+  const [paidByMemberId, setPaidByMemberId] = useState<string | undefined>();
+  const [taxTreatment, setTaxTreatment] = useState<TaxTreatment | undefined>();
+  const [splits, setSplits] = useState<SplitDraft[]>([]);
 
   // Date picker visibility
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -96,14 +102,17 @@ export function EditExpenseScreen() {
         setType(expense.type);
         setCategory(expense.category);
         setAmount(expense.amount.toString());
+        setCurrency(expense.currency ?? getCachedCurrency());
         setDescription(expense.description);
         setDate(new Date(expense.date));
-        setReceiptUri(expense.receiptUri);
+        setAttachments(await attachmentRepository.getByEntity('expense', expenseId));
+        setCustomValues(await customFieldValueRepository.getByEntity('expense', expenseId));
+        setSplits(toSplitDrafts(await expenseSplitRepository.getByExpenseId(expenseId)));
+        setPaidByMemberId(expense.paidByMemberId);
+        setTaxTreatment(expense.taxTreatment);
         setSelectedRoomId(expense.roomId);
         setSelectedWorkerId(expense.workerId);
         setPropertyId(expense.propertyId);
-        setOriginalWorkerId(expense.workerId);
-        setOriginalAmount(expense.amount);
 
         // Load rooms and workers
         const [roomsData, workersData] = await Promise.all([
@@ -126,41 +135,6 @@ export function EditExpenseScreen() {
     loadExpense();
   }, [loadExpense]);
 
-  const handlePickReceipt = async () => {
-    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
-    if (!permission.granted) {
-      Alert.alert(t('common.permissionNeeded'), t('common.photoLibraryPermission'));
-      return;
-    }
-
-    const result = await ImagePicker.launchImageLibraryAsync({
-      mediaTypes: ImagePicker.MediaTypeOptions.Images,
-      allowsEditing: true,
-      quality: 0.8,
-    });
-
-    if (!result.canceled && result.assets[0]) {
-      setReceiptUri(result.assets[0].uri);
-    }
-  };
-
-  const handleTakePhoto = async () => {
-    const permission = await ImagePicker.requestCameraPermissionsAsync();
-    if (!permission.granted) {
-      Alert.alert(t('common.permissionNeeded'), t('common.cameraPermission'));
-      return;
-    }
-
-    const result = await ImagePicker.launchCameraAsync({
-      allowsEditing: true,
-      quality: 0.8,
-    });
-
-    if (!result.canceled && result.assets[0]) {
-      setReceiptUri(result.assets[0].uri);
-    }
-  };
-
   const handleSave = async () => {
     if (!amount.trim() || parseFloat(amount) <= 0 || isNaN(parseFloat(amount))) {
       Alert.alert(t('common.required'), t('common.validAmount'));
@@ -172,43 +146,38 @@ export function EditExpenseScreen() {
       return;
     }
 
+    const splitData = toSplitData(splits, currency);
+    if (splitData.length > 0 && !splitsAddUp(splitData, parseFloat(amount))) {
+      Alert.alert(t('expenseSplits.notAddingUpTitle'), t('expenseSplits.notAddingUp', { amount: formatCurrency(parseFloat(amount), currency) }));
+      return;
+    }
+
     setLoading(true);
 
     try {
       const newAmount = parseFloat(amount);
-      const workerChanged = originalWorkerId !== selectedWorkerId;
-      const amountChanged = originalAmount !== newAmount;
-
-      // Perform all updates - if any fails, we handle it gracefully
-      // Note: Ideally this would be in a database transaction, but SQLite
-      // in React Native doesn't support transactions across multiple repository calls.
-      // We update worker totals first so the expense always reflects the final state.
-      if (workerChanged || amountChanged) {
-        // Handle original worker: subtract old amount
-        if (originalWorkerId) {
-          await workerRepository.updateTotalPaid(originalWorkerId, -originalAmount);
-        }
-        // Handle new worker: add new amount
-        if (selectedWorkerId) {
-          await workerRepository.updateTotalPaid(selectedWorkerId, newAmount);
-        }
-      }
 
       await expenseRepository.update(expenseId, {
         roomId: selectedRoomId,
         workerId: selectedWorkerId,
+        // An empty value clears the payer
+        paidByMemberId: paidByMemberId ?? '',
+        taxTreatment: taxTreatment ?? '',
         type,
         category,
         amount: newAmount,
+        currency,
         date: date.toISOString(),
         description: description.trim(),
-        receiptUri,
       });
+      await attachmentRepository.saveDrafts('expense', expenseId, attachments);
+      await customFieldValueRepository.save('expense', expenseId, customValues);
+      await expenseSplitRepository.replaceForExpense(expenseId, splitData);
 
       navigation.goBack();
     } catch (error) {
       console.error('Failed to update expense:', error);
-      Alert.alert(t('common.error'), t('expense.updateError'));
+      Alert.alert(t('common.error'), describeSaveError(error, t('expense.updateError'), t));
     } finally {
       setLoading(false);
     }
@@ -289,7 +258,7 @@ export function EditExpenseScreen() {
           <View className="bg-primary-50 rounded-2xl p-5 mb-5 items-center">
             <Text className="text-sm font-medium text-primary-700 mb-2">{t('expense.amount')}</Text>
             <View className="flex-row items-center">
-              <Text className="text-3xl font-bold text-primary-700">{getCurrencySymbol()}</Text>
+              <Text className="text-3xl font-bold text-primary-700">{getCurrencySymbol(currency)}</Text>
               <Input
                 placeholder="0.00"
                 value={amount}
@@ -299,6 +268,9 @@ export function EditExpenseScreen() {
                 className="text-3xl font-bold text-primary-700 bg-transparent border-0 text-center"
               />
             </View>
+            <View className="mt-2">
+              <CurrencySelect value={currency} onChange={setCurrency} />
+            </View>
           </View>
 
           {/* Expense Type */}
@@ -469,46 +441,27 @@ export function EditExpenseScreen() {
             </View>
           )}
 
-          {/* Receipt */}
+          {propertyId !== '' && (
+            <ExpenseSplitEditor
+              propertyId={propertyId}
+              amount={parseFloat(amount) || 0}
+              currency={currency}
+              paidByMemberId={paidByMemberId}
+              onPaidByChange={setPaidByMemberId}
+              splits={splits}
+              onSplitsChange={setSplits}
+            />
+          )}
+
+          <TaxTreatmentSelect value={taxTreatment} onChange={setTaxTreatment} />
+
+          {/* Attachments */}
           <View className="mb-4">
             <Text className="text-sm font-medium text-slate-700 mb-2">{t('expense.receipt')}</Text>
-            <View className="flex-row items-center">
-              <TouchableOpacity
-                onPress={handlePickReceipt}
-                activeOpacity={0.8}
-                className="w-20 h-20 rounded-xl overflow-hidden bg-slate-100 items-center justify-center border-2 border-dashed border-slate-300"
-              >
-                {receiptUri ? (
-                  <Image
-                    source={{ uri: receiptUri }}
-                    className="w-full h-full"
-                    resizeMode="cover"
-                  />
-                ) : (
-                  <View className="items-center">
-                    <Receipt size={24} color={COLORS.slate[400]} />
-                    <Text className="text-xs text-slate-500 mt-1">{t('common.add')}</Text>
-                  </View>
-                )}
-              </TouchableOpacity>
-
-              <View className="ml-3 gap-2">
-                <Button
-                  title={receiptUri ? t('common.change') : t('common.choose')}
-                  variant="outline"
-                  size="sm"
-                  onPress={handlePickReceipt}
-                />
-                <Button
-                  title={t('common.camera')}
-                  variant="outline"
-                  size="sm"
-                  icon={<Camera size={14} color={COLORS.slate[700]} />}
-                  onPress={handleTakePhoto}
-                />
-              </View>
-            </View>
+            <AttachmentPicker value={attachments} onChange={setAttachments} />
           </View>
+
+          <CustomFieldInputs entityType="expense" values={customValues} onChange={setCustomValues} />
         </ScrollView>
       </KeyboardAvoidingView>
 
@@ -5,9 +5,7 @@ import {
   ScrollView,
   RefreshControl,
   TouchableOpacity,
-  Image,
   Alert,
-  Linking,
 } from 'react-native';
 import { useFocusEffect, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -18,19 +16,19 @@ import {
   DollarSign,
   Tag,
   FileText,
-  Receipt,
   Home,
   MapPin,
   Package,
   User,
   ChevronRight,
-  ExternalLink,
   Repeat,
   Clock,
+  Split,
+  UserRound,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { RootStackParamList } from '../../navigation/types';
-import { Expense, Property, Room, Asset, Worker, ExpenseAssetWithDetails } from '../../types';
+import { Expense, Property, Room, Asset, Worker, ExpenseAssetWithDetails, ExpenseSplitWithDetails, HouseholdMember } from '../../types';
 import {
   expenseRepository,
   propertyRepository,
@@ -38,8 +36,13 @@ import {
   assetRepository,
   workerRepository,
   expenseAssetRepository,
+  expenseSplitRepository,
+  householdMemberRepository,
 } from '../../services/database';
 import { ScreenHeader, Card, PressableCard, Button, IconButton, Badge } from '../../components/ui';
+import { ChangeHistory } from '../../components/ChangeHistory';
+import { AttachmentGallery } from '../../components/AttachmentGallery';
+import { CustomFieldList } from '../../components/CustomFieldInputs';
 import { COLORS, EXPENSE_TYPES, ASSET_CATEGORIES } from '../../constants/theme';
 import { formatCurrency } from '../../utils/currency';
 import { formatDate, formatRelativeDate } from '../../utils/date';
@@ -61,6 +64,8 @@ export function ExpenseDetailScreen() {
   const [asset, setAsset] = useState<Asset | null>(null);
   const [worker, setWorker] = useState<Worker | null>(null);
   const [linkedAssets, setLinkedAssets] = useState<ExpenseAssetWithDetails[]>([]);
+  const [paidBy, setPaidBy] = useState<HouseholdMember | null>(null);
+  const [splits, setSplits] = useState<ExpenseSplitWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -91,6 +96,9 @@ export function ExpenseDetailScreen() {
         // Load linked assets
         const linkedAssetsData = await expenseAssetRepository.getByExpenseIdWithDetails(expenseId);
         setLinkedAssets(linkedAssetsData);
+
+        setPaidBy(expenseData.paidByMemberId ? await householdMemberRepository.getById(expenseData.paidByMemberId) : null);
+        setSplits(await expenseSplitRepository.getByExpenseId(expenseId));
       }
     } catch (error) {
       console.error('Failed to load expense:', error);
@@ -126,10 +134,6 @@ export function ExpenseDetailScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              // Update worker's total paid before deleting
-              if (expense?.workerId && expense?.amount) {
-                await workerRepository.updateTotalPaid(expense.workerId, -expense.amount);
-              }
               await expenseRepository.delete(expenseId);
               navigation.goBack();
             } catch (error) {
@@ -142,12 +146,6 @@ export function ExpenseDetailScreen() {
     );
   };
 
-  const handleViewReceipt = () => {
-    if (expense?.receiptUri) {
-      Linking.openURL(expense.receiptUri);
-    }
-  };
-
   const handlePropertyPress = () => {
     if (property) {
       navigation.navigate('PropertyDetail', { propertyId: property.id });
@@ -222,21 +220,6 @@ export function ExpenseDetailScreen() {
           />
         }
       >
-        {/* Receipt Image */}
-        {expense.receiptUri && (
-          <TouchableOpacity onPress={handleViewReceipt} activeOpacity={0.9}>
-            <Image
-              source={{ uri: expense.receiptUri }}
-              className="w-full h-56"
-              resizeMode="cover"
-            />
-            <View className="absolute bottom-3 right-3 bg-black/50 px-3 py-1.5 rounded-lg flex-row items-center">
-              <ExternalLink size={14} color="#ffffff" />
-              <Text className="text-white text-sm font-medium ml-1.5">View Full</Text>
-            </View>
-          </TouchableOpacity>
-        )}
-
         {/* Amount Header */}
         <View className={`px-5 py-6 border-b ${isDark ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-100'}`}>
           <View className="flex-row items-start justify-between">
@@ -252,6 +235,13 @@ export function ExpenseDetailScreen() {
                   color={COLORS.slate[500]}
                   size="sm"
                 />
+                {expense.taxTreatment && (
+                  <Badge
+                    label={t(`taxSummary.treatments.${expense.taxTreatment}`)}
+                    color={COLORS.primary[500]}
+                    size="sm"
+                  />
+                )}
                 {expense.isRecurring && (
                   <View className={`flex-row items-center px-2 py-0.5 rounded-full ${isDark ? 'bg-purple-900/40' : 'bg-purple-100'}`}>
                     <Repeat size={12} color={COLORS.categories.bill} />
@@ -260,7 +250,7 @@ export function ExpenseDetailScreen() {
                 )}
               </View>
               <Text className={`text-3xl font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                {formatCurrency(expense.amount)}
+                {formatCurrency(expense.amount, expense.currency)}
               </Text>
               <Text className={`text-lg mt-1 ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>{expense.description}</Text>
             </View>
@@ -381,7 +371,25 @@ export function ExpenseDetailScreen() {
               </TouchableOpacity>
             )}
 
-            {!property && !room && !asset && !worker && (
+            {/* Paid by */}
+            {paidBy && (
+              <TouchableOpacity
+                onPress={() => navigation.navigate('SettleUp')}
+                className={`flex-row items-center px-4 py-3.5 border-t ${isDark ? 'border-slate-700' : 'border-slate-100'}`}
+                activeOpacity={0.7}
+              >
+                <View className={`w-10 h-10 rounded-xl items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}>
+                  <UserRound size={20} color={COLORS.slate[500]} />
+                </View>
+                <View className="flex-1 ml-3">
+                  <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('expenseSplits.paidBy')}</Text>
+                  <Text className={`text-base font-medium ${isDark ? 'text-white' : 'text-slate-900'}`}>{paidBy.name}</Text>
+                </View>
+                <ChevronRight size={20} color={COLORS.slate[400]} />
+              </TouchableOpacity>
+            )}
+
+            {!property && !room && !asset && !worker && !paidBy && (
               <View className="px-4 py-4">
                 <Text className={`text-center ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('common.noLinkedItems')}</Text>
               </View>
@@ -428,7 +436,7 @@ export function ExpenseDetailScreen() {
                     </View>
                     <View className="items-end">
                       <Text className="text-base font-semibold text-primary-600">
-                        {formatCurrency(linkedAsset.amount)}
+                        {formatCurrency(linkedAsset.amount, expense.currency)}
                       </Text>
                       <Text className={`text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
                         {Math.round((linkedAsset.amount / expense.amount) * 100)}%
@@ -444,39 +452,66 @@ export function ExpenseDetailScreen() {
                   {t('expense.totalAllocated')}
                 </Text>
                 <Text className={`text-sm font-bold ${isDark ? 'text-slate-200' : 'text-slate-700'}`}>
-                  {formatCurrency(linkedAssets.reduce((sum, a) => sum + a.amount, 0))}
+                  {formatCurrency(linkedAssets.reduce((sum, a) => sum + a.amount, 0), expense.currency)}
                 </Text>
               </View>
             </Card>
           </View>
         )}
 
-        {/* Receipt Section */}
-        {expense.receiptUri && (
+        {/* Split Section */}
+        {splits.length > 0 && (
           <View className="px-5 mt-5">
             <Text className={`text-sm font-semibold uppercase tracking-wide mb-3 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
-              {t('expense.receipt')}
+              {t('expenseSplits.title')}
             </Text>
-            <TouchableOpacity
-              onPress={handleViewReceipt}
-              activeOpacity={0.8}
-            >
-              <Card variant="default" padding="md" className={isDark ? 'bg-slate-800' : ''}>
-                <View className="flex-row items-center">
-                  <View className={`w-12 h-12 rounded-xl items-center justify-center ${isDark ? 'bg-indigo-900/40' : 'bg-indigo-50'}`}>
-                    <Receipt size={24} color={COLORS.categories.document} />
+            <Card variant="default" padding="none" className={isDark ? 'bg-slate-800' : ''}>
+              {splits.map((split, index) => (
+                <TouchableOpacity
+                  key={split.id}
+                  onPress={() => navigation.navigate('PropertyDetail', { propertyId: split.propertyId })}
+                  className={`flex-row items-center px-4 py-3.5 ${index < splits.length - 1 ? `border-b ${isDark ? 'border-slate-700' : 'border-slate-100'}` : ''}`}
+                  activeOpacity={0.7}
+                >
+                  <View className={`w-10 h-10 rounded-xl items-center justify-center ${isDark ? 'bg-primary-900/40' : 'bg-primary-50'}`}>
+                    <Split size={20} color={COLORS.primary[600]} />
                   </View>
                   <View className="flex-1 ml-3">
-                    <Text className={`text-base font-medium ${isDark ? 'text-white' : 'text-slate-900'}`}>{t('expense.viewReceipt')}</Text>
-                    <Text className={`text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('expense.tapToOpen')}</Text>
+                    <Text className={`text-base font-medium ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                      {[split.propertyName, split.roomName].filter(Boolean).join(' · ')}
+                    </Text>
+                    {split.memberName && (
+                      <Text className={`text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                        {t('expenseSplits.owedByName', { name: split.memberName })}
+                      </Text>
+                    )}
                   </View>
-                  <ExternalLink size={20} color={COLORS.primary[600]} />
-                </View>
-              </Card>
-            </TouchableOpacity>
+                  <View className="items-end">
+                    <Text className="text-base font-semibold text-primary-600">
+                      {formatCurrency(split.shareAmount, expense.currency)}
+                    </Text>
+                    <Text className={`text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                      {Math.round((split.shareAmount / expense.amount) * 100)}%
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </Card>
           </View>
         )}
 
+        {/* Attachments */}
+        <View className="px-5 mt-5">
+          <AttachmentGallery entityType="expense" entityId={expenseId} title={t('attachments.title')} />
+        </View>
+
+        <CustomFieldList entityType="expense" entityId={expenseId} className="px-5 mt-5" />
+
+        {/* Change History */}
+        <View className="px-5 mt-5">
+          <ChangeHistory table="expenses" recordId={expenseId} onReverted={loadData} />
+        </View>
+
         {/* Created Date */}
         <View className="px-5 py-10">
           <View className="flex-row items-center justify-center py-3">
@@ -12,13 +12,22 @@ import {
   Plus,
   Calendar,
   TrendingUp,
+  FileUp,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { Expense, Property } from '../../types';
-import { expenseRepository, propertyRepository } from '../../services/database';
+import { BudgetStatus, Expense, Property } from '../../types';
+import {
+  budgetRepository,
+  exchangeRateRepository,
+  expenseRepository,
+  propertyRepository,
+  sumInReportingCurrency,
+  CurrencyConverter,
+} from '../../services/database';
 import { ScreenHeader, Card, Button, EmptyState, Badge, IconButton } from '../../components/ui';
+import { BudgetProgressList } from '../../components/BudgetProgress';
 import { COLORS, EXPENSE_TYPES, SHADOWS } from '../../constants/theme';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
 import { formatDate } from '../../utils/date';
 import { format, isThisMonth, isThisYear, startOfMonth, endOfMonth } from 'date-fns';
 import { useTheme, useTranslation } from '../../contexts';
@@ -41,21 +50,28 @@ export function PropertyExpensesScreen() {
   const navigation = useNavigation<NavigationProp>();
   const { isDark } = useTheme();
   const { t } = useTranslation();
+  const reportingCurrency = getReportingCurrency();
   const { propertyId } = route.params;
 
   const [property, setProperty] = useState<Property | null>(null);
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [convert, setConvert] = useState<CurrencyConverter>(() => (amount: number) => amount);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   const loadData = useCallback(async () => {
     try {
-      const [propertyData, expensesData] = await Promise.all([
+      const [propertyData, expensesData, budgetsData, converter] = await Promise.all([
         propertyRepository.getById(propertyId),
-        expenseRepository.getByPropertyId(propertyId),
+        expenseRepository.getByPropertyShare(propertyId),
+        budgetRepository.getStatuses(propertyId),
+        exchangeRateRepository.getConverter(),
       ]);
       setProperty(propertyData);
       setExpenses(expensesData);
+      setBudgets(budgetsData);
+      setConvert(() => converter);
     } catch (error) {
       console.error('Failed to load expenses:', error);
     } finally {
@@ -75,16 +91,16 @@ export function PropertyExpensesScreen() {
     loadData();
   };
 
-  // Calculate stats
-  const thisMonthTotal = expenses
-    .filter(e => isThisMonth(new Date(e.date)))
-    .reduce((sum, e) => sum + e.amount, 0);
+  // Calculate stats, in the reporting currency. Split expenses count with the
+  // property's share.
+  const sumShares = (list: Expense[]) =>
+    sumInReportingCurrency(list.map(e => ({ amount: e.shareAmount ?? e.amount, currency: e.currency, date: e.date })), convert);
+
+  const thisMonthTotal = sumShares(expenses.filter(e => isThisMonth(new Date(e.date))));
 
-  const thisYearTotal = expenses
-    .filter(e => isThisYear(new Date(e.date)))
-    .reduce((sum, e) => sum + e.amount, 0);
+  const thisYearTotal = sumShares(expenses.filter(e => isThisYear(new Date(e.date))));
 
-  const totalAll = expenses.reduce((sum, e) => sum + e.amount, 0);
+  const totalAll = sumShares(expenses);
 
   // Group expenses by month
   const groupedByMonth = expenses.reduce((groups, expense) => {
@@ -106,11 +122,18 @@ export function PropertyExpensesScreen() {
         showBack
         onBack={() => navigation.goBack()}
         rightAction={
-          <IconButton
-            icon={<Plus size={22} color={COLORS.primary[600]} />}
-            variant="ghost"
-            onPress={() => navigation.navigate('AddExpense', { propertyId })}
-          />
+          <View className="flex-row">
+            <IconButton
+              icon={<FileUp size={20} color={COLORS.primary[600]} />}
+              variant="ghost"
+              onPress={() => navigation.navigate('StatementImport', { propertyId })}
+            />
+            <IconButton
+              icon={<Plus size={22} color={COLORS.primary[600]} />}
+              variant="ghost"
+              onPress={() => navigation.navigate('AddExpense', { propertyId })}
+            />
+          </View>
         }
       />
 
@@ -134,7 +157,7 @@ export function PropertyExpensesScreen() {
                 <Text className="text-xs text-primary-600 font-medium ml-1">{t('common.thisMonth')}</Text>
               </View>
               <Text className="text-lg font-bold text-primary-700">
-                {formatCurrency(thisMonthTotal)}
+                {formatCurrency(thisMonthTotal, reportingCurrency)}
               </Text>
             </Card>
             <Card variant="filled" padding="md" className="flex-1 bg-amber-50">
@@ -143,7 +166,7 @@ export function PropertyExpensesScreen() {
                 <Text className="text-xs text-amber-600 font-medium ml-1">{t('common.thisYear')}</Text>
               </View>
               <Text className="text-lg font-bold text-amber-700">
-                {formatCurrency(thisYearTotal)}
+                {formatCurrency(thisYearTotal, reportingCurrency)}
               </Text>
             </Card>
           </View>
@@ -159,13 +182,33 @@ export function PropertyExpensesScreen() {
                     {t('expense.totalAllTime')}
                   </Text>
                   <Text className={`text-xl font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                    {formatCurrency(totalAll)}
+                    {formatCurrency(totalAll, reportingCurrency)}
                   </Text>
                 </View>
               </View>
               <Badge label={t('expense.expensesCount', { count: expenses.length })} variant="default" />
             </View>
           </Card>
+
+          {/* Budgets */}
+          <View className="mb-4">
+            <View className="flex-row items-center justify-between mb-3">
+              <Text className={`text-sm font-semibold uppercase tracking-wide ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                {t('budgets.title')}
+              </Text>
+              <TouchableOpacity onPress={() => navigation.navigate('Budgets', { propertyId })} activeOpacity={0.7}>
+                <Text className="text-sm font-semibold text-primary-600">
+                  {budgets.length > 0 ? t('budgets.manage') : t('budgets.setBudget')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {budgets.length > 0 && (
+              <BudgetProgressList
+                statuses={budgets}
+                onPress={() => navigation.navigate('Budgets', { propertyId })}
+              />
+            )}
+          </View>
         </View>
 
         {/* Expenses List */}
@@ -183,7 +226,7 @@ export function PropertyExpensesScreen() {
           <View className="px-4 pb-8">
             {sortedMonths.map(monthKey => {
               const monthExpenses = groupedByMonth[monthKey];
-              const monthTotal = monthExpenses.reduce((sum, e) => sum + e.amount, 0);
+              const monthTotal = sumShares(monthExpenses);
               const monthDate = new Date(monthKey + '-01');
 
               return (
@@ -193,7 +236,7 @@ export function PropertyExpensesScreen() {
                       {format(monthDate, 'MMMM yyyy')}
                     </Text>
                     <Text className={`text-sm font-bold ${isDark ? 'text-white' : 'text-slate-700'}`}>
-                      {formatCurrency(monthTotal)}
+                      {formatCurrency(monthTotal, reportingCurrency)}
                     </Text>
                   </View>
 
@@ -239,9 +282,16 @@ export function PropertyExpensesScreen() {
                             </Text>
                           </View>
                         </View>
-                        <Text className={`text-base font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                          {formatCurrency(expense.amount)}
-                        </Text>
+                        <View className="items-end">
+                          <Text className={`text-base font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                            {formatCurrency(expense.shareAmount ?? expense.amount, expense.currency)}
+                          </Text>
+                          {expense.shareAmount !== undefined && expense.shareAmount !== expense.amount && (
+                            <Text className={`text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                              {t('expenseSplits.shareOf', { total: formatCurrency(expense.amount, expense.currency) })}
+                            </Text>
+                          )}
+                        </View>
                       </TouchableOpacity>
                     ))}
                   </View>
@@ -0,0 +1,518 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Switch, Alert } from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { FileUp, CheckSquare, Square, ChevronDown, Copy, Repeat, Tag } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Haptics from 'expo-haptics';
+import { File } from 'expo-file-system';
+import { RootStackParamList } from '../../navigation/types';
+import { Property } from '../../types';
+import { propertyRepository } from '../../services/database';
+import {
+  parseStatement,
+  guessCsvMapping,
+  applyCsvMapping,
+  buildStatementImport,
+  importStatementItems,
+  getPayeePattern,
+  DATE_ORDERS,
+  CsvTable,
+  CsvColumnMapping,
+  DateOrder,
+  StatementTransaction,
+  StatementImportItem,
+  StatementTarget,
+} from '../../services/import';
+import { ScreenHeader, Card, Button, Badge, SelectDialog } from '../../components/ui';
+import { COLORS, SHADOWS } from '../../constants/theme';
+import { formatCurrency } from '../../utils/currency';
+import { formatDate } from '../../utils/date';
+import { useTheme, useTranslation, useToast } from '../../contexts';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type StatementImportRouteProp = RouteProp<RootStackParamList, 'StatementImport'>;
+
+type Step = 'pick' | 'mapping' | 'review';
+
+type MappingField = 'date' | 'payee' | 'memo' | 'amount' | 'debit' | 'credit';
+
+const DATE_ORDER_EXAMPLES: Record<DateOrder, string> = {
+  ymd: '2024-03-31',
+  dmy: '31.03.2024',
+  mdy: '03/31/2024',
+};
+
+const NO_COLUMN = 'none';
+const NO_TARGET = 'none';
+
+export function StatementImportScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<StatementImportRouteProp>();
+  const { propertyId } = route.params;
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  const { showSuccess } = useToast();
+
+  const [property, setProperty] = useState<Property | null>(null);
+  const [step, setStep] = useState<Step>('pick');
+  const [loading, setLoading] = useState(false);
+  const [fileName, setFileName] = useState('');
+
+  // CSV mapping
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [editingField, setEditingField] = useState<MappingField | null>(null);
+
+  // Review
+  const [items, setItems] = useState<StatementImportItem[]>([]);
+  const [targets, setTargets] = useState<StatementTarget[]>([]);
+  const [skippedRows, setSkippedRows] = useState(0);
+  const [ignoredIncoming, setIgnoredIncoming] = useState(0);
+  const [editingItem, setEditingItem] = useState<number | null>(null);
+
+  useEffect(() => {
+    propertyRepository.getById(propertyId)
+      .then(setProperty)
+      .catch(error => console.error('Failed to load property:', error));
+  }, [propertyId]);
+
+  const preview = useMemo(
+    () => (table && mapping ? applyCsvMapping(table, mapping) : null),
+    [table, mapping]
+  );
+
+  const startReview = async (transactions: StatementTransaction[], skipped: number) => {
+    const result = await buildStatementImport(propertyId, transactions);
+    setItems(result.items);
+    setTargets(result.targets);
+    setIgnoredIncoming(result.ignoredIncoming);
+    setSkippedRows(skipped);
+    setStep('review');
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/*', 'application/*', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      setLoading(true);
+      const asset = result.assets[0];
+      const content = await new File(asset.uri).text();
+      const parsed = parseStatement(asset.name, content);
+      setFileName(asset.name);
+
+      if (parsed.table) {
+        if (parsed.table.rows.length === 0) {
+          Alert.alert(t('statementImport.title'), t('statementImport.emptyFile'));
+          return;
+        }
+        setTable(parsed.table);
+        setMapping(guessCsvMapping(parsed.table));
+        setStep('mapping');
+      } else {
+        if (parsed.transactions.length === 0) {
+          Alert.alert(t('statementImport.title'), t('statementImport.emptyFile'));
+          return;
+        }
+        await startReview(parsed.transactions, parsed.skippedRows);
+      }
+    } catch (error) {
+      console.error('Failed to read statement:', error);
+      Alert.alert(t('statementImport.title'), t('statementImport.readFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMappingContinue = async () => {
+    if (!preview) return;
+    if (preview.transactions.length === 0) {
+      Alert.alert(t('statementImport.title'), t('statementImport.noRowsParsed'));
+      return;
+    }
+    setLoading(true);
+    try {
+      await startReview(preview.transactions, preview.skippedRows);
+    } catch (error) {
+      console.error('Failed to match statement:', error);
+      Alert.alert(t('statementImport.title'), t('settingsScreen.alerts.unexpectedError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<StatementImportItem>) => {
+    setItems(current => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleSelectTarget = (value: string) => {
+    if (editingItem === null) return;
+    const target = value === NO_TARGET ? undefined : targets[Number(value)];
+    updateItem(editingItem, { target, matchedBy: undefined, remember: !!target });
+    setEditingItem(null);
+  };
+
+  const includedCount = items.filter(item => item.include).length;
+  const duplicateCount = items.filter(item => item.duplicateOf).length;
+
+  const handleImport = async () => {
+    setLoading(true);
+    try {
+      const result = await importStatementItems(propertyId, items);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+      showSuccess(t('statementImport.imported', { count: result.created }));
+      navigation.goBack();
+    } catch (error) {
+      console.error('Statement import failed:', error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+      Alert.alert(t('statementImport.title'), t('settingsScreen.alerts.unexpectedError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      className={`px-4 py-2 rounded-full ${
+        selected
+          ? 'bg-primary-500'
+          : isDark ? 'bg-slate-700' : 'bg-slate-100'
+      }`}
+    >
+      <Text className={`text-sm font-medium ${
+        selected ? 'text-white' : isDark ? 'text-slate-300' : 'text-slate-700'
+      }`}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderSectionTitle = (title: string) => (
+    <Text className={`px-5 text-xs font-semibold uppercase tracking-wider mb-2 ${isDark ? 'text-slate-500' : 'text-slate-500'}`}>
+      {title}
+    </Text>
+  );
+
+  const renderPickStep = () => (
+    <View className="px-5 pt-6">
+      <Card variant="default" padding="lg">
+        <View className="items-center">
+          <View className="w-14 h-14 rounded-2xl bg-primary-100 items-center justify-center mb-4">
+            <FileUp size={28} color={COLORS.primary[600]} />
+          </View>
+          <Text className={`text-base font-semibold text-center ${isDark ? 'text-white' : 'text-slate-900'}`}>
+            {t('statementImport.pickTitle')}
+          </Text>
+          <Text className={`text-sm text-center mt-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+            {t('statementImport.pickDescription')}
+          </Text>
+        </View>
+      </Card>
+      <View className="mt-6">
+        <Button
+          title={t('statementImport.chooseFile')}
+          onPress={handlePickFile}
+          variant="primary"
+          loading={loading}
+          disabled={loading}
+          icon={<FileUp size={18} color="#ffffff" />}
+          fullWidth
+        />
+      </View>
+    </View>
+  );
+
+  const renderMappingField = (field: MappingField, optional = false) => {
+    if (!table || !mapping) return null;
+    const index = mapping[field];
+    return (
+      <TouchableOpacity
+        key={field}
+        onPress={() => setEditingField(field)}
+        className={`flex-row items-center justify-between px-4 py-3 border-b ${isDark ? 'border-slate-700' : 'border-slate-100'}`}
+      >
+        <Text className={`text-sm ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+          {t(`statementImport.fields.${field}`)}
+          {optional ? ` ${t('statementImport.optional')}` : ''}
+        </Text>
+        <View className="flex-row items-center">
+          <Text className={`text-sm font-medium mr-1 ${index === undefined ? (isDark ? 'text-slate-500' : 'text-slate-400') : 'text-primary-500'}`}>
+            {index === undefined ? t('statementImport.notMapped') : table.headers[index] || `#${index + 1}`}
+          </Text>
+          <ChevronDown size={16} color={COLORS.slate[400]} />
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderMappingStep = () => {
+    if (!table || !mapping) return null;
+    const splitAmounts = mapping.amount === undefined;
+
+    return (
+      <>
+        <Text className={`px-5 pt-4 text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+          {t('statementImport.mappingDescription', { file: fileName })}
+        </Text>
+
+        <View className="mt-6">
+          {renderSectionTitle(t('statementImport.columns'))}
+          <View className={isDark ? 'bg-slate-800' : 'bg-white'} style={SHADOWS.sm}>
+            {renderMappingField('date')}
+            {renderMappingField('payee')}
+            {renderMappingField('memo', true)}
+          </View>
+        </View>
+
+        <View className="mt-6">
+          {renderSectionTitle(t('statementImport.amounts'))}
+          <View className="flex-row px-5 mb-3" style={{ gap: 8 }}>
+            {renderChip('single', t('statementImport.singleAmount'), !splitAmounts, () =>
+              setMapping({ ...mapping, amount: mapping.amount ?? mapping.debit ?? table.headers.length - 1, debit: undefined, credit: undefined })
+            )}
+            {renderChip('split', t('statementImport.splitAmounts'), splitAmounts, () =>
+              setMapping({ ...mapping, debit: mapping.debit ?? mapping.amount ?? 0, amount: undefined })
+            )}
+          </View>
+          <View className={isDark ? 'bg-slate-800' : 'bg-white'} style={SHADOWS.sm}>
+            {splitAmounts ? (
+              <>
+                {renderMappingField('debit')}
+                {renderMappingField('credit', true)}
+              </>
+            ) : (
+              <>
+                {renderMappingField('amount')}
+                <View className="flex-row items-center justify-between px-4 py-3">
+                  <Text className={`flex-1 text-sm ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                    {t('statementImport.spendingIsPositive')}
+                  </Text>
+                  <Switch
+                    value={mapping.spendingIsPositive}
+                    onValueChange={value => setMapping({ ...mapping, spendingIsPositive: value })}
+                    trackColor={{ false: COLORS.slate[200], true: COLORS.primary[500] }}
+                    thumbColor="#ffffff"
+                  />
+                </View>
+              </>
+            )}
+          </View>
+        </View>
+
+        <View className="mt-6">
+          {renderSectionTitle(t('statementImport.dateFormat'))}
+          <View className="flex-row flex-wrap px-5" style={{ gap: 8 }}>
+            {DATE_ORDERS.map(order =>
+              renderChip(order, DATE_ORDER_EXAMPLES[order], mapping.dateOrder === order, () => setMapping({ ...mapping, dateOrder: order }))
+            )}
+          </View>
+        </View>
+
+        <View className="mt-6">
+          {renderSectionTitle(t('statementImport.numberFormat'))}
+          <View className="flex-row px-5" style={{ gap: 8 }}>
+            {renderChip('comma', '1.234,56', mapping.decimalSeparator === ',', () => setMapping({ ...mapping, decimalSeparator: ',' }))}
+            {renderChip('dot', '1,234.56', mapping.decimalSeparator === '.', () => setMapping({ ...mapping, decimalSeparator: '.' }))}
+          </View>
+        </View>
+
+        {preview && (
+          <View className="mt-6">
+            {renderSectionTitle(t('statementImport.preview'))}
+            <View className="px-5">
+              <Card variant="default" padding="md">
+                {preview.transactions.slice(0, 3).map(transaction => (
+                  <View key={transaction.key} className="flex-row justify-between py-1.5">
+                    <Text className={`flex-1 text-sm mr-3 ${isDark ? 'text-slate-300' : 'text-slate-700'}`} numberOfLines={1}>
+                      {formatDate(transaction.date)} · {transaction.payee}
+                    </Text>
+                    <Text className={`text-sm font-medium ${transaction.amount < 0 ? 'text-red-500' : 'text-green-600'}`}>
+                      {formatCurrency(transaction.amount)}
+                    </Text>
+                  </View>
+                ))}
+                <Text className={`text-xs mt-2 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                  {t('statementImport.parsedRows', { count: preview.transactions.length, skipped: preview.skippedRows })}
+                </Text>
+              </Card>
+            </View>
+          </View>
+        )}
+
+        <View className="px-5 mt-8 pb-10">
+          <Button
+            title={t('statementImport.continue')}
+            onPress={handleMappingContinue}
+            variant="primary"
+            loading={loading}
+            disabled={loading || !preview || preview.transactions.length === 0}
+            fullWidth
+          />
+        </View>
+      </>
+    );
+  };
+
+  const renderReviewItem = (item: StatementImportItem, index: number) => {
+    const { transaction, target } = item;
+    const pattern = getPayeePattern(transaction.payee);
+
+    return (
+      <Card key={transaction.key} variant="default" padding="md" className="mb-3">
+        <View className="flex-row items-start">
+          <TouchableOpacity onPress={() => updateItem(index, { include: !item.include })} className="mr-3 mt-0.5">
+            {item.include
+              ? <CheckSquare size={22} color={COLORS.primary[500]} />
+              : <Square size={22} color={COLORS.slate[400]} />}
+          </TouchableOpacity>
+          <View className="flex-1">
+            <View className="flex-row justify-between">
+              <Text className={`flex-1 text-sm font-semibold mr-3 ${isDark ? 'text-white' : 'text-slate-900'}`} numberOfLines={2}>
+                {transaction.payee || transaction.memo}
+              </Text>
+              <Text className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                {formatCurrency(Math.abs(transaction.amount))}
+              </Text>
+            </View>
+            <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              {formatDate(transaction.date)}
+            </Text>
+
+            <TouchableOpacity
+              onPress={() => setEditingItem(index)}
+              className={`flex-row items-center self-start mt-2 px-3 py-1.5 rounded-full ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+            >
+              {target?.templateId
+                ? <Repeat size={14} color={COLORS.primary[500]} />
+                : <Tag size={14} color={target ? COLORS.primary[500] : COLORS.slate[400]} />}
+              <Text className={`text-xs font-medium ml-1.5 mr-1 ${target ? (isDark ? 'text-slate-200' : 'text-slate-700') : (isDark ? 'text-slate-500' : 'text-slate-400')}`}>
+                {target ? target.label : t('statementImport.uncategorized')}
+              </Text>
+              <ChevronDown size={14} color={COLORS.slate[400]} />
+            </TouchableOpacity>
+
+            <View className="flex-row flex-wrap mt-2" style={{ gap: 6 }}>
+              {item.matchedBy && (
+                <Badge label={t(`statementImport.matchedBy.${item.matchedBy}`)} variant="info" size="sm" />
+              )}
+              {item.duplicateOf && (
+                <Badge
+                  label={t('statementImport.possibleDuplicate', { description: item.duplicateOf.description })}
+                  variant="warning"
+                  size="sm"
+                  icon={<Copy size={10} color={COLORS.warning} />}
+                />
+              )}
+            </View>
+
+            {target && pattern && !item.matchedBy && (
+              <TouchableOpacity
+                onPress={() => updateItem(index, { remember: !item.remember })}
+                className="flex-row items-center mt-2"
+              >
+                {item.remember
+                  ? <CheckSquare size={16} color={COLORS.primary[500]} />
+                  : <Square size={16} color={COLORS.slate[400]} />}
+                <Text className={`text-xs ml-1.5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                  {t('statementImport.remember', { pattern })}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </Card>
+    );
+  };
+
+  const renderReviewStep = () => (
+    <>
+      <View className="px-5 pt-4">
+        <Text className={`text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+          {t('statementImport.reviewSummary', { count: items.length, duplicates: duplicateCount })}
+        </Text>
+        {(ignoredIncoming > 0 || skippedRows > 0) && (
+          <Text className={`text-xs mt-1 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+            {t('statementImport.ignoredRows', { incoming: ignoredIncoming, skipped: skippedRows })}
+          </Text>
+        )}
+      </View>
+
+      <View className="px-5 mt-4">
+        {items.map(renderReviewItem)}
+      </View>
+
+      <View className="px-5 mt-4 pb-10">
+        <Button
+          title={t('statementImport.importCount', { count: includedCount })}
+          onPress={handleImport}
+          variant="primary"
+          loading={loading}
+          disabled={loading || includedCount === 0}
+          fullWidth
+        />
+      </View>
+    </>
+  );
+
+  const columnOptions = (optional: boolean) => [
+    ...(optional ? [{ label: t('statementImport.notMapped'), value: NO_COLUMN }] : []),
+    ...(table?.headers ?? []).map((header, index) => ({
+      label: header || `#${index + 1}`,
+      value: String(index),
+    })),
+  ];
+
+  const targetOptions = [
+    { label: t('statementImport.uncategorized'), value: NO_TARGET },
+    ...targets.map((target, index) => ({
+      label: target.templateId ? `${t('statementImport.billPrefix')} ${target.label}` : target.label,
+      value: String(index),
+    })),
+  ];
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={t('statementImport.title')}
+        subtitle={property?.name}
+        showBack
+        onBack={() => (step === 'pick' ? navigation.goBack() : setStep(step === 'review' && table ? 'mapping' : 'pick'))}
+      />
+
+      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+        {step === 'pick' && renderPickStep()}
+        {step === 'mapping' && renderMappingStep()}
+        {step === 'review' && renderReviewStep()}
+      </ScrollView>
+
+      <SelectDialog
+        visible={editingField !== null}
+        title={editingField ? t(`statementImport.fields.${editingField}`) : ''}
+        options={columnOptions(editingField === 'memo' || editingField === 'credit')}
+        cancelText={t('common.cancel')}
+        onCancel={() => setEditingField(null)}
+        onSelect={value => {
+          if (mapping && editingField) {
+            setMapping({ ...mapping, [editingField]: value === NO_COLUMN ? undefined : Number(value) });
+          }
+          setEditingField(null);
+        }}
+      />
+
+      <SelectDialog
+        visible={editingItem !== null}
+        title={t('statementImport.recordAs')}
+        options={targetOptions}
+        cancelText={t('common.cancel')}
+        onCancel={() => setEditingItem(null)}
+        onSelect={handleSelectTarget}
+      />
+    </View>
+  );
+}
@@ -2,3 +2,4 @@ export { AddExpenseScreen } from './AddExpenseScreen';
 export { ExpenseDetailScreen } from './ExpenseDetailScreen';
 export { EditExpenseScreen } from './EditExpenseScreen';
 export { PropertyExpensesScreen } from './PropertyExpensesScreen';
+export { StatementImportScreen } from './StatementImportScreen';
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useCallback, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -30,15 +30,25 @@ import {
   Sparkles,
   Calendar,
   Zap,
+  PiggyBank,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { Property, Asset } from '../../types';
-import { propertyRepository, expenseRepository, assetRepository, maintenanceRepository } from '../../services/database';
+import { Property, Asset, BudgetStatus } from '../../types';
+import {
+  propertyRepository,
+  expenseRepository,
+  assetRepository,
+  maintenanceRepository,
+  budgetRepository,
+} from '../../services/database';
 import { getDaysUntil } from '../../utils/date';
 import { PressableCard, IconButton, EmptyState, Button, Card } from '../../components/ui';
+import { BudgetProgressList } from '../../components/BudgetProgress';
+import { MissingRatesNotice } from '../../components/CurrencySelect';
 import { COLORS, PROPERTY_TYPES, SHADOWS } from '../../constants/theme';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
 import { useTheme, useTranslation } from '../../contexts';
+import { useQuery } from '../../hooks';
 import { format } from 'date-fns';
 import { tr, enUS } from 'date-fns/locale';
 
@@ -209,12 +219,6 @@ export function HomeScreen() {
   const insets = useSafeAreaInsets();
   const { isDark } = useTheme();
   const { t, language } = useTranslation();
-  const [properties, setProperties] = useState<Property[]>([]);
-  const [monthlyTotal, setMonthlyTotal] = useState(0);
-  const [expiringWarranties, setExpiringWarranties] = useState<Asset[]>([]);
-  const [pendingTasks, setPendingTasks] = useState(0);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
 
   // Date locale
   const dateLocale = language === 'tr' ? tr : enUS;
@@ -223,37 +227,46 @@ export function HomeScreen() {
   const headerAnim = useRef(new Animated.Value(0)).current;
   const scrollY = useRef(new Animated.Value(0)).current;
 
-  const loadData = useCallback(async () => {
-    try {
-      const now = new Date();
-      const [propertiesData, monthlyTotalData, warrantiesData] = await Promise.all([
-        propertyRepository.getAll(),
-        expenseRepository.getMonthlyTotal(now.getFullYear(), now.getMonth() + 1),
-        assetRepository.getAllWithExpiringWarranty(30),
-      ]);
-
-      // Count pending maintenance tasks
-      let taskCount = 0;
-      for (const property of propertiesData) {
-        const tasks = await maintenanceRepository.getByPropertyId(property.id);
-        taskCount += tasks.filter(t => !t.isCompleted).length;
-      }
-
-      setProperties(propertiesData);
-      setMonthlyTotal(monthlyTotalData);
-      setExpiringWarranties(warrantiesData);
-      setPendingTasks(taskCount);
-    } catch (error) {
-      console.error('Failed to load data:', error);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
+  // Re-runs on its own when any of these tables change, e.g. after QuickAddSheet
+  const { data, loading, refreshing, refresh } = useQuery(async () => {
+    const now = new Date();
+    const [propertiesData, monthlyTotalData, unconvertedData, warrantiesData, budgetsData] = await Promise.all([
+      propertyRepository.getAll(),
+      expenseRepository.getMonthlyTotal(now.getFullYear(), now.getMonth() + 1),
+      expenseRepository.getUnconvertedCurrencies({
+        from: new Date(now.getFullYear(), now.getMonth(), 1).toISOString(),
+        to: new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59).toISOString(),
+      }),
+      assetRepository.getAllWithExpiringWarranty(30),
+      budgetRepository.getStatuses(),
+    ]);
+
+    // Count pending maintenance tasks
+    let taskCount = 0;
+    for (const property of propertiesData) {
+      const tasks = await maintenanceRepository.getByPropertyId(property.id);
+      taskCount += tasks.filter(t => !t.isCompleted).length;
     }
-  }, []);
+
+    return {
+      properties: propertiesData,
+      monthlyTotal: monthlyTotalData,
+      unconverted: unconvertedData,
+      expiringWarranties: warrantiesData,
+      pendingTasks: taskCount,
+      budgets: budgetsData,
+    };
+  }, ['properties', 'expenses', 'expense_splits', 'assets', 'maintenance_tasks', 'budgets', 'exchange_rates', 'app_settings']);
+
+  const properties: Property[] = data?.properties ?? [];
+  const monthlyTotal = data?.monthlyTotal ?? 0;
+  const unconverted: string[] = data?.unconverted ?? [];
+  const expiringWarranties: Asset[] = data?.expiringWarranties ?? [];
+  const pendingTasks = data?.pendingTasks ?? 0;
+  const budgets: BudgetStatus[] = data?.budgets ?? [];
 
   useFocusEffect(
     useCallback(() => {
-      loadData();
       // Trigger header animation
       Animated.spring(headerAnim, {
         toValue: 1,
@@ -261,12 +274,11 @@ export function HomeScreen() {
         tension: 40,
         useNativeDriver: true,
       }).start();
-    }, [loadData])
+    }, [])
   );
 
   const onRefresh = () => {
-    setRefreshing(true);
-    loadData();
+    refresh();
   };
 
   const handlePropertyPress = (property: Property) => {
@@ -402,7 +414,7 @@ export function HomeScreen() {
                 <AnimatedStatCard
                   icon={<TrendingUp size={20} color={COLORS.info} />}
                   label={t('home.thisMonth')}
-                  value={formatCurrency(monthlyTotal)}
+                  value={formatCurrency(monthlyTotal, getReportingCurrency())}
                   color={COLORS.info}
                   delay={100}
                   isDark={isDark}
@@ -410,6 +422,12 @@ export function HomeScreen() {
               </View>
             )}
 
+            {unconverted.length > 0 && (
+              <View className="mb-5">
+                <MissingRatesNotice currencies={unconverted} onPress={() => navigation.navigate('ExchangeRates')} />
+              </View>
+            )}
+
             {/* Alerts Section */}
             {(expiringWarranties.length > 0 || pendingTasks > 0) && (
               <View className="mb-5">
@@ -477,6 +495,31 @@ export function HomeScreen() {
               </View>
             )}
 
+            {/* Budgets Section */}
+            {budgets.length > 0 && (
+              <View className="mb-5">
+                <View className="flex-row items-center justify-between mb-3">
+                  <View className="flex-row items-center">
+                    <PiggyBank size={16} color={COLORS.primary[600]} />
+                    <Text className={`text-sm font-bold uppercase tracking-wide ml-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                      {t('budgets.title')}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => navigation.navigate('Budgets')}
+                    activeOpacity={0.7}
+                  >
+                    <Text className="text-sm font-semibold text-primary-600">{t('budgets.manage')}</Text>
+                  </TouchableOpacity>
+                </View>
+                <BudgetProgressList
+                  statuses={budgets}
+                  showProperty={properties.length > 1}
+                  onPress={status => navigation.navigate('PropertyExpenses', { propertyId: status.budget.propertyId })}
+                />
+              </View>
+            )}
+
             {/* Quick Actions */}
             {properties.length > 0 && (
               <View className="mb-5">
@@ -491,6 +534,13 @@ export function HomeScreen() {
                     onPress={() => navigation.navigate('Reports')}
                     delay={0}
                   />
+                  <QuickActionButton
+                    icon={<PiggyBank size={20} color="#fff" />}
+                    label={t('budgets.title')}
+                    colors={['#22c55e', '#16a34a']}
+                    onPress={() => navigation.navigate('Budgets')}
+                    delay={50}
+                  />
                 </View>
               </View>
             )}
@@ -25,6 +25,7 @@ import {
   Bell,
   User,
   History,
+  Paperclip,
   ChevronDown,
   ChevronUp,
   DollarSign,
@@ -32,10 +33,12 @@ import {
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { RootStackParamList } from '../../navigation/types';
-import { MaintenanceTaskWithWorker, MaintenanceCompletionWithWorker, Worker, Property } from '../../types';
-import { maintenanceRepository, maintenanceCompletionRepository, propertyRepository, workerRepository } from '../../services/database';
+import { MaintenanceTaskWithWorker, MaintenanceCompletionWithWorker, Worker, Property, AttachmentDraft } from '../../types';
+import { maintenanceRepository, maintenanceCompletionRepository, propertyRepository, workerRepository, attachmentRepository } from '../../services/database';
 import { notificationService } from '../../services/notifications';
 import { ScreenHeader, Card, Button, Badge, Input } from '../../components/ui';
+import { ChangeHistory } from '../../components/ChangeHistory';
+import { AttachmentGallery, AttachmentPicker } from '../../components/AttachmentGallery';
 import { COLORS, MAINTENANCE_TEMPLATES } from '../../constants/theme';
 import { formatDate, formatRelative, getCurrentISODate } from '../../utils/date';
 import { useTheme, useTranslation } from '../../contexts';
@@ -121,6 +124,7 @@ export function MaintenanceScreen() {
   const [completionWorkerId, setCompletionWorkerId] = useState<string | undefined>(undefined);
   const [completionNotes, setCompletionNotes] = useState('');
   const [completionCost, setCompletionCost] = useState('');
+  const [completionAttachments, setCompletionAttachments] = useState<AttachmentDraft[]>([]);
 
   // History state
   const [historyTask, setHistoryTask] = useState<MaintenanceTaskWithWorker | null>(null);
@@ -167,6 +171,7 @@ export function MaintenanceScreen() {
     setCompletionWorkerId(task.assignedWorkerId);
     setCompletionNotes('');
     setCompletionCost('');
+    setCompletionAttachments([]);
     setShowCompleteModal(true);
   };
 
@@ -176,13 +181,14 @@ export function MaintenanceScreen() {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     try {
       // Create completion record
-      await maintenanceCompletionRepository.create({
+      const completion = await maintenanceCompletionRepository.create({
         taskId: completingTask.id,
         workerId: completionWorkerId,
         completedDate: getCurrentISODate(),
         notes: completionNotes || undefined,
         cost: completionCost ? parseFloat(completionCost) : undefined,
       });
+      await attachmentRepository.saveDrafts('maintenance_completion', completion.id, completionAttachments);
 
       // Mark task complete (this will reschedule if recurring)
       await maintenanceRepository.markComplete(completingTask.id);
@@ -786,6 +792,21 @@ export function MaintenanceScreen() {
                 </Text>
               </View>
             )}
+
+            {editingTask && (
+              <View className="mb-5">
+                <ChangeHistory
+                  table="maintenance_tasks"
+                  recordId={editingTask.id}
+                  onReverted={() => {
+                    // The form still holds the values from before the revert
+                    setShowTaskModal(false);
+                    resetTaskForm();
+                    loadData();
+                  }}
+                />
+              </View>
+            )}
           </ScrollView>
         </View>
 
@@ -980,6 +1001,15 @@ export function MaintenanceScreen() {
                 numberOfLines={3}
               />
             </View>
+
+            {/* Photos and documents */}
+            <View className="mb-5">
+              <View className="flex-row items-center mb-2">
+                <Paperclip size={16} color={isDark ? COLORS.slate[400] : COLORS.slate[500]} />
+                <Text className={`text-sm font-semibold ml-1.5 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>{t('attachments.title')}</Text>
+              </View>
+              <AttachmentPicker value={completionAttachments} onChange={setCompletionAttachments} />
+            </View>
           </ScrollView>
         </View>
       </Modal>
@@ -1036,12 +1066,21 @@ export function MaintenanceScreen() {
                         {completion.notes && (
                           <Text className={`text-sm mt-2 p-2 rounded-lg ${isDark ? 'text-slate-300 bg-slate-700' : 'text-slate-600 bg-slate-50'}`}>{completion.notes}</Text>
                         )}
+                        <View className="mt-3">
+                          <AttachmentGallery entityType="maintenance_completion" entityId={completion.id} />
+                        </View>
                       </View>
                     </View>
                   </Card>
                 ))}
               </View>
             )}
+
+            {historyTask && (
+              <View className="mt-5 mb-8">
+                <ChangeHistory table="maintenance_tasks" recordId={historyTask.id} onReverted={loadData} />
+              </View>
+            )}
           </ScrollView>
         </View>
       </Modal>
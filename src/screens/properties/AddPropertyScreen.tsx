@@ -6,11 +6,13 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import * as ImagePicker from 'expo-image-picker';
 import { X, Camera, Home, Palmtree, Building2, Key, MapPin, Check } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { Property } from '../../types';
-import { propertyRepository } from '../../services/database';
+import { CustomFieldValues, Property } from '../../types';
+import { propertyRepository, customFieldValueRepository } from '../../services/database';
 import { Button, Input, IconButton } from '../../components/ui';
+import { CustomFieldInputs } from '../../components/CustomFieldInputs';
 import { COLORS, PROPERTY_TYPES } from '../../constants/theme';
 import { useToast, useTheme, useTranslation } from '../../contexts';
+import { describeSaveError } from '../../utils/validation';
 import { getImageQuality } from '../../utils/image';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -40,6 +42,7 @@ export function AddPropertyScreen() {
   const [address, setAddress] = useState('');
   const [type, setType] = useState<Property['type']>('home');
   const [imageUri, setImageUri] = useState<string | undefined>();
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
   const [loading, setLoading] = useState(false);
 
   const propertyTypes = getPropertyTypes(t);
@@ -92,18 +95,19 @@ export function AddPropertyScreen() {
     setLoading(true);
 
     try {
-      await propertyRepository.create({
+      const property = await propertyRepository.create({
         name: name.trim(),
         address: address.trim() || '',
         type,
         imageUri,
       });
+      await customFieldValueRepository.save('property', property.id, customValues);
 
       showSuccess(t('property.alerts.createSuccess'));
       navigation.goBack();
     } catch (error) {
       console.error('Failed to create property:', error);
-      showError(t('property.alerts.createError'));
+      showError(describeSaveError(error, t('property.alerts.createError'), t));
     } finally {
       setLoading(false);
     }
@@ -251,12 +255,14 @@ export function AddPropertyScreen() {
           containerClassName="mb-6"
         />
 
-        <View>
+        <View className="mb-6">
           <Text className={`text-sm font-medium mb-3 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>{t('property.type')}</Text>
           <View className="flex-row flex-wrap gap-3">
             {propertyTypes.map(renderPropertyTypeButton)}
           </View>
         </View>
+
+        <CustomFieldInputs entityType="property" values={customValues} onChange={setCustomValues} />
       </ScrollView>
     </View>
   );
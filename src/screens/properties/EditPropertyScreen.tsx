@@ -6,11 +6,13 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import * as ImagePicker from 'expo-image-picker';
 import { X, Camera, Home, Palmtree, Building2, Key, MapPin, Check, Image as ImageIcon } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { Property } from '../../types';
-import { propertyRepository } from '../../services/database';
+import { CustomFieldValues, Property } from '../../types';
+import { propertyRepository, customFieldValueRepository } from '../../services/database';
 import { Button, Input, IconButton } from '../../components/ui';
+import { CustomFieldInputs } from '../../components/CustomFieldInputs';
 import { COLORS, PROPERTY_TYPES } from '../../constants/theme';
 import { useTheme, useTranslation } from '../../contexts';
+import { describeSaveError } from '../../utils/validation';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type EditPropertyRouteProp = RouteProp<RootStackParamList, 'EditProperty'>;
@@ -52,6 +54,7 @@ export function EditPropertyScreen() {
   const [address, setAddress] = useState('');
   const [type, setType] = useState<Property['type']>('home');
   const [imageUri, setImageUri] = useState<string | undefined>();
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
 
@@ -69,6 +72,7 @@ export function EditPropertyScreen() {
         setAddress(property.address);
         setType(property.type);
         setImageUri(property.imageUri);
+        setCustomValues(await customFieldValueRepository.getByEntity('property', propertyId));
       }
     } catch (error) {
       console.error('Failed to load property:', error);
@@ -131,11 +135,12 @@ export function EditPropertyScreen() {
         type,
         imageUri,
       });
+      await customFieldValueRepository.save('property', propertyId, customValues);
 
       navigation.goBack();
     } catch (error) {
       console.error('Failed to update property:', error);
-      Alert.alert(t('common.error'), t('property.alerts.updateError'));
+      Alert.alert(t('common.error'), describeSaveError(error, t('property.alerts.updateError'), t));
     } finally {
       setLoading(false);
     }
@@ -272,12 +277,14 @@ export function EditPropertyScreen() {
           containerClassName="mb-6"
         />
 
-        <View>
+        <View className="mb-6">
           <Text className={`text-sm font-medium mb-3 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>{t('property.type')}</Text>
           <View className="flex-row flex-wrap gap-3">
             {propertyTypes.map(renderPropertyTypeButton)}
           </View>
         </View>
+
+        <CustomFieldInputs entityType="property" values={customValues} onChange={setCustomValues} />
       </ScrollView>
     </View>
   );
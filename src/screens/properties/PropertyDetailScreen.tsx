@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useRef, useEffect } from 'react';
 import {
   View,
   Text,
@@ -13,7 +13,7 @@ import {
   Dimensions,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useNavigation, useRoute, useFocusEffect, RouteProp } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { LinearGradient } from '../../components/ui/GradientBox';
 import * as Haptics from 'expo-haptics';
@@ -50,11 +50,13 @@ import { RootStackParamList } from '../../navigation/types';
 import { Property, Room, Expense } from '../../types';
 import { propertyRepository, roomRepository, expenseRepository } from '../../services/database';
 import { IconButton, PressableCard, Button } from '../../components/ui';
+import { CustomFieldList } from '../../components/CustomFieldInputs';
 import { COLORS, ROOM_TYPES, PROPERTY_TYPES, SHADOWS } from '../../constants/theme';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
 import { format, isToday, isYesterday, parseISO } from 'date-fns';
 import { tr } from 'date-fns/locale';
 import { useTheme, useTranslation } from '../../contexts';
+import { useQuery } from '../../hooks';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type PropertyDetailRouteProp = RouteProp<RootStackParamList, 'PropertyDetail'>;
@@ -77,6 +79,9 @@ const quickActions = [
   { key: 'notes', translationKey: 'quickActions.notes', icon: StickyNote, colors: ['#ca8a04', '#a16207'], screen: 'Notes' },
 ];
 
+// Tenants, leases and rent, shown first for rental properties only
+const rentalAction = { key: 'rental', translationKey: 'quickActions.rental', icon: Key, colors: ['#8b5cf6', '#7c3aed'], screen: 'Rental' };
+
 // Animated Quick Action Button
 const QuickActionItem = ({
   action,
@@ -172,14 +177,6 @@ export function PropertyDetailScreen() {
   const { isDark } = useTheme();
   const { t } = useTranslation();
 
-  const [property, setProperty] = useState<Property | null>(null);
-  const [rooms, setRooms] = useState<Room[]>([]);
-  const [recentExpenses, setRecentExpenses] = useState<Expense[]>([]);
-  const [monthlyTotal, setMonthlyTotal] = useState(0);
-  const [totalSpent, setTotalSpent] = useState(0);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-
   // Animations
   const scrollY = useRef(new Animated.Value(0)).current;
   const headerOpacity = scrollY.interpolate({
@@ -188,42 +185,36 @@ export function PropertyDetailScreen() {
     extrapolate: 'clamp',
   });
 
-  const loadData = useCallback(async () => {
-    try {
-      const now = new Date();
-      const [propertyData, roomsData, expensesData, monthlyTotalData, totalData] = await Promise.all([
-        propertyRepository.getById(route.params.propertyId),
-        roomRepository.getByPropertyId(route.params.propertyId),
-        expenseRepository.getByPropertyId(route.params.propertyId, 5),
-        expenseRepository.getMonthlyTotalByPropertyId(
-          route.params.propertyId,
-          now.getFullYear(),
-          now.getMonth() + 1
-        ),
-        expenseRepository.getTotalByPropertyId(route.params.propertyId),
-      ]);
-      setProperty(propertyData);
-      setRooms(roomsData);
-      setRecentExpenses(expensesData);
-      setMonthlyTotal(monthlyTotalData);
-      setTotalSpent(totalData);
-    } catch (error) {
-      console.error('Failed to load property:', error);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  }, [route.params.propertyId]);
-
-  useFocusEffect(
-    useCallback(() => {
-      loadData();
-    }, [loadData])
-  );
+  const { data, loading, refreshing, refresh } = useQuery(async () => {
+    const now = new Date();
+    const [propertyData, roomsData, expensesData, monthlyTotalData, totalData] = await Promise.all([
+      propertyRepository.getById(route.params.propertyId),
+      roomRepository.getByPropertyId(route.params.propertyId),
+      expenseRepository.getByPropertyShare(route.params.propertyId, 5),
+      expenseRepository.getMonthlyTotalByPropertyId(
+        route.params.propertyId,
+        now.getFullYear(),
+        now.getMonth() + 1
+      ),
+      expenseRepository.getTotalByPropertyId(route.params.propertyId),
+    ]);
+    return {
+      property: propertyData,
+      rooms: roomsData,
+      recentExpenses: expensesData,
+      monthlyTotal: monthlyTotalData,
+      totalSpent: totalData,
+    };
+  }, [{ table: 'properties', ids: [route.params.propertyId] }, 'rooms', 'expenses', 'expense_splits', 'exchange_rates', 'app_settings'], [route.params.propertyId]);
+
+  const property: Property | null = data?.property ?? null;
+  const rooms: Room[] = data?.rooms ?? [];
+  const recentExpenses: Expense[] = data?.recentExpenses ?? [];
+  const monthlyTotal = data?.monthlyTotal ?? 0;
+  const totalSpent = data?.totalSpent ?? 0;
 
   const onRefresh = () => {
-    setRefreshing(true);
-    loadData();
+    refresh();
   };
 
   const handleMoreOptions = () => {
@@ -234,14 +225,16 @@ export function PropertyDetailScreen() {
     if (Platform.OS === 'ios') {
       ActionSheetIOS.showActionSheetWithOptions(
         {
-          options: [t('common.cancel'), t('property.edit'), t('property.delete')],
-          destructiveButtonIndex: 2,
+          options: [t('common.cancel'), t('property.edit'), t('property.handover'), t('property.delete')],
+          destructiveButtonIndex: 3,
           cancelButtonIndex: 0,
         },
         (buttonIndex) => {
           if (buttonIndex === 1) {
             navigation.navigate('EditProperty', { propertyId: property.id });
           } else if (buttonIndex === 2) {
+            navigation.navigate('PropertyHandover', { propertyId: property.id });
+          } else if (buttonIndex === 3) {
             handleDelete();
           }
         }
@@ -253,6 +246,10 @@ export function PropertyDetailScreen() {
           text: t('property.edit'),
           onPress: () => navigation.navigate('EditProperty', { propertyId: property.id }),
         },
+        {
+          text: t('property.handover'),
+          onPress: () => navigation.navigate('PropertyHandover', { propertyId: property.id }),
+        },
         { text: t('property.delete'), style: 'destructive', onPress: handleDelete },
       ]);
     }
@@ -457,7 +454,7 @@ export function PropertyDetailScreen() {
               <View className="flex-row items-center">
                 <TrendingUp size={18} color={COLORS.primary[500]} />
                 <Text className="text-2xl font-bold text-primary-500 ml-2">
-                  {formatCurrency(monthlyTotal)}
+                  {formatCurrency(monthlyTotal, getReportingCurrency())}
                 </Text>
               </View>
               <Text className={`text-xs mt-1 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>{t('home.thisMonth')}</Text>
@@ -467,7 +464,7 @@ export function PropertyDetailScreen() {
               <View className="flex-row items-center">
                 <DollarSign size={18} color={isDark ? COLORS.slate[400] : COLORS.slate[500]} />
                 <Text className={`text-2xl font-bold ml-1 ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                  {formatCurrency(totalSpent)}
+                  {formatCurrency(totalSpent, getReportingCurrency())}
                 </Text>
               </View>
               <Text className={`text-xs mt-1 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>{t('home.allTime')}</Text>
@@ -488,7 +485,7 @@ export function PropertyDetailScreen() {
             style={SHADOWS.md}
           >
             <View className="flex-row flex-wrap">
-              {quickActions.map((action, index) => (
+              {(property?.type === 'rental' ? [rentalAction, ...quickActions] : quickActions).map((action, index) => (
                 <QuickActionItem
                   key={action.key}
                   action={action}
@@ -653,15 +650,24 @@ export function PropertyDetailScreen() {
                       {expense.category} • {formatExpenseDate(expense.date)}
                     </Text>
                   </View>
-                  <Text className={`text-sm font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                    {formatCurrency(expense.amount)}
-                  </Text>
+                  <View className="items-end">
+                    <Text className={`text-sm font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                      {formatCurrency(expense.shareAmount ?? expense.amount, expense.currency)}
+                    </Text>
+                    {expense.shareAmount !== undefined && expense.shareAmount !== expense.amount && (
+                      <Text className={`text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                        {t('expenseSplits.shareOf', { total: formatCurrency(expense.amount, expense.currency) })}
+                      </Text>
+                    )}
+                  </View>
                 </TouchableOpacity>
               ))}
             </View>
           )}
         </View>
 
+        <CustomFieldList entityType="property" entityId={route.params.propertyId} className="mx-4 mt-6" />
+
         {/* Property Created Footer */}
         {property && (
           <View className="mx-4 mt-8 flex-row items-center justify-center">
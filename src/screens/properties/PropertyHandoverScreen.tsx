@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, ScrollView, Switch, Alert } from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Check, DollarSign, Wifi, Share2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { RootStackParamList } from '../../navigation/types';
+import { Property } from '../../types';
+import { propertyRepository } from '../../services/database';
+import { backupService } from '../../services/backup';
+import { ScreenHeader, Card, ListItem, Divider, Button, PasswordDialog } from '../../components/ui';
+import { COLORS, SHADOWS } from '../../constants/theme';
+import { useTheme, useTranslation, useSettings } from '../../contexts';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type HandoverRouteProp = RouteProp<RootStackParamList, 'PropertyHandover'>;
+
+const INCLUDED_KEYS = [
+  'rooms',
+  'assets',
+  'paintCodes',
+  'emergencyShutoffs',
+  'maintenance',
+  'documents',
+  'workers',
+] as const;
+
+export function PropertyHandoverScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<HandoverRouteProp>();
+  const { propertyId } = route.params;
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  const { settings } = useSettings();
+
+  const [property, setProperty] = useState<Property | null>(null);
+  const [includeFinancial, setIncludeFinancial] = useState(false);
+  const [includeWifiPasswords, setIncludeWifiPasswords] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [showPasswordDialog, setShowPasswordDialog] = useState(false);
+
+  useEffect(() => {
+    propertyRepository.getById(propertyId)
+      .then(setProperty)
+      .catch(error => console.error('Failed to load property:', error));
+  }, [propertyId]);
+
+  const performExport = async (password?: string) => {
+    setExporting(true);
+    try {
+      const result = await backupService.exportProperty(
+        propertyId,
+        { includeFinancial, includeWifiPasswords },
+        password
+      );
+      Haptics.notificationAsync(
+        result.success
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Error
+      ).catch(() => {});
+      if (!result.success) {
+        Alert.alert(t('settingsScreen.alerts.exportFailed'), result.error || t('settingsScreen.alerts.unexpectedError'));
+      }
+    } catch (error) {
+      Alert.alert(t('settingsScreen.alerts.exportFailed'), t('settingsScreen.alerts.unexpectedError'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (settings?.encryptExports) {
+      setShowPasswordDialog(true);
+    } else {
+      performExport();
+    }
+  };
+
+  const handlePasswordConfirm = async (password: string) => {
+    setShowPasswordDialog(false);
+    await performExport(password);
+  };
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={t('handover.title')}
+        subtitle={property?.name}
+        showBack
+        onBack={() => navigation.goBack()}
+      />
+
+      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+        <Text className={`px-5 pt-4 text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+          {t('handover.description')}
+        </Text>
+
+        {/* Always included */}
+        <View className="mt-6 px-5">
+          <Text className={`text-xs font-semibold uppercase tracking-wider mb-2 ${isDark ? 'text-slate-500' : 'text-slate-500'}`}>
+            {t('handover.included')}
+          </Text>
+          <Card variant="default" padding="md">
+            {INCLUDED_KEYS.map(key => (
+              <View key={key} className="flex-row items-center py-1.5">
+                <Check size={16} color={COLORS.success} />
+                <Text className={`ml-2 text-sm ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                  {t(`handover.items.${key}`)}
+                </Text>
+              </View>
+            ))}
+          </Card>
+        </View>
+
+        {/* Optional */}
+        <View className="mt-6">
+          <Text className={`px-5 text-xs font-semibold uppercase tracking-wider mb-2 ${isDark ? 'text-slate-500' : 'text-slate-500'}`}>
+            {t('handover.optional')}
+          </Text>
+          <View className={isDark ? 'bg-slate-800' : 'bg-white'} style={SHADOWS.sm}>
+            <ListItem
+              title={t('handover.includeFinancial')}
+              subtitle={t('handover.includeFinancialSubtitle')}
+              leftIcon={
+                <View className="w-9 h-9 rounded-xl bg-green-100 items-center justify-center">
+                  <DollarSign size={18} color="#16a34a" />
+                </View>
+              }
+              rightContent={
+                <Switch
+                  value={includeFinancial}
+                  onValueChange={setIncludeFinancial}
+                  trackColor={{ false: COLORS.slate[200], true: COLORS.primary[500] }}
+                  thumbColor="#ffffff"
+                />
+              }
+              onPress={() => setIncludeFinancial(!includeFinancial)}
+            />
+            <Divider className="ml-[68px]" />
+            <ListItem
+              title={t('handover.includeWifiPasswords')}
+              subtitle={t('handover.includeWifiPasswordsSubtitle')}
+              leftIcon={
+                <View className="w-9 h-9 rounded-xl bg-blue-100 items-center justify-center">
+                  <Wifi size={18} color="#2563eb" />
+                </View>
+              }
+              rightContent={
+                <Switch
+                  value={includeWifiPasswords}
+                  onValueChange={setIncludeWifiPasswords}
+                  trackColor={{ false: COLORS.slate[200], true: COLORS.primary[500] }}
+                  thumbColor="#ffffff"
+                />
+              }
+              onPress={() => setIncludeWifiPasswords(!includeWifiPasswords)}
+            />
+          </View>
+        </View>
+
+        <View className="px-5 mt-8 pb-10">
+          <Button
+            title={t('handover.export')}
+            onPress={handleExport}
+            variant="primary"
+            loading={exporting}
+            disabled={!property || exporting}
+            icon={<Share2 size={18} color="#ffffff" />}
+            fullWidth
+          />
+          <Text className={`text-xs text-center mt-3 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+            {t('handover.importHint')}
+          </Text>
+        </View>
+      </ScrollView>
+
+      <PasswordDialog
+        visible={showPasswordDialog}
+        title={t('settingsScreen.dialogs.encryptBackup')}
+        message={t('settingsScreen.dialogs.encryptMessage')}
+        placeholder={t('settingsScreen.dialogs.enterPassword')}
+        confirmPlaceholder={t('settingsScreen.dialogs.confirmPassword')}
+        requireConfirmation={true}
+        minLength={4}
+        cancelText={t('common.cancel')}
+        confirmText={t('handover.export')}
+        onCancel={() => setShowPasswordDialog(false)}
+        onConfirm={handlePasswordConfirm}
+      />
+    </View>
+  );
+}
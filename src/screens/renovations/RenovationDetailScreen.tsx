@@ -46,6 +46,7 @@ import {
   Asset,
   RenovationCost,
   ExpenseType,
+  TaxTreatment,
 } from '../../types';
 import {
   renovationRepository,
@@ -56,11 +57,14 @@ import {
   workerRepository,
   assetRepository,
 } from '../../services/database';
-import { ScreenHeader, Card, Button, Badge } from '../../components/ui';
+import { ScreenHeader, Card, Button, Badge, SelectDialog } from '../../components/ui';
+import { CurrencySelect } from '../../components/CurrencySelect';
+import { TaxTreatmentSelect } from '../../components/TaxTreatmentSelect';
+import { TAX_TREATMENTS } from '../../services/database/entities';
 import { COLORS, EXPENSE_TYPES } from '../../constants/theme';
 import { useTheme, useTranslation } from '../../contexts';
 import { formatDate, getCurrentISODate } from '../../utils/date';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getCachedCurrency, getReportingCurrency } from '../../utils/currency';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type RenovationDetailRouteProp = RouteProp<RootStackParamList, 'RenovationDetail'>;
@@ -93,8 +97,12 @@ export function RenovationDetailScreen() {
   // Cost form
   const [costDescription, setCostDescription] = useState('');
   const [costAmount, setCostAmount] = useState('');
+  const [costCurrency, setCostCurrency] = useState(getCachedCurrency());
   const [costCategory, setCostCategory] = useState('');
   const [costDate, setCostDate] = useState(new Date());
+  const [costTaxTreatment, setCostTaxTreatment] = useState<TaxTreatment | undefined>();
+  // The cost whose tax treatment is being changed
+  const [retaggedCost, setRetaggedCost] = useState<RenovationCost | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
 
   const loadData = useCallback(async () => {
@@ -201,14 +209,18 @@ export function RenovationDetailScreen() {
         renovationId: renovation.id,
         description: costDescription.trim(),
         amount: parseFloat(costAmount),
+        currency: costCurrency,
         category: costCategory || undefined,
         date: costDate.toISOString(),
+        taxTreatment: costTaxTreatment,
       });
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setCostDescription('');
       setCostAmount('');
+      setCostCurrency(getCachedCurrency());
       setCostCategory('');
       setCostDate(new Date());
+      setCostTaxTreatment(undefined);
       setShowCostModal(false);
       loadData();
     } catch (error) {
@@ -241,6 +253,20 @@ export function RenovationDetailScreen() {
     );
   };
 
+  // 'none' clears the treatment
+  const handleRetagCost = async (value: string) => {
+    if (!retaggedCost) return;
+    const cost = retaggedCost;
+    setRetaggedCost(null);
+    try {
+      await renovationCostRepository.update(cost.id, { taxTreatment: value === 'none' ? '' : value as TaxTreatment });
+      loadData();
+    } catch (error) {
+      console.error('Failed to update cost:', error);
+      Alert.alert(t('common.error'), t('renovation.alerts.costUpdateFailed'));
+    }
+  };
+
   const handleAddAfterPhoto = async () => {
     if (!renovation) return;
 
@@ -427,7 +453,7 @@ export function RenovationDetailScreen() {
           <View className={`flex-1 flex-row items-center px-3 py-2.5 rounded-xl ${isDark ? 'bg-primary-900/30' : 'bg-primary-50'}`}>
             <DollarSign size={16} color={COLORS.primary[600]} />
             <Text className={`text-sm font-bold ml-1 ${isDark ? 'text-primary-400' : 'text-primary-700'}`}>
-              {formatCurrency(renovation.totalCost)}
+              {formatCurrency(renovation.totalCost, getReportingCurrency())}
             </Text>
           </View>
         </View>
@@ -590,7 +616,7 @@ export function RenovationDetailScreen() {
               {renovation.costs.map((cost) => (
                 <Card key={cost.id} variant="default" padding="sm">
                   <View className="flex-row items-center">
-                    <View className="flex-1">
+                    <TouchableOpacity className="flex-1" onPress={() => setRetaggedCost(cost)} activeOpacity={0.7}>
                       <Text className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
                         {cost.description}
                       </Text>
@@ -603,10 +629,13 @@ export function RenovationDetailScreen() {
                         {cost.category && (
                           <Badge label={cost.category} variant="info" size="sm" className="ml-2" />
                         )}
+                        {cost.taxTreatment && (
+                          <Badge label={t(`taxSummary.treatments.${cost.taxTreatment}`)} color={COLORS.primary[500]} size="sm" className="ml-2" />
+                        )}
                       </View>
-                    </View>
+                    </TouchableOpacity>
                     <Text className={`text-base font-bold mr-2 ${isDark ? 'text-primary-400' : 'text-primary-600'}`}>
-                      {formatCurrency(cost.amount)}
+                      {formatCurrency(cost.amount, cost.currency)}
                     </Text>
                     <TouchableOpacity
                       onPress={() => handleRemoveCost(cost.id)}
@@ -625,7 +654,7 @@ export function RenovationDetailScreen() {
                   {t('renovation.totalCost')}
                 </Text>
                 <Text className={`text-lg font-bold ${isDark ? 'text-primary-400' : 'text-primary-700'}`}>
-                  {formatCurrency(renovation.totalCost)}
+                  {formatCurrency(renovation.totalCost, getReportingCurrency())}
                 </Text>
               </View>
             </View>
@@ -809,6 +838,12 @@ export function RenovationDetailScreen() {
                 </View>
               </View>
 
+              {/* Currency */}
+              <View className="flex-row items-center justify-between">
+                <Text className={`text-sm font-medium ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>{t('exchangeRates.currency')}</Text>
+                <CurrencySelect value={costCurrency} onChange={setCostCurrency} />
+              </View>
+
               {/* Category */}
               <View>
                 <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
@@ -823,6 +858,8 @@ export function RenovationDetailScreen() {
                 />
               </View>
 
+              <TaxTreatmentSelect value={costTaxTreatment} onChange={setCostTaxTreatment} />
+
               {/* Date */}
               <View>
                 <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
@@ -865,6 +902,19 @@ export function RenovationDetailScreen() {
         </View>
       </Modal>
 
+      <SelectDialog
+        visible={retaggedCost !== null}
+        title={t('taxSummary.treatment')}
+        message={retaggedCost?.description}
+        options={[
+          { value: 'none', label: t('taxSummary.treatments.none') },
+          ...TAX_TREATMENTS.map(treatment => ({ value: treatment, label: t(`taxSummary.treatments.${treatment}`) })),
+        ]}
+        cancelText={t('common.cancel')}
+        onCancel={() => setRetaggedCost(null)}
+        onSelect={handleRetagCost}
+      />
+
       {/* Compare Modal */}
       {showCompareModal && renovation.afterImageUri && (
         <CompareModal
@@ -0,0 +1,411 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Calendar, X } from 'lucide-react-native';
+import { formatISO, parseISO } from 'date-fns';
+import * as Haptics from 'expo-haptics';
+import { RootStackParamList } from '../../navigation/types';
+import { RentFrequency, Tenant, UUID } from '../../types';
+import { leaseRepository, tenantRepository, withTransaction } from '../../services/database';
+import { useQuery } from '../../hooks';
+import { ScreenHeader, Input, TextArea, Button, DatePickerModal } from '../../components/ui';
+import { COLORS } from '../../constants/theme';
+import { formatCurrencyAmount, formatCurrencyInput, getCachedCurrency, parseCurrencyInput } from '../../utils/currency';
+import { formatDate } from '../../utils/date';
+import { useTheme, useTranslation } from '../../contexts';
+import { describeSaveError } from '../../utils/validation';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type LeaseFormRouteProp = RouteProp<RootStackParamList, 'LeaseForm'>;
+
+type DateField = 'startDate' | 'endDate' | 'renewalDate';
+
+const FREQUENCIES: RentFrequency[] = ['monthly', 'quarterly', 'yearly'];
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+function Chip({ label, selected, onPress }: ChipProps) {
+  const { isDark } = useTheme();
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      className={`px-4 py-2 rounded-xl border-2 ${
+        selected
+          ? 'border-primary-500 bg-primary-50'
+          : isDark ? 'border-slate-600 bg-slate-700' : 'border-slate-200 bg-slate-50'
+      }`}
+    >
+      <Text
+        className={`text-sm font-medium ${
+          selected ? 'text-primary-700' : isDark ? 'text-slate-300' : 'text-slate-700'
+        }`}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+function toDateKey(date: Date): string {
+  return formatISO(date, { representation: 'date' });
+}
+
+// Whole days, or undefined when the field is not a number
+function parseDays(value: string): number | undefined {
+  const days = parseInt(value, 10);
+  return Number.isNaN(days) ? undefined : days;
+}
+
+export function LeaseFormScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<LeaseFormRouteProp>();
+  const { propertyId, leaseId } = route.params;
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  // Tenant: one of the property's, or a new one when `tenantId` is unset
+  const [tenantId, setTenantId] = useState<UUID | undefined>(undefined);
+  const [tenantName, setTenantName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+
+  // Lease
+  const [startDate, setStartDate] = useState(toDateKey(new Date()));
+  const [endDate, setEndDate] = useState<string | undefined>(undefined);
+  const [renewalDate, setRenewalDate] = useState<string | undefined>(undefined);
+  const [rentAmount, setRentAmount] = useState('');
+  const [currency, setCurrency] = useState(getCachedCurrency());
+  const [rentFrequency, setRentFrequency] = useState<RentFrequency>('monthly');
+  const [rentDueDay, setRentDueDay] = useState('1');
+  const [depositAmount, setDepositAmount] = useState('');
+  const [graceDays, setGraceDays] = useState('5');
+  const [reminderDaysBefore, setReminderDaysBefore] = useState('3');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [dateField, setDateField] = useState<DateField | null>(null);
+  const [tempDate, setTempDate] = useState(new Date());
+
+  const { data } = useQuery(
+    async () => ({
+      tenants: await tenantRepository.getByPropertyId(propertyId),
+      lease: leaseId ? await leaseRepository.getById(leaseId) : null,
+    }),
+    [],
+    [propertyId, leaseId]
+  );
+  const tenants = data?.tenants ?? [];
+
+  const selectTenant = (tenant: Tenant | null) => {
+    setTenantId(tenant?.id);
+    setTenantName(tenant?.name ?? '');
+    setPhone(tenant?.phone ?? '');
+    setEmail(tenant?.email ?? '');
+  };
+
+  // Fill the form once the lease being edited has loaded
+  useEffect(() => {
+    const lease = data?.lease;
+    if (!lease) return;
+    selectTenant(data.tenants.find(tenant => tenant.id === lease.tenantId) ?? null);
+    setStartDate(lease.startDate);
+    setEndDate(lease.endDate);
+    setRenewalDate(lease.renewalDate);
+    setRentAmount(formatCurrencyAmount(lease.rentAmount, lease.currency));
+    setCurrency(lease.currency ?? getCachedCurrency());
+    setRentFrequency(lease.rentFrequency);
+    setRentDueDay(String(lease.rentDueDay));
+    setDepositAmount(lease.depositAmount !== undefined ? formatCurrencyAmount(lease.depositAmount, lease.currency) : '');
+    setGraceDays(String(lease.graceDays));
+    setReminderDaysBefore(String(lease.reminderDaysBefore));
+    setNotes(lease.notes ?? '');
+  }, [data]);
+
+  const dateValues: Record<DateField, string | undefined> = { startDate, endDate, renewalDate };
+  const dateSetters: Record<DateField, (value: string | undefined) => void> = {
+    startDate: value => setStartDate(value ?? toDateKey(new Date())),
+    endDate: setEndDate,
+    renewalDate: setRenewalDate,
+  };
+
+  const openDatePicker = (field: DateField) => {
+    const value = dateValues[field];
+    setTempDate(value ? parseISO(value) : new Date());
+    setDateField(field);
+  };
+
+  const handleSave = async () => {
+    const rent = parseCurrencyInput(rentAmount, currency);
+    const dueDay = parseDays(rentDueDay);
+    const grace = parseDays(graceDays);
+    const reminder = parseDays(reminderDaysBefore);
+    if (!tenantName.trim()) {
+      Alert.alert(t('common.error'), t('rentals.tenantRequired'));
+      return;
+    }
+    if (rent <= 0) {
+      Alert.alert(t('common.error'), t('rentals.amountRequired'));
+      return;
+    }
+    if (dueDay === undefined || grace === undefined || reminder === undefined) {
+      Alert.alert(t('common.error'), t('rentals.daysRequired'));
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      Alert.alert(t('common.error'), t('rentals.endBeforeStart'));
+      return;
+    }
+
+    const tenant = { name: tenantName.trim(), phone: phone.trim(), email: email.trim() };
+    const lease = {
+      startDate,
+      endDate,
+      rentAmount: rent,
+      rentFrequency,
+      rentDueDay: dueDay,
+      depositAmount: depositAmount.trim() ? parseCurrencyInput(depositAmount, currency) : undefined,
+      renewalDate,
+      graceDays: grace,
+      reminderDaysBefore: reminder,
+      notes: notes.trim() || undefined,
+    };
+
+    setSaving(true);
+    try {
+      await withTransaction(async () => {
+        if (data?.lease) {
+          await tenantRepository.update(data.lease.tenantId, tenant);
+          await leaseRepository.update(data.lease.id, lease);
+          return;
+        }
+        const leaseTenantId = tenantId
+          ? (await tenantRepository.update(tenantId, tenant)).id
+          : (await tenantRepository.create({
+              propertyId,
+              name: tenant.name,
+              phone: tenant.phone || undefined,
+              email: tenant.email || undefined,
+            })).id;
+        await leaseRepository.create({ ...lease, propertyId, tenantId: leaseTenantId, currency });
+      });
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      navigation.goBack();
+    } catch (error) {
+      console.error('Failed to save lease:', error);
+      Alert.alert(t('common.error'), describeSaveError(error, t('rentals.saveLeaseError'), t));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!leaseId) return;
+    Alert.alert(t('rentals.deleteLease'), t('rentals.deleteLeaseConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await leaseRepository.delete(leaseId);
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            navigation.goBack();
+          } catch (error) {
+            console.error('Failed to delete lease:', error);
+            Alert.alert(t('common.error'), t('rentals.deleteLeaseError'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const labelClass = `text-sm font-medium mb-3 ${isDark ? 'text-slate-300' : 'text-slate-700'}`;
+  const sectionTitleClass = `text-sm font-semibold uppercase tracking-wide mb-3 ${isDark ? 'text-slate-400' : 'text-slate-500'}`;
+
+  const renderDateButton = (field: DateField, label: string, optional: boolean) => {
+    const value = dateValues[field];
+    return (
+      <View className="mb-5">
+        <Text className={`text-sm font-semibold mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>{label}</Text>
+        <View className="flex-row items-center gap-2">
+          <TouchableOpacity
+            onPress={() => openDatePicker(field)}
+            className={`flex-1 border rounded-xl px-4 py-3.5 flex-row items-center ${isDark ? 'bg-slate-700 border-slate-600' : 'bg-white border-slate-200'}`}
+            activeOpacity={0.7}
+          >
+            <Calendar size={18} color={isDark ? COLORS.slate[500] : COLORS.slate[400]} />
+            <Text className={`text-base ml-3 ${value ? (isDark ? 'text-white' : 'text-slate-900') : (isDark ? 'text-slate-500' : 'text-slate-400')}`}>
+              {value ? formatDate(value) : t('rentals.noDate')}
+            </Text>
+          </TouchableOpacity>
+          {optional && value && (
+            <TouchableOpacity
+              onPress={() => dateSetters[field](undefined)}
+              className={`w-11 h-11 rounded-xl items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+            >
+              <X size={18} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={leaseId ? t('rentals.editLease') : t('rentals.addLease')}
+        showBack
+        onBack={() => navigation.goBack()}
+      />
+
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} className="flex-1">
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ padding: 20, paddingBottom: 40 }}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Tenant */}
+          <Text className={sectionTitleClass}>{t('rentals.tenant')}</Text>
+          {!leaseId && tenants.length > 0 && (
+            <View className="flex-row flex-wrap gap-2 mb-5">
+              <Chip label={t('rentals.newTenant')} selected={!tenantId} onPress={() => selectTenant(null)} />
+              {tenants.map(tenant => (
+                <Chip
+                  key={tenant.id}
+                  label={tenant.name}
+                  selected={tenantId === tenant.id}
+                  onPress={() => selectTenant(tenant)}
+                />
+              ))}
+            </View>
+          )}
+          <Input
+            label={t('rentals.tenantName')}
+            value={tenantName}
+            onChangeText={setTenantName}
+            required
+            containerClassName="mb-4"
+          />
+          <Input
+            label={t('rentals.phone')}
+            value={phone}
+            onChangeText={setPhone}
+            keyboardType="phone-pad"
+            containerClassName="mb-4"
+          />
+          <Input
+            label={t('rentals.email')}
+            value={email}
+            onChangeText={setEmail}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            containerClassName="mb-6"
+          />
+
+          {/* Term */}
+          <Text className={sectionTitleClass}>{t('rentals.term')}</Text>
+          {renderDateButton('startDate', t('rentals.startDate'), false)}
+          {renderDateButton('endDate', t('rentals.endDate'), true)}
+          {renderDateButton('renewalDate', t('rentals.renewalDate'), true)}
+
+          {/* Rent */}
+          <Text className={sectionTitleClass}>{t('rentals.rent')}</Text>
+          <Input
+            label={t('rentals.rentAmount', { currency })}
+            value={rentAmount}
+            onChangeText={value => setRentAmount(formatCurrencyInput(value, currency))}
+            keyboardType="decimal-pad"
+            placeholder="0"
+            required
+            containerClassName="mb-5"
+          />
+          <View className="mb-5">
+            <Text className={labelClass}>{t('rentals.frequency')}</Text>
+            <View className="flex-row flex-wrap gap-2">
+              {FREQUENCIES.map(option => (
+                <Chip
+                  key={option}
+                  label={t(`rentals.frequencies.${option}`)}
+                  selected={rentFrequency === option}
+                  onPress={() => setRentFrequency(option)}
+                />
+              ))}
+            </View>
+          </View>
+          <Input
+            label={t('rentals.dueDay')}
+            hint={t('rentals.dueDayHint')}
+            value={rentDueDay}
+            onChangeText={setRentDueDay}
+            keyboardType="number-pad"
+            containerClassName="mb-5"
+          />
+          <Input
+            label={t('rentals.deposit', { currency })}
+            value={depositAmount}
+            onChangeText={value => setDepositAmount(formatCurrencyInput(value, currency))}
+            keyboardType="decimal-pad"
+            placeholder="0"
+            containerClassName="mb-5"
+          />
+          <View className="flex-row gap-3 mb-5">
+            <Input
+              label={t('rentals.graceDays')}
+              value={graceDays}
+              onChangeText={setGraceDays}
+              keyboardType="number-pad"
+              containerClassName="flex-1"
+            />
+            <Input
+              label={t('rentals.reminderDays')}
+              value={reminderDaysBefore}
+              onChangeText={setReminderDaysBefore}
+              keyboardType="number-pad"
+              containerClassName="flex-1"
+            />
+          </View>
+          <TextArea
+            label={t('rentals.notes')}
+            value={notes}
+            onChangeText={setNotes}
+            containerClassName="mb-6"
+          />
+
+          <Button title={t('common.save')} variant="primary" loading={saving} onPress={handleSave} />
+          {leaseId && (
+            <TouchableOpacity onPress={handleDelete} className="py-3.5 mt-2">
+              <Text className="text-center font-semibold text-red-500">{t('rentals.deleteLease')}</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <DatePickerModal
+        visible={dateField !== null}
+        value={tempDate}
+        title={dateField ? t(`rentals.${dateField}`) : undefined}
+        onChange={setTempDate}
+        onClose={() => setDateField(null)}
+        onConfirm={() => {
+          if (dateField) dateSetters[dateField](toDateKey(tempDate));
+          setDateField(null);
+        }}
+      />
+    </View>
+  );
+}
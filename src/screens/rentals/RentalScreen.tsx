@@ -0,0 +1,392 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Plus, Trash2, Key, ChevronLeft, ChevronRight, HandCoins } from 'lucide-react-native';
+import { addDays, format, parseISO } from 'date-fns';
+import * as Haptics from 'expo-haptics';
+import { RootStackParamList } from '../../navigation/types';
+import { LeaseWithTenant, RentDue, RentDueStatus, RentPayment, Tenant } from '../../types';
+import { leaseRepository, propertyRepository, rentPaymentRepository, tenantRepository } from '../../services/database';
+import { useQuery } from '../../hooks';
+import { ScreenHeader, Card, Badge, InputDialog } from '../../components/ui';
+import { COLORS } from '../../constants/theme';
+import { useTheme, useTranslation } from '../../contexts';
+import { formatCurrency, formatCurrencyAmount, getReportingCurrency, parseCurrencyInput } from '../../utils/currency';
+import { formatDate } from '../../utils/date';
+import { describeSaveError } from '../../utils/validation';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type RentalRouteProp = RouteProp<RootStackParamList, 'Rental'>;
+
+const STATUS_VARIANTS: Record<RentDueStatus, 'success' | 'warning' | 'error' | 'info' | 'default'> = {
+  paid: 'success',
+  partial: 'warning',
+  due: 'info',
+  late: 'error',
+  upcoming: 'default',
+};
+
+// Payments shown under the leases; older ones count in the figures all the same
+const RECENT_PAYMENTS = 20;
+
+// Paid after the lease's grace days, counted in local days like the schedule
+function isPaidLate(payment: RentPayment, lease: LeaseWithTenant | undefined): boolean {
+  if (!lease) return false;
+  const lastOnTime = format(addDays(parseISO(payment.dueDate), lease.graceDays), 'yyyy-MM-dd');
+  return format(parseISO(payment.paidDate), 'yyyy-MM-dd') > lastOnTime;
+}
+
+export function RentalScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<RentalRouteProp>();
+  const { propertyId } = route.params;
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  const reportingCurrency = getReportingCurrency();
+
+  const [year, setYear] = useState(new Date().getFullYear());
+  // The due date a payment is being recorded for
+  const [payingDue, setPayingDue] = useState<RentDue | null>(null);
+
+  const { data, loading, refreshing, refresh } = useQuery(
+    async () => {
+      const [property, tenants, leases, schedule, payments, profitAndLoss] = await Promise.all([
+        propertyRepository.getById(propertyId),
+        tenantRepository.getByPropertyId(propertyId),
+        leaseRepository.getByPropertyId(propertyId),
+        leaseRepository.getRentSchedule(propertyId),
+        rentPaymentRepository.getByPropertyId(propertyId, RECENT_PAYMENTS),
+        rentPaymentRepository.getProfitAndLoss(propertyId, year),
+      ]);
+      return { property, tenants, leases, schedule, payments, profitAndLoss };
+    },
+    ['properties', 'tenants', 'leases', 'rent_payments', 'expenses', 'expense_splits', 'exchange_rates', 'app_settings'],
+    [propertyId, year]
+  );
+  const tenants = data?.tenants ?? [];
+  const leases = data?.leases ?? [];
+  const outstanding = (data?.schedule ?? []).filter(due => due.status !== 'paid');
+  const payments = data?.payments ?? [];
+  const profitAndLoss = data?.profitAndLoss;
+  const leasesById = new Map(leases.map(lease => [lease.id, lease]));
+
+  const handleRecordPayment = async (value: string) => {
+    const due = payingDue;
+    setPayingDue(null);
+    if (!due) return;
+    const amount = parseCurrencyInput(value, due.lease.currency);
+    if (amount <= 0) {
+      Alert.alert(t('common.error'), t('rentals.amountRequired'));
+      return;
+    }
+    try {
+      await rentPaymentRepository.create({
+        leaseId: due.lease.id,
+        dueDate: due.dueDate,
+        amount,
+        currency: due.lease.currency,
+        paidDate: new Date().toISOString(),
+      });
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Failed to record rent payment:', error);
+      Alert.alert(t('common.error'), describeSaveError(error, t('rentals.recordError'), t));
+    }
+  };
+
+  const handleDeletePayment = (payment: RentPayment) => {
+    Alert.alert(t('rentals.deletePayment'), t('rentals.deletePaymentConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await rentPaymentRepository.delete(payment.id);
+          } catch (error) {
+            console.error('Failed to delete rent payment:', error);
+            Alert.alert(t('common.error'), t('rentals.deletePaymentError'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleDeleteTenant = (tenant: Tenant) => {
+    Alert.alert(t('rentals.deleteTenant'), t('rentals.deleteTenantConfirm', { name: tenant.name }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await tenantRepository.delete(tenant.id);
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          } catch (error) {
+            console.error('Failed to delete tenant:', error);
+            Alert.alert(t('common.error'), t('rentals.deleteTenantError'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const sectionTitleClass = `text-sm font-semibold uppercase tracking-wide mb-3 ${isDark ? 'text-slate-400' : 'text-slate-500'}`;
+  const mutedClass = `text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`;
+  const titleClass = `text-base font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`;
+
+  const renderTotal = (label: string, amount: number, colorClass: string) => (
+    <View className="flex-1">
+      <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{label}</Text>
+      <Text className={`text-base font-bold mt-0.5 ${colorClass}`}>{formatCurrency(amount, reportingCurrency)}</Text>
+    </View>
+  );
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={t('rentals.title')}
+        subtitle={data?.property?.name}
+        showBack
+        onBack={() => navigation.goBack()}
+        rightAction={
+          <TouchableOpacity
+            onPress={() => navigation.navigate('LeaseForm', { propertyId })}
+            className="w-10 h-10 rounded-xl bg-primary-500 items-center justify-center"
+          >
+            <Plus size={20} color="#ffffff" />
+          </TouchableOpacity>
+        }
+      />
+
+      <ScrollView
+        className="flex-1 px-5 pt-4"
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refresh}
+            tintColor={COLORS.primary[600]}
+          />
+        }
+      >
+        {/* Profit and loss for the year */}
+        <View className="flex-row items-center justify-between mb-3">
+          <Text className={`text-sm font-semibold uppercase tracking-wide ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+            {t('rentals.profitAndLoss')}
+          </Text>
+          <View className="flex-row items-center">
+            <TouchableOpacity onPress={() => setYear(year - 1)} className="p-1">
+              <ChevronLeft size={18} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+            </TouchableOpacity>
+            <Text className={`text-sm font-semibold mx-2 ${isDark ? 'text-white' : 'text-slate-900'}`}>{year}</Text>
+            <TouchableOpacity onPress={() => setYear(year + 1)} className="p-1">
+              <ChevronRight size={18} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+            </TouchableOpacity>
+          </View>
+        </View>
+        <Card variant="default" padding="md" className="mb-6">
+          <View className="flex-row">
+            {renderTotal(t('rentals.income'), profitAndLoss?.income ?? 0, 'text-green-600')}
+            {renderTotal(t('rentals.expenses'), profitAndLoss?.expenses ?? 0, 'text-red-500')}
+            {renderTotal(
+              t('rentals.net'),
+              profitAndLoss?.net ?? 0,
+              (profitAndLoss?.net ?? 0) < 0 ? 'text-red-500' : isDark ? 'text-white' : 'text-slate-900'
+            )}
+          </View>
+          {profitAndLoss && profitAndLoss.months.length > 0 ? (
+            <View className={`mt-4 pt-3 border-t ${isDark ? 'border-slate-700' : 'border-slate-100'}`}>
+              {profitAndLoss.months.map(month => (
+                <View key={month.month} className="flex-row items-center py-1.5">
+                  <Text className={`flex-1 text-sm ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                    {formatDate(`${month.month}-01`, 'MMMM')}
+                  </Text>
+                  <Text className="w-24 text-sm text-right text-green-600">{formatCurrencyAmount(month.income, reportingCurrency)}</Text>
+                  <Text className="w-24 text-sm text-right text-red-500">{formatCurrencyAmount(month.expenses, reportingCurrency)}</Text>
+                  <Text className={`w-24 text-sm text-right font-semibold ${month.net < 0 ? 'text-red-500' : isDark ? 'text-white' : 'text-slate-900'}`}>
+                    {formatCurrencyAmount(month.net, reportingCurrency)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          ) : (
+            <Text className={`${mutedClass} mt-3`}>{t('rentals.noFigures')}</Text>
+          )}
+        </Card>
+
+        {leases.length === 0 && !loading ? (
+          <View className="items-center py-12 px-6">
+            <View className={`w-16 h-16 rounded-2xl items-center justify-center mb-4 ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}>
+              <Key size={32} color={isDark ? COLORS.slate[600] : COLORS.slate[400]} />
+            </View>
+            <Text className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+              {t('rentals.noLeases')}
+            </Text>
+            <Text className={`text-sm mt-1 text-center ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              {t('rentals.addFirstLease')}
+            </Text>
+          </View>
+        ) : (
+          <View className="pb-6">
+            {/* Rent not yet paid in full */}
+            <Text className={sectionTitleClass}>{t('rentals.rentDue')}</Text>
+            {outstanding.length === 0 ? (
+              <Text className={`${mutedClass} mb-6`}>{t('rentals.allPaid')}</Text>
+            ) : (
+              <View className="gap-2 mb-6">
+                {outstanding.map(due => (
+                  <Card key={`${due.lease.id}-${due.dueDate}`} variant="default" padding="none">
+                    <View className="flex-row items-center p-4">
+                      <View className="flex-1">
+                        <View className="flex-row items-center gap-2">
+                          <Text className={titleClass}>{due.lease.tenantName}</Text>
+                          <Badge label={t(`rentals.status.${due.status}`)} variant={STATUS_VARIANTS[due.status]} size="sm" />
+                        </View>
+                        <Text className={`${mutedClass} mt-0.5`}>
+                          {t('rentals.dueOn', {
+                            date: formatDate(due.dueDate),
+                            amount: formatCurrency(due.amount - due.paid, due.lease.currency),
+                          })}
+                        </Text>
+                      </View>
+                      <TouchableOpacity
+                        onPress={() => setPayingDue(due)}
+                        className="flex-row items-center px-3 py-2 rounded-lg bg-primary-500"
+                      >
+                        <HandCoins size={14} color="#ffffff" />
+                        <Text className="text-sm font-semibold text-white ml-1.5">{t('rentals.record')}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </Card>
+                ))}
+              </View>
+            )}
+
+            {/* Leases */}
+            <Text className={sectionTitleClass}>{t('rentals.leases')}</Text>
+            <View className="gap-2 mb-6">
+              {leases.map(lease => (
+                <Card key={lease.id} variant="default" padding="none">
+                  <TouchableOpacity
+                    onPress={() => navigation.navigate('LeaseForm', { propertyId, leaseId: lease.id })}
+                    className="p-4"
+                    activeOpacity={0.7}
+                  >
+                    <View className="flex-row items-center justify-between">
+                      <Text className={titleClass}>{lease.tenantName}</Text>
+                      <Text className="text-base font-semibold text-primary-600">
+                        {t(`rentals.rentPer.${lease.rentFrequency}`, { amount: formatCurrency(lease.rentAmount, lease.currency) })}
+                      </Text>
+                    </View>
+                    <Text className={`${mutedClass} mt-0.5`}>
+                      {lease.endDate
+                        ? t('rentals.termFromTo', { from: formatDate(lease.startDate), to: formatDate(lease.endDate) })
+                        : t('rentals.termFrom', { from: formatDate(lease.startDate) })}
+                    </Text>
+                    {(lease.depositAmount !== undefined || lease.renewalDate) && (
+                      <Text className={`${mutedClass} mt-0.5`}>
+                        {[
+                          lease.depositAmount !== undefined
+                            ? t('rentals.depositAmount', { amount: formatCurrency(lease.depositAmount, lease.currency) })
+                            : null,
+                          lease.renewalDate ? t('rentals.renewsOn', { date: formatDate(lease.renewalDate) }) : null,
+                        ].filter(Boolean).join(' · ')}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                </Card>
+              ))}
+            </View>
+
+            {/* Payments received */}
+            <Text className={sectionTitleClass}>{t('rentals.payments')}</Text>
+            {payments.length === 0 ? (
+              <Text className={`${mutedClass} mb-6`}>{t('rentals.noPayments')}</Text>
+            ) : (
+              <View className="gap-2 mb-6">
+                {payments.map(payment => {
+                  const lease = leasesById.get(payment.leaseId);
+                  return (
+                    <Card key={payment.id} variant="default" padding="none">
+                      <View className="flex-row items-center p-4">
+                        <View className="flex-1">
+                          <View className="flex-row items-center gap-2">
+                            <Text className={titleClass}>
+                              {formatCurrency(payment.amount, payment.currency)}
+                            </Text>
+                            {isPaidLate(payment, lease) && (
+                              <Badge label={t('rentals.paidLate')} variant="error" size="sm" />
+                            )}
+                          </View>
+                          <Text className={`${mutedClass} mt-0.5`}>
+                            {t('rentals.paymentFor', {
+                              tenant: lease?.tenantName ?? '',
+                              due: formatDate(payment.dueDate),
+                              date: formatDate(payment.paidDate),
+                            })}
+                          </Text>
+                        </View>
+                        <TouchableOpacity
+                          onPress={() => handleDeletePayment(payment)}
+                          className="w-8 h-8 rounded-lg items-center justify-center bg-red-100"
+                        >
+                          <Trash2 size={16} color={COLORS.error} />
+                        </TouchableOpacity>
+                      </View>
+                    </Card>
+                  );
+                })}
+              </View>
+            )}
+
+            {/* Tenants */}
+            <Text className={sectionTitleClass}>{t('rentals.tenants')}</Text>
+            <View className="gap-2">
+              {tenants.map(tenant => (
+                <Card key={tenant.id} variant="default" padding="none">
+                  <View className="flex-row items-center p-4">
+                    <View className="flex-1">
+                      <Text className={titleClass}>{tenant.name}</Text>
+                      {(tenant.phone || tenant.email) && (
+                        <Text className={`${mutedClass} mt-0.5`}>
+                          {[tenant.phone, tenant.email].filter(Boolean).join(' · ')}
+                        </Text>
+                      )}
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => handleDeleteTenant(tenant)}
+                      className="w-8 h-8 rounded-lg items-center justify-center bg-red-100"
+                    >
+                      <Trash2 size={16} color={COLORS.error} />
+                    </TouchableOpacity>
+                  </View>
+                </Card>
+              ))}
+            </View>
+          </View>
+        )}
+      </ScrollView>
+
+      <InputDialog
+        visible={payingDue !== null}
+        title={t('rentals.recordPayment')}
+        message={payingDue
+          ? t('rentals.recordPaymentMessage', { tenant: payingDue.lease.tenantName, date: formatDate(payingDue.dueDate) })
+          : undefined}
+        defaultValue={payingDue ? formatCurrencyAmount(payingDue.amount - payingDue.paid, payingDue.lease.currency) : ''}
+        confirmText={t('rentals.record')}
+        onCancel={() => setPayingDue(null)}
+        onConfirm={handleRecordPayment}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,2 @@
+export { RentalScreen } from './RentalScreen';
+export { LeaseFormScreen } from './LeaseFormScreen';
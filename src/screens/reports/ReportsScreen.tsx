@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -8,7 +8,7 @@ import {
   Dimensions,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import {
   TrendingUp,
@@ -22,15 +22,22 @@ import {
   ShoppingBag,
   Settings,
   MoreHorizontal,
+  FileSpreadsheet,
+  Landmark,
+  Target,
 } from 'lucide-react-native';
-import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
+import { format, subMonths, startOfMonth, endOfMonth, startOfYear, endOfYear } from 'date-fns';
 import { RootStackParamList } from '../../navigation/types';
-import { Property, Expense } from '../../types';
-import { expenseRepository, propertyRepository } from '../../services/database';
+import { Property, ExpenseFilters, ExpenseSummary, BudgetReportRow } from '../../types';
+import { budgetRepository, expenseRepository, propertyRepository } from '../../services/database';
+import { getBudgetLabel } from '../../services/budgets';
+import { getBudgetColor } from '../../components/BudgetProgress';
+import { MissingRatesNotice } from '../../components/CurrencySelect';
 import { ScreenHeader, Card } from '../../components/ui';
 import { COLORS, EXPENSE_TYPES, SHADOWS } from '../../constants/theme';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
 import { useTheme, useTranslation } from '../../contexts';
+import { useQuery } from '../../hooks';
 import { getDateLocale } from '../../utils/date';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -40,7 +47,6 @@ const { width: SCREEN_WIDTH } = Dimensions.get('window');
 interface MonthlyData {
   month: string;
   total: number;
-  byType: Record<string, number>;
 }
 
 interface CategoryData {
@@ -55,124 +61,80 @@ export function ReportsScreen() {
   const insets = useSafeAreaInsets();
   const { isDark } = useTheme();
   const { t } = useTranslation();
+  const reportingCurrency = getReportingCurrency();
 
-  const [properties, setProperties] = useState<Property[]>([]);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
-  const [categoryData, setCategoryData] = useState<CategoryData[]>([]);
-  const [totalThisMonth, setTotalThisMonth] = useState(0);
-  const [totalLastMonth, setTotalLastMonth] = useState(0);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
   const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
 
-  const loadData = useCallback(async () => {
-    try {
-      const [propertiesData, allExpensesData] = await Promise.all([
-        propertyRepository.getAll(),
-        expenseRepository.getAll(),
-      ]);
-
-      setProperties(propertiesData);
-
-      // Filter expenses by selected property
-      const expensesData = selectedPropertyId
-        ? allExpensesData.filter(e => e.propertyId === selectedPropertyId)
-        : allExpensesData;
-
-      setExpenses(expensesData);
-
-      // Calculate monthly data for last 6 months
-      const monthly: MonthlyData[] = [];
-      for (let i = 5; i >= 0; i--) {
-        const date = subMonths(new Date(), i);
-        const start = startOfMonth(date);
-        const end = endOfMonth(date);
-        const monthExpenses = expensesData.filter(e => {
-          const expDate = new Date(e.date);
-          return expDate >= start && expDate <= end;
-        });
-
-        const byType: Record<string, number> = {};
-        let total = 0;
-        monthExpenses.forEach(e => {
-          total += e.amount;
-          byType[e.type] = (byType[e.type] || 0) + e.amount;
-        });
-
-        monthly.push({
-          month: format(date, 'MMM', { locale: getDateLocale() }),
-          total,
-          byType,
-        });
-      }
-      setMonthlyData(monthly);
-
-      // Calculate this month and last month totals
-      const thisMonthStart = startOfMonth(new Date());
-      const thisMonthEnd = endOfMonth(new Date());
-      const lastMonthStart = startOfMonth(subMonths(new Date(), 1));
-      const lastMonthEnd = endOfMonth(subMonths(new Date(), 1));
-
-      const thisMonth = expensesData
-        .filter(e => {
-          const d = new Date(e.date);
-          return d >= thisMonthStart && d <= thisMonthEnd;
-        })
-        .reduce((sum, e) => sum + e.amount, 0);
-
-      const lastMonth = expensesData
-        .filter(e => {
-          const d = new Date(e.date);
-          return d >= lastMonthStart && d <= lastMonthEnd;
-        })
-        .reduce((sum, e) => sum + e.amount, 0);
-
-      setTotalThisMonth(thisMonth);
-      setTotalLastMonth(lastMonth);
-
-      // Calculate category breakdown
-      const categoryMap: Record<string, { total: number; count: number }> = {};
-      expensesData
-        .filter(e => {
-          const d = new Date(e.date);
-          return d >= thisMonthStart && d <= thisMonthEnd;
-        })
-        .forEach(e => {
-          if (!categoryMap[e.type]) {
-            categoryMap[e.type] = { total: 0, count: 0 };
-          }
-          categoryMap[e.type].total += e.amount;
-          categoryMap[e.type].count += 1;
-        });
-
-      const categories: CategoryData[] = Object.entries(categoryMap)
-        .map(([type, data]) => ({
-          category: type,
-          total: data.total,
-          count: data.count,
-          color: EXPENSE_TYPES[type as keyof typeof EXPENSE_TYPES]?.color || COLORS.slate[500],
-        }))
-        .sort((a, b) => b.total - a.total);
-
-      setCategoryData(categories);
-    } catch (error) {
-      console.error('Failed to load reports data:', error);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
+  // Totals are summed in SQL rather than by loading every expense
+  const { data, refreshing, refresh } = useQuery(async () => {
+    const now = new Date();
+    const filters: ExpenseFilters = selectedPropertyId ? { propertyId: selectedPropertyId } : {};
+    const lastMonth = subMonths(now, 1);
+
+    const [propertiesData, summary, yearSummary, monthTotals, typeTotals, budgetReport, unconverted] = await Promise.all([
+      propertyRepository.getAll(),
+      expenseRepository.getSummary(filters),
+      expenseRepository.getSummary({
+        ...filters,
+        from: startOfYear(now).toISOString(),
+        to: endOfYear(now).toISOString(),
+      }),
+      expenseRepository.getTotalsBy('month', {
+        ...filters,
+        from: startOfMonth(subMonths(now, 5)).toISOString(),
+        to: endOfMonth(now).toISOString(),
+      }),
+      expenseRepository.getTotalsBy('type', {
+        ...filters,
+        from: startOfMonth(now).toISOString(),
+        to: endOfMonth(now).toISOString(),
+      }),
+      budgetRepository.getYearReport(now.getFullYear(), selectedPropertyId ?? undefined),
+      expenseRepository.getUnconvertedCurrencies(filters),
+    ]);
+
+    // Calculate monthly data for last 6 months
+    const totalsByMonth = new Map(monthTotals.map(month => [month.key, month.total]));
+    const monthly: MonthlyData[] = [];
+    for (let i = 5; i >= 0; i--) {
+      const date = subMonths(now, i);
+      monthly.push({
+        month: format(date, 'MMM', { locale: getDateLocale() }),
+        total: totalsByMonth.get(format(date, 'yyyy-MM')) ?? 0,
+      });
     }
-  }, [selectedPropertyId]);
 
-  useFocusEffect(
-    useCallback(() => {
-      loadData();
-    }, [loadData])
-  );
+    // Calculate category breakdown
+    const categories: CategoryData[] = typeTotals.map(type => ({
+      category: type.key,
+      total: type.total,
+      count: type.count,
+      color: EXPENSE_TYPES[type.key as keyof typeof EXPENSE_TYPES]?.color || COLORS.slate[500],
+    }));
+
+    return {
+      properties: propertiesData,
+      summary,
+      totalThisYear: yearSummary.total,
+      monthlyData: monthly,
+      categoryData: categories,
+      totalThisMonth: totalsByMonth.get(format(now, 'yyyy-MM')) ?? 0,
+      totalLastMonth: totalsByMonth.get(format(lastMonth, 'yyyy-MM')) ?? 0,
+      budgetReport,
+      unconverted,
+    };
+  }, ['properties', 'expenses', 'expense_splits', 'budgets', 'exchange_rates', 'app_settings'], [selectedPropertyId]);
+
+  const properties: Property[] = data?.properties ?? [];
+  const summary: ExpenseSummary = data?.summary ?? { count: 0, total: 0, average: 0, largest: 0 };
+  const monthlyData: MonthlyData[] = data?.monthlyData ?? [];
+  const categoryData: CategoryData[] = data?.categoryData ?? [];
+  const totalThisMonth = data?.totalThisMonth ?? 0;
+  const totalLastMonth = data?.totalLastMonth ?? 0;
+  const budgetReport: BudgetReportRow[] = data?.budgetReport ?? [];
 
   const onRefresh = () => {
-    setRefreshing(true);
-    loadData();
+    refresh();
   };
 
   const percentChange = totalLastMonth > 0
@@ -203,6 +165,24 @@ export function ReportsScreen() {
         title={t('reports.title')}
         showBack
         onBack={() => navigation.goBack()}
+        rightAction={
+          <View className="flex-row gap-2">
+            <TouchableOpacity
+              onPress={() => navigation.navigate('TaxSummary')}
+              className={`w-10 h-10 rounded-xl items-center justify-center ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}
+              activeOpacity={0.7}
+            >
+              <Landmark size={20} color={isDark ? COLORS.slate[300] : COLORS.slate[600]} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => navigation.navigate('SpreadsheetExport', { propertyId: selectedPropertyId ?? undefined })}
+              className={`w-10 h-10 rounded-xl items-center justify-center ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}
+              activeOpacity={0.7}
+            >
+              <FileSpreadsheet size={20} color={isDark ? COLORS.slate[300] : COLORS.slate[600]} />
+            </TouchableOpacity>
+          </View>
+        }
       />
 
       {/* Property Filter */}
@@ -260,6 +240,15 @@ export function ReportsScreen() {
           />
         }
       >
+        {(data?.unconverted.length ?? 0) > 0 && (
+          <View className="mb-5">
+            <MissingRatesNotice
+              currencies={data?.unconverted ?? []}
+              onPress={() => navigation.navigate('ExchangeRates')}
+            />
+          </View>
+        )}
+
         {/* Summary Cards */}
         <View className="flex-row gap-3 mb-5">
           <View
@@ -275,7 +264,7 @@ export function ReportsScreen() {
               </View>
             </View>
             <Text className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-              {formatCurrency(totalThisMonth)}
+              {formatCurrency(totalThisMonth, reportingCurrency)}
             </Text>
             {percentChange !== 0 && (
               <View className="flex-row items-center mt-1">
@@ -310,7 +299,7 @@ export function ReportsScreen() {
               {properties.length}
             </Text>
             <Text className={`text-xs mt-1 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
-              {expenses.length} {t('reports.totalExpenses')}
+              {summary.count} {t('reports.totalExpenses')}
             </Text>
           </View>
         </View>
@@ -417,7 +406,7 @@ export function ReportsScreen() {
                     </View>
                     <View className="items-end">
                       <Text className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                        {formatCurrency(cat.total)}
+                        {formatCurrency(cat.total, reportingCurrency)}
                       </Text>
                       <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
                         {percent.toFixed(1)}%
@@ -430,6 +419,58 @@ export function ReportsScreen() {
           )}
         </View>
 
+        {/* Budget vs Actual */}
+        {budgetReport.length > 0 && (
+          <View
+            className={`rounded-2xl p-5 mb-5 ${isDark ? 'bg-slate-800' : 'bg-white'}`}
+            style={SHADOWS.md}
+          >
+            <View className="flex-row items-center mb-4">
+              <Target size={20} color={COLORS.primary[600]} />
+              <Text className={`text-base font-semibold ml-2 ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                {t('budgets.vsActual')}
+              </Text>
+              <Text className={`text-sm ml-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                ({t('reports.thisYear')})
+              </Text>
+            </View>
+
+            {budgetReport.map((row, index) => {
+              const percent = row.budgeted > 0 ? (row.spent / row.budgeted) * 100 : 100;
+              const variance = row.budgeted - row.spent;
+              return (
+                <View
+                  key={row.budget.id}
+                  className={`py-3 ${
+                    index < budgetReport.length - 1 ? `border-b ${isDark ? 'border-slate-700' : 'border-slate-100'}` : ''
+                  }`}
+                >
+                  <View className="flex-row items-center justify-between mb-2">
+                    <View className="flex-1 mr-3">
+                      <Text className={`text-sm font-medium ${isDark ? 'text-white' : 'text-slate-900'}`} numberOfLines={1}>
+                        {getBudgetLabel(row.budget, t)}
+                      </Text>
+                      <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`} numberOfLines={1}>
+                        {selectedPropertyId ? '' : `${row.propertyName} · `}
+                        {t('budgets.spentOf', { spent: formatCurrency(row.spent, reportingCurrency), available: formatCurrency(row.budgeted, reportingCurrency) })}
+                      </Text>
+                    </View>
+                    <Text className="text-sm font-semibold" style={{ color: variance < 0 ? COLORS.error : COLORS.success }}>
+                      {variance < 0 ? '-' : '+'}{formatCurrency(Math.abs(variance), reportingCurrency)}
+                    </Text>
+                  </View>
+                  <View className={`h-2 rounded-full overflow-hidden ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}>
+                    <View
+                      className="h-full rounded-full"
+                      style={{ width: `${Math.min(percent, 100)}%`, backgroundColor: getBudgetColor(percent) }}
+                    />
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
         {/* Quick Stats */}
         <View
           className={`rounded-2xl p-5 ${isDark ? 'bg-slate-800' : 'bg-white'}`}
@@ -444,7 +485,7 @@ export function ReportsScreen() {
               <View className={`rounded-xl p-3 ${isDark ? 'bg-slate-700' : 'bg-slate-50'}`}>
                 <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('reports.avgExpense')}</Text>
                 <Text className={`text-lg font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                  {formatCurrency(expenses.length > 0 ? expenses.reduce((s, e) => s + e.amount, 0) / expenses.length : 0)}
+                  {formatCurrency(summary.average, reportingCurrency)}
                 </Text>
               </View>
             </View>
@@ -452,7 +493,7 @@ export function ReportsScreen() {
               <View className={`rounded-xl p-3 ${isDark ? 'bg-slate-700' : 'bg-slate-50'}`}>
                 <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('reports.totalAllTime')}</Text>
                 <Text className={`text-lg font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                  {formatCurrency(expenses.reduce((s, e) => s + e.amount, 0))}
+                  {formatCurrency(summary.total, reportingCurrency)}
                 </Text>
               </View>
             </View>
@@ -460,7 +501,7 @@ export function ReportsScreen() {
               <View className={`rounded-xl p-3 ${isDark ? 'bg-slate-700' : 'bg-slate-50'}`}>
                 <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('reports.largestExpense')}</Text>
                 <Text className={`text-lg font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                  {formatCurrency(expenses.length > 0 ? Math.max(...expenses.map(e => e.amount)) : 0)}
+                  {formatCurrency(summary.largest, reportingCurrency)}
                 </Text>
               </View>
             </View>
@@ -468,11 +509,7 @@ export function ReportsScreen() {
               <View className={`rounded-xl p-3 ${isDark ? 'bg-slate-700' : 'bg-slate-50'}`}>
                 <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('reports.thisYear')}</Text>
                 <Text className={`text-lg font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                  {formatCurrency(
-                    expenses
-                      .filter(e => new Date(e.date).getFullYear() === new Date().getFullYear())
-                      .reduce((s, e) => s + e.amount, 0)
-                  )}
+                  {formatCurrency(data?.totalThisYear ?? 0, reportingCurrency)}
                 </Text>
               </View>
             </View>
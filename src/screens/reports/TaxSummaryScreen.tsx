@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert, RefreshControl } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ChevronLeft, ChevronRight, CalendarRange, FileText, FileSpreadsheet, Landmark } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { RootStackParamList } from '../../navigation/types';
+import { TaxSummaryTotal, TaxTreatment } from '../../types';
+import { settingsRepository, taxSummaryRepository, getFiscalYearStart } from '../../services/database';
+import { TAX_TREATMENTS } from '../../services/database/entities';
+import { taxSummaryExportService, TaxSummaryFormat } from '../../services/export';
+import { useQuery } from '../../hooks';
+import { ScreenHeader, Card, ListItem, Button, DatePickerModal } from '../../components/ui';
+import { MissingRatesNotice } from '../../components/CurrencySelect';
+import { COLORS, SHADOWS } from '../../constants/theme';
+import { useTheme, useTranslation } from '../../contexts';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
+import { formatDate } from '../../utils/date';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+// Tagged treatments, then costs not tagged yet
+const TREATMENT_ROWS: Array<TaxTreatment | undefined> = [...TAX_TREATMENTS, undefined];
+
+const TREATMENT_COLORS: Record<TaxTreatment | 'none', string> = {
+  deductible: COLORS.success,
+  capital_improvement: COLORS.info,
+  non_deductible: COLORS.slate[500],
+  none: COLORS.warning,
+};
+
+export function TaxSummaryScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  const reportingCurrency = getReportingCurrency();
+
+  // The year shown; the current one until the user moves
+  const [fiscalYear, setFiscalYear] = useState<number | null>(null);
+  const [exporting, setExporting] = useState<TaxSummaryFormat | null>(null);
+  const [showStartPicker, setShowStartPicker] = useState(false);
+  const [tempStart, setTempStart] = useState(new Date());
+
+  const { data, refreshing, refresh } = useQuery(
+    async () => {
+      const [settings, year] = await Promise.all([
+        settingsRepository.get(),
+        fiscalYear ?? taxSummaryRepository.getCurrentFiscalYear(),
+      ]);
+      return { settings, summary: await taxSummaryRepository.getSummary(year) };
+    },
+    ['app_settings', 'properties', 'expenses', 'expense_splits', 'renovations', 'renovation_costs', 'attachments', 'exchange_rates'],
+    [fiscalYear]
+  );
+  const summary = data?.summary;
+  const settings = data?.settings;
+
+  const totalsByProperty = new Map<string, { name: string; totals: TaxSummaryTotal[] }>();
+  for (const total of summary?.totals ?? []) {
+    const entry = totalsByProperty.get(total.propertyId) ?? { name: total.propertyName, totals: [] };
+    entry.totals.push(total);
+    totalsByProperty.set(total.propertyId, entry);
+  }
+  const sumOf = (treatment?: TaxTreatment) => (summary?.totals ?? [])
+    .filter(total => total.taxTreatment === treatment)
+    .reduce((sum, total) => ({ total: sum.total + total.total, count: sum.count + total.count }), { total: 0, count: 0 });
+  const untagged = sumOf(undefined).count;
+
+  const fiscalStart = settings
+    ? getFiscalYearStart(new Date().getFullYear(), settings.fiscalYearStartMonth, settings.fiscalYearStartDay)
+    : new Date();
+
+  const handleStartConfirm = async () => {
+    setShowStartPicker(false);
+    try {
+      await settingsRepository.update({
+        fiscalYearStartMonth: tempStart.getMonth() + 1,
+        fiscalYearStartDay: tempStart.getDate(),
+      });
+      // Back to the year today falls in under the new start
+      setFiscalYear(null);
+      Haptics.selectionAsync().catch(() => {});
+    } catch (error) {
+      console.error('Failed to save tax year start:', error);
+      Alert.alert(t('common.error'), t('taxSummary.saveStartError'));
+    }
+  };
+
+  const handleExport = async (format: TaxSummaryFormat) => {
+    if (!summary) return;
+    setExporting(format);
+    try {
+      const result = await taxSummaryExportService.export(summary.fiscalYear, format);
+      Haptics.notificationAsync(
+        result.success
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Error
+      ).catch(() => {});
+      if (!result.success) {
+        Alert.alert(t('settingsScreen.alerts.exportFailed'), result.error || t('settingsScreen.alerts.unexpectedError'));
+      }
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const sectionTitleClass = `text-sm font-semibold uppercase tracking-wide mb-3 ${isDark ? 'text-slate-400' : 'text-slate-500'}`;
+  const mutedClass = `text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`;
+
+  const renderTreatmentRow = (treatment: TaxTreatment | undefined, total: number, count: number) => (
+    <View key={treatment ?? 'none'} className="flex-row items-center py-1.5">
+      <View className="w-2.5 h-2.5 rounded-full mr-2.5" style={{ backgroundColor: TREATMENT_COLORS[treatment ?? 'none'] }} />
+      <Text className={`flex-1 text-sm ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+        {t(`taxSummary.treatments.${treatment ?? 'none'}`)}
+      </Text>
+      <Text className={`text-xs mr-3 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+        {t('taxSummary.costCount', { count })}
+      </Text>
+      <Text className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+        {formatCurrency(total, reportingCurrency)}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={t('taxSummary.title')}
+        showBack
+        onBack={() => navigation.goBack()}
+      />
+
+      <ScrollView
+        className="flex-1"
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refresh}
+            tintColor={COLORS.primary[600]}
+          />
+        }
+      >
+        {/* Tax year start */}
+        <View className={`mt-4 ${isDark ? 'bg-slate-800' : 'bg-white'}`} style={SHADOWS.sm}>
+          <ListItem
+            title={t('taxSummary.yearStart')}
+            subtitle={t('taxSummary.yearStartHint')}
+            leftIcon={
+              <View className="w-9 h-9 rounded-xl bg-blue-100 items-center justify-center">
+                <CalendarRange size={18} color={COLORS.info} />
+              </View>
+            }
+            rightContent={
+              <Text className={mutedClass}>{formatDate(fiscalStart.toISOString(), 'd MMMM')}</Text>
+            }
+            showChevron
+            onPress={() => {
+              setTempStart(fiscalStart);
+              setShowStartPicker(true);
+            }}
+          />
+        </View>
+
+        <View className="px-5 pt-5 pb-10">
+          {/* Year switcher */}
+          <View className="flex-row items-center justify-between mb-3">
+            <View>
+              <Text className={`text-lg font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                {summary ? t('taxSummary.yearLabel', { year: summary.label }) : ''}
+              </Text>
+              {summary && (
+                <Text className={mutedClass}>
+                  {formatDate(summary.from)} – {formatDate(summary.to)}
+                </Text>
+              )}
+            </View>
+            <View className="flex-row items-center">
+              <TouchableOpacity
+                onPress={() => summary && setFiscalYear(summary.fiscalYear - 1)}
+                className={`w-9 h-9 rounded-xl items-center justify-center mr-2 ${isDark ? 'bg-slate-800' : 'bg-white'}`}
+              >
+                <ChevronLeft size={18} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => summary && setFiscalYear(summary.fiscalYear + 1)}
+                className={`w-9 h-9 rounded-xl items-center justify-center ${isDark ? 'bg-slate-800' : 'bg-white'}`}
+              >
+                <ChevronRight size={18} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {(summary?.missingCurrencies.length ?? 0) > 0 && (
+            <View className="mb-4">
+              <MissingRatesNotice
+                currencies={summary?.missingCurrencies ?? []}
+                onPress={() => navigation.navigate('ExchangeRates')}
+              />
+            </View>
+          )}
+
+          {/* All properties */}
+          <Card variant="default" padding="md" className="mb-2">
+            {TREATMENT_ROWS.map(treatment => {
+              const sum = sumOf(treatment);
+              return renderTreatmentRow(treatment, sum.total, sum.count);
+            })}
+          </Card>
+          {untagged > 0 && (
+            <Text className={`text-xs mb-4 ${isDark ? 'text-amber-400' : 'text-amber-700'}`}>
+              {t('taxSummary.untaggedHint', { count: untagged })}
+            </Text>
+          )}
+
+          {/* By property */}
+          <Text className={`${sectionTitleClass} mt-4`}>{t('taxSummary.byProperty')}</Text>
+          {totalsByProperty.size === 0 ? (
+            <View className="items-center py-10">
+              <Landmark size={32} color={isDark ? COLORS.slate[600] : COLORS.slate[400]} />
+              <Text className={`${mutedClass} mt-3 text-center`}>{t('taxSummary.noCosts')}</Text>
+            </View>
+          ) : (
+            <View className="gap-3">
+              {Array.from(totalsByProperty.entries()).map(([propertyId, entry]) => (
+                <Card key={propertyId} variant="default" padding="md">
+                  <Text className={`text-base font-semibold mb-1 ${isDark ? 'text-white' : 'text-slate-900'}`}>{entry.name}</Text>
+                  {entry.totals.map(total => renderTreatmentRow(total.taxTreatment, total.total, total.count))}
+                </Card>
+              ))}
+            </View>
+          )}
+
+          {/* Export */}
+          <Text className={`${sectionTitleClass} mt-6`}>{t('taxSummary.export')}</Text>
+          <Text className={`${mutedClass} mb-3`}>{t('taxSummary.exportHint')}</Text>
+          <View className="flex-row gap-3">
+            <View className="flex-1">
+              <Button
+                title={t('taxSummary.exportPdf')}
+                onPress={() => handleExport('pdf')}
+                variant="primary"
+                loading={exporting === 'pdf'}
+                disabled={!summary || exporting !== null}
+                icon={<FileText size={18} color="#ffffff" />}
+                fullWidth
+              />
+            </View>
+            <View className="flex-1">
+              <Button
+                title={t('taxSummary.exportCsv')}
+                onPress={() => handleExport('csv')}
+                variant="outline"
+                loading={exporting === 'csv'}
+                disabled={!summary || exporting !== null}
+                icon={<FileSpreadsheet size={18} color={COLORS.primary[600]} />}
+                fullWidth
+              />
+            </View>
+          </View>
+        </View>
+      </ScrollView>
+
+      <DatePickerModal
+        visible={showStartPicker}
+        value={tempStart}
+        title={t('taxSummary.yearStart')}
+        onChange={setTempStart}
+        onClose={() => setShowStartPicker(false)}
+        onConfirm={handleStartConfirm}
+      />
+    </View>
+  );
+}
@@ -1 +1,2 @@
 export { ReportsScreen } from './ReportsScreen';
+export { TaxSummaryScreen } from './TaxSummaryScreen';
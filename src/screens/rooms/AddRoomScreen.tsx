@@ -23,11 +23,13 @@ import {
   Grid3x3,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { RoomType } from '../../types';
-import { roomRepository } from '../../services/database';
+import { CustomFieldValues, RoomType } from '../../types';
+import { roomRepository, customFieldValueRepository } from '../../services/database';
 import { Button, Input, IconButton } from '../../components/ui';
+import { CustomFieldInputs } from '../../components/CustomFieldInputs';
 import { COLORS, ROOM_TYPES } from '../../constants/theme';
 import { useTheme, useTranslation } from '../../contexts';
+import { describeSaveError } from '../../utils/validation';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type AddRoomRouteProp = RouteProp<RootStackParamList, 'AddRoom'>;
@@ -59,6 +61,7 @@ export function AddRoomScreen() {
   const [type, setType] = useState<RoomType>('living_room');
   const [notes, setNotes] = useState('');
   const [imageUri, setImageUri] = useState<string | undefined>();
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
   const [loading, setLoading] = useState(false);
 
   const handlePickImage = async () => {
@@ -89,18 +92,19 @@ export function AddRoomScreen() {
     setLoading(true);
 
     try {
-      await roomRepository.create({
+      const room = await roomRepository.create({
         propertyId: route.params.propertyId,
         name: name.trim(),
         type,
         notes: notes.trim() || undefined,
         imageUri,
       });
+      await customFieldValueRepository.save('room', room.id, customValues);
 
       navigation.goBack();
     } catch (error) {
       console.error('Failed to create room:', error);
-      Alert.alert(t('common.error'), t('common.tryAgain'));
+      Alert.alert(t('common.error'), describeSaveError(error, t('common.tryAgain'), t));
     } finally {
       setLoading(false);
     }
@@ -212,6 +216,8 @@ export function AddRoomScreen() {
           numberOfLines={3}
           containerClassName="mb-4"
         />
+
+        <CustomFieldInputs entityType="room" values={customValues} onChange={setCustomValues} />
       </ScrollView>
     </View>
   );
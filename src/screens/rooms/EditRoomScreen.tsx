@@ -23,11 +23,13 @@ import {
   Grid3x3,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { RoomType } from '../../types';
-import { roomRepository } from '../../services/database';
+import { CustomFieldValues, RoomType } from '../../types';
+import { roomRepository, customFieldValueRepository } from '../../services/database';
 import { Button, Input, IconButton } from '../../components/ui';
+import { CustomFieldInputs } from '../../components/CustomFieldInputs';
 import { COLORS, ROOM_TYPES } from '../../constants/theme';
 import { useTheme, useTranslation } from '../../contexts';
+import { describeSaveError } from '../../utils/validation';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type EditRoomRouteProp = RouteProp<RootStackParamList, 'EditRoom'>;
@@ -60,6 +62,7 @@ export function EditRoomScreen() {
   const [type, setType] = useState<RoomType>('living_room');
   const [notes, setNotes] = useState('');
   const [imageUri, setImageUri] = useState<string | undefined>();
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
 
@@ -75,6 +78,7 @@ export function EditRoomScreen() {
         setType(room.type);
         setNotes(room.notes || '');
         setImageUri(room.imageUri);
+        setCustomValues(await customFieldValueRepository.getByEntity('room', roomId));
       }
     } catch (error) {
       console.error('Failed to load room:', error);
@@ -119,11 +123,12 @@ export function EditRoomScreen() {
         notes: notes.trim() || undefined,
         imageUri,
       });
+      await customFieldValueRepository.save('room', roomId, customValues);
 
       navigation.goBack();
     } catch (error) {
       console.error('Failed to update room:', error);
-      Alert.alert(t('common.error'), t('common.tryAgain'));
+      Alert.alert(t('common.error'), describeSaveError(error, t('common.tryAgain'), t));
     } finally {
       setLoading(false);
     }
@@ -243,6 +248,8 @@ export function EditRoomScreen() {
           numberOfLines={3}
           containerClassName="mb-4"
         />
+
+        <CustomFieldInputs entityType="room" values={customValues} onChange={setCustomValues} />
       </ScrollView>
     </View>
   );
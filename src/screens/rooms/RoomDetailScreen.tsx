@@ -35,10 +35,18 @@ import {
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
 import { Room, Asset, Expense } from '../../types';
-import { roomRepository, assetRepository, expenseRepository } from '../../services/database';
+import {
+  roomRepository,
+  assetRepository,
+  expenseRepository,
+  exchangeRateRepository,
+  sumInReportingCurrency,
+  CurrencyConverter,
+} from '../../services/database';
 import { IconButton, PressableCard, Button } from '../../components/ui';
+import { CustomFieldList } from '../../components/CustomFieldInputs';
 import { COLORS, ROOM_TYPES, ASSET_CATEGORIES, SHADOWS } from '../../constants/theme';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
 import { format, parseISO, isToday, isYesterday, differenceInDays } from 'date-fns';
 import { useTheme, useTranslation } from '../../contexts';
 
@@ -55,19 +63,22 @@ export function RoomDetailScreen() {
   const [room, setRoom] = useState<Room | null>(null);
   const [assets, setAssets] = useState<Asset[]>([]);
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [convert, setConvert] = useState<CurrencyConverter>(() => (amount: number) => amount);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   const loadData = useCallback(async () => {
     try {
-      const [roomData, assetsData, expensesData] = await Promise.all([
+      const [roomData, assetsData, expensesData, converter] = await Promise.all([
         roomRepository.getById(route.params.roomId),
         assetRepository.getByRoomId(route.params.roomId),
         expenseRepository.getByRoomId(route.params.roomId),
+        exchangeRateRepository.getConverter(),
       ]);
       setRoom(roomData);
       setAssets(assetsData);
       setExpenses(expensesData);
+      setConvert(() => converter);
     } catch (error) {
       console.error('Failed to load room:', error);
     } finally {
@@ -173,7 +184,10 @@ export function RoomDetailScreen() {
   const roomConfig = room ? ROOM_TYPES[room.type] || ROOM_TYPES.other : ROOM_TYPES.other;
 
   // Calculate total asset value
-  const totalAssetValue = assets.reduce((sum, a) => sum + (a.purchasePrice || 0), 0);
+  const totalAssetValue = sumInReportingCurrency(
+    assets.map(a => ({ amount: a.purchasePrice || 0, currency: a.purchaseCurrency, date: a.purchaseDate ?? a.createdAt })),
+    convert
+  );
 
   if (!room && !loading) {
     return (
@@ -278,7 +292,7 @@ export function RoomDetailScreen() {
               <View className="flex-row items-center">
                 <DollarSign size={16} color={COLORS.primary[500]} />
                 <Text className="text-2xl font-bold text-primary-600 ml-1">
-                  {formatCurrency(totalAssetValue)}
+                  {formatCurrency(totalAssetValue, getReportingCurrency())}
                 </Text>
               </View>
               <Text className={`text-xs mt-1 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('worker.total')}</Text>
@@ -465,7 +479,7 @@ export function RoomDetailScreen() {
 
                         {asset.purchasePrice && (
                           <Text className={`text-sm font-semibold mt-1 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
-                            {formatCurrency(asset.purchasePrice)}
+                            {formatCurrency(asset.purchasePrice, asset.purchaseCurrency)}
                           </Text>
                         )}
                       </View>
@@ -479,6 +493,8 @@ export function RoomDetailScreen() {
           )}
         </View>
 
+        <CustomFieldList entityType="room" entityId={route.params.roomId} className="mx-4 mt-6" />
+
         {/* Room Created */}
         {room && (
           <View className="mx-4 mt-6 flex-row items-center justify-center">
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -17,23 +17,21 @@ import {
   Package,
   Receipt,
   HardHat,
+  StickyNote,
+  FileText,
+  Palette,
+  Box,
   ArrowRight,
   Clock,
   Filter,
   ChevronDown,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { Property, Room, Asset, Expense, Worker } from '../../types';
-import {
-  propertyRepository,
-  roomRepository,
-  assetRepository,
-  expenseRepository,
-  workerRepository,
-} from '../../services/database';
-import { ScreenHeader, Card, Badge } from '../../components/ui';
-import { COLORS, ROOM_TYPES, ASSET_CATEGORIES, EXPENSE_TYPES } from '../../constants/theme';
-import { formatDate, formatRelative } from '../../utils/date';
+import { ExpenseType, SearchEntityType, SearchOptions, SearchResult, SearchSnippet } from '../../types';
+import { searchRepository } from '../../services/database';
+import { ScreenHeader, Card } from '../../components/ui';
+import { COLORS } from '../../constants/theme';
+import { formatDate } from '../../utils/date';
 import { formatCurrency } from '../../utils/currency';
 import { useTheme, useTranslation } from '../../contexts';
 
@@ -52,25 +50,71 @@ const EXPENSE_TYPE_FILTER_KEYS = ['all', 'repair', 'bill', 'maintenance', 'purch
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-interface SearchResults {
-  properties: Property[];
-  rooms: (Room & { propertyName?: string })[];
-  assets: (Asset & { propertyName?: string; roomName?: string })[];
-  expenses: (Expense & { propertyName?: string })[];
-  workers: Worker[];
-}
-
-type SearchCategory = 'all' | 'properties' | 'rooms' | 'assets' | 'expenses' | 'workers';
-
-const CATEGORY_KEYS: Array<{ key: SearchCategory; icon: React.ElementType }> = [
+type SearchCategory =
+  | 'all'
+  | 'properties'
+  | 'rooms'
+  | 'assets'
+  | 'expenses'
+  | 'workers'
+  | 'notes'
+  | 'documents'
+  | 'paintCodes'
+  | 'storageBoxes';
+
+const CATEGORY_KEYS: Array<{ key: SearchCategory; icon: React.ElementType; types?: SearchEntityType[] }> = [
   { key: 'all', icon: SearchIcon },
-  { key: 'properties', icon: Home },
-  { key: 'rooms', icon: DoorOpen },
-  { key: 'assets', icon: Package },
-  { key: 'expenses', icon: Receipt },
-  { key: 'workers', icon: HardHat },
+  { key: 'properties', icon: Home, types: ['property'] },
+  { key: 'rooms', icon: DoorOpen, types: ['room'] },
+  { key: 'assets', icon: Package, types: ['asset'] },
+  { key: 'expenses', icon: Receipt, types: ['expense'] },
+  { key: 'workers', icon: HardHat, types: ['worker'] },
+  { key: 'notes', icon: StickyNote, types: ['note', 'worker_note'] },
+  { key: 'documents', icon: FileText, types: ['document'] },
+  { key: 'paintCodes', icon: Palette, types: ['paint_code'] },
+  { key: 'storageBoxes', icon: Box, types: ['storage_box'] },
 ];
 
+const RESULT_TYPES: Record<SearchEntityType, { icon: React.ElementType; color: string }> = {
+  property: { icon: Home, color: COLORS.success },
+  room: { icon: DoorOpen, color: '#3b82f6' },
+  asset: { icon: Package, color: '#8b5cf6' },
+  expense: { icon: Receipt, color: '#0ea5e9' },
+  worker: { icon: HardHat, color: '#ec4899' },
+  worker_note: { icon: StickyNote, color: '#ca8a04' },
+  note: { icon: StickyNote, color: '#ca8a04' },
+  document: { icon: FileText, color: '#6366f1' },
+  paint_code: { icon: Palette, color: '#a855f7' },
+  storage_box: { icon: Box, color: '#f59e0b' },
+};
+
+// Start and end of the expense date filter, end exclusive
+function getDateRange(key: string): { from?: string; to?: string } {
+  if (key === 'all') return {};
+
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const tomorrow = new Date(today);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  let from: Date;
+  switch (key) {
+    case 'week':
+      from = new Date(today);
+      from.setDate(from.getDate() - 7);
+      break;
+    case 'month':
+      from = new Date(now.getFullYear(), now.getMonth(), 1);
+      break;
+    case 'year':
+      from = new Date(now.getFullYear(), 0, 1);
+      break;
+    default:
+      from = today;
+  }
+  return { from: from.toISOString(), to: tomorrow.toISOString() };
+}
+
 export function SearchScreen() {
   const navigation = useNavigation<NavigationProp>();
   const { isDark } = useTheme();
@@ -78,13 +122,7 @@ export function SearchScreen() {
 
   const [query, setQuery] = useState('');
   const [category, setCategory] = useState<SearchCategory>('all');
-  const [results, setResults] = useState<SearchResults>({
-    properties: [],
-    rooms: [],
-    assets: [],
-    expenses: [],
-    workers: [],
-  });
+  const [results, setResults] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
   const [hasSearched, setHasSearched] = useState(false);
@@ -94,114 +132,23 @@ export function SearchScreen() {
   const [typeFilter, setTypeFilter] = useState('all');
   const [searchError, setSearchError] = useState<string | null>(null);
 
-  // Helper to check if expense matches date filter
-  const matchesDateFilter = useCallback((expenseDate: string): boolean => {
-    if (dateFilter === 'all') return true;
-
-    const date = new Date(expenseDate);
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    switch (dateFilter) {
-      case 'today':
-        // Fixed: now properly checks only today, not future dates
-        return date >= today && date < tomorrow;
-      case 'week':
-        const weekAgo = new Date(today);
-        weekAgo.setDate(weekAgo.getDate() - 7);
-        return date >= weekAgo && date < tomorrow;
-      case 'month':
-        const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-        return date >= monthStart && date < tomorrow;
-      case 'year':
-        const yearStart = new Date(now.getFullYear(), 0, 1);
-        return date >= yearStart && date < tomorrow;
-      default:
-        return true;
-    }
-  }, [dateFilter]);
-
-  // Helper to check if expense matches amount filter
-  const matchesAmountFilter = useCallback((amount: number): boolean => {
-    const range = AMOUNT_RANGE_KEYS.find(r => r.key === amountFilter);
-    if (!range) return true;
-    return amount >= range.min && amount < range.max;
-  }, [amountFilter]);
-
   const performSearch = useCallback(async (searchQuery: string) => {
     setLoading(true);
     setHasSearched(true);
     setSearchError(null);
 
     try {
-      const searchLower = searchQuery.toLowerCase();
-
-      // Fetch properties once and reuse - Fixed N+1 query pattern
-      const properties = await propertyRepository.getAll();
-      const workers = await workerRepository.getAll();
-
-      // Build rooms, assets, expenses in parallel using the single properties fetch
-      const [allRooms, allAssets, allExpenses] = await Promise.all([
-        Promise.all(properties.map(async (p) => {
-          const rooms = await roomRepository.getByPropertyId(p.id);
-          return rooms.map((r) => ({ ...r, propertyName: p.name }));
-        })).then((arr) => arr.flat()),
-        Promise.all(properties.map(async (p) => {
-          const assets = await assetRepository.getByPropertyId(p.id);
-          return assets.map((a) => ({ ...a, propertyName: p.name }));
-        })).then((arr) => arr.flat()),
-        Promise.all(properties.map(async (p) => {
-          const expenses = await expenseRepository.getByPropertyId(p.id);
-          return expenses.map((e) => ({ ...e, propertyName: p.name }));
-        })).then((arr) => arr.flat()),
-      ]);
-
-      // Filter based on query
-      const filteredProperties = properties.filter(
-        (p) =>
-          p.name.toLowerCase().includes(searchLower) ||
-          p.address.toLowerCase().includes(searchLower)
-      );
-
-      const filteredRooms = allRooms.filter(
-        (r) =>
-          r.name.toLowerCase().includes(searchLower) ||
-          r.notes?.toLowerCase().includes(searchLower)
-      );
-
-      const filteredAssets = allAssets.filter(
-        (a) =>
-          a.name.toLowerCase().includes(searchLower) ||
-          a.brand?.toLowerCase().includes(searchLower) ||
-          a.model?.toLowerCase().includes(searchLower) ||
-          a.notes?.toLowerCase().includes(searchLower)
-      );
-
-      const filteredExpenses = allExpenses.filter(
-        (e) =>
-          (e.description.toLowerCase().includes(searchLower) ||
-          e.category.toLowerCase().includes(searchLower)) &&
-          matchesAmountFilter(e.amount) &&
-          matchesDateFilter(e.date) &&
-          (typeFilter === 'all' || e.type === typeFilter)
-      );
-
-      const filteredWorkers = workers.filter(
-        (w) =>
-          w.name.toLowerCase().includes(searchLower) ||
-          w.company?.toLowerCase().includes(searchLower) ||
-          w.specialty.some((s) => s.toLowerCase().includes(searchLower))
-      );
-
-      setResults({
-        properties: filteredProperties,
-        rooms: filteredRooms,
-        assets: filteredAssets,
-        expenses: filteredExpenses,
-        workers: filteredWorkers,
-      });
+      const range = AMOUNT_RANGE_KEYS.find(r => r.key === amountFilter);
+      const options: SearchOptions = {
+        types: CATEGORY_KEYS.find(c => c.key === category)?.types,
+        expense: {
+          type: typeFilter === 'all' ? undefined : typeFilter as ExpenseType,
+          minAmount: range && range.min > 0 ? range.min : undefined,
+          maxAmount: range && range.max !== Infinity ? range.max : undefined,
+          ...getDateRange(dateFilter),
+        },
+      };
+      setResults(await searchRepository.search(searchQuery, options));
 
       // Add to recent searches
       if (!recentSearches.includes(searchQuery)) {
@@ -213,12 +160,12 @@ export function SearchScreen() {
     } finally {
       setLoading(false);
     }
-  }, [matchesDateFilter, matchesAmountFilter, typeFilter, recentSearches, t]);
+  }, [category, amountFilter, dateFilter, typeFilter, recentSearches, t]);
 
   // Debounced search with proper dependencies
   useEffect(() => {
     if (!query.trim()) {
-      setResults({ properties: [], rooms: [], assets: [], expenses: [], workers: [] });
+      setResults([]);
       setHasSearched(false);
       setSearchError(null);
       return;
@@ -229,11 +176,11 @@ export function SearchScreen() {
     }, 300);
 
     return () => clearTimeout(timeoutId);
-  }, [query, category, amountFilter, dateFilter, typeFilter, performSearch]);
+  }, [query, performSearch]);
 
   const handleClearSearch = () => {
     setQuery('');
-    setResults({ properties: [], rooms: [], assets: [], expenses: [], workers: [] });
+    setResults([]);
     setHasSearched(false);
   };
 
@@ -241,32 +188,59 @@ export function SearchScreen() {
     setQuery(search);
   };
 
-  const navigateToProperty = (property: Property) => {
-    navigation.navigate('PropertyDetail', { propertyId: property.id });
-  };
-
-  const navigateToRoom = (room: Room & { propertyName?: string }) => {
-    navigation.navigate('RoomDetail', { roomId: room.id, propertyId: room.propertyId });
-  };
-
-  const navigateToAsset = (asset: Asset) => {
-    navigation.navigate('AssetDetail', { assetId: asset.id });
+  // Notes, documents, paint codes and storage boxes open the list they are
+  // kept in, or the asset or worker they belong to
+  const openResult = (result: SearchResult) => {
+    const propertyId = result.propertyId ?? '';
+    switch (result.type) {
+      case 'property':
+        navigation.navigate('PropertyDetail', { propertyId: result.id });
+        break;
+      case 'room':
+        navigation.navigate('RoomDetail', { roomId: result.id, propertyId });
+        break;
+      case 'asset':
+        navigation.navigate('AssetDetail', { assetId: result.id });
+        break;
+      case 'expense':
+        navigation.navigate('ExpenseDetail', { expenseId: result.id });
+        break;
+      case 'worker':
+        navigation.navigate('WorkerDetail', { workerId: result.id });
+        break;
+      case 'worker_note':
+        if (result.parentId) navigation.navigate('WorkerDetail', { workerId: result.parentId });
+        break;
+      case 'note':
+      case 'document':
+        if (result.parentId && result.parentType === 'asset') {
+          navigation.navigate('AssetDetail', { assetId: result.parentId });
+        } else if (result.parentId && result.parentType === 'worker') {
+          navigation.navigate('WorkerDetail', { workerId: result.parentId });
+        } else if (result.propertyId) {
+          navigation.navigate(result.type === 'note' ? 'Notes' : 'Documents', { propertyId });
+        }
+        break;
+      case 'paint_code':
+        navigation.navigate('PaintCodes', { propertyId });
+        break;
+      case 'storage_box':
+        navigation.navigate('StorageBoxes', { propertyId });
+        break;
+    }
   };
 
-  const navigateToExpense = (expense: Expense) => {
-    navigation.navigate('ExpenseDetail', { expenseId: expense.id });
-  };
+  const renderSnippet = (snippet: SearchSnippet) =>
+    snippet.map((part, index) => (
+      <Text
+        key={index}
+        className={part.match ? `font-semibold ${isDark ? 'text-white bg-primary-900' : 'text-slate-900 bg-primary-100'}` : undefined}
+      >
+        {part.text}
+      </Text>
+    ));
 
-  const navigateToWorker = (worker: Worker) => {
-    navigation.navigate('WorkerDetail', { workerId: worker.id });
-  };
-
-  const totalResults =
-    (category === 'all' || category === 'properties' ? results.properties.length : 0) +
-    (category === 'all' || category === 'rooms' ? results.rooms.length : 0) +
-    (category === 'all' || category === 'assets' ? results.assets.length : 0) +
-    (category === 'all' || category === 'expenses' ? results.expenses.length : 0) +
-    (category === 'all' || category === 'workers' ? results.workers.length : 0);
+  const showExpenseFilters = category === 'expenses' || category === 'all';
 
   return (
     <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
@@ -333,7 +307,7 @@ export function SearchScreen() {
         </ScrollView>
 
         {/* Expense Filters Toggle */}
-        {(category === 'expenses' || category === 'all') && (
+        {showExpenseFilters && (
           <TouchableOpacity
             onPress={() => setShowFilters(!showFilters)}
             className={`flex-row items-center mt-3 px-3 py-2 rounded-lg ${isDark ? 'bg-slate-800' : 'bg-white'} border ${isDark ? 'border-slate-700' : 'border-slate-200'}`}
@@ -341,7 +315,7 @@ export function SearchScreen() {
           >
             <Filter size={16} color={isDark ? COLORS.slate[400] : COLORS.slate[500]} />
             <Text className={`text-sm font-medium ml-2 flex-1 ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
-              Expense Filters
+              {t('search.expenseFilters')}
             </Text>
             <ChevronDown
               size={16}
@@ -352,7 +326,7 @@ export function SearchScreen() {
         )}
 
         {/* Expense Filter Options */}
-        {showFilters && (category === 'expenses' || category === 'all') && (
+        {showFilters && showExpenseFilters && (
           <View className={`mt-2 p-3 rounded-lg ${isDark ? 'bg-slate-800' : 'bg-white'} border ${isDark ? 'border-slate-700' : 'border-slate-200'}`}>
             {/* Date Filter */}
             <View className="mb-3">
@@ -503,7 +477,7 @@ export function SearchScreen() {
         )}
 
         {/* No Results */}
-        {hasSearched && totalResults === 0 && !loading && !searchError && (
+        {hasSearched && results.length === 0 && !loading && !searchError && (
           <View className="px-5 mt-6">
             <Card variant="filled" padding="lg">
               <View className="items-center py-6">
@@ -520,201 +494,74 @@ export function SearchScreen() {
         )}
 
         {/* Results */}
-        {!loading && (
-          <View className="px-5 mt-4 gap-4 pb-8">
-            {/* Properties */}
-            {(category === 'all' || category === 'properties') && results.properties.length > 0 && (
-              <View>
-                <Text className={`text-sm font-semibold uppercase tracking-wide mb-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
-                  Properties ({results.properties.length})
-                </Text>
-                <View className="gap-2">
-                  {results.properties.map((property) => (
-                    <TouchableOpacity
-                      key={property.id}
-                      onPress={() => navigateToProperty(property)}
-                      activeOpacity={0.7}
-                    >
-                      <Card variant="default" padding="md">
-                        <View className="flex-row items-center">
-                          <View className="w-10 h-10 rounded-xl bg-green-100 items-center justify-center">
-                            <Home size={20} color={COLORS.success} />
-                          </View>
-                          <View className="flex-1 ml-3">
-                            <Text className="text-base font-semibold text-slate-900">
-                              {property.name}
-                            </Text>
-                            <Text className="text-sm text-slate-500">{property.address}</Text>
-                          </View>
-                          <ArrowRight size={18} color={COLORS.slate[400]} />
+        {!loading && results.length > 0 && (
+          <View className="px-5 mt-4 pb-8">
+            <Text className={`text-sm font-semibold uppercase tracking-wide mb-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              {t('search.resultCount', { count: results.length })}
+            </Text>
+            <View className="gap-2">
+              {results.map((result) => {
+                const config = RESULT_TYPES[result.type];
+                const Icon = config.icon;
+                const details = [t(`search.types.${result.type}`), result.propertyName].filter(Boolean).join(' • ');
+
+                return (
+                  <TouchableOpacity
+                    key={`${result.type}-${result.id}`}
+                    onPress={() => openResult(result)}
+                    activeOpacity={0.7}
+                  >
+                    <Card variant="default" padding="md">
+                      <View className="flex-row items-center">
+                        <View
+                          className="w-10 h-10 rounded-xl items-center justify-center"
+                          style={{ backgroundColor: `${config.color}15` }}
+                        >
+                          <Icon size={20} color={config.color} />
                         </View>
-                      </Card>
-                    </TouchableOpacity>
-                  ))}
-                </View>
-              </View>
-            )}
-
-            {/* Rooms */}
-            {(category === 'all' || category === 'rooms') && results.rooms.length > 0 && (
-              <View>
-                <Text className={`text-sm font-semibold uppercase tracking-wide mb-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
-                  Rooms ({results.rooms.length})
-                </Text>
-                <View className="gap-2">
-                  {results.rooms.map((room) => {
-                    const roomConfig = ROOM_TYPES[room.type];
-                    return (
-                      <TouchableOpacity
-                        key={room.id}
-                        onPress={() => navigateToRoom(room)}
-                        activeOpacity={0.7}
-                      >
-                        <Card variant="default" padding="md">
-                          <View className="flex-row items-center">
-                            <View
-                              className="w-10 h-10 rounded-xl items-center justify-center"
-                              style={{ backgroundColor: `${roomConfig.color}15` }}
+                        <View className="flex-1 ml-3">
+                          {result.title.length > 0 && (
+                            <Text
+                              className={`text-base font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}
+                              numberOfLines={1}
                             >
-                              <DoorOpen size={20} color={roomConfig.color} />
-                            </View>
-                            <View className="flex-1 ml-3">
-                              <Text className="text-base font-semibold text-slate-900">
-                                {room.name}
-                              </Text>
-                              <Text className="text-sm text-slate-500">{room.propertyName}</Text>
-                            </View>
-                            <ArrowRight size={18} color={COLORS.slate[400]} />
-                          </View>
-                        </Card>
-                      </TouchableOpacity>
-                    );
-                  })}
-                </View>
-              </View>
-            )}
-
-            {/* Assets */}
-            {(category === 'all' || category === 'assets') && results.assets.length > 0 && (
-              <View>
-                <Text className={`text-sm font-semibold uppercase tracking-wide mb-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
-                  Assets ({results.assets.length})
-                </Text>
-                <View className="gap-2">
-                  {results.assets.map((asset) => {
-                    const categoryConfig = ASSET_CATEGORIES[asset.category];
-                    return (
-                      <TouchableOpacity
-                        key={asset.id}
-                        onPress={() => navigateToAsset(asset)}
-                        activeOpacity={0.7}
-                      >
-                        <Card variant="default" padding="md">
-                          <View className="flex-row items-center">
-                            <View
-                              className="w-10 h-10 rounded-xl items-center justify-center"
-                              style={{ backgroundColor: `${categoryConfig.color}15` }}
+                              {renderSnippet(result.title)}
+                            </Text>
+                          )}
+                          {result.snippet.length > 0 && (
+                            <Text
+                              className={`text-sm ${isDark ? 'text-slate-300' : 'text-slate-600'}`}
+                              numberOfLines={2}
                             >
-                              <Package size={20} color={categoryConfig.color} />
-                            </View>
-                            <View className="flex-1 ml-3">
-                              <Text className="text-base font-semibold text-slate-900">
-                                {asset.name}
+                              {renderSnippet(result.snippet)}
+                            </Text>
+                          )}
+                          <View className="flex-row items-center gap-2 mt-0.5">
+                            {result.amount !== undefined && (
+                              <Text className="text-sm font-bold text-primary-600">
+                                {formatCurrency(result.amount, result.currency)}
                               </Text>
-                              <Text className="text-sm text-slate-500">
-                                {asset.brand} {asset.model ? `• ${asset.model}` : ''}
+                            )}
+                            {result.date && (
+                              <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                                {formatDate(result.date, 'MMM d, yyyy')}
                               </Text>
-                            </View>
-                            <ArrowRight size={18} color={COLORS.slate[400]} />
-                          </View>
-                        </Card>
-                      </TouchableOpacity>
-                    );
-                  })}
-                </View>
-              </View>
-            )}
-
-            {/* Expenses */}
-            {(category === 'all' || category === 'expenses') && results.expenses.length > 0 && (
-              <View>
-                <Text className={`text-sm font-semibold uppercase tracking-wide mb-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
-                  Expenses ({results.expenses.length})
-                </Text>
-                <View className="gap-2">
-                  {results.expenses.map((expense) => {
-                    const typeConfig = EXPENSE_TYPES[expense.type];
-                    return (
-                      <TouchableOpacity
-                        key={expense.id}
-                        onPress={() => navigateToExpense(expense)}
-                        activeOpacity={0.7}
-                      >
-                        <Card variant="default" padding="md">
-                          <View className="flex-row items-center">
-                            <View
-                              className="w-10 h-10 rounded-xl items-center justify-center"
-                              style={{ backgroundColor: `${typeConfig.color}15` }}
+                            )}
+                            <Text
+                              className={`text-xs flex-1 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}
+                              numberOfLines={1}
                             >
-                              <Receipt size={20} color={typeConfig.color} />
-                            </View>
-                            <View className="flex-1 ml-3">
-                              <Text className="text-base font-semibold text-slate-900">
-                                {expense.description}
-                              </Text>
-                              <View className="flex-row items-center gap-2">
-                                <Text className="text-sm font-bold text-primary-600">
-                                  {formatCurrency(expense.amount)}
-                                </Text>
-                                <Text className="text-sm text-slate-500">
-                                  {formatDate(expense.date, 'MMM d, yyyy')}
-                                </Text>
-                              </View>
-                            </View>
-                            <ArrowRight size={18} color={COLORS.slate[400]} />
-                          </View>
-                        </Card>
-                      </TouchableOpacity>
-                    );
-                  })}
-                </View>
-              </View>
-            )}
-
-            {/* Workers */}
-            {(category === 'all' || category === 'workers') && results.workers.length > 0 && (
-              <View>
-                <Text className={`text-sm font-semibold uppercase tracking-wide mb-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
-                  Workers ({results.workers.length})
-                </Text>
-                <View className="gap-2">
-                  {results.workers.map((worker) => (
-                    <TouchableOpacity
-                      key={worker.id}
-                      onPress={() => navigateToWorker(worker)}
-                      activeOpacity={0.7}
-                    >
-                      <Card variant="default" padding="md">
-                        <View className="flex-row items-center">
-                          <View className="w-10 h-10 rounded-xl bg-pink-100 items-center justify-center">
-                            <HardHat size={20} color="#ec4899" />
-                          </View>
-                          <View className="flex-1 ml-3">
-                            <Text className="text-base font-semibold text-slate-900">
-                              {worker.name}
-                            </Text>
-                            <Text className="text-sm text-slate-500">
-                              {worker.specialty.slice(0, 2).join(', ')}
+                              {details}
                             </Text>
                           </View>
-                          <ArrowRight size={18} color={COLORS.slate[400]} />
                         </View>
-                      </Card>
-                    </TouchableOpacity>
-                  ))}
-                </View>
-              </View>
-            )}
+                        <ArrowRight size={18} color={COLORS.slate[400]} />
+                      </View>
+                    </Card>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
           </View>
         )}
       </ScrollView>
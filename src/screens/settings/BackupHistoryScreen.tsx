@@ -0,0 +1,283 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Archive, Clock, Minus, Plus, RotateCcw } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { RootStackParamList } from '../../navigation/types';
+import { AppSettings, AutoBackupFrequency } from '../../types';
+import { settingsRepository } from '../../services/database';
+import { autoBackupService, backupService, BackupSnapshot } from '../../services/backup';
+import { ScreenHeader, Card, ListItem, Divider, SelectDialog } from '../../components/ui';
+import { COLORS, SHADOWS } from '../../constants/theme';
+import { useTheme, useTranslation } from '../../contexts';
+import { formatDateTime, formatRelative } from '../../utils/date';
+import { formatFileSize } from '../../utils/fileSize';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const FREQUENCIES: AutoBackupFrequency[] = ['off', 'daily', 'weekly', 'foreground'];
+
+export function BackupHistoryScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [showFrequencyPicker, setShowFrequencyPicker] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [currentSettings, list] = await Promise.all([
+        settingsRepository.get(),
+        autoBackupService.listSnapshots(),
+      ]);
+      setSettings(currentSettings);
+      setSnapshots(list);
+    } catch (error) {
+      console.error('Failed to load backup history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const updateSettings = async (data: Partial<Omit<AppSettings, 'id' | 'createdAt' | 'updatedAt'>>) => {
+    try {
+      const updated = await settingsRepository.update(data);
+      setSettings(updated);
+      Haptics.selectionAsync().catch(() => {});
+
+      // Shrinking retention takes effect right away
+      if (data.backupKeepDaily !== undefined || data.backupKeepMonthly !== undefined) {
+        await autoBackupService.applyRetention(updated.backupKeepDaily, updated.backupKeepMonthly);
+        setSnapshots(await autoBackupService.listSnapshots());
+      }
+    } catch (error) {
+      Alert.alert(t('common.error'), t('backupHistory.saveError'));
+    }
+  };
+
+  const handleFrequencySelect = async (value: string) => {
+    setShowFrequencyPicker(false);
+    await updateSettings({ autoBackupFrequency: value as AutoBackupFrequency });
+  };
+
+  const handleBackupNow = async () => {
+    setCreating(true);
+    try {
+      await autoBackupService.createSnapshot();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+      await loadData();
+    } catch (error) {
+      console.error('Snapshot failed:', error);
+      Alert.alert(t('common.error'), t('backupHistory.backupError'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: BackupSnapshot) => {
+    const result = await backupService.prepareMerge(undefined, snapshot.uri);
+    if (result.success) {
+      navigation.navigate('MergeImport');
+    } else {
+      Alert.alert(t('settingsScreen.alerts.importFailed'), result.error || t('settingsScreen.alerts.unexpectedError'));
+    }
+  };
+
+  const handleDelete = (snapshot: BackupSnapshot) => {
+    Alert.alert(
+      t('backupHistory.deleteTitle'),
+      t('backupHistory.deleteMessage', { date: formatDateTime(snapshot.createdAt) }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            await autoBackupService.deleteSnapshot(snapshot.fileName);
+            setSnapshots(prev => prev.filter(item => item.fileName !== snapshot.fileName));
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSnapshotPress = (snapshot: BackupSnapshot) => {
+    Alert.alert(
+      formatDateTime(snapshot.createdAt),
+      t('backupHistory.restoreMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.delete'), style: 'destructive', onPress: () => handleDelete(snapshot) },
+        { text: t('backupHistory.restore'), onPress: () => handleRestore(snapshot) },
+      ]
+    );
+  };
+
+  const renderStepper = (label: string, value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <View className="flex-row items-center px-4 py-3">
+      <Text className={`flex-1 text-base ${isDark ? 'text-white' : 'text-slate-900'}`}>{label}</Text>
+      <TouchableOpacity
+        onPress={() => value > min && onChange(value - 1)}
+        className={`w-8 h-8 rounded-lg items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+      >
+        <Minus size={16} color={isDark ? COLORS.slate[300] : COLORS.slate[600]} />
+      </TouchableOpacity>
+      <Text className={`w-10 text-center text-base font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+        {value}
+      </Text>
+      <TouchableOpacity
+        onPress={() => value < max && onChange(value + 1)}
+        className={`w-8 h-8 rounded-lg items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+      >
+        <Plus size={16} color={isDark ? COLORS.slate[300] : COLORS.slate[600]} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderSectionTitle = (title: string) => (
+    <Text className={`px-5 text-xs font-semibold uppercase tracking-wider mb-2 ${isDark ? 'text-slate-500' : 'text-slate-500'}`}>
+      {title}
+    </Text>
+  );
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={t('backupHistory.title')}
+        showBack
+        onBack={() => navigation.goBack()}
+        rightAction={
+          <TouchableOpacity
+            onPress={handleBackupNow}
+            disabled={creating}
+            className="w-10 h-10 rounded-xl bg-primary-500 items-center justify-center"
+          >
+            {creating ? <ActivityIndicator size="small" color="#ffffff" /> : <Archive size={20} color="#ffffff" />}
+          </TouchableOpacity>
+        }
+      />
+
+      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+        {/* Schedule */}
+        {settings && (
+          <View className="mt-4">
+            {renderSectionTitle(t('backupHistory.schedule'))}
+            <View className={isDark ? 'bg-slate-800' : 'bg-white'} style={SHADOWS.sm}>
+              <ListItem
+                title={t('backupHistory.frequency')}
+                subtitle={settings.lastAutoBackupAt
+                  ? t('backupHistory.lastBackup', { time: formatRelative(settings.lastAutoBackupAt) })
+                  : t('backupHistory.neverBackedUp')}
+                leftIcon={
+                  <View className="w-9 h-9 rounded-xl bg-emerald-100 items-center justify-center">
+                    <Clock size={18} color="#059669" />
+                  </View>
+                }
+                rightContent={
+                  <Text className={`text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                    {t(`backupHistory.frequencies.${settings.autoBackupFrequency}`)}
+                  </Text>
+                }
+                showChevron
+                onPress={() => setShowFrequencyPicker(true)}
+              />
+              {settings.autoBackupFrequency === 'foreground' && (
+                <>
+                  <Divider />
+                  {renderStepper(t('backupHistory.intervalDays'), settings.autoBackupIntervalDays, 1, 30,
+                    value => updateSettings({ autoBackupIntervalDays: value }))}
+                </>
+              )}
+            </View>
+
+            <View className="mt-6">
+              {renderSectionTitle(t('backupHistory.retention'))}
+              <View className={isDark ? 'bg-slate-800' : 'bg-white'} style={SHADOWS.sm}>
+                {renderStepper(t('backupHistory.keepDaily'), settings.backupKeepDaily, 1, 30,
+                  value => updateSettings({ backupKeepDaily: value }))}
+                <Divider />
+                {renderStepper(t('backupHistory.keepMonthly'), settings.backupKeepMonthly, 0, 24,
+                  value => updateSettings({ backupKeepMonthly: value }))}
+              </View>
+            </View>
+          </View>
+        )}
+
+        {/* Snapshots */}
+        <View className="mt-6 pb-8">
+          {renderSectionTitle(t('backupHistory.snapshots'))}
+          {snapshots.length === 0 && !loading ? (
+            <View className="items-center py-10 px-8">
+              <View className={`w-16 h-16 rounded-2xl items-center justify-center mb-4 ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}>
+                <Archive size={32} color={isDark ? COLORS.slate[600] : COLORS.slate[400]} />
+              </View>
+              <Text className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                {t('backupHistory.noSnapshots')}
+              </Text>
+              <Text className={`text-sm mt-1 text-center ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                {t('backupHistory.noSnapshotsHint')}
+              </Text>
+            </View>
+          ) : (
+            <View className="gap-2 px-5">
+              {snapshots.map(snapshot => {
+                const { stats, media } = snapshot.manifest;
+                return (
+                  <Card key={snapshot.fileName} variant="default" padding="none">
+                    <TouchableOpacity
+                      onPress={() => handleSnapshotPress(snapshot)}
+                      className="flex-row items-center p-4"
+                      activeOpacity={0.7}
+                    >
+                      <View className="flex-1">
+                        <Text className={`text-base font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                          {formatDateTime(snapshot.createdAt)}
+                        </Text>
+                        <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                          {t('backupHistory.snapshotStats', {
+                            properties: stats.properties ?? 0,
+                            assets: stats.assets ?? 0,
+                            expenses: stats.expenses ?? 0,
+                            workers: stats.workers ?? 0,
+                          })}
+                        </Text>
+                        <Text className={`text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                          {t('backupHistory.snapshotSize', {
+                            size: formatFileSize(snapshot.size),
+                            files: media?.files ?? 0,
+                          })}
+                        </Text>
+                      </View>
+                      <RotateCcw size={18} color={isDark ? COLORS.slate[400] : COLORS.slate[500]} />
+                    </TouchableOpacity>
+                  </Card>
+                );
+              })}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      <SelectDialog
+        visible={showFrequencyPicker}
+        title={t('backupHistory.frequency')}
+        message={t('backupHistory.frequencyHint')}
+        options={FREQUENCIES.map(value => ({ label: t(`backupHistory.frequencies.${value}`), value }))}
+        cancelText={t('common.cancel')}
+        onCancel={() => setShowFrequencyPicker(false)}
+        onSelect={handleFrequencySelect}
+      />
+    </View>
+  );
+}
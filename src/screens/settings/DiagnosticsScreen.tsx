@@ -0,0 +1,167 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, ScrollView, RefreshControl, Alert, ActivityIndicator } from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { RootStackParamList } from '../../navigation/types';
+import { checkIntegrity, repairIntegrityProblem, IntegrityProblem } from '../../services/database';
+import { ScreenHeader, Card, Button } from '../../components/ui';
+import { COLORS } from '../../constants/theme';
+import { useTheme, useTranslation } from '../../contexts';
+import { formatDateTime, getCurrentISODate } from '../../utils/date';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export function DiagnosticsScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  const [problems, setProblems] = useState<IntegrityProblem[]>([]);
+  const [checkedAt, setCheckedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [fixingId, setFixingId] = useState<string | null>(null);
+
+  const runCheck = useCallback(async () => {
+    try {
+      setProblems(await checkIntegrity());
+      setCheckedAt(getCurrentISODate());
+    } catch (error) {
+      console.error('Integrity check failed:', error);
+      Alert.alert(t('common.error'), t('diagnostics.checkError'));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [t]);
+
+  useFocusEffect(
+    useCallback(() => {
+      runCheck();
+    }, [runCheck])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    runCheck();
+  };
+
+  const tableName = (table?: string) => (table ? t(`trash.tables.${table}`, { defaultValue: table }) : '');
+  const columnName = (column?: string) => (column ? t(`changeLog.fields.${column}`, { defaultValue: column }) : '');
+
+  const describe = (problem: IntegrityProblem) => {
+    const options = {
+      count: problem.count,
+      table: tableName(problem.table),
+      column: columnName(problem.column),
+      parent: tableName(problem.parent),
+    };
+    return {
+      title: t(`diagnostics.kinds.${problem.kind}.title`, options),
+      message: t(`diagnostics.kinds.${problem.kind}.message`, options),
+    };
+  };
+
+  const applyFix = async (problem: IntegrityProblem) => {
+    setFixingId(problem.id);
+    try {
+      await repairIntegrityProblem(problem);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+      await runCheck();
+    } catch (error) {
+      console.error('Repair failed:', error);
+      Alert.alert(t('common.error'), t('diagnostics.fixError'));
+    } finally {
+      setFixingId(null);
+    }
+  };
+
+  const handleFix = (problem: IntegrityProblem) => {
+    if (problem.fix !== 'deleteRows') {
+      applyFix(problem);
+      return;
+    }
+    Alert.alert(
+      t('diagnostics.fixes.deleteRows'),
+      t('diagnostics.deleteRowsMessage', { count: problem.count, table: tableName(problem.table) }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.delete'), style: 'destructive', onPress: () => applyFix(problem) },
+      ]
+    );
+  };
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader title={t('diagnostics.title')} showBack onBack={() => navigation.goBack()} />
+
+      <ScrollView
+        className="flex-1"
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {loading ? (
+          <View className="items-center py-16">
+            <ActivityIndicator color={COLORS.primary[600]} />
+            <Text className={`text-sm mt-3 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('diagnostics.checking')}</Text>
+          </View>
+        ) : problems.length === 0 ? (
+          <View className="items-center py-10 px-8">
+            <View className={`w-16 h-16 rounded-2xl items-center justify-center mb-4 ${isDark ? 'bg-green-900/40' : 'bg-green-100'}`}>
+              <CheckCircle2 size={32} color={COLORS.success} />
+            </View>
+            <Text className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+              {t('diagnostics.noProblems')}
+            </Text>
+            <Text className={`text-sm mt-1 text-center ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              {t('diagnostics.noProblemsHint')}
+            </Text>
+          </View>
+        ) : (
+          <View className="gap-3 px-5 mt-4">
+            {problems.map(problem => {
+              const { title, message } = describe(problem);
+              return (
+                <Card key={problem.id} variant="default" padding="md">
+                  <View className="flex-row items-start">
+                    <View className={`w-9 h-9 rounded-xl items-center justify-center ${isDark ? 'bg-amber-900/40' : 'bg-amber-100'}`}>
+                      <AlertTriangle size={18} color={COLORS.warning} />
+                    </View>
+                    <View className="flex-1 ml-3">
+                      <Text className={`text-base font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>{title}</Text>
+                      <Text className={`text-sm mt-1 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{message}</Text>
+                      {problem.details.length > 0 && (
+                        <Text className={`text-xs mt-2 ${isDark ? 'text-slate-500' : 'text-slate-400'}`} numberOfLines={3}>
+                          {problem.details.join(', ')}
+                          {problem.count > problem.details.length ? ` ${t('diagnostics.andMore', { count: problem.count - problem.details.length })}` : ''}
+                        </Text>
+                      )}
+                      <View className="flex-row mt-3">
+                        <Button
+                          title={t(`diagnostics.fixes.${problem.fix}`)}
+                          variant={problem.fix === 'deleteRows' ? 'danger' : 'primary'}
+                          size="sm"
+                          loading={fixingId === problem.id}
+                          disabled={fixingId !== null}
+                          onPress={() => handleFix(problem)}
+                        />
+                      </View>
+                    </View>
+                  </View>
+                </Card>
+              );
+            })}
+          </View>
+        )}
+
+        {checkedAt && !loading && (
+          <Text className={`text-xs text-center py-6 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+            {t('diagnostics.checkedAt', { time: formatDateTime(checkedAt) })}
+          </Text>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
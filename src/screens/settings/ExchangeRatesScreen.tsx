@@ -0,0 +1,379 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Plus, Trash2, Edit3, X, ArrowLeftRight, Calendar, FileUp } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Haptics from 'expo-haptics';
+import { File } from 'expo-file-system';
+import { format, parseISO } from 'date-fns';
+import { RootStackParamList } from '../../navigation/types';
+import { ExchangeRate } from '../../types';
+import { exchangeRateRepository } from '../../services/database';
+import { parseExchangeRates } from '../../services/import';
+import { useQuery } from '../../hooks';
+import { ScreenHeader, Card, DatePickerModal } from '../../components/ui';
+import { CurrencySelect } from '../../components/CurrencySelect';
+import { COLORS } from '../../constants/theme';
+import { CURRENCY_OPTIONS, useTheme, useTranslation } from '../../contexts';
+import { getReportingCurrency } from '../../utils/currency';
+import { formatDate } from '../../utils/date';
+import { describeSaveError } from '../../utils/validation';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+function formatRate(rate: number): string {
+  return rate.toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
+
+export function ExchangeRatesScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  const reportingCurrency = getReportingCurrency();
+
+  // Modal states
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingRate, setEditingRate] = useState<ExchangeRate | null>(null);
+  const [fromCurrency, setFromCurrency] = useState('');
+  const [toCurrency, setToCurrency] = useState(reportingCurrency);
+  const [rateText, setRateText] = useState('');
+  const [date, setDate] = useState(new Date());
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [tempDate, setTempDate] = useState(new Date());
+
+  const { data: rates = [], loading, refreshing, refresh } = useQuery(
+    () => exchangeRateRepository.getAll(),
+    ['exchange_rates']
+  );
+
+  const openAddModal = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditingRate(null);
+    setFromCurrency(CURRENCY_OPTIONS.find(option => option.value !== reportingCurrency)?.value ?? '');
+    setToCurrency(reportingCurrency);
+    setRateText('');
+    setDate(new Date());
+    setModalVisible(true);
+  };
+
+  const openEditModal = async (rate: ExchangeRate) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditingRate(rate);
+    setFromCurrency(rate.fromCurrency);
+    setToCurrency(rate.toCurrency);
+    setRateText(String(rate.rate));
+    setDate(parseISO(rate.date));
+    setModalVisible(true);
+  };
+
+  const handleSave = async () => {
+    const rate = parseFloat(rateText.trim().replace(',', '.'));
+    if (fromCurrency === toCurrency) {
+      Alert.alert(t('common.error'), t('exchangeRates.sameCurrency'));
+      return;
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      Alert.alert(t('common.error'), t('exchangeRates.invalidRate'));
+      return;
+    }
+
+    try {
+      const data = { fromCurrency, toCurrency, rate, date: format(date, 'yyyy-MM-dd') };
+      if (editingRate) {
+        await exchangeRateRepository.update(editingRate.id, data);
+      } else {
+        await exchangeRateRepository.save(data);
+      }
+      setModalVisible(false);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Failed to save exchange rate:', error);
+      Alert.alert(t('common.error'), describeSaveError(error, t('exchangeRates.saveError'), t));
+    }
+  };
+
+  const handleDelete = (rate: ExchangeRate) => {
+    Alert.alert(
+      t('exchangeRates.deleteRate'),
+      t('exchangeRates.deleteConfirm', {
+        from: rate.fromCurrency,
+        to: rate.toCurrency,
+        date: formatDate(rate.date),
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await exchangeRateRepository.delete(rate.id);
+              await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            } catch (error) {
+              console.error('Failed to delete exchange rate:', error);
+              Alert.alert(t('common.error'), t('exchangeRates.deleteError'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleImport = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/*', 'application/*', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      const content = await new File(result.assets[0].uri).text();
+      const parsed = parseExchangeRates(content);
+      if (parsed.rates.length === 0) {
+        Alert.alert(t('exchangeRates.importTitle'), t('exchangeRates.importEmpty'));
+        return;
+      }
+
+      const message = [
+        t('exchangeRates.importConfirm', { count: parsed.rates.length }),
+        parsed.skippedRows > 0 ? t('exchangeRates.importSkipped', { count: parsed.skippedRows }) : '',
+      ].filter(Boolean).join('\n\n');
+
+      Alert.alert(t('exchangeRates.importTitle'), message, [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('exchangeRates.import'),
+          onPress: async () => {
+            try {
+              const count = await exchangeRateRepository.saveMany(parsed.rates);
+              await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+              Alert.alert(t('exchangeRates.importTitle'), t('exchangeRates.importSuccess', { count }));
+            } catch (error) {
+              console.error('Failed to import exchange rates:', error);
+              Alert.alert(t('common.error'), describeSaveError(error, t('exchangeRates.importFailed'), t));
+            }
+          },
+        },
+      ]);
+    } catch (error) {
+      console.error('Failed to read exchange rates:', error);
+      Alert.alert(t('exchangeRates.importTitle'), t('exchangeRates.importFailed'));
+    }
+  };
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={t('exchangeRates.title')}
+        showBack
+        onBack={() => navigation.goBack()}
+        rightAction={
+          <View className="flex-row gap-2">
+            <TouchableOpacity
+              onPress={handleImport}
+              className={`w-10 h-10 rounded-xl items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+            >
+              <FileUp size={20} color={isDark ? COLORS.slate[300] : COLORS.slate[600]} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={openAddModal}
+              className="w-10 h-10 rounded-xl bg-primary-500 items-center justify-center"
+            >
+              <Plus size={20} color="#ffffff" />
+            </TouchableOpacity>
+          </View>
+        }
+      />
+
+      <ScrollView
+        className="flex-1 px-5 pt-4"
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refresh}
+            tintColor={COLORS.primary[600]}
+          />
+        }
+      >
+        <Text className={`text-sm mb-4 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+          {t('exchangeRates.description', { currency: reportingCurrency })}
+        </Text>
+
+        {rates.length === 0 && !loading ? (
+          <View className="items-center py-12 px-6">
+            <View className={`w-16 h-16 rounded-2xl items-center justify-center mb-4 ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}>
+              <ArrowLeftRight size={32} color={isDark ? COLORS.slate[600] : COLORS.slate[400]} />
+            </View>
+            <Text className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+              {t('exchangeRates.noRates')}
+            </Text>
+            <Text className={`text-sm mt-1 text-center ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              {t('exchangeRates.addFirstRate')}
+            </Text>
+          </View>
+        ) : (
+          <View className="gap-2 pb-6">
+            {rates.map((rate) => (
+              <Card key={rate.id} variant="default" padding="none">
+                <TouchableOpacity
+                  onPress={() => openEditModal(rate)}
+                  onLongPress={() => handleDelete(rate)}
+                  className="flex-row items-center p-4"
+                  activeOpacity={0.7}
+                >
+                  <View className="flex-1">
+                    <Text className={`text-base font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                      {t('exchangeRates.rateLine', {
+                        from: rate.fromCurrency,
+                        rate: formatRate(rate.rate),
+                        to: rate.toCurrency,
+                      })}
+                    </Text>
+                    <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                      {formatDate(rate.date)}
+                    </Text>
+                  </View>
+                  <View className="flex-row gap-2">
+                    <TouchableOpacity
+                      onPress={() => openEditModal(rate)}
+                      className={`w-8 h-8 rounded-lg items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+                    >
+                      <Edit3 size={16} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleDelete(rate)}
+                      className="w-8 h-8 rounded-lg items-center justify-center bg-red-100"
+                    >
+                      <Trash2 size={16} color={COLORS.error} />
+                    </TouchableOpacity>
+                  </View>
+                </TouchableOpacity>
+              </Card>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Add/Edit Modal */}
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View className="flex-1 justify-end">
+          <TouchableOpacity
+            className="flex-1"
+            activeOpacity={1}
+            onPress={() => setModalVisible(false)}
+          />
+          <View className={`rounded-t-3xl px-5 pt-6 pb-10 ${isDark ? 'bg-slate-800' : 'bg-white'}`}>
+            {/* Modal Header */}
+            <View className="flex-row items-center justify-between mb-6">
+              <Text className={`text-xl font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                {editingRate ? t('exchangeRates.editRate') : t('exchangeRates.addRate')}
+              </Text>
+              <TouchableOpacity onPress={() => setModalVisible(false)}>
+                <X size={24} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+              </TouchableOpacity>
+            </View>
+
+            {/* Pair */}
+            <View className="flex-row items-center justify-between mb-5">
+              <View className="items-center">
+                <Text className={`text-xs mb-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('exchangeRates.from')}</Text>
+                <CurrencySelect value={fromCurrency} onChange={setFromCurrency} />
+              </View>
+              <ArrowLeftRight size={20} color={isDark ? COLORS.slate[500] : COLORS.slate[400]} />
+              <View className="items-center">
+                <Text className={`text-xs mb-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('exchangeRates.to')}</Text>
+                <CurrencySelect value={toCurrency} onChange={setToCurrency} />
+              </View>
+            </View>
+
+            {/* Rate */}
+            <View className="mb-5">
+              <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                {t('exchangeRates.rateFor', { from: fromCurrency, to: toCurrency })}
+              </Text>
+              <TextInput
+                value={rateText}
+                onChangeText={setRateText}
+                placeholder="0.00"
+                keyboardType="decimal-pad"
+                placeholderTextColor={isDark ? COLORS.slate[500] : COLORS.slate[400]}
+                className={`px-4 py-3 rounded-xl border ${isDark ? 'bg-slate-700 border-slate-600 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+              />
+            </View>
+
+            {/* Date */}
+            <View className="mb-5">
+              <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                {t('exchangeRates.date')}
+              </Text>
+              <TouchableOpacity
+                onPress={() => {
+                  setTempDate(date);
+                  setShowDatePicker(true);
+                }}
+                activeOpacity={0.7}
+                className={`flex-row items-center px-4 py-3 rounded-xl border ${isDark ? 'bg-slate-700 border-slate-600' : 'bg-slate-50 border-slate-200'}`}
+              >
+                <Calendar size={16} color={COLORS.slate[400]} />
+                <Text className={`text-base ml-2 ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                  {formatDate(format(date, 'yyyy-MM-dd'))}
+                </Text>
+              </TouchableOpacity>
+              <Text className={`text-xs mt-1.5 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                {t('exchangeRates.dateHint')}
+              </Text>
+            </View>
+
+            {/* Action Buttons */}
+            <View className="flex-row gap-3">
+              <TouchableOpacity
+                onPress={() => setModalVisible(false)}
+                className={`flex-1 py-3.5 rounded-xl ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+              >
+                <Text className={`text-center font-semibold ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                  {t('common.cancel')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleSave}
+                className="flex-1 py-3.5 rounded-xl bg-primary-500"
+              >
+                <Text className="text-center font-semibold text-white">
+                  {t('common.save')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+
+        <DatePickerModal
+          visible={showDatePicker}
+          value={tempDate}
+          title={t('exchangeRates.date')}
+          onChange={setTempDate}
+          onClose={() => setShowDatePicker(false)}
+          onConfirm={() => {
+            setDate(tempDate);
+            setShowDatePicker(false);
+          }}
+        />
+      </Modal>
+    </View>
+  );
+}
@@ -0,0 +1,380 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import {
+  Plus,
+  Trash2,
+  Edit3,
+  X,
+  Home,
+  DoorOpen,
+  Package,
+  Receipt,
+  Users,
+  SlidersHorizontal,
+} from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { RootStackParamList } from '../../navigation/types';
+import { CustomFieldDefinition, CustomFieldEntityType, CustomFieldType } from '../../types';
+import { customFieldRepository } from '../../services/database';
+import { useQuery } from '../../hooks';
+import { ScreenHeader, Card } from '../../components/ui';
+import { COLORS } from '../../constants/theme';
+import { useTheme, useTranslation } from '../../contexts';
+import { describeSaveError } from '../../utils/validation';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const TABS: { key: CustomFieldEntityType; icon: React.ReactNode }[] = [
+  { key: 'property', icon: <Home size={18} /> },
+  { key: 'room', icon: <DoorOpen size={18} /> },
+  { key: 'asset', icon: <Package size={18} /> },
+  { key: 'expense', icon: <Receipt size={18} /> },
+  { key: 'worker', icon: <Users size={18} /> },
+];
+
+const FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select', 'boolean'];
+
+export function ManageCustomFieldsScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  const [activeTab, setActiveTab] = useState<CustomFieldEntityType>('property');
+
+  // Modal states
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingField, setEditingField] = useState<CustomFieldDefinition | null>(null);
+  const [fieldName, setFieldName] = useState('');
+  const [fieldType, setFieldType] = useState<CustomFieldType>('text');
+  const [fieldOptions, setFieldOptions] = useState('');
+
+  const { data: fields = [], loading, refreshing, refresh } = useQuery(
+    () => customFieldRepository.getByEntityType(activeTab),
+    ['custom_field_definitions'],
+    [activeTab]
+  );
+
+  const openAddModal = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditingField(null);
+    setFieldName('');
+    setFieldType('text');
+    setFieldOptions('');
+    setModalVisible(true);
+  };
+
+  const openEditModal = async (field: CustomFieldDefinition) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditingField(field);
+    setFieldName(field.name);
+    setFieldType(field.fieldType);
+    setFieldOptions(field.options.join('\n'));
+    setModalVisible(true);
+  };
+
+  const handleSave = async () => {
+    const name = fieldName.trim();
+    const options = fieldOptions.split('\n').map(option => option.trim()).filter(Boolean);
+    if (!name) {
+      Alert.alert(t('common.error'), t('customFields.nameRequired'));
+      return;
+    }
+    if (fieldType === 'select' && options.length === 0) {
+      Alert.alert(t('common.error'), t('customFields.optionsRequired'));
+      return;
+    }
+
+    try {
+      if (await customFieldRepository.isNameTaken(activeTab, name, editingField?.id)) {
+        Alert.alert(t('common.error'), t('customFields.nameTaken', { name }));
+        return;
+      }
+      if (editingField) {
+        await customFieldRepository.update(editingField.id, {
+          name,
+          ...(editingField.fieldType === 'select' && { options }),
+        });
+      } else {
+        await customFieldRepository.create({ entityType: activeTab, name, fieldType, options });
+      }
+      setModalVisible(false);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Failed to save custom field:', error);
+      Alert.alert(t('common.error'), describeSaveError(error, t('customFields.saveError'), t));
+    }
+  };
+
+  const handleDelete = async (field: CustomFieldDefinition) => {
+    const count = await customFieldRepository.getValueCount(field.id);
+    Alert.alert(
+      t('customFields.deleteField'),
+      count > 0
+        ? t('customFields.deleteConfirmWithValues', { name: field.name, count })
+        : t('customFields.deleteConfirm', { name: field.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await customFieldRepository.delete(field.id);
+              await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            } catch (error) {
+              console.error('Failed to delete custom field:', error);
+              Alert.alert(t('common.error'), t('customFields.deleteError'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const describeField = (field: CustomFieldDefinition) => {
+    const type = t(`customFields.types.${field.fieldType}`);
+    return field.fieldType === 'select' ? `${type} · ${field.options.join(', ')}` : type;
+  };
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={t('customFields.manageTitle')}
+        showBack
+        onBack={() => navigation.goBack()}
+        rightAction={
+          <TouchableOpacity
+            onPress={openAddModal}
+            className="w-10 h-10 rounded-xl bg-primary-500 items-center justify-center"
+          >
+            <Plus size={20} color="#ffffff" />
+          </TouchableOpacity>
+        }
+      />
+
+      {/* Tabs */}
+      <View className={`border-b ${isDark ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingHorizontal: 20, paddingVertical: 12 }}>
+          {TABS.map((tab) => {
+            const isActive = activeTab === tab.key;
+            return (
+              <TouchableOpacity
+                key={tab.key}
+                onPress={() => setActiveTab(tab.key)}
+                className={`flex-row items-center justify-center px-3.5 py-2 rounded-lg mr-2 ${
+                  isActive
+                    ? 'bg-primary-500'
+                    : isDark ? 'bg-slate-700' : 'bg-slate-100'
+                }`}
+              >
+                {React.cloneElement(tab.icon as React.ReactElement<{ color: string }>, {
+                  color: isActive ? '#ffffff' : isDark ? COLORS.slate[400] : COLORS.slate[600],
+                })}
+                <Text
+                  className={`ml-1.5 text-xs font-medium ${
+                    isActive ? 'text-white' : isDark ? 'text-slate-400' : 'text-slate-600'
+                  }`}
+                >
+                  {t(`customFields.entityTypes.${tab.key}`)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+
+      <ScrollView
+        className="flex-1 px-5 pt-4"
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refresh}
+            tintColor={COLORS.primary[600]}
+          />
+        }
+      >
+        {fields.length === 0 && !loading ? (
+          <View className="items-center py-12 px-6">
+            <View className={`w-16 h-16 rounded-2xl items-center justify-center mb-4 ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}>
+              <SlidersHorizontal size={32} color={isDark ? COLORS.slate[600] : COLORS.slate[400]} />
+            </View>
+            <Text className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+              {t('customFields.noFields')}
+            </Text>
+            <Text className={`text-sm mt-1 text-center ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              {t('customFields.addFirstField')}
+            </Text>
+          </View>
+        ) : (
+          <View className="gap-2 pb-6">
+            {fields.map((field) => (
+              <Card key={field.id} variant="default" padding="none">
+                <TouchableOpacity
+                  onPress={() => openEditModal(field)}
+                  onLongPress={() => handleDelete(field)}
+                  className="flex-row items-center p-4"
+                  activeOpacity={0.7}
+                >
+                  <View className="flex-1">
+                    <Text className={`text-base font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                      {field.name}
+                    </Text>
+                    <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-500' : 'text-slate-400'}`} numberOfLines={1}>
+                      {describeField(field)}
+                    </Text>
+                  </View>
+                  <View className="flex-row gap-2">
+                    <TouchableOpacity
+                      onPress={() => openEditModal(field)}
+                      className={`w-8 h-8 rounded-lg items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+                    >
+                      <Edit3 size={16} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleDelete(field)}
+                      className="w-8 h-8 rounded-lg items-center justify-center bg-red-100"
+                    >
+                      <Trash2 size={16} color={COLORS.error} />
+                    </TouchableOpacity>
+                  </View>
+                </TouchableOpacity>
+              </Card>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Add/Edit Modal */}
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View className="flex-1 justify-end">
+          <TouchableOpacity
+            className="flex-1"
+            activeOpacity={1}
+            onPress={() => setModalVisible(false)}
+          />
+          <View className={`rounded-t-3xl px-5 pt-6 pb-10 ${isDark ? 'bg-slate-800' : 'bg-white'}`}>
+            {/* Modal Header */}
+            <View className="flex-row items-center justify-between mb-6">
+              <Text className={`text-xl font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                {editingField ? t('customFields.editField') : t('customFields.addField')}
+              </Text>
+              <TouchableOpacity onPress={() => setModalVisible(false)}>
+                <X size={24} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+              </TouchableOpacity>
+            </View>
+
+            {/* Field Name */}
+            <View className="mb-5">
+              <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                {t('customFields.fieldName')}
+              </Text>
+              <TextInput
+                value={fieldName}
+                onChangeText={setFieldName}
+                placeholder={t('customFields.namePlaceholder')}
+                placeholderTextColor={isDark ? COLORS.slate[500] : COLORS.slate[400]}
+                className={`px-4 py-3 rounded-xl border ${isDark ? 'bg-slate-700 border-slate-600 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+              />
+            </View>
+
+            {/* Field Type, fixed once values may have been entered */}
+            <View className="mb-5">
+              <Text className={`text-sm font-medium mb-3 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                {t('customFields.fieldType')}
+              </Text>
+              {editingField ? (
+                <Text className={`text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                  {t(`customFields.types.${editingField.fieldType}`)} · {t('customFields.typeFixed')}
+                </Text>
+              ) : (
+                <View className="flex-row flex-wrap gap-2">
+                  {FIELD_TYPES.map((type) => {
+                    const isSelected = fieldType === type;
+                    return (
+                      <TouchableOpacity
+                        key={type}
+                        onPress={() => setFieldType(type)}
+                        className={`px-4 py-2 rounded-xl border-2 ${
+                          isSelected
+                            ? 'border-primary-500 bg-primary-50'
+                            : isDark ? 'border-slate-600 bg-slate-700' : 'border-slate-200 bg-slate-50'
+                        }`}
+                      >
+                        <Text
+                          className={`text-sm font-medium ${
+                            isSelected ? 'text-primary-700' : isDark ? 'text-slate-300' : 'text-slate-700'
+                          }`}
+                        >
+                          {t(`customFields.types.${type}`)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+
+            {/* Options of a select field */}
+            {fieldType === 'select' && (
+              <View className="mb-5">
+                <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                  {t('customFields.options')}
+                </Text>
+                <TextInput
+                  value={fieldOptions}
+                  onChangeText={setFieldOptions}
+                  placeholder={t('customFields.optionsPlaceholder')}
+                  placeholderTextColor={isDark ? COLORS.slate[500] : COLORS.slate[400]}
+                  multiline
+                  textAlignVertical="top"
+                  style={{ minHeight: 96 }}
+                  className={`px-4 py-3 rounded-xl border ${isDark ? 'bg-slate-700 border-slate-600 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+                />
+                <Text className={`text-xs mt-1.5 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                  {t('customFields.optionsHint')}
+                </Text>
+              </View>
+            )}
+
+            {/* Action Buttons */}
+            <View className="flex-row gap-3">
+              <TouchableOpacity
+                onPress={() => setModalVisible(false)}
+                className={`flex-1 py-3.5 rounded-xl ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+              >
+                <Text className={`text-center font-semibold ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                  {t('common.cancel')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleSave}
+                className="flex-1 py-3.5 rounded-xl bg-primary-500"
+              >
+                <Text className="text-center font-semibold text-white">
+                  {t('common.save')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
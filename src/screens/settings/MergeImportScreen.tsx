@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Plus, RefreshCw, AlertTriangle } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { RootStackParamList } from '../../navigation/types';
+import { backupService, MergeItem, MergeResolution, MergeStrategy, resolveMergeItem } from '../../services/backup';
+import { ScreenHeader, Card } from '../../components/ui';
+import { COLORS } from '../../constants/theme';
+import { useTheme, useTranslation } from '../../contexts';
+import { formatDate } from '../../utils/date';
+import { formatRejectedRecords } from '../../utils/validation';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const STRATEGIES: MergeStrategy[] = ['newer', 'local', 'incoming'];
+
+export function MergeImportScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  // The plan is prepared by the settings screen before navigating here
+  const [plan] = useState(() => backupService.getPendingMerge());
+  const [strategy, setStrategy] = useState<MergeStrategy>('newer');
+  const [overrides, setOverrides] = useState<Record<string, MergeResolution>>({});
+  const [applying, setApplying] = useState(false);
+
+  // Leaving without applying discards the loaded backup
+  useEffect(() => {
+    return () => backupService.cancelMerge();
+  }, []);
+
+  const addsByCollection = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const item of plan?.items ?? []) {
+      if (item.action === 'add') {
+        counts[item.collection] = (counts[item.collection] ?? 0) + 1;
+      }
+    }
+    return Object.entries(counts);
+  }, [plan]);
+
+  const changedItems = useMemo(
+    () => (plan?.items ?? []).filter(item => item.action !== 'add'),
+    [plan]
+  );
+
+  const handleToggle = (item: MergeItem) => {
+    const current = resolveMergeItem(item, strategy, overrides);
+    setOverrides(prev => ({ ...prev, [item.key]: current === 'local' ? 'incoming' : 'local' }));
+    Haptics.selectionAsync().catch(() => {});
+  };
+
+  const handleStrategyChange = (value: MergeStrategy) => {
+    setStrategy(value);
+    setOverrides({});
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      const response = await backupService.applyMerge(strategy, overrides);
+      Haptics.notificationAsync(
+        response.success
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Error
+      ).catch(() => {});
+
+      if (response.success && response.result) {
+        const { added, updated, skipped, failed, rejected } = response.result;
+        const messages = [t('mergeImport.resultStats', { added, updated, skipped, failed })];
+        if (rejected.length > 0) {
+          messages.push(t('settingsScreen.alerts.importRejected', {
+            count: rejected.length,
+            records: formatRejectedRecords(rejected, t),
+          }));
+        }
+        if (response.mediaReport?.missing.length) {
+          messages.push(t('settingsScreen.alerts.importMissingMedia', {
+            count: response.mediaReport.missing.length,
+            files: response.mediaReport.missing.slice(0, 5).map(file => file.uri.split('/').pop()).join('\n'),
+          }));
+        }
+        Alert.alert(t('mergeImport.mergeComplete'), messages.join('\n\n'), [
+          { text: t('common.ok'), onPress: () => navigation.goBack() },
+        ]);
+      } else {
+        Alert.alert(t('settingsScreen.alerts.importFailed'), response.error || t('settingsScreen.alerts.unexpectedError'));
+      }
+    } catch (error) {
+      Alert.alert(t('settingsScreen.alerts.importFailed'), t('settingsScreen.alerts.unexpectedError'));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const renderSummaryChip = (label: string, value: number, color: string) => (
+    <View className={`flex-1 items-center py-3 rounded-xl ${isDark ? 'bg-slate-800' : 'bg-white'}`}>
+      <Text className="text-xl font-bold" style={{ color }}>{value}</Text>
+      <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{label}</Text>
+    </View>
+  );
+
+  if (!plan) {
+    return (
+      <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+        <ScreenHeader title={t('mergeImport.title')} showBack onBack={() => navigation.goBack()} />
+        <View className="items-center py-12">
+          <Text className={`text-base ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+            {t('mergeImport.noBackup')}
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader title={t('mergeImport.title')} showBack onBack={() => navigation.goBack()} />
+
+      <ScrollView className="flex-1 px-5 pt-4" showsVerticalScrollIndicator={false}>
+        {/* Summary */}
+        <View className="flex-row gap-2 mb-4">
+          {renderSummaryChip(t('mergeImport.adds'), plan.summary.adds, COLORS.success)}
+          {renderSummaryChip(t('mergeImport.updates'), plan.summary.updates, COLORS.primary[500])}
+          {renderSummaryChip(t('mergeImport.conflicts'), plan.summary.conflicts, COLORS.warning)}
+          {renderSummaryChip(t('mergeImport.unchanged'), plan.summary.unchanged, COLORS.slate[400])}
+        </View>
+
+        {/* Strategy */}
+        <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+          {t('mergeImport.strategy')}
+        </Text>
+        <View className={`flex-row p-1 rounded-xl mb-1 ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}>
+          {STRATEGIES.map(value => {
+            const isActive = strategy === value;
+            return (
+              <TouchableOpacity
+                key={value}
+                onPress={() => handleStrategyChange(value)}
+                className={`flex-1 py-2 rounded-lg ${isActive ? 'bg-primary-500' : ''}`}
+              >
+                <Text
+                  className={`text-center text-xs font-medium ${
+                    isActive ? 'text-white' : isDark ? 'text-slate-400' : 'text-slate-600'
+                  }`}
+                >
+                  {t(`mergeImport.strategies.${value}`)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text className={`text-xs mb-5 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+          {t(`mergeImport.strategyHints.${strategy}`)}
+        </Text>
+
+        {/* New records */}
+        {addsByCollection.length > 0 && (
+          <View className="mb-5">
+            <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+              {t('mergeImport.newRecords')}
+            </Text>
+            <Card variant="default" padding="md">
+              {addsByCollection.map(([collection, count]) => (
+                <View key={collection} className="flex-row items-center py-1">
+                  <Plus size={14} color={COLORS.success} />
+                  <Text className={`flex-1 ml-2 text-sm ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                    {t(`mergeImport.collections.${collection}`)}
+                  </Text>
+                  <Text className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>{count}</Text>
+                </View>
+              ))}
+            </Card>
+          </View>
+        )}
+
+        {/* Updated and conflicting records */}
+        {changedItems.length > 0 && (
+          <View className="mb-5">
+            <Text className={`text-sm font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+              {t('mergeImport.changedRecords')}
+            </Text>
+            <View className="gap-2">
+              {changedItems.map(item => {
+                const resolution = resolveMergeItem(item, strategy, overrides);
+                const isConflict = item.action === 'conflict';
+                return (
+                  <Card key={item.key} variant="default" padding="none">
+                    <View className="flex-row items-center p-4">
+                      {isConflict ? (
+                        <AlertTriangle size={18} color={COLORS.warning} />
+                      ) : (
+                        <RefreshCw size={18} color={COLORS.primary[500]} />
+                      )}
+                      <View className="flex-1 ml-3">
+                        <Text
+                          className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}
+                          numberOfLines={1}
+                        >
+                          {item.label}
+                        </Text>
+                        <Text className={`text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`} numberOfLines={1}>
+                          {t(`mergeImport.collections.${item.collection}`)} · {item.changedFields.join(', ')}
+                        </Text>
+                        <Text className={`text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                          {t('mergeImport.dates', {
+                            local: item.localUpdatedAt ? formatDate(item.localUpdatedAt) : '-',
+                            incoming: item.incomingUpdatedAt ? formatDate(item.incomingUpdatedAt) : '-',
+                          })}
+                        </Text>
+                      </View>
+                      <TouchableOpacity
+                        onPress={() => handleToggle(item)}
+                        className={`px-3 py-1.5 rounded-lg ${
+                          resolution === 'incoming' ? 'bg-primary-500' : isDark ? 'bg-slate-700' : 'bg-slate-100'
+                        }`}
+                      >
+                        <Text
+                          className={`text-xs font-medium ${
+                            resolution === 'incoming' ? 'text-white' : isDark ? 'text-slate-300' : 'text-slate-700'
+                          }`}
+                        >
+                          {resolution === 'incoming' ? t('mergeImport.keepIncoming') : t('mergeImport.keepLocal')}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  </Card>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {plan.items.length === 0 && (
+          <View className="items-center py-8">
+            <Text className={`text-base ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              {t('mergeImport.upToDate')}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      <View className={`px-5 pt-3 pb-8 border-t ${isDark ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+        <TouchableOpacity
+          onPress={handleApply}
+          disabled={applying || plan.items.length === 0}
+          className={`py-3.5 rounded-xl items-center ${
+            applying || plan.items.length === 0 ? 'bg-slate-400' : 'bg-primary-500'
+          }`}
+        >
+          {applying ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <Text className="text-white font-semibold">{t('mergeImport.apply')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
@@ -22,6 +22,16 @@ import {
   Trash2,
   Globe,
   Tag,
+  History,
+  FileSpreadsheet,
+  Trash,
+  Stethoscope,
+  HardDrive,
+  SlidersHorizontal,
+  ArrowLeftRight,
+  Users,
+  Landmark,
+  Coins,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { ListItem, Divider, SelectDialog, PasswordDialog } from '../../components/ui';
@@ -42,6 +52,7 @@ import {
 import { AppSettings } from '../../types';
 import { SUPPORTED_LANGUAGES, SupportedLanguage } from '../../i18n';
 import { RootStackParamList } from '../../navigation/types';
+import { formatRejectedRecords } from '../../utils/validation';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -49,7 +60,7 @@ export function SettingsScreen() {
   const navigation = useNavigation<NavigationProp>();
   const insets = useSafeAreaInsets();
   const { themeMode, setThemeMode, isDark } = useTheme();
-  const { settings, updateCurrency, updateDateFormat, updatePhotoQuality, updateEncryptExports } = useSettings();
+  const { settings, updateCurrency, updateReportingCurrency, updateDateFormat, updatePhotoQuality, updateEncryptExports } = useSettings();
   const { language, setLanguage, t, supportedLanguages } = useLanguage();
 
   // Theme options using translations
@@ -74,11 +85,14 @@ export function SettingsScreen() {
   const [biometricAvailable, setBiometricAvailable] = useState(false);
   const [showThemePicker, setShowThemePicker] = useState(false);
   const [showCurrencyPicker, setShowCurrencyPicker] = useState(false);
+  const [showReportingCurrencyPicker, setShowReportingCurrencyPicker] = useState(false);
   const [showDateFormatPicker, setShowDateFormatPicker] = useState(false);
   const [showPhotoQualityPicker, setShowPhotoQualityPicker] = useState(false);
   const [showLanguagePicker, setShowLanguagePicker] = useState(false);
   const [showExportPasswordDialog, setShowExportPasswordDialog] = useState(false);
   const [showImportPasswordDialog, setShowImportPasswordDialog] = useState(false);
+  // Whether the import password dialog continues a full import or a merge
+  const [importMode, setImportMode] = useState<'import' | 'merge'>('import');
 
   // Language options for picker
   const languageOptions = supportedLanguages.map(lang => ({
@@ -122,6 +136,16 @@ export function SettingsScreen() {
     }
   };
 
+  const handleReportingCurrencySelect = async (value: string) => {
+    setShowReportingCurrencyPicker(false);
+    try {
+      await updateReportingCurrency(value);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+    } catch (error) {
+      Alert.alert(t('common.error'), t('settingsScreen.alerts.reportingCurrencyError'));
+    }
+  };
+
   const handleDateFormatSelect = async (value: string) => {
     setShowDateFormatPicker(false);
     try {
@@ -237,6 +261,10 @@ export function SettingsScreen() {
       t('settingsScreen.alerts.importMessage'),
       [
         { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settingsScreen.alerts.merge'),
+          onPress: () => performMerge(),
+        },
         {
           text: t('settingsScreen.alerts.chooseFile'),
           onPress: () => performImport(),
@@ -245,6 +273,30 @@ export function SettingsScreen() {
     );
   };
 
+  const performMerge = async (password?: string) => {
+    setIsImporting(true);
+    try {
+      const result = await backupService.prepareMerge(password);
+
+      if (result.needsPassword) {
+        setIsImporting(false);
+        setImportMode('merge');
+        setShowImportPasswordDialog(true);
+        return;
+      }
+
+      if (result.success) {
+        navigation.navigate('MergeImport');
+      } else if (result.error) {
+        Alert.alert(t('settingsScreen.alerts.importFailed'), result.error);
+      }
+    } catch (error) {
+      Alert.alert(t('settingsScreen.alerts.importFailed'), t('settingsScreen.alerts.unexpectedError'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const performImport = async (password?: string) => {
     setIsImporting(true);
     try {
@@ -253,6 +305,7 @@ export function SettingsScreen() {
       // Check if file needs password
       if (result.needsPassword) {
         setIsImporting(false);
+        setImportMode('import');
         setShowImportPasswordDialog(true);
         return;
       }
@@ -263,16 +316,34 @@ export function SettingsScreen() {
           : Haptics.NotificationFeedbackType.Error
       ).catch(() => {});
       if (result.success && result.stats) {
-        Alert.alert(
-          t('settingsScreen.alerts.importSuccess'),
+        const messages = [
+          ...(result.scope ? [t('settingsScreen.alerts.importHandover', { name: result.scope.propertyName })] : []),
           t('settingsScreen.alerts.importStats', {
             properties: result.stats.properties,
             rooms: result.stats.rooms,
             assets: result.stats.assets,
             expenses: result.stats.expenses,
             workers: result.stats.workers,
-          })
-        );
+          }),
+        ];
+        if (result.rejected && result.rejected.length > 0) {
+          messages.push(t('settingsScreen.alerts.importRejected', {
+            count: result.rejected.length,
+            records: formatRejectedRecords(result.rejected, t),
+          }));
+        }
+        if (result.mediaReport && result.mediaReport.restored > 0) {
+          messages.push(t('settingsScreen.alerts.importMediaStats', { restored: result.mediaReport.restored }));
+        }
+        if (result.mediaReport && result.mediaReport.missing.length > 0) {
+          messages.push(t('settingsScreen.alerts.importMissingMedia', {
+            count: result.mediaReport.missing.length,
+            files: result.mediaReport.missing
+              .map(file => file.uri.split('/').pop())
+              .join('\n'),
+          }));
+        }
+        Alert.alert(t('settingsScreen.alerts.importSuccess'), messages.join('\n\n'));
       } else if (!result.success && result.error !== 'No file selected') {
         Alert.alert(t('settingsScreen.alerts.importFailed'), result.error || t('settingsScreen.alerts.unexpectedError'));
       }
@@ -285,7 +356,11 @@ export function SettingsScreen() {
 
   const handleImportPasswordConfirm = async (password: string) => {
     setShowImportPasswordDialog(false);
-    await performImport(password);
+    if (importMode === 'merge') {
+      await performMerge(password);
+    } else {
+      await performImport(password);
+    }
   };
 
   const handleEncryptExportsToggle = async (enabled: boolean) => {
@@ -447,6 +522,56 @@ export function SettingsScreen() {
               onPress={() => setShowCurrencyPicker(true)}
             />
             <Divider className="ml-[68px]" />
+            <ListItem
+              title={t('settingsScreen.reportingCurrency')}
+              subtitle={settings?.reportingCurrency
+                ? getCurrencyLabel(settings.reportingCurrency)
+                : t('settingsScreen.reportingCurrencySame', { currency: settings?.currency || 'USD' })}
+              leftIcon={
+                <View className="w-9 h-9 rounded-xl bg-green-100 items-center justify-center">
+                  <Coins size={18} color={COLORS.primary[600]} />
+                </View>
+              }
+              showChevron
+              onPress={() => setShowReportingCurrencyPicker(true)}
+            />
+            <Divider className="ml-[68px]" />
+            <ListItem
+              title={t('exchangeRates.title')}
+              subtitle={t('exchangeRates.settingsSubtitle')}
+              leftIcon={
+                <View className="w-9 h-9 rounded-xl bg-green-100 items-center justify-center">
+                  <ArrowLeftRight size={18} color={COLORS.primary[600]} />
+                </View>
+              }
+              showChevron
+              onPress={() => navigation.navigate('ExchangeRates')}
+            />
+            <Divider className="ml-[68px]" />
+            <ListItem
+              title={t('settleUp.title')}
+              subtitle={t('settleUp.settingsSubtitle')}
+              leftIcon={
+                <View className="w-9 h-9 rounded-xl bg-green-100 items-center justify-center">
+                  <Users size={18} color={COLORS.primary[600]} />
+                </View>
+              }
+              showChevron
+              onPress={() => navigation.navigate('SettleUp')}
+            />
+            <Divider className="ml-[68px]" />
+            <ListItem
+              title={t('taxSummary.title')}
+              subtitle={t('taxSummary.settingsSubtitle')}
+              leftIcon={
+                <View className="w-9 h-9 rounded-xl bg-green-100 items-center justify-center">
+                  <Landmark size={18} color={COLORS.primary[600]} />
+                </View>
+              }
+              showChevron
+              onPress={() => navigation.navigate('TaxSummary')}
+            />
+            <Divider className="ml-[68px]" />
             <ListItem
               title={t('settingsScreen.dateFormat')}
               subtitle={getDateFormatLabel(settings?.dateFormat || 'MM/dd/yyyy')}
@@ -482,6 +607,18 @@ export function SettingsScreen() {
               showChevron
               onPress={() => navigation.navigate('ManageCategories')}
             />
+            <Divider className="ml-[68px]" />
+            <ListItem
+              title={t('settingsScreen.manageCustomFields')}
+              subtitle={t('settingsScreen.manageCustomFieldsSubtitle')}
+              leftIcon={
+                <View className="w-9 h-9 rounded-xl bg-indigo-100 items-center justify-center">
+                  <SlidersHorizontal size={18} color="#6366f1" />
+                </View>
+              }
+              showChevron
+              onPress={() => navigation.navigate('ManageCustomFields')}
+            />
           </View>
         </View>
 
@@ -514,6 +651,66 @@ export function SettingsScreen() {
               showChevron
               onPress={handleImportData}
             />
+            <Divider className="ml-[68px]" />
+            <ListItem
+              title={t('settingsScreen.backupHistory')}
+              subtitle={t('settingsScreen.backupHistorySubtitle')}
+              leftIcon={
+                <View className="w-9 h-9 rounded-xl bg-emerald-100 items-center justify-center">
+                  <History size={18} color="#059669" />
+                </View>
+              }
+              showChevron
+              onPress={() => navigation.navigate('BackupHistory')}
+            />
+            <Divider className="ml-[68px]" />
+            <ListItem
+              title={t('settingsScreen.spreadsheetExport')}
+              subtitle={t('settingsScreen.spreadsheetExportSubtitle')}
+              leftIcon={
+                <View className="w-9 h-9 rounded-xl bg-green-100 items-center justify-center">
+                  <FileSpreadsheet size={18} color="#16a34a" />
+                </View>
+              }
+              showChevron
+              onPress={() => navigation.navigate('SpreadsheetExport')}
+            />
+            <Divider className="ml-[68px]" />
+            <ListItem
+              title={t('settingsScreen.trash')}
+              subtitle={t('settingsScreen.trashSubtitle')}
+              leftIcon={
+                <View className={`w-9 h-9 rounded-xl items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}>
+                  <Trash size={18} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+                </View>
+              }
+              showChevron
+              onPress={() => navigation.navigate('Trash')}
+            />
+            <Divider className="ml-[68px]" />
+            <ListItem
+              title={t('settingsScreen.diagnostics')}
+              subtitle={t('settingsScreen.diagnosticsSubtitle')}
+              leftIcon={
+                <View className={`w-9 h-9 rounded-xl items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}>
+                  <Stethoscope size={18} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+                </View>
+              }
+              showChevron
+              onPress={() => navigation.navigate('Diagnostics')}
+            />
+            <Divider className="ml-[68px]" />
+            <ListItem
+              title={t('settingsScreen.storage')}
+              subtitle={t('settingsScreen.storageSubtitle')}
+              leftIcon={
+                <View className={`w-9 h-9 rounded-xl items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}>
+                  <HardDrive size={18} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+                </View>
+              }
+              showChevron
+              onPress={() => navigation.navigate('Storage')}
+            />
           </View>
         </View>
 
@@ -717,6 +914,20 @@ export function SettingsScreen() {
         onSelect={handleCurrencySelect}
       />
 
+      {/* Reporting Currency Picker Dialog */}
+      <SelectDialog
+        visible={showReportingCurrencyPicker}
+        title={t('settingsScreen.dialogs.chooseReportingCurrency')}
+        message={t('settingsScreen.dialogs.reportingCurrencyMessage')}
+        options={[
+          { label: t('settingsScreen.reportingCurrencySame', { currency: settings?.currency || 'USD' }), value: '' },
+          ...CURRENCY_OPTIONS,
+        ]}
+        cancelText={t('common.cancel')}
+        onCancel={() => setShowReportingCurrencyPicker(false)}
+        onSelect={handleReportingCurrencySelect}
+      />
+
       {/* Date Format Picker Dialog */}
       <SelectDialog
         visible={showDateFormatPicker}
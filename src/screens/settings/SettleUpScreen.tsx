@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Plus, Trash2, Edit3, Users, ArrowRight, HandCoins } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { RootStackParamList } from '../../navigation/types';
+import { HouseholdMember, SettleUpTransfer } from '../../types';
+import { householdMemberRepository, settlementRepository } from '../../services/database';
+import { useQuery } from '../../hooks';
+import { ScreenHeader, Card, InputDialog } from '../../components/ui';
+import { COLORS } from '../../constants/theme';
+import { useTheme, useTranslation } from '../../contexts';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
+import { formatDate } from '../../utils/date';
+import { describeSaveError } from '../../utils/validation';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export function SettleUpScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+  const reportingCurrency = getReportingCurrency();
+
+  // Member name dialog; `editingMember` is null when adding
+  const [nameDialogVisible, setNameDialogVisible] = useState(false);
+  const [editingMember, setEditingMember] = useState<HouseholdMember | null>(null);
+
+  const { data, loading, refreshing, refresh } = useQuery(
+    async () => {
+      const [settleUp, settlements] = await Promise.all([
+        householdMemberRepository.getSettleUp(),
+        settlementRepository.getAll(),
+      ]);
+      return { ...settleUp, settlements };
+    },
+    ['household_members', 'expenses', 'expense_splits', 'settlements', 'exchange_rates']
+  );
+  const balances = data?.balances ?? [];
+  const transfers = data?.transfers ?? [];
+  const settlements = data?.settlements ?? [];
+  const memberNames = new Map(balances.map(item => [item.member.id, item.member.name]));
+
+  const openNameDialog = (member: HouseholdMember | null) => {
+    setEditingMember(member);
+    setNameDialogVisible(true);
+  };
+
+  const handleSaveName = async (name: string) => {
+    setNameDialogVisible(false);
+    if (!name.trim()) return;
+    try {
+      if (editingMember) {
+        await householdMemberRepository.update(editingMember.id, { name });
+      } else {
+        await householdMemberRepository.create({ name });
+      }
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Failed to save household member:', error);
+      Alert.alert(t('common.error'), describeSaveError(error, t('settleUp.saveMemberError'), t));
+    }
+  };
+
+  const handleDeleteMember = (member: HouseholdMember) => {
+    Alert.alert(t('settleUp.deleteMember'), t('settleUp.deleteMemberConfirm', { name: member.name }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await householdMemberRepository.delete(member.id);
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          } catch (error) {
+            console.error('Failed to delete household member:', error);
+            Alert.alert(t('common.error'), t('settleUp.deleteMemberError'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleRecordPayment = (transfer: SettleUpTransfer) => {
+    const amount = formatCurrency(transfer.amount, reportingCurrency);
+    Alert.alert(
+      t('settleUp.recordPayment'),
+      t('settleUp.recordPaymentConfirm', { from: transfer.from.name, to: transfer.to.name, amount }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settleUp.record'),
+          onPress: async () => {
+            try {
+              await settlementRepository.create({
+                fromMemberId: transfer.from.id,
+                toMemberId: transfer.to.id,
+                // Rounded to the cent, as it is paid
+                amount: Math.round(transfer.amount * 100) / 100,
+                currency: reportingCurrency,
+                date: new Date().toISOString(),
+              });
+              await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            } catch (error) {
+              console.error('Failed to record settlement:', error);
+              Alert.alert(t('common.error'), describeSaveError(error, t('settleUp.recordError'), t));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDeleteSettlement = (id: string) => {
+    Alert.alert(t('settleUp.deletePayment'), t('settleUp.deletePaymentConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await settlementRepository.delete(id);
+          } catch (error) {
+            console.error('Failed to delete settlement:', error);
+            Alert.alert(t('common.error'), t('settleUp.deletePaymentError'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const sectionTitleClass = `text-sm font-semibold uppercase tracking-wide mb-3 ${isDark ? 'text-slate-400' : 'text-slate-500'}`;
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={t('settleUp.title')}
+        showBack
+        onBack={() => navigation.goBack()}
+        rightAction={
+          <TouchableOpacity
+            onPress={() => openNameDialog(null)}
+            className="w-10 h-10 rounded-xl bg-primary-500 items-center justify-center"
+          >
+            <Plus size={20} color="#ffffff" />
+          </TouchableOpacity>
+        }
+      />
+
+      <ScrollView
+        className="flex-1 px-5 pt-4"
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refresh}
+            tintColor={COLORS.primary[600]}
+          />
+        }
+      >
+        <Text className={`text-sm mb-4 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+          {t('settleUp.description', { currency: reportingCurrency })}
+        </Text>
+
+        {balances.length === 0 && !loading ? (
+          <View className="items-center py-12 px-6">
+            <View className={`w-16 h-16 rounded-2xl items-center justify-center mb-4 ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}>
+              <Users size={32} color={isDark ? COLORS.slate[600] : COLORS.slate[400]} />
+            </View>
+            <Text className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+              {t('settleUp.noMembers')}
+            </Text>
+            <Text className={`text-sm mt-1 text-center ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              {t('settleUp.addFirstMember')}
+            </Text>
+          </View>
+        ) : (
+          <View className="pb-6">
+            {/* Members and balances */}
+            <Text className={sectionTitleClass}>{t('settleUp.balances')}</Text>
+            <View className="gap-2 mb-6">
+              {balances.map(item => {
+                const settled = Math.abs(item.balance) < 0.005;
+                return (
+                  <Card key={item.member.id} variant="default" padding="none">
+                    <TouchableOpacity
+                      onPress={() => openNameDialog(item.member)}
+                      onLongPress={() => handleDeleteMember(item.member)}
+                      className="flex-row items-center p-4"
+                      activeOpacity={0.7}
+                    >
+                      <View className="flex-1">
+                        <Text className={`text-base font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                          {item.member.name}
+                        </Text>
+                        <Text
+                          className={`text-sm mt-0.5 ${
+                            settled ? (isDark ? 'text-slate-500' : 'text-slate-400') : item.balance > 0 ? 'text-green-600' : 'text-red-500'
+                          }`}
+                        >
+                          {settled
+                            ? t('settleUp.settled')
+                            : item.balance > 0
+                              ? t('settleUp.isOwed', { amount: formatCurrency(item.balance, reportingCurrency) })
+                              : t('settleUp.owes', { amount: formatCurrency(-item.balance, reportingCurrency) })}
+                        </Text>
+                      </View>
+                      <View className="flex-row gap-2">
+                        <TouchableOpacity
+                          onPress={() => openNameDialog(item.member)}
+                          className={`w-8 h-8 rounded-lg items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}
+                        >
+                          <Edit3 size={16} color={isDark ? COLORS.slate[400] : COLORS.slate[600]} />
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          onPress={() => handleDeleteMember(item.member)}
+                          className="w-8 h-8 rounded-lg items-center justify-center bg-red-100"
+                        >
+                          <Trash2 size={16} color={COLORS.error} />
+                        </TouchableOpacity>
+                      </View>
+                    </TouchableOpacity>
+                  </Card>
+                );
+              })}
+            </View>
+
+            {/* Suggested payments */}
+            <Text className={sectionTitleClass}>{t('settleUp.suggestedPayments')}</Text>
+            {transfers.length === 0 ? (
+              <Text className={`text-sm mb-6 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                {t('settleUp.allSettled')}
+              </Text>
+            ) : (
+              <View className="gap-2 mb-6">
+                {transfers.map(transfer => (
+                  <Card key={`${transfer.from.id}-${transfer.to.id}`} variant="default" padding="none">
+                    <View className="flex-row items-center p-4">
+                      <View className="flex-1">
+                        <View className="flex-row items-center">
+                          <Text className={`text-base font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                            {transfer.from.name}
+                          </Text>
+                          <ArrowRight size={14} color={COLORS.slate[400]} style={{ marginHorizontal: 6 }} />
+                          <Text className={`text-base font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                            {transfer.to.name}
+                          </Text>
+                        </View>
+                        <Text className="text-sm font-semibold text-primary-600 mt-0.5">
+                          {formatCurrency(transfer.amount, reportingCurrency)}
+                        </Text>
+                      </View>
+                      <TouchableOpacity
+                        onPress={() => handleRecordPayment(transfer)}
+                        className="flex-row items-center px-3 py-2 rounded-lg bg-primary-500"
+                        activeOpacity={0.7}
+                      >
+                        <HandCoins size={16} color="#ffffff" />
+                        <Text className="text-sm font-semibold text-white ml-1.5">{t('settleUp.recordPayment')}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </Card>
+                ))}
+              </View>
+            )}
+
+            {/* Recorded payments */}
+            {settlements.length > 0 && (
+              <>
+                <Text className={sectionTitleClass}>{t('settleUp.payments')}</Text>
+                <Card variant="default" padding="none">
+                  {settlements.map((settlement, index) => (
+                    <View
+                      key={settlement.id}
+                      className={`flex-row items-center px-4 py-3 ${
+                        index < settlements.length - 1 ? `border-b ${isDark ? 'border-slate-700' : 'border-slate-100'}` : ''
+                      }`}
+                    >
+                      <View className="flex-1">
+                        <Text className={`text-sm font-medium ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                          {t('settleUp.paymentLine', {
+                            from: memberNames.get(settlement.fromMemberId) ?? '',
+                            to: memberNames.get(settlement.toMemberId) ?? '',
+                          })}
+                        </Text>
+                        <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                          {formatDate(settlement.date)}
+                        </Text>
+                      </View>
+                      <Text className={`text-sm font-semibold mr-3 ${isDark ? 'text-slate-200' : 'text-slate-700'}`}>
+                        {formatCurrency(settlement.amount, settlement.currency)}
+                      </Text>
+                      <TouchableOpacity onPress={() => handleDeleteSettlement(settlement.id)} hitSlop={8}>
+                        <Trash2 size={16} color={COLORS.slate[400]} />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </Card>
+              </>
+            )}
+          </View>
+        )}
+      </ScrollView>
+
+      <InputDialog
+        visible={nameDialogVisible}
+        title={editingMember ? t('settleUp.renameMember') : t('settleUp.addMember')}
+        placeholder={t('settleUp.memberNamePlaceholder')}
+        defaultValue={editingMember?.name ?? ''}
+        cancelText={t('common.cancel')}
+        confirmText={t('common.save')}
+        onCancel={() => setNameDialogVisible(false)}
+        onConfirm={handleSaveName}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Check, Receipt, Package, Wrench, Share2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import {
+  format,
+  startOfMonth,
+  endOfMonth,
+  startOfYear,
+  endOfYear,
+  subMonths,
+  subYears,
+} from 'date-fns';
+import { RootStackParamList } from '../../navigation/types';
+import { Property } from '../../types';
+import { propertyRepository } from '../../services/database';
+import {
+  spreadsheetExportService,
+  SPREADSHEET_DATASETS,
+  SpreadsheetDataset,
+  SpreadsheetFormat,
+} from '../../services/export';
+import { ScreenHeader, ListItem, Divider, Button } from '../../components/ui';
+import { COLORS, SHADOWS } from '../../constants/theme';
+import { useTheme, useTranslation } from '../../contexts';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type SpreadsheetExportRouteProp = RouteProp<RootStackParamList, 'SpreadsheetExport'>;
+
+type DateRangePreset = 'all' | 'thisMonth' | 'lastMonth' | 'last12Months' | 'thisYear' | 'lastYear';
+
+const DATE_RANGE_PRESETS: DateRangePreset[] = ['all', 'thisMonth', 'lastMonth', 'last12Months', 'thisYear', 'lastYear'];
+
+function getDateRange(preset: DateRangePreset): { startDate?: string; endDate?: string } {
+  const now = new Date();
+  const toDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+  switch (preset) {
+    case 'thisMonth':
+      return { startDate: toDay(startOfMonth(now)), endDate: toDay(endOfMonth(now)) };
+    case 'lastMonth':
+      return { startDate: toDay(startOfMonth(subMonths(now, 1))), endDate: toDay(endOfMonth(subMonths(now, 1))) };
+    case 'last12Months':
+      return { startDate: toDay(startOfMonth(subMonths(now, 11))), endDate: toDay(endOfMonth(now)) };
+    case 'thisYear':
+      return { startDate: toDay(startOfYear(now)), endDate: toDay(endOfYear(now)) };
+    case 'lastYear':
+      return { startDate: toDay(startOfYear(subYears(now, 1))), endDate: toDay(endOfYear(subYears(now, 1))) };
+    default:
+      return {};
+  }
+}
+
+const DATASET_ICONS: Record<SpreadsheetDataset, { icon: typeof Receipt; color: string; background: string }> = {
+  expenses: { icon: Receipt, color: '#16a34a', background: 'bg-green-100' },
+  assets: { icon: Package, color: '#2563eb', background: 'bg-blue-100' },
+  maintenance: { icon: Wrench, color: '#d97706', background: 'bg-amber-100' },
+};
+
+export function SpreadsheetExportScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<SpreadsheetExportRouteProp>();
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [propertyId, setPropertyId] = useState<string | null>(route.params?.propertyId ?? null);
+  const [fileFormat, setFileFormat] = useState<SpreadsheetFormat>('xlsx');
+  const [datasets, setDatasets] = useState<SpreadsheetDataset[]>([...SPREADSHEET_DATASETS]);
+  const [dateRange, setDateRange] = useState<DateRangePreset>('all');
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    propertyRepository.getAll()
+      .then(setProperties)
+      .catch(error => console.error('Failed to load properties:', error));
+  }, []);
+
+  const toggleDataset = (dataset: SpreadsheetDataset) => {
+    Haptics.selectionAsync().catch(() => {});
+    if (fileFormat === 'csv') {
+      // A CSV file holds one table
+      setDatasets([dataset]);
+      return;
+    }
+    setDatasets(current =>
+      current.includes(dataset)
+        ? current.filter(d => d !== dataset)
+        : [...current, dataset]
+    );
+  };
+
+  const changeFormat = (value: SpreadsheetFormat) => {
+    setFileFormat(value);
+    if (value === 'csv' && datasets.length > 1) {
+      setDatasets(datasets.slice(0, 1));
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const result = await spreadsheetExportService.export(datasets, fileFormat, {
+        propertyId: propertyId ?? undefined,
+        ...getDateRange(dateRange),
+      });
+      Haptics.notificationAsync(
+        result.success
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Error
+      ).catch(() => {});
+      if (!result.success) {
+        Alert.alert(t('settingsScreen.alerts.exportFailed'), result.error || t('settingsScreen.alerts.unexpectedError'));
+      }
+    } catch (error) {
+      Alert.alert(t('settingsScreen.alerts.exportFailed'), t('settingsScreen.alerts.unexpectedError'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      className={`px-4 py-2 rounded-full ${
+        selected
+          ? 'bg-primary-500'
+          : isDark ? 'bg-slate-700' : 'bg-slate-100'
+      }`}
+    >
+      <Text className={`text-sm font-medium ${
+        selected ? 'text-white' : isDark ? 'text-slate-300' : 'text-slate-700'
+      }`}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderSectionTitle = (title: string) => (
+    <Text className={`px-5 text-xs font-semibold uppercase tracking-wider mb-2 ${isDark ? 'text-slate-500' : 'text-slate-500'}`}>
+      {title}
+    </Text>
+  );
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={t('spreadsheetExport.title')}
+        showBack
+        onBack={() => navigation.goBack()}
+      />
+
+      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+        <Text className={`px-5 pt-4 text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+          {t('spreadsheetExport.description')}
+        </Text>
+
+        {/* Format */}
+        <View className="mt-6">
+          {renderSectionTitle(t('spreadsheetExport.format'))}
+          <View className="flex-row px-5" style={{ gap: 8 }}>
+            {renderChip('xlsx', t('spreadsheetExport.formats.xlsx'), fileFormat === 'xlsx', () => changeFormat('xlsx'))}
+            {renderChip('csv', t('spreadsheetExport.formats.csv'), fileFormat === 'csv', () => changeFormat('csv'))}
+          </View>
+        </View>
+
+        {/* Datasets */}
+        <View className="mt-6">
+          {renderSectionTitle(t('spreadsheetExport.include'))}
+          <View className={isDark ? 'bg-slate-800' : 'bg-white'} style={SHADOWS.sm}>
+            {SPREADSHEET_DATASETS.map((dataset, index) => {
+              const { icon: Icon, color, background } = DATASET_ICONS[dataset];
+              return (
+                <React.Fragment key={dataset}>
+                  {index > 0 && <Divider className="ml-[68px]" />}
+                  <ListItem
+                    title={t(`spreadsheetExport.datasets.${dataset}`)}
+                    subtitle={t(`spreadsheetExport.datasetDescriptions.${dataset}`)}
+                    leftIcon={
+                      <View className={`w-9 h-9 rounded-xl ${background} items-center justify-center`}>
+                        <Icon size={18} color={color} />
+                      </View>
+                    }
+                    rightContent={
+                      datasets.includes(dataset)
+                        ? <Check size={20} color={COLORS.primary[500]} />
+                        : undefined
+                    }
+                    onPress={() => toggleDataset(dataset)}
+                  />
+                </React.Fragment>
+              );
+            })}
+          </View>
+          {fileFormat === 'csv' && (
+            <Text className={`px-5 mt-2 text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+              {t('spreadsheetExport.csvHint')}
+            </Text>
+          )}
+        </View>
+
+        {/* Property */}
+        {properties.length > 1 && (
+          <View className="mt-6">
+            {renderSectionTitle(t('spreadsheetExport.property'))}
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={{ gap: 8, paddingHorizontal: 20 }}
+            >
+              {renderChip('all', t('reports.allProperties'), propertyId === null, () => setPropertyId(null))}
+              {properties.map(property =>
+                renderChip(property.id, property.name, propertyId === property.id, () => setPropertyId(property.id))
+              )}
+            </ScrollView>
+          </View>
+        )}
+
+        {/* Date range */}
+        <View className="mt-6">
+          {renderSectionTitle(t('spreadsheetExport.dateRange'))}
+          <View className="flex-row flex-wrap px-5" style={{ gap: 8 }}>
+            {DATE_RANGE_PRESETS.map(preset =>
+              renderChip(preset, t(`spreadsheetExport.dateRanges.${preset}`), dateRange === preset, () => setDateRange(preset))
+            )}
+          </View>
+          <Text className={`px-5 mt-2 text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+            {t('spreadsheetExport.dateRangeHint')}
+          </Text>
+        </View>
+
+        <View className="px-5 mt-8 pb-10">
+          <Button
+            title={t('spreadsheetExport.export')}
+            onPress={handleExport}
+            variant="primary"
+            loading={exporting}
+            disabled={datasets.length === 0 || exporting}
+            icon={<Share2 size={18} color="#ffffff" />}
+            fullWidth
+          />
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,195 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, ScrollView, RefreshControl, Alert, ActivityIndicator } from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { HardDrive } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { RootStackParamList } from '../../navigation/types';
+import { mediaStorageService, MEDIA_CATEGORIES, MediaCategory, StorageUsage } from '../../services/storage';
+import { ScreenHeader, Card, Button } from '../../components/ui';
+import { COLORS } from '../../constants/theme';
+import { useTheme, useTranslation } from '../../contexts';
+import { formatFileSize } from '../../utils/fileSize';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const CATEGORY_COLORS: Record<MediaCategory, string> = {
+  photos: COLORS.categories.asset,
+  receipts: COLORS.categories.bill,
+  documents: COLORS.categories.document,
+  renovations: COLORS.categories.repair,
+  unused: COLORS.slate[400],
+};
+
+export function StorageScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      setUsage(await mediaStorageService.getUsage());
+    } catch (error) {
+      console.error('Failed to measure storage:', error);
+      Alert.alert(t('common.error'), t('storageUsage.loadError'));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [t]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadData();
+  };
+
+  const handleDeleteUnused = () => {
+    if (!usage) return;
+    Alert.alert(
+      t('storageUsage.deleteUnusedTitle'),
+      t('storageUsage.deleteUnusedMessage', {
+        count: usage.unusedFiles.length,
+        size: formatFileSize(usage.categories.unused.size),
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            setDeleting(true);
+            try {
+              const { deleted, freed } = await mediaStorageService.deleteUnusedFiles(usage.unusedFiles);
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+              Alert.alert(t('common.success'), t('storageUsage.deleted', { count: deleted, size: formatFileSize(freed) }));
+            } catch (error) {
+              console.error('Failed to delete unused files:', error);
+              Alert.alert(t('common.error'), t('storageUsage.deleteError'));
+            } finally {
+              setDeleting(false);
+              await loadData();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderSectionTitle = (title: string) => (
+    <Text className={`px-5 text-xs font-semibold uppercase tracking-wider mb-2 ${isDark ? 'text-slate-500' : 'text-slate-500'}`}>
+      {title}
+    </Text>
+  );
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader title={t('storageUsage.title')} showBack onBack={() => navigation.goBack()} />
+
+      <ScrollView
+        className="flex-1"
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {loading || !usage ? (
+          <View className="items-center py-16">
+            <ActivityIndicator color={COLORS.primary[600]} />
+          </View>
+        ) : (
+          <>
+            {/* Usage by category */}
+            <View className="mt-4">
+              {renderSectionTitle(t('storageUsage.usage'))}
+              <View className="px-5">
+                <Card variant="default" padding="md">
+                  <View className="flex-row items-center">
+                    <View className={`w-10 h-10 rounded-xl items-center justify-center ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}>
+                      <HardDrive size={20} color={isDark ? COLORS.slate[300] : COLORS.slate[600]} />
+                    </View>
+                    <View className="ml-3">
+                      <Text className={`text-xl font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                        {formatFileSize(usage.totalSize)}
+                      </Text>
+                      <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('storageUsage.total')}</Text>
+                    </View>
+                  </View>
+
+                  {usage.totalSize > 0 && (
+                    <View className={`flex-row h-2.5 rounded-full overflow-hidden mt-4 ${isDark ? 'bg-slate-700' : 'bg-slate-100'}`}>
+                      {MEDIA_CATEGORIES.filter(category => usage.categories[category].size > 0).map(category => (
+                        <View
+                          key={category}
+                          style={{ flex: usage.categories[category].size, backgroundColor: CATEGORY_COLORS[category] }}
+                        />
+                      ))}
+                    </View>
+                  )}
+
+                  <View className="mt-4 gap-3">
+                    {MEDIA_CATEGORIES.map(category => (
+                      <View key={category} className="flex-row items-center">
+                        <View className="w-3 h-3 rounded-full" style={{ backgroundColor: CATEGORY_COLORS[category] }} />
+                        <Text className={`flex-1 text-sm ml-2.5 ${isDark ? 'text-slate-200' : 'text-slate-700'}`}>
+                          {t(`storageUsage.categories.${category}`)}
+                        </Text>
+                        <Text className={`text-xs mr-3 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                          {t('storageUsage.fileCount', { count: usage.categories[category].count })}
+                        </Text>
+                        <Text className={`text-sm font-medium ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                          {usage.categories[category].size > 0 ? formatFileSize(usage.categories[category].size) : '—'}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                </Card>
+              </View>
+            </View>
+
+            {/* Unused files */}
+            <View className="mt-6 pb-8">
+              {renderSectionTitle(t('storageUsage.unusedFiles'))}
+              <View className="px-5">
+                <Card variant="default" padding="md">
+                  <Text className={`text-sm ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
+                    {usage.unusedFiles.length > 0
+                      ? t('storageUsage.unusedHint', {
+                          count: usage.unusedFiles.length,
+                          size: formatFileSize(usage.categories.unused.size),
+                        })
+                      : t('storageUsage.noUnused')}
+                  </Text>
+                  {usage.recentUnusedCount > 0 && (
+                    <Text className={`text-xs mt-2 ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                      {t('storageUsage.recentKept', { count: usage.recentUnusedCount })}
+                    </Text>
+                  )}
+                  {usage.unusedFiles.length > 0 && (
+                    <View className="flex-row mt-3">
+                      <Button
+                        title={t('storageUsage.deleteUnused')}
+                        variant="danger"
+                        size="sm"
+                        loading={deleting}
+                        onPress={handleDeleteUnused}
+                      />
+                    </View>
+                  )}
+                </Card>
+              </View>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,264 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Timer, Trash, Trash2, RotateCcw } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { RootStackParamList } from '../../navigation/types';
+import { AppSettings, TrashItem } from '../../types';
+import { settingsRepository, trashRepository } from '../../services/database';
+import { ScreenHeader, Card, ListItem, SelectDialog } from '../../components/ui';
+import { COLORS, SHADOWS } from '../../constants/theme';
+import { useTheme, useTranslation } from '../../contexts';
+import { formatRelative } from '../../utils/date';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const RETENTION_DAYS = [7, 14, 30, 60, 90];
+
+export function TrashScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const { isDark } = useTheme();
+  const { t } = useTranslation();
+
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showRetentionPicker, setShowRetentionPicker] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [currentSettings, list] = await Promise.all([
+        settingsRepository.get(),
+        trashRepository.getAll(),
+      ]);
+      setSettings(currentSettings);
+      setItems(list);
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const handleRetentionSelect = async (value: string) => {
+    setShowRetentionPicker(false);
+    try {
+      const updated = await settingsRepository.update({ trashRetentionDays: Number(value) });
+      setSettings(updated);
+      Haptics.selectionAsync().catch(() => {});
+
+      // A shorter retention period takes effect right away
+      await trashRepository.purgeExpired(updated.trashRetentionDays);
+      setItems(await trashRepository.getAll());
+    } catch (error) {
+      Alert.alert(t('common.error'), t('trash.saveError'));
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      const blocking = await trashRepository.getBlockingItem(item.id);
+      if (blocking) {
+        Alert.alert(t('trash.restoreBlockedTitle'), t('trash.restoreBlockedMessage', { name: blocking.label }));
+        return;
+      }
+      await trashRepository.restore(item.id);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+      setItems(prev => prev.filter(entry => entry.id !== item.id));
+    } catch (error) {
+      console.error('Restore failed:', error);
+      Alert.alert(t('common.error'), t('trash.restoreError'));
+    }
+  };
+
+  const handleDeleteForever = (item: TrashItem) => {
+    Alert.alert(
+      t('trash.deleteForeverTitle'),
+      t('trash.deleteForeverMessage', { name: item.label }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('trash.deleteForever'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await trashRepository.deleteForever(item.id);
+              await loadData();
+            } catch (error) {
+              console.error('Delete failed:', error);
+              Alert.alert(t('common.error'), t('trash.deleteError'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      t('trash.emptyTitle'),
+      t('trash.emptyMessage', { count: items.length }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('trash.empty'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await trashRepository.empty();
+              setItems([]);
+            } catch (error) {
+              console.error('Emptying trash failed:', error);
+              Alert.alert(t('common.error'), t('trash.deleteError'));
+              await loadData();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleItemPress = (item: TrashItem) => {
+    Alert.alert(
+      item.label,
+      t('trash.itemMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('trash.deleteForever'), style: 'destructive', onPress: () => handleDeleteForever(item) },
+        { text: t('trash.restore'), onPress: () => handleRestore(item) },
+      ]
+    );
+  };
+
+  const getDaysLeft = (item: TrashItem): number => {
+    const retention = settings?.trashRetentionDays ?? 30;
+    return Math.max(0, retention - differenceInCalendarDays(new Date(), parseISO(item.deletedAt)));
+  };
+
+  const describeChildren = (item: TrashItem): string =>
+    Object.entries(item.childCounts)
+      .map(([table, count]) => t('trash.childCount', { name: t(`trash.tables.${table}`), count }))
+      .join(', ');
+
+  const renderSectionTitle = (title: string) => (
+    <Text className={`px-5 text-xs font-semibold uppercase tracking-wider mb-2 ${isDark ? 'text-slate-500' : 'text-slate-500'}`}>
+      {title}
+    </Text>
+  );
+
+  return (
+    <View className={`flex-1 ${isDark ? 'bg-slate-900' : 'bg-slate-50'}`}>
+      <ScreenHeader
+        title={t('trash.title')}
+        showBack
+        onBack={() => navigation.goBack()}
+        rightAction={
+          items.length > 0 ? (
+            <TouchableOpacity
+              onPress={handleEmptyTrash}
+              className="w-10 h-10 rounded-xl bg-red-500 items-center justify-center"
+            >
+              <Trash2 size={20} color="#ffffff" />
+            </TouchableOpacity>
+          ) : undefined
+        }
+      />
+
+      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+        {/* Retention */}
+        {settings && (
+          <View className="mt-4">
+            {renderSectionTitle(t('trash.retention'))}
+            <View className={isDark ? 'bg-slate-800' : 'bg-white'} style={SHADOWS.sm}>
+              <ListItem
+                title={t('trash.keepFor')}
+                subtitle={t('trash.keepForHint')}
+                leftIcon={
+                  <View className="w-9 h-9 rounded-xl bg-amber-100 items-center justify-center">
+                    <Timer size={18} color="#d97706" />
+                  </View>
+                }
+                rightContent={
+                  <Text className={`text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                    {t('trash.days', { count: settings.trashRetentionDays })}
+                  </Text>
+                }
+                showChevron
+                onPress={() => setShowRetentionPicker(true)}
+              />
+            </View>
+          </View>
+        )}
+
+        {/* Deleted items */}
+        <View className="mt-6 pb-8">
+          {renderSectionTitle(t('trash.items'))}
+          {items.length === 0 && !loading ? (
+            <View className="items-center py-10 px-8">
+              <View className={`w-16 h-16 rounded-2xl items-center justify-center mb-4 ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}>
+                <Trash size={32} color={isDark ? COLORS.slate[600] : COLORS.slate[400]} />
+              </View>
+              <Text className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`}>
+                {t('trash.noItems')}
+              </Text>
+              <Text className={`text-sm mt-1 text-center ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                {t('trash.noItemsHint')}
+              </Text>
+            </View>
+          ) : (
+            <View className="gap-2 px-5">
+              {items.map(item => {
+                const children = describeChildren(item);
+                return (
+                  <Card key={item.id} variant="default" padding="none">
+                    <TouchableOpacity
+                      onPress={() => handleItemPress(item)}
+                      className="flex-row items-center p-4"
+                      activeOpacity={0.7}
+                    >
+                      <View className="flex-1">
+                        <Text className={`text-base font-semibold ${isDark ? 'text-white' : 'text-slate-900'}`} numberOfLines={1}>
+                          {item.label}
+                        </Text>
+                        <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                          {t(`trash.types.${item.tableName}`)} · {t('trash.deletedAgo', { time: formatRelative(item.deletedAt) })}
+                        </Text>
+                        {children !== '' && (
+                          <Text className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+                            {t('trash.includes', { items: children })}
+                          </Text>
+                        )}
+                        <Text className={`text-xs ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                          {t('trash.daysLeft', { count: getDaysLeft(item) })}
+                        </Text>
+                      </View>
+                      <RotateCcw size={18} color={isDark ? COLORS.slate[400] : COLORS.slate[500]} />
+                    </TouchableOpacity>
+                  </Card>
+                );
+              })}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      <SelectDialog
+        visible={showRetentionPicker}
+        title={t('trash.keepFor')}
+        message={t('trash.keepForHint')}
+        options={RETENTION_DAYS.map(days => ({ label: t('trash.days', { count: days }), value: String(days) }))}
+        cancelText={t('common.cancel')}
+        onCancel={() => setShowRetentionPicker(false)}
+        onSelect={handleRetentionSelect}
+      />
+    </View>
+  );
+}
@@ -7,6 +7,9 @@ import {
   TouchableOpacity,
   Animated,
   Dimensions,
+  ActivityIndicator,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
@@ -33,13 +36,17 @@ import { COLORS, EXPENSE_TYPES } from '../../constants/theme';
 import { expenseRepository, maintenanceRepository, propertyRepository } from '../../services/database';
 import { Expense, MaintenanceTask, ExpenseType } from '../../types';
 import { RootStackParamList } from '../../navigation/types';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
 import { format, isToday, isYesterday, isThisWeek, isThisMonth, isFuture } from 'date-fns';
 import { tr } from 'date-fns/locale';
 import { useTheme, useTranslation } from '../../contexts';
+import { useQuery, usePaginatedQuery } from '../../hooks';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
+// Distance from the end of the list at which the next page of expenses loads
+const LOAD_MORE_THRESHOLD = 400;
+
 type FilterType = 'all' | 'expense' | 'maintenance' | 'upcoming' | 'overdue';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -51,6 +58,7 @@ interface TimelineItem {
   title: string;
   subtitle?: string;
   amount?: number;
+  currency?: string;
   expenseType?: ExpenseType;
   maintenanceStatus?: 'upcoming' | 'due_soon' | 'overdue' | 'completed';
   propertyId?: string;
@@ -327,7 +335,7 @@ const TimelineItemCard = ({
                 {item.type === 'expense' && item.amount !== undefined ? (
                   <View className="items-end">
                     <Text className={`text-lg font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                      {formatCurrency(item.amount)}
+                      {formatCurrency(item.amount, item.currency)}
                     </Text>
                   </View>
                 ) : (
@@ -347,9 +355,6 @@ export function TimelineScreen() {
   const insets = useSafeAreaInsets();
   const { isDark } = useTheme();
   const { t, language } = useTranslation();
-  const [items, setItems] = useState<TimelineItem[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
   const [activeFilter, setActiveFilter] = useState<FilterType>('all');
 
   // Header animation
@@ -367,82 +372,117 @@ export function TimelineScreen() {
     { key: 'overdue', label: t('timeline.filters.overdue'), icon: <AlertCircle size={16} />, color: COLORS.error },
   ];
 
-  const loadData = useCallback(async () => {
-    try {
-      const properties = await propertyRepository.getAll();
-      const propertyMap = new Map(properties.map(p => [p.id, p.name]));
-
-      // Load expenses
-      const allExpenses = await expenseRepository.getAll();
-      const expenseItems: TimelineItem[] = allExpenses.map(expense => ({
-        id: expense.id,
-        type: 'expense' as const,
-        date: expense.date,
-        title: expense.description,
-        subtitle: expense.category,
-        amount: expense.amount,
-        expenseType: expense.type,
-        propertyId: expense.propertyId,
-        propertyName: propertyMap.get(expense.propertyId),
-      }));
-
-      // Load maintenance tasks
-      const allTasks: MaintenanceTask[] = [];
-      for (const property of properties) {
-        const tasks = await maintenanceRepository.getByPropertyId(property.id);
-        allTasks.push(...tasks);
-      }
+  // Expenses are read a page at a time as the list scrolls; tasks, property
+  // names and the stats are small enough to load whole
+  const {
+    items: expenses,
+    loading: expensesLoading,
+    refreshing,
+    loadingMore,
+    hasMore,
+    loadMore,
+    refresh: refreshExpenses,
+  } = usePaginatedQuery(
+    (cursor, limit) => expenseRepository.getPage({}, cursor, limit),
+    ['expenses', 'expense_splits']
+  );
+
+  const { data: overview, loading: overviewLoading, refresh: refreshOverview } = useQuery(async () => {
+    const now = new Date();
+    const properties = await propertyRepository.getAll();
+    const [summary, monthTotal] = await Promise.all([
+      expenseRepository.getSummary(),
+      expenseRepository.getMonthlyTotal(now.getFullYear(), now.getMonth() + 1),
+    ]);
 
-      const now = new Date();
-      const maintenanceItems: TimelineItem[] = allTasks.map(task => {
-        const dueDate = new Date(task.nextDueDate);
-        const daysUntilDue = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-
-        let status: TimelineItem['maintenanceStatus'] = 'upcoming';
-        if (task.isCompleted) status = 'completed';
-        else if (daysUntilDue < 0) status = 'overdue';
-        else if (daysUntilDue <= task.reminderDaysBefore) status = 'due_soon';
-
-        return {
-          id: task.id,
-          type: 'maintenance' as const,
-          date: task.nextDueDate,
-          title: task.title,
-          subtitle: task.description,
-          maintenanceStatus: status,
-          propertyId: task.propertyId,
-          propertyName: propertyMap.get(task.propertyId),
-        };
-      });
-
-      setItems([...expenseItems, ...maintenanceItems]);
-    } catch (error) {
-      console.error('Failed to load timeline:', error);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
+    // Load maintenance tasks
+    const tasks: MaintenanceTask[] = [];
+    for (const property of properties) {
+      tasks.push(...await maintenanceRepository.getByPropertyId(property.id));
     }
-  }, []);
+
+    return {
+      propertyNames: new Map(properties.map(p => [p.id, p.name])),
+      tasks,
+      expenseCount: summary.count,
+      thisMonthTotal: monthTotal,
+    };
+  }, ['properties', 'expenses', 'expense_splits', 'exchange_rates', 'app_settings', 'maintenance_tasks']);
+
+  const loading = expensesLoading || overviewLoading;
+
+  const items = useMemo<TimelineItem[]>(() => {
+    const propertyNames = overview?.propertyNames ?? new Map<string, string>();
+
+    const expenseItems: TimelineItem[] = expenses.map(expense => ({
+      id: expense.id,
+      type: 'expense' as const,
+      date: expense.date,
+      title: expense.description,
+      subtitle: expense.category,
+      amount: expense.amount,
+      currency: expense.currency,
+      expenseType: expense.type,
+      propertyId: expense.propertyId,
+      propertyName: propertyNames.get(expense.propertyId),
+    }));
+
+    const now = new Date();
+    const maintenanceItems: TimelineItem[] = (overview?.tasks ?? []).map(task => {
+      const dueDate = new Date(task.nextDueDate);
+      const daysUntilDue = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+
+      let status: TimelineItem['maintenanceStatus'] = 'upcoming';
+      if (task.isCompleted) status = 'completed';
+      else if (daysUntilDue < 0) status = 'overdue';
+      else if (daysUntilDue <= task.reminderDaysBefore) status = 'due_soon';
+
+      return {
+        id: task.id,
+        type: 'maintenance' as const,
+        date: task.nextDueDate,
+        title: task.title,
+        subtitle: task.description,
+        maintenanceStatus: status,
+        propertyId: task.propertyId,
+        propertyName: propertyNames.get(task.propertyId),
+      };
+    });
+
+    return [...expenseItems, ...maintenanceItems];
+  }, [expenses, overview]);
 
   useFocusEffect(
     useCallback(() => {
-      loadData();
       Animated.spring(headerAnim, {
         toValue: 1,
         friction: 8,
         tension: 40,
         useNativeDriver: true,
       }).start();
-    }, [loadData])
+    }, [])
   );
 
   const onRefresh = () => {
-    setRefreshing(true);
-    loadData();
+    refreshExpenses();
+    refreshOverview();
   };
 
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_THRESHOLD) {
+      loadMore();
+    }
+  };
+
+  // Until every expense is loaded, tasks older than the last one shown would
+  // sit between expenses that have not been fetched yet
+  const oldestLoadedDate = hasMore && expenses.length > 0 ? expenses[expenses.length - 1].date : null;
+
   const filteredItems = items.filter((item) => {
-    if (activeFilter === 'all') return true;
+    if (activeFilter === 'all') {
+      return !oldestLoadedDate || item.type === 'expense' || item.date >= oldestLoadedDate;
+    }
     if (activeFilter === 'expense') return item.type === 'expense';
     if (activeFilter === 'maintenance') return item.type === 'maintenance';
     if (activeFilter === 'upcoming') {
@@ -480,12 +520,9 @@ export function TimelineScreen() {
   }, [groupedItems, activeFilter]);
 
   // Calculate stats
-  const thisMonthTotal = items
-    .filter((item) => item.type === 'expense' && isThisMonth(new Date(item.date)))
-    .reduce((sum, item) => sum + (item.amount || 0), 0);
-
+  const thisMonthTotal = overview?.thisMonthTotal ?? 0;
   const overdueCount = items.filter(i => i.type === 'maintenance' && i.maintenanceStatus === 'overdue').length;
-  const expenseCount = items.filter(i => i.type === 'expense').length;
+  const expenseCount = overview?.expenseCount ?? 0;
 
   const handleItemPress = (item: TimelineItem) => {
     if (item.type === 'expense') {
@@ -580,7 +617,7 @@ export function TimelineScreen() {
                   {t('home.thisMonth')}
                 </Text>
                 <Text className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                  {formatCurrency(thisMonthTotal)}
+                  {formatCurrency(thisMonthTotal, getReportingCurrency())}
                 </Text>
               </View>
             </View>
@@ -600,6 +637,8 @@ export function TimelineScreen() {
         className="flex-1"
         contentContainerStyle={{ paddingBottom: 120, paddingTop: 16 }}
         showsVerticalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -608,7 +647,7 @@ export function TimelineScreen() {
           />
         }
       >
-        {filteredItems.length === 0 && !loading ? (
+        {filteredItems.length === 0 && !loading && !hasMore ? (
           <View className="flex-1 pt-12 px-8">
             <EmptyState
               icon={activeFilter === 'overdue'
@@ -659,6 +698,11 @@ export function TimelineScreen() {
                 </View>
               </View>
             ))}
+            {loadingMore && (
+              <View className="py-4">
+                <ActivityIndicator color={COLORS.primary[600]} />
+              </View>
+            )}
           </View>
         )}
       </ScrollView>
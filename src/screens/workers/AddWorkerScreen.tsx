@@ -24,11 +24,13 @@ import {
   Users,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { workerRepository } from '../../services/database';
+import { CustomFieldValues } from '../../types';
+import { workerRepository, customFieldValueRepository } from '../../services/database';
 import { Button, Input, IconButton, TextArea } from '../../components/ui';
+import { CustomFieldInputs } from '../../components/CustomFieldInputs';
 import { COLORS, WORKER_SPECIALTIES, SHADOWS } from '../../constants/theme';
 import { useToast, useTheme, useTranslation } from '../../contexts';
-import { validateEmail, validatePhone } from '../../utils/validation';
+import { validateEmail, validatePhone, describeSaveError } from '../../utils/validation';
 import { getImageQuality } from '../../utils/image';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -48,6 +50,7 @@ export function AddWorkerScreen() {
   const [rating, setRating] = useState<number | undefined>();
   const [notes, setNotes] = useState('');
   const [imageUri, setImageUri] = useState<string | undefined>();
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
   const [loading, setLoading] = useState(false);
 
   const handlePickImage = async () => {
@@ -133,7 +136,7 @@ export function AddWorkerScreen() {
     setLoading(true);
 
     try {
-      await workerRepository.create({
+      const worker = await workerRepository.create({
         name: name.trim(),
         phone: phone.trim() || undefined,
         email: email.trim() || undefined,
@@ -143,12 +146,13 @@ export function AddWorkerScreen() {
         notes: notes.trim() || undefined,
         imageUri,
       });
+      await customFieldValueRepository.save('worker', worker.id, customValues);
 
       showSuccess(t('worker.createSuccess'));
       navigation.goBack();
     } catch (error) {
       console.error('Failed to create worker:', error);
-      showError(t('worker.createError'));
+      showError(describeSaveError(error, t('worker.createError'), t));
     } finally {
       setLoading(false);
     }
@@ -345,6 +349,8 @@ export function AddWorkerScreen() {
             rows={3}
             containerClassName="mb-4"
           />
+
+          <CustomFieldInputs entityType="worker" values={customValues} onChange={setCustomValues} />
         </ScrollView>
       </KeyboardAvoidingView>
     </View>
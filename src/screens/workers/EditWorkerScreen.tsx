@@ -23,10 +23,13 @@ import {
   Users,
 } from 'lucide-react-native';
 import { RootStackParamList } from '../../navigation/types';
-import { workerRepository } from '../../services/database';
+import { CustomFieldValues } from '../../types';
+import { workerRepository, customFieldValueRepository } from '../../services/database';
 import { Button, Input, IconButton, TextArea } from '../../components/ui';
+import { CustomFieldInputs } from '../../components/CustomFieldInputs';
 import { COLORS, WORKER_SPECIALTIES } from '../../constants/theme';
 import { useTheme, useTranslation } from '../../contexts';
+import { describeSaveError } from '../../utils/validation';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type EditWorkerRouteProp = RouteProp<RootStackParamList, 'EditWorker'>;
@@ -47,6 +50,7 @@ export function EditWorkerScreen() {
   const [rating, setRating] = useState<number | undefined>();
   const [notes, setNotes] = useState('');
   const [imageUri, setImageUri] = useState<string | undefined>();
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
 
@@ -62,6 +66,7 @@ export function EditWorkerScreen() {
         setRating(worker.rating);
         setNotes(worker.notes || '');
         setImageUri(worker.imageUri);
+        setCustomValues(await customFieldValueRepository.getByEntity('worker', workerId));
       }
     } catch (error) {
       console.error('Failed to load worker:', error);
@@ -131,11 +136,12 @@ export function EditWorkerScreen() {
         notes: notes.trim() || undefined,
         imageUri,
       });
+      await customFieldValueRepository.save('worker', workerId, customValues);
 
       navigation.goBack();
     } catch (error) {
       console.error('Failed to update worker:', error);
-      Alert.alert(t('common.error'), t('worker.alerts.updateError'));
+      Alert.alert(t('common.error'), describeSaveError(error, t('worker.alerts.updateError'), t));
     } finally {
       setLoading(false);
     }
@@ -339,6 +345,8 @@ export function EditWorkerScreen() {
             rows={3}
             containerClassName="mb-4"
           />
+
+          <CustomFieldInputs entityType="worker" values={customValues} onChange={setCustomValues} />
         </ScrollView>
       </KeyboardAvoidingView>
     </View>
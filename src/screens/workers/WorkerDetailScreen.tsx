@@ -40,10 +40,11 @@ import * as Haptics from 'expo-haptics';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { RootStackParamList } from '../../navigation/types';
 import { Worker, Expense, MaintenanceTaskWithWorker, MaintenanceCompletionWithWorker, WorkerNote } from '../../types';
-import { workerRepository, expenseRepository, maintenanceRepository, maintenanceCompletionRepository, workerNoteRepository } from '../../services/database';
+import { workerRepository, expenseRepository, maintenanceRepository, maintenanceCompletionRepository, workerNoteRepository, exchangeRateRepository, sumInReportingCurrency, CurrencyConverter } from '../../services/database';
 import { ScreenHeader, Card, PressableCard, Button, IconButton, Badge, EmptyState } from '../../components/ui';
+import { CustomFieldList } from '../../components/CustomFieldInputs';
 import { COLORS, EXPENSE_TYPES } from '../../constants/theme';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
 import { formatDate, formatRelativeDate, getCurrentISODate } from '../../utils/date';
 import { useTheme, useTranslation } from '../../contexts';
 
@@ -59,6 +60,7 @@ export function WorkerDetailScreen() {
 
   const [worker, setWorker] = useState<Worker | null>(null);
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [convert, setConvert] = useState<CurrencyConverter>(() => (amount: number) => amount);
   const [assignedTasks, setAssignedTasks] = useState<MaintenanceTaskWithWorker[]>([]);
   const [completedTasks, setCompletedTasks] = useState<MaintenanceCompletionWithWorker[]>([]);
   const [workerNotes, setWorkerNotes] = useState<WorkerNote[]>([]);
@@ -74,15 +76,17 @@ export function WorkerDetailScreen() {
 
   const loadData = useCallback(async () => {
     try {
-      const [workerData, expensesData, assignedTasksData, completedTasksData, notesData] = await Promise.all([
+      const [workerData, expensesData, assignedTasksData, completedTasksData, notesData, converter] = await Promise.all([
         workerRepository.getById(workerId),
         expenseRepository.getByWorkerId(workerId),
         maintenanceRepository.getByAssignedWorkerId(workerId),
         maintenanceCompletionRepository.getByWorkerId(workerId),
         workerNoteRepository.getByWorkerId(workerId),
+        exchangeRateRepository.getConverter(),
       ]);
       setWorker(workerData);
       setExpenses(expensesData);
+      setConvert(() => converter);
       setAssignedTasks(assignedTasksData);
       setCompletedTasks(completedTasksData);
       setWorkerNotes(notesData);
@@ -252,7 +256,7 @@ export function WorkerDetailScreen() {
     );
   }
 
-  const totalExpenses = expenses.reduce((sum, e) => sum + e.amount, 0);
+  const totalExpenses = sumInReportingCurrency(expenses, convert);
   const recentExpenses = expenses.slice(0, 5);
 
   // Render star rating
@@ -406,7 +410,7 @@ export function WorkerDetailScreen() {
               </View>
             </View>
             <Text className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-              {formatCurrency(totalExpenses)}
+              {formatCurrency(totalExpenses, getReportingCurrency())}
             </Text>
             <Text className={`text-xs mt-0.5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{t('worker.totalPaid')}</Text>
           </Card>
@@ -496,6 +500,8 @@ export function WorkerDetailScreen() {
           </View>
         )}
 
+        <CustomFieldList entityType="worker" entityId={worker.id} className="px-5 mt-5" />
+
         {/* Worker Notes (Dated Notes) */}
         <View className="px-5 mt-5">
           <View className="flex-row items-center justify-between mb-3">
@@ -741,7 +747,7 @@ export function WorkerDetailScreen() {
                         </View>
                       </View>
                       <Text className={`text-base font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>
-                        {formatCurrency(expense.amount)}
+                        {formatCurrency(expense.amount, expense.currency)}
                       </Text>
                     </View>
                   </PressableCard>
@@ -20,7 +20,7 @@ import { Worker } from '../../types';
 import { workerRepository } from '../../services/database';
 import { EmptyState, IconButton, Card, PressableCard, Avatar } from '../../components/ui';
 import { COLORS } from '../../constants/theme';
-import { formatCurrency } from '../../utils/currency';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
 import { useTheme, useTranslation } from '../../contexts';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -138,7 +138,7 @@ export function WorkersScreen() {
             <View className={`flex-1 flex-row items-center rounded-xl px-3 py-2.5 ${isDark ? 'bg-primary-900/30' : 'bg-primary-50'}`}>
               <DollarSign size={18} color={COLORS.primary[isDark ? 400 : 600]} />
               <Text className={`text-sm font-semibold ml-1 ${isDark ? 'text-primary-400' : 'text-primary-700'}`}>
-                {formatCurrency(totalPaid)} {t('worker.paid')}
+                {formatCurrency(totalPaid, getReportingCurrency())} {t('worker.paid')}
               </Text>
             </View>
           </View>
@@ -262,7 +262,7 @@ export function WorkersScreen() {
                     )}
                   </View>
                   <Text className={`text-sm font-semibold ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
-                    {formatCurrency(worker.totalPaid)} {t('worker.total')}
+                    {formatCurrency(worker.totalPaid, getReportingCurrency())} {t('worker.total')}
                   </Text>
                 </View>
               </PressableCard>
@@ -0,0 +1,267 @@
+import { Paths, File, Directory } from 'expo-file-system';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { AppSettings } from '../../types';
+import { settingsRepository } from '../database';
+import { backupService, BackupManifest } from './backupService';
+import { BackupArchive, isBackupArchive, writeBackupArchive } from './backupArchive';
+import { BackupMediaFile, getSnapshotMediaDirectory } from './backupMedia';
+
+// A backup kept in the app's own backups directory
+export interface BackupSnapshot {
+  fileName: string;
+  uri: string;
+  createdAt: string;
+  size: number;
+  manifest: BackupManifest;
+}
+
+const SNAPSHOT_PREFIX = 'snapshot-';
+// Manifests are also written next to each snapshot so the history list
+// doesn't have to read whole archives with their media
+const MANIFEST_SUFFIX = '.manifest.json';
+
+// Days that must pass before the next automatic backup
+function getIntervalDays(settings: AppSettings): number | null {
+  switch (settings.autoBackupFrequency) {
+    case 'daily':
+      return 1;
+    case 'weekly':
+      return 7;
+    case 'foreground':
+      return Math.max(1, settings.autoBackupIntervalDays);
+    default:
+      return null;
+  }
+}
+
+// Keeps the newest snapshot of each of the last keepDaily days and of each
+// of the last keepMonthly months, and always the newest snapshot overall.
+// Snapshots must be sorted newest first.
+export function selectSnapshotsToKeep(
+  snapshots: BackupSnapshot[],
+  keepDaily: number,
+  keepMonthly: number
+): Set<string> {
+  const keep = new Set<string>();
+  if (snapshots.length > 0) {
+    keep.add(snapshots[0].fileName);
+  }
+  const days = new Set<string>();
+  const months = new Set<string>();
+
+  for (const snapshot of snapshots) {
+    const date = parseISO(snapshot.createdAt);
+    const day = format(date, 'yyyy-MM-dd');
+    const month = format(date, 'yyyy-MM');
+
+    if (!days.has(day) && days.size < keepDaily) {
+      days.add(day);
+      keep.add(snapshot.fileName);
+    }
+    if (!months.has(month) && months.size < keepMonthly) {
+      months.add(month);
+      keep.add(snapshot.fileName);
+    }
+  }
+
+  return keep;
+}
+
+// Newest first. Snapshots whose manifest can't be read are left out and
+// only counted.
+async function readSnapshots(directory: Directory): Promise<{ snapshots: BackupSnapshot[]; unreadable: number }> {
+  if (!directory.exists) return { snapshots: [], unreadable: 0 };
+
+  const snapshots: BackupSnapshot[] = [];
+  let unreadable = 0;
+  for (const entry of directory.list()) {
+    if (!(entry instanceof File) || !entry.name.startsWith(SNAPSHOT_PREFIX) || entry.name.endsWith(MANIFEST_SUFFIX)) {
+      continue;
+    }
+    try {
+      const manifestFile = new File(directory, entry.name + MANIFEST_SUFFIX);
+      let manifest: BackupManifest;
+      if (manifestFile.exists) {
+        manifest = JSON.parse(await manifestFile.text());
+      } else if (isBackupArchive(entry)) {
+        manifest = BackupArchive.open(entry).readData().manifest;
+      } else {
+        manifest = JSON.parse(await entry.text()).manifest;
+      }
+      snapshots.push({
+        fileName: entry.name,
+        uri: entry.uri,
+        createdAt: manifest.createdAt,
+        size: entry.size,
+        manifest,
+      });
+    } catch (e) {
+      console.log('Error reading backup snapshot:', entry.name, e);
+      unreadable++;
+    }
+  }
+
+  snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return { snapshots, unreadable };
+}
+
+// Copies each media file into the snapshot media store under the hash of its
+// contents, unless an earlier snapshot already did, so snapshots share one
+// copy of every file instead of each bundling its own
+function storeSnapshotMedia(files: BackupMediaFile[]): BackupMediaFile[] {
+  const directory = getSnapshotMediaDirectory();
+  directory.create({ intermediates: true, idempotent: true });
+
+  const stored: BackupMediaFile[] = [];
+  for (const mediaFile of files) {
+    try {
+      const source = new File(mediaFile.sourceUri);
+      const hash = source.md5;
+      if (!hash) continue;
+      const extension = mediaFile.path.match(/\.[a-zA-Z0-9]{1,5}$/)?.[0]?.toLowerCase() ?? '';
+      const target = new File(directory, `${hash}${extension}`);
+      if (!target.exists) {
+        source.copy(target);
+      }
+      stored.push({ ...mediaFile, stored: target.name });
+    } catch (e) {
+      console.log('Error storing snapshot media:', mediaFile.sourceUri, e);
+    }
+  }
+  return stored;
+}
+
+function deleteSnapshotFiles(directory: Directory, fileName: string): void {
+  for (const name of [fileName, fileName + MANIFEST_SUFFIX]) {
+    const file = new File(directory, name);
+    if (file.exists) {
+      file.delete();
+    }
+  }
+}
+
+let isRunning = false;
+// The launch call and an immediate foreground call share one check, so they
+// cannot both find a snapshot due and write two
+let pendingRun: Promise<BackupSnapshot | null> | null = null;
+
+async function snapshotIfDue(): Promise<BackupSnapshot | null> {
+  if (isRunning) return null;
+
+  const settings = await settingsRepository.get();
+  const intervalDays = getIntervalDays(settings);
+  if (intervalDays === null) return null;
+
+  if (settings.lastAutoBackupAt) {
+    const elapsed = differenceInCalendarDays(new Date(), parseISO(settings.lastAutoBackupAt));
+    if (elapsed < intervalDays) return null;
+  }
+
+  return autoBackupService.createSnapshot();
+}
+
+export const autoBackupService = {
+  // Snapshots live in documents rather than cache so the OS doesn't purge them
+  get directory(): Directory {
+    return new Directory(Paths.document, 'backups');
+  },
+
+  // Called on launch and whenever the app returns to the foreground. The OS
+  // gives no reliable background slot, so schedules are caught up on open.
+  runIfDue(): Promise<BackupSnapshot | null> {
+    pendingRun ??= snapshotIfDue().finally(() => {
+      pendingRun = null;
+    });
+    return pendingRun;
+  },
+
+  // Writes an unencrypted snapshot; it stays inside the app sandbox and is
+  // never shared, so there is no password to ask for
+  async createSnapshot(): Promise<BackupSnapshot> {
+    isRunning = true;
+    try {
+      const directory = this.directory;
+      directory.create({ intermediates: true, idempotent: true });
+
+      const backupData = await backupService.createBackupData();
+      const media = storeSnapshotMedia(backupData.media ?? []);
+      const manifest: BackupManifest = {
+        ...backupData.manifest,
+        media: backupData.manifest.media && {
+          ...backupData.manifest.media,
+          files: media.length,
+          bytes: media.reduce((sum, mediaFile) => sum + mediaFile.size, 0),
+          stored: media.map(mediaFile => mediaFile.stored as string),
+        },
+      };
+      const timestamp = manifest.createdAt.replace(/[:.]/g, '-');
+      const fileName = `${SNAPSHOT_PREFIX}${timestamp}.zip`;
+
+      const file = new File(directory, fileName);
+      await writeBackupArchive(file, { ...backupData, manifest, media });
+
+      const manifestFile = new File(directory, fileName + MANIFEST_SUFFIX);
+      manifestFile.create({ overwrite: true });
+      manifestFile.write(JSON.stringify(manifest));
+
+      const settings = await settingsRepository.update({ lastAutoBackupAt: manifest.createdAt });
+      await this.applyRetention(settings.backupKeepDaily, settings.backupKeepMonthly);
+
+      return {
+        fileName,
+        uri: file.uri,
+        createdAt: manifest.createdAt,
+        size: file.size,
+        manifest,
+      };
+    } finally {
+      isRunning = false;
+    }
+  },
+
+  // Newest first
+  async listSnapshots(): Promise<BackupSnapshot[]> {
+    return (await readSnapshots(this.directory)).snapshots;
+  },
+
+  async deleteSnapshot(fileName: string): Promise<void> {
+    deleteSnapshotFiles(this.directory, fileName);
+    await this.removeUnusedMedia();
+  },
+
+  // Returns how many snapshots were removed
+  async applyRetention(keepDaily: number, keepMonthly: number): Promise<number> {
+    const snapshots = await this.listSnapshots();
+    const keep = selectSnapshotsToKeep(snapshots, keepDaily, keepMonthly);
+    let removed = 0;
+
+    for (const snapshot of snapshots) {
+      if (!keep.has(snapshot.fileName)) {
+        deleteSnapshotFiles(this.directory, snapshot.fileName);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      await this.removeUnusedMedia();
+    }
+    return removed;
+  },
+
+  // Deletes files in the snapshot media store that no snapshot uses any more
+  async removeUnusedMedia(): Promise<void> {
+    const directory = getSnapshotMediaDirectory();
+    if (!directory.exists) return;
+
+    // A snapshot whose manifest can't be read may still use any of the
+    // files, so nothing is deleted until every manifest reads again
+    const { snapshots, unreadable } = await readSnapshots(this.directory);
+    if (unreadable > 0) return;
+    const used = new Set(snapshots.flatMap(snapshot => snapshot.manifest.media?.stored ?? []));
+    for (const entry of directory.list()) {
+      if (entry instanceof File && !used.has(entry.name)) {
+        entry.delete();
+      }
+    }
+  },
+};
@@ -0,0 +1,212 @@
+import { File } from 'expo-file-system';
+import { Zip, ZipDeflate, ZipPassThrough, inflateSync, strToU8, strFromU8 } from 'fflate';
+import type { BackupData } from './backupService';
+import { BackupMediaFile } from './backupMedia';
+
+// A backup is a zip archive: the manifest and records as one JSON entry and
+// every media file as an entry of its own. Files are written and read one at
+// a time through a file handle, so no backup has to fit in memory whole.
+const DATA_ENTRY = 'backup.json';
+// Present in encrypted archives, which seal every entry on its own
+const ENCRYPTION_ENTRY = 'encryption.json';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+// The end of central directory record, and the longest comment it can carry
+const END_OF_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+// Seals and opens archive entries with a key derived from the password.
+// The entry name is authenticated with its contents, so entries cannot be
+// swapped around.
+export interface ArchiveCipher {
+  // Stored in clear as the encryption entry
+  header: string;
+  seal(data: Uint8Array, entry: string): Uint8Array;
+  open(data: Uint8Array, entry: string): Uint8Array;
+}
+
+interface ArchiveEntry {
+  compression: number;
+  compressedSize: number;
+  headerOffset: number;
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (readUint16(bytes, offset) | (readUint16(bytes, offset + 2) << 16)) >>> 0;
+}
+
+// Whether the file starts like a zip archive rather than a JSON or text backup
+export function isBackupArchive(file: File): boolean {
+  const handle = file.open();
+  try {
+    const signature = handle.readBytes(4);
+    return signature.length === 4 && readUint32(signature, 0) === LOCAL_HEADER_SIGNATURE;
+  } finally {
+    handle.close();
+  }
+}
+
+// Writes a backup to target. Media files are read from their source one at
+// a time; ones stored elsewhere (automatic snapshots) or gone since the
+// backup was gathered are left out, and the records list only what was
+// written. Encrypted archives name media entries by number so file names do
+// not show.
+export async function writeBackupArchive(target: File, backup: BackupData, cipher?: ArchiveCipher): Promise<void> {
+  target.create({ overwrite: true });
+  const handle = target.open();
+  let failure: Error | null = null;
+  const zip = new Zip((error, chunk) => {
+    if (error) {
+      failure = error;
+    } else {
+      handle.writeBytes(chunk);
+    }
+  });
+
+  // Sealed data does not compress, so only plain archives deflate the records
+  const addEntry = (name: string, data: Uint8Array, compress: boolean) => {
+    const entry = compress && !cipher ? new ZipDeflate(name, { level: 6 }) : new ZipPassThrough(name);
+    zip.add(entry);
+    entry.push(cipher ? cipher.seal(data, name) : data, true);
+    if (failure) throw failure;
+  };
+
+  try {
+    const media: BackupMediaFile[] = [];
+    for (const mediaFile of backup.media ?? []) {
+      if (mediaFile.stored) {
+        media.push(mediaFile);
+        continue;
+      }
+      const entry = cipher ? `media/${media.length}` : `media/${mediaFile.path}`;
+      try {
+        const bytes = await new File(mediaFile.sourceUri).bytes();
+        addEntry(entry, bytes, false);
+        media.push({ path: mediaFile.path, sourceUri: mediaFile.sourceUri, size: bytes.length, entry });
+      } catch (e) {
+        if (failure) throw e;
+        console.log('Error reading media file:', mediaFile.sourceUri, e);
+      }
+    }
+
+    const manifest = {
+      ...backup.manifest,
+      media: backup.manifest.media && {
+        ...backup.manifest.media,
+        files: media.length,
+        bytes: media.reduce((sum, file) => sum + file.size, 0),
+      },
+    };
+    const data = strToU8(JSON.stringify({ ...backup, manifest, media }));
+    if (cipher) {
+      // Stored as it is, since the header is what opens everything else
+      const header = new ZipPassThrough(ENCRYPTION_ENTRY);
+      zip.add(header);
+      header.push(strToU8(cipher.header), true);
+    }
+    addEntry(DATA_ENTRY, data, true);
+    zip.end();
+    if (failure) throw failure;
+  } finally {
+    handle.close();
+  }
+}
+
+// Reads entries of a backup archive through its central directory
+export class BackupArchive {
+  private cipher: ArchiveCipher | null = null;
+
+  private constructor(private file: File, private entries: Map<string, ArchiveEntry>) {}
+
+  static open(file: File): BackupArchive {
+    const handle = file.open();
+    try {
+      const size = handle.size ?? file.size;
+      const tailSize = Math.min(size, END_OF_DIRECTORY_SIZE + MAX_COMMENT_SIZE);
+      handle.offset = size - tailSize;
+      const tail = handle.readBytes(tailSize);
+
+      let end = -1;
+      for (let offset = tail.length - END_OF_DIRECTORY_SIZE; offset >= 0; offset--) {
+        if (readUint32(tail, offset) === END_OF_DIRECTORY_SIGNATURE) {
+          end = offset;
+          break;
+        }
+      }
+      if (end < 0) {
+        throw new Error('Invalid backup archive');
+      }
+
+      const count = readUint16(tail, end + 10);
+      const directorySize = readUint32(tail, end + 12);
+      handle.offset = readUint32(tail, end + 16);
+      const directory = handle.readBytes(directorySize);
+
+      const entries = new Map<string, ArchiveEntry>();
+      let offset = 0;
+      for (let index = 0; index < count; index++) {
+        if (readUint32(directory, offset) !== CENTRAL_HEADER_SIGNATURE) {
+          throw new Error('Invalid backup archive');
+        }
+        const nameLength = readUint16(directory, offset + 28);
+        const name = strFromU8(directory.subarray(offset + 46, offset + 46 + nameLength));
+        entries.set(name, {
+          compression: readUint16(directory, offset + 10),
+          compressedSize: readUint32(directory, offset + 20),
+          headerOffset: readUint32(directory, offset + 42),
+        });
+        offset += 46 + nameLength + readUint16(directory, offset + 30) + readUint16(directory, offset + 32);
+      }
+
+      return new BackupArchive(file, entries);
+    } finally {
+      handle.close();
+    }
+  }
+
+  // The clear-text encryption header, or null when the archive is not encrypted
+  get encryptionHeader(): string | null {
+    return this.entries.has(ENCRYPTION_ENTRY) ? strFromU8(this.readEntry(ENCRYPTION_ENTRY)) : null;
+  }
+
+  // Entries of an encrypted archive are opened with this from now on
+  setCipher(cipher: ArchiveCipher): void {
+    this.cipher = cipher;
+  }
+
+  // The manifest and records. A wrong password fails here.
+  readData(): BackupData {
+    return JSON.parse(strFromU8(this.read(DATA_ENTRY)));
+  }
+
+  read(name: string): Uint8Array {
+    const data = this.readEntry(name);
+    return this.cipher ? this.cipher.open(data, name) : data;
+  }
+
+  private readEntry(name: string): Uint8Array {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new Error(`Backup archive has no ${name}`);
+    }
+    const handle = this.file.open();
+    try {
+      handle.offset = entry.headerOffset;
+      const header = handle.readBytes(30);
+      if (readUint32(header, 0) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error('Invalid backup archive');
+      }
+      handle.offset = entry.headerOffset + 30 + readUint16(header, 26) + readUint16(header, 28);
+      const data = handle.readBytes(entry.compressedSize);
+      return entry.compression === 8 ? inflateSync(data) : data;
+    } finally {
+      handle.close();
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import type { BackupManifest } from './backupService';
+import { BackupCollection } from './backupTables';
+import { BackupMediaFile } from './backupMedia';
+
+// A backup as some earlier version of the app wrote it
+export interface BackupFixture {
+  manifest: Omit<BackupManifest, 'stats'> & { stats: Partial<Record<BackupCollection, number>> };
+  data: Partial<Record<BackupCollection, any[]>>;
+  media?: BackupMediaFile[];
+}
+
+const PROPERTY = {
+  id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c01',
+  name: 'Home',
+  type: 'house',
+  address: '12 Elm Street',
+  createdAt: '2024-03-01T09:00:00.000Z',
+  updatedAt: '2024-03-01T09:00:00.000Z',
+};
+
+const ROOM = {
+  id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c02',
+  propertyId: PROPERTY.id,
+  name: 'Kitchen',
+  type: 'kitchen',
+  createdAt: '2024-03-01T09:05:00.000Z',
+  updatedAt: '2024-03-01T09:05:00.000Z',
+};
+
+const ASSET = {
+  id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c03',
+  propertyId: PROPERTY.id,
+  roomId: ROOM.id,
+  name: 'Dishwasher',
+  category: 'appliance',
+  imageUri: 'file:///data/user/0/com.hometrack/files/images/dishwasher.jpg',
+  createdAt: '2024-03-02T10:00:00.000Z',
+  updatedAt: '2024-03-02T10:00:00.000Z',
+};
+
+const WORKER = {
+  id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c04',
+  name: 'Ali Yilmaz',
+  phone: '+90 555 000 0000',
+  specialty: ['plumber'],
+  createdAt: '2024-03-02T11:00:00.000Z',
+  updatedAt: '2024-03-02T11:00:00.000Z',
+};
+
+const EXPENSE = {
+  id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c05',
+  propertyId: PROPERTY.id,
+  assetId: ASSET.id,
+  workerId: WORKER.id,
+  type: 'repair',
+  category: 'plumbing',
+  amount: 1250,
+  date: '2024-03-05T00:00:00.000Z',
+  isRecurring: false,
+  tags: [],
+  createdAt: '2024-03-05T12:00:00.000Z',
+  updatedAt: '2024-03-05T12:00:00.000Z',
+};
+
+// v1 tasks predate the is_active column
+const TASK_V1 = {
+  id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c06',
+  propertyId: PROPERTY.id,
+  title: 'Descale dishwasher',
+  frequency: 'monthly',
+  nextDueDate: '2024-04-01T00:00:00.000Z',
+  reminderDaysBefore: 3,
+  isCompleted: false,
+  createdAt: '2024-03-06T08:00:00.000Z',
+  updatedAt: '2024-03-06T08:00:00.000Z',
+};
+
+const V1_DATA = {
+  properties: [PROPERTY],
+  rooms: [ROOM],
+  assets: [ASSET],
+  expenses: [EXPENSE],
+  workers: [WORKER],
+  maintenanceTasks: [TASK_V1],
+  paintCodes: [],
+  measurements: [],
+  storageBoxes: [],
+  wifiNetworks: [],
+  documents: [],
+  renovations: [],
+  emergencyShutoffs: [],
+  recurringTemplates: [],
+  notes: [],
+};
+
+function countRecords(data: BackupFixture['data']): BackupFixture['manifest']['stats'] {
+  const stats: BackupFixture['manifest']['stats'] = {};
+  for (const [collection, records] of Object.entries(data) as [BackupCollection, any[]][]) {
+    stats[collection] = records.length;
+  }
+  return stats;
+}
+
+const V2_DATA = {
+  ...V1_DATA,
+  maintenanceTasks: [{ ...TASK_V1, isActive: true }],
+  expenseAssets: [{
+    id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c07',
+    expenseId: EXPENSE.id,
+    assetId: ASSET.id,
+    amount: 1250,
+    createdAt: '2024-03-05T12:00:00.000Z',
+  }],
+  workerNotes: [{
+    id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c08',
+    workerId: WORKER.id,
+    content: 'Prefers mornings',
+    date: '2024-03-05T00:00:00.000Z',
+    createdAt: '2024-03-05T12:10:00.000Z',
+    updatedAt: '2024-03-05T12:10:00.000Z',
+  }],
+  maintenanceCompletions: [],
+  renovationWorkers: [],
+  renovationAssets: [],
+  renovationCosts: [],
+  recurringPaymentHistory: [],
+  customCategories: [],
+  appSettings: [{
+    id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c09',
+    theme: 'system',
+    currency: 'TRY',
+    dateFormat: 'dd/MM/yyyy',
+    biometricEnabled: false,
+    photoQuality: 'high',
+    encryptExports: false,
+    createdAt: '2024-03-01T08:00:00.000Z',
+    updatedAt: '2024-03-01T08:00:00.000Z',
+  }],
+};
+
+// v4 keeps the asset's photo as an attachment instead of on the asset
+const { imageUri: ASSET_IMAGE_URI, ...ASSET_V4 } = ASSET;
+
+const V4_DATA = {
+  ...V2_DATA,
+  assets: [ASSET_V4],
+  payeeRules: [],
+  attachments: [{
+    id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c0a',
+    entityType: 'asset',
+    entityId: ASSET.id,
+    fileUri: ASSET_IMAGE_URI,
+    fileType: 'image',
+    caption: 'Model plate',
+    sortOrder: 0,
+    createdAt: '2024-03-02T10:00:00.000Z',
+    updatedAt: '2024-03-02T10:00:00.000Z',
+  }],
+  customFieldDefinitions: [{
+    id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c0b',
+    entityType: 'asset',
+    name: 'Serial number',
+    fieldType: 'text',
+    options: [],
+    sortOrder: 0,
+    createdAt: '2024-03-02T10:05:00.000Z',
+    updatedAt: '2024-03-02T10:05:00.000Z',
+  }],
+  customFieldValues: [{
+    id: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c0c',
+    definitionId: 'c0a80121-7ac0-4e1c-9c5b-1f1d2a3b4c0b',
+    entityType: 'asset',
+    entityId: ASSET.id,
+    value: 'DW-60-4471',
+    createdAt: '2024-03-02T10:05:00.000Z',
+    updatedAt: '2024-03-02T10:05:00.000Z',
+  }],
+};
+
+// One backup per format version the app has written
+export const BACKUP_FIXTURES: BackupFixture[] = [
+  {
+    manifest: {
+      appVersion: '1.0.0',
+      schemaVersion: 1,
+      createdAt: '2024-03-10T18:00:00.000Z',
+      stats: countRecords(V1_DATA),
+    },
+    data: V1_DATA,
+  },
+  {
+    manifest: {
+      appVersion: '1.0.0',
+      schemaVersion: 2,
+      createdAt: '2024-06-10T18:00:00.000Z',
+      stats: countRecords(V2_DATA),
+    },
+    data: V2_DATA,
+  },
+  {
+    manifest: {
+      appVersion: '1.0.0',
+      schemaVersion: 3,
+      createdAt: '2024-09-10T18:00:00.000Z',
+      stats: countRecords(V2_DATA),
+      media: { files: 1, bytes: 4, missing: [] },
+    },
+    data: V2_DATA,
+    media: [{
+      path: 'assets/0-dishwasher.jpg',
+      sourceUri: ASSET.imageUri,
+      size: 4,
+      base64: '/9j/2Q==',
+    }],
+  },
+  {
+    manifest: {
+      appVersion: '1.0.0',
+      schemaVersion: 4,
+      createdAt: '2026-10-19T18:00:00.000Z',
+      stats: countRecords(V4_DATA),
+      media: { files: 1, bytes: 4, missing: [] },
+    },
+    data: V4_DATA,
+    media: [{
+      path: 'attachments/0-dishwasher.jpg',
+      sourceUri: ASSET_IMAGE_URI,
+      size: 4,
+      base64: '/9j/2Q==',
+    }],
+  },
+  // The records of a v5 archive; its media is an entry of the zip
+  {
+    manifest: {
+      appVersion: '1.0.0',
+      schemaVersion: 5,
+      createdAt: '2026-10-20T18:00:00.000Z',
+      stats: countRecords(V4_DATA),
+      media: { files: 1, bytes: 4, missing: [] },
+    },
+    data: V4_DATA,
+    media: [{
+      path: 'attachments/0-dishwasher.jpg',
+      sourceUri: ASSET_IMAGE_URI,
+      size: 4,
+      entry: 'media/attachments/0-dishwasher.jpg',
+    }],
+  },
+];
@@ -0,0 +1,214 @@
+import { Paths, File, Directory } from 'expo-file-system';
+import { BACKUP_TABLES, BackupCollection } from './backupTables';
+
+// Record fields that point at files inside the app sandbox
+export const MEDIA_FIELDS: Partial<Record<BackupCollection, string[]>> = {
+  properties: ['imageUri'],
+  rooms: ['imageUri'],
+  workers: ['imageUri'],
+  documents: ['fileUri'],
+  paintCodes: ['imageUri'],
+  measurements: ['imageUri'],
+  storageBoxes: ['imageUri'],
+  wifiNetworks: ['qrCodeUri'],
+  emergencyShutoffs: ['imageUri'],
+  renovations: ['beforeImageUri', 'afterImageUri'],
+  attachments: ['fileUri'],
+};
+
+// A media file bundled with a backup
+export interface BackupMediaFile {
+  // Where a restore writes the file, as folder/name
+  path: string;
+  sourceUri: string;
+  size: number;
+  // The archive entry holding the file
+  entry?: string;
+  // The file's name in the snapshot media store, for automatic backups
+  stored?: string;
+  // The file itself, in backups written before v5
+  base64?: string;
+}
+
+// Files of automatic snapshots, kept once however many snapshots use them
+export function getSnapshotMediaDirectory(): Directory {
+  return new Directory(Paths.document, 'backups', 'media');
+}
+
+// Gives the contents of an archive entry
+export interface MediaSource {
+  read(entry: string): Uint8Array;
+}
+
+// A record field whose file could not be bundled or restored
+export interface MissingMediaFile {
+  collection: BackupCollection;
+  recordId: string;
+  field: string;
+  uri: string;
+}
+
+export interface MediaRestoreReport {
+  restored: number;
+  missing: MissingMediaFile[];
+}
+
+type BackupRecords = Partial<Record<BackupCollection, any[]>>;
+
+// Remote and inline URIs are portable as they are
+function isLocalUri(uri: unknown): uri is string {
+  return typeof uri === 'string' && uri.length > 0 && !/^(https?|data):/i.test(uri);
+}
+
+// Names getArchiveName and the snapshot media store write
+const SAFE_NAME = /^[a-zA-Z0-9._-]+$/;
+
+function isSafeName(name: unknown): name is string {
+  return typeof name === 'string' && SAFE_NAME.test(name) && name !== '.' && name !== '..';
+}
+
+// The folder and name a restore writes a file to. Paths come from the
+// backup's manifest, so anything but a collection's folder (including ones
+// that no longer hold media, as in older backups) and a plain file name is
+// refused rather than let out of the restore directory.
+function parseMediaPath(path: unknown): { folder: string; name: string } | null {
+  if (typeof path !== 'string') return null;
+  const parts = path.split('/');
+  if (parts.length !== 2) return null;
+  const [folder, name] = parts;
+  if (!Object.keys(BACKUP_TABLES).includes(folder) || !isSafeName(name)) return null;
+  return { folder, name };
+}
+
+function getArchiveName(uri: string, index: number): string {
+  const baseName = uri.split(/[/\\]/).pop()?.split('?')[0] || 'file';
+  return `${index}-${baseName.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+}
+
+function forEachMediaReference(
+  data: BackupRecords,
+  callback: (collection: BackupCollection, record: any, field: string, uri: string) => void
+): void {
+  for (const [collection, fields] of Object.entries(MEDIA_FIELDS) as [BackupCollection, string[]][]) {
+    for (const record of data[collection] ?? []) {
+      for (const field of fields) {
+        if (isLocalUri(record[field])) {
+          callback(collection, record, field, record[field]);
+        }
+      }
+    }
+  }
+}
+
+// Whether any record in data points at the given URI
+export function isMediaReferenced(data: BackupRecords, uri: string): boolean {
+  let found = false;
+  forEachMediaReference(data, (_collection, _record, _field, referenced) => {
+    if (referenced === uri) found = true;
+  });
+  return found;
+}
+
+// Lists every referenced file for the archive, which reads them when it is
+// written. A file shared by several records is stored once.
+export async function collectMedia(data: BackupRecords): Promise<{ files: BackupMediaFile[]; missing: MissingMediaFile[] }> {
+  const filesByUri = new Map<string, BackupMediaFile>();
+  const missing: MissingMediaFile[] = [];
+  const references: { collection: BackupCollection; record: any; field: string; uri: string }[] = [];
+
+  forEachMediaReference(data, (collection, record, field, uri) => {
+    references.push({ collection, record, field, uri });
+  });
+
+  for (const { collection, record, field, uri } of references) {
+    if (filesByUri.has(uri)) continue;
+    try {
+      const file = new File(uri);
+      if (!file.exists) {
+        missing.push({ collection, recordId: record.id, field, uri });
+        continue;
+      }
+      filesByUri.set(uri, {
+        path: `${collection}/${getArchiveName(uri, filesByUri.size)}`,
+        sourceUri: uri,
+        size: file.size,
+      });
+    } catch (e) {
+      console.log('Error reading media file:', uri, e);
+      missing.push({ collection, recordId: record.id, field, uri });
+    }
+  }
+
+  return { files: Array.from(filesByUri.values()), missing };
+}
+
+// Writes archived files into a fresh directory under the app's documents and
+// rewrites record URIs in place. Files still at their original path are not
+// copied again. References that are neither in the archive nor present on
+// this device are reported as missing.
+export async function restoreMedia(
+  data: BackupRecords,
+  files: BackupMediaFile[] = [],
+  source?: MediaSource
+): Promise<{ report: MediaRestoreReport; directory: Directory | null }> {
+  const uriMap = new Map<string, string>();
+  let directory: Directory | null = null;
+
+  if (files.length > 0) {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    directory = new Directory(Paths.document, 'media', `restore-${timestamp}`);
+    directory.create({ intermediates: true, idempotent: true });
+
+    for (const mediaFile of files) {
+      // Restoring on the device that made the backup leaves files in place
+      if (fileExists(mediaFile.sourceUri)) continue;
+      const path = parseMediaPath(mediaFile.path);
+      if (!path || (mediaFile.stored !== undefined && !isSafeName(mediaFile.stored))) {
+        console.log('Skipping media file with an unexpected path:', mediaFile.path);
+        continue;
+      }
+      try {
+        const targetDir = new Directory(directory, path.folder);
+        targetDir.create({ idempotent: true });
+        const target = new File(targetDir, path.name);
+        if (mediaFile.stored) {
+          const stored = new File(getSnapshotMediaDirectory(), mediaFile.stored);
+          if (!stored.exists) continue;
+          stored.copy(target);
+        } else if (mediaFile.base64 !== undefined) {
+          target.create({ overwrite: true });
+          target.write(mediaFile.base64, { encoding: 'base64' });
+        } else if (mediaFile.entry && source) {
+          const bytes = source.read(mediaFile.entry);
+          target.create({ overwrite: true });
+          target.write(bytes);
+        } else {
+          continue;
+        }
+        uriMap.set(mediaFile.sourceUri, target.uri);
+      } catch (e) {
+        console.log('Error restoring media file:', mediaFile.path, e);
+      }
+    }
+  }
+
+  const missing: MissingMediaFile[] = [];
+  forEachMediaReference(data, (collection, record, field, uri) => {
+    const restoredUri = uriMap.get(uri);
+    if (restoredUri) {
+      record[field] = restoredUri;
+    } else if (!fileExists(uri)) {
+      missing.push({ collection, recordId: record.id, field, uri });
+    }
+  });
+
+  return { report: { restored: uriMap.size, missing }, directory };
+}
+
+function fileExists(uri: string): boolean {
+  try {
+    return new File(uri).exists;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,327 @@
+import { queryAll, queryFirst, execute } from '../database';
+import { BACKUP_TABLES, BackupCollection } from './backupTables';
+import { getRecordLabel, RejectedRecord, validateBackupRecord } from './backupValidation';
+
+// How differing records are resolved when the user doesn't pick per record
+export type MergeStrategy = 'newer' | 'local' | 'incoming';
+export type MergeAction = 'add' | 'update' | 'conflict';
+export type MergeResolution = 'local' | 'incoming';
+
+export interface MergeItem {
+  key: string;
+  collection: BackupCollection;
+  id: string;
+  // Id of the matching local row (differs from id for settings and default categories)
+  localId?: string;
+  label: string;
+  action: MergeAction;
+  changedFields: string[];
+  localUpdatedAt?: string;
+  incomingUpdatedAt?: string;
+}
+
+export interface MergePlan {
+  items: MergeItem[];
+  summary: {
+    adds: number;
+    updates: number;
+    conflicts: number;
+    unchanged: number;
+  };
+}
+
+export interface MergeResult {
+  added: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  // Records left out because they failed validation, also counted as failed
+  rejected: RejectedRecord[];
+}
+
+// Parents before children so foreign keys resolve while inserting
+export const MERGE_ORDER: BackupCollection[] = [
+  'appSettings',
+  'exchangeRates',
+  'customCategories',
+  'customFieldDefinitions',
+  'householdMembers',
+  'settlements',
+  'workers',
+  'workerNotes',
+  'properties',
+  'rooms',
+  'assets',
+  'recurringTemplates',
+  'recurringPaymentHistory',
+  'payeeRules',
+  'budgets',
+  'tenants',
+  'leases',
+  'rentPayments',
+  'expenses',
+  'expenseAssets',
+  'expenseSplits',
+  'maintenanceTasks',
+  'maintenanceCompletions',
+  'paintCodes',
+  'measurements',
+  'storageBoxes',
+  'wifiNetworks',
+  'documents',
+  'renovations',
+  'renovationWorkers',
+  'renovationAssets',
+  'renovationCosts',
+  'emergencyShutoffs',
+  'notes',
+  'attachments',
+  'customFieldValues',
+];
+
+// Settings, and the budget alerts already shown, describe this device rather
+// than the user's data
+const DEVICE_COLUMNS = ['biometric_enabled', 'last_auto_backup_at', 'device_id', 'alerted_period', 'alerted_percent'];
+
+// Whether a record is in this device's trash. Merging never moves records
+// into or out of the trash.
+const TRASH_COLUMNS = ['deleted_at'];
+
+// Columns that never count as a change between two versions of a record
+const IGNORED_COLUMNS = ['created_at', 'updated_at', ...DEVICE_COLUMNS, ...TRASH_COLUMNS];
+
+type Row = Record<string, string | number | null>;
+
+interface ColumnInfo {
+  name: string;
+  dflt_value: string | null;
+}
+
+function snakeToCamel(column: string): string {
+  return column.replace(/_([a-z])/g, (_, char: string) => char.toUpperCase());
+}
+
+// Converts a repository-shaped backup record back into a table row.
+// Columns the record has no value for are left out so their defaults apply.
+function recordToRow(record: any, columns: ColumnInfo[]): Row {
+  const row: Row = {};
+  for (const column of columns) {
+    const value = record[snakeToCamel(column.name)];
+    if (value === undefined) {
+      if (column.dflt_value === null) row[column.name] = null;
+      continue;
+    }
+    if (typeof value === 'boolean') {
+      row[column.name] = value ? 1 : 0;
+    } else if (value !== null && typeof value === 'object') {
+      row[column.name] = JSON.stringify(value);
+    } else {
+      row[column.name] = value;
+    }
+  }
+  return row;
+}
+
+// Settings are one row per device and default categories are seeded with
+// random ids, so those are matched by content rather than by id. Payee rules
+// are unique per property and pattern, exchange rates per pair and day,
+// custom fields per record type and name, and their values per field and
+// record.
+async function findLocalRow(collection: BackupCollection, record: any): Promise<Row | null> {
+  const table = BACKUP_TABLES[collection];
+  if (collection === 'appSettings') {
+    return queryFirst<Row>(`SELECT * FROM ${table} LIMIT 1`);
+  }
+  const byId = await queryFirst<Row>(`SELECT * FROM ${table} WHERE id = ?`, [record.id]);
+  if (byId) {
+    return byId;
+  }
+  if (collection === 'customCategories') {
+    return queryFirst<Row>(
+      `SELECT * FROM ${table} WHERE type = ? AND LOWER(name) = LOWER(?)`,
+      [record.type, record.name]
+    );
+  }
+  if (collection === 'payeeRules') {
+    return queryFirst<Row>(
+      `SELECT * FROM ${table} WHERE property_id = ? AND pattern = ?`,
+      [record.propertyId, record.pattern]
+    );
+  }
+  if (collection === 'exchangeRates') {
+    return queryFirst<Row>(
+      `SELECT * FROM ${table} WHERE from_currency = ? AND to_currency = ? AND date = ?`,
+      [record.fromCurrency, record.toCurrency, record.date]
+    );
+  }
+  if (collection === 'customFieldDefinitions') {
+    return queryFirst<Row>(
+      `SELECT * FROM ${table} WHERE entity_type = ? AND LOWER(name) = LOWER(?)`,
+      [record.entityType, record.name]
+    );
+  }
+  if (collection === 'customFieldValues') {
+    return queryFirst<Row>(
+      `SELECT * FROM ${table} WHERE definition_id = ? AND entity_id = ?`,
+      [record.definitionId, record.entityId]
+    );
+  }
+  return null;
+}
+
+async function getColumns(table: string): Promise<ColumnInfo[]> {
+  return queryAll<ColumnInfo>(`PRAGMA table_info(${table})`);
+}
+
+// Compares incoming records with local rows by UUID. Records whose
+// updated_at matches are the same version and count as unchanged.
+export async function buildMergePlan(data: Partial<Record<BackupCollection, any[]>>): Promise<MergePlan> {
+  const items: MergeItem[] = [];
+  let unchanged = 0;
+
+  for (const collection of MERGE_ORDER) {
+    const records = data[collection] ?? [];
+    if (records.length === 0) continue;
+    const columns = await getColumns(BACKUP_TABLES[collection]);
+    const hasUpdatedAt = columns.some(column => column.name === 'updated_at');
+
+    for (const record of records) {
+      const base = {
+        key: `${collection}:${record.id}`,
+        collection,
+        id: record.id,
+        label: getRecordLabel(record),
+        incomingUpdatedAt: record.updatedAt ?? record.createdAt,
+      };
+      const local = await findLocalRow(collection, record);
+      if (!local) {
+        items.push({ ...base, action: 'add', changedFields: [] });
+        continue;
+      }
+
+      const localUpdatedAt = String(local.updated_at ?? local.created_at ?? '');
+      const incoming = recordToRow(record, columns);
+      const changedFields = Object.keys(incoming).filter(
+        column => !IGNORED_COLUMNS.includes(column) && (incoming[column] ?? null) !== (local[column] ?? null)
+      );
+
+      if (changedFields.length === 0 || (hasUpdatedAt && incoming.updated_at === local.updated_at)) {
+        unchanged++;
+        continue;
+      }
+
+      const isIncomingNewer = hasUpdatedAt && String(incoming.updated_at) > localUpdatedAt;
+      items.push({
+        ...base,
+        localId: String(local.id),
+        action: isIncomingNewer ? 'update' : 'conflict',
+        changedFields: changedFields.map(snakeToCamel),
+        localUpdatedAt,
+      });
+    }
+  }
+
+  return {
+    items,
+    summary: {
+      adds: items.filter(item => item.action === 'add').length,
+      updates: items.filter(item => item.action === 'update').length,
+      conflicts: items.filter(item => item.action === 'conflict').length,
+      unchanged,
+    },
+  };
+}
+
+// Which side wins for one item. Adds always come in; "newer" takes updates
+// and keeps local rows for conflicts, where local was edited at the same time or later.
+export function resolveMergeItem(
+  item: MergeItem,
+  strategy: MergeStrategy,
+  overrides: Record<string, MergeResolution> = {}
+): MergeResolution {
+  if (item.action === 'add') return 'incoming';
+  if (overrides[item.key]) return overrides[item.key];
+  switch (strategy) {
+    case 'incoming':
+      return 'incoming';
+    case 'local':
+      return 'local';
+    case 'newer':
+      return item.action === 'update' ? 'incoming' : 'local';
+  }
+}
+
+// Incoming records that will be written, grouped by collection
+export function selectIncomingRecords(
+  data: Partial<Record<BackupCollection, any[]>>,
+  plan: MergePlan,
+  strategy: MergeStrategy,
+  overrides: Record<string, MergeResolution> = {}
+): Partial<Record<BackupCollection, any[]>> {
+  const accepted = new Set(
+    plan.items
+      .filter(item => resolveMergeItem(item, strategy, overrides) === 'incoming')
+      .map(item => item.key)
+  );
+  const selected: Partial<Record<BackupCollection, any[]>> = {};
+  for (const collection of MERGE_ORDER) {
+    const records = (data[collection] ?? []).filter(record => accepted.has(`${collection}:${record.id}`));
+    if (records.length > 0) selected[collection] = records;
+  }
+  return selected;
+}
+
+// Writes the selected records, keeping their UUIDs and timestamps.
+// Must run inside a transaction; a failing row is counted and skipped.
+export async function applyMergePlan(
+  selected: Partial<Record<BackupCollection, any[]>>,
+  plan: MergePlan
+): Promise<MergeResult> {
+  const itemsByKey = new Map(plan.items.map(item => [item.key, item]));
+  const result: MergeResult = { added: 0, updated: 0, skipped: 0, failed: 0, rejected: [] };
+
+  for (const collection of MERGE_ORDER) {
+    const records = selected[collection];
+    if (!records) continue;
+    const table = BACKUP_TABLES[collection];
+    const columns = await getColumns(table);
+
+    for (const record of records) {
+      const item = itemsByKey.get(`${collection}:${record.id}`);
+      if (!item) continue;
+      const issues = validateBackupRecord(collection, record);
+      if (issues.length > 0) {
+        result.rejected.push({ collection, id: String(record.id), label: item.label, issues });
+        result.failed++;
+        continue;
+      }
+      const row = recordToRow(record, columns);
+      try {
+        if (item.action === 'add') {
+          const names = Object.keys(row);
+          await execute(
+            `INSERT INTO ${table} (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`,
+            names.map(name => row[name])
+          );
+          result.added++;
+        } else {
+          // Keep the local id, creation date, device-only settings and trash state
+          const names = Object.keys(row).filter(
+            name => !['id', 'created_at', ...DEVICE_COLUMNS, ...TRASH_COLUMNS].includes(name)
+          );
+          await execute(
+            `UPDATE ${table} SET ${names.map(name => `${name} = ?`).join(', ')} WHERE id = ?`,
+            [...names.map(name => row[name]), item.localId ?? record.id]
+          );
+          result.updated++;
+        }
+      } catch (e) {
+        console.log(`Error merging ${collection} record:`, e);
+        result.failed++;
+      }
+    }
+  }
+
+  result.skipped = plan.items.length - result.added - result.updated - result.failed;
+  return result;
+}
@@ -1,26 +1,57 @@
 import { Paths, File, Directory } from 'expo-file-system';
 import * as DocumentPicker from 'expo-document-picker';
 import * as Crypto from 'expo-crypto';
+import { gcm } from '@noble/ciphers/aes';
+import { scryptAsync } from '@noble/hashes/scrypt';
 import { Alert, Platform } from 'react-native';
+import { loadSharing } from '../../utils/sharing';
+import { ArchiveCipher, BackupArchive, isBackupArchive, writeBackupArchive } from './backupArchive';
 
-// Lazy load expo-sharing to avoid crash in Expo Go
-let Sharing: typeof import('expo-sharing') | null = null;
-const loadSharing = async () => {
-  if (Sharing === null) {
-    try {
-      Sharing = await import('expo-sharing');
-    } catch (e) {
-      console.log('expo-sharing not available');
-    }
-  }
-  return Sharing;
-};
-
-// Encryption marker - V2 uses improved encryption
-const ENCRYPTION_MARKER = 'HOMETRACK_ENCRYPTED_V2';
+// Encryption markers - V3 uses scrypt + AES-256-GCM, V1 and V2 are read-only
+const ENCRYPTION_MARKER = 'HOMETRACK_ENCRYPTED_V3';
+const V2_MARKER = 'HOMETRACK_ENCRYPTED_V2';
 const LEGACY_MARKER = 'HOMETRACK_ENCRYPTED_V1';
 
-// PBKDF2-like key derivation with 10000 iterations
+// V3 envelope header. It is stored in clear next to the ciphertext and
+// authenticated as additional data, so any change to it fails decryption.
+interface EncryptionHeader {
+  kdf: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  salt: string;
+  cipher: 'aes-256-gcm';
+  nonce: string;
+}
+
+// scrypt cost parameters for new files. scrypt needs 128 * N * r bytes
+// (32 MiB here), so a header asking for more than these is rejected: a
+// crafted file cannot exhaust memory or time before the password is checked.
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+function isPowerOfTwo(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 1 && ((value as number) & ((value as number) - 1)) === 0;
+}
+
+async function deriveScryptKey(password: string, header: Omit<EncryptionHeader, 'nonce'>): Promise<Uint8Array> {
+  if (
+    header.kdf !== 'scrypt' ||
+    !isPowerOfTwo(header.N) ||
+    header.N > SCRYPT_PARAMS.N ||
+    header.r !== SCRYPT_PARAMS.r ||
+    header.p !== SCRYPT_PARAMS.p
+  ) {
+    throw new Error('Unsupported key derivation parameters');
+  }
+  return scryptAsync(stringToBytes(password), base64ToBytes(header.salt), {
+    N: header.N,
+    r: header.r,
+    p: header.p,
+    dkLen: 32,
+  });
+}
+
+// V2 key derivation: 10000 rounds of string SHA-256 (kept for reading V2 files)
 async function deriveKey(password: string, salt: string): Promise<Uint8Array> {
   let key = password + salt;
   for (let i = 0; i < 10000; i++) {
@@ -37,7 +68,7 @@ async function deriveKey(password: string, salt: string): Promise<Uint8Array> {
   return bytes;
 }
 
-// Generate keystream for encryption/decryption using CTR mode simulation
+// V2 keystream built from SHA-256 digests in a CTR-like mode (kept for reading V2 files)
 async function generateKeystream(key: Uint8Array, iv: Uint8Array, length: number): Promise<Uint8Array> {
   const keystream = new Uint8Array(length);
   const blocksNeeded = Math.ceil(length / 32);
@@ -105,39 +136,23 @@ function base64ToBytes(base64: string): Uint8Array {
   return bytes;
 }
 
-// Encrypt data with password using CTR mode
+// Encrypt data with password: scrypt key derivation + AES-256-GCM
+// Format: marker:base64(header JSON):base64(ciphertext + tag)
 async function encryptData(data: string, password: string): Promise<string> {
-  // Generate random salt and IV
-  const saltBytes = await Crypto.getRandomBytesAsync(16);
-  const ivBytes = await Crypto.getRandomBytesAsync(16);
-
-  const salt = bytesToBase64(saltBytes);
-  const iv = bytesToBase64(ivBytes);
-
-  // Derive key from password
-  const key = await deriveKey(password, salt);
-
-  // Convert data to bytes
-  const dataBytes = stringToBytes(data);
-
-  // Generate keystream
-  const keystream = await generateKeystream(key, ivBytes, dataBytes.length);
-
-  // XOR data with keystream (CTR mode)
-  const encrypted = new Uint8Array(dataBytes.length);
-  for (let i = 0; i < dataBytes.length; i++) {
-    encrypted[i] = dataBytes[i] ^ keystream[i];
-  }
+  const header: EncryptionHeader = {
+    kdf: 'scrypt',
+    ...SCRYPT_PARAMS,
+    salt: bytesToBase64(await Crypto.getRandomBytesAsync(16)),
+    cipher: 'aes-256-gcm',
+    nonce: bytesToBase64(await Crypto.getRandomBytesAsync(12)),
+  };
+  const encodedHeader = bytesToBase64(stringToBytes(JSON.stringify(header)));
 
-  // Compute HMAC for integrity verification
-  const hmacInput = salt + ':' + iv + ':' + bytesToBase64(encrypted);
-  const hmac = await Crypto.digestStringAsync(
-    Crypto.CryptoDigestAlgorithm.SHA256,
-    Array.from(key).join('') + hmacInput
-  );
+  const key = await deriveScryptKey(password, header);
+  const encrypted = gcm(key, base64ToBytes(header.nonce), stringToBytes(encodedHeader))
+    .encrypt(stringToBytes(data));
 
-  // Return marker + salt + iv + encrypted data + hmac
-  return ENCRYPTION_MARKER + ':' + salt + ':' + iv + ':' + bytesToBase64(encrypted) + ':' + hmac;
+  return ENCRYPTION_MARKER + ':' + encodedHeader + ':' + bytesToBase64(encrypted);
 }
 
 // Decrypt data with password
@@ -149,10 +164,39 @@ async function decryptData(encryptedData: string, password: string): Promise<str
     return decryptLegacyData(encryptedData, password);
   }
 
-  if (parts.length !== 5 || parts[0] !== ENCRYPTION_MARKER) {
+  if (parts[0] === V2_MARKER && parts.length === 5) {
+    return decryptV2Data(encryptedData, password);
+  }
+
+  if (parts.length !== 3 || parts[0] !== ENCRYPTION_MARKER) {
+    throw new Error('Invalid encrypted data format');
+  }
+
+  const [, encodedHeader, encryptedBase64] = parts;
+  let header: EncryptionHeader;
+  try {
+    header = JSON.parse(bytesToString(base64ToBytes(encodedHeader)));
+  } catch {
     throw new Error('Invalid encrypted data format');
   }
+  if (header.cipher !== 'aes-256-gcm') {
+    throw new Error('Unsupported cipher');
+  }
 
+  const key = await deriveScryptKey(password, header);
+  try {
+    const decrypted = gcm(key, base64ToBytes(header.nonce), stringToBytes(encodedHeader))
+      .decrypt(base64ToBytes(encryptedBase64));
+    return bytesToString(decrypted);
+  } catch {
+    // GCM tag mismatch: wrong password, or the file or its header was modified
+    throw new Error('Incorrect password or corrupted file');
+  }
+}
+
+// V2 decryption for backwards compatibility
+async function decryptV2Data(encryptedData: string, password: string): Promise<string> {
+  const parts = encryptedData.split(':');
   const [, salt, iv, encryptedBase64, storedHmac] = parts;
 
   // Derive key
@@ -209,77 +253,168 @@ async function decryptLegacyData(encryptedData: string, password: string): Promi
 
 // Check if data is encrypted
 function isEncrypted(data: string): boolean {
-  return data.startsWith(ENCRYPTION_MARKER + ':') || data.startsWith(LEGACY_MARKER + ':');
+  return [ENCRYPTION_MARKER, V2_MARKER, LEGACY_MARKER].some(marker => data.startsWith(marker + ':'));
+}
+
+// Archives are encrypted entry by entry: one scrypt key for the archive and
+// AES-256-GCM for each entry, with a fresh nonce in front of the sealed data.
+// The header and the entry name are authenticated as additional data.
+const NONCE_LENGTH = 12;
+
+function createArchiveCipher(key: Uint8Array, header: string): ArchiveCipher {
+  const additionalData = (entry: string) => stringToBytes(`${header}:${entry}`);
+  return {
+    header,
+    seal(data, entry) {
+      const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+      const encrypted = gcm(key, nonce, additionalData(entry)).encrypt(data);
+      const sealed = new Uint8Array(NONCE_LENGTH + encrypted.length);
+      sealed.set(nonce);
+      sealed.set(encrypted, NONCE_LENGTH);
+      return sealed;
+    },
+    open(data, entry) {
+      try {
+        return gcm(key, data.subarray(0, NONCE_LENGTH), additionalData(entry)).decrypt(data.subarray(NONCE_LENGTH));
+      } catch {
+        throw new Error('Incorrect password or corrupted file');
+      }
+    },
+  };
+}
+
+async function newArchiveCipher(password: string): Promise<ArchiveCipher> {
+  const header: Omit<EncryptionHeader, 'nonce'> = {
+    kdf: 'scrypt',
+    ...SCRYPT_PARAMS,
+    salt: bytesToBase64(await Crypto.getRandomBytesAsync(16)),
+    cipher: 'aes-256-gcm',
+  };
+  return createArchiveCipher(await deriveScryptKey(password, header), JSON.stringify(header));
+}
+
+async function openArchiveCipher(encodedHeader: string, password: string): Promise<ArchiveCipher> {
+  let header: Omit<EncryptionHeader, 'nonce'>;
+  try {
+    header = JSON.parse(encodedHeader);
+  } catch {
+    throw new Error('Invalid encrypted data format');
+  }
+  if (header.cipher !== 'aes-256-gcm') {
+    throw new Error('Unsupported cipher');
+  }
+  return createArchiveCipher(await deriveScryptKey(password, header), encodedHeader);
 }
 import {
   propertyRepository,
   roomRepository,
   assetRepository,
   expenseRepository,
+  expenseAssetRepository,
+  expenseSplitRepository,
+  householdMemberRepository,
+  settlementRepository,
+  tenantRepository,
+  leaseRepository,
+  rentPaymentRepository,
   workerRepository,
+  workerNoteRepository,
   maintenanceRepository,
+  maintenanceCompletionRepository,
   paintCodeRepository,
   measurementRepository,
   storageBoxRepository,
   wifiInfoRepository,
   documentRepository,
   renovationRepository,
+  renovationWorkerRepository,
+  renovationAssetRepository,
+  renovationCostRepository,
   emergencyRepository,
   recurringTemplateRepository,
+  recurringPaymentHistoryRepository,
   notesRepository,
+  customCategoryRepository,
+  payeeRuleRepository,
+  budgetRepository,
+  exchangeRateRepository,
+  settingsRepository,
+  attachmentRepository,
+  customFieldRepository,
+  customFieldValueRepository,
+  queryFirst,
+  execute,
   withTransaction,
+  notifyTablesChanged,
+  Transaction,
 } from '../database';
+import { SOFT_DELETE_TABLES } from '../database/schema';
 import { getCurrentISODate } from '../../utils/date';
+import { AttachmentEntityType, CustomFieldEntityType } from '../../types';
+import { BACKUP_TABLES, BACKUP_COLLECTIONS, BackupCollection, getTablesMissingFromBackup } from './backupTables';
+import { BackupMediaFile, MediaRestoreReport, MissingMediaFile, collectMedia, isMediaReferenced, restoreMedia } from './backupMedia';
+import { upgradeBackup } from './backupUpgrades';
+import { RejectedRecord, rejectRecord } from './backupValidation';
+import { BackupScope, PropertyExportOptions, collectPropertyData } from './propertyExport';
+import {
+  MergePlan,
+  MergeResolution,
+  MergeResult,
+  MergeStrategy,
+  applyMergePlan,
+  buildMergePlan,
+  selectIncomingRecords,
+} from './backupMerge';
 
 const APP_VERSION = '1.0.0';
-const SCHEMA_VERSION = 1;
-
-interface BackupManifest {
+// v2: every schema table is included (worker notes, completions, payment history, junction tables, categories, settings)
+// v3: referenced photos, receipts and documents are bundled in the archive
+// v4: receipts, asset photos and manuals moved into the attachments collection
+// v5: written as a zip archive with every media file as an entry of its own
+// Bumping this needs an upgrader in backupUpgrades.ts and a fixture in backupFixtures.ts
+const SCHEMA_VERSION = 5;
+export { SCHEMA_VERSION as BACKUP_SCHEMA_VERSION };
+
+// Collections of records that belong to a property but don't go to the trash
+// with it. They're only backed up while their property is.
+const PROPERTY_RECORD_COLLECTIONS = ['budgets', 'payeeRules'] as const;
+
+export interface BackupManifest {
   appVersion: string;
   schemaVersion: number;
   createdAt: string;
   deviceInfo?: string;
-  stats: {
-    properties: number;
-    rooms: number;
-    assets: number;
-    expenses: number;
-    workers: number;
-    maintenanceTasks: number;
-    paintCodes: number;
-    measurements: number;
-    storageBoxes: number;
-    wifiNetworks: number;
-    documents: number;
-    renovations: number;
-    emergencyShutoffs: number;
-    recurringTemplates: number;
-    notes: number;
+  stats: Record<BackupCollection, number>;
+  media?: {
+    files: number;
+    bytes: number;
+    // Files that were already gone from the exporting device
+    missing: MissingMediaFile[];
+    // Names in the snapshot media store, for automatic backups
+    stored?: string[];
   };
+  // Set when the backup holds a single property (handover package)
+  scope?: BackupScope;
 }
 
-interface BackupData {
+export interface BackupData {
   manifest: BackupManifest;
-  data: {
-    properties: any[];
-    rooms: any[];
-    assets: any[];
-    expenses: any[];
-    workers: any[];
-    maintenanceTasks: any[];
-    paintCodes: any[];
-    measurements: any[];
-    storageBoxes: any[];
-    wifiNetworks: any[];
-    documents: any[];
-    renovations: any[];
-    emergencyShutoffs: any[];
-    recurringTemplates: any[];
-    notes: any[];
-  };
+  // Older files are upgraded on read, so every collection is present
+  data: Record<BackupCollection, any[]>;
+  // Bundled media files, absent before schema v3
+  media?: BackupMediaFile[];
+}
+
+// A backup read from a file, with the archive its media entries are read from
+interface BackupFile {
+  backupData: BackupData;
+  archive?: BackupArchive;
 }
 
 class BackupService {
+  // Backup read by prepareMerge, held until the user applies or cancels
+  private pendingMerge: (BackupFile & { plan: MergePlan }) | null = null;
+
   private get backupDir(): Directory {
     return new Directory(Paths.cache, 'backups');
   }
@@ -290,193 +425,291 @@ class BackupService {
     }
   }
 
-  async exportData(password?: string): Promise<{ success: boolean; filePath?: string; error?: string }> {
-    try {
-      await this.ensureBackupDirectory();
-
-      // Gather all data
-      const [
-        properties,
-        rooms,
-        assets,
-        expenses,
-        workers,
-        maintenanceTasks,
-        paintCodes,
-        measurements,
-        storageBoxes,
-        wifiNetworks,
-        documents,
-        renovations,
-        emergencyShutoffs,
-        recurringTemplates,
-        notes,
-      ] = await Promise.all([
-        this.getAllProperties(),
-        this.getAllRooms(),
-        this.getAllAssets(),
-        this.getAllExpenses(),
-        workerRepository.getAll(),
-        this.getAllMaintenanceTasks(),
-        this.getAllPaintCodes(),
-        this.getAllMeasurements(),
-        this.getAllStorageBoxes(),
-        this.getAllWifiNetworks(),
-        documentRepository.getAll(),
-        this.getAllRenovations(),
-        this.getAllEmergencyShutoffs(),
-        this.getAllRecurringTemplates(),
-        this.getAllNotes(),
-      ]);
-
-      const backupData: BackupData = {
-        manifest: {
-          appVersion: APP_VERSION,
-          schemaVersion: SCHEMA_VERSION,
-          createdAt: getCurrentISODate(),
-          stats: {
-            properties: properties.length,
-            rooms: rooms.length,
-            assets: assets.length,
-            expenses: expenses.length,
-            workers: workers.length,
-            maintenanceTasks: maintenanceTasks.length,
-            paintCodes: paintCodes.length,
-            measurements: measurements.length,
-            storageBoxes: storageBoxes.length,
-            wifiNetworks: wifiNetworks.length,
-            documents: documents.length,
-            renovations: renovations.length,
-            emergencyShutoffs: emergencyShutoffs.length,
-            recurringTemplates: recurringTemplates.length,
-            notes: notes.length,
-          },
-        },
-        data: {
-          properties,
-          rooms,
-          assets,
-          expenses,
-          workers,
-          maintenanceTasks,
-          paintCodes,
-          measurements,
-          storageBoxes,
-          wifiNetworks,
-          documents,
-          renovations,
-          emergencyShutoffs,
-          recurringTemplates,
-          notes,
+  // Gathers all data and media into a backup, making sure nothing in the database
+  // was left out. With a property scope only that property's records are included.
+  async createBackupData(scope?: { propertyId: string } & PropertyExportOptions): Promise<BackupData> {
+    let data: BackupData['data'];
+    let manifestScope: BackupScope | undefined;
+    if (scope) {
+      const { propertyId, ...options } = scope;
+      data = await collectPropertyData(propertyId, options);
+      manifestScope = { type: 'property', propertyId, propertyName: data.properties[0].name, ...options };
+    } else {
+      data = await this.getAllData();
+      await this.verifySchemaCoverage(data);
+    }
+    const media = await collectMedia(data);
+
+    return {
+      manifest: {
+        appVersion: APP_VERSION,
+        schemaVersion: SCHEMA_VERSION,
+        createdAt: getCurrentISODate(),
+        stats: this.countCollections(data),
+        media: {
+          files: media.files.length,
+          bytes: media.files.reduce((sum, file) => sum + file.size, 0),
+          missing: media.missing,
         },
-      };
-
-      // Create backup file
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const isEncryptedBackup = !!password;
-      const fileName = isEncryptedBackup
-        ? `hometrack-backup-${timestamp}.encrypted`
-        : `hometrack-backup-${timestamp}.json`;
-      const backupFile = new File(this.backupDir, fileName);
-
-      // Prepare file content
-      let fileContent = JSON.stringify(backupData, null, 2);
-
-      // Encrypt if password provided
-      if (password) {
-        fileContent = await encryptData(fileContent, password);
-      }
-
-      backupFile.create();
-      backupFile.write(fileContent);
-
-      // Share the file
-      const sharing = await loadSharing();
-      if (sharing && await sharing.isAvailableAsync()) {
-        await sharing.shareAsync(backupFile.uri, {
-          mimeType: isEncryptedBackup ? 'application/octet-stream' : 'application/json',
-          dialogTitle: 'Export HomeTrack Backup',
-          UTI: isEncryptedBackup ? 'public.data' : 'public.json',
-        });
-      } else {
-        // Fallback for Expo Go - just show the file path
-        Alert.alert(
-          'Backup Created',
-          `${isEncryptedBackup ? 'Encrypted backup' : 'Backup'} saved to:\n${backupFile.uri}\n\nNote: Sharing is not available in Expo Go. Use a development build for full functionality.`
-        );
-      }
+        scope: manifestScope,
+      },
+      data,
+      media: media.files,
+    };
+  }
 
-      return { success: true, filePath: backupFile.uri };
+  async exportData(password?: string): Promise<{ success: boolean; filePath?: string; error?: string }> {
+    try {
+      const backupData = await this.createBackupData();
+      const filePath = await this.writeAndShare(backupData, 'hometrack-backup', password);
+      return { success: true, filePath };
     } catch (error) {
       console.error('Export failed:', error);
       return { success: false, error: (error as Error).message };
     }
   }
 
-  async importData(password?: string): Promise<{ success: boolean; stats?: BackupManifest['stats']; error?: string; needsPassword?: boolean }> {
+  // Handover package: one property in the regular backup format, for giving
+  // to a buyer, tenant or manager who imports it as a new property
+  async exportProperty(
+    propertyId: string,
+    options: PropertyExportOptions,
+    password?: string
+  ): Promise<{ success: boolean; filePath?: string; error?: string }> {
     try {
+      const backupData = await this.createBackupData({ propertyId, ...options });
+      const slug = (backupData.manifest.scope?.propertyName ?? 'property')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '');
+      const filePath = await this.writeAndShare(backupData, `hometrack-handover-${slug || 'property'}`, password);
+      return { success: true, filePath };
+    } catch (error) {
+      console.error('Property export failed:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  private async writeAndShare(backupData: BackupData, baseName: string, password?: string): Promise<string> {
+    await this.ensureBackupDirectory();
+
+    // Create backup file
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const isEncryptedBackup = !!password;
+    const fileName = isEncryptedBackup
+      ? `${baseName}-${timestamp}.encrypted.zip`
+      : `${baseName}-${timestamp}.zip`;
+    const backupFile = new File(this.backupDir, fileName);
+    await writeBackupArchive(backupFile, backupData, password ? await newArchiveCipher(password) : undefined);
+
+    // Share the file
+    const sharing = await loadSharing();
+    if (sharing && await sharing.isAvailableAsync()) {
+      await sharing.shareAsync(backupFile.uri, {
+        mimeType: 'application/zip',
+        dialogTitle: 'Export HomeTrack Backup',
+        UTI: 'public.zip-archive',
+      });
+    } else {
+      // Fallback for Expo Go - just show the file path
+      Alert.alert(
+        'Backup Created',
+        `${isEncryptedBackup ? 'Encrypted backup' : 'Backup'} saved to:\n${backupFile.uri}\n\nNote: Sharing is not available in Expo Go. Use a development build for full functionality.`
+      );
+    }
+
+    return backupFile.uri;
+  }
+
+
+  // Reads a backup (picked by the user unless a uri is given), decrypts it if
+  // needed and checks it can be read by this app version. Backups before v5
+  // are a single JSON file, optionally in a text encryption envelope.
+  private async readBackupFile(password?: string, uri?: string): Promise<Partial<BackupFile> & { error?: string; needsPassword?: boolean }> {
+    if (!uri) {
       const result = await DocumentPicker.getDocumentAsync({
-        type: ['application/json', 'application/octet-stream', '*/*'],
+        type: ['application/zip', 'application/json', 'application/octet-stream', '*/*'],
         copyToCacheDirectory: true,
       });
 
       if (result.canceled || !result.assets || !result.assets[0]) {
-        return { success: false, error: 'No file selected' };
+        return { error: 'No file selected' };
+      }
+      uri = result.assets[0].uri;
+    }
+
+    const importFile = new File(uri);
+    let backupData: BackupData;
+    let archive: BackupArchive | undefined;
+
+    if (isBackupArchive(importFile)) {
+      let encryptionHeader: string | null;
+      try {
+        archive = BackupArchive.open(importFile);
+        encryptionHeader = archive.encryptionHeader;
+      } catch {
+        return { error: 'Invalid backup file format' };
       }
 
-      const importFile = new File(result.assets[0].uri);
+      if (encryptionHeader) {
+        if (!password) {
+          return { needsPassword: true, error: 'This backup is encrypted. Please provide the password.' };
+        }
+        try {
+          archive.setCipher(await openArchiveCipher(encryptionHeader, password));
+          backupData = archive.readData();
+        } catch {
+          return { error: 'Incorrect password or corrupted file' };
+        }
+      } else {
+        try {
+          backupData = archive.readData();
+        } catch {
+          return { error: 'Invalid backup file format' };
+        }
+      }
+    } else {
       let fileContent = await importFile.text();
 
       // Check if file is encrypted
       if (isEncrypted(fileContent)) {
         if (!password) {
-          return { success: false, needsPassword: true, error: 'This backup is encrypted. Please provide the password.' };
+          return { needsPassword: true, error: 'This backup is encrypted. Please provide the password.' };
         }
 
         try {
           fileContent = await decryptData(fileContent, password);
         } catch (decryptError) {
-          return { success: false, error: 'Incorrect password or corrupted file' };
+          return { error: 'Incorrect password or corrupted file' };
         }
       }
 
-      let backupData: BackupData;
       try {
         backupData = JSON.parse(fileContent);
       } catch (parseError) {
-        return { success: false, error: 'Invalid backup file format or incorrect password' };
+        return { error: 'Invalid backup file format or incorrect password' };
       }
+    }
 
-      // Validate backup format
-      if (!backupData.manifest || !backupData.data) {
-        return { success: false, error: 'Invalid backup file format' };
-      }
+    // Validate backup format
+    if (!backupData.manifest || !backupData.data) {
+      return { error: 'Invalid backup file format' };
+    }
+
+    // Check schema version compatibility
+    if (backupData.manifest.schemaVersion > SCHEMA_VERSION) {
+      return { error: 'Backup was created with a newer version of the app. Please update the app first.' };
+    }
+
+    // Bring older files up to the current format before anything reads them
+    return { backupData: upgradeBackup(backupData, SCHEMA_VERSION), archive };
+  }
 
-      // Check schema version compatibility
-      if (backupData.manifest.schemaVersion > SCHEMA_VERSION) {
-        return {
-          success: false,
-          error: 'Backup was created with a newer version of the app. Please update the app first.',
-        };
+  async importData(password?: string): Promise<{ success: boolean; stats?: BackupManifest['stats']; mediaReport?: MediaRestoreReport; rejected?: RejectedRecord[]; scope?: BackupScope; error?: string; needsPassword?: boolean }> {
+    try {
+      const { backupData, archive, error, needsPassword } = await this.readBackupFile(password);
+      if (!backupData) {
+        return { success: false, error, needsPassword };
       }
 
+      // Copy bundled media into this device's sandbox and point records at it
+      const { report: mediaReport, directory: mediaDirectory } = await restoreMedia(
+        backupData.data,
+        backupData.media,
+        archive
+      );
+
       // Import data within a transaction for data consistency
       // If any import fails, all changes are rolled back
-      await withTransaction(async () => {
-        await this.importDataFromBackup(backupData.data);
-      });
+      let rejected: RejectedRecord[];
+      try {
+        // A handover package always becomes a new property on this install
+        rejected = await withTransaction(transaction =>
+          this.importDataFromBackup(backupData.data, !!backupData.manifest.scope, transaction)
+        );
+      } catch (error) {
+        if (mediaDirectory?.exists) {
+          mediaDirectory.delete();
+        }
+        throw error;
+      }
 
-      return { success: true, stats: backupData.manifest.stats };
+      return { success: true, stats: backupData.manifest.stats, mediaReport, rejected, scope: backupData.manifest.scope };
     } catch (error) {
       console.error('Import failed:', error);
       return { success: false, error: (error as Error).message };
     }
   }
 
+  // Reads a backup and compares it with local data by record id. Nothing is
+  // written until applyMerge is called with the user's choices.
+  async prepareMerge(password?: string, uri?: string): Promise<{ success: boolean; plan?: MergePlan; error?: string; needsPassword?: boolean }> {
+    try {
+      const { backupData, archive, error, needsPassword } = await this.readBackupFile(password, uri);
+      if (!backupData) {
+        return { success: false, error, needsPassword };
+      }
+
+      const plan = await buildMergePlan(backupData.data);
+      this.pendingMerge = { backupData, archive, plan };
+      return { success: true, plan };
+    } catch (error) {
+      console.error('Merge preview failed:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  getPendingMerge(): MergePlan | null {
+    return this.pendingMerge?.plan ?? null;
+  }
+
+  async applyMerge(
+    strategy: MergeStrategy,
+    overrides: Record<string, MergeResolution> = {}
+  ): Promise<{ success: boolean; result?: MergeResult; mediaReport?: MediaRestoreReport; error?: string }> {
+    if (!this.pendingMerge) {
+      return { success: false, error: 'No merge in progress' };
+    }
+
+    const { backupData, archive, plan } = this.pendingMerge;
+    try {
+      // Only records taken from the backup need their media restored
+      const selected = selectIncomingRecords(backupData.data, plan, strategy, overrides);
+      const { report: mediaReport, directory: mediaDirectory } = await restoreMedia(
+        selected,
+        backupData.media?.filter(file => isMediaReferenced(selected, file.sourceUri)),
+        archive
+      );
+
+      let result: MergeResult;
+      try {
+        result = await withTransaction(() => applyMergePlan(selected, plan));
+      } catch (error) {
+        if (mediaDirectory?.exists) {
+          mediaDirectory.delete();
+        }
+        throw error;
+      }
+
+      this.pendingMerge = null;
+      return { success: true, result, mediaReport };
+    } catch (error) {
+      console.error('Merge failed:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  cancelMerge(): void {
+    this.pendingMerge = null;
+  }
+
   // Check if a file is encrypted (useful for UI to know when to show password prompt)
   async checkFileEncryption(uri: string): Promise<boolean> {
     try {
       const file = new File(uri);
+      if (isBackupArchive(file)) {
+        return BackupArchive.open(file).encryptionHeader !== null;
+      }
       const content = await file.text();
       return isEncrypted(content);
     } catch {
@@ -484,10 +717,20 @@ class BackupService {
     }
   }
 
-  private async importDataFromBackup(data: BackupData['data']): Promise<void> {
+  // Returns the records skipped because their data is invalid. Runs inside
+  // the given transaction.
+  private async importDataFromBackup(
+    data: BackupData['data'],
+    asNewProperty: boolean,
+    transaction: Transaction
+  ): Promise<RejectedRecord[]> {
+    const rejected: RejectedRecord[] = [];
+
     // Get existing data to check for duplicates
     const existingWorkers = await workerRepository.getAll();
     const existingProperties = await propertyRepository.getAll();
+    const existingCategories = await customCategoryRepository.getAll();
+    const existingCustomFields = await customFieldRepository.getAll();
 
     // Import workers first (no dependencies) - skip duplicates by name+phone
     const workerIdMap = new Map<string, string>();
@@ -517,7 +760,144 @@ class BackupService {
           workerIdMap.set(worker.id, newWorker.id);
         }
       } catch (e) {
-        console.log('Error importing worker:', e);
+        rejectRecord(rejected, 'workers', worker, e);
+      }
+    }
+
+    // Import worker notes (depends on workers)
+    for (const workerNote of data.workerNotes ?? []) {
+      try {
+        const newWorkerId = workerIdMap.get(workerNote.workerId);
+        if (newWorkerId) {
+          await workerNoteRepository.create({
+            workerId: newWorkerId,
+            content: workerNote.content,
+            date: workerNote.date,
+          });
+        }
+      } catch (e) {
+        console.log('Error importing worker note:', e);
+      }
+    }
+
+    // Import custom categories - skip duplicates by type+name
+    for (const category of data.customCategories ?? []) {
+      try {
+        const isDuplicate = existingCategories.some(
+          c => c.type === category.type && c.name.toLowerCase() === category.name.toLowerCase()
+        );
+        if (isDuplicate) {
+          console.log(`Skipping duplicate category: ${category.name}`);
+        } else {
+          await customCategoryRepository.create({
+            type: category.type,
+            name: category.name,
+            icon: category.icon,
+            color: category.color,
+            isDefault: category.isDefault ?? false,
+            sortOrder: category.sortOrder,
+          });
+        }
+      } catch (e) {
+        console.log('Error importing custom category:', e);
+      }
+    }
+
+    // Import custom fields - a field with the same type+name takes the
+    // imported values
+    const customFieldIdMap = new Map<string, string>();
+    for (const definition of data.customFieldDefinitions ?? []) {
+      try {
+        const existingField = existingCustomFields.find(
+          f => f.entityType === definition.entityType && f.name.toLowerCase() === definition.name.toLowerCase()
+        );
+        if (existingField) {
+          customFieldIdMap.set(definition.id, existingField.id);
+        } else {
+          const newField = await customFieldRepository.create({
+            entityType: definition.entityType,
+            name: definition.name,
+            fieldType: definition.fieldType,
+            options: definition.options ?? [],
+          });
+          customFieldIdMap.set(definition.id, newField.id);
+        }
+      } catch (e) {
+        rejectRecord(rejected, 'customFieldDefinitions', definition, e);
+      }
+    }
+
+    // Restore app settings (single row). Biometric lock is left as is because
+    // it depends on what the current device has enrolled.
+    const settings = data.appSettings?.[0];
+    if (settings) {
+      try {
+        await settingsRepository.update({
+          theme: settings.theme,
+          currency: settings.currency,
+          reportingCurrency: settings.reportingCurrency ?? '',
+          dateFormat: settings.dateFormat,
+          photoQuality: settings.photoQuality,
+          encryptExports: settings.encryptExports,
+          fiscalYearStartMonth: settings.fiscalYearStartMonth,
+          fiscalYearStartDay: settings.fiscalYearStartDay,
+        });
+      } catch (e) {
+        console.log('Error importing app settings:', e);
+      }
+    }
+
+    // Amounts from before records had a currency are in the backup's app currency
+    const backupCurrency: string | undefined = settings?.currency;
+
+    // Import exchange rates - a rate for a pair and day already here is replaced
+    for (const rate of data.exchangeRates ?? []) {
+      try {
+        await exchangeRateRepository.save({
+          fromCurrency: rate.fromCurrency,
+          toCurrency: rate.toCurrency,
+          rate: rate.rate,
+          date: rate.date,
+        });
+      } catch (e) {
+        rejectRecord(rejected, 'exchangeRates', rate, e);
+      }
+    }
+
+    // Import household members - skip duplicates by name
+    const existingMembers = await householdMemberRepository.getAll();
+    const memberIdMap = new Map<string, string>();
+    for (const member of data.householdMembers ?? []) {
+      try {
+        const existingMember = existingMembers.find(m => m.name.toLowerCase() === member.name.toLowerCase());
+        if (existingMember) {
+          memberIdMap.set(member.id, existingMember.id);
+        } else {
+          const newMember = await householdMemberRepository.create({ name: member.name });
+          memberIdMap.set(member.id, newMember.id);
+        }
+      } catch (e) {
+        rejectRecord(rejected, 'householdMembers', member, e);
+      }
+    }
+
+    // Import settlements (depend on household members)
+    for (const settlement of data.settlements ?? []) {
+      try {
+        const fromMemberId = memberIdMap.get(settlement.fromMemberId);
+        const toMemberId = memberIdMap.get(settlement.toMemberId);
+        if (fromMemberId && toMemberId) {
+          await settlementRepository.create({
+            fromMemberId,
+            toMemberId,
+            amount: settlement.amount,
+            currency: settlement.currency ?? backupCurrency,
+            date: settlement.date,
+            notes: settlement.notes,
+          });
+        }
+      } catch (e) {
+        rejectRecord(rejected, 'settlements', settlement, e);
       }
     }
 
@@ -526,7 +906,7 @@ class BackupService {
     for (const property of data.properties) {
       try {
         // Check for duplicate by name and address
-        const existingProperty = existingProperties.find(
+        const existingProperty = !asNewProperty && existingProperties.find(
           p => p.name.toLowerCase() === property.name.toLowerCase() &&
                p.address.toLowerCase() === property.address.toLowerCase()
         );
@@ -545,7 +925,7 @@ class BackupService {
           propertyIdMap.set(property.id, newProperty.id);
         }
       } catch (e) {
-        console.log('Error importing property:', e);
+        rejectRecord(rejected, 'properties', property, e);
       }
     }
 
@@ -565,7 +945,7 @@ class BackupService {
           roomIdMap.set(room.id, newRoom.id);
         }
       } catch (e) {
-        console.log('Error importing room:', e);
+        rejectRecord(rejected, 'rooms', room, e);
       }
     }
 
@@ -586,54 +966,247 @@ class BackupService {
             serialNumber: asset.serialNumber,
             purchaseDate: asset.purchaseDate,
             purchasePrice: asset.purchasePrice,
+            purchaseCurrency: asset.purchaseCurrency ?? (asset.purchasePrice != null ? backupCurrency : undefined),
             warrantyEndDate: asset.warrantyEndDate,
             notes: asset.notes,
-            imageUri: asset.imageUri,
-            manualUri: asset.manualUri,
           });
           assetIdMap.set(asset.id, newAsset.id);
         }
       } catch (e) {
-        console.log('Error importing asset:', e);
+        rejectRecord(rejected, 'assets', asset, e);
+      }
+    }
+
+    // Import recurring templates (expenses reference them)
+    const templateIdMap = new Map<string, string>();
+    if (data.recurringTemplates) {
+      for (const template of data.recurringTemplates) {
+        try {
+          const newPropertyId = propertyIdMap.get(template.propertyId);
+          if (newPropertyId) {
+            const newTemplate = await recurringTemplateRepository.create({
+              propertyId: newPropertyId,
+              name: template.name,
+              category: template.category,
+              estimatedAmount: template.estimatedAmount,
+              currency: template.currency ?? backupCurrency,
+              frequency: template.frequency,
+              typicalPaymentDay: template.typicalPaymentDay || template.dayOfMonth?.toString(),
+              isActive: template.isActive ?? true,
+            });
+            templateIdMap.set(template.id, newTemplate.id);
+          }
+        } catch (e) {
+          console.log('Error importing recurring template:', e);
+        }
+      }
+    }
+
+    // Import recurring payment history (depends on recurring templates)
+    for (const payment of data.recurringPaymentHistory ?? []) {
+      try {
+        const newTemplateId = templateIdMap.get(payment.templateId);
+        if (newTemplateId) {
+          await recurringPaymentHistoryRepository.create({
+            templateId: newTemplateId,
+            amount: payment.amount,
+            paidDate: payment.paidDate,
+            notes: payment.notes,
+          });
+        }
+      } catch (e) {
+        console.log('Error importing recurring payment:', e);
       }
     }
 
-    // Import expenses (with proper asset/worker mapping)
+    // Import payee rules (depend on properties and recurring templates)
+    for (const rule of data.payeeRules ?? []) {
+      try {
+        const newPropertyId = propertyIdMap.get(rule.propertyId);
+        if (newPropertyId) {
+          await payeeRuleRepository.upsert({
+            propertyId: newPropertyId,
+            pattern: rule.pattern,
+            templateId: rule.templateId ? templateIdMap.get(rule.templateId) : undefined,
+            expenseType: rule.expenseType,
+            category: rule.category,
+          });
+        }
+      } catch (e) {
+        console.log('Error importing payee rule:', e);
+      }
+    }
+
+    // Import budgets (depend on properties)
+    for (const budget of data.budgets ?? []) {
+      try {
+        const newPropertyId = propertyIdMap.get(budget.propertyId);
+        if (newPropertyId) {
+          await budgetRepository.create({
+            propertyId: newPropertyId,
+            expenseType: budget.expenseType,
+            category: budget.category,
+            period: budget.period,
+            amount: budget.amount,
+            rollover: budget.rollover ?? false,
+            startDate: budget.startDate,
+          });
+        }
+      } catch (e) {
+        rejectRecord(rejected, 'budgets', budget, e);
+      }
+    }
+
+    // Import tenants (depend on properties)
+    const tenantIdMap = new Map<string, string>();
+    for (const tenant of data.tenants ?? []) {
+      try {
+        const newPropertyId = propertyIdMap.get(tenant.propertyId);
+        if (newPropertyId) {
+          const newTenant = await tenantRepository.create({
+            propertyId: newPropertyId,
+            name: tenant.name,
+            phone: tenant.phone,
+            email: tenant.email,
+            notes: tenant.notes,
+          });
+          tenantIdMap.set(tenant.id, newTenant.id);
+        }
+      } catch (e) {
+        rejectRecord(rejected, 'tenants', tenant, e);
+      }
+    }
+
+    // Import leases (depend on properties and tenants)
+    const leaseIdMap = new Map<string, string>();
+    for (const lease of data.leases ?? []) {
+      try {
+        const newPropertyId = propertyIdMap.get(lease.propertyId);
+        const newTenantId = tenantIdMap.get(lease.tenantId);
+        if (newPropertyId && newTenantId) {
+          const newLease = await leaseRepository.create({
+            propertyId: newPropertyId,
+            tenantId: newTenantId,
+            startDate: lease.startDate,
+            endDate: lease.endDate,
+            rentAmount: lease.rentAmount,
+            currency: lease.currency ?? backupCurrency,
+            rentFrequency: lease.rentFrequency,
+            rentDueDay: lease.rentDueDay,
+            depositAmount: lease.depositAmount,
+            renewalDate: lease.renewalDate,
+            graceDays: lease.graceDays,
+            reminderDaysBefore: lease.reminderDaysBefore,
+            notes: lease.notes,
+          });
+          leaseIdMap.set(lease.id, newLease.id);
+        }
+      } catch (e) {
+        rejectRecord(rejected, 'leases', lease, e);
+      }
+    }
+
+    // Import rent payments (depend on leases)
+    for (const payment of data.rentPayments ?? []) {
+      try {
+        const newLeaseId = leaseIdMap.get(payment.leaseId);
+        if (newLeaseId) {
+          await rentPaymentRepository.create({
+            leaseId: newLeaseId,
+            dueDate: payment.dueDate,
+            amount: payment.amount,
+            currency: payment.currency ?? backupCurrency,
+            paidDate: payment.paidDate,
+            notes: payment.notes,
+          });
+        }
+      } catch (e) {
+        rejectRecord(rejected, 'rentPayments', payment, e);
+      }
+    }
+
+    // Import expenses (with proper asset/worker/template mapping)
+    const expenseIdMap = new Map<string, string>();
     for (const expense of data.expenses) {
       try {
         const newPropertyId = propertyIdMap.get(expense.propertyId);
         const newRoomId = expense.roomId ? roomIdMap.get(expense.roomId) : undefined;
         const newAssetId = expense.assetId ? assetIdMap.get(expense.assetId) : undefined;
         const newWorkerId = expense.workerId ? workerIdMap.get(expense.workerId) : undefined;
+        const newTemplateId = expense.recurringTemplateId ? templateIdMap.get(expense.recurringTemplateId) : undefined;
         if (newPropertyId) {
-          await expenseRepository.create({
+          const newExpense = await expenseRepository.create({
             propertyId: newPropertyId,
             roomId: newRoomId,
             assetId: newAssetId,
             workerId: newWorkerId,
+            paidByMemberId: expense.paidByMemberId ? memberIdMap.get(expense.paidByMemberId) : undefined,
+            taxTreatment: expense.taxTreatment,
             type: expense.type,
             category: expense.category,
             amount: expense.amount,
+            currency: expense.currency ?? backupCurrency,
             date: expense.date,
             description: expense.description,
-            receiptUri: expense.receiptUri,
             isRecurring: expense.isRecurring || false,
+            recurringTemplateId: newTemplateId,
             tags: expense.tags,
           });
+          expenseIdMap.set(expense.id, newExpense.id);
+        }
+      } catch (e) {
+        rejectRecord(rejected, 'expenses', expense, e);
+      }
+    }
+
+    // Import expense-asset splits (depends on expenses and assets)
+    for (const expenseAsset of data.expenseAssets ?? []) {
+      try {
+        const newExpenseId = expenseIdMap.get(expenseAsset.expenseId);
+        const newAssetId = assetIdMap.get(expenseAsset.assetId);
+        if (newExpenseId && newAssetId) {
+          await expenseAssetRepository.create({
+            expenseId: newExpenseId,
+            assetId: newAssetId,
+            amount: expenseAsset.amount,
+            notes: expenseAsset.notes,
+          });
+        }
+      } catch (e) {
+        console.log('Error importing expense asset:', e);
+      }
+    }
+
+    // Import expense splits (depend on expenses, properties, rooms and members)
+    for (const split of data.expenseSplits ?? []) {
+      try {
+        const newExpenseId = expenseIdMap.get(split.expenseId);
+        const newPropertyId = propertyIdMap.get(split.propertyId);
+        if (newExpenseId && newPropertyId) {
+          await expenseSplitRepository.create({
+            expenseId: newExpenseId,
+            propertyId: newPropertyId,
+            roomId: split.roomId ? roomIdMap.get(split.roomId) : undefined,
+            memberId: split.memberId ? memberIdMap.get(split.memberId) : undefined,
+            percent: split.percent,
+            amount: split.amount,
+            sortOrder: split.sortOrder ?? 0,
+          });
         }
       } catch (e) {
-        console.log('Error importing expense:', e);
+        rejectRecord(rejected, 'expenseSplits', split, e);
       }
     }
 
     // Import maintenance tasks (with proper asset/worker mapping)
+    const taskIdMap = new Map<string, string>();
     for (const task of data.maintenanceTasks) {
       try {
         const newPropertyId = propertyIdMap.get(task.propertyId);
         const newAssetId = task.assetId ? assetIdMap.get(task.assetId) : undefined;
         const newWorkerId = task.assignedWorkerId ? workerIdMap.get(task.assignedWorkerId) : undefined;
         if (newPropertyId) {
-          await maintenanceRepository.create({
+          const newTask = await maintenanceRepository.create({
             propertyId: newPropertyId,
             assetId: newAssetId,
             assignedWorkerId: newWorkerId,
@@ -644,12 +1217,41 @@ class BackupService {
             nextDueDate: task.nextDueDate,
             reminderDaysBefore: task.reminderDaysBefore,
           });
+          // create() always starts tasks as active and not completed
+          if (task.isCompleted === true || task.isActive === false) {
+            await maintenanceRepository.update(newTask.id, {
+              isCompleted: task.isCompleted ?? false,
+              isActive: task.isActive ?? true,
+            });
+          }
+          taskIdMap.set(task.id, newTask.id);
         }
       } catch (e) {
         console.log('Error importing maintenance task:', e);
       }
     }
 
+    // Import maintenance completions (depends on tasks and workers)
+    const completionIdMap = new Map<string, string>();
+    for (const completion of data.maintenanceCompletions ?? []) {
+      try {
+        const newTaskId = taskIdMap.get(completion.taskId);
+        const newWorkerId = completion.workerId ? workerIdMap.get(completion.workerId) : undefined;
+        if (newTaskId) {
+          const newCompletion = await maintenanceCompletionRepository.create({
+            taskId: newTaskId,
+            workerId: newWorkerId,
+            completedDate: completion.completedDate,
+            notes: completion.notes,
+            cost: completion.cost,
+          });
+          completionIdMap.set(completion.id, newCompletion.id);
+        }
+      } catch (e) {
+        console.log('Error importing maintenance completion:', e);
+      }
+    }
+
     // Import paint codes
     for (const paintCode of data.paintCodes) {
       try {
@@ -758,12 +1360,13 @@ class BackupService {
     }
 
     // Import renovations
+    const renovationIdMap = new Map<string, string>();
     for (const renovation of data.renovations) {
       try {
         const newPropertyId = propertyIdMap.get(renovation.propertyId);
         const newRoomId = renovation.roomId ? roomIdMap.get(renovation.roomId) : undefined;
         if (newPropertyId) {
-          await renovationRepository.create({
+          const newRenovation = await renovationRepository.create({
             propertyId: newPropertyId,
             roomId: newRoomId,
             title: renovation.title,
@@ -772,13 +1375,69 @@ class BackupService {
             afterImageUri: renovation.afterImageUri,
             completedDate: renovation.completedDate,
             cost: renovation.cost,
+            expenseType: renovation.expenseType,
           });
+          renovationIdMap.set(renovation.id, newRenovation.id);
         }
       } catch (e) {
         console.log('Error importing renovation:', e);
       }
     }
 
+    // Import renovation workers (depends on renovations and workers)
+    for (const renovationWorker of data.renovationWorkers ?? []) {
+      try {
+        const newRenovationId = renovationIdMap.get(renovationWorker.renovationId);
+        const newWorkerId = workerIdMap.get(renovationWorker.workerId);
+        if (newRenovationId && newWorkerId) {
+          await renovationWorkerRepository.create({
+            renovationId: newRenovationId,
+            workerId: newWorkerId,
+            role: renovationWorker.role,
+          });
+        }
+      } catch (e) {
+        console.log('Error importing renovation worker:', e);
+      }
+    }
+
+    // Import renovation assets (depends on renovations and assets)
+    for (const renovationAsset of data.renovationAssets ?? []) {
+      try {
+        const newRenovationId = renovationIdMap.get(renovationAsset.renovationId);
+        const newAssetId = assetIdMap.get(renovationAsset.assetId);
+        if (newRenovationId && newAssetId) {
+          await renovationAssetRepository.create({
+            renovationId: newRenovationId,
+            assetId: newAssetId,
+            notes: renovationAsset.notes,
+          });
+        }
+      } catch (e) {
+        console.log('Error importing renovation asset:', e);
+      }
+    }
+
+    // Import renovation costs (depends on renovations)
+    for (const cost of data.renovationCosts ?? []) {
+      try {
+        const newRenovationId = renovationIdMap.get(cost.renovationId);
+        if (newRenovationId) {
+          await renovationCostRepository.create({
+            renovationId: newRenovationId,
+            description: cost.description,
+            amount: cost.amount,
+            currency: cost.currency ?? backupCurrency,
+            category: cost.category,
+            date: cost.date,
+            taxTreatment: cost.taxTreatment,
+          });
+        }
+      } catch (e) {
+        console.log('Error importing renovation cost:', e);
+      }
+    }
+
     // Import emergency shutoffs
     for (const shutoff of data.emergencyShutoffs) {
       try {
@@ -797,28 +1456,6 @@ class BackupService {
       }
     }
 
-    // Import recurring templates
-    if (data.recurringTemplates) {
-      for (const template of data.recurringTemplates) {
-        try {
-          const newPropertyId = propertyIdMap.get(template.propertyId);
-          if (newPropertyId) {
-            await recurringTemplateRepository.create({
-              propertyId: newPropertyId,
-              name: template.name,
-              category: template.category,
-              estimatedAmount: template.estimatedAmount,
-              frequency: template.frequency,
-              typicalPaymentDay: template.typicalPaymentDay || template.dayOfMonth?.toString(),
-              isActive: template.isActive ?? true,
-            });
-          }
-        } catch (e) {
-          console.log('Error importing recurring template:', e);
-        }
-      }
-    }
-
     // Import notes (with proper asset/worker mapping)
     if (data.notes) {
       for (const note of data.notes) {
@@ -827,6 +1464,7 @@ class BackupService {
           const newRoomId = note.roomId ? roomIdMap.get(note.roomId) : undefined;
           const newAssetId = note.assetId ? assetIdMap.get(note.assetId) : undefined;
           const newWorkerId = note.workerId ? workerIdMap.get(note.workerId) : undefined;
+          // Scheduled notification ids belong to the exporting device, so only the date is kept
           await notesRepository.create({
             propertyId: newPropertyId,
             roomId: newRoomId,
@@ -834,134 +1472,178 @@ class BackupService {
             workerId: newWorkerId,
             content: note.content,
             isPinned: note.isPinned ?? false,
+            reminderDate: note.reminderDate,
           });
         } catch (e) {
           console.log('Error importing note:', e);
         }
       }
     }
-  }
-
-  // Helper methods to get all data - using getAll() methods to avoid N+1 queries
-  private async getAllProperties() {
-    return propertyRepository.getAll();
-  }
-
-  private async getAllRooms() {
-    return roomRepository.getAll();
-  }
-
-  private async getAllAssets() {
-    return assetRepository.getAll();
-  }
-
-  private async getAllExpenses() {
-    return expenseRepository.getAll();
-  }
 
-  private async getAllMaintenanceTasks() {
-    return maintenanceRepository.getAll();
-  }
-
-  private async getAllPaintCodes() {
-    return paintCodeRepository.getAll();
-  }
+    // Import attachments last, as they can belong to expenses, assets and
+    // maintenance completions
+    const ownerIdMaps: Record<AttachmentEntityType, Map<string, string>> = {
+      expense: expenseIdMap,
+      asset: assetIdMap,
+      maintenance_completion: completionIdMap,
+    };
+    for (const attachment of data.attachments ?? []) {
+      try {
+        const newEntityId = ownerIdMaps[attachment.entityType as AttachmentEntityType]?.get(attachment.entityId);
+        if (newEntityId) {
+          await attachmentRepository.create({
+            entityType: attachment.entityType,
+            entityId: newEntityId,
+            fileUri: attachment.fileUri,
+            fileType: attachment.fileType,
+            caption: attachment.caption,
+          });
+        }
+      } catch (e) {
+        rejectRecord(rejected, 'attachments', attachment, e);
+      }
+    }
 
-  private async getAllMeasurements() {
-    return measurementRepository.getAll();
-  }
+    const customFieldOwnerIdMaps: Record<CustomFieldEntityType, Map<string, string>> = {
+      property: propertyIdMap,
+      room: roomIdMap,
+      asset: assetIdMap,
+      expense: expenseIdMap,
+      worker: workerIdMap,
+    };
+    for (const value of data.customFieldValues ?? []) {
+      try {
+        const newDefinitionId = customFieldIdMap.get(value.definitionId);
+        const newEntityId = customFieldOwnerIdMaps[value.entityType as CustomFieldEntityType]?.get(value.entityId);
+        if (newDefinitionId && newEntityId) {
+          await customFieldValueRepository.save(
+            value.entityType,
+            newEntityId,
+            { [newDefinitionId]: value.value },
+            transaction
+          );
+        }
+      } catch (e) {
+        rejectRecord(rejected, 'customFieldValues', value, e);
+      }
+    }
 
-  private async getAllStorageBoxes() {
-    return storageBoxRepository.getAll();
+    return rejected;
   }
 
-  private async getAllWifiNetworks() {
-    return wifiInfoRepository.getAll();
-  }
+  // Loads every backup collection - using getAll() methods to avoid N+1 queries
+  private async getAllData(): Promise<BackupData['data']> {
+    const loaders: Record<BackupCollection, () => Promise<any[]>> = {
+      properties: () => propertyRepository.getAll(),
+      rooms: () => roomRepository.getAll(),
+      assets: () => assetRepository.getAll(),
+      expenses: () => expenseRepository.getAll(),
+      expenseAssets: () => expenseAssetRepository.getAll(),
+      expenseSplits: () => expenseSplitRepository.getAll(),
+      householdMembers: () => householdMemberRepository.getAll(),
+      settlements: () => settlementRepository.getAll(),
+      tenants: () => tenantRepository.getAll(),
+      leases: () => leaseRepository.getAll(),
+      rentPayments: () => rentPaymentRepository.getAll(),
+      workers: () => workerRepository.getAll(),
+      workerNotes: () => workerNoteRepository.getAll(),
+      maintenanceTasks: () => maintenanceRepository.getAll(),
+      maintenanceCompletions: () => maintenanceCompletionRepository.getAll(),
+      paintCodes: () => paintCodeRepository.getAll(),
+      measurements: () => measurementRepository.getAll(),
+      storageBoxes: () => storageBoxRepository.getAll(),
+      wifiNetworks: () => wifiInfoRepository.getAll(),
+      documents: () => documentRepository.getAll(),
+      renovations: () => renovationRepository.getAll(),
+      renovationWorkers: () => renovationWorkerRepository.getAll(),
+      renovationAssets: () => renovationAssetRepository.getAll(),
+      renovationCosts: () => renovationCostRepository.getAll(),
+      emergencyShutoffs: () => emergencyRepository.getAll(),
+      recurringTemplates: () => recurringTemplateRepository.getAll(),
+      recurringPaymentHistory: () => recurringPaymentHistoryRepository.getAll(),
+      notes: () => notesRepository.getAll(),
+      customCategories: () => customCategoryRepository.getAll(),
+      payeeRules: () => payeeRuleRepository.getAll(),
+      budgets: () => budgetRepository.getAll(),
+      exchangeRates: () => exchangeRateRepository.getAll(),
+      appSettings: async () => [await settingsRepository.get()],
+      attachments: () => attachmentRepository.getAll(),
+      customFieldDefinitions: () => customFieldRepository.getAll(),
+      customFieldValues: () => customFieldValueRepository.getAll(),
+    };
 
-  private async getAllRenovations() {
-    return renovationRepository.getAll();
+    const results = await Promise.all(BACKUP_COLLECTIONS.map(collection => loaders[collection]()));
+    const data = {} as BackupData['data'];
+    BACKUP_COLLECTIONS.forEach((collection, index) => {
+      data[collection] = results[index];
+    });
+
+    // Trashed properties aren't backed up, so their records without a trash
+    // of their own are left out too rather than dropped on import
+    const liveProperties = new Set(data.properties.map(property => property.id));
+    for (const collection of PROPERTY_RECORD_COLLECTIONS) {
+      data[collection] = data[collection].filter(record => liveProperties.has(record.propertyId));
+    }
+    return data;
   }
 
-  private async getAllEmergencyShutoffs() {
-    return emergencyRepository.getAll();
+  private countCollections(data: BackupData['data']): BackupManifest['stats'] {
+    const stats = {} as BackupManifest['stats'];
+    for (const collection of BACKUP_COLLECTIONS) {
+      stats[collection] = data[collection]?.length ?? 0;
+    }
+    return stats;
   }
 
-  private async getAllRecurringTemplates() {
-    return recurringTemplateRepository.getAll();
-  }
+  // Round-trip check: every schema table must belong to a backup collection,
+  // and every collection should hold exactly the rows that are in its table
+  private async verifySchemaCoverage(data: BackupData['data']): Promise<void> {
+    const missingTables = getTablesMissingFromBackup();
+    if (missingTables.length > 0) {
+      throw new Error(`Backup does not support tables: ${missingTables.join(', ')}`);
+    }
 
-  private async getAllNotes() {
-    return notesRepository.getAll();
+    for (const collection of BACKUP_COLLECTIONS) {
+      const table = BACKUP_TABLES[collection];
+      const isSoftDelete = (SOFT_DELETE_TABLES as readonly string[]).includes(table);
+      const condition = isSoftDelete
+        ? ' WHERE deleted_at IS NULL'
+        : (PROPERTY_RECORD_COLLECTIONS as readonly string[]).includes(collection)
+          ? ' WHERE property_id IN (SELECT id FROM properties WHERE deleted_at IS NULL)'
+          : '';
+      const result = await queryFirst<{ count: number }>(`SELECT COUNT(*) as count FROM ${table}${condition}`);
+      const rowCount = result?.count ?? 0;
+      // Collections are read one query at a time, so a change saved while
+      // the backup was read can account for a difference
+      if (rowCount !== data[collection].length) {
+        console.log(`Backup of ${table} may be incomplete (${data[collection].length} of ${rowCount} rows)`);
+      }
+    }
   }
 
   async clearAllData(): Promise<void> {
-    // This is a destructive operation - handled by dropping and recreating tables
-    // For now, we'll delete each property which cascades to delete everything
-    const properties = await propertyRepository.getAll();
-    for (const property of properties) {
-      await propertyRepository.delete(property.id);
-    }
+    // This is a destructive operation and bypasses the trash. Every backup
+    // table is emptied, children before their parents, trashed rows included.
+    // Settings and the built-in categories stay, as they are not user data.
+    await withTransaction(async () => {
+      for (const table of [...Object.values(BACKUP_TABLES)].reverse()) {
+        if (table === 'app_settings') continue;
+        await execute(
+          table === 'custom_categories' ? 'DELETE FROM custom_categories WHERE is_default = 0' : `DELETE FROM ${table}`
+        );
+      }
+      await execute('DELETE FROM trash_items');
+      await execute('DELETE FROM change_log');
 
-    // Delete all workers (not tied to properties)
-    const workers = await workerRepository.getAll();
-    for (const worker of workers) {
-      await workerRepository.delete(worker.id);
-    }
+      // Cascades and cleared references do not show up as writes of their own
+      notifyTablesChanged(Object.values(BACKUP_TABLES));
+    });
   }
 
-  async getBackupStats(): Promise<BackupManifest['stats']> {
-    const [
-      properties,
-      rooms,
-      assets,
-      expenses,
-      workers,
-      maintenanceTasks,
-      paintCodes,
-      measurements,
-      storageBoxes,
-      wifiNetworks,
-      documents,
-      renovations,
-      emergencyShutoffs,
-      recurringTemplates,
-      notes,
-    ] = await Promise.all([
-      this.getAllProperties(),
-      this.getAllRooms(),
-      this.getAllAssets(),
-      this.getAllExpenses(),
-      workerRepository.getAll(),
-      this.getAllMaintenanceTasks(),
-      this.getAllPaintCodes(),
-      this.getAllMeasurements(),
-      this.getAllStorageBoxes(),
-      this.getAllWifiNetworks(),
-      documentRepository.getAll(),
-      this.getAllRenovations(),
-      this.getAllEmergencyShutoffs(),
-      this.getAllRecurringTemplates(),
-      this.getAllNotes(),
-    ]);
 
-    return {
-      properties: properties.length,
-      rooms: rooms.length,
-      assets: assets.length,
-      expenses: expenses.length,
-      workers: workers.length,
-      maintenanceTasks: maintenanceTasks.length,
-      paintCodes: paintCodes.length,
-      measurements: measurements.length,
-      storageBoxes: storageBoxes.length,
-      wifiNetworks: wifiNetworks.length,
-      documents: documents.length,
-      renovations: renovations.length,
-      emergencyShutoffs: emergencyShutoffs.length,
-      recurringTemplates: recurringTemplates.length,
-      notes: notes.length,
-    };
+  async getBackupStats(): Promise<BackupManifest['stats']> {
+    const data = await this.getAllData();
+    return this.countCollections(data);
   }
 }
 
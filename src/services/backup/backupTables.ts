@@ -0,0 +1,63 @@
+import { CREATE_TABLES_SQL } from '../database/schema';
+
+// Every backup collection and the SQLite table it is read from.
+// A table created in CREATE_TABLES_SQL but missing here makes exports fail,
+// so new tables cannot silently drop out of backups.
+export const BACKUP_TABLES = {
+  properties: 'properties',
+  rooms: 'rooms',
+  assets: 'assets',
+  expenses: 'expenses',
+  expenseAssets: 'expense_assets',
+  expenseSplits: 'expense_splits',
+  workers: 'workers',
+  workerNotes: 'worker_notes',
+  maintenanceTasks: 'maintenance_tasks',
+  maintenanceCompletions: 'maintenance_completions',
+  paintCodes: 'paint_codes',
+  measurements: 'measurements',
+  storageBoxes: 'storage_boxes',
+  wifiNetworks: 'wifi_info',
+  documents: 'documents',
+  renovations: 'renovations',
+  renovationWorkers: 'renovation_workers',
+  renovationAssets: 'renovation_assets',
+  renovationCosts: 'renovation_costs',
+  emergencyShutoffs: 'emergency_shutoffs',
+  recurringTemplates: 'recurring_templates',
+  recurringPaymentHistory: 'recurring_payment_history',
+  notes: 'notes',
+  customCategories: 'custom_categories',
+  payeeRules: 'payee_rules',
+  budgets: 'budgets',
+  tenants: 'tenants',
+  leases: 'leases',
+  rentPayments: 'rent_payments',
+  exchangeRates: 'exchange_rates',
+  householdMembers: 'household_members',
+  settlements: 'settlements',
+  appSettings: 'app_settings',
+  attachments: 'attachments',
+  customFieldDefinitions: 'custom_field_definitions',
+  customFieldValues: 'custom_field_values',
+} as const;
+
+export type BackupCollection = keyof typeof BACKUP_TABLES;
+
+export const BACKUP_COLLECTIONS = Object.keys(BACKUP_TABLES) as BackupCollection[];
+
+// Tables that only describe this device's copy of the data. The trash and
+// the change log are left out of backups, and trashed rows are not exported.
+export const LOCAL_TABLES = ['trash_items', 'change_log'];
+
+// Table names declared by the current schema
+export function getSchemaTables(): string[] {
+  const matches = CREATE_TABLES_SQL.matchAll(/CREATE TABLE IF NOT EXISTS (\w+)/g);
+  return Array.from(matches, match => match[1]);
+}
+
+// Schema tables that no backup collection reads from
+export function getTablesMissingFromBackup(): string[] {
+  const covered = new Set<string>([...Object.values(BACKUP_TABLES), ...LOCAL_TABLES]);
+  return getSchemaTables().filter(table => !covered.has(table));
+}
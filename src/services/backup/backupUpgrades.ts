@@ -0,0 +1,175 @@
+import type { BackupData } from './backupService';
+import { BACKUP_COLLECTIONS, BackupCollection } from './backupTables';
+import { BACKUP_FIXTURES } from './backupFixtures';
+import { generateUUID } from '../../utils/uuid';
+
+// Upgrades a backup payload from the version it is keyed under to the next one.
+// Upgraders only reshape the file; they never touch the database.
+type BackupUpgrader = (backup: BackupData) => BackupData;
+
+// v1 files carried only these collections; everything else arrived in v2
+const V1_COLLECTIONS: BackupCollection[] = [
+  'properties',
+  'rooms',
+  'assets',
+  'expenses',
+  'workers',
+  'maintenanceTasks',
+  'paintCodes',
+  'measurements',
+  'storageBoxes',
+  'wifiNetworks',
+  'documents',
+  'renovations',
+  'emergencyShutoffs',
+  'recurringTemplates',
+  'notes',
+];
+
+const UPGRADERS: Record<number, BackupUpgrader> = {
+  // v1 -> v2: add the collections that v1 left out, and default task fields
+  // that did not exist yet when some v1 files were written
+  1: backup => {
+    const data = { ...backup.data };
+    const stats = { ...backup.manifest.stats };
+    for (const collection of BACKUP_COLLECTIONS) {
+      data[collection] = data[collection] ?? [];
+      stats[collection] = stats[collection] ?? data[collection].length;
+    }
+    data.maintenanceTasks = data.maintenanceTasks.map(task => ({
+      ...task,
+      isActive: task.isActive ?? true,
+    }));
+    return { ...backup, manifest: { ...backup.manifest, stats }, data };
+  },
+
+  // v2 -> v3: media was not bundled, so records keep pointing at files on the
+  // exporting device and restoreMedia reports the ones not found here
+  2: backup => ({
+    ...backup,
+    manifest: {
+      ...backup.manifest,
+      media: backup.manifest.media ?? { files: 0, bytes: 0, missing: [] },
+    },
+    media: backup.media ?? [],
+  }),
+
+  // v3 -> v4: receipts, asset photos and manuals became attachments. The
+  // photo comes before the manual, as the first photo is the asset's picture.
+  3: backup => {
+    const attachments: any[] = [...(backup.data.attachments ?? [])];
+    const attach = (entityType: string, record: any, fileUri: unknown, sortOrder: number) => {
+      if (typeof fileUri !== 'string' || fileUri.length === 0) return;
+      attachments.push({
+        id: generateUUID(),
+        entityType,
+        entityId: record.id,
+        fileUri,
+        fileType: /\.pdf$/i.test(fileUri) ? 'pdf' : 'image',
+        sortOrder,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt ?? record.createdAt,
+      });
+    };
+
+    const expenses = (backup.data.expenses ?? []).map(({ receiptUri, ...expense }) => {
+      attach('expense', expense, receiptUri, 0);
+      return expense;
+    });
+    const assets = (backup.data.assets ?? []).map(({ imageUri, manualUri, ...asset }) => {
+      attach('asset', asset, imageUri, 0);
+      attach('asset', asset, manualUri, 1);
+      return asset;
+    });
+
+    return {
+      ...backup,
+      manifest: {
+        ...backup.manifest,
+        stats: { ...backup.manifest.stats, attachments: attachments.length },
+      },
+      data: { ...backup.data, expenses, assets, attachments },
+    };
+  },
+
+  // v4 -> v5: files became zip archives with media as entries of their own.
+  // Media of older files stays inline as base64, which restoreMedia reads.
+  4: backup => backup,
+};
+
+// Runs every upgrader between the file's version and targetVersion in order.
+// Files written before versions were recorded are treated as v1.
+export function upgradeBackup(backup: BackupData, targetVersion: number): BackupData {
+  let upgraded = backup;
+  let version = backup.manifest.schemaVersion ?? 1;
+
+  while (version < targetVersion) {
+    const upgrader = UPGRADERS[version];
+    if (!upgrader) {
+      throw new Error(`No upgrade path for backup schema version ${version}`);
+    }
+    upgraded = upgrader(upgraded);
+    version++;
+    upgraded = { ...upgraded, manifest: { ...upgraded.manifest, schemaVersion: version } };
+  }
+
+  // Tables added since the file was written do not change the format, so
+  // their collections are simply empty
+  const missing = BACKUP_COLLECTIONS.filter(collection => !upgraded.data[collection]);
+  if (missing.length > 0) {
+    const data = { ...upgraded.data };
+    const stats = { ...upgraded.manifest.stats };
+    for (const collection of missing) {
+      data[collection] = [];
+      stats[collection] = 0;
+    }
+    upgraded = { ...upgraded, manifest: { ...upgraded.manifest, stats }, data };
+  }
+
+  return upgraded;
+}
+
+// Upgrades every fixture and returns what does not match the current format.
+// An empty list means every backup version the app has written still imports.
+export function verifyBackupUpgrades(targetVersion: number): string[] {
+  const problems: string[] = [];
+
+  for (const fixture of BACKUP_FIXTURES) {
+    const name = `v${fixture.manifest.schemaVersion} fixture`;
+    try {
+      const upgraded = upgradeBackup(JSON.parse(JSON.stringify(fixture)), targetVersion);
+      if (upgraded.manifest.schemaVersion !== targetVersion) {
+        problems.push(`${name}: ended at version ${upgraded.manifest.schemaVersion}`);
+      }
+      for (const collection of BACKUP_COLLECTIONS) {
+        if (!Array.isArray(upgraded.data[collection])) {
+          problems.push(`${name}: ${collection} is missing`);
+        } else if (upgraded.manifest.stats[collection] !== upgraded.data[collection].length) {
+          problems.push(`${name}: ${collection} count does not match its records`);
+        }
+      }
+      for (const collection of V1_COLLECTIONS) {
+        const original = fixture.data[collection]?.length ?? 0;
+        if (upgraded.data[collection]?.length !== original) {
+          problems.push(`${name}: ${collection} lost records`);
+        }
+      }
+      if (!Array.isArray(upgraded.media) || !upgraded.manifest.media) {
+        problems.push(`${name}: media section is missing`);
+      }
+      if (upgraded.data.maintenanceTasks.some(task => typeof task.isActive !== 'boolean')) {
+        problems.push(`${name}: maintenance task without isActive`);
+      }
+      if (
+        upgraded.data.expenses.some(expense => 'receiptUri' in expense) ||
+        upgraded.data.assets.some(asset => 'imageUri' in asset || 'manualUri' in asset)
+      ) {
+        problems.push(`${name}: file field not moved into attachments`);
+      }
+    } catch (e) {
+      problems.push(`${name}: ${(e as Error).message}`);
+    }
+  }
+
+  return problems;
+}
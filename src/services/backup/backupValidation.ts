@@ -0,0 +1,45 @@
+import { ENTITIES_BY_TABLE } from '../database/entities';
+import { isValidationError, ValidationIssue } from '../database/entity';
+import { BACKUP_TABLES, BackupCollection } from './backupTables';
+
+// A backup record that was not imported because its data is invalid
+export interface RejectedRecord {
+  collection: BackupCollection;
+  id: string;
+  label: string;
+  issues: ValidationIssue[];
+}
+
+export function getRecordLabel(record: any): string {
+  if (record.fromCurrency && record.toCurrency) {
+    return `${record.fromCurrency} → ${record.toCurrency} · ${record.date}`;
+  }
+  const label = record.name ?? record.title ?? record.networkName ?? record.colorName
+    ?? record.description ?? record.content ?? record.location ?? record.pattern ?? record.id;
+  const text = String(label);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+// Checks a repository-shaped record against its table's entity definition.
+// Older backups leave out fields that were added later, so only the values
+// that are present are checked. Records of tables without a definition are
+// accepted as they are.
+export function validateBackupRecord(collection: BackupCollection, record: unknown): ValidationIssue[] {
+  const entity = ENTITIES_BY_TABLE[BACKUP_TABLES[collection]];
+  return entity ? entity.validate(record, { partial: true }) : [];
+}
+
+// Keeps track of a record the restore skipped. Invalid data is reported to
+// the user; anything else is only logged, as before.
+export function rejectRecord(
+  rejected: RejectedRecord[],
+  collection: BackupCollection,
+  record: any,
+  error: unknown
+): void {
+  if (isValidationError(error)) {
+    rejected.push({ collection, id: String(record?.id), label: getRecordLabel(record ?? {}), issues: error.issues });
+  } else {
+    console.log(`Error importing ${collection} record:`, error);
+  }
+}
@@ -1 +1,9 @@
-export { backupService } from './backupService';
+export { backupService, BACKUP_SCHEMA_VERSION } from './backupService';
+export { verifyBackupUpgrades } from './backupUpgrades';
+export type { MergePlan, MergeItem, MergeStrategy, MergeResolution, MergeResult } from './backupMerge';
+export { resolveMergeItem } from './backupMerge';
+export type { RejectedRecord } from './backupValidation';
+export { autoBackupService } from './autoBackup';
+export type { BackupSnapshot } from './autoBackup';
+export type { BackupManifest } from './backupService';
+export type { PropertyExportOptions } from './propertyExport';
@@ -0,0 +1,156 @@
+import {
+  propertyRepository,
+  roomRepository,
+  assetRepository,
+  expenseRepository,
+  expenseAssetRepository,
+  workerRepository,
+  maintenanceRepository,
+  maintenanceCompletionRepository,
+  paintCodeRepository,
+  measurementRepository,
+  storageBoxRepository,
+  wifiInfoRepository,
+  documentRepository,
+  renovationRepository,
+  renovationWorkerRepository,
+  renovationAssetRepository,
+  renovationCostRepository,
+  emergencyRepository,
+  recurringTemplateRepository,
+  recurringPaymentHistoryRepository,
+  notesRepository,
+  payeeRuleRepository,
+  budgetRepository,
+  tenantRepository,
+  leaseRepository,
+  rentPaymentRepository,
+  attachmentRepository,
+  customFieldRepository,
+  customFieldValueRepository,
+} from '../database';
+import { BACKUP_COLLECTIONS, BackupCollection } from './backupTables';
+
+export interface PropertyExportOptions {
+  // Expenses, bills, prices and costs
+  includeFinancial: boolean;
+  includeWifiPasswords: boolean;
+}
+
+// Recorded in the manifest of a backup that holds a single property
+export interface BackupScope extends PropertyExportOptions {
+  type: 'property';
+  propertyId: string;
+  propertyName: string;
+}
+
+// Gathers one property and everything attached to it, in the same shape as a
+// full backup so the regular importer can read it. Workers are limited to the
+// ones linked to this property; personal worker notes are left out.
+export async function collectPropertyData(
+  propertyId: string,
+  options: PropertyExportOptions
+): Promise<Record<BackupCollection, any[]>> {
+  const property = await propertyRepository.getById(propertyId);
+  if (!property) {
+    throw new Error('Property not found');
+  }
+
+  const data = Object.fromEntries(
+    BACKUP_COLLECTIONS.map(collection => [collection, [] as any[]])
+  ) as Record<BackupCollection, any[]>;
+
+  data.properties = [property];
+  data.rooms = await roomRepository.getByPropertyId(propertyId);
+  data.assets = await assetRepository.getByPropertyId(propertyId);
+  data.paintCodes = await paintCodeRepository.getByPropertyId(propertyId);
+  data.measurements = await measurementRepository.getByPropertyId(propertyId);
+  data.storageBoxes = await storageBoxRepository.getByPropertyId(propertyId);
+  data.emergencyShutoffs = await emergencyRepository.getByPropertyId(propertyId);
+  data.notes = await notesRepository.getByPropertyId(propertyId);
+  data.tenants = await tenantRepository.getByPropertyId(propertyId);
+  data.wifiNetworks = await wifiInfoRepository.getByPropertyId(propertyId);
+  data.maintenanceTasks = await maintenanceRepository.getByPropertyId(propertyId);
+  data.renovations = await renovationRepository.getByPropertyId(propertyId);
+
+  // Manuals and warranties can be attached to an asset without the property
+  const documents = new Map<string, any>();
+  for (const document of await documentRepository.getByPropertyId(propertyId)) {
+    documents.set(document.id, document);
+  }
+  for (const asset of data.assets) {
+    for (const document of await documentRepository.getByAssetId(asset.id)) {
+      documents.set(document.id, document);
+    }
+  }
+  data.documents = Array.from(documents.values());
+
+  for (const task of data.maintenanceTasks) {
+    data.maintenanceCompletions.push(...await maintenanceCompletionRepository.getByTaskId(task.id));
+  }
+  for (const renovation of data.renovations) {
+    data.renovationWorkers.push(...await renovationWorkerRepository.getByRenovationId(renovation.id));
+    data.renovationAssets.push(...await renovationAssetRepository.getByRenovationId(renovation.id));
+  }
+
+  if (options.includeFinancial) {
+    data.expenses = await expenseRepository.getByPropertyId(propertyId);
+    data.recurringTemplates = await recurringTemplateRepository.getByPropertyId(propertyId);
+    data.payeeRules = await payeeRuleRepository.getByPropertyId(propertyId);
+    data.budgets = await budgetRepository.getByPropertyId(propertyId);
+    data.leases = await leaseRepository.getByPropertyId(propertyId);
+    data.rentPayments = await rentPaymentRepository.getByPropertyId(propertyId);
+    for (const expense of data.expenses) {
+      data.expenseAssets.push(...await expenseAssetRepository.getByExpenseId(expense.id));
+    }
+    for (const template of data.recurringTemplates) {
+      data.recurringPaymentHistory.push(...await recurringPaymentHistoryRepository.getByTemplateId(template.id));
+    }
+    for (const renovation of data.renovations) {
+      data.renovationCosts.push(...await renovationCostRepository.getByRenovationId(renovation.id));
+    }
+  } else {
+    data.assets = data.assets.map(({ purchasePrice, ...asset }) => asset);
+    data.maintenanceCompletions = data.maintenanceCompletions.map(({ cost, ...completion }) => completion);
+    data.renovations = data.renovations.map(({ cost, ...renovation }) => renovation);
+    data.documents = data.documents.filter(document => document.type !== 'receipt');
+  }
+
+  // Expenses are only present with financial data, so their receipts follow
+  const owners = [
+    ...data.assets.map(asset => ['asset', asset.id] as const),
+    ...data.maintenanceCompletions.map(completion => ['maintenance_completion', completion.id] as const),
+    ...data.expenses.map(expense => ['expense', expense.id] as const),
+  ];
+  for (const [entityType, entityId] of owners) {
+    data.attachments.push(...await attachmentRepository.getByEntity(entityType, entityId));
+  }
+
+  if (!options.includeWifiPasswords) {
+    // The QR code encodes the password as well
+    data.wifiNetworks = data.wifiNetworks.map(({ qrCodeUri, ...network }) => ({ ...network, password: '' }));
+  }
+
+  // Contacts for everyone who worked on this property
+  const workerIds = new Set<string>();
+  for (const task of data.maintenanceTasks) {
+    if (task.assignedWorkerId) workerIds.add(task.assignedWorkerId);
+  }
+  for (const record of [...data.maintenanceCompletions, ...data.renovationWorkers, ...data.expenses, ...data.documents]) {
+    if (record.workerId) workerIds.add(record.workerId);
+  }
+  for (const workerId of workerIds) {
+    const worker = await workerRepository.getById(workerId);
+    if (worker) data.workers.push(worker);
+  }
+
+  // Custom field values of the records above, with the fields they use
+  const recordIds = new Set(
+    [...data.properties, ...data.rooms, ...data.assets, ...data.expenses, ...data.workers].map(record => record.id)
+  );
+  data.customFieldValues = (await customFieldValueRepository.getAll()).filter(value => recordIds.has(value.entityId));
+  const fieldIds = new Set(data.customFieldValues.map(value => value.definitionId));
+  data.customFieldDefinitions = (await customFieldRepository.getAll()).filter(definition => fieldIds.has(definition.id));
+
+  return data;
+}
@@ -0,0 +1,102 @@
+import { Budget, BudgetStatus } from '../../types';
+import { budgetRepository, subscribeToChanges } from '../database';
+import { notificationService } from '../notifications';
+import { t } from '../../i18n';
+import { formatCurrency, getReportingCurrency } from '../../utils/currency';
+
+type Translate = (scope: string, options?: Record<string, string | number>) => string;
+
+// Percentages of a budget that send an alert when spending reaches them
+export const BUDGET_ALERT_LEVELS = [80, 100];
+
+// Spending changes with expenses, how they are split and the rates that
+// convert them; what a budget allows changes with budgets
+const WATCHED_TABLES = ['expenses', 'expense_splits', 'exchange_rates', 'app_settings', 'budgets'];
+
+// Bills keep their categories under their own section of the locale files
+export function getCategoryLabel(budget: Pick<Budget, 'expenseType' | 'category'>, translate: Translate = t): string {
+  if (!budget.category) return '';
+  const scope = budget.expenseType === 'bill'
+    ? `bills.categories.${budget.category}`
+    : `expense.categories.${budget.expenseType}.${budget.category}`;
+  return translate(scope, { defaultValue: budget.category });
+}
+
+// What the budget covers, e.g. "Repair · Plumbing" or "All expenses"
+export function getBudgetLabel(budget: Pick<Budget, 'expenseType' | 'category'>, translate: Translate = t): string {
+  if (!budget.expenseType) return translate('budgets.allExpenses');
+  const type = translate(`expense.types.${budget.expenseType}`);
+  return budget.category ? `${type} · ${getCategoryLabel(budget, translate)}` : type;
+}
+
+// The highest level the period's spending has reached, or 0
+function getReachedLevel(status: BudgetStatus): number {
+  return BUDGET_ALERT_LEVELS.filter(level => status.percent >= level).pop() ?? 0;
+}
+
+let running = false;
+let runAgain = false;
+
+// One check at a time; changes made during a check lead to one more
+async function runCheck(): Promise<void> {
+  if (running) {
+    runAgain = true;
+    return;
+  }
+  running = true;
+  try {
+    do {
+      runAgain = false;
+      await budgetAlertService.checkBudgets();
+    } while (runAgain);
+  } catch (error) {
+    console.log('Budget alert check failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export const budgetAlertService = {
+  // Sends an alert for every budget whose spending has reached a level it
+  // has not been alerted for in the current period. Going from below 80% to
+  // over 100% at once sends only the 100% alert.
+  async checkBudgets(): Promise<number> {
+    const statuses = await budgetRepository.getStatuses();
+    const reportingCurrency = getReportingCurrency();
+    let sent = 0;
+
+    for (const status of statuses) {
+      const { budget } = status;
+      const level = getReachedLevel(status);
+      const alerted = budget.alertedPeriod === status.periodStart ? budget.alertedPercent : 0;
+      if (level <= alerted) continue;
+
+      const values = {
+        name: getBudgetLabel(budget),
+        property: status.propertyName,
+        percent: Math.round(status.percent),
+        spent: formatCurrency(status.spent, reportingCurrency),
+        available: formatCurrency(status.available, reportingCurrency),
+      };
+      await notificationService.sendBudgetAlert(
+        budget.id,
+        t(level >= 100 ? 'budgets.alert.overTitle' : 'budgets.alert.nearTitle', values),
+        t('budgets.alert.body', values)
+      );
+      await budgetRepository.markAlerted(budget.id, status.periodStart, level);
+      sent++;
+    }
+    return sent;
+  },
+
+  // Checks now and again whenever expenses or budgets change, until the
+  // returned function is called
+  watch(): () => void {
+    runCheck();
+    return subscribeToChanges(changes => {
+      if (changes.some(change => WATCHED_TABLES.includes(change.table))) {
+        runCheck();
+      }
+    });
+  },
+};
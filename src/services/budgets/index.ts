@@ -0,0 +1 @@
+export { budgetAlertService, getBudgetLabel, getCategoryLabel, BUDGET_ALERT_LEVELS } from './budgetAlertService';
@@ -0,0 +1,103 @@
+// Change notifications for the reactive query hooks. Every write that goes
+// through `execute` reports the table it touched and, when the statement
+// names them, the ids of the rows. Writes inside a transaction are held back
+// until it commits and dropped if it rolls back.
+
+export interface TableChange {
+  table: string;
+  // Empty when the statement could have touched any row of the table
+  ids: string[];
+}
+
+export type ChangeListener = (changes: TableChange[]) => void;
+
+const listeners = new Set<ChangeListener>();
+
+let pending: TableChange[] = [];
+let transactionDepth = 0;
+let flushScheduled = false;
+
+const WRITE_PATTERN = /^\s*(?:INSERT(?:\s+OR\s+\w+)?\s+INTO|UPDATE(?:\s+OR\s+\w+)?|DELETE\s+FROM|REPLACE\s+INTO)\s+(\w+)/i;
+const INSERT_ID_PATTERN = /^\s*(?:INSERT|REPLACE)[^(]*\(\s*id\s*[,)]/i;
+const WHERE_ID_PATTERN = /WHERE\s+id\s*=\s*\?\s*;?\s*$/i;
+
+// The table and row a statement writes to, e.g. an INSERT that starts with
+// the id column or an UPDATE/DELETE ending in `WHERE id = ?`
+export function describeWrite(sql: string, params: any[]): TableChange | null {
+  const match = sql.match(WRITE_PATTERN);
+  if (!match) return null;
+
+  const table = match[1];
+  if (INSERT_ID_PATTERN.test(sql) && typeof params[0] === 'string') {
+    return { table, ids: [params[0]] };
+  }
+  if (WHERE_ID_PATTERN.test(sql) && typeof params[params.length - 1] === 'string') {
+    return { table, ids: [params[params.length - 1]] };
+  }
+  return { table, ids: [] };
+}
+
+function flush(): void {
+  flushScheduled = false;
+  if (transactionDepth > 0 || pending.length === 0) return;
+
+  // Merge per table; a change to any row of a table covers the rest
+  const byTable = new Map<string, Set<string> | null>();
+  for (const change of pending) {
+    const ids = byTable.get(change.table);
+    if (ids === null) continue;
+    if (change.ids.length === 0) {
+      byTable.set(change.table, null);
+    } else {
+      byTable.set(change.table, new Set([...(ids ?? []), ...change.ids]));
+    }
+  }
+  pending = [];
+
+  const changes = [...byTable].map(([table, ids]) => ({ table, ids: ids ? [...ids] : [] }));
+  for (const listener of [...listeners]) {
+    try {
+      listener(changes);
+    } catch (error) {
+      console.error('Change listener failed:', error);
+    }
+  }
+}
+
+// Writes made in the same tick reach listeners as one batch
+function scheduleFlush(): void {
+  if (flushScheduled) return;
+  flushScheduled = true;
+  Promise.resolve().then(flush);
+}
+
+export function notifyChange(table: string, ids: string[] = []): void {
+  pending.push({ table, ids });
+  if (transactionDepth === 0) scheduleFlush();
+}
+
+// For writes the statements do not show, such as rows removed by a cascade
+export function notifyTablesChanged(tables: readonly string[]): void {
+  for (const table of tables) notifyChange(table);
+}
+
+export function subscribeToChanges(listener: ChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function holdChanges(): void {
+  transactionDepth++;
+}
+
+export function releaseChanges(committed: boolean): void {
+  transactionDepth = Math.max(0, transactionDepth - 1);
+  if (transactionDepth > 0) return;
+  if (!committed) {
+    pending = [];
+    return;
+  }
+  scheduleFlush();
+}
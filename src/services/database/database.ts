@@ -1,5 +1,6 @@
 import * as SQLite from 'expo-sqlite';
-import { CREATE_TABLES_SQL, SCHEMA_VERSION } from './schema';
+import { migrateDatabase } from './migrations';
+import { describeWrite, holdChanges, notifyChange, releaseChanges } from './changes';
 
 const DATABASE_NAME = 'homemaintenance.db';
 
@@ -37,199 +38,8 @@ async function initializeDatabase(database: SQLite.SQLiteDatabase): Promise<void
   // Enable foreign keys
   await database.execAsync('PRAGMA foreign_keys = ON;');
 
-  // Create tables
-  await database.execAsync(CREATE_TABLES_SQL);
-
-  // Run migrations
-  await runMigrations(database);
-
-  // Set schema version
-  await database.execAsync(`PRAGMA user_version = ${SCHEMA_VERSION};`);
-}
-
-async function runMigrations(database: SQLite.SQLiteDatabase): Promise<void> {
-  // Run all migrations within a transaction for data integrity
-  await database.execAsync('BEGIN TRANSACTION');
-
-  try {
-    // Migration: Add encrypt_exports column if it doesn't exist
-    const tableInfo = await database.getAllAsync<{ name: string }>(
-      "PRAGMA table_info(app_settings)"
-    );
-    const hasEncryptExports = tableInfo.some(col => col.name === 'encrypt_exports');
-
-    if (!hasEncryptExports) {
-      await database.execAsync(
-        'ALTER TABLE app_settings ADD COLUMN encrypt_exports INTEGER NOT NULL DEFAULT 0'
-      );
-    }
-
-    // Migration V3: Add assigned_worker_id and is_active to maintenance_tasks
-    const maintenanceTableInfo = await database.getAllAsync<{ name: string }>(
-      "PRAGMA table_info(maintenance_tasks)"
-    );
-    const hasAssignedWorkerId = maintenanceTableInfo.some(col => col.name === 'assigned_worker_id');
-    const hasIsActive = maintenanceTableInfo.some(col => col.name === 'is_active');
-
-    if (!hasAssignedWorkerId) {
-      await database.execAsync(
-        'ALTER TABLE maintenance_tasks ADD COLUMN assigned_worker_id TEXT'
-      );
-    }
-
-    if (!hasIsActive) {
-      await database.execAsync(
-        'ALTER TABLE maintenance_tasks ADD COLUMN is_active INTEGER NOT NULL DEFAULT 1'
-      );
-    }
-
-    // Migration V3: Create maintenance_completions table
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS maintenance_completions (
-        id TEXT PRIMARY KEY,
-        task_id TEXT NOT NULL,
-        worker_id TEXT,
-        completed_date TEXT NOT NULL,
-        notes TEXT,
-        cost REAL,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY (task_id) REFERENCES maintenance_tasks(id) ON DELETE CASCADE,
-        FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE SET NULL
-      );
-      CREATE INDEX IF NOT EXISTS idx_maintenance_completions_task ON maintenance_completions(task_id);
-      CREATE INDEX IF NOT EXISTS idx_maintenance_completions_worker ON maintenance_completions(worker_id);
-      CREATE INDEX IF NOT EXISTS idx_maintenance_completions_date ON maintenance_completions(completed_date);
-    `);
-
-    // Migration V4: Add typical_payment_day to recurring_templates
-    const recurringTableInfo = await database.getAllAsync<{ name: string }>(
-      "PRAGMA table_info(recurring_templates)"
-    );
-    const hasTypicalPaymentDay = recurringTableInfo.some(col => col.name === 'typical_payment_day');
-
-    if (!hasTypicalPaymentDay) {
-      await database.execAsync(
-        'ALTER TABLE recurring_templates ADD COLUMN typical_payment_day TEXT'
-      );
-    }
-
-    // Migration V4: Create recurring_payment_history table
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS recurring_payment_history (
-        id TEXT PRIMARY KEY,
-        template_id TEXT NOT NULL,
-        amount REAL NOT NULL,
-        paid_date TEXT NOT NULL,
-        notes TEXT,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY (template_id) REFERENCES recurring_templates(id) ON DELETE CASCADE
-      );
-      CREATE INDEX IF NOT EXISTS idx_recurring_payment_history_template ON recurring_payment_history(template_id);
-      CREATE INDEX IF NOT EXISTS idx_recurring_payment_history_date ON recurring_payment_history(paid_date);
-    `);
-
-    // Migration V5: Add expense_type to renovations
-    const renovationsTableInfo = await database.getAllAsync<{ name: string }>(
-      "PRAGMA table_info(renovations)"
-    );
-    const hasExpenseType = renovationsTableInfo.some(col => col.name === 'expense_type');
-    if (!hasExpenseType) {
-      await database.execAsync('ALTER TABLE renovations ADD COLUMN expense_type TEXT');
-    }
-
-    // Migration V5: Add reminder columns to notes
-    const notesTableInfo = await database.getAllAsync<{ name: string }>(
-      "PRAGMA table_info(notes)"
-    );
-    const hasReminderDate = notesTableInfo.some(col => col.name === 'reminder_date');
-    if (!hasReminderDate) {
-      await database.execAsync('ALTER TABLE notes ADD COLUMN reminder_date TEXT');
-      await database.execAsync('ALTER TABLE notes ADD COLUMN reminder_notification_id TEXT');
-    }
-    // Create notes reminder index (after column exists)
-    await database.execAsync('CREATE INDEX IF NOT EXISTS idx_notes_reminder ON notes(reminder_date)');
-
-    // Migration V5: Create renovation_workers table
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS renovation_workers (
-        id TEXT PRIMARY KEY,
-        renovation_id TEXT NOT NULL,
-        worker_id TEXT NOT NULL,
-        role TEXT,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE,
-        FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE CASCADE
-      );
-      CREATE INDEX IF NOT EXISTS idx_renovation_workers_renovation ON renovation_workers(renovation_id);
-      CREATE INDEX IF NOT EXISTS idx_renovation_workers_worker ON renovation_workers(worker_id);
-    `);
-
-    // Migration V5: Create renovation_assets table
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS renovation_assets (
-        id TEXT PRIMARY KEY,
-        renovation_id TEXT NOT NULL,
-        asset_id TEXT NOT NULL,
-        notes TEXT,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE,
-        FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
-      );
-      CREATE INDEX IF NOT EXISTS idx_renovation_assets_renovation ON renovation_assets(renovation_id);
-      CREATE INDEX IF NOT EXISTS idx_renovation_assets_asset ON renovation_assets(asset_id);
-    `);
-
-    // Migration V5: Create renovation_costs table
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS renovation_costs (
-        id TEXT PRIMARY KEY,
-        renovation_id TEXT NOT NULL,
-        description TEXT NOT NULL,
-        amount REAL NOT NULL,
-        category TEXT,
-        date TEXT,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE
-      );
-      CREATE INDEX IF NOT EXISTS idx_renovation_costs_renovation ON renovation_costs(renovation_id);
-    `);
-
-    // Migration V5: Create worker_notes table
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS worker_notes (
-        id TEXT PRIMARY KEY,
-        worker_id TEXT NOT NULL,
-        content TEXT NOT NULL,
-        date TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE CASCADE
-      );
-      CREATE INDEX IF NOT EXISTS idx_worker_notes_worker ON worker_notes(worker_id);
-    `);
-
-
-    // Migration V6: Create custom_categories table
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS custom_categories (
-        id TEXT PRIMARY KEY,
-        type TEXT NOT NULL,
-        name TEXT NOT NULL,
-        icon TEXT,
-        color TEXT,
-        is_default INTEGER NOT NULL DEFAULT 0,
-        sort_order INTEGER NOT NULL DEFAULT 0,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-      CREATE INDEX IF NOT EXISTS idx_custom_categories_type ON custom_categories(type);
-    `);
-
-    await database.execAsync('COMMIT');
-  } catch (error) {
-    await database.execAsync('ROLLBACK');
-    throw error;
-  }
+  // Create the schema or apply the migrations it is missing
+  await migrateDatabase(database);
 }
 
 export async function closeDatabase(): Promise<void> {
@@ -240,6 +50,14 @@ export async function closeDatabase(): Promise<void> {
   }
 }
 
+// Lets the query hooks know what a write changed
+function reportWrite(sql: string, params: any[], result: SQLite.SQLiteRunResult): void {
+  const change = describeWrite(sql, params);
+  if (change && result.changes > 0) {
+    notifyChange(change.table, change.ids);
+  }
+}
+
 // Generic query helpers
 export async function queryAll<T>(sql: string, params: any[] = []): Promise<T[]> {
   const database = await getDatabase();
@@ -253,40 +71,64 @@ export async function queryFirst<T>(sql: string, params: any[] = []): Promise<T
 
 export async function execute(sql: string, params: any[] = []): Promise<SQLite.SQLiteRunResult> {
   const database = await getDatabase();
-  return database.runAsync(sql, params);
+  const result = await database.runAsync(sql, params);
+  reportWrite(sql, params, result);
+  return result;
 }
 
 export async function executeMany(sql: string, paramsArray: any[][]): Promise<void> {
   const database = await getDatabase();
   for (const params of paramsArray) {
-    await database.runAsync(sql, params);
+    const result = await database.runAsync(sql, params);
+    reportWrite(sql, params, result);
   }
 }
 
-// Transaction helpers for data consistency
-export async function beginTransaction(): Promise<void> {
-  const database = await getDatabase();
-  await database.execAsync('BEGIN TRANSACTION');
+// Transaction helpers for data consistency. The app has one connection, so
+// transactions run one at a time: each waits for the one before it to end.
+// Work that has to be part of a running transaction, like a repository write
+// made during a restore, is passed that transaction and runs as a savepoint.
+export interface Transaction {
+  readonly depth: number;
 }
 
-export async function commitTransaction(): Promise<void> {
-  const database = await getDatabase();
-  await database.execAsync('COMMIT');
-}
+let queue: Promise<unknown> = Promise.resolve();
+const open = new Set<Transaction>();
 
-export async function rollbackTransaction(): Promise<void> {
+async function runTransaction<T>(transaction: Transaction, fn: (transaction: Transaction) => Promise<T>): Promise<T> {
   const database = await getDatabase();
-  await database.execAsync('ROLLBACK');
-}
-
-export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
-  await beginTransaction();
+  const { depth } = transaction;
+  await database.execAsync(depth === 0 ? 'BEGIN TRANSACTION' : `SAVEPOINT nested_${depth}`);
+  open.add(transaction);
+  holdChanges();
   try {
-    const result = await fn();
-    await commitTransaction();
+    const result = await fn(transaction);
+    await database.execAsync(depth === 0 ? 'COMMIT' : `RELEASE nested_${depth}`);
+    open.delete(transaction);
+    releaseChanges(true);
     return result;
   } catch (error) {
-    await rollbackTransaction();
+    try {
+      await database.execAsync(
+        depth === 0 ? 'ROLLBACK' : `ROLLBACK TO nested_${depth}; RELEASE nested_${depth}`
+      );
+    } finally {
+      open.delete(transaction);
+      releaseChanges(false);
+    }
     throw error;
   }
 }
+
+export async function withTransaction<T>(
+  fn: (transaction: Transaction) => Promise<T>,
+  parent?: Transaction
+): Promise<T> {
+  if (parent) {
+    if (!open.has(parent)) throw new Error('Transaction has already ended');
+    return runTransaction({ depth: parent.depth + 1 }, fn);
+  }
+  const result = queue.then(() => runTransaction({ depth: 0 }, fn));
+  queue = result.catch(() => undefined);
+  return result;
+}
@@ -0,0 +1,324 @@
+import {
+  Asset,
+  AssetCategory,
+  Attachment,
+  AttachmentEntityType,
+  Budget,
+  BudgetPeriod,
+  CustomFieldDefinition,
+  CustomFieldEntityType,
+  CustomFieldType,
+  CustomFieldValue,
+  ExchangeRate,
+  Expense,
+  ExpenseSplit,
+  ExpenseType,
+  HouseholdMember,
+  Lease,
+  Property,
+  RentFrequency,
+  RentPayment,
+  Room,
+  RoomType,
+  Settlement,
+  TaxTreatment,
+  Tenant,
+  Worker,
+} from '../../types';
+import { defineEntity, Entity, fields } from './entity';
+
+const PROPERTY_TYPES: readonly Property['type'][] = ['home', 'vacation', 'office', 'rental', 'other'];
+
+const ROOM_TYPES: readonly RoomType[] = [
+  'living_room',
+  'bedroom',
+  'kitchen',
+  'bathroom',
+  'garage',
+  'basement',
+  'attic',
+  'office',
+  'laundry',
+  'dining',
+  'outdoor',
+  'utility',
+  'storage',
+  'other',
+];
+
+const ASSET_CATEGORIES: readonly AssetCategory[] = [
+  'appliance',
+  'hvac',
+  'plumbing',
+  'electrical',
+  'furniture',
+  'electronics',
+  'outdoor',
+  'structural',
+  'other',
+];
+
+const EXPENSE_TYPES: readonly ExpenseType[] = ['repair', 'bill', 'maintenance', 'purchase', 'other'];
+
+const ATTACHMENT_ENTITY_TYPES: readonly AttachmentEntityType[] = ['expense', 'asset', 'maintenance_completion'];
+
+const FILE_TYPES: readonly Attachment['fileType'][] = ['image', 'pdf'];
+
+export const BUDGET_PERIODS: readonly BudgetPeriod[] = ['monthly', 'yearly'];
+
+export const RENT_FREQUENCIES: readonly RentFrequency[] = ['monthly', 'quarterly', 'yearly'];
+
+export const TAX_TREATMENTS: readonly TaxTreatment[] = ['deductible', 'capital_improvement', 'non_deductible'];
+
+export const CUSTOM_FIELD_ENTITY_TYPES: readonly CustomFieldEntityType[] = ['property', 'room', 'asset', 'expense', 'worker'];
+
+export const CUSTOM_FIELD_TYPES: readonly CustomFieldType[] = ['text', 'number', 'date', 'select', 'boolean'];
+
+const NAME_LENGTH = 200;
+const TEXT_LENGTH = 10000;
+
+// Largest amount the expense and asset forms accept
+const MAX_AMOUNT = 999999999;
+
+// ISO 4217 codes such as EUR
+const CURRENCY_LENGTH = 3;
+
+export const propertyEntity = defineEntity<Property>('property', 'properties', {
+  id: fields.text('id').generated(),
+  name: fields.text('name', { maxLength: NAME_LENGTH }),
+  address: fields.text('address', { maxLength: 500 }),
+  type: fields.text('type', { oneOf: PROPERTY_TYPES }),
+  imageUri: fields.text('image_uri').optional(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const roomEntity = defineEntity<Room>('room', 'rooms', {
+  id: fields.text('id').generated(),
+  propertyId: fields.text('property_id'),
+  name: fields.text('name', { maxLength: NAME_LENGTH }),
+  type: fields.text('type', { oneOf: ROOM_TYPES }),
+  imageUri: fields.text('image_uri').optional(),
+  notes: fields.text('notes', { maxLength: TEXT_LENGTH }).optional(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const assetEntity = defineEntity<Asset>('asset', 'assets', {
+  id: fields.text('id').generated(),
+  propertyId: fields.text('property_id'),
+  roomId: fields.text('room_id').optional(),
+  name: fields.text('name', { maxLength: NAME_LENGTH }),
+  category: fields.text('category', { oneOf: ASSET_CATEGORIES }),
+  brand: fields.text('brand', { maxLength: NAME_LENGTH }).optional(),
+  model: fields.text('model', { maxLength: NAME_LENGTH }).optional(),
+  serialNumber: fields.text('serial_number', { maxLength: NAME_LENGTH }).optional(),
+  purchaseDate: fields.date('purchase_date').optional(),
+  purchasePrice: fields.number('purchase_price', { min: 0, max: MAX_AMOUNT }).optional(),
+  purchaseCurrency: fields.text('purchase_currency', { maxLength: CURRENCY_LENGTH }).optional(),
+  warrantyEndDate: fields.date('warranty_end_date').optional(),
+  notes: fields.text('notes', { maxLength: TEXT_LENGTH }).optional(),
+  // Selected from the asset's attachments by the asset queries
+  imageUri: fields.text('image_uri').optional().derived(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const expenseEntity = defineEntity<Expense>('expense', 'expenses', {
+  id: fields.text('id').generated(),
+  propertyId: fields.text('property_id'),
+  roomId: fields.text('room_id').optional(),
+  assetId: fields.text('asset_id').optional(),
+  workerId: fields.text('worker_id').optional(),
+  type: fields.text('type', { oneOf: EXPENSE_TYPES }),
+  // A built-in category key or the name of a custom category
+  category: fields.text('category', { maxLength: NAME_LENGTH }),
+  amount: fields.number('amount', { min: 0, max: MAX_AMOUNT }),
+  currency: fields.text('currency', { maxLength: CURRENCY_LENGTH }).optional(),
+  date: fields.date('date'),
+  description: fields.text('description', { maxLength: TEXT_LENGTH }),
+  isRecurring: fields.boolean('is_recurring'),
+  recurringTemplateId: fields.text('recurring_template_id').optional(),
+  tags: fields.list('tags').optional(),
+  paidByMemberId: fields.text('paid_by_member_id').optional(),
+  taxTreatment: fields.text('tax_treatment', { oneOf: TAX_TREATMENTS }).optional(),
+  // Set by the queries that list expenses for a property or room
+  shareAmount: fields.number('share_amount').optional().derived(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const workerEntity = defineEntity<Worker>('worker', 'workers', {
+  id: fields.text('id').generated(),
+  name: fields.text('name', { maxLength: NAME_LENGTH }),
+  phone: fields.text('phone', { maxLength: 50 }).optional(),
+  email: fields.text('email', { maxLength: NAME_LENGTH }).optional(),
+  company: fields.text('company', { maxLength: NAME_LENGTH }).optional(),
+  specialty: fields.list('specialty'),
+  rating: fields.number('rating', { min: 1, max: 5 }).optional(),
+  notes: fields.text('notes', { maxLength: TEXT_LENGTH }).optional(),
+  imageUri: fields.text('image_uri').optional(),
+  // Linked expenses added up in the reporting currency by the repository's queries
+  totalPaid: fields.number('total_paid').derived(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const attachmentEntity = defineEntity<Attachment>('attachment', 'attachments', {
+  id: fields.text('id').generated(),
+  entityType: fields.text('entity_type', { oneOf: ATTACHMENT_ENTITY_TYPES }),
+  entityId: fields.text('entity_id'),
+  fileUri: fields.text('file_uri'),
+  fileType: fields.text('file_type', { oneOf: FILE_TYPES }),
+  caption: fields.text('caption', { maxLength: NAME_LENGTH }).optional(),
+  // Appended after the record's other attachments unless given
+  sortOrder: fields.number('sort_order', { min: 0 }).generated(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const customFieldDefinitionEntity = defineEntity<CustomFieldDefinition>('customFieldDefinition', 'custom_field_definitions', {
+  id: fields.text('id').generated(),
+  entityType: fields.text('entity_type', { oneOf: CUSTOM_FIELD_ENTITY_TYPES }),
+  name: fields.text('name', { maxLength: NAME_LENGTH }),
+  fieldType: fields.text('field_type', { oneOf: CUSTOM_FIELD_TYPES }),
+  options: fields.list('options'),
+  // Placed after the other fields of its record type unless given
+  sortOrder: fields.number('sort_order', { min: 0 }).generated(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const customFieldValueEntity = defineEntity<CustomFieldValue>('customFieldValue', 'custom_field_values', {
+  id: fields.text('id').generated(),
+  definitionId: fields.text('definition_id'),
+  entityType: fields.text('entity_type', { oneOf: CUSTOM_FIELD_ENTITY_TYPES }),
+  entityId: fields.text('entity_id'),
+  value: fields.text('value', { maxLength: TEXT_LENGTH }),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const budgetEntity = defineEntity<Budget>('budget', 'budgets', {
+  id: fields.text('id').generated(),
+  propertyId: fields.text('property_id'),
+  expenseType: fields.text('expense_type', { oneOf: EXPENSE_TYPES }).optional(),
+  // A built-in category key or the name of a custom category, of expenseType
+  category: fields.text('category', { maxLength: NAME_LENGTH }).optional(),
+  period: fields.text('period', { oneOf: BUDGET_PERIODS }),
+  amount: fields.number('amount', { min: 0.01, max: MAX_AMOUNT }),
+  rollover: fields.boolean('rollover'),
+  // The period the budget was created in unless given
+  startDate: fields.date('start_date').generated(),
+  // Kept up to date by the budget alerts
+  alertedPeriod: fields.date('alerted_period').optional().generated(),
+  alertedPercent: fields.number('alerted_percent').generated(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const exchangeRateEntity = defineEntity<ExchangeRate>('exchangeRate', 'exchange_rates', {
+  id: fields.text('id').generated(),
+  fromCurrency: fields.text('from_currency', { maxLength: CURRENCY_LENGTH }),
+  toCurrency: fields.text('to_currency', { maxLength: CURRENCY_LENGTH }),
+  rate: fields.number('rate', { min: 0.000001, max: MAX_AMOUNT }),
+  date: fields.date('date'),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const householdMemberEntity = defineEntity<HouseholdMember>('householdMember', 'household_members', {
+  id: fields.text('id').generated(),
+  name: fields.text('name', { maxLength: NAME_LENGTH }),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const expenseSplitEntity = defineEntity<ExpenseSplit>('expenseSplit', 'expense_splits', {
+  id: fields.text('id').generated(),
+  expenseId: fields.text('expense_id'),
+  propertyId: fields.text('property_id'),
+  roomId: fields.text('room_id').optional(),
+  memberId: fields.text('member_id').optional(),
+  // One of the two is set
+  percent: fields.number('percent', { min: 0.01, max: 100 }).optional(),
+  amount: fields.number('amount', { min: 0, max: MAX_AMOUNT }).optional(),
+  // The position in the expense's list of shares
+  sortOrder: fields.number('sort_order', { min: 0 }).generated(),
+  createdAt: fields.date('created_at').generated(),
+});
+
+export const settlementEntity = defineEntity<Settlement>('settlement', 'settlements', {
+  id: fields.text('id').generated(),
+  fromMemberId: fields.text('from_member_id'),
+  toMemberId: fields.text('to_member_id'),
+  amount: fields.number('amount', { min: 0.01, max: MAX_AMOUNT }),
+  currency: fields.text('currency', { maxLength: CURRENCY_LENGTH }).optional(),
+  date: fields.date('date'),
+  notes: fields.text('notes', { maxLength: TEXT_LENGTH }).optional(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const tenantEntity = defineEntity<Tenant>('tenant', 'tenants', {
+  id: fields.text('id').generated(),
+  propertyId: fields.text('property_id'),
+  name: fields.text('name', { maxLength: NAME_LENGTH }),
+  phone: fields.text('phone', { maxLength: 50 }).optional(),
+  email: fields.text('email', { maxLength: NAME_LENGTH }).optional(),
+  notes: fields.text('notes', { maxLength: TEXT_LENGTH }).optional(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const leaseEntity = defineEntity<Lease>('lease', 'leases', {
+  id: fields.text('id').generated(),
+  propertyId: fields.text('property_id'),
+  tenantId: fields.text('tenant_id'),
+  startDate: fields.date('start_date'),
+  endDate: fields.date('end_date').optional(),
+  rentAmount: fields.number('rent_amount', { min: 0.01, max: MAX_AMOUNT }),
+  currency: fields.text('currency', { maxLength: CURRENCY_LENGTH }).optional(),
+  rentFrequency: fields.text('rent_frequency', { oneOf: RENT_FREQUENCIES }),
+  rentDueDay: fields.number('rent_due_day', { min: 1, max: 31 }),
+  depositAmount: fields.number('deposit_amount', { min: 0, max: MAX_AMOUNT }).optional(),
+  renewalDate: fields.date('renewal_date').optional(),
+  graceDays: fields.number('grace_days', { min: 0, max: 60 }),
+  reminderDaysBefore: fields.number('reminder_days_before', { min: 0, max: 60 }),
+  notes: fields.text('notes', { maxLength: TEXT_LENGTH }).optional(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+export const rentPaymentEntity = defineEntity<RentPayment>('rentPayment', 'rent_payments', {
+  id: fields.text('id').generated(),
+  leaseId: fields.text('lease_id'),
+  dueDate: fields.date('due_date'),
+  amount: fields.number('amount', { min: 0.01, max: MAX_AMOUNT }),
+  currency: fields.text('currency', { maxLength: CURRENCY_LENGTH }).optional(),
+  paidDate: fields.date('paid_date'),
+  notes: fields.text('notes', { maxLength: TEXT_LENGTH }).optional(),
+  createdAt: fields.date('created_at').generated(),
+  updatedAt: fields.date('updated_at').generated(),
+});
+
+// Definitions by table, for code that handles records of any table such as
+// the backup import. Tables without one are not checked.
+export const ENTITIES_BY_TABLE: Partial<Record<string, Entity<any>>> = {
+  properties: propertyEntity,
+  rooms: roomEntity,
+  assets: assetEntity,
+  expenses: expenseEntity,
+  workers: workerEntity,
+  attachments: attachmentEntity,
+  custom_field_definitions: customFieldDefinitionEntity,
+  custom_field_values: customFieldValueEntity,
+  budgets: budgetEntity,
+  exchange_rates: exchangeRateEntity,
+  household_members: householdMemberEntity,
+  expense_splits: expenseSplitEntity,
+  settlements: settlementEntity,
+  tenants: tenantEntity,
+  leases: leaseEntity,
+  rent_payments: rentPaymentEntity,
+};
@@ -0,0 +1,265 @@
+// Entity definitions describe, field by field, the column a value is stored
+// in, how it is converted and what it may hold. Repositories build their row
+// mapping from them and check data before it is written; imports check
+// incoming records the same way.
+
+export type ValidationCode =
+  | 'required'
+  | 'notText'
+  | 'notNumber'
+  | 'notBoolean'
+  | 'notDate'
+  | 'notList'
+  | 'notAllowed'
+  | 'tooLong'
+  | 'tooSmall'
+  | 'tooLarge';
+
+export interface ValidationIssue {
+  field: string;
+  code: ValidationCode;
+  // The limit or the allowed values, for the message
+  expected?: string;
+}
+
+// Thrown by repository writes; `issues` says which fields were rejected and why
+export class ValidationError extends Error {
+  readonly entity: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(entity: string, issues: ValidationIssue[]) {
+    super(`Invalid ${entity}: ${issues.map(issue => `${issue.field} ${issue.code}`).join(', ')}`);
+    this.name = 'ValidationError';
+    this.entity = entity;
+    this.issues = issues;
+  }
+}
+
+export function isValidationError(error: unknown): error is ValidationError {
+  return error instanceof ValidationError;
+}
+
+export interface Field<T> {
+  column: string;
+  isOptional: boolean;
+  // Filled in by the repository (ids, timestamps, running totals), so not
+  // checked on writes
+  isGenerated: boolean;
+  // Computed by the repository's queries rather than stored in the table,
+  // so never written or checked
+  isDerived: boolean;
+  read: (value: unknown) => T;
+  write: (value: T) => ColumnValue;
+  // The problem with a present value, if any
+  check: (value: unknown) => Omit<ValidationIssue, 'field'> | null;
+}
+
+type FieldBuilder<T> = Field<T> & {
+  optional(): FieldBuilder<T | undefined>;
+  generated(): FieldBuilder<T>;
+  derived(): FieldBuilder<T>;
+};
+
+type FieldConversion<T> = Omit<Field<T>, 'isOptional' | 'isGenerated' | 'isDerived'>;
+
+function build<T>(field: FieldConversion<T>, isOptional = false, isGenerated = false, isDerived = false): FieldBuilder<T> {
+  return {
+    ...field,
+    isOptional,
+    isGenerated,
+    isDerived,
+    optional() {
+      return build<T | undefined>(
+        {
+          column: field.column,
+          read: value => (value === null || value === undefined || value === '' ? undefined : field.read(value)),
+          write: value => (value === undefined || value === '' ? null : field.write(value as T)),
+          check: field.check,
+        },
+        true,
+        isGenerated,
+        isDerived
+      );
+    },
+    generated() {
+      return build<T>(field, isOptional, true, isDerived);
+    },
+    derived() {
+      return build<T>(field, isOptional, isGenerated, true);
+    },
+  };
+}
+
+// Column values of a row as returned by a query
+export type Row = Record<string, unknown>;
+
+type ColumnValue = string | number | null;
+
+// Reads a JSON list column, ignoring anything that is not a list of strings
+export function parseList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  if (typeof value !== 'string' || value === '') return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    console.warn('Ignoring malformed list value:', value);
+    return [];
+  }
+}
+
+export const fields = {
+  text<T extends string = string>(column: string, options: { maxLength?: number; oneOf?: readonly T[] } = {}) {
+    return build<T>({
+      column,
+      read: value => String(value) as T,
+      write: value => value,
+      check: value => {
+        if (typeof value !== 'string') return { code: 'notText' };
+        if (value.trim() === '') return { code: 'required' };
+        if (options.oneOf && !options.oneOf.includes(value as T)) {
+          return { code: 'notAllowed', expected: options.oneOf.join(', ') };
+        }
+        if (options.maxLength !== undefined && value.length > options.maxLength) {
+          return { code: 'tooLong', expected: String(options.maxLength) };
+        }
+        return null;
+      },
+    });
+  },
+
+  number(column: string, options: { min?: number; max?: number } = {}) {
+    return build<number>({
+      column,
+      read: value => Number(value) || 0,
+      write: value => value,
+      check: value => {
+        if (typeof value !== 'number' || !Number.isFinite(value)) return { code: 'notNumber' };
+        if (options.min !== undefined && value < options.min) return { code: 'tooSmall', expected: String(options.min) };
+        if (options.max !== undefined && value > options.max) return { code: 'tooLarge', expected: String(options.max) };
+        return null;
+      },
+    });
+  },
+
+  boolean(column: string) {
+    return build<boolean>({
+      column,
+      read: value => value === 1 || value === true,
+      write: value => (value ? 1 : 0),
+      check: value => (typeof value === 'boolean' ? null : { code: 'notBoolean' }),
+    });
+  },
+
+  // ISO date or date-time string
+  date(column: string) {
+    return build<string>({
+      column,
+      read: value => String(value),
+      write: value => value,
+      check: value =>
+        typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : { code: 'notDate' },
+    });
+  },
+
+  // A list of strings kept as JSON. Malformed column values read as empty.
+  list(column: string) {
+    return build<string[]>({
+      column,
+      read: parseList,
+      write: value => JSON.stringify(value ?? []),
+      check: value =>
+        Array.isArray(value) && value.every(item => typeof item === 'string') ? null : { code: 'notList' },
+    });
+  },
+};
+
+type Shape<T> = { [K in keyof T]-?: Field<T[K]> };
+
+export interface Entity<T> {
+  name: string;
+  table: string;
+  fields: Shape<T>;
+  fromRow(row: Row): T;
+  // Columns and values for the fields present in `data`, in the same order
+  toColumns(data: Partial<T>): { columns: string[]; values: ColumnValue[] };
+  toInsert(data: T): { sql: string; params: ColumnValue[] };
+  // Sets the fields present in `data` on the row with the given id
+  toUpdate(id: string, data: Partial<T>): { sql: string; params: ColumnValue[] };
+  // Problems with a record about to be written. With `partial`, missing
+  // fields are left alone, as an update does.
+  validate(data: unknown, options?: { partial?: boolean }): ValidationIssue[];
+  assertValid(data: unknown, options?: { partial?: boolean }): void;
+}
+
+export function defineEntity<T>(name: string, table: string, shape: Shape<T>): Entity<T> {
+  const entries = Object.entries(shape) as Array<[keyof T & string, Field<unknown>]>;
+
+  return {
+    name,
+    table,
+    fields: shape,
+
+    fromRow(row) {
+      const entity = {} as Record<string, unknown>;
+      for (const [key, field] of entries) {
+        entity[key] = field.read(row[field.column]);
+      }
+      return entity as T;
+    },
+
+    toColumns(data) {
+      const columns: string[] = [];
+      const values: ColumnValue[] = [];
+      for (const [key, field] of entries) {
+        const value = (data as Record<string, unknown>)[key];
+        if (value === undefined || field.isDerived) continue;
+        columns.push(field.column);
+        values.push(field.write(value));
+      }
+      return { columns, values };
+    },
+
+    toInsert(data) {
+      const { columns, values } = this.toColumns(data);
+      return {
+        sql: `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+        params: values,
+      };
+    },
+
+    toUpdate(id, data) {
+      const { columns, values } = this.toColumns(data);
+      return {
+        sql: `UPDATE ${table} SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+        params: [...values, id],
+      };
+    },
+
+    validate(data, options = {}) {
+      if (typeof data !== 'object' || data === null) {
+        return [{ field: name, code: 'required' }];
+      }
+      const record = data as Record<string, unknown>;
+      const issues: ValidationIssue[] = [];
+      for (const [key, field] of entries) {
+        if (field.isGenerated || field.isDerived) continue;
+        const value = record[key];
+        const empty = value === undefined || value === null || (field.isOptional && value === '');
+        if (empty) {
+          const missing = value === null || !options.partial;
+          if (!field.isOptional && missing) issues.push({ field: key, code: 'required' });
+          continue;
+        }
+        const problem = field.check(value);
+        if (problem) issues.push({ field: key, ...problem });
+      }
+      return issues;
+    },
+
+    assertValid(data, options) {
+      const issues = this.validate(data, options);
+      if (issues.length > 0) throw new ValidationError(name, issues);
+    },
+  };
+}
@@ -1,3 +1,12 @@
-export { getDatabase, closeDatabase, queryAll, queryFirst, execute, withTransaction, beginTransaction, commitTransaction, rollbackTransaction } from './database';
-export { propertyRepository, roomRepository, expenseRepository, workerRepository, assetRepository, emergencyRepository, maintenanceRepository, maintenanceCompletionRepository, paintCodeRepository, measurementRepository, storageBoxRepository, wifiInfoRepository, documentRepository, renovationRepository, renovationWorkerRepository, renovationAssetRepository, renovationCostRepository, recurringTemplateRepository, recurringPaymentHistoryRepository, settingsRepository, notesRepository, expenseAssetRepository, workerNoteRepository, customCategoryRepository } from './repositories';
+export { getDatabase, closeDatabase, queryAll, queryFirst, execute, withTransaction } from './database';
+export type { Transaction } from './database';
+export { propertyRepository, roomRepository, expenseRepository, workerRepository, assetRepository, emergencyRepository, maintenanceRepository, maintenanceCompletionRepository, paintCodeRepository, measurementRepository, storageBoxRepository, wifiInfoRepository, documentRepository, renovationRepository, renovationWorkerRepository, renovationAssetRepository, renovationCostRepository, recurringTemplateRepository, recurringPaymentHistoryRepository, settingsRepository, notesRepository, expenseAssetRepository, workerNoteRepository, customCategoryRepository, payeeRuleRepository, trashRepository, searchRepository, changeLogRepository, attachmentRepository, customFieldRepository, customFieldValueRepository, budgetRepository, exchangeRateRepository, sumInReportingCurrency, toReportingCurrencySql, expenseSplitRepository, getShareAmount, splitsAddUp, householdMemberRepository, settlementRepository, tenantRepository, leaseRepository, rentPaymentRepository, taxSummaryRepository, getFiscalYear, getFiscalYearStart } from './repositories';
+export type { CurrencyConverter, ConvertibleAmount } from './repositories';
 export { SCHEMA_VERSION } from './schema';
+export { verifyMigrations } from './migrations';
+export { ValidationError, isValidationError, parseList } from './entity';
+export type { ValidationIssue, ValidationCode } from './entity';
+export { subscribeToChanges, notifyTablesChanged } from './changes';
+export type { TableChange, ChangeListener } from './changes';
+export { checkIntegrity, repairIntegrityProblem } from './integrity';
+export type { IntegrityProblem, IntegrityProblemKind, IntegrityFix } from './integrity';
@@ -0,0 +1,281 @@
+import { getDatabase, queryAll, queryFirst, execute, withTransaction } from './database';
+import { notifyTablesChanged } from './changes';
+import { ATTACHMENT_OWNERS, SEARCH_REBUILD_SQL, SEARCH_SOURCES, SOFT_DELETE_TABLES } from './schema';
+import { getRecordLabel, trashRepository } from './repositories/trashRepository';
+
+// Problems the diagnostics screen lists. Each one covers every affected row
+// of a table, so fixing it is a single step.
+export type IntegrityProblemKind =
+  | 'corruption'
+  | 'foreignKeysOff'
+  | 'brokenReference'
+  | 'malformedList'
+  | 'searchIndex'
+  | 'staleTrash'
+  | 'orphanedAttachments';
+
+export type IntegrityFix =
+  | 'reindex'
+  | 'enableForeignKeys'
+  | 'clearReference'
+  | 'deleteRows'
+  | 'resetList'
+  | 'rebuildSearch'
+  | 'removeStale'
+  | 'removeOrphans';
+
+export interface IntegrityProblem {
+  // Stable between runs, e.g. "reference:expenses:worker_id"
+  id: string;
+  kind: IntegrityProblemKind;
+  table?: string;
+  column?: string;
+  // The table a broken reference points to
+  parent?: string;
+  count: number;
+  // A few of the affected records or SQLite's messages
+  details: string[];
+  fix: IntegrityFix;
+}
+
+interface ForeignKeyViolation {
+  table: string;
+  rowid: number;
+  parent: string;
+  fkid: number;
+}
+
+interface ForeignKeyInfo {
+  id: number;
+  table: string;
+  from: string;
+  on_delete: string;
+}
+
+// Columns holding JSON lists that the app reads as empty when malformed
+const LIST_COLUMNS: Array<{ table: string; column: string }> = [
+  { table: 'expenses', column: 'tags' },
+  { table: 'workers', column: 'specialty' },
+];
+
+const MAX_DETAILS = 5;
+
+// Keeps IN (...) lists well under SQLite's bound parameter limit
+const ROWID_CHUNK_SIZE = 500;
+
+// Attachments have no foreign key, so one whose record is gone is only found
+// by looking for the record
+const ORPHANED_ATTACHMENTS_CONDITION = `NOT (${Object.entries(ATTACHMENT_OWNERS)
+  .map(([type, table]) => `(entity_type = '${type}' AND entity_id IN (SELECT id FROM ${table}))`)
+  .join(' OR ')})`;
+
+function listCondition(column: string): string {
+  // json_type() fails on malformed text, so it only runs on valid JSON
+  return `${column} IS NOT NULL AND CASE WHEN json_valid(${column}) THEN json_type(${column}) END IS NOT 'array'`;
+}
+
+async function checkDatabaseFile(): Promise<IntegrityProblem[]> {
+  const rows = await queryAll<{ integrity_check: string }>('PRAGMA integrity_check');
+  const messages = rows.map(row => row.integrity_check).filter(message => message !== 'ok');
+  if (messages.length === 0) return [];
+  return [{
+    id: 'corruption',
+    kind: 'corruption',
+    count: messages.length,
+    details: messages.slice(0, MAX_DETAILS),
+    fix: 'reindex',
+  }];
+}
+
+async function checkForeignKeysEnabled(): Promise<IntegrityProblem[]> {
+  const row = await queryFirst<{ foreign_keys: number }>('PRAGMA foreign_keys');
+  if (row?.foreign_keys === 1) return [];
+  return [{ id: 'foreignKeysOff', kind: 'foreignKeysOff', count: 1, details: [], fix: 'enableForeignKeys' }];
+}
+
+async function getForeignKeys(table: string): Promise<ForeignKeyInfo[]> {
+  return queryAll<ForeignKeyInfo>(`PRAGMA foreign_key_list(${table})`);
+}
+
+// Rows of a table whose reference through `column` points to no record
+async function getBrokenRowids(table: string, column: string): Promise<number[]> {
+  const keys = await getForeignKeys(table);
+  const ids = keys.filter(key => key.from === column).map(key => key.id);
+  const violations = await queryAll<ForeignKeyViolation>(`PRAGMA foreign_key_check(${table})`);
+  return violations.filter(violation => ids.includes(violation.fkid)).map(violation => violation.rowid);
+}
+
+async function getLabels(table: string, rowids: number[]): Promise<string[]> {
+  const sample = rowids.slice(0, MAX_DETAILS);
+  if (sample.length === 0) return [];
+  const rows = await queryAll<Record<string, unknown>>(
+    `SELECT * FROM ${table} WHERE rowid IN (${sample.map(() => '?').join(', ')})`,
+    sample
+  );
+  return rows.map(getRecordLabel);
+}
+
+async function checkReferences(): Promise<IntegrityProblem[]> {
+  const violations = await queryAll<ForeignKeyViolation>('PRAGMA foreign_key_check');
+  const groups = new Map<string, ForeignKeyViolation[]>();
+  for (const violation of violations) {
+    const key = `${violation.table}:${violation.fkid}`;
+    groups.set(key, [...(groups.get(key) ?? []), violation]);
+  }
+
+  const problems: IntegrityProblem[] = [];
+  for (const group of groups.values()) {
+    const { table, parent, fkid } = group[0];
+    const key = (await getForeignKeys(table)).find(info => info.id === fkid);
+    if (!key) continue;
+    const rowids = group.map(violation => violation.rowid);
+    problems.push({
+      id: `reference:${table}:${key.from}`,
+      kind: 'brokenReference',
+      table,
+      column: key.from,
+      parent,
+      count: rowids.length,
+      details: await getLabels(table, rowids),
+      // What deleting the parent would have done with foreign keys on
+      fix: key.on_delete === 'SET NULL' ? 'clearReference' : 'deleteRows',
+    });
+  }
+  return problems;
+}
+
+async function checkLists(): Promise<IntegrityProblem[]> {
+  const problems: IntegrityProblem[] = [];
+  for (const { table, column } of LIST_COLUMNS) {
+    const rows = await queryAll<Record<string, unknown>>(`SELECT * FROM ${table} WHERE ${listCondition(column)}`);
+    if (rows.length === 0) continue;
+    problems.push({
+      id: `list:${table}:${column}`,
+      kind: 'malformedList',
+      table,
+      column,
+      count: rows.length,
+      details: rows.slice(0, MAX_DETAILS).map(getRecordLabel),
+      fix: 'resetList',
+    });
+  }
+  return problems;
+}
+
+// The index holds one row per record outside the trash
+async function checkSearchIndex(): Promise<IntegrityProblem[]> {
+  const counts = SEARCH_SOURCES.map(source => `(SELECT COUNT(*) FROM ${source.table} WHERE deleted_at IS NULL)`);
+  const row = await queryFirst<{ indexed: number; expected: number }>(
+    `SELECT (SELECT COUNT(*) FROM search_index) AS indexed, ${counts.join(' + ')} AS expected`
+  );
+  if (!row || row.indexed === row.expected) return [];
+  return [{
+    id: 'searchIndex',
+    kind: 'searchIndex',
+    table: 'search_index',
+    count: Math.abs(row.expected - row.indexed),
+    details: [],
+    fix: 'rebuildSearch',
+  }];
+}
+
+// Trash items whose record is gone or was restored some other way
+async function checkTrash(): Promise<IntegrityProblem[]> {
+  const conditions = SOFT_DELETE_TABLES.map(
+    table => `(table_name = '${table}' AND record_id NOT IN (SELECT id FROM ${table} WHERE deleted_at IS NOT NULL))`
+  );
+  const rows = await queryAll<{ label: string }>(`SELECT label FROM trash_items WHERE ${conditions.join(' OR ')}`);
+  if (rows.length === 0) return [];
+  return [{
+    id: 'staleTrash',
+    kind: 'staleTrash',
+    table: 'trash_items',
+    count: rows.length,
+    details: rows.slice(0, MAX_DETAILS).map(row => row.label),
+    fix: 'removeStale',
+  }];
+}
+
+async function checkAttachments(): Promise<IntegrityProblem[]> {
+  const rows = await queryAll<{ file_uri: string }>(
+    `SELECT file_uri FROM attachments WHERE ${ORPHANED_ATTACHMENTS_CONDITION}`
+  );
+  if (rows.length === 0) return [];
+  return [{
+    id: 'orphanedAttachments',
+    kind: 'orphanedAttachments',
+    table: 'attachments',
+    count: rows.length,
+    details: rows.slice(0, MAX_DETAILS).map(row => row.file_uri.split('/').pop() ?? row.file_uri),
+    fix: 'removeOrphans',
+  }];
+}
+
+// Runs SQLite's own checks and the app's invariants. Nothing is changed.
+export async function checkIntegrity(): Promise<IntegrityProblem[]> {
+  return [
+    ...(await checkDatabaseFile()),
+    ...(await checkForeignKeysEnabled()),
+    ...(await checkReferences()),
+    ...(await checkLists()),
+    ...(await checkSearchIndex()),
+    ...(await checkTrash()),
+    ...(await checkAttachments()),
+  ];
+}
+
+// Applies the problem's fix. Rows that were fixed some other way since the
+// check are left alone.
+export async function repairIntegrityProblem(problem: IntegrityProblem): Promise<void> {
+  const database = await getDatabase();
+  const { table, column } = problem;
+
+  switch (problem.fix) {
+    case 'reindex':
+      await database.execAsync('REINDEX');
+      break;
+
+    case 'enableForeignKeys':
+      await database.execAsync('PRAGMA foreign_keys = ON');
+      break;
+
+    case 'clearReference':
+    case 'deleteRows': {
+      if (!table || !column) return;
+      const rowids = await getBrokenRowids(table, column);
+      await withTransaction(async () => {
+        for (let i = 0; i < rowids.length; i += ROWID_CHUNK_SIZE) {
+          const batch = rowids.slice(i, i + ROWID_CHUNK_SIZE);
+          const placeholders = batch.map(() => '?').join(', ');
+          await execute(
+            problem.fix === 'clearReference'
+              ? `UPDATE ${table} SET ${column} = NULL WHERE rowid IN (${placeholders})`
+              : `DELETE FROM ${table} WHERE rowid IN (${placeholders})`,
+            batch
+          );
+        }
+      });
+      break;
+    }
+
+    case 'resetList':
+      if (!table || !column) return;
+      await execute(`UPDATE ${table} SET ${column} = '[]' WHERE ${listCondition(column)}`);
+      break;
+
+    case 'rebuildSearch':
+      await database.execAsync(SEARCH_REBUILD_SQL);
+      break;
+
+    case 'removeStale':
+      await trashRepository.removeStale();
+      break;
+
+    case 'removeOrphans':
+      await execute(`DELETE FROM attachments WHERE ${ORPHANED_ATTACHMENTS_CONDITION}`);
+      break;
+  }
+
+  // Cascades and rebuilds do not show up as writes of their own
+  if (table) notifyTablesChanged([table]);
+}
@@ -0,0 +1,991 @@
+// SQL run by shipped migration steps, as it was when each step shipped. The
+// constants in schema.ts follow the current schema, but a step has to keep
+// doing what it did on the databases it already ran on, so it runs these.
+// Never edit them; a later change to the schema gets a step of its own.
+
+// Version 11: the full-text search index and its triggers
+export const V11_SEARCH_INDEX_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  entity_type UNINDEXED,
+  entity_id UNINDEXED,
+  property_id UNINDEXED,
+  parent_id UNINDEXED,
+  title_text UNINDEXED,
+  body_text UNINDEXED,
+  title,
+  body,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS search_properties_insert AFTER INSERT ON properties
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('property', new.id, new.id, NULL, new.name, new.address, replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(new.address, 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_properties_update AFTER UPDATE ON properties BEGIN
+  DELETE FROM search_index WHERE entity_type = 'property' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'property', new.id, new.id, NULL, new.name, new.address, replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(new.address, 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_properties_delete AFTER DELETE ON properties BEGIN
+  DELETE FROM search_index WHERE entity_type = 'property' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_rooms_insert AFTER INSERT ON rooms
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('room', new.id, new.property_id, NULL, new.name, COALESCE(new.notes, ''), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(COALESCE(new.notes, ''), 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_rooms_update AFTER UPDATE ON rooms BEGIN
+  DELETE FROM search_index WHERE entity_type = 'room' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'room', new.id, new.property_id, NULL, new.name, COALESCE(new.notes, ''), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(COALESCE(new.notes, ''), 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_rooms_delete AFTER DELETE ON rooms BEGIN
+  DELETE FROM search_index WHERE entity_type = 'room' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_assets_insert AFTER INSERT ON assets
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('asset', new.id, new.property_id, NULL, new.name, TRIM(COALESCE(new.brand, '') || ' ' || COALESCE(new.model, '') || ' ' || COALESCE(new.serial_number, '') || ' ' || COALESCE(new.notes, '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(new.brand, '') || ' ' || COALESCE(new.model, '') || ' ' || COALESCE(new.serial_number, '') || ' ' || COALESCE(new.notes, '')), 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_assets_update AFTER UPDATE ON assets BEGIN
+  DELETE FROM search_index WHERE entity_type = 'asset' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'asset', new.id, new.property_id, NULL, new.name, TRIM(COALESCE(new.brand, '') || ' ' || COALESCE(new.model, '') || ' ' || COALESCE(new.serial_number, '') || ' ' || COALESCE(new.notes, '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(new.brand, '') || ' ' || COALESCE(new.model, '') || ' ' || COALESCE(new.serial_number, '') || ' ' || COALESCE(new.notes, '')), 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_assets_delete AFTER DELETE ON assets BEGIN
+  DELETE FROM search_index WHERE entity_type = 'asset' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_expenses_insert AFTER INSERT ON expenses
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('expense', new.id, new.property_id, NULL, new.description, new.category, replace(replace(new.description, 'ı', 'i'), 'İ', 'i'), replace(replace(new.category, 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_expenses_update AFTER UPDATE ON expenses BEGIN
+  DELETE FROM search_index WHERE entity_type = 'expense' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'expense', new.id, new.property_id, NULL, new.description, new.category, replace(replace(new.description, 'ı', 'i'), 'İ', 'i'), replace(replace(new.category, 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_expenses_delete AFTER DELETE ON expenses BEGIN
+  DELETE FROM search_index WHERE entity_type = 'expense' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_workers_insert AFTER INSERT ON workers
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('worker', new.id, NULL, NULL, new.name, TRIM(COALESCE(new.company, '') || ' ' || replace(replace(replace(new.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(new.notes, '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(new.company, '') || ' ' || replace(replace(replace(new.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(new.notes, '')), 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_workers_update AFTER UPDATE ON workers BEGIN
+  DELETE FROM search_index WHERE entity_type = 'worker' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'worker', new.id, NULL, NULL, new.name, TRIM(COALESCE(new.company, '') || ' ' || replace(replace(replace(new.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(new.notes, '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(new.company, '') || ' ' || replace(replace(replace(new.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(new.notes, '')), 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_workers_delete AFTER DELETE ON workers BEGIN
+  DELETE FROM search_index WHERE entity_type = 'worker' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_worker_notes_insert AFTER INSERT ON worker_notes
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('worker_note', new.id, NULL, new.worker_id, '', new.content, replace(replace('', 'ı', 'i'), 'İ', 'i'), replace(replace(new.content, 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_worker_notes_update AFTER UPDATE ON worker_notes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'worker_note' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'worker_note', new.id, NULL, new.worker_id, '', new.content, replace(replace('', 'ı', 'i'), 'İ', 'i'), replace(replace(new.content, 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_worker_notes_delete AFTER DELETE ON worker_notes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'worker_note' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_notes_insert AFTER INSERT ON notes
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('note', new.id, new.property_id, COALESCE(new.asset_id, new.worker_id), '', new.content, replace(replace('', 'ı', 'i'), 'İ', 'i'), replace(replace(new.content, 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_notes_update AFTER UPDATE ON notes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'note' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'note', new.id, new.property_id, COALESCE(new.asset_id, new.worker_id), '', new.content, replace(replace('', 'ı', 'i'), 'İ', 'i'), replace(replace(new.content, 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_notes_delete AFTER DELETE ON notes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'note' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_documents_insert AFTER INSERT ON documents
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('document', new.id, new.property_id, COALESCE(new.asset_id, new.worker_id), new.name, '', replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace('', 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_documents_update AFTER UPDATE ON documents BEGIN
+  DELETE FROM search_index WHERE entity_type = 'document' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'document', new.id, new.property_id, COALESCE(new.asset_id, new.worker_id), new.name, '', replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace('', 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_documents_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM search_index WHERE entity_type = 'document' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_paint_codes_insert AFTER INSERT ON paint_codes
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('paint_code', new.id, new.property_id, NULL, new.color_name, new.brand || ' ' || new.color_code || ' ' || new.location || ' ' || COALESCE(new.notes, ''), replace(replace(new.color_name, 'ı', 'i'), 'İ', 'i'), replace(replace(new.brand || ' ' || new.color_code || ' ' || new.location || ' ' || COALESCE(new.notes, ''), 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_paint_codes_update AFTER UPDATE ON paint_codes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'paint_code' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'paint_code', new.id, new.property_id, NULL, new.color_name, new.brand || ' ' || new.color_code || ' ' || new.location || ' ' || COALESCE(new.notes, ''), replace(replace(new.color_name, 'ı', 'i'), 'İ', 'i'), replace(replace(new.brand || ' ' || new.color_code || ' ' || new.location || ' ' || COALESCE(new.notes, ''), 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_paint_codes_delete AFTER DELETE ON paint_codes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'paint_code' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_storage_boxes_insert AFTER INSERT ON storage_boxes
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('storage_box', new.id, new.property_id, NULL, new.name, new.contents || ' ' || new.location, replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(new.contents || ' ' || new.location, 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_storage_boxes_update AFTER UPDATE ON storage_boxes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'storage_box' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'storage_box', new.id, new.property_id, NULL, new.name, new.contents || ' ' || new.location, replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(new.contents || ' ' || new.location, 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_storage_boxes_delete AFTER DELETE ON storage_boxes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'storage_box' AND entity_id = old.id;
+END;
+`;
+
+// Version 11: fills the search index from the existing records
+export const V11_SEARCH_REBUILD_SQL = `
+DELETE FROM search_index;
+INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'property', r.id, r.id, NULL, r.name, r.address, replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(r.address, 'ı', 'i'), 'İ', 'i') FROM properties r WHERE r.deleted_at IS NULL;
+INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'room', r.id, r.property_id, NULL, r.name, COALESCE(r.notes, ''), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(COALESCE(r.notes, ''), 'ı', 'i'), 'İ', 'i') FROM rooms r WHERE r.deleted_at IS NULL;
+INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'asset', r.id, r.property_id, NULL, r.name, TRIM(COALESCE(r.brand, '') || ' ' || COALESCE(r.model, '') || ' ' || COALESCE(r.serial_number, '') || ' ' || COALESCE(r.notes, '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.brand, '') || ' ' || COALESCE(r.model, '') || ' ' || COALESCE(r.serial_number, '') || ' ' || COALESCE(r.notes, '')), 'ı', 'i'), 'İ', 'i') FROM assets r WHERE r.deleted_at IS NULL;
+INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'expense', r.id, r.property_id, NULL, r.description, r.category, replace(replace(r.description, 'ı', 'i'), 'İ', 'i'), replace(replace(r.category, 'ı', 'i'), 'İ', 'i') FROM expenses r WHERE r.deleted_at IS NULL;
+INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'worker', r.id, NULL, NULL, r.name, TRIM(COALESCE(r.company, '') || ' ' || replace(replace(replace(r.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(r.notes, '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.company, '') || ' ' || replace(replace(replace(r.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(r.notes, '')), 'ı', 'i'), 'İ', 'i') FROM workers r WHERE r.deleted_at IS NULL;
+INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'worker_note', r.id, NULL, r.worker_id, '', r.content, replace(replace('', 'ı', 'i'), 'İ', 'i'), replace(replace(r.content, 'ı', 'i'), 'İ', 'i') FROM worker_notes r WHERE r.deleted_at IS NULL;
+INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'note', r.id, r.property_id, COALESCE(r.asset_id, r.worker_id), '', r.content, replace(replace('', 'ı', 'i'), 'İ', 'i'), replace(replace(r.content, 'ı', 'i'), 'İ', 'i') FROM notes r WHERE r.deleted_at IS NULL;
+INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'document', r.id, r.property_id, COALESCE(r.asset_id, r.worker_id), r.name, '', replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace('', 'ı', 'i'), 'İ', 'i') FROM documents r WHERE r.deleted_at IS NULL;
+INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'paint_code', r.id, r.property_id, NULL, r.color_name, r.brand || ' ' || r.color_code || ' ' || r.location || ' ' || COALESCE(r.notes, ''), replace(replace(r.color_name, 'ı', 'i'), 'İ', 'i'), replace(replace(r.brand || ' ' || r.color_code || ' ' || r.location || ' ' || COALESCE(r.notes, ''), 'ı', 'i'), 'İ', 'i') FROM paint_codes r WHERE r.deleted_at IS NULL;
+INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'storage_box', r.id, r.property_id, NULL, r.name, r.contents || ' ' || r.location, replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(r.contents || ' ' || r.location, 'ı', 'i'), 'İ', 'i') FROM storage_boxes r WHERE r.deleted_at IS NULL;
+`;
+
+// Version 12: the change log and its triggers
+export const V12_CHANGE_LOG_SQL = `
+CREATE TABLE IF NOT EXISTS change_log (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  changes TEXT NOT NULL DEFAULT '{}',
+  device_id TEXT NOT NULL DEFAULT '',
+  changed_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_change_log_record ON change_log(table_name, record_id, changed_at);
+CREATE TRIGGER IF NOT EXISTS change_log_no_update BEFORE UPDATE ON change_log BEGIN
+  SELECT RAISE(ABORT, 'change_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_insert AFTER INSERT ON expenses BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'expenses', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_update AFTER UPDATE ON expenses
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'expenses', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'room_id' AS field, old.room_id AS old_value, new.room_id AS new_value WHERE old.room_id IS NOT new.room_id
+    UNION ALL SELECT 'asset_id' AS field, old.asset_id AS old_value, new.asset_id AS new_value WHERE old.asset_id IS NOT new.asset_id
+    UNION ALL SELECT 'worker_id' AS field, old.worker_id AS old_value, new.worker_id AS new_value WHERE old.worker_id IS NOT new.worker_id
+    UNION ALL SELECT 'type' AS field, old.type AS old_value, new.type AS new_value WHERE old.type IS NOT new.type
+    UNION ALL SELECT 'category' AS field, old.category AS old_value, new.category AS new_value WHERE old.category IS NOT new.category
+    UNION ALL SELECT 'amount' AS field, old.amount AS old_value, new.amount AS new_value WHERE old.amount IS NOT new.amount
+    UNION ALL SELECT 'date' AS field, old.date AS old_value, new.date AS new_value WHERE old.date IS NOT new.date
+    UNION ALL SELECT 'description' AS field, old.description AS old_value, new.description AS new_value WHERE old.description IS NOT new.description
+    UNION ALL SELECT 'receipt_uri' AS field, old.receipt_uri AS old_value, new.receipt_uri AS new_value WHERE old.receipt_uri IS NOT new.receipt_uri
+    UNION ALL SELECT 'is_recurring' AS field, old.is_recurring AS old_value, new.is_recurring AS new_value WHERE old.is_recurring IS NOT new.is_recurring
+    UNION ALL SELECT 'recurring_template_id' AS field, old.recurring_template_id AS old_value, new.recurring_template_id AS new_value WHERE old.recurring_template_id IS NOT new.recurring_template_id
+    UNION ALL SELECT 'tags' AS field, old.tags AS old_value, new.tags AS new_value WHERE old.tags IS NOT new.tags
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_trash AFTER UPDATE OF deleted_at ON expenses
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'expenses', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_assets_insert AFTER INSERT ON assets BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'assets', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_assets_update AFTER UPDATE ON assets
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'assets', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'room_id' AS field, old.room_id AS old_value, new.room_id AS new_value WHERE old.room_id IS NOT new.room_id
+    UNION ALL SELECT 'name' AS field, old.name AS old_value, new.name AS new_value WHERE old.name IS NOT new.name
+    UNION ALL SELECT 'category' AS field, old.category AS old_value, new.category AS new_value WHERE old.category IS NOT new.category
+    UNION ALL SELECT 'brand' AS field, old.brand AS old_value, new.brand AS new_value WHERE old.brand IS NOT new.brand
+    UNION ALL SELECT 'model' AS field, old.model AS old_value, new.model AS new_value WHERE old.model IS NOT new.model
+    UNION ALL SELECT 'serial_number' AS field, old.serial_number AS old_value, new.serial_number AS new_value WHERE old.serial_number IS NOT new.serial_number
+    UNION ALL SELECT 'purchase_date' AS field, old.purchase_date AS old_value, new.purchase_date AS new_value WHERE old.purchase_date IS NOT new.purchase_date
+    UNION ALL SELECT 'purchase_price' AS field, old.purchase_price AS old_value, new.purchase_price AS new_value WHERE old.purchase_price IS NOT new.purchase_price
+    UNION ALL SELECT 'warranty_end_date' AS field, old.warranty_end_date AS old_value, new.warranty_end_date AS new_value WHERE old.warranty_end_date IS NOT new.warranty_end_date
+    UNION ALL SELECT 'notes' AS field, old.notes AS old_value, new.notes AS new_value WHERE old.notes IS NOT new.notes
+    UNION ALL SELECT 'image_uri' AS field, old.image_uri AS old_value, new.image_uri AS new_value WHERE old.image_uri IS NOT new.image_uri
+    UNION ALL SELECT 'manual_uri' AS field, old.manual_uri AS old_value, new.manual_uri AS new_value WHERE old.manual_uri IS NOT new.manual_uri
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_assets_trash AFTER UPDATE OF deleted_at ON assets
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'assets', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_insert AFTER INSERT ON maintenance_tasks BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'maintenance_tasks', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_update AFTER UPDATE ON maintenance_tasks
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'maintenance_tasks', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'asset_id' AS field, old.asset_id AS old_value, new.asset_id AS new_value WHERE old.asset_id IS NOT new.asset_id
+    UNION ALL SELECT 'assigned_worker_id' AS field, old.assigned_worker_id AS old_value, new.assigned_worker_id AS new_value WHERE old.assigned_worker_id IS NOT new.assigned_worker_id
+    UNION ALL SELECT 'title' AS field, old.title AS old_value, new.title AS new_value WHERE old.title IS NOT new.title
+    UNION ALL SELECT 'description' AS field, old.description AS old_value, new.description AS new_value WHERE old.description IS NOT new.description
+    UNION ALL SELECT 'frequency' AS field, old.frequency AS old_value, new.frequency AS new_value WHERE old.frequency IS NOT new.frequency
+    UNION ALL SELECT 'last_completed_date' AS field, old.last_completed_date AS old_value, new.last_completed_date AS new_value WHERE old.last_completed_date IS NOT new.last_completed_date
+    UNION ALL SELECT 'next_due_date' AS field, old.next_due_date AS old_value, new.next_due_date AS new_value WHERE old.next_due_date IS NOT new.next_due_date
+    UNION ALL SELECT 'reminder_days_before' AS field, old.reminder_days_before AS old_value, new.reminder_days_before AS new_value WHERE old.reminder_days_before IS NOT new.reminder_days_before
+    UNION ALL SELECT 'is_completed' AS field, old.is_completed AS old_value, new.is_completed AS new_value WHERE old.is_completed IS NOT new.is_completed
+    UNION ALL SELECT 'is_active' AS field, old.is_active AS old_value, new.is_active AS new_value WHERE old.is_active IS NOT new.is_active
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_trash AFTER UPDATE OF deleted_at ON maintenance_tasks
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'maintenance_tasks', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+`;
+
+// Version 13: attachments
+export const V13_ATTACHMENTS_SQL = `
+CREATE TABLE IF NOT EXISTS attachments (
+  id TEXT PRIMARY KEY,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  file_uri TEXT NOT NULL,
+  file_type TEXT NOT NULL DEFAULT 'image',
+  caption TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_attachments_entity ON attachments(entity_type, entity_id, sort_order);
+
+CREATE TRIGGER IF NOT EXISTS attachments_expenses_delete AFTER DELETE ON expenses BEGIN
+  DELETE FROM attachments WHERE entity_type = 'expense' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS attachments_assets_delete AFTER DELETE ON assets BEGIN
+  DELETE FROM attachments WHERE entity_type = 'asset' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS attachments_maintenance_completions_delete AFTER DELETE ON maintenance_completions BEGIN
+  DELETE FROM attachments WHERE entity_type = 'maintenance_completion' AND entity_id = old.id;
+END;
+`;
+
+// Version 13: change log triggers without the columns moved into attachments
+export const V13_CHANGE_LOG_SQL = `
+CREATE TABLE IF NOT EXISTS change_log (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  changes TEXT NOT NULL DEFAULT '{}',
+  device_id TEXT NOT NULL DEFAULT '',
+  changed_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_change_log_record ON change_log(table_name, record_id, changed_at);
+CREATE TRIGGER IF NOT EXISTS change_log_no_update BEFORE UPDATE ON change_log BEGIN
+  SELECT RAISE(ABORT, 'change_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_insert AFTER INSERT ON expenses BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'expenses', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_update AFTER UPDATE ON expenses
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'expenses', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'room_id' AS field, old.room_id AS old_value, new.room_id AS new_value WHERE old.room_id IS NOT new.room_id
+    UNION ALL SELECT 'asset_id' AS field, old.asset_id AS old_value, new.asset_id AS new_value WHERE old.asset_id IS NOT new.asset_id
+    UNION ALL SELECT 'worker_id' AS field, old.worker_id AS old_value, new.worker_id AS new_value WHERE old.worker_id IS NOT new.worker_id
+    UNION ALL SELECT 'type' AS field, old.type AS old_value, new.type AS new_value WHERE old.type IS NOT new.type
+    UNION ALL SELECT 'category' AS field, old.category AS old_value, new.category AS new_value WHERE old.category IS NOT new.category
+    UNION ALL SELECT 'amount' AS field, old.amount AS old_value, new.amount AS new_value WHERE old.amount IS NOT new.amount
+    UNION ALL SELECT 'date' AS field, old.date AS old_value, new.date AS new_value WHERE old.date IS NOT new.date
+    UNION ALL SELECT 'description' AS field, old.description AS old_value, new.description AS new_value WHERE old.description IS NOT new.description
+    UNION ALL SELECT 'is_recurring' AS field, old.is_recurring AS old_value, new.is_recurring AS new_value WHERE old.is_recurring IS NOT new.is_recurring
+    UNION ALL SELECT 'recurring_template_id' AS field, old.recurring_template_id AS old_value, new.recurring_template_id AS new_value WHERE old.recurring_template_id IS NOT new.recurring_template_id
+    UNION ALL SELECT 'tags' AS field, old.tags AS old_value, new.tags AS new_value WHERE old.tags IS NOT new.tags
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_trash AFTER UPDATE OF deleted_at ON expenses
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'expenses', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_assets_insert AFTER INSERT ON assets BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'assets', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_assets_update AFTER UPDATE ON assets
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'assets', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'room_id' AS field, old.room_id AS old_value, new.room_id AS new_value WHERE old.room_id IS NOT new.room_id
+    UNION ALL SELECT 'name' AS field, old.name AS old_value, new.name AS new_value WHERE old.name IS NOT new.name
+    UNION ALL SELECT 'category' AS field, old.category AS old_value, new.category AS new_value WHERE old.category IS NOT new.category
+    UNION ALL SELECT 'brand' AS field, old.brand AS old_value, new.brand AS new_value WHERE old.brand IS NOT new.brand
+    UNION ALL SELECT 'model' AS field, old.model AS old_value, new.model AS new_value WHERE old.model IS NOT new.model
+    UNION ALL SELECT 'serial_number' AS field, old.serial_number AS old_value, new.serial_number AS new_value WHERE old.serial_number IS NOT new.serial_number
+    UNION ALL SELECT 'purchase_date' AS field, old.purchase_date AS old_value, new.purchase_date AS new_value WHERE old.purchase_date IS NOT new.purchase_date
+    UNION ALL SELECT 'purchase_price' AS field, old.purchase_price AS old_value, new.purchase_price AS new_value WHERE old.purchase_price IS NOT new.purchase_price
+    UNION ALL SELECT 'warranty_end_date' AS field, old.warranty_end_date AS old_value, new.warranty_end_date AS new_value WHERE old.warranty_end_date IS NOT new.warranty_end_date
+    UNION ALL SELECT 'notes' AS field, old.notes AS old_value, new.notes AS new_value WHERE old.notes IS NOT new.notes
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_assets_trash AFTER UPDATE OF deleted_at ON assets
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'assets', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_insert AFTER INSERT ON maintenance_tasks BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'maintenance_tasks', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_update AFTER UPDATE ON maintenance_tasks
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'maintenance_tasks', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'asset_id' AS field, old.asset_id AS old_value, new.asset_id AS new_value WHERE old.asset_id IS NOT new.asset_id
+    UNION ALL SELECT 'assigned_worker_id' AS field, old.assigned_worker_id AS old_value, new.assigned_worker_id AS new_value WHERE old.assigned_worker_id IS NOT new.assigned_worker_id
+    UNION ALL SELECT 'title' AS field, old.title AS old_value, new.title AS new_value WHERE old.title IS NOT new.title
+    UNION ALL SELECT 'description' AS field, old.description AS old_value, new.description AS new_value WHERE old.description IS NOT new.description
+    UNION ALL SELECT 'frequency' AS field, old.frequency AS old_value, new.frequency AS new_value WHERE old.frequency IS NOT new.frequency
+    UNION ALL SELECT 'last_completed_date' AS field, old.last_completed_date AS old_value, new.last_completed_date AS new_value WHERE old.last_completed_date IS NOT new.last_completed_date
+    UNION ALL SELECT 'next_due_date' AS field, old.next_due_date AS old_value, new.next_due_date AS new_value WHERE old.next_due_date IS NOT new.next_due_date
+    UNION ALL SELECT 'reminder_days_before' AS field, old.reminder_days_before AS old_value, new.reminder_days_before AS new_value WHERE old.reminder_days_before IS NOT new.reminder_days_before
+    UNION ALL SELECT 'is_completed' AS field, old.is_completed AS old_value, new.is_completed AS new_value WHERE old.is_completed IS NOT new.is_completed
+    UNION ALL SELECT 'is_active' AS field, old.is_active AS old_value, new.is_active AS new_value WHERE old.is_active IS NOT new.is_active
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_trash AFTER UPDATE OF deleted_at ON maintenance_tasks
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'maintenance_tasks', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+`;
+
+// Version 14: custom field definitions and values
+export const V14_CUSTOM_FIELDS_SQL = `
+CREATE TABLE IF NOT EXISTS custom_field_definitions (
+  id TEXT PRIMARY KEY,
+  entity_type TEXT NOT NULL,
+  name TEXT NOT NULL,
+  field_type TEXT NOT NULL,
+  options TEXT NOT NULL DEFAULT '[]',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS custom_field_values (
+  id TEXT PRIMARY KEY,
+  definition_id TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  value TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (definition_id) REFERENCES custom_field_definitions(id) ON DELETE CASCADE
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_custom_field_definitions_name ON custom_field_definitions(entity_type, name);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_custom_field_values_record ON custom_field_values(definition_id, entity_id);
+CREATE INDEX IF NOT EXISTS idx_custom_field_values_entity ON custom_field_values(entity_type, entity_id);
+
+CREATE TRIGGER IF NOT EXISTS custom_field_values_properties_delete AFTER DELETE ON properties BEGIN
+  DELETE FROM custom_field_values WHERE entity_type = 'property' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS custom_field_values_rooms_delete AFTER DELETE ON rooms BEGIN
+  DELETE FROM custom_field_values WHERE entity_type = 'room' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS custom_field_values_assets_delete AFTER DELETE ON assets BEGIN
+  DELETE FROM custom_field_values WHERE entity_type = 'asset' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS custom_field_values_expenses_delete AFTER DELETE ON expenses BEGIN
+  DELETE FROM custom_field_values WHERE entity_type = 'expense' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS custom_field_values_workers_delete AFTER DELETE ON workers BEGIN
+  DELETE FROM custom_field_values WHERE entity_type = 'worker' AND entity_id = old.id;
+END;
+`;
+
+// Version 14: search triggers that index custom field values
+export const V14_SEARCH_INDEX_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  entity_type UNINDEXED,
+  entity_id UNINDEXED,
+  property_id UNINDEXED,
+  parent_id UNINDEXED,
+  title_text UNINDEXED,
+  body_text UNINDEXED,
+  title,
+  body,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS search_properties_insert AFTER INSERT ON properties
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('property', new.id, new.id, NULL, new.name, TRIM(new.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(new.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_properties_update AFTER UPDATE ON properties BEGIN
+  DELETE FROM search_index WHERE entity_type = 'property' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'property', new.id, new.id, NULL, new.name, TRIM(new.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(new.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_properties_delete AFTER DELETE ON properties BEGIN
+  DELETE FROM search_index WHERE entity_type = 'property' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_rooms_insert AFTER INSERT ON rooms
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('room', new.id, new.property_id, NULL, new.name, TRIM(COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_rooms_update AFTER UPDATE ON rooms BEGIN
+  DELETE FROM search_index WHERE entity_type = 'room' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'room', new.id, new.property_id, NULL, new.name, TRIM(COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_rooms_delete AFTER DELETE ON rooms BEGIN
+  DELETE FROM search_index WHERE entity_type = 'room' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_assets_insert AFTER INSERT ON assets
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('asset', new.id, new.property_id, NULL, new.name, TRIM(COALESCE(new.brand, '') || ' ' || COALESCE(new.model, '') || ' ' || COALESCE(new.serial_number, '') || ' ' || COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(new.brand, '') || ' ' || COALESCE(new.model, '') || ' ' || COALESCE(new.serial_number, '') || ' ' || COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_assets_update AFTER UPDATE ON assets BEGIN
+  DELETE FROM search_index WHERE entity_type = 'asset' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'asset', new.id, new.property_id, NULL, new.name, TRIM(COALESCE(new.brand, '') || ' ' || COALESCE(new.model, '') || ' ' || COALESCE(new.serial_number, '') || ' ' || COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(new.brand, '') || ' ' || COALESCE(new.model, '') || ' ' || COALESCE(new.serial_number, '') || ' ' || COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_assets_delete AFTER DELETE ON assets BEGIN
+  DELETE FROM search_index WHERE entity_type = 'asset' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_expenses_insert AFTER INSERT ON expenses
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('expense', new.id, new.property_id, NULL, new.description, TRIM(new.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(new.description, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(new.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_expenses_update AFTER UPDATE ON expenses BEGIN
+  DELETE FROM search_index WHERE entity_type = 'expense' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'expense', new.id, new.property_id, NULL, new.description, TRIM(new.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(new.description, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(new.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_expenses_delete AFTER DELETE ON expenses BEGIN
+  DELETE FROM search_index WHERE entity_type = 'expense' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_workers_insert AFTER INSERT ON workers
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('worker', new.id, NULL, NULL, new.name, TRIM(COALESCE(new.company, '') || ' ' || replace(replace(replace(new.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(new.company, '') || ' ' || replace(replace(replace(new.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_workers_update AFTER UPDATE ON workers BEGIN
+  DELETE FROM search_index WHERE entity_type = 'worker' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'worker', new.id, NULL, NULL, new.name, TRIM(COALESCE(new.company, '') || ' ' || replace(replace(replace(new.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(new.company, '') || ' ' || replace(replace(replace(new.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(new.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = new.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_workers_delete AFTER DELETE ON workers BEGIN
+  DELETE FROM search_index WHERE entity_type = 'worker' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_worker_notes_insert AFTER INSERT ON worker_notes
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('worker_note', new.id, NULL, new.worker_id, '', new.content, replace(replace('', 'ı', 'i'), 'İ', 'i'), replace(replace(new.content, 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_worker_notes_update AFTER UPDATE ON worker_notes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'worker_note' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'worker_note', new.id, NULL, new.worker_id, '', new.content, replace(replace('', 'ı', 'i'), 'İ', 'i'), replace(replace(new.content, 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_worker_notes_delete AFTER DELETE ON worker_notes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'worker_note' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_notes_insert AFTER INSERT ON notes
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('note', new.id, new.property_id, COALESCE(new.asset_id, new.worker_id), '', new.content, replace(replace('', 'ı', 'i'), 'İ', 'i'), replace(replace(new.content, 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_notes_update AFTER UPDATE ON notes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'note' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'note', new.id, new.property_id, COALESCE(new.asset_id, new.worker_id), '', new.content, replace(replace('', 'ı', 'i'), 'İ', 'i'), replace(replace(new.content, 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_notes_delete AFTER DELETE ON notes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'note' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_documents_insert AFTER INSERT ON documents
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('document', new.id, new.property_id, COALESCE(new.asset_id, new.worker_id), new.name, '', replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace('', 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_documents_update AFTER UPDATE ON documents BEGIN
+  DELETE FROM search_index WHERE entity_type = 'document' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'document', new.id, new.property_id, COALESCE(new.asset_id, new.worker_id), new.name, '', replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace('', 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_documents_delete AFTER DELETE ON documents BEGIN
+  DELETE FROM search_index WHERE entity_type = 'document' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_paint_codes_insert AFTER INSERT ON paint_codes
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('paint_code', new.id, new.property_id, NULL, new.color_name, new.brand || ' ' || new.color_code || ' ' || new.location || ' ' || COALESCE(new.notes, ''), replace(replace(new.color_name, 'ı', 'i'), 'İ', 'i'), replace(replace(new.brand || ' ' || new.color_code || ' ' || new.location || ' ' || COALESCE(new.notes, ''), 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_paint_codes_update AFTER UPDATE ON paint_codes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'paint_code' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'paint_code', new.id, new.property_id, NULL, new.color_name, new.brand || ' ' || new.color_code || ' ' || new.location || ' ' || COALESCE(new.notes, ''), replace(replace(new.color_name, 'ı', 'i'), 'İ', 'i'), replace(replace(new.brand || ' ' || new.color_code || ' ' || new.location || ' ' || COALESCE(new.notes, ''), 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_paint_codes_delete AFTER DELETE ON paint_codes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'paint_code' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_storage_boxes_insert AFTER INSERT ON storage_boxes
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) VALUES ('storage_box', new.id, new.property_id, NULL, new.name, new.contents || ' ' || new.location, replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(new.contents || ' ' || new.location, 'ı', 'i'), 'İ', 'i'));
+END;
+CREATE TRIGGER IF NOT EXISTS search_storage_boxes_update AFTER UPDATE ON storage_boxes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'storage_box' AND entity_id = old.id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'storage_box', new.id, new.property_id, NULL, new.name, new.contents || ' ' || new.location, replace(replace(new.name, 'ı', 'i'), 'İ', 'i'), replace(replace(new.contents || ' ' || new.location, 'ı', 'i'), 'İ', 'i') WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_storage_boxes_delete AFTER DELETE ON storage_boxes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'storage_box' AND entity_id = old.id;
+END;
+CREATE TRIGGER IF NOT EXISTS search_custom_field_values_insert AFTER INSERT ON custom_field_values BEGIN
+  DELETE FROM search_index WHERE entity_type = new.entity_type AND entity_id = new.entity_id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'property', r.id, r.id, NULL, r.name, TRIM(r.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(r.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM properties r WHERE new.entity_type = 'property' AND r.id = new.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'room', r.id, r.property_id, NULL, r.name, TRIM(COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM rooms r WHERE new.entity_type = 'room' AND r.id = new.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'asset', r.id, r.property_id, NULL, r.name, TRIM(COALESCE(r.brand, '') || ' ' || COALESCE(r.model, '') || ' ' || COALESCE(r.serial_number, '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.brand, '') || ' ' || COALESCE(r.model, '') || ' ' || COALESCE(r.serial_number, '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM assets r WHERE new.entity_type = 'asset' AND r.id = new.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'expense', r.id, r.property_id, NULL, r.description, TRIM(r.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.description, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(r.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM expenses r WHERE new.entity_type = 'expense' AND r.id = new.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'worker', r.id, NULL, NULL, r.name, TRIM(COALESCE(r.company, '') || ' ' || replace(replace(replace(r.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.company, '') || ' ' || replace(replace(replace(r.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM workers r WHERE new.entity_type = 'worker' AND r.id = new.entity_id AND r.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_custom_field_values_update AFTER UPDATE ON custom_field_values BEGIN
+  DELETE FROM search_index WHERE entity_type = old.entity_type AND entity_id = old.entity_id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'property', r.id, r.id, NULL, r.name, TRIM(r.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(r.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM properties r WHERE old.entity_type = 'property' AND r.id = old.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'room', r.id, r.property_id, NULL, r.name, TRIM(COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM rooms r WHERE old.entity_type = 'room' AND r.id = old.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'asset', r.id, r.property_id, NULL, r.name, TRIM(COALESCE(r.brand, '') || ' ' || COALESCE(r.model, '') || ' ' || COALESCE(r.serial_number, '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.brand, '') || ' ' || COALESCE(r.model, '') || ' ' || COALESCE(r.serial_number, '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM assets r WHERE old.entity_type = 'asset' AND r.id = old.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'expense', r.id, r.property_id, NULL, r.description, TRIM(r.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.description, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(r.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM expenses r WHERE old.entity_type = 'expense' AND r.id = old.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'worker', r.id, NULL, NULL, r.name, TRIM(COALESCE(r.company, '') || ' ' || replace(replace(replace(r.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.company, '') || ' ' || replace(replace(replace(r.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM workers r WHERE old.entity_type = 'worker' AND r.id = old.entity_id AND r.deleted_at IS NULL;
+  DELETE FROM search_index WHERE entity_type = new.entity_type AND entity_id = new.entity_id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'property', r.id, r.id, NULL, r.name, TRIM(r.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(r.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM properties r WHERE new.entity_type = 'property' AND r.id = new.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'room', r.id, r.property_id, NULL, r.name, TRIM(COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM rooms r WHERE new.entity_type = 'room' AND r.id = new.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'asset', r.id, r.property_id, NULL, r.name, TRIM(COALESCE(r.brand, '') || ' ' || COALESCE(r.model, '') || ' ' || COALESCE(r.serial_number, '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.brand, '') || ' ' || COALESCE(r.model, '') || ' ' || COALESCE(r.serial_number, '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM assets r WHERE new.entity_type = 'asset' AND r.id = new.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'expense', r.id, r.property_id, NULL, r.description, TRIM(r.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.description, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(r.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM expenses r WHERE new.entity_type = 'expense' AND r.id = new.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'worker', r.id, NULL, NULL, r.name, TRIM(COALESCE(r.company, '') || ' ' || replace(replace(replace(r.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.company, '') || ' ' || replace(replace(replace(r.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM workers r WHERE new.entity_type = 'worker' AND r.id = new.entity_id AND r.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_custom_field_values_delete AFTER DELETE ON custom_field_values BEGIN
+  DELETE FROM search_index WHERE entity_type = old.entity_type AND entity_id = old.entity_id;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'property', r.id, r.id, NULL, r.name, TRIM(r.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(r.address || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'property' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM properties r WHERE old.entity_type = 'property' AND r.id = old.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'room', r.id, r.property_id, NULL, r.name, TRIM(COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'room' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM rooms r WHERE old.entity_type = 'room' AND r.id = old.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'asset', r.id, r.property_id, NULL, r.name, TRIM(COALESCE(r.brand, '') || ' ' || COALESCE(r.model, '') || ' ' || COALESCE(r.serial_number, '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.brand, '') || ' ' || COALESCE(r.model, '') || ' ' || COALESCE(r.serial_number, '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'asset' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM assets r WHERE old.entity_type = 'asset' AND r.id = old.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'expense', r.id, r.property_id, NULL, r.description, TRIM(r.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.description, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(r.category || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'expense' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM expenses r WHERE old.entity_type = 'expense' AND r.id = old.entity_id AND r.deleted_at IS NULL;
+  INSERT INTO search_index (entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body) SELECT 'worker', r.id, NULL, NULL, r.name, TRIM(COALESCE(r.company, '') || ' ' || replace(replace(replace(r.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), replace(replace(r.name, 'ı', 'i'), 'İ', 'i'), replace(replace(TRIM(COALESCE(r.company, '') || ' ' || replace(replace(replace(r.specialty, '[', ''), ']', ''), '"', '') || ' ' || COALESCE(r.notes, '') || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v JOIN custom_field_definitions d ON d.id = v.definition_id WHERE v.entity_type = 'worker' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), '')), 'ı', 'i'), 'İ', 'i') FROM workers r WHERE old.entity_type = 'worker' AND r.id = old.entity_id AND r.deleted_at IS NULL;
+END;
+`;
+
+// Version 16: change log triggers with the currency columns
+export const V16_CHANGE_LOG_SQL = `
+CREATE TABLE IF NOT EXISTS change_log (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  changes TEXT NOT NULL DEFAULT '{}',
+  device_id TEXT NOT NULL DEFAULT '',
+  changed_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_change_log_record ON change_log(table_name, record_id, changed_at);
+CREATE TRIGGER IF NOT EXISTS change_log_no_update BEFORE UPDATE ON change_log BEGIN
+  SELECT RAISE(ABORT, 'change_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_insert AFTER INSERT ON expenses BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'expenses', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_update AFTER UPDATE ON expenses
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'expenses', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'room_id' AS field, old.room_id AS old_value, new.room_id AS new_value WHERE old.room_id IS NOT new.room_id
+    UNION ALL SELECT 'asset_id' AS field, old.asset_id AS old_value, new.asset_id AS new_value WHERE old.asset_id IS NOT new.asset_id
+    UNION ALL SELECT 'worker_id' AS field, old.worker_id AS old_value, new.worker_id AS new_value WHERE old.worker_id IS NOT new.worker_id
+    UNION ALL SELECT 'type' AS field, old.type AS old_value, new.type AS new_value WHERE old.type IS NOT new.type
+    UNION ALL SELECT 'category' AS field, old.category AS old_value, new.category AS new_value WHERE old.category IS NOT new.category
+    UNION ALL SELECT 'amount' AS field, old.amount AS old_value, new.amount AS new_value WHERE old.amount IS NOT new.amount
+    UNION ALL SELECT 'currency' AS field, old.currency AS old_value, new.currency AS new_value WHERE old.currency IS NOT new.currency
+    UNION ALL SELECT 'date' AS field, old.date AS old_value, new.date AS new_value WHERE old.date IS NOT new.date
+    UNION ALL SELECT 'description' AS field, old.description AS old_value, new.description AS new_value WHERE old.description IS NOT new.description
+    UNION ALL SELECT 'is_recurring' AS field, old.is_recurring AS old_value, new.is_recurring AS new_value WHERE old.is_recurring IS NOT new.is_recurring
+    UNION ALL SELECT 'recurring_template_id' AS field, old.recurring_template_id AS old_value, new.recurring_template_id AS new_value WHERE old.recurring_template_id IS NOT new.recurring_template_id
+    UNION ALL SELECT 'tags' AS field, old.tags AS old_value, new.tags AS new_value WHERE old.tags IS NOT new.tags
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_trash AFTER UPDATE OF deleted_at ON expenses
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'expenses', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_assets_insert AFTER INSERT ON assets BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'assets', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_assets_update AFTER UPDATE ON assets
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'assets', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'room_id' AS field, old.room_id AS old_value, new.room_id AS new_value WHERE old.room_id IS NOT new.room_id
+    UNION ALL SELECT 'name' AS field, old.name AS old_value, new.name AS new_value WHERE old.name IS NOT new.name
+    UNION ALL SELECT 'category' AS field, old.category AS old_value, new.category AS new_value WHERE old.category IS NOT new.category
+    UNION ALL SELECT 'brand' AS field, old.brand AS old_value, new.brand AS new_value WHERE old.brand IS NOT new.brand
+    UNION ALL SELECT 'model' AS field, old.model AS old_value, new.model AS new_value WHERE old.model IS NOT new.model
+    UNION ALL SELECT 'serial_number' AS field, old.serial_number AS old_value, new.serial_number AS new_value WHERE old.serial_number IS NOT new.serial_number
+    UNION ALL SELECT 'purchase_date' AS field, old.purchase_date AS old_value, new.purchase_date AS new_value WHERE old.purchase_date IS NOT new.purchase_date
+    UNION ALL SELECT 'purchase_price' AS field, old.purchase_price AS old_value, new.purchase_price AS new_value WHERE old.purchase_price IS NOT new.purchase_price
+    UNION ALL SELECT 'purchase_currency' AS field, old.purchase_currency AS old_value, new.purchase_currency AS new_value WHERE old.purchase_currency IS NOT new.purchase_currency
+    UNION ALL SELECT 'warranty_end_date' AS field, old.warranty_end_date AS old_value, new.warranty_end_date AS new_value WHERE old.warranty_end_date IS NOT new.warranty_end_date
+    UNION ALL SELECT 'notes' AS field, old.notes AS old_value, new.notes AS new_value WHERE old.notes IS NOT new.notes
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_assets_trash AFTER UPDATE OF deleted_at ON assets
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'assets', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_insert AFTER INSERT ON maintenance_tasks BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'maintenance_tasks', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_update AFTER UPDATE ON maintenance_tasks
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'maintenance_tasks', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'asset_id' AS field, old.asset_id AS old_value, new.asset_id AS new_value WHERE old.asset_id IS NOT new.asset_id
+    UNION ALL SELECT 'assigned_worker_id' AS field, old.assigned_worker_id AS old_value, new.assigned_worker_id AS new_value WHERE old.assigned_worker_id IS NOT new.assigned_worker_id
+    UNION ALL SELECT 'title' AS field, old.title AS old_value, new.title AS new_value WHERE old.title IS NOT new.title
+    UNION ALL SELECT 'description' AS field, old.description AS old_value, new.description AS new_value WHERE old.description IS NOT new.description
+    UNION ALL SELECT 'frequency' AS field, old.frequency AS old_value, new.frequency AS new_value WHERE old.frequency IS NOT new.frequency
+    UNION ALL SELECT 'last_completed_date' AS field, old.last_completed_date AS old_value, new.last_completed_date AS new_value WHERE old.last_completed_date IS NOT new.last_completed_date
+    UNION ALL SELECT 'next_due_date' AS field, old.next_due_date AS old_value, new.next_due_date AS new_value WHERE old.next_due_date IS NOT new.next_due_date
+    UNION ALL SELECT 'reminder_days_before' AS field, old.reminder_days_before AS old_value, new.reminder_days_before AS new_value WHERE old.reminder_days_before IS NOT new.reminder_days_before
+    UNION ALL SELECT 'is_completed' AS field, old.is_completed AS old_value, new.is_completed AS new_value WHERE old.is_completed IS NOT new.is_completed
+    UNION ALL SELECT 'is_active' AS field, old.is_active AS old_value, new.is_active AS new_value WHERE old.is_active IS NOT new.is_active
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_trash AFTER UPDATE OF deleted_at ON maintenance_tasks
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'maintenance_tasks', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+`;
+
+// Version 17: change log triggers with the paying household member
+export const V17_CHANGE_LOG_SQL = `
+CREATE TABLE IF NOT EXISTS change_log (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  changes TEXT NOT NULL DEFAULT '{}',
+  device_id TEXT NOT NULL DEFAULT '',
+  changed_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_change_log_record ON change_log(table_name, record_id, changed_at);
+CREATE TRIGGER IF NOT EXISTS change_log_no_update BEFORE UPDATE ON change_log BEGIN
+  SELECT RAISE(ABORT, 'change_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_insert AFTER INSERT ON expenses BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'expenses', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_update AFTER UPDATE ON expenses
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'expenses', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'room_id' AS field, old.room_id AS old_value, new.room_id AS new_value WHERE old.room_id IS NOT new.room_id
+    UNION ALL SELECT 'asset_id' AS field, old.asset_id AS old_value, new.asset_id AS new_value WHERE old.asset_id IS NOT new.asset_id
+    UNION ALL SELECT 'worker_id' AS field, old.worker_id AS old_value, new.worker_id AS new_value WHERE old.worker_id IS NOT new.worker_id
+    UNION ALL SELECT 'type' AS field, old.type AS old_value, new.type AS new_value WHERE old.type IS NOT new.type
+    UNION ALL SELECT 'category' AS field, old.category AS old_value, new.category AS new_value WHERE old.category IS NOT new.category
+    UNION ALL SELECT 'amount' AS field, old.amount AS old_value, new.amount AS new_value WHERE old.amount IS NOT new.amount
+    UNION ALL SELECT 'currency' AS field, old.currency AS old_value, new.currency AS new_value WHERE old.currency IS NOT new.currency
+    UNION ALL SELECT 'date' AS field, old.date AS old_value, new.date AS new_value WHERE old.date IS NOT new.date
+    UNION ALL SELECT 'description' AS field, old.description AS old_value, new.description AS new_value WHERE old.description IS NOT new.description
+    UNION ALL SELECT 'is_recurring' AS field, old.is_recurring AS old_value, new.is_recurring AS new_value WHERE old.is_recurring IS NOT new.is_recurring
+    UNION ALL SELECT 'recurring_template_id' AS field, old.recurring_template_id AS old_value, new.recurring_template_id AS new_value WHERE old.recurring_template_id IS NOT new.recurring_template_id
+    UNION ALL SELECT 'tags' AS field, old.tags AS old_value, new.tags AS new_value WHERE old.tags IS NOT new.tags
+    UNION ALL SELECT 'paid_by_member_id' AS field, old.paid_by_member_id AS old_value, new.paid_by_member_id AS new_value WHERE old.paid_by_member_id IS NOT new.paid_by_member_id
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_trash AFTER UPDATE OF deleted_at ON expenses
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'expenses', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_assets_insert AFTER INSERT ON assets BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'assets', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_assets_update AFTER UPDATE ON assets
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'assets', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'room_id' AS field, old.room_id AS old_value, new.room_id AS new_value WHERE old.room_id IS NOT new.room_id
+    UNION ALL SELECT 'name' AS field, old.name AS old_value, new.name AS new_value WHERE old.name IS NOT new.name
+    UNION ALL SELECT 'category' AS field, old.category AS old_value, new.category AS new_value WHERE old.category IS NOT new.category
+    UNION ALL SELECT 'brand' AS field, old.brand AS old_value, new.brand AS new_value WHERE old.brand IS NOT new.brand
+    UNION ALL SELECT 'model' AS field, old.model AS old_value, new.model AS new_value WHERE old.model IS NOT new.model
+    UNION ALL SELECT 'serial_number' AS field, old.serial_number AS old_value, new.serial_number AS new_value WHERE old.serial_number IS NOT new.serial_number
+    UNION ALL SELECT 'purchase_date' AS field, old.purchase_date AS old_value, new.purchase_date AS new_value WHERE old.purchase_date IS NOT new.purchase_date
+    UNION ALL SELECT 'purchase_price' AS field, old.purchase_price AS old_value, new.purchase_price AS new_value WHERE old.purchase_price IS NOT new.purchase_price
+    UNION ALL SELECT 'purchase_currency' AS field, old.purchase_currency AS old_value, new.purchase_currency AS new_value WHERE old.purchase_currency IS NOT new.purchase_currency
+    UNION ALL SELECT 'warranty_end_date' AS field, old.warranty_end_date AS old_value, new.warranty_end_date AS new_value WHERE old.warranty_end_date IS NOT new.warranty_end_date
+    UNION ALL SELECT 'notes' AS field, old.notes AS old_value, new.notes AS new_value WHERE old.notes IS NOT new.notes
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_assets_trash AFTER UPDATE OF deleted_at ON assets
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'assets', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_insert AFTER INSERT ON maintenance_tasks BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'maintenance_tasks', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_update AFTER UPDATE ON maintenance_tasks
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'maintenance_tasks', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'asset_id' AS field, old.asset_id AS old_value, new.asset_id AS new_value WHERE old.asset_id IS NOT new.asset_id
+    UNION ALL SELECT 'assigned_worker_id' AS field, old.assigned_worker_id AS old_value, new.assigned_worker_id AS new_value WHERE old.assigned_worker_id IS NOT new.assigned_worker_id
+    UNION ALL SELECT 'title' AS field, old.title AS old_value, new.title AS new_value WHERE old.title IS NOT new.title
+    UNION ALL SELECT 'description' AS field, old.description AS old_value, new.description AS new_value WHERE old.description IS NOT new.description
+    UNION ALL SELECT 'frequency' AS field, old.frequency AS old_value, new.frequency AS new_value WHERE old.frequency IS NOT new.frequency
+    UNION ALL SELECT 'last_completed_date' AS field, old.last_completed_date AS old_value, new.last_completed_date AS new_value WHERE old.last_completed_date IS NOT new.last_completed_date
+    UNION ALL SELECT 'next_due_date' AS field, old.next_due_date AS old_value, new.next_due_date AS new_value WHERE old.next_due_date IS NOT new.next_due_date
+    UNION ALL SELECT 'reminder_days_before' AS field, old.reminder_days_before AS old_value, new.reminder_days_before AS new_value WHERE old.reminder_days_before IS NOT new.reminder_days_before
+    UNION ALL SELECT 'is_completed' AS field, old.is_completed AS old_value, new.is_completed AS new_value WHERE old.is_completed IS NOT new.is_completed
+    UNION ALL SELECT 'is_active' AS field, old.is_active AS old_value, new.is_active AS new_value WHERE old.is_active IS NOT new.is_active
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_trash AFTER UPDATE OF deleted_at ON maintenance_tasks
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'maintenance_tasks', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+`;
+
+// Version 19: change log triggers with the tax treatment
+export const V19_CHANGE_LOG_SQL = `
+CREATE TABLE IF NOT EXISTS change_log (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  changes TEXT NOT NULL DEFAULT '{}',
+  device_id TEXT NOT NULL DEFAULT '',
+  changed_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_change_log_record ON change_log(table_name, record_id, changed_at);
+CREATE TRIGGER IF NOT EXISTS change_log_no_update BEFORE UPDATE ON change_log BEGIN
+  SELECT RAISE(ABORT, 'change_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_insert AFTER INSERT ON expenses BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'expenses', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_update AFTER UPDATE ON expenses
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'expenses', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'room_id' AS field, old.room_id AS old_value, new.room_id AS new_value WHERE old.room_id IS NOT new.room_id
+    UNION ALL SELECT 'asset_id' AS field, old.asset_id AS old_value, new.asset_id AS new_value WHERE old.asset_id IS NOT new.asset_id
+    UNION ALL SELECT 'worker_id' AS field, old.worker_id AS old_value, new.worker_id AS new_value WHERE old.worker_id IS NOT new.worker_id
+    UNION ALL SELECT 'type' AS field, old.type AS old_value, new.type AS new_value WHERE old.type IS NOT new.type
+    UNION ALL SELECT 'category' AS field, old.category AS old_value, new.category AS new_value WHERE old.category IS NOT new.category
+    UNION ALL SELECT 'amount' AS field, old.amount AS old_value, new.amount AS new_value WHERE old.amount IS NOT new.amount
+    UNION ALL SELECT 'currency' AS field, old.currency AS old_value, new.currency AS new_value WHERE old.currency IS NOT new.currency
+    UNION ALL SELECT 'date' AS field, old.date AS old_value, new.date AS new_value WHERE old.date IS NOT new.date
+    UNION ALL SELECT 'description' AS field, old.description AS old_value, new.description AS new_value WHERE old.description IS NOT new.description
+    UNION ALL SELECT 'is_recurring' AS field, old.is_recurring AS old_value, new.is_recurring AS new_value WHERE old.is_recurring IS NOT new.is_recurring
+    UNION ALL SELECT 'recurring_template_id' AS field, old.recurring_template_id AS old_value, new.recurring_template_id AS new_value WHERE old.recurring_template_id IS NOT new.recurring_template_id
+    UNION ALL SELECT 'tags' AS field, old.tags AS old_value, new.tags AS new_value WHERE old.tags IS NOT new.tags
+    UNION ALL SELECT 'paid_by_member_id' AS field, old.paid_by_member_id AS old_value, new.paid_by_member_id AS new_value WHERE old.paid_by_member_id IS NOT new.paid_by_member_id
+    UNION ALL SELECT 'tax_treatment' AS field, old.tax_treatment AS old_value, new.tax_treatment AS new_value WHERE old.tax_treatment IS NOT new.tax_treatment
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_expenses_trash AFTER UPDATE OF deleted_at ON expenses
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'expenses', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_assets_insert AFTER INSERT ON assets BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'assets', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_assets_update AFTER UPDATE ON assets
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'assets', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'room_id' AS field, old.room_id AS old_value, new.room_id AS new_value WHERE old.room_id IS NOT new.room_id
+    UNION ALL SELECT 'name' AS field, old.name AS old_value, new.name AS new_value WHERE old.name IS NOT new.name
+    UNION ALL SELECT 'category' AS field, old.category AS old_value, new.category AS new_value WHERE old.category IS NOT new.category
+    UNION ALL SELECT 'brand' AS field, old.brand AS old_value, new.brand AS new_value WHERE old.brand IS NOT new.brand
+    UNION ALL SELECT 'model' AS field, old.model AS old_value, new.model AS new_value WHERE old.model IS NOT new.model
+    UNION ALL SELECT 'serial_number' AS field, old.serial_number AS old_value, new.serial_number AS new_value WHERE old.serial_number IS NOT new.serial_number
+    UNION ALL SELECT 'purchase_date' AS field, old.purchase_date AS old_value, new.purchase_date AS new_value WHERE old.purchase_date IS NOT new.purchase_date
+    UNION ALL SELECT 'purchase_price' AS field, old.purchase_price AS old_value, new.purchase_price AS new_value WHERE old.purchase_price IS NOT new.purchase_price
+    UNION ALL SELECT 'purchase_currency' AS field, old.purchase_currency AS old_value, new.purchase_currency AS new_value WHERE old.purchase_currency IS NOT new.purchase_currency
+    UNION ALL SELECT 'warranty_end_date' AS field, old.warranty_end_date AS old_value, new.warranty_end_date AS new_value WHERE old.warranty_end_date IS NOT new.warranty_end_date
+    UNION ALL SELECT 'notes' AS field, old.notes AS old_value, new.notes AS new_value WHERE old.notes IS NOT new.notes
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_assets_trash AFTER UPDATE OF deleted_at ON assets
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'assets', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_insert AFTER INSERT ON maintenance_tasks BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (lower(hex(randomblob(16))), 'maintenance_tasks', new.id, 'create', '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_update AFTER UPDATE ON maintenance_tasks
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  SELECT lower(hex(randomblob(16))), 'maintenance_tasks', new.id, 'update', changes, COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM (SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (
+    SELECT 'property_id' AS field, old.property_id AS old_value, new.property_id AS new_value WHERE old.property_id IS NOT new.property_id
+    UNION ALL SELECT 'asset_id' AS field, old.asset_id AS old_value, new.asset_id AS new_value WHERE old.asset_id IS NOT new.asset_id
+    UNION ALL SELECT 'assigned_worker_id' AS field, old.assigned_worker_id AS old_value, new.assigned_worker_id AS new_value WHERE old.assigned_worker_id IS NOT new.assigned_worker_id
+    UNION ALL SELECT 'title' AS field, old.title AS old_value, new.title AS new_value WHERE old.title IS NOT new.title
+    UNION ALL SELECT 'description' AS field, old.description AS old_value, new.description AS new_value WHERE old.description IS NOT new.description
+    UNION ALL SELECT 'frequency' AS field, old.frequency AS old_value, new.frequency AS new_value WHERE old.frequency IS NOT new.frequency
+    UNION ALL SELECT 'last_completed_date' AS field, old.last_completed_date AS old_value, new.last_completed_date AS new_value WHERE old.last_completed_date IS NOT new.last_completed_date
+    UNION ALL SELECT 'next_due_date' AS field, old.next_due_date AS old_value, new.next_due_date AS new_value WHERE old.next_due_date IS NOT new.next_due_date
+    UNION ALL SELECT 'reminder_days_before' AS field, old.reminder_days_before AS old_value, new.reminder_days_before AS new_value WHERE old.reminder_days_before IS NOT new.reminder_days_before
+    UNION ALL SELECT 'is_completed' AS field, old.is_completed AS old_value, new.is_completed AS new_value WHERE old.is_completed IS NOT new.is_completed
+    UNION ALL SELECT 'is_active' AS field, old.is_active AS old_value, new.is_active AS new_value WHERE old.is_active IS NOT new.is_active
+  ))
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_maintenance_tasks_trash AFTER UPDATE OF deleted_at ON maintenance_tasks
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)
+  VALUES (
+    lower(hex(randomblob(16))), 'maintenance_tasks', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', COALESCE((SELECT device_id FROM app_settings LIMIT 1), ''), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
+`;
@@ -0,0 +1,701 @@
+import * as SQLite from 'expo-sqlite';
+import { CREATE_TABLES_SQL, SCHEMA_VERSION } from './schema';
+import {
+  V11_SEARCH_INDEX_SQL,
+  V11_SEARCH_REBUILD_SQL,
+  V12_CHANGE_LOG_SQL,
+  V13_ATTACHMENTS_SQL,
+  V13_CHANGE_LOG_SQL,
+  V14_CUSTOM_FIELDS_SQL,
+  V14_SEARCH_INDEX_SQL,
+  V16_CHANGE_LOG_SQL,
+  V17_CHANGE_LOG_SQL,
+  V19_CHANGE_LOG_SQL,
+} from './migrationSql';
+import { SCHEMA_V1_SQL } from './schemaFixtures';
+
+// One step of the schema history. `up` brings a database at version - 1 to
+// this version and runs inside the transaction that records the new version.
+export interface Migration {
+  version: number;
+  description: string;
+  up: (database: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+async function hasColumn(database: SQLite.SQLiteDatabase, table: string, column: string): Promise<boolean> {
+  const columns = await database.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.some(col => col.name === column);
+}
+
+// Databases from before user_version was kept may already have some columns
+// of a step, so each one is only added when missing
+async function addColumn(
+  database: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  if (!(await hasColumn(database, table, column))) {
+    await database.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Ordered by version. Never edit a step that has shipped; add a new one and
+// bump SCHEMA_VERSION, keeping CREATE_TABLES_SQL in line with the result.
+// Steps write out their SQL or take it from migrationSql.ts rather than
+// from schema.ts, whose constants change along with the schema.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Add encrypt_exports to app_settings',
+    up: async database => {
+      await addColumn(database, 'app_settings', 'encrypt_exports', 'INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 3,
+    description: 'Add worker assignment and completion history to maintenance tasks',
+    up: async database => {
+      await addColumn(database, 'maintenance_tasks', 'assigned_worker_id', 'TEXT REFERENCES workers(id) ON DELETE SET NULL');
+      await addColumn(database, 'maintenance_tasks', 'is_active', 'INTEGER NOT NULL DEFAULT 1');
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS maintenance_completions (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL,
+          worker_id TEXT,
+          completed_date TEXT NOT NULL,
+          notes TEXT,
+          cost REAL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (task_id) REFERENCES maintenance_tasks(id) ON DELETE CASCADE,
+          FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE SET NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_maintenance_completions_task ON maintenance_completions(task_id);
+        CREATE INDEX IF NOT EXISTS idx_maintenance_completions_worker ON maintenance_completions(worker_id);
+        CREATE INDEX IF NOT EXISTS idx_maintenance_completions_date ON maintenance_completions(completed_date);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Add payment day and payment history to recurring templates',
+    up: async database => {
+      await addColumn(database, 'recurring_templates', 'typical_payment_day', 'TEXT');
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS recurring_payment_history (
+          id TEXT PRIMARY KEY,
+          template_id TEXT NOT NULL,
+          amount REAL NOT NULL,
+          paid_date TEXT NOT NULL,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (template_id) REFERENCES recurring_templates(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_recurring_payment_history_template ON recurring_payment_history(template_id);
+        CREATE INDEX IF NOT EXISTS idx_recurring_payment_history_date ON recurring_payment_history(paid_date);
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Add renovation details, note reminders and worker notes',
+    up: async database => {
+      await addColumn(database, 'renovations', 'expense_type', 'TEXT');
+      await addColumn(database, 'notes', 'reminder_date', 'TEXT');
+      await addColumn(database, 'notes', 'reminder_notification_id', 'TEXT');
+      await database.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_notes_reminder ON notes(reminder_date);
+
+        CREATE TABLE IF NOT EXISTS renovation_workers (
+          id TEXT PRIMARY KEY,
+          renovation_id TEXT NOT NULL,
+          worker_id TEXT NOT NULL,
+          role TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE,
+          FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_renovation_workers_renovation ON renovation_workers(renovation_id);
+        CREATE INDEX IF NOT EXISTS idx_renovation_workers_worker ON renovation_workers(worker_id);
+
+        CREATE TABLE IF NOT EXISTS renovation_assets (
+          id TEXT PRIMARY KEY,
+          renovation_id TEXT NOT NULL,
+          asset_id TEXT NOT NULL,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE,
+          FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_renovation_assets_renovation ON renovation_assets(renovation_id);
+        CREATE INDEX IF NOT EXISTS idx_renovation_assets_asset ON renovation_assets(asset_id);
+
+        CREATE TABLE IF NOT EXISTS renovation_costs (
+          id TEXT PRIMARY KEY,
+          renovation_id TEXT NOT NULL,
+          description TEXT NOT NULL,
+          amount REAL NOT NULL,
+          category TEXT,
+          date TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_renovation_costs_renovation ON renovation_costs(renovation_id);
+
+        CREATE TABLE IF NOT EXISTS worker_notes (
+          id TEXT PRIMARY KEY,
+          worker_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          date TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_worker_notes_worker ON worker_notes(worker_id);
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'Add custom categories and expense asset links',
+    up: async database => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS custom_categories (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          name TEXT NOT NULL,
+          icon TEXT,
+          color TEXT,
+          is_default INTEGER NOT NULL DEFAULT 0,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_custom_categories_type ON custom_categories(type);
+
+        CREATE TABLE IF NOT EXISTS expense_assets (
+          id TEXT PRIMARY KEY,
+          expense_id TEXT NOT NULL,
+          asset_id TEXT NOT NULL,
+          amount REAL NOT NULL,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (expense_id) REFERENCES expenses(id) ON DELETE CASCADE,
+          FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_expense_assets_expense ON expense_assets(expense_id);
+        CREATE INDEX IF NOT EXISTS idx_expense_assets_asset ON expense_assets(asset_id);
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: 'Add automatic backup settings',
+    up: async database => {
+      await addColumn(database, 'app_settings', 'auto_backup_frequency', "TEXT NOT NULL DEFAULT 'off'");
+      await addColumn(database, 'app_settings', 'auto_backup_interval_days', 'INTEGER NOT NULL DEFAULT 3');
+      await addColumn(database, 'app_settings', 'backup_keep_daily', 'INTEGER NOT NULL DEFAULT 7');
+      await addColumn(database, 'app_settings', 'backup_keep_monthly', 'INTEGER NOT NULL DEFAULT 6');
+      await addColumn(database, 'app_settings', 'last_auto_backup_at', 'TEXT');
+    },
+  },
+  {
+    version: 8,
+    description: 'Add payee rules for statement import',
+    up: async database => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS payee_rules (
+          id TEXT PRIMARY KEY,
+          property_id TEXT NOT NULL,
+          pattern TEXT NOT NULL,
+          template_id TEXT,
+          expense_type TEXT NOT NULL DEFAULT 'bill',
+          category TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+          FOREIGN KEY (template_id) REFERENCES recurring_templates(id) ON DELETE SET NULL
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_payee_rules_pattern ON payee_rules(property_id, pattern);
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: 'Add the trash',
+    up: async database => {
+      const tables = [
+        'properties',
+        'rooms',
+        'assets',
+        'expenses',
+        'expense_assets',
+        'workers',
+        'worker_notes',
+        'maintenance_tasks',
+        'maintenance_completions',
+        'paint_codes',
+        'measurements',
+        'storage_boxes',
+        'wifi_info',
+        'documents',
+        'renovations',
+        'renovation_workers',
+        'renovation_assets',
+        'renovation_costs',
+        'emergency_shutoffs',
+        'recurring_templates',
+        'recurring_payment_history',
+        'notes',
+      ];
+      for (const table of tables) {
+        await addColumn(database, table, 'deleted_at', 'TEXT');
+      }
+      await addColumn(database, 'app_settings', 'trash_retention_days', 'INTEGER NOT NULL DEFAULT 30');
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS trash_items (
+          id TEXT PRIMARY KEY,
+          table_name TEXT NOT NULL,
+          record_id TEXT NOT NULL,
+          label TEXT NOT NULL,
+          children TEXT NOT NULL DEFAULT '{}',
+          deleted_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_trash_items_deleted ON trash_items(deleted_at);
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: 'Index expenses for paging by property',
+    up: async database => {
+      await database.execAsync(
+        'CREATE INDEX IF NOT EXISTS idx_expenses_property_date ON expenses(property_id, date, id)'
+      );
+    },
+  },
+  {
+    version: 11,
+    description: 'Add the full-text search index',
+    up: async database => {
+      await database.execAsync(V11_SEARCH_INDEX_SQL);
+      await database.execAsync(V11_SEARCH_REBUILD_SQL);
+    },
+  },
+  {
+    version: 12,
+    description: 'Add the change log and a device id',
+    up: async database => {
+      await addColumn(database, 'app_settings', 'device_id', 'TEXT');
+      await database.execAsync(`
+        UPDATE app_settings SET device_id = lower(hex(randomblob(16))) WHERE device_id IS NULL;
+        ${V12_CHANGE_LOG_SQL}
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: 'Move receipts, asset photos and manuals into attachments',
+    up: async database => {
+      // The change log's update triggers name the dropped columns, so they
+      // are dropped first and created again without them
+      await database.execAsync(`
+        ${V13_ATTACHMENTS_SQL}
+        INSERT INTO attachments (id, entity_type, entity_id, file_uri, file_type, sort_order, created_at, updated_at)
+        SELECT lower(hex(randomblob(16))), 'expense', id, receipt_uri,
+               CASE WHEN lower(receipt_uri) LIKE '%.pdf' THEN 'pdf' ELSE 'image' END,
+               0, created_at, updated_at
+        FROM expenses WHERE receipt_uri IS NOT NULL AND receipt_uri <> '';
+        INSERT INTO attachments (id, entity_type, entity_id, file_uri, file_type, sort_order, created_at, updated_at)
+        SELECT lower(hex(randomblob(16))), 'asset', id, image_uri,
+               CASE WHEN lower(image_uri) LIKE '%.pdf' THEN 'pdf' ELSE 'image' END,
+               0, created_at, updated_at
+        FROM assets WHERE image_uri IS NOT NULL AND image_uri <> '';
+        INSERT INTO attachments (id, entity_type, entity_id, file_uri, file_type, sort_order, created_at, updated_at)
+        SELECT lower(hex(randomblob(16))), 'asset', id, manual_uri,
+               CASE WHEN lower(manual_uri) LIKE '%.pdf' THEN 'pdf' ELSE 'image' END,
+               1, created_at, updated_at
+        FROM assets WHERE manual_uri IS NOT NULL AND manual_uri <> '';
+        DROP TRIGGER IF EXISTS change_log_expenses_update;
+        DROP TRIGGER IF EXISTS change_log_assets_update;
+        ALTER TABLE expenses DROP COLUMN receipt_uri;
+        ALTER TABLE assets DROP COLUMN image_uri;
+        ALTER TABLE assets DROP COLUMN manual_uri;
+        ${V13_CHANGE_LOG_SQL}
+      `);
+    },
+  },
+  {
+    version: 14,
+    description: 'Add custom fields and search their values',
+    up: async database => {
+      // The search triggers of records with custom fields are created again
+      // to index their values
+      await database.execAsync(`
+        ${V14_CUSTOM_FIELDS_SQL}
+        DROP TRIGGER IF EXISTS search_properties_insert;
+        DROP TRIGGER IF EXISTS search_properties_update;
+        DROP TRIGGER IF EXISTS search_rooms_insert;
+        DROP TRIGGER IF EXISTS search_rooms_update;
+        DROP TRIGGER IF EXISTS search_assets_insert;
+        DROP TRIGGER IF EXISTS search_assets_update;
+        DROP TRIGGER IF EXISTS search_expenses_insert;
+        DROP TRIGGER IF EXISTS search_expenses_update;
+        DROP TRIGGER IF EXISTS search_workers_insert;
+        DROP TRIGGER IF EXISTS search_workers_update;
+        ${V14_SEARCH_INDEX_SQL}
+      `);
+    },
+  },
+  {
+    version: 15,
+    description: 'Add budgets',
+    up: async database => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS budgets (
+          id TEXT PRIMARY KEY,
+          property_id TEXT NOT NULL,
+          expense_type TEXT,
+          category TEXT,
+          period TEXT NOT NULL,
+          amount REAL NOT NULL,
+          rollover INTEGER NOT NULL DEFAULT 0,
+          start_date TEXT NOT NULL,
+          alerted_period TEXT,
+          alerted_percent INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_budgets_property ON budgets(property_id);
+      `);
+    },
+  },
+  {
+    version: 16,
+    description: 'Add a currency to amounts and exchange rates',
+    up: async database => {
+      await addColumn(database, 'expenses', 'currency', 'TEXT');
+      await addColumn(database, 'assets', 'purchase_currency', 'TEXT');
+      await addColumn(database, 'recurring_templates', 'currency', 'TEXT');
+      await addColumn(database, 'renovation_costs', 'currency', 'TEXT');
+      // Amounts so far were all in the app currency. The change log's update
+      // triggers are created again afterwards to record the new columns.
+      await database.execAsync(`
+        UPDATE expenses SET currency = (SELECT currency FROM app_settings LIMIT 1) WHERE currency IS NULL;
+        UPDATE assets SET purchase_currency = (SELECT currency FROM app_settings LIMIT 1)
+        WHERE purchase_currency IS NULL AND purchase_price IS NOT NULL;
+        UPDATE recurring_templates SET currency = (SELECT currency FROM app_settings LIMIT 1) WHERE currency IS NULL;
+        UPDATE renovation_costs SET currency = (SELECT currency FROM app_settings LIMIT 1) WHERE currency IS NULL;
+        DROP TRIGGER IF EXISTS change_log_expenses_update;
+        DROP TRIGGER IF EXISTS change_log_assets_update;
+        ${V16_CHANGE_LOG_SQL}
+        CREATE TABLE IF NOT EXISTS exchange_rates (
+          id TEXT PRIMARY KEY,
+          from_currency TEXT NOT NULL,
+          to_currency TEXT NOT NULL,
+          rate REAL NOT NULL,
+          date TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_pair ON exchange_rates(from_currency, to_currency, date);
+      `);
+    },
+  },
+  {
+    version: 17,
+    description: 'Add household members, expense splits and settlements',
+    up: async database => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS household_members (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        DROP TRIGGER IF EXISTS change_log_expenses_update;
+      `);
+      // The change log's update trigger is created again afterwards to
+      // record the new column
+      await addColumn(database, 'expenses', 'paid_by_member_id', 'TEXT REFERENCES household_members(id) ON DELETE SET NULL');
+      await database.execAsync(`
+        ${V17_CHANGE_LOG_SQL}
+        CREATE TABLE IF NOT EXISTS expense_splits (
+          id TEXT PRIMARY KEY,
+          expense_id TEXT NOT NULL,
+          property_id TEXT NOT NULL,
+          room_id TEXT,
+          member_id TEXT,
+          percent REAL,
+          amount REAL,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          deleted_at TEXT,
+          FOREIGN KEY (expense_id) REFERENCES expenses(id) ON DELETE CASCADE,
+          FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+          FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL,
+          FOREIGN KEY (member_id) REFERENCES household_members(id) ON DELETE SET NULL
+        );
+        CREATE TABLE IF NOT EXISTS settlements (
+          id TEXT PRIMARY KEY,
+          from_member_id TEXT NOT NULL,
+          to_member_id TEXT NOT NULL,
+          amount REAL NOT NULL,
+          currency TEXT,
+          date TEXT NOT NULL,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (from_member_id) REFERENCES household_members(id) ON DELETE CASCADE,
+          FOREIGN KEY (to_member_id) REFERENCES household_members(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_expense_splits_expense ON expense_splits(expense_id);
+        CREATE INDEX IF NOT EXISTS idx_expense_splits_property ON expense_splits(property_id);
+      `);
+    },
+  },
+  {
+    version: 18,
+    description: 'Add tenants, leases and rent payments',
+    up: async database => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS tenants (
+          id TEXT PRIMARY KEY,
+          property_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          phone TEXT,
+          email TEXT,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          deleted_at TEXT,
+          FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
+        );
+        CREATE TABLE IF NOT EXISTS leases (
+          id TEXT PRIMARY KEY,
+          property_id TEXT NOT NULL,
+          tenant_id TEXT NOT NULL,
+          start_date TEXT NOT NULL,
+          end_date TEXT,
+          rent_amount REAL NOT NULL,
+          currency TEXT,
+          rent_frequency TEXT NOT NULL DEFAULT 'monthly',
+          rent_due_day INTEGER NOT NULL DEFAULT 1,
+          deposit_amount REAL,
+          renewal_date TEXT,
+          grace_days INTEGER NOT NULL DEFAULT 5,
+          reminder_days_before INTEGER NOT NULL DEFAULT 3,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          deleted_at TEXT,
+          FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+          FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+        );
+        CREATE TABLE IF NOT EXISTS rent_payments (
+          id TEXT PRIMARY KEY,
+          lease_id TEXT NOT NULL,
+          due_date TEXT NOT NULL,
+          amount REAL NOT NULL,
+          currency TEXT,
+          paid_date TEXT NOT NULL,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          deleted_at TEXT,
+          FOREIGN KEY (lease_id) REFERENCES leases(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_tenants_property ON tenants(property_id);
+        CREATE INDEX IF NOT EXISTS idx_leases_property ON leases(property_id);
+        CREATE INDEX IF NOT EXISTS idx_leases_tenant ON leases(tenant_id);
+        CREATE INDEX IF NOT EXISTS idx_rent_payments_lease ON rent_payments(lease_id, due_date);
+        CREATE INDEX IF NOT EXISTS idx_rent_payments_paid ON rent_payments(paid_date);
+      `);
+    },
+  },
+  {
+    version: 19,
+    description: 'Add tax treatments and the fiscal year start',
+    up: async database => {
+      // The change log's update trigger is created again afterwards to
+      // record the new column
+      await database.execAsync('DROP TRIGGER IF EXISTS change_log_expenses_update;');
+      await addColumn(database, 'expenses', 'tax_treatment', 'TEXT');
+      await addColumn(database, 'renovation_costs', 'tax_treatment', 'TEXT');
+      await addColumn(database, 'app_settings', 'fiscal_year_start_month', 'INTEGER NOT NULL DEFAULT 1');
+      await addColumn(database, 'app_settings', 'fiscal_year_start_day', 'INTEGER NOT NULL DEFAULT 1');
+      await database.execAsync(V19_CHANGE_LOG_SQL);
+    },
+  },
+  {
+    version: 20,
+    description: 'Add a reporting currency and add up worker totals when read',
+    up: async database => {
+      await addColumn(database, 'app_settings', 'reporting_currency', 'TEXT');
+      // Totals kept up to date by hand added amounts of every currency together
+      if (await hasColumn(database, 'workers', 'total_paid')) {
+        await database.execAsync('ALTER TABLE workers DROP COLUMN total_paid');
+      }
+    },
+  },
+  {
+    version: 21,
+    description: 'Index expenses by date and id for the expense list',
+    up: async database => {
+      await database.execAsync(
+        'CREATE INDEX IF NOT EXISTS idx_expenses_date_id ON expenses(date, id)'
+      );
+    },
+  },
+];
+
+async function getUserVersion(database: SQLite.SQLiteDatabase): Promise<number> {
+  const row = await database.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+}
+
+async function setUserVersion(database: SQLite.SQLiteDatabase, version: number): Promise<void> {
+  await database.execAsync(`PRAGMA user_version = ${version}`);
+}
+
+async function runInTransaction(
+  database: SQLite.SQLiteDatabase,
+  fn: () => Promise<void>
+): Promise<void> {
+  await database.execAsync('BEGIN TRANSACTION');
+  try {
+    await fn();
+    await database.execAsync('COMMIT');
+  } catch (error) {
+    await database.execAsync('ROLLBACK');
+    throw error;
+  }
+}
+
+// Brings the database to SCHEMA_VERSION. A new database gets the current
+// schema in one go; an existing one runs each pending migration in its own
+// transaction, so a failed step leaves it at the last version that applied.
+export async function migrateDatabase(
+  database: SQLite.SQLiteDatabase,
+  log: (message: string) => void = console.log
+): Promise<number[]> {
+  let version = await getUserVersion(database);
+
+  if (version === 0) {
+    const existing = await database.getFirstAsync<{ name: string }>(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'properties'"
+    );
+    if (!existing) {
+      await runInTransaction(database, async () => {
+        await database.execAsync(CREATE_TABLES_SQL);
+        await setUserVersion(database, SCHEMA_VERSION);
+      });
+      log(`Created database schema v${SCHEMA_VERSION}`);
+      return [];
+    }
+    // The first release never set user_version
+    version = 1;
+  }
+
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Database schema v${version} is newer than this app (v${SCHEMA_VERSION})`);
+  }
+
+  const applied: number[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) continue;
+    await runInTransaction(database, async () => {
+      await migration.up(database);
+      await setUserVersion(database, migration.version);
+    });
+    log(`Applied migration v${migration.version}: ${migration.description}`);
+    applied.push(migration.version);
+  }
+  return applied;
+}
+
+// Tables, columns, foreign keys, indexes and triggers, in a form that ignores
+// the order columns were added in. Indexes and triggers are compared by their
+// SQL, so one left as an older step created it shows up too.
+async function describeSchema(database: SQLite.SQLiteDatabase): Promise<Map<string, string>> {
+  const shape = new Map<string, string>();
+  const objects = await database.getAllAsync<{ type: string; name: string; sql: string | null }>(
+    "SELECT type, name, sql FROM sqlite_master WHERE name NOT LIKE 'sqlite_%'"
+  );
+  for (const { type, name, sql } of objects) {
+    if (type !== 'table') {
+      shape.set(`${type} ${name}`, (sql ?? '').replace(/\s+/g, ' ').trim());
+      continue;
+    }
+    const columns = await database.getAllAsync<{ name: string; type: string; notnull: number; dflt_value: string | null }>(
+      `PRAGMA table_info(${name})`
+    );
+    const keys = await database.getAllAsync<{ table: string; from: string; to: string; on_delete: string }>(
+      `PRAGMA foreign_key_list(${name})`
+    );
+    for (const col of columns) {
+      shape.set(`column ${name}.${col.name}`, `${col.type} notnull=${col.notnull} default=${col.dflt_value}`);
+    }
+    for (const key of keys) {
+      shape.set(`foreign key ${name}.${key.from}`, `${key.table}(${key.to}) on delete ${key.on_delete}`);
+    }
+  }
+  return shape;
+}
+
+// Problems found building the schema of every past version and migrating it
+// to the current one, compared with a database created from scratch
+export async function verifyMigrations(): Promise<string[]> {
+  const problems: string[] = [];
+  const last = MIGRATIONS[MIGRATIONS.length - 1];
+  if (last?.version !== SCHEMA_VERSION) {
+    problems.push(`Last migration is v${last?.version}, schema is v${SCHEMA_VERSION}`);
+  }
+  MIGRATIONS.forEach((migration, index) => {
+    if (migration.version !== index + 2) {
+      problems.push(`Migration v${migration.version} is out of order`);
+    }
+  });
+
+  const fresh = await SQLite.openDatabaseAsync(':memory:');
+  try {
+    await migrateDatabase(fresh, () => {});
+    const expected = await describeSchema(fresh);
+
+    for (let version = 1; version <= SCHEMA_VERSION; version++) {
+      const database = await SQLite.openDatabaseAsync(':memory:');
+      try {
+        await database.execAsync(SCHEMA_V1_SQL);
+        for (const migration of MIGRATIONS) {
+          if (migration.version <= version) await migration.up(database);
+        }
+        await setUserVersion(database, version);
+
+        await migrateDatabase(database, () => {});
+        if ((await getUserVersion(database)) !== SCHEMA_VERSION) {
+          problems.push(`v${version}: ended at v${await getUserVersion(database)}`);
+        }
+        const actual = await describeSchema(database);
+        for (const [key, value] of expected) {
+          if (!actual.has(key)) {
+            problems.push(`v${version}: ${key} is missing`);
+          } else if (actual.get(key) !== value) {
+            problems.push(`v${version}: ${key} is ${actual.get(key)}, expected ${value}`);
+          }
+        }
+        for (const key of actual.keys()) {
+          if (!expected.has(key)) problems.push(`v${version}: unexpected ${key}`);
+        }
+      } catch (e) {
+        problems.push(`v${version}: ${(e as Error).message}`);
+      } finally {
+        await database.closeAsync();
+      }
+    }
+  } finally {
+    await fresh.closeAsync();
+  }
+
+  return problems;
+}
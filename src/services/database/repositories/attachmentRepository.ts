@@ -0,0 +1,112 @@
+import { Attachment, AttachmentDraft, AttachmentEntityType, UUID } from '../../../types';
+import { queryAll, queryFirst, execute, withTransaction } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+import { attachmentEntity } from '../entities';
+import { Row } from '../entity';
+
+function mapRowToAttachment(row: Row): Attachment {
+  return attachmentEntity.fromRow(row);
+}
+
+export const attachmentRepository = {
+  async getAll(): Promise<Attachment[]> {
+    const rows = await queryAll<Row>(
+      'SELECT * FROM attachments ORDER BY entity_type, entity_id, sort_order'
+    );
+    return rows.map(mapRowToAttachment);
+  },
+
+  async getByEntity(entityType: AttachmentEntityType, entityId: UUID): Promise<Attachment[]> {
+    const rows = await queryAll<Row>(
+      'SELECT * FROM attachments WHERE entity_type = ? AND entity_id = ? ORDER BY sort_order, created_at',
+      [entityType, entityId]
+    );
+    return rows.map(mapRowToAttachment);
+  },
+
+  async getById(id: UUID): Promise<Attachment | null> {
+    const row = await queryFirst<Row>('SELECT * FROM attachments WHERE id = ?', [id]);
+    return row ? mapRowToAttachment(row) : null;
+  },
+
+  // Adds the file after the record's other attachments
+  async create(data: Omit<Attachment, 'id' | 'sortOrder' | 'createdAt' | 'updatedAt'>): Promise<Attachment> {
+    attachmentEntity.assertValid(data);
+    const id = generateUUID();
+    const now = getCurrentISODate();
+
+    const last = await queryFirst<{ sort_order: number | null }>(
+      'SELECT MAX(sort_order) as sort_order FROM attachments WHERE entity_type = ? AND entity_id = ?',
+      [data.entityType, data.entityId]
+    );
+    const sortOrder = last?.sort_order === null || last?.sort_order === undefined ? 0 : last.sort_order + 1;
+
+    const { sql, params } = attachmentEntity.toInsert({ ...data, id, sortOrder, createdAt: now, updatedAt: now });
+    await execute(sql, params);
+
+    const attachment = await this.getById(id);
+    if (!attachment) throw new Error('Failed to create attachment');
+    return attachment;
+  },
+
+  async updateCaption(id: UUID, caption: string | undefined): Promise<Attachment> {
+    const { sql, params } = attachmentEntity.toUpdate(id, {
+      caption: caption?.trim() ?? '',
+      updatedAt: getCurrentISODate(),
+    });
+    await execute(sql, params);
+
+    const attachment = await this.getById(id);
+    if (!attachment) throw new Error('Attachment not found');
+    return attachment;
+  },
+
+  // Puts a record's attachments in the order of the given ids
+  async reorder(ids: UUID[]): Promise<void> {
+    const now = getCurrentISODate();
+    await withTransaction(async () => {
+      for (const [index, id] of ids.entries()) {
+        await execute('UPDATE attachments SET sort_order = ?, updated_at = ? WHERE id = ?', [index, now, id]);
+      }
+    });
+  },
+
+  // Attachments are not kept in the trash; the file itself is left for the
+  // storage screen's cleanup
+  async delete(id: UUID): Promise<void> {
+    await execute('DELETE FROM attachments WHERE id = ?', [id]);
+  },
+
+  // Makes a record's attachments match the drafts of a form: removed ones
+  // are deleted, kept ones take their new caption and position, and new
+  // ones are added
+  async saveDrafts(entityType: AttachmentEntityType, entityId: UUID, drafts: AttachmentDraft[]): Promise<void> {
+    const existing = await this.getByEntity(entityType, entityId);
+    const keptIds = new Set(drafts.map(draft => draft.id).filter(Boolean));
+    const now = getCurrentISODate();
+
+    await withTransaction(async () => {
+      for (const attachment of existing) {
+        if (!keptIds.has(attachment.id)) {
+          await execute('DELETE FROM attachments WHERE id = ?', [attachment.id]);
+        }
+      }
+      for (const [sortOrder, draft] of drafts.entries()) {
+        if (draft.id) {
+          const { sql, params } = attachmentEntity.toUpdate(draft.id, {
+            caption: draft.caption?.trim() ?? '',
+            sortOrder,
+            updatedAt: now,
+          });
+          await execute(sql, params);
+          continue;
+        }
+        const data = { entityType, entityId, fileUri: draft.fileUri, fileType: draft.fileType, caption: draft.caption?.trim() };
+        attachmentEntity.assertValid(data);
+        const { sql, params } = attachmentEntity.toInsert({ ...data, id: generateUUID(), sortOrder, createdAt: now, updatedAt: now });
+        await execute(sql, params);
+      }
+    });
+  },
+};
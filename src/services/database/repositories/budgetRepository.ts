@@ -0,0 +1,247 @@
+import {
+  differenceInCalendarMonths,
+  differenceInCalendarYears,
+  endOfMonth,
+  endOfYear,
+  format,
+  max,
+  min,
+  parseISO,
+  startOfMonth,
+  startOfYear,
+} from 'date-fns';
+import { Budget, BudgetPeriod, BudgetReportRow, BudgetStatus, UUID } from '../../../types';
+import { queryAll, queryFirst, execute } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+import { budgetEntity } from '../entities';
+import { Row } from '../entity';
+import { toReportingCurrencySql } from './exchangeRateRepository';
+import { EXPENSE_SHARES_SQL } from './expenseSplitRepository';
+
+type BudgetRow = Row & { property_name: string };
+
+function mapRowToBudget(row: Row): Budget {
+  return budgetEntity.fromRow(row);
+}
+
+function startOfPeriod(period: BudgetPeriod, date: Date): Date {
+  return period === 'monthly' ? startOfMonth(date) : startOfYear(date);
+}
+
+function endOfPeriod(period: BudgetPeriod, date: Date): Date {
+  return period === 'monthly' ? endOfMonth(date) : endOfYear(date);
+}
+
+// Whole periods from the first to the one `date` falls in, both included
+function countPeriods(period: BudgetPeriod, first: Date, date: Date): number {
+  const count = period === 'monthly'
+    ? differenceInCalendarMonths(date, first)
+    : differenceInCalendarYears(date, first);
+  return Math.max(count + 1, 0);
+}
+
+function toPeriodKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Budgets are a category only within an expense type
+function cleanScope<T extends Partial<Budget>>(data: T): T {
+  return data.expenseType ? data : { ...data, category: undefined };
+}
+
+// What the budget's expenses add up to between two local times, in the
+// reporting currency like the budget. Of a split expense only the property's share
+// counts. Dates are stored in UTC, as expenses are, so the range is
+// converted the same way.
+async function getSpent(budget: Budget, from: Date, to: Date): Promise<number> {
+  if (to < from) return 0;
+  const conditions = ['sh.property_id = ?', 'e.date >= ?', 'e.date <= ?', 'e.deleted_at IS NULL'];
+  const params: string[] = [budget.propertyId, from.toISOString(), to.toISOString()];
+  if (budget.expenseType) {
+    conditions.push('e.type = ?');
+    params.push(budget.expenseType);
+  }
+  if (budget.category) {
+    conditions.push('e.category = ?');
+    params.push(budget.category);
+  }
+
+  const amount = toReportingCurrencySql('sh.amount', 'e.currency', 'e.date');
+  const result = await queryFirst<{ total: number }>(
+    `SELECT COALESCE(SUM(${amount}), 0) as total
+     FROM expenses e JOIN ${EXPENSE_SHARES_SQL} sh ON sh.expense_id = e.id
+     WHERE ${conditions.join(' AND ')}`,
+    params
+  );
+  return result?.total ?? 0;
+}
+
+// Budgets of properties outside the trash
+async function getRows(propertyId?: UUID): Promise<BudgetRow[]> {
+  return queryAll<BudgetRow>(
+    `SELECT b.*, p.name AS property_name FROM budgets b
+     JOIN properties p ON p.id = b.property_id AND p.deleted_at IS NULL
+     ${propertyId ? 'WHERE b.property_id = ?' : ''}
+     ORDER BY p.name, b.period, b.expense_type, b.category`,
+    propertyId ? [propertyId] : []
+  );
+}
+
+export const budgetRepository = {
+  async getAll(): Promise<Budget[]> {
+    const rows = await queryAll<Row>('SELECT * FROM budgets ORDER BY created_at');
+    return rows.map(mapRowToBudget);
+  },
+
+  async getByPropertyId(propertyId: UUID): Promise<Budget[]> {
+    const rows = await queryAll<Row>(
+      'SELECT * FROM budgets WHERE property_id = ? ORDER BY period, expense_type, category',
+      [propertyId]
+    );
+    return rows.map(mapRowToBudget);
+  },
+
+  async getById(id: UUID): Promise<Budget | null> {
+    const row = await queryFirst<Row>('SELECT * FROM budgets WHERE id = ?', [id]);
+    return row ? mapRowToBudget(row) : null;
+  },
+
+  // The first period is the one the budget is created in unless given, as
+  // when restoring a backup
+  async create(
+    data: Omit<Budget, 'id' | 'startDate' | 'alertedPeriod' | 'alertedPercent' | 'createdAt' | 'updatedAt'> & {
+      startDate?: string;
+    }
+  ): Promise<Budget> {
+    const budget = cleanScope(data);
+    budgetEntity.assertValid(budget);
+    const id = generateUUID();
+    const now = getCurrentISODate();
+
+    const { sql, params } = budgetEntity.toInsert({
+      ...budget,
+      id,
+      startDate: data.startDate ?? toPeriodKey(startOfPeriod(data.period, new Date())),
+      alertedPercent: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await execute(sql, params);
+
+    const created = await this.getById(id);
+    if (!created) throw new Error('Failed to create budget');
+    return created;
+  },
+
+  // Sets everything the form edits, so a type or category that was cleared
+  // is cleared here too. The alerts for the current period are reset, so
+  // they are sent again against the new figures. A budget moved to another
+  // period starts over from the current one, as rollover would otherwise
+  // count periods from a boundary of the old one.
+  async update(
+    id: UUID,
+    data: Pick<Budget, 'expenseType' | 'category' | 'period' | 'amount' | 'rollover'>
+  ): Promise<Budget> {
+    const changes = cleanScope(data);
+    budgetEntity.assertValid(changes, { partial: true });
+    const current = await this.getById(id);
+    if (!current) throw new Error('Budget not found');
+    const periodChanged = changes.period !== current.period;
+
+    await execute(
+      `UPDATE budgets SET expense_type = ?, category = ?, period = ?, amount = ?, rollover = ?,
+       start_date = ?, alerted_period = ?, alerted_percent = 0, updated_at = ? WHERE id = ?`,
+      [
+        changes.expenseType || null,
+        changes.category || null,
+        changes.period,
+        changes.amount,
+        changes.rollover ? 1 : 0,
+        periodChanged ? toPeriodKey(startOfPeriod(changes.period, new Date())) : current.startDate,
+        periodChanged ? null : current.alertedPeriod ?? null,
+        getCurrentISODate(),
+        id,
+      ]
+    );
+
+    const budget = await this.getById(id);
+    if (!budget) throw new Error('Budget not found');
+    return budget;
+  },
+
+  async delete(id: UUID): Promise<void> {
+    await execute('DELETE FROM budgets WHERE id = ?', [id]);
+  },
+
+  // Each budget's current period. With rollover, every earlier period since
+  // the start adds what was left of it, or takes away what was overspent;
+  // earlier periods are counted at the budget's current amount.
+  async getStatuses(propertyId?: UUID, date: Date = new Date()): Promise<BudgetStatus[]> {
+    const rows = await getRows(propertyId);
+    const statuses: BudgetStatus[] = [];
+
+    for (const row of rows) {
+      const budget = mapRowToBudget(row);
+      const periodStart = startOfPeriod(budget.period, date);
+      const periodEnd = endOfPeriod(budget.period, date);
+      const spent = await getSpent(budget, periodStart, periodEnd);
+
+      let carriedOver = 0;
+      const firstStart = parseISO(budget.startDate);
+      if (budget.rollover && firstStart < periodStart) {
+        const earlierPeriods = countPeriods(budget.period, firstStart, periodStart) - 1;
+        const earlierSpent = await getSpent(budget, firstStart, new Date(periodStart.getTime() - 1));
+        carriedOver = earlierPeriods * budget.amount - earlierSpent;
+      }
+
+      const available = budget.amount + carriedOver;
+      statuses.push({
+        budget,
+        propertyName: row.property_name,
+        periodStart: toPeriodKey(periodStart),
+        periodEnd: toPeriodKey(periodEnd),
+        carriedOver,
+        available,
+        spent,
+        // Nothing left to spend counts as fully used once something is
+        // spent, so a deficit carried over does not alert on its own
+        percent: spent <= 0 ? 0 : available > 0 ? (spent / available) * 100 : 100,
+      });
+    }
+    return statuses;
+  },
+
+  // Budgeted against spent in a year, through the current period when the
+  // year is not over. Periods before a budget started are left out.
+  async getYearReport(year: number, propertyId?: UUID, date: Date = new Date()): Promise<BudgetReportRow[]> {
+    const rows = await getRows(propertyId);
+    const report: BudgetReportRow[] = [];
+
+    for (const row of rows) {
+      const budget = mapRowToBudget(row);
+      const yearStart = new Date(year, 0, 1);
+      const from = max([yearStart, parseISO(budget.startDate)]);
+      const to = min([endOfYear(yearStart), endOfPeriod(budget.period, date)]);
+      const periods = from <= to ? countPeriods(budget.period, from, to) : 0;
+      if (periods === 0) continue;
+
+      report.push({
+        budget,
+        propertyName: row.property_name,
+        periods,
+        budgeted: periods * budget.amount,
+        spent: await getSpent(budget, from, to),
+      });
+    }
+    return report;
+  },
+
+  // Records the highest alert sent for the period
+  async markAlerted(id: UUID, periodStart: string, percent: number): Promise<void> {
+    await execute(
+      'UPDATE budgets SET alerted_period = ?, alerted_percent = ? WHERE id = ?',
+      [periodStart, percent, id]
+    );
+  },
+};
@@ -0,0 +1,154 @@
+import { ChangeAction, ChangeLogEntry, FieldChange, RevertResult, UUID } from '../../../types';
+import { queryAll, queryFirst, execute } from '../database';
+import { CHANGE_LOG_COLUMNS } from '../schema';
+import { getCurrentISODate } from '../../../utils/date';
+
+interface ChangeLogRow {
+  id: string;
+  table_name: string;
+  record_id: string;
+  action: string;
+  changes: string;
+  device_id: string;
+  changed_at: string;
+}
+
+type ColumnValue = string | number | null;
+
+// Id columns shown by the name of the record they point to
+const REFERENCE_COLUMNS: Record<string, string> = {
+  property_id: 'properties',
+  room_id: 'rooms',
+  asset_id: 'assets',
+  worker_id: 'workers',
+  assigned_worker_id: 'workers',
+  recurring_template_id: 'recurring_templates',
+  paid_by_member_id: 'household_members',
+};
+
+// Chunked like the trash, to stay under SQLite's bound parameter limit
+const LOOKUP_CHUNK = 500;
+
+function parseChanges(value: string): FieldChange[] {
+  try {
+    const parsed = JSON.parse(value) as Record<string, [ColumnValue, ColumnValue]>;
+    return Object.entries(parsed).map(([field, [oldValue, newValue]]) => ({ field, oldValue, newValue }));
+  } catch {
+    console.warn('Ignoring malformed change log entry:', value);
+    return [];
+  }
+}
+
+function mapRowToEntry(row: ChangeLogRow, deviceId: string): ChangeLogEntry {
+  return {
+    id: row.id,
+    tableName: row.table_name,
+    recordId: row.record_id,
+    action: row.action as ChangeAction,
+    changes: parseChanges(row.changes),
+    deviceId: row.device_id,
+    isThisDevice: row.device_id === deviceId,
+    changedAt: row.changed_at,
+  };
+}
+
+async function getDeviceId(): Promise<string> {
+  const row = await queryFirst<{ device_id: string | null }>('SELECT device_id FROM app_settings LIMIT 1');
+  return row?.device_id ?? '';
+}
+
+// Names of the records the id columns of these entries point to, including
+// records that are in the trash
+async function addReferenceLabels(entries: ChangeLogEntry[]): Promise<void> {
+  const idsByTable = new Map<string, Set<string>>();
+  for (const entry of entries) {
+    for (const change of entry.changes) {
+      const table = REFERENCE_COLUMNS[change.field];
+      if (!table) continue;
+      const ids = idsByTable.get(table) ?? new Set<string>();
+      for (const value of [change.oldValue, change.newValue]) {
+        if (typeof value === 'string' && value !== '') ids.add(value);
+      }
+      idsByTable.set(table, ids);
+    }
+  }
+
+  const names = new Map<string, string>();
+  for (const [table, idSet] of idsByTable) {
+    const ids = Array.from(idSet);
+    for (let i = 0; i < ids.length; i += LOOKUP_CHUNK) {
+      const batch = ids.slice(i, i + LOOKUP_CHUNK);
+      const rows = await queryAll<{ id: string; name: string }>(
+        `SELECT id, name FROM ${table} WHERE id IN (${batch.map(() => '?').join(', ')})`,
+        batch
+      );
+      for (const row of rows) names.set(row.id, row.name);
+    }
+  }
+
+  for (const entry of entries) {
+    for (const change of entry.changes) {
+      if (!REFERENCE_COLUMNS[change.field]) continue;
+      if (typeof change.oldValue === 'string') change.oldLabel = names.get(change.oldValue);
+      if (typeof change.newValue === 'string') change.newLabel = names.get(change.newValue);
+    }
+  }
+}
+
+export const changeLogRepository = {
+  // Changes to one record, newest first
+  async getByRecord(table: string, recordId: UUID): Promise<ChangeLogEntry[]> {
+    const [rows, deviceId] = await Promise.all([
+      queryAll<ChangeLogRow>(
+        `SELECT * FROM change_log WHERE table_name = ? AND record_id = ?
+         ORDER BY changed_at DESC, rowid DESC`,
+        [table, recordId]
+      ),
+      getDeviceId(),
+    ]);
+    const entries = rows.map(row => mapRowToEntry(row, deviceId));
+    await addReferenceLabels(entries);
+    return entries;
+  },
+
+  async getById(id: UUID): Promise<ChangeLogEntry | null> {
+    const row = await queryFirst<ChangeLogRow>('SELECT * FROM change_log WHERE id = ?', [id]);
+    return row ? mapRowToEntry(row, await getDeviceId()) : null;
+  },
+
+  // Sets the columns of an update back to their old values. A column that
+  // has been changed again since is skipped rather than overwritten. The
+  // revert is logged as a change of its own.
+  async revert(id: UUID): Promise<RevertResult> {
+    const entry = await this.getById(id);
+    if (!entry) throw new Error('Change not found');
+    if (entry.action !== 'update') throw new Error('Only updates can be reverted');
+
+    const columns = CHANGE_LOG_COLUMNS[entry.tableName as keyof typeof CHANGE_LOG_COLUMNS];
+    if (!columns) throw new Error(`Changes to ${entry.tableName} cannot be reverted`);
+
+    const record = await queryFirst<Record<string, ColumnValue>>(
+      `SELECT * FROM ${entry.tableName} WHERE id = ? AND deleted_at IS NULL`,
+      [entry.recordId]
+    );
+    if (!record) throw new Error('Record not found');
+
+    const result: RevertResult = { reverted: [], skipped: [] };
+    const reverted: FieldChange[] = [];
+    for (const change of entry.changes) {
+      if (columns.includes(change.field) && record[change.field] === change.newValue) {
+        reverted.push(change);
+        result.reverted.push(change.field);
+      } else {
+        result.skipped.push(change.field);
+      }
+    }
+    if (reverted.length === 0) return result;
+
+    await execute(
+      `UPDATE ${entry.tableName} SET ${reverted.map(change => `${change.field} = ?`).join(', ')}, updated_at = ? WHERE id = ?`,
+      [...reverted.map(change => change.oldValue), getCurrentISODate(), entry.recordId]
+    );
+    return result;
+  },
+};
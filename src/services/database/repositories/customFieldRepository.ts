@@ -0,0 +1,104 @@
+import { CustomFieldDefinition, CustomFieldEntityType, UUID } from '../../../types';
+import { queryAll, queryFirst, execute } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+import { notifyTablesChanged } from '../changes';
+import { customFieldDefinitionEntity } from '../entities';
+import { Row } from '../entity';
+
+function mapRowToDefinition(row: Row): CustomFieldDefinition {
+  return customFieldDefinitionEntity.fromRow(row);
+}
+
+// Select options as entered: trimmed, without blanks or repeats
+function cleanOptions(options: string[]): string[] {
+  return [...new Set(options.map(option => option.trim()).filter(Boolean))];
+}
+
+export const customFieldRepository = {
+  async getAll(): Promise<CustomFieldDefinition[]> {
+    const rows = await queryAll<Row>(
+      'SELECT * FROM custom_field_definitions ORDER BY entity_type, sort_order, name'
+    );
+    return rows.map(mapRowToDefinition);
+  },
+
+  async getByEntityType(entityType: CustomFieldEntityType): Promise<CustomFieldDefinition[]> {
+    const rows = await queryAll<Row>(
+      'SELECT * FROM custom_field_definitions WHERE entity_type = ? ORDER BY sort_order, name',
+      [entityType]
+    );
+    return rows.map(mapRowToDefinition);
+  },
+
+  async getById(id: UUID): Promise<CustomFieldDefinition | null> {
+    const row = await queryFirst<Row>('SELECT * FROM custom_field_definitions WHERE id = ?', [id]);
+    return row ? mapRowToDefinition(row) : null;
+  },
+
+  // Names are unique per record type, ignoring case
+  async isNameTaken(entityType: CustomFieldEntityType, name: string, exceptId?: UUID): Promise<boolean> {
+    const row = await queryFirst<{ id: string }>(
+      'SELECT id FROM custom_field_definitions WHERE entity_type = ? AND LOWER(name) = LOWER(?) AND id IS NOT ?',
+      [entityType, name.trim(), exceptId ?? null]
+    );
+    return row !== null;
+  },
+
+  // Adds the field after the other fields of its record type
+  async create(
+    data: Omit<CustomFieldDefinition, 'id' | 'sortOrder' | 'createdAt' | 'updatedAt'>
+  ): Promise<CustomFieldDefinition> {
+    const definition = {
+      ...data,
+      name: data.name.trim(),
+      options: data.fieldType === 'select' ? cleanOptions(data.options) : [],
+    };
+    customFieldDefinitionEntity.assertValid(definition);
+    const id = generateUUID();
+    const now = getCurrentISODate();
+
+    const last = await queryFirst<{ sort_order: number | null }>(
+      'SELECT MAX(sort_order) as sort_order FROM custom_field_definitions WHERE entity_type = ?',
+      [data.entityType]
+    );
+    const sortOrder = (last?.sort_order ?? -1) + 1;
+
+    const { sql, params } = customFieldDefinitionEntity.toInsert({ ...definition, id, sortOrder, createdAt: now, updatedAt: now });
+    await execute(sql, params);
+
+    const created = await this.getById(id);
+    if (!created) throw new Error('Failed to create custom field');
+    return created;
+  },
+
+  // The type of a field is fixed once created, as values were entered for it
+  async update(id: UUID, data: Partial<Pick<CustomFieldDefinition, 'name' | 'options'>>): Promise<CustomFieldDefinition> {
+    const changes = {
+      ...(data.name !== undefined && { name: data.name.trim() }),
+      ...(data.options !== undefined && { options: cleanOptions(data.options) }),
+    };
+    customFieldDefinitionEntity.assertValid(changes, { partial: true });
+    const { sql, params } = customFieldDefinitionEntity.toUpdate(id, { ...changes, updatedAt: getCurrentISODate() });
+    await execute(sql, params);
+
+    const definition = await this.getById(id);
+    if (!definition) throw new Error('Custom field not found');
+    return definition;
+  },
+
+  // Deletes the field and every value entered for it
+  async delete(id: UUID): Promise<void> {
+    await execute('DELETE FROM custom_field_definitions WHERE id = ?', [id]);
+    // The cascade does not show up as a write of its own
+    notifyTablesChanged(['custom_field_values']);
+  },
+
+  async getValueCount(id: UUID): Promise<number> {
+    const row = await queryFirst<{ count: number }>(
+      'SELECT COUNT(*) as count FROM custom_field_values WHERE definition_id = ?',
+      [id]
+    );
+    return row?.count ?? 0;
+  },
+};
@@ -0,0 +1,105 @@
+import { CustomFieldDefinition, CustomFieldEntityType, CustomFieldValue, CustomFieldValues, UUID } from '../../../types';
+import { queryAll, execute, withTransaction, Transaction } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+import { customFieldValueEntity } from '../entities';
+import { Row, ValidationError, ValidationIssue } from '../entity';
+import { customFieldRepository } from './customFieldRepository';
+
+function mapRowToValue(row: Row): CustomFieldValue {
+  return customFieldValueEntity.fromRow(row);
+}
+
+// The value as stored, or the problem with it. Numbers may be typed with a
+// decimal comma.
+function normalizeValue(definition: CustomFieldDefinition, value: string): string | Omit<ValidationIssue, 'field'> {
+  switch (definition.fieldType) {
+    case 'number': {
+      const normalized = value.replace(',', '.');
+      return Number.isFinite(Number(normalized)) ? normalized : { code: 'notNumber' };
+    }
+    case 'date':
+      return Number.isNaN(Date.parse(value)) ? { code: 'notDate' } : value;
+    case 'boolean':
+      return value === 'true' || value === 'false' ? value : { code: 'notBoolean' };
+    case 'select':
+      return definition.options.includes(value) ? value : { code: 'notAllowed', expected: definition.options.join(', ') };
+    case 'text':
+      return value;
+  }
+}
+
+export const customFieldValueRepository = {
+  async getAll(): Promise<CustomFieldValue[]> {
+    const rows = await queryAll<Row>('SELECT * FROM custom_field_values ORDER BY entity_type, entity_id');
+    return rows.map(mapRowToValue);
+  },
+
+  async getByEntity(entityType: CustomFieldEntityType, entityId: UUID): Promise<CustomFieldValues> {
+    const rows = await queryAll<Row>(
+      'SELECT * FROM custom_field_values WHERE entity_type = ? AND entity_id = ?',
+      [entityType, entityId]
+    );
+    return Object.fromEntries(rows.map(mapRowToValue).map(value => [value.definitionId, value.value]));
+  },
+
+  // Values of every record of a type, by record id, for exports
+  async getByEntityType(entityType: CustomFieldEntityType): Promise<Record<UUID, CustomFieldValues>> {
+    const rows = await queryAll<Row>('SELECT * FROM custom_field_values WHERE entity_type = ?', [entityType]);
+    const byEntity: Record<UUID, CustomFieldValues> = {};
+    for (const value of rows.map(mapRowToValue)) {
+      byEntity[value.entityId] = { ...byEntity[value.entityId], [value.definitionId]: value.value };
+    }
+    return byEntity;
+  },
+
+  // Makes a record's values match a form's: empty ones are removed and the
+  // rest are added or replaced. Nothing is written when a value does not
+  // suit its field; values of deleted fields are ignored. Inside a running
+  // transaction, pass it so the values are written as part of it.
+  async save(
+    entityType: CustomFieldEntityType,
+    entityId: UUID,
+    values: CustomFieldValues,
+    transaction?: Transaction
+  ): Promise<void> {
+    const definitions = await customFieldRepository.getByEntityType(entityType);
+    const issues: ValidationIssue[] = [];
+    const changes: Array<{ definitionId: UUID; value: string | null }> = [];
+
+    for (const definition of definitions) {
+      if (!(definition.id in values)) continue;
+      const value = values[definition.id].trim();
+      if (value === '') {
+        changes.push({ definitionId: definition.id, value: null });
+        continue;
+      }
+      const normalized = normalizeValue(definition, value);
+      if (typeof normalized === 'string') {
+        changes.push({ definitionId: definition.id, value: normalized });
+      } else {
+        issues.push({ field: definition.name, ...normalized });
+      }
+    }
+    if (issues.length > 0) throw new ValidationError(customFieldValueEntity.name, issues);
+
+    const now = getCurrentISODate();
+    await withTransaction(async () => {
+      for (const { definitionId, value } of changes) {
+        if (value === null) {
+          await execute('DELETE FROM custom_field_values WHERE definition_id = ? AND entity_id = ?', [definitionId, entityId]);
+          continue;
+        }
+        const data = { definitionId, entityType, entityId, value };
+        customFieldValueEntity.assertValid(data);
+        await execute(
+          `INSERT INTO custom_field_values (id, definition_id, entity_type, entity_id, value, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(definition_id, entity_id) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+           WHERE value <> excluded.value`,
+          [generateUUID(), definitionId, entityType, entityId, value, now, now]
+        );
+      }
+    }, transaction);
+  },
+};
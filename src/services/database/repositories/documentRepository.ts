@@ -2,6 +2,7 @@ import { Document, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
 
 interface DocumentRow {
   id: string;
@@ -34,14 +35,14 @@ function mapRowToDocument(row: DocumentRow): Document {
 export const documentRepository = {
   async getAll(): Promise<Document[]> {
     const rows = await queryAll<DocumentRow>(
-      'SELECT * FROM documents ORDER BY created_at DESC'
+      'SELECT * FROM documents WHERE deleted_at IS NULL ORDER BY created_at DESC'
     );
     return rows.map(mapRowToDocument);
   },
 
   async getByPropertyId(propertyId: UUID): Promise<Document[]> {
     const rows = await queryAll<DocumentRow>(
-      'SELECT * FROM documents WHERE property_id = ? ORDER BY created_at DESC',
+      'SELECT * FROM documents WHERE property_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
       [propertyId]
     );
     return rows.map(mapRowToDocument);
@@ -49,7 +50,7 @@ export const documentRepository = {
 
   async getByAssetId(assetId: UUID): Promise<Document[]> {
     const rows = await queryAll<DocumentRow>(
-      'SELECT * FROM documents WHERE asset_id = ? ORDER BY created_at DESC',
+      'SELECT * FROM documents WHERE asset_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
       [assetId]
     );
     return rows.map(mapRowToDocument);
@@ -57,7 +58,7 @@ export const documentRepository = {
 
   async getByWorkerId(workerId: UUID): Promise<Document[]> {
     const rows = await queryAll<DocumentRow>(
-      'SELECT * FROM documents WHERE worker_id = ? ORDER BY created_at DESC',
+      'SELECT * FROM documents WHERE worker_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
       [workerId]
     );
     return rows.map(mapRowToDocument);
@@ -65,7 +66,7 @@ export const documentRepository = {
 
   async getById(id: UUID): Promise<Document | null> {
     const row = await queryFirst<DocumentRow>(
-      'SELECT * FROM documents WHERE id = ?',
+      'SELECT * FROM documents WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToDocument(row) : null;
@@ -73,7 +74,7 @@ export const documentRepository = {
 
   async search(query: string, propertyId?: UUID): Promise<Document[]> {
     const searchQuery = `%${query}%`;
-    let sql = 'SELECT * FROM documents WHERE name LIKE ?';
+    let sql = 'SELECT * FROM documents WHERE name LIKE ? AND deleted_at IS NULL';
     const params: any[] = [searchQuery];
 
     if (propertyId) {
@@ -161,11 +162,11 @@ export const documentRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM documents WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('documents', id);
   },
 
   async getByType(type: Document['type'], propertyId?: UUID): Promise<Document[]> {
-    let sql = 'SELECT * FROM documents WHERE type = ?';
+    let sql = 'SELECT * FROM documents WHERE type = ? AND deleted_at IS NULL';
     const params: any[] = [type];
 
     if (propertyId) {
@@ -2,6 +2,7 @@ import { EmergencyShutoff, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
 
 interface EmergencyRow {
   id: string;
@@ -30,14 +31,14 @@ function mapRowToEmergency(row: EmergencyRow): EmergencyShutoff {
 export const emergencyRepository = {
   async getAll(): Promise<EmergencyShutoff[]> {
     const rows = await queryAll<EmergencyRow>(
-      'SELECT * FROM emergency_shutoffs ORDER BY type ASC'
+      'SELECT * FROM emergency_shutoffs WHERE deleted_at IS NULL ORDER BY type ASC'
     );
     return rows.map(mapRowToEmergency);
   },
 
   async getByPropertyId(propertyId: UUID): Promise<EmergencyShutoff[]> {
     const rows = await queryAll<EmergencyRow>(
-      'SELECT * FROM emergency_shutoffs WHERE property_id = ? ORDER BY type ASC',
+      'SELECT * FROM emergency_shutoffs WHERE property_id = ? AND deleted_at IS NULL ORDER BY type ASC',
       [propertyId]
     );
     return rows.map(mapRowToEmergency);
@@ -45,7 +46,7 @@ export const emergencyRepository = {
 
   async getById(id: UUID): Promise<EmergencyShutoff | null> {
     const row = await queryFirst<EmergencyRow>(
-      'SELECT * FROM emergency_shutoffs WHERE id = ?',
+      'SELECT * FROM emergency_shutoffs WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToEmergency(row) : null;
@@ -112,6 +113,6 @@ export const emergencyRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM emergency_shutoffs WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('emergency_shutoffs', id);
   },
 };
@@ -0,0 +1,158 @@
+import { format } from 'date-fns';
+import { ExchangeRate, UUID } from '../../../types';
+import { queryAll, queryFirst, execute, withTransaction } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+import { getCachedCurrency, getReportingCurrency } from '../../../utils/currency';
+import { exchangeRateEntity } from '../entities';
+import { Row } from '../entity';
+
+type RateData = Omit<ExchangeRate, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Converts an amount into the reporting currency, or returns null when no
+// stored rate converts its currency. A missing currency is the app currency.
+export type CurrencyConverter = (amount: number, currency: string | undefined, date: string) => number | null;
+
+// An amount with what converting it needs, as expenses have
+export interface ConvertibleAmount {
+  amount: number;
+  currency?: string;
+  date: string;
+}
+
+// Adds up amounts in the reporting currency, leaving out those no stored rate converts
+export function sumInReportingCurrency(amounts: ConvertibleAmount[], convert: CurrencyConverter): number {
+  return amounts.reduce((sum, item) => sum + (convert(item.amount, item.currency, item.date) ?? 0), 0);
+}
+
+function mapRowToExchangeRate(row: Row): ExchangeRate {
+  return exchangeRateEntity.fromRow(row);
+}
+
+function normalize(data: RateData): RateData {
+  return {
+    ...data,
+    fromCurrency: data.fromCurrency.trim().toUpperCase(),
+    toCurrency: data.toCurrency.trim().toUpperCase(),
+  };
+}
+
+const APP_CURRENCY_SQL = '(SELECT currency FROM app_settings LIMIT 1)';
+// Totals are in the reporting currency, which is the app currency unless one is chosen
+const REPORTING_CURRENCY_SQL = '(SELECT COALESCE(reporting_currency, currency) FROM app_settings LIMIT 1)';
+
+// SQL for an amount in the reporting currency, or NULL when no stored rate
+// converts it. A missing currency is the app currency. A pair's rate
+// applies from its date until the pair's next rate, and amounts from before
+// the first rate use the first one; a rate stored the other way round is
+// used inverted. Columns must be qualified with their table, as
+// exchange_rates has a date column of its own.
+export function toReportingCurrencySql(amount: string, currency: string, date: string): string {
+  const day = `date(${date}, 'localtime')`;
+  const from = `COALESCE(${currency}, ${APP_CURRENCY_SQL})`;
+  return `CASE WHEN ${from} = ${REPORTING_CURRENCY_SQL} THEN ${amount}
+    ELSE ${amount} * (
+      SELECT r.rate FROM (
+        SELECT x.rate AS rate, x.date AS date, CASE WHEN x.date <= ${day} THEN x.date END AS applies
+        FROM exchange_rates x WHERE x.from_currency = ${from} AND x.to_currency = ${REPORTING_CURRENCY_SQL}
+        UNION ALL
+        SELECT 1.0 / x.rate, x.date, CASE WHEN x.date <= ${day} THEN x.date END
+        FROM exchange_rates x WHERE x.from_currency = ${REPORTING_CURRENCY_SQL} AND x.to_currency = ${from}
+      ) r ORDER BY r.applies DESC, r.date LIMIT 1
+    ) END`;
+}
+
+// The rate toReportingCurrencySql would pick, from rates sorted by date
+function findRate(rates: ExchangeRate[], from: string, to: string, day: string): number | null {
+  let before: number | null = null;
+  let after: number | null = null;
+  for (const rate of rates) {
+    const value = rate.fromCurrency === from && rate.toCurrency === to
+      ? rate.rate
+      : rate.fromCurrency === to && rate.toCurrency === from ? 1 / rate.rate : null;
+    if (value === null) continue;
+    if (rate.date <= day) before = value;
+    else if (after === null) after = value;
+  }
+  return before ?? after;
+}
+
+export const exchangeRateRepository = {
+  async getAll(): Promise<ExchangeRate[]> {
+    const rows = await queryAll<Row>(
+      'SELECT * FROM exchange_rates ORDER BY date DESC, from_currency, to_currency'
+    );
+    return rows.map(mapRowToExchangeRate);
+  },
+
+  async getById(id: UUID): Promise<ExchangeRate | null> {
+    const row = await queryFirst<Row>('SELECT * FROM exchange_rates WHERE id = ?', [id]);
+    return row ? mapRowToExchangeRate(row) : null;
+  },
+
+  // A pair has one rate per day, so saving a rate for a pair and day that
+  // already has one replaces it
+  async save(data: RateData): Promise<ExchangeRate> {
+    const rate = normalize(data);
+    exchangeRateEntity.assertValid(rate);
+    const now = getCurrentISODate();
+
+    await execute(
+      `INSERT INTO exchange_rates (id, from_currency, to_currency, rate, date, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(from_currency, to_currency, date) DO UPDATE SET rate = excluded.rate, updated_at = excluded.updated_at`,
+      [generateUUID(), rate.fromCurrency, rate.toCurrency, rate.rate, rate.date, now, now]
+    );
+
+    const row = await queryFirst<Row>(
+      'SELECT * FROM exchange_rates WHERE from_currency = ? AND to_currency = ? AND date = ?',
+      [rate.fromCurrency, rate.toCurrency, rate.date]
+    );
+    if (!row) throw new Error('Failed to save exchange rate');
+    return mapRowToExchangeRate(row);
+  },
+
+  // Rates read from a file, all or none
+  async saveMany(rates: RateData[]): Promise<number> {
+    return withTransaction(async () => {
+      for (const rate of rates) {
+        await this.save(rate);
+      }
+      return rates.length;
+    });
+  },
+
+  // Moving a rate onto the pair and day of another one replaces that one
+  async update(id: UUID, data: RateData): Promise<ExchangeRate> {
+    const rate = normalize(data);
+    exchangeRateEntity.assertValid(rate);
+    await execute(
+      `DELETE FROM exchange_rates WHERE from_currency = ? AND to_currency = ? AND date = ? AND id <> ?`,
+      [rate.fromCurrency, rate.toCurrency, rate.date, id]
+    );
+    await execute(
+      `UPDATE exchange_rates SET from_currency = ?, to_currency = ?, rate = ?, date = ?, updated_at = ? WHERE id = ?`,
+      [rate.fromCurrency, rate.toCurrency, rate.rate, rate.date, getCurrentISODate(), id]
+    );
+
+    const updated = await this.getById(id);
+    if (!updated) throw new Error('Exchange rate not found');
+    return updated;
+  },
+
+  async delete(id: UUID): Promise<void> {
+    await execute('DELETE FROM exchange_rates WHERE id = ?', [id]);
+  },
+
+  // For totals of records already loaded; queries use toReportingCurrencySql
+  async getConverter(): Promise<CurrencyConverter> {
+    const target = getReportingCurrency();
+    const rates = (await this.getAll()).reverse();
+    return (amount, currency, date) => {
+      const from = currency || getCachedCurrency();
+      if (from === target) return amount;
+      const rate = findRate(rates, from, target, format(new Date(date), 'yyyy-MM-dd'));
+      return rate === null ? null : amount * rate;
+    };
+  },
+};
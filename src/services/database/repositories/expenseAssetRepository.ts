@@ -2,6 +2,7 @@ import { ExpenseAsset, ExpenseAssetWithDetails, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { toReportingCurrencySql } from './exchangeRateRepository';
 
 interface ExpenseAssetRow {
   id: string;
@@ -46,9 +47,16 @@ function mapRowToExpenseAssetWithDetails(row: ExpenseAssetWithDetailsRow): Expen
 }
 
 export const expenseAssetRepository = {
+  async getAll(): Promise<ExpenseAsset[]> {
+    const rows = await queryAll<ExpenseAssetRow>(
+      'SELECT * FROM expense_assets WHERE deleted_at IS NULL ORDER BY created_at ASC'
+    );
+    return rows.map(mapRowToExpenseAsset);
+  },
+
   async getByExpenseId(expenseId: UUID): Promise<ExpenseAsset[]> {
     const rows = await queryAll<ExpenseAssetRow>(
-      'SELECT * FROM expense_assets WHERE expense_id = ? ORDER BY created_at ASC',
+      'SELECT * FROM expense_assets WHERE expense_id = ? AND deleted_at IS NULL ORDER BY created_at ASC',
       [expenseId]
     );
     return rows.map(mapRowToExpenseAsset);
@@ -59,7 +67,7 @@ export const expenseAssetRepository = {
       `SELECT ea.*, a.name as asset_name, a.category as asset_category, a.brand as asset_brand, a.model as asset_model
        FROM expense_assets ea
        JOIN assets a ON ea.asset_id = a.id
-       WHERE ea.expense_id = ?
+       WHERE ea.expense_id = ? AND ea.deleted_at IS NULL
        ORDER BY ea.created_at ASC`,
       [expenseId]
     );
@@ -68,15 +76,19 @@ export const expenseAssetRepository = {
 
   async getByAssetId(assetId: UUID): Promise<ExpenseAsset[]> {
     const rows = await queryAll<ExpenseAssetRow>(
-      'SELECT * FROM expense_assets WHERE asset_id = ? ORDER BY created_at DESC',
+      'SELECT * FROM expense_assets WHERE asset_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
       [assetId]
     );
     return rows.map(mapRowToExpenseAsset);
   },
 
+  // In the reporting currency; a linked amount is in its expense's currency
   async getTotalSpentOnAsset(assetId: UUID): Promise<number> {
+    const amount = toReportingCurrencySql('ea.amount', 'e.currency', 'e.date');
     const result = await queryFirst<{ total: number }>(
-      'SELECT COALESCE(SUM(amount), 0) as total FROM expense_assets WHERE asset_id = ?',
+      `SELECT COALESCE(SUM(${amount}), 0) as total FROM expense_assets ea
+       JOIN expenses e ON e.id = ea.expense_id
+       WHERE ea.asset_id = ? AND ea.deleted_at IS NULL`,
       [assetId]
     );
     return result?.total ?? 0;
@@ -100,7 +112,7 @@ export const expenseAssetRepository = {
     );
 
     const row = await queryFirst<ExpenseAssetRow>(
-      'SELECT * FROM expense_assets WHERE id = ?',
+      'SELECT * FROM expense_assets WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     if (!row) throw new Error('Failed to create expense asset');
@@ -136,7 +148,7 @@ export const expenseAssetRepository = {
 
     if (fields.length === 0) {
       const existing = await queryFirst<ExpenseAssetRow>(
-        'SELECT * FROM expense_assets WHERE id = ?',
+        'SELECT * FROM expense_assets WHERE id = ? AND deleted_at IS NULL',
         [id]
       );
       if (!existing) throw new Error('Expense asset not found');
@@ -151,13 +163,14 @@ export const expenseAssetRepository = {
     );
 
     const row = await queryFirst<ExpenseAssetRow>(
-      'SELECT * FROM expense_assets WHERE id = ?',
+      'SELECT * FROM expense_assets WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     if (!row) throw new Error('Expense asset not found');
     return mapRowToExpenseAsset(row);
   },
 
+  // Links are rewritten whenever an expense is edited, so they skip the trash
   async delete(id: UUID): Promise<void> {
     await execute('DELETE FROM expense_assets WHERE id = ?', [id]);
   },
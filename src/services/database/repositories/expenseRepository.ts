@@ -1,76 +1,149 @@
-import { Expense, UUID, ExpenseType } from '../../../types';
+import {
+  Expense,
+  UUID,
+  ExpenseFilters,
+  ExpenseGrouping,
+  ExpenseGroupTotal,
+  ExpenseSummary,
+  Page,
+  PageCursor,
+  TaxTreatment,
+} from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { getCachedCurrency } from '../../../utils/currency';
+import { trashRepository } from './trashRepository';
+import { toReportingCurrencySql } from './exchangeRateRepository';
+import { EXPENSE_SHARES_SQL, SHARE, SHARES_OF_EXPENSE } from './expenseSplitRepository';
+import { expenseEntity } from '../entities';
+import { Row } from '../entity';
 
-interface ExpenseRow {
-  id: string;
-  property_id: string;
-  room_id: string | null;
-  asset_id: string | null;
-  worker_id: string | null;
-  type: string;
-  category: string;
-  amount: number;
-  date: string;
-  description: string;
-  receipt_uri: string | null;
-  is_recurring: number;
-  recurring_template_id: string | null;
-  tags: string;
-  created_at: string;
-  updated_at: string;
+function mapRowToExpense(row: Row): Expense {
+  return expenseEntity.fromRow(row);
 }
 
-function mapRowToExpense(row: ExpenseRow): Expense {
-  return {
-    id: row.id,
-    propertyId: row.property_id,
-    roomId: row.room_id || undefined,
-    assetId: row.asset_id || undefined,
-    workerId: row.worker_id || undefined,
-    type: row.type as ExpenseType,
-    category: row.category,
-    amount: row.amount,
-    date: row.date,
-    description: row.description,
-    receiptUri: row.receipt_uri || undefined,
-    isRecurring: row.is_recurring === 1,
-    recurringTemplateId: row.recurring_template_id || undefined,
-    tags: JSON.parse(row.tags || '[]'),
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  };
+const DEFAULT_PAGE_SIZE = 50;
+
+// Totals add up expenses' shares, so a split expense counts towards each
+// property and room only with its share. They are in the reporting currency;
+// expenses in a currency without a stored rate are left out of them, and
+// getUnconvertedCurrencies names those currencies.
+const SHARES = `expenses e ${SHARES_OF_EXPENSE}`;
+const AMOUNT = toReportingCurrencySql(SHARE.amount, 'e.currency', 'e.date');
+
+// Whether expense e has a share in the property, for filters on whole expenses
+const HAS_PROPERTY_SHARE = `(EXISTS (SELECT 1 FROM expense_splits s WHERE s.expense_id = e.id AND s.deleted_at IS NULL AND s.property_id = ?)
+  OR (e.property_id = ? AND NOT EXISTS (SELECT 1 FROM expense_splits s WHERE s.expense_id = e.id AND s.deleted_at IS NULL)))`;
+
+// Expenses with a share in a property or room, with the size of that share
+function sharesOf(column: 'property_id' | 'room_id'): string {
+  return `expenses e JOIN (
+    SELECT expense_id, SUM(amount) AS share_amount FROM ${EXPENSE_SHARES_SQL} WHERE ${column} = ? GROUP BY expense_id
+  ) sh ON sh.expense_id = e.id`;
+}
+
+// SQL for the group key and its display label. Rooms, assets and workers in
+// the trash count as none, like expenses that were never linked to one.
+const GROUPINGS: Record<ExpenseGrouping, { key: string; label: string; join?: string; order: string }> = {
+  month: {
+    key: "strftime('%Y-%m', e.date, 'localtime')",
+    label: "strftime('%Y-%m', e.date, 'localtime')",
+    order: 'key ASC',
+  },
+  type: { key: 'e.type', label: 'e.type', order: 'total DESC' },
+  category: { key: 'e.category', label: 'e.category', order: 'total DESC' },
+  room: {
+    key: "COALESCE(r.id, '')",
+    label: "COALESCE(r.name, '')",
+    join: `LEFT JOIN rooms r ON r.id = ${SHARE.roomId} AND r.deleted_at IS NULL`,
+    order: 'total DESC',
+  },
+  asset: {
+    key: "COALESCE(a.id, '')",
+    label: "COALESCE(a.name, '')",
+    join: 'LEFT JOIN assets a ON a.id = e.asset_id AND a.deleted_at IS NULL',
+    order: 'total DESC',
+  },
+  worker: {
+    key: "COALESCE(w.id, '')",
+    label: "COALESCE(w.name, '')",
+    join: 'LEFT JOIN workers w ON w.id = e.worker_id AND w.deleted_at IS NULL',
+    order: 'total DESC',
+  },
+};
+
+// Filters on shares unless perExpense is set, for queries of whole expenses
+// that don't join their shares
+function buildFilterClause(filters: ExpenseFilters, perExpense = false): { where: string; params: any[] } {
+  const conditions = ['e.deleted_at IS NULL'];
+  const params: any[] = [];
+
+  if (filters.propertyId) {
+    if (perExpense) {
+      conditions.push(HAS_PROPERTY_SHARE);
+      params.push(filters.propertyId, filters.propertyId);
+    } else {
+      conditions.push(`${SHARE.propertyId} = ?`);
+      params.push(filters.propertyId);
+    }
+  }
+  if (filters.type) {
+    conditions.push('e.type = ?');
+    params.push(filters.type);
+  }
+  if (filters.from) {
+    conditions.push('e.date >= ?');
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push('e.date <= ?');
+    params.push(filters.to);
+  }
+
+  return { where: conditions.join(' AND '), params };
 }
 
 export const expenseRepository = {
   async getAll(): Promise<Expense[]> {
-    const rows = await queryAll<ExpenseRow>(
-      'SELECT * FROM expenses ORDER BY date DESC'
+    const rows = await queryAll<Row>(
+      'SELECT * FROM expenses WHERE deleted_at IS NULL ORDER BY date DESC'
     );
     return rows.map(mapRowToExpense);
   },
 
   async getByPropertyId(propertyId: UUID, limit?: number): Promise<Expense[]> {
     const sql = limit
-      ? 'SELECT * FROM expenses WHERE property_id = ? ORDER BY date DESC LIMIT ?'
-      : 'SELECT * FROM expenses WHERE property_id = ? ORDER BY date DESC';
+      ? 'SELECT * FROM expenses WHERE property_id = ? AND deleted_at IS NULL ORDER BY date DESC LIMIT ?'
+      : 'SELECT * FROM expenses WHERE property_id = ? AND deleted_at IS NULL ORDER BY date DESC';
     const params = limit ? [propertyId, limit] : [propertyId];
-    const rows = await queryAll<ExpenseRow>(sql, params);
+    const rows = await queryAll<Row>(sql, params);
+    return rows.map(mapRowToExpense);
+  },
+
+  // Expenses the property owns or has a share of, each with that share
+  async getByPropertyShare(propertyId: UUID, limit?: number): Promise<Expense[]> {
+    const rows = await queryAll<Row>(
+      `SELECT e.*, sh.share_amount FROM ${sharesOf('property_id')}
+       WHERE e.deleted_at IS NULL ORDER BY e.date DESC${limit ? ' LIMIT ?' : ''}`,
+      limit ? [propertyId, limit] : [propertyId]
+    );
     return rows.map(mapRowToExpense);
   },
 
+  // Expenses of the room or with a share in it, each with that share
   async getByRoomId(roomId: UUID): Promise<Expense[]> {
-    const rows = await queryAll<ExpenseRow>(
-      'SELECT * FROM expenses WHERE room_id = ? ORDER BY date DESC',
+    const rows = await queryAll<Row>(
+      `SELECT e.*, sh.share_amount FROM ${sharesOf('room_id')}
+       WHERE e.deleted_at IS NULL ORDER BY e.date DESC`,
       [roomId]
     );
     return rows.map(mapRowToExpense);
   },
 
   async getById(id: UUID): Promise<Expense | null> {
-    const row = await queryFirst<ExpenseRow>(
-      'SELECT * FROM expenses WHERE id = ?',
+    const row = await queryFirst<Row>(
+      'SELECT * FROM expenses WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToExpense(row) : null;
@@ -80,9 +153,9 @@ export const expenseRepository = {
     const dateThreshold = new Date();
     dateThreshold.setDate(dateThreshold.getDate() - days);
 
-    const rows = await queryAll<ExpenseRow>(
+    const rows = await queryAll<Row>(
       `SELECT * FROM expenses
-       WHERE property_id = ? AND date >= ?
+       WHERE property_id = ? AND date >= ? AND deleted_at IS NULL
        ORDER BY date DESC`,
       [propertyId, dateThreshold.toISOString()]
     );
@@ -90,95 +163,34 @@ export const expenseRepository = {
   },
 
   async create(data: Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>): Promise<Expense> {
+    expenseEntity.assertValid(data);
     const id = generateUUID();
     const now = getCurrentISODate();
 
-    await execute(
-      `INSERT INTO expenses (id, property_id, room_id, asset_id, worker_id, type, category, amount, date, description, receipt_uri, is_recurring, recurring_template_id, tags, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        id,
-        data.propertyId,
-        data.roomId || null,
-        data.assetId || null,
-        data.workerId || null,
-        data.type,
-        data.category,
-        data.amount,
-        data.date,
-        data.description,
-        data.receiptUri || null,
-        data.isRecurring ? 1 : 0,
-        data.recurringTemplateId || null,
-        JSON.stringify(data.tags || []),
-        now,
-        now,
-      ]
-    );
+    const { sql, params } = expenseEntity.toInsert({
+      ...data,
+      id,
+      currency: data.currency ?? getCachedCurrency(),
+      tags: data.tags ?? [],
+      createdAt: now,
+      updatedAt: now,
+    });
+    await execute(sql, params);
 
     const expense = await this.getById(id);
     if (!expense) throw new Error('Failed to create expense');
     return expense;
   },
 
-  async update(id: UUID, data: Partial<Omit<Expense, 'id' | 'propertyId' | 'createdAt' | 'updatedAt'>>): Promise<Expense> {
-    const now = getCurrentISODate();
-    const fields: string[] = [];
-    const values: any[] = [];
-
-    if (data.roomId !== undefined) {
-      fields.push('room_id = ?');
-      values.push(data.roomId || null);
-    }
-    if (data.assetId !== undefined) {
-      fields.push('asset_id = ?');
-      values.push(data.assetId || null);
-    }
-    if (data.workerId !== undefined) {
-      fields.push('worker_id = ?');
-      values.push(data.workerId || null);
-    }
-    if (data.type !== undefined) {
-      fields.push('type = ?');
-      values.push(data.type);
-    }
-    if (data.category !== undefined) {
-      fields.push('category = ?');
-      values.push(data.category);
-    }
-    if (data.amount !== undefined) {
-      fields.push('amount = ?');
-      values.push(data.amount);
-    }
-    if (data.date !== undefined) {
-      fields.push('date = ?');
-      values.push(data.date);
-    }
-    if (data.description !== undefined) {
-      fields.push('description = ?');
-      values.push(data.description);
-    }
-    if (data.receiptUri !== undefined) {
-      fields.push('receipt_uri = ?');
-      values.push(data.receiptUri || null);
-    }
-    if (data.isRecurring !== undefined) {
-      fields.push('is_recurring = ?');
-      values.push(data.isRecurring ? 1 : 0);
-    }
-    if (data.tags !== undefined) {
-      fields.push('tags = ?');
-      values.push(JSON.stringify(data.tags));
-    }
-
-    fields.push('updated_at = ?');
-    values.push(now);
-    values.push(id);
-
-    await execute(
-      `UPDATE expenses SET ${fields.join(', ')} WHERE id = ?`,
-      values
-    );
+  // An empty tax treatment clears it
+  async update(
+    id: UUID,
+    data: Partial<Omit<Expense, 'id' | 'propertyId' | 'taxTreatment' | 'createdAt' | 'updatedAt'>> & { taxTreatment?: TaxTreatment | '' }
+  ): Promise<Expense> {
+    expenseEntity.assertValid(data, { partial: true });
+    // The entity writes the empty treatment as NULL, as it does any empty optional value
+    const { sql, params } = expenseEntity.toUpdate(id, { ...data, updatedAt: getCurrentISODate() } as Partial<Expense>);
+    await execute(sql, params);
 
     const expense = await this.getById(id);
     if (!expense) throw new Error('Expense not found');
@@ -186,12 +198,12 @@ export const expenseRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM expenses WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('expenses', id);
   },
 
   async getTotalByPropertyId(propertyId: UUID): Promise<number> {
     const result = await queryFirst<{ total: number }>(
-      'SELECT COALESCE(SUM(amount), 0) as total FROM expenses WHERE property_id = ?',
+      `SELECT COALESCE(SUM(${AMOUNT}), 0) as total FROM ${SHARES} WHERE ${SHARE.propertyId} = ? AND e.deleted_at IS NULL`,
       [propertyId]
     );
     return result?.total ?? 0;
@@ -202,16 +214,16 @@ export const expenseRepository = {
     const endDate = new Date(year, month, 0, 23, 59, 59).toISOString();
 
     const result = await queryFirst<{ total: number }>(
-      `SELECT COALESCE(SUM(amount), 0) as total FROM expenses
-       WHERE property_id = ? AND date >= ? AND date <= ?`,
+      `SELECT COALESCE(SUM(${AMOUNT}), 0) as total FROM ${SHARES}
+       WHERE ${SHARE.propertyId} = ? AND e.date >= ? AND e.date <= ? AND e.deleted_at IS NULL`,
       [propertyId, startDate, endDate]
     );
     return result?.total ?? 0;
   },
 
   async getByWorkerId(workerId: UUID): Promise<Expense[]> {
-    const rows = await queryAll<ExpenseRow>(
-      'SELECT * FROM expenses WHERE worker_id = ? ORDER BY date DESC',
+    const rows = await queryAll<Row>(
+      'SELECT * FROM expenses WHERE worker_id = ? AND deleted_at IS NULL ORDER BY date DESC',
       [workerId]
     );
     return rows.map(mapRowToExpense);
@@ -219,29 +231,106 @@ export const expenseRepository = {
 
   async getTotalByWorkerId(workerId: UUID): Promise<number> {
     const result = await queryFirst<{ total: number }>(
-      'SELECT COALESCE(SUM(amount), 0) as total FROM expenses WHERE worker_id = ?',
+      `SELECT COALESCE(SUM(${AMOUNT}), 0) as total FROM ${SHARES} WHERE e.worker_id = ? AND e.deleted_at IS NULL`,
       [workerId]
     );
     return result?.total ?? 0;
   },
 
   async getByAssetId(assetId: UUID): Promise<Expense[]> {
-    const rows = await queryAll<ExpenseRow>(
-      'SELECT * FROM expenses WHERE asset_id = ? ORDER BY date DESC',
+    const rows = await queryAll<Row>(
+      'SELECT * FROM expenses WHERE asset_id = ? AND deleted_at IS NULL ORDER BY date DESC',
       [assetId]
     );
     return rows.map(mapRowToExpense);
   },
 
+  // Newest first. Ordering by id after date keeps expenses that share a date
+  // from being skipped or repeated between pages. A split expense is listed
+  // once, whole. Shares aren't joined, so the page is read along the
+  // expenses' date index.
+  async getPage(
+    filters: ExpenseFilters = {},
+    cursor: PageCursor | null = null,
+    limit: number = DEFAULT_PAGE_SIZE
+  ): Promise<Page<Expense>> {
+    const { where, params } = buildFilterClause(filters, true);
+    const keyset = cursor ? ' AND e.date <= ? AND (e.date < ? OR e.id < ?)' : '';
+    const keysetParams = cursor ? [cursor.date, cursor.date, cursor.id] : [];
+
+    // One extra row tells whether there is another page
+    const rows = await queryAll<Row>(
+      `SELECT e.* FROM expenses e
+       WHERE ${where}${keyset}
+       ORDER BY e.date DESC, e.id DESC
+       LIMIT ?`,
+      [...params, ...keysetParams, limit + 1]
+    );
+
+    const items = rows.slice(0, limit).map(mapRowToExpense);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor: rows.length > limit && last ? { date: last.date, id: last.id } : null,
+    };
+  },
+
+  // Counts and sizes are per expense, of the shares the filters cover
+  async getSummary(filters: ExpenseFilters = {}): Promise<ExpenseSummary> {
+    const { where, params } = buildFilterClause(filters);
+    const result = await queryFirst<{ count: number; converted: number; total: number; largest: number }>(
+      `SELECT COUNT(*) as count, COUNT(amount) as converted,
+              COALESCE(SUM(amount), 0) as total, COALESCE(MAX(amount), 0) as largest
+       FROM (SELECT SUM(${AMOUNT}) AS amount FROM ${SHARES} WHERE ${where} GROUP BY e.id)`,
+      params
+    );
+    const converted = result?.converted ?? 0;
+    const total = result?.total ?? 0;
+    return {
+      count: result?.count ?? 0,
+      total,
+      average: converted > 0 ? total / converted : 0,
+      largest: result?.largest ?? 0,
+    };
+  },
+
+  // Months come back oldest first and only when they have expenses; the
+  // other groupings are ordered by total, largest first
+  async getTotalsBy(grouping: ExpenseGrouping, filters: ExpenseFilters = {}): Promise<ExpenseGroupTotal[]> {
+    const { key, label, join, order } = GROUPINGS[grouping];
+    const { where, params } = buildFilterClause(filters);
+    return queryAll<ExpenseGroupTotal>(
+      `SELECT ${key} as key, ${label} as label, COALESCE(SUM(${AMOUNT}), 0) as total, COUNT(DISTINCT e.id) as count
+       FROM ${SHARES} ${join ?? ''}
+       WHERE ${where}
+       GROUP BY ${key}
+       ORDER BY ${order}`,
+      params
+    );
+  },
+
   async getMonthlyTotal(year: number, month: number): Promise<number> {
     const startDate = new Date(year, month - 1, 1).toISOString();
     const endDate = new Date(year, month, 0, 23, 59, 59).toISOString();
 
     const result = await queryFirst<{ total: number }>(
-      `SELECT COALESCE(SUM(amount), 0) as total FROM expenses
-       WHERE date >= ? AND date <= ?`,
+      `SELECT COALESCE(SUM(${AMOUNT}), 0) as total FROM ${SHARES}
+       WHERE e.date >= ? AND e.date <= ? AND e.deleted_at IS NULL`,
       [startDate, endDate]
     );
     return result?.total ?? 0;
   },
+
+  // Currencies of the filtered expenses that no stored rate converts into the
+  // reporting currency, so totals leave those expenses out
+  async getUnconvertedCurrencies(filters: ExpenseFilters = {}): Promise<string[]> {
+    const { where, params } = buildFilterClause(filters);
+    const rows = await queryAll<{ currency: string }>(
+      `SELECT DISTINCT COALESCE(e.currency, (SELECT currency FROM app_settings LIMIT 1)) as currency FROM ${SHARES}
+       WHERE ${where} AND (${AMOUNT}) IS NULL
+       ORDER BY currency`,
+      params
+    );
+    return rows.map(row => row.currency);
+  },
 };
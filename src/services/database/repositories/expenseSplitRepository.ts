@@ -0,0 +1,127 @@
+import { ExpenseSplit, ExpenseSplitData, ExpenseSplitWithDetails, UUID } from '../../../types';
+import { queryAll, queryFirst, execute } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+import { expenseSplitEntity } from '../entities';
+import { Row } from '../entity';
+
+type SplitRow = Row & { property_name: string; room_name: string | null; member_name: string | null; share_amount: number };
+
+// Amounts are REAL, so shares within a cent of the amount add up
+const TOTAL_TOLERANCE = 0.005;
+
+// Every expense's shares as (expense_id, property_id, room_id, member_id,
+// amount) rows, the amount in the expense's currency. An expense that is not
+// split is a single share of its whole amount, for its own property and room.
+// Queries join it to expenses for their dates, currencies and trash state.
+export const EXPENSE_SHARES_SQL = `(
+  SELECT s.expense_id AS expense_id, s.property_id AS property_id, s.room_id AS room_id, s.member_id AS member_id,
+         COALESCE(s.amount, x.amount * s.percent / 100.0) AS amount
+  FROM expense_splits s JOIN expenses x ON x.id = s.expense_id
+  WHERE s.deleted_at IS NULL
+  UNION ALL
+  SELECT x.id, x.property_id, x.room_id, NULL, x.amount FROM expenses x
+  WHERE NOT EXISTS (SELECT 1 FROM expense_splits s WHERE s.expense_id = x.id AND s.deleted_at IS NULL)
+)`;
+
+// The same shares reached from an expense e rather than read for every
+// expense up front, so filters and indexes on expenses apply first. Joined
+// as SHARES_OF_EXPENSE, each share's columns are the SHARE expressions.
+export const SHARES_OF_EXPENSE = 'LEFT JOIN expense_splits s ON s.expense_id = e.id AND s.deleted_at IS NULL';
+export const SHARE = {
+  propertyId: 'CASE WHEN s.id IS NULL THEN e.property_id ELSE s.property_id END',
+  roomId: 'CASE WHEN s.id IS NULL THEN e.room_id ELSE s.room_id END',
+  amount: 'CASE WHEN s.id IS NULL THEN e.amount ELSE COALESCE(s.amount, e.amount * s.percent / 100.0) END',
+};
+
+// A share in the expense's currency
+export function getShareAmount(split: Pick<ExpenseSplit, 'percent' | 'amount'>, expenseAmount: number): number {
+  return split.amount ?? (expenseAmount * (split.percent ?? 0)) / 100;
+}
+
+// Whether the shares add up to the expense's amount
+export function splitsAddUp(splits: Array<Pick<ExpenseSplit, 'percent' | 'amount'>>, expenseAmount: number): boolean {
+  const total = splits.reduce((sum, split) => sum + getShareAmount(split, expenseAmount), 0);
+  return Math.abs(total - expenseAmount) <= TOTAL_TOLERANCE;
+}
+
+function mapRowToExpenseSplit(row: Row): ExpenseSplit {
+  return expenseSplitEntity.fromRow(row);
+}
+
+function mapRowToExpenseSplitWithDetails(row: SplitRow): ExpenseSplitWithDetails {
+  return {
+    ...mapRowToExpenseSplit(row),
+    propertyName: row.property_name,
+    roomName: row.room_name || undefined,
+    memberName: row.member_name || undefined,
+    shareAmount: row.share_amount,
+  };
+}
+
+// A share is a percentage or a fixed amount, never both
+function assertShare(split: ExpenseSplitData): void {
+  expenseSplitEntity.assertValid(split, { partial: true });
+  if ((split.percent === undefined) === (split.amount === undefined)) {
+    throw new Error('An expense split needs either a percentage or an amount');
+  }
+}
+
+export const expenseSplitRepository = {
+  async getAll(): Promise<ExpenseSplit[]> {
+    const rows = await queryAll<Row>(
+      'SELECT * FROM expense_splits WHERE deleted_at IS NULL ORDER BY expense_id, sort_order'
+    );
+    return rows.map(mapRowToExpenseSplit);
+  },
+
+  // Rooms and properties in the trash are left unnamed
+  async getByExpenseId(expenseId: UUID): Promise<ExpenseSplitWithDetails[]> {
+    const rows = await queryAll<SplitRow>(
+      `SELECT s.*, p.name AS property_name, r.name AS room_name, m.name AS member_name,
+              COALESCE(s.amount, e.amount * s.percent / 100.0) AS share_amount
+       FROM expense_splits s
+       JOIN expenses e ON e.id = s.expense_id
+       JOIN properties p ON p.id = s.property_id
+       LEFT JOIN rooms r ON r.id = s.room_id AND r.deleted_at IS NULL
+       LEFT JOIN household_members m ON m.id = s.member_id
+       WHERE s.expense_id = ? AND s.deleted_at IS NULL
+       ORDER BY s.sort_order`,
+      [expenseId]
+    );
+    return rows.map(mapRowToExpenseSplitWithDetails);
+  },
+
+  // One share, as restoring a backup adds them
+  async create(data: ExpenseSplitData & { expenseId: UUID; sortOrder: number }): Promise<ExpenseSplit> {
+    assertShare(data);
+    const id = generateUUID();
+    const { sql, params } = expenseSplitEntity.toInsert({
+      ...data,
+      id,
+      createdAt: getCurrentISODate(),
+    });
+    await execute(sql, params);
+
+    const row = await queryFirst<Row>('SELECT * FROM expense_splits WHERE id = ?', [id]);
+    if (!row) throw new Error('Failed to create expense split');
+    return mapRowToExpenseSplit(row);
+  },
+
+  // Shares are rewritten whenever an expense is edited, so they skip the
+  // trash like its asset links. They must add up to the expense's amount; no
+  // shares leave the expense unsplit.
+  async replaceForExpense(expenseId: UUID, splits: ExpenseSplitData[]): Promise<void> {
+    const expense = await queryFirst<{ amount: number }>('SELECT amount FROM expenses WHERE id = ?', [expenseId]);
+    if (!expense) throw new Error('Expense not found');
+    splits.forEach(assertShare);
+    if (splits.length > 0 && !splitsAddUp(splits, expense.amount)) {
+      throw new Error('Expense splits do not add up to the expense amount');
+    }
+
+    await execute('DELETE FROM expense_splits WHERE expense_id = ?', [expenseId]);
+    for (const [index, split] of splits.entries()) {
+      await this.create({ ...split, expenseId, sortOrder: index });
+    }
+  },
+};
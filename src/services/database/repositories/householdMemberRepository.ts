@@ -0,0 +1,119 @@
+import { HouseholdMember, MemberBalance, SettleUpTransfer, UUID } from '../../../types';
+import { queryAll, queryFirst, execute } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+import { householdMemberEntity } from '../entities';
+import { Row } from '../entity';
+import { toReportingCurrencySql } from './exchangeRateRepository';
+import { EXPENSE_SHARES_SQL } from './expenseSplitRepository';
+
+type BalanceRow = Row & { paid_for_others: number; owes: number; sent: number; received: number };
+
+// Balances within a cent count as settled
+const SETTLED_TOLERANCE = 0.005;
+
+const SHARE_AMOUNT = toReportingCurrencySql('sh.amount', 'e.currency', 'e.date');
+const SETTLEMENT_AMOUNT = toReportingCurrencySql('st.amount', 'st.currency', 'st.date');
+
+// A share is owed to whoever paid the expense, unless that is the member
+// the share is for. Shares without a member, and amounts no stored rate
+// converts, are left out.
+const BALANCES_SQL = `
+  SELECT m.*,
+    (SELECT COALESCE(SUM(${SHARE_AMOUNT}), 0) FROM expenses e JOIN ${EXPENSE_SHARES_SQL} sh ON sh.expense_id = e.id
+     WHERE e.paid_by_member_id = m.id AND e.deleted_at IS NULL
+       AND sh.member_id IS NOT NULL AND sh.member_id <> m.id) AS paid_for_others,
+    (SELECT COALESCE(SUM(${SHARE_AMOUNT}), 0) FROM expenses e JOIN ${EXPENSE_SHARES_SQL} sh ON sh.expense_id = e.id
+     WHERE sh.member_id = m.id AND e.deleted_at IS NULL
+       AND e.paid_by_member_id IS NOT NULL AND e.paid_by_member_id <> m.id) AS owes,
+    (SELECT COALESCE(SUM(${SETTLEMENT_AMOUNT}), 0) FROM settlements st WHERE st.from_member_id = m.id) AS sent,
+    (SELECT COALESCE(SUM(${SETTLEMENT_AMOUNT}), 0) FROM settlements st WHERE st.to_member_id = m.id) AS received
+  FROM household_members m
+  ORDER BY m.name COLLATE NOCASE`;
+
+function mapRowToHouseholdMember(row: Row): HouseholdMember {
+  return householdMemberEntity.fromRow(row);
+}
+
+// Payments that settle everyone up: the member who owes the most pays the
+// one owed the most, as much as settles one of the two, until none is left
+function suggestTransfers(balances: MemberBalance[]): SettleUpTransfer[] {
+  const byAmount = (a: { left: number }, b: { left: number }) => b.left - a.left;
+  const creditors = balances
+    .filter(item => item.balance > SETTLED_TOLERANCE)
+    .map(item => ({ member: item.member, left: item.balance }))
+    .sort(byAmount);
+  const debtors = balances
+    .filter(item => item.balance < -SETTLED_TOLERANCE)
+    .map(item => ({ member: item.member, left: -item.balance }))
+    .sort(byAmount);
+
+  const transfers: SettleUpTransfer[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const amount = Math.min(debtors[d].left, creditors[c].left);
+    transfers.push({ from: debtors[d].member, to: creditors[c].member, amount });
+    debtors[d].left -= amount;
+    creditors[c].left -= amount;
+    if (debtors[d].left <= SETTLED_TOLERANCE) d++;
+    if (creditors[c].left <= SETTLED_TOLERANCE) c++;
+  }
+  return transfers;
+}
+
+export const householdMemberRepository = {
+  async getAll(): Promise<HouseholdMember[]> {
+    const rows = await queryAll<Row>('SELECT * FROM household_members ORDER BY name COLLATE NOCASE');
+    return rows.map(mapRowToHouseholdMember);
+  },
+
+  async getById(id: UUID): Promise<HouseholdMember | null> {
+    const row = await queryFirst<Row>('SELECT * FROM household_members WHERE id = ?', [id]);
+    return row ? mapRowToHouseholdMember(row) : null;
+  },
+
+  async create(data: Pick<HouseholdMember, 'name'>): Promise<HouseholdMember> {
+    const member = { name: data.name.trim() };
+    householdMemberEntity.assertValid(member);
+    const id = generateUUID();
+    const now = getCurrentISODate();
+
+    const { sql, params } = householdMemberEntity.toInsert({ ...member, id, createdAt: now, updatedAt: now });
+    await execute(sql, params);
+
+    const created = await this.getById(id);
+    if (!created) throw new Error('Failed to create household member');
+    return created;
+  },
+
+  async update(id: UUID, data: Pick<HouseholdMember, 'name'>): Promise<HouseholdMember> {
+    const changes = { name: data.name.trim() };
+    householdMemberEntity.assertValid(changes, { partial: true });
+    const { sql, params } = householdMemberEntity.toUpdate(id, { ...changes, updatedAt: getCurrentISODate() });
+    await execute(sql, params);
+
+    const member = await this.getById(id);
+    if (!member) throw new Error('Household member not found');
+    return member;
+  },
+
+  // Expenses they paid and shares they owe are kept without them; their
+  // settlements go with them
+  async delete(id: UUID): Promise<void> {
+    await execute('DELETE FROM household_members WHERE id = ?', [id]);
+  },
+
+  // Every member's balance in the reporting currency, and payments that would
+  // bring them all to zero
+  async getSettleUp(): Promise<{ balances: MemberBalance[]; transfers: SettleUpTransfer[] }> {
+    const rows = await queryAll<BalanceRow>(BALANCES_SQL);
+    const balances = rows.map(row => ({
+      member: mapRowToHouseholdMember(row),
+      paidForOthers: row.paid_for_others,
+      owes: row.owes,
+      balance: row.paid_for_others - row.owes + row.sent - row.received,
+    }));
+    return { balances, transfers: suggestTransfers(balances) };
+  },
+};
@@ -22,3 +22,20 @@ export { notesRepository } from './notesRepository';
 export { expenseAssetRepository } from './expenseAssetRepository';
 export { workerNoteRepository } from './workerNoteRepository';
 export { customCategoryRepository } from './customCategoryRepository';
+export { payeeRuleRepository } from './payeeRuleRepository';
+export { budgetRepository } from './budgetRepository';
+export { exchangeRateRepository, sumInReportingCurrency, toReportingCurrencySql } from './exchangeRateRepository';
+export type { CurrencyConverter, ConvertibleAmount } from './exchangeRateRepository';
+export { expenseSplitRepository, getShareAmount, splitsAddUp } from './expenseSplitRepository';
+export { householdMemberRepository } from './householdMemberRepository';
+export { settlementRepository } from './settlementRepository';
+export { tenantRepository } from './tenantRepository';
+export { leaseRepository } from './leaseRepository';
+export { rentPaymentRepository } from './rentPaymentRepository';
+export { taxSummaryRepository, getFiscalYear, getFiscalYearStart } from './taxSummaryRepository';
+export { trashRepository } from './trashRepository';
+export { searchRepository } from './searchRepository';
+export { changeLogRepository } from './changeLogRepository';
+export { attachmentRepository } from './attachmentRepository';
+export { customFieldRepository } from './customFieldRepository';
+export { customFieldValueRepository } from './customFieldValueRepository';
@@ -0,0 +1,194 @@
+import { addDays, addMonths, format, getDaysInMonth, max, parseISO, setDate, startOfDay, startOfMonth } from 'date-fns';
+import { Lease, LeaseWithTenant, RentDue, RentDueStatus, RentFrequency, UUID } from '../../../types';
+import { queryAll, queryFirst, execute } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+import { getCachedCurrency } from '../../../utils/currency';
+import { trashRepository } from './trashRepository';
+import { tenantRepository } from './tenantRepository';
+import { leaseEntity } from '../entities';
+import { Row } from '../entity';
+
+type LeaseRow = Row & { tenant_name: string };
+type PaidRow = { lease_id: string; due_date: string; paid: number; last_paid: string };
+
+type LeaseData = Omit<Lease, 'id' | 'createdAt' | 'updatedAt'>;
+
+const MONTHS_PER_PERIOD: Record<RentFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+// Amounts within a cent of the rent count as paid in full
+const PAID_TOLERANCE = 0.005;
+
+const SELECT_LEASES = `
+  SELECT l.*, t.name AS tenant_name FROM leases l
+  JOIN tenants t ON t.id = l.tenant_id
+  WHERE l.deleted_at IS NULL AND t.deleted_at IS NULL`;
+
+function mapRowToLease(row: LeaseRow): LeaseWithTenant {
+  return { ...leaseEntity.fromRow(row), tenantName: row.tenant_name };
+}
+
+function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// The due day of the month, or the month's last day when it is shorter
+function dueDateIn(month: Date, dueDay: number): Date {
+  return setDate(month, Math.min(dueDay, getDaysInMonth(month)));
+}
+
+// Due dates from the start of the lease through `until`. The first period's
+// rent is due on the start date when the due day falls before it.
+function getDueDates(lease: Lease, until: Date): Date[] {
+  const start = parseISO(lease.startDate);
+  const end = lease.endDate ? parseISO(lease.endDate) : null;
+  const step = MONTHS_PER_PERIOD[lease.rentFrequency];
+  const dates: Date[] = [];
+
+  for (let period = 0; ; period++) {
+    const month = addMonths(startOfMonth(start), period * step);
+    const due = period === 0 ? max([start, dueDateIn(month, lease.rentDueDay)]) : dueDateIn(month, lease.rentDueDay);
+    if (due > until || (end && due > end)) break;
+    dates.push(due);
+  }
+  return dates;
+}
+
+function getStatus(amount: number, paid: number, due: Date, lateFrom: Date, today: Date): RentDueStatus {
+  if (paid >= amount - PAID_TOLERANCE) return 'paid';
+  if (today >= lateFrom) return 'late';
+  if (paid > 0) return 'partial';
+  return today >= due ? 'due' : 'upcoming';
+}
+
+function checkDates(data: Pick<Lease, 'startDate' | 'endDate'>): void {
+  if (data.endDate && data.endDate < data.startDate) {
+    throw new Error('A lease cannot end before it starts');
+  }
+}
+
+export const leaseRepository = {
+  async getAll(): Promise<LeaseWithTenant[]> {
+    const rows = await queryAll<LeaseRow>(`${SELECT_LEASES} ORDER BY l.start_date DESC`);
+    return rows.map(mapRowToLease);
+  },
+
+  async getByPropertyId(propertyId: UUID): Promise<LeaseWithTenant[]> {
+    const rows = await queryAll<LeaseRow>(
+      `${SELECT_LEASES} AND l.property_id = ? ORDER BY l.start_date DESC`,
+      [propertyId]
+    );
+    return rows.map(mapRowToLease);
+  },
+
+  async getById(id: UUID): Promise<LeaseWithTenant | null> {
+    const row = await queryFirst<LeaseRow>(`${SELECT_LEASES} AND l.id = ?`, [id]);
+    return row ? mapRowToLease(row) : null;
+  },
+
+  // In the app currency unless given. The tenant must be one of the
+  // property's.
+  async create(data: LeaseData): Promise<LeaseWithTenant> {
+    leaseEntity.assertValid(data);
+    checkDates(data);
+    const tenant = await tenantRepository.getById(data.tenantId);
+    if (!tenant || tenant.propertyId !== data.propertyId) {
+      throw new Error('Tenant not found for this property');
+    }
+    const id = generateUUID();
+    const now = getCurrentISODate();
+
+    const { sql, params } = leaseEntity.toInsert({
+      ...data,
+      id,
+      currency: data.currency ?? getCachedCurrency(),
+      createdAt: now,
+      updatedAt: now,
+    });
+    await execute(sql, params);
+
+    const lease = await this.getById(id);
+    if (!lease) throw new Error('Failed to create lease');
+    return lease;
+  },
+
+  // Sets everything the form edits, so an end date, deposit or renewal
+  // date that was cleared is cleared here too
+  async update(id: UUID, data: Omit<LeaseData, 'propertyId' | 'tenantId' | 'currency'>): Promise<LeaseWithTenant> {
+    leaseEntity.assertValid(data, { partial: true });
+    checkDates(data);
+    await execute(
+      `UPDATE leases SET start_date = ?, end_date = ?, rent_amount = ?, rent_frequency = ?, rent_due_day = ?,
+       deposit_amount = ?, renewal_date = ?, grace_days = ?, reminder_days_before = ?, notes = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        data.startDate,
+        data.endDate || null,
+        data.rentAmount,
+        data.rentFrequency,
+        data.rentDueDay,
+        data.depositAmount ?? null,
+        data.renewalDate || null,
+        data.graceDays,
+        data.reminderDaysBefore,
+        data.notes || null,
+        getCurrentISODate(),
+        id,
+      ]
+    );
+
+    const lease = await this.getById(id);
+    if (!lease) throw new Error('Lease not found');
+    return lease;
+  },
+
+  // Rent paid on it goes to the trash with it
+  async delete(id: UUID): Promise<void> {
+    await trashRepository.moveToTrash('leases', id);
+  },
+
+  // Every due date of the leases up to today, and the next one after it,
+  // with what was paid for each. Newest first.
+  async getRentSchedule(propertyId?: UUID, date: Date = new Date()): Promise<RentDue[]> {
+    const leases = propertyId ? await this.getByPropertyId(propertyId) : await this.getAll();
+    const paidRows = await queryAll<PaidRow>(
+      `SELECT p.lease_id, p.due_date, SUM(p.amount) AS paid, MAX(p.paid_date) AS last_paid
+       FROM rent_payments p JOIN leases l ON l.id = p.lease_id
+       WHERE p.deleted_at IS NULL AND l.deleted_at IS NULL${propertyId ? ' AND l.property_id = ?' : ''}
+       GROUP BY p.lease_id, p.due_date`,
+      propertyId ? [propertyId] : []
+    );
+    const paidByDue = new Map(paidRows.map(row => [`${row.lease_id}|${row.due_date}`, row]));
+    const today = startOfDay(date);
+    const schedule: RentDue[] = [];
+
+    for (const lease of leases) {
+      const step = MONTHS_PER_PERIOD[lease.rentFrequency];
+      const dueDates = getDueDates(lease, addMonths(today, step));
+      // Only the first due date after today is listed
+      const upcoming = dueDates.findIndex(due => due > today);
+      const listed = upcoming === -1 ? dueDates : dueDates.slice(0, upcoming + 1);
+
+      for (const due of listed) {
+        const dueDate = toDateKey(due);
+        const payments = paidByDue.get(`${lease.id}|${dueDate}`);
+        const paid = payments?.paid ?? 0;
+        const lateFrom = addDays(due, lease.graceDays + 1);
+        const status = getStatus(lease.rentAmount, paid, due, lateFrom, today);
+        schedule.push({
+          lease,
+          dueDate,
+          amount: lease.rentAmount,
+          paid,
+          status,
+          paidLate: status === 'paid' && !!payments && parseISO(payments.last_paid) >= lateFrom,
+        });
+      }
+    }
+    return schedule.sort((a, b) => b.dueDate.localeCompare(a.dueDate));
+  },
+};
@@ -2,6 +2,7 @@ import { MaintenanceCompletion, MaintenanceCompletionWithWorker, UUID } from '..
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
 
 interface CompletionRow {
   id: string;
@@ -39,13 +40,20 @@ function mapRowToCompletionWithWorker(row: CompletionWithWorkerRow): Maintenance
 }
 
 export const maintenanceCompletionRepository = {
+  async getAll(): Promise<MaintenanceCompletion[]> {
+    const rows = await queryAll<CompletionRow>(
+      'SELECT * FROM maintenance_completions WHERE deleted_at IS NULL ORDER BY completed_date DESC'
+    );
+    return rows.map(mapRowToCompletion);
+  },
+
   async getByTaskId(taskId: UUID): Promise<MaintenanceCompletionWithWorker[]> {
     const rows = await queryAll<CompletionWithWorkerRow>(
       `SELECT mc.*, w.name as worker_name, mt.title as task_title
        FROM maintenance_completions mc
-       LEFT JOIN workers w ON mc.worker_id = w.id
+       LEFT JOIN workers w ON mc.worker_id = w.id AND w.deleted_at IS NULL
        LEFT JOIN maintenance_tasks mt ON mc.task_id = mt.id
-       WHERE mc.task_id = ?
+       WHERE mc.task_id = ? AND mc.deleted_at IS NULL
        ORDER BY mc.completed_date DESC`,
       [taskId]
     );
@@ -56,9 +64,9 @@ export const maintenanceCompletionRepository = {
     const row = await queryFirst<CompletionWithWorkerRow>(
       `SELECT mc.*, w.name as worker_name, mt.title as task_title
        FROM maintenance_completions mc
-       LEFT JOIN workers w ON mc.worker_id = w.id
+       LEFT JOIN workers w ON mc.worker_id = w.id AND w.deleted_at IS NULL
        LEFT JOIN maintenance_tasks mt ON mc.task_id = mt.id
-       WHERE mc.id = ?`,
+       WHERE mc.id = ? AND mc.deleted_at IS NULL`,
       [id]
     );
     return row ? mapRowToCompletionWithWorker(row) : null;
@@ -68,9 +76,9 @@ export const maintenanceCompletionRepository = {
     const row = await queryFirst<CompletionWithWorkerRow>(
       `SELECT mc.*, w.name as worker_name, mt.title as task_title
        FROM maintenance_completions mc
-       LEFT JOIN workers w ON mc.worker_id = w.id
+       LEFT JOIN workers w ON mc.worker_id = w.id AND w.deleted_at IS NULL
        LEFT JOIN maintenance_tasks mt ON mc.task_id = mt.id
-       WHERE mc.task_id = ?
+       WHERE mc.task_id = ? AND mc.deleted_at IS NULL
        ORDER BY mc.completed_date DESC
        LIMIT 1`,
       [taskId]
@@ -80,7 +88,7 @@ export const maintenanceCompletionRepository = {
 
   async getCountByTaskId(taskId: UUID): Promise<number> {
     const result = await queryFirst<{ count: number }>(
-      'SELECT COUNT(*) as count FROM maintenance_completions WHERE task_id = ?',
+      'SELECT COUNT(*) as count FROM maintenance_completions WHERE task_id = ? AND deleted_at IS NULL',
       [taskId]
     );
     return result?.count || 0;
@@ -116,7 +124,7 @@ export const maintenanceCompletionRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM maintenance_completions WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('maintenance_completions', id);
   },
 
   async deleteByTaskId(taskId: UUID): Promise<void> {
@@ -127,9 +135,9 @@ export const maintenanceCompletionRepository = {
     const rows = await queryAll<CompletionWithWorkerRow>(
       `SELECT mc.*, w.name as worker_name, mt.title as task_title
        FROM maintenance_completions mc
-       LEFT JOIN workers w ON mc.worker_id = w.id
+       LEFT JOIN workers w ON mc.worker_id = w.id AND w.deleted_at IS NULL
        LEFT JOIN maintenance_tasks mt ON mc.task_id = mt.id
-       WHERE mc.worker_id = ?
+       WHERE mc.worker_id = ? AND mc.deleted_at IS NULL
        ORDER BY mc.completed_date DESC`,
       [workerId]
     );
@@ -2,6 +2,7 @@ import { MaintenanceTask, MaintenanceTaskWithWorker, UUID } from '../../../types
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
 
 interface MaintenanceRow {
   id: string;
@@ -55,7 +56,7 @@ function mapRowToMaintenanceWithWorker(row: MaintenanceWithWorkerRow): Maintenan
 export const maintenanceRepository = {
   async getAll(): Promise<MaintenanceTask[]> {
     const rows = await queryAll<MaintenanceRow>(
-      'SELECT * FROM maintenance_tasks ORDER BY next_due_date ASC'
+      'SELECT * FROM maintenance_tasks WHERE deleted_at IS NULL ORDER BY next_due_date ASC'
     );
     return rows.map(mapRowToMaintenance);
   },
@@ -65,12 +66,12 @@ export const maintenanceRepository = {
       `SELECT mt.*,
               w.name as assigned_worker_name,
               (SELECT w2.name FROM maintenance_completions mc
-               LEFT JOIN workers w2 ON mc.worker_id = w2.id
-               WHERE mc.task_id = mt.id
+               LEFT JOIN workers w2 ON mc.worker_id = w2.id AND w2.deleted_at IS NULL
+               WHERE mc.task_id = mt.id AND mc.deleted_at IS NULL
                ORDER BY mc.completed_date DESC LIMIT 1) as last_completion_worker_name
        FROM maintenance_tasks mt
-       LEFT JOIN workers w ON mt.assigned_worker_id = w.id
-       WHERE mt.property_id = ? AND mt.is_active = 1
+       LEFT JOIN workers w ON mt.assigned_worker_id = w.id AND w.deleted_at IS NULL
+       WHERE mt.property_id = ? AND mt.is_active = 1 AND mt.deleted_at IS NULL
        ORDER BY mt.is_completed ASC, mt.next_due_date ASC`,
       [propertyId]
     );
@@ -79,7 +80,7 @@ export const maintenanceRepository = {
 
   async getById(id: UUID): Promise<MaintenanceTask | null> {
     const row = await queryFirst<MaintenanceRow>(
-      'SELECT * FROM maintenance_tasks WHERE id = ?',
+      'SELECT * FROM maintenance_tasks WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToMaintenance(row) : null;
@@ -90,12 +91,12 @@ export const maintenanceRepository = {
       `SELECT mt.*,
               w.name as assigned_worker_name,
               (SELECT w2.name FROM maintenance_completions mc
-               LEFT JOIN workers w2 ON mc.worker_id = w2.id
-               WHERE mc.task_id = mt.id
+               LEFT JOIN workers w2 ON mc.worker_id = w2.id AND w2.deleted_at IS NULL
+               WHERE mc.task_id = mt.id AND mc.deleted_at IS NULL
                ORDER BY mc.completed_date DESC LIMIT 1) as last_completion_worker_name
        FROM maintenance_tasks mt
-       LEFT JOIN workers w ON mt.assigned_worker_id = w.id
-       WHERE mt.id = ?`,
+       LEFT JOIN workers w ON mt.assigned_worker_id = w.id AND w.deleted_at IS NULL
+       WHERE mt.id = ? AND mt.deleted_at IS NULL`,
       [id]
     );
     return row ? mapRowToMaintenanceWithWorker(row) : null;
@@ -107,7 +108,7 @@ export const maintenanceRepository = {
 
     const rows = await queryAll<MaintenanceRow>(
       `SELECT * FROM maintenance_tasks
-       WHERE property_id = ? AND next_due_date <= ? AND is_completed = 0 AND is_active = 1
+       WHERE property_id = ? AND next_due_date <= ? AND is_completed = 0 AND is_active = 1 AND deleted_at IS NULL
        ORDER BY next_due_date ASC`,
       [propertyId, futureDate.toISOString()]
     );
@@ -118,7 +119,7 @@ export const maintenanceRepository = {
     const now = new Date().toISOString();
     const rows = await queryAll<MaintenanceRow>(
       `SELECT * FROM maintenance_tasks
-       WHERE property_id = ? AND next_due_date < ? AND is_completed = 0 AND is_active = 1
+       WHERE property_id = ? AND next_due_date < ? AND is_completed = 0 AND is_active = 1 AND deleted_at IS NULL
        ORDER BY next_due_date ASC`,
       [propertyId, now]
     );
@@ -258,7 +259,7 @@ export const maintenanceRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM maintenance_tasks WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('maintenance_tasks', id);
   },
 
   async getByAssignedWorkerId(workerId: UUID): Promise<MaintenanceTaskWithWorker[]> {
@@ -266,12 +267,12 @@ export const maintenanceRepository = {
       `SELECT mt.*,
               w.name as assigned_worker_name,
               (SELECT w2.name FROM maintenance_completions mc
-               LEFT JOIN workers w2 ON mc.worker_id = w2.id
-               WHERE mc.task_id = mt.id
+               LEFT JOIN workers w2 ON mc.worker_id = w2.id AND w2.deleted_at IS NULL
+               WHERE mc.task_id = mt.id AND mc.deleted_at IS NULL
                ORDER BY mc.completed_date DESC LIMIT 1) as last_completion_worker_name
        FROM maintenance_tasks mt
-       LEFT JOIN workers w ON mt.assigned_worker_id = w.id
-       WHERE mt.assigned_worker_id = ? AND mt.is_active = 1
+       LEFT JOIN workers w ON mt.assigned_worker_id = w.id AND w.deleted_at IS NULL
+       WHERE mt.assigned_worker_id = ? AND mt.is_active = 1 AND mt.deleted_at IS NULL
        ORDER BY mt.is_completed ASC, mt.next_due_date ASC`,
       [workerId]
     );
@@ -2,6 +2,7 @@ import { Measurement, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
 
 interface MeasurementRow {
   id: string;
@@ -40,14 +41,14 @@ function mapRowToMeasurement(row: MeasurementRow): Measurement {
 export const measurementRepository = {
   async getAll(): Promise<Measurement[]> {
     const rows = await queryAll<MeasurementRow>(
-      'SELECT * FROM measurements ORDER BY name ASC'
+      'SELECT * FROM measurements WHERE deleted_at IS NULL ORDER BY name ASC'
     );
     return rows.map(mapRowToMeasurement);
   },
 
   async getByPropertyId(propertyId: UUID): Promise<Measurement[]> {
     const rows = await queryAll<MeasurementRow>(
-      'SELECT * FROM measurements WHERE property_id = ? ORDER BY name ASC',
+      'SELECT * FROM measurements WHERE property_id = ? AND deleted_at IS NULL ORDER BY name ASC',
       [propertyId]
     );
     return rows.map(mapRowToMeasurement);
@@ -55,7 +56,7 @@ export const measurementRepository = {
 
   async getByRoomId(roomId: UUID): Promise<Measurement[]> {
     const rows = await queryAll<MeasurementRow>(
-      'SELECT * FROM measurements WHERE room_id = ? ORDER BY name ASC',
+      'SELECT * FROM measurements WHERE room_id = ? AND deleted_at IS NULL ORDER BY name ASC',
       [roomId]
     );
     return rows.map(mapRowToMeasurement);
@@ -63,7 +64,7 @@ export const measurementRepository = {
 
   async getById(id: UUID): Promise<Measurement | null> {
     const row = await queryFirst<MeasurementRow>(
-      'SELECT * FROM measurements WHERE id = ?',
+      'SELECT * FROM measurements WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToMeasurement(row) : null;
@@ -155,6 +156,6 @@ export const measurementRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM measurements WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('measurements', id);
   },
 };
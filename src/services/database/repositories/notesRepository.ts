@@ -2,6 +2,7 @@ import { Note, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
 
 interface NoteRow {
   id: string;
@@ -36,14 +37,14 @@ function mapRowToNote(row: NoteRow): Note {
 export const notesRepository = {
   async getAll(): Promise<Note[]> {
     const rows = await queryAll<NoteRow>(
-      'SELECT * FROM notes ORDER BY is_pinned DESC, updated_at DESC'
+      'SELECT * FROM notes WHERE deleted_at IS NULL ORDER BY is_pinned DESC, updated_at DESC'
     );
     return rows.map(mapRowToNote);
   },
 
   async getByPropertyId(propertyId: UUID): Promise<Note[]> {
     const rows = await queryAll<NoteRow>(
-      'SELECT * FROM notes WHERE property_id = ? ORDER BY is_pinned DESC, updated_at DESC',
+      'SELECT * FROM notes WHERE property_id = ? AND deleted_at IS NULL ORDER BY is_pinned DESC, updated_at DESC',
       [propertyId]
     );
     return rows.map(mapRowToNote);
@@ -51,7 +52,7 @@ export const notesRepository = {
 
   async getByRoomId(roomId: UUID): Promise<Note[]> {
     const rows = await queryAll<NoteRow>(
-      'SELECT * FROM notes WHERE room_id = ? ORDER BY is_pinned DESC, updated_at DESC',
+      'SELECT * FROM notes WHERE room_id = ? AND deleted_at IS NULL ORDER BY is_pinned DESC, updated_at DESC',
       [roomId]
     );
     return rows.map(mapRowToNote);
@@ -59,7 +60,7 @@ export const notesRepository = {
 
   async getByAssetId(assetId: UUID): Promise<Note[]> {
     const rows = await queryAll<NoteRow>(
-      'SELECT * FROM notes WHERE asset_id = ? ORDER BY is_pinned DESC, updated_at DESC',
+      'SELECT * FROM notes WHERE asset_id = ? AND deleted_at IS NULL ORDER BY is_pinned DESC, updated_at DESC',
       [assetId]
     );
     return rows.map(mapRowToNote);
@@ -67,7 +68,7 @@ export const notesRepository = {
 
   async getByWorkerId(workerId: UUID): Promise<Note[]> {
     const rows = await queryAll<NoteRow>(
-      'SELECT * FROM notes WHERE worker_id = ? ORDER BY is_pinned DESC, updated_at DESC',
+      'SELECT * FROM notes WHERE worker_id = ? AND deleted_at IS NULL ORDER BY is_pinned DESC, updated_at DESC',
       [workerId]
     );
     return rows.map(mapRowToNote);
@@ -75,14 +76,14 @@ export const notesRepository = {
 
   async getById(id: UUID): Promise<Note | null> {
     const row = await queryFirst<NoteRow>(
-      'SELECT * FROM notes WHERE id = ?',
+      'SELECT * FROM notes WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToNote(row) : null;
   },
 
   async getPinned(propertyId?: UUID): Promise<Note[]> {
-    let sql = 'SELECT * FROM notes WHERE is_pinned = 1';
+    let sql = 'SELECT * FROM notes WHERE is_pinned = 1 AND deleted_at IS NULL';
     const params: any[] = [];
 
     if (propertyId) {
@@ -97,7 +98,7 @@ export const notesRepository = {
 
   async search(query: string, propertyId?: UUID): Promise<Note[]> {
     const searchQuery = `%${query}%`;
-    let sql = 'SELECT * FROM notes WHERE content LIKE ?';
+    let sql = 'SELECT * FROM notes WHERE content LIKE ? AND deleted_at IS NULL';
     const params: any[] = [searchQuery];
 
     if (propertyId) {
@@ -197,7 +198,7 @@ export const notesRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM notes WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('notes', id);
   },
 
   async deleteByPropertyId(propertyId: UUID): Promise<void> {
@@ -205,11 +206,11 @@ export const notesRepository = {
   },
 
   async getRecentNotes(limit: number = 10, propertyId?: UUID): Promise<Note[]> {
-    let sql = 'SELECT * FROM notes';
+    let sql = 'SELECT * FROM notes WHERE deleted_at IS NULL';
     const params: any[] = [];
 
     if (propertyId) {
-      sql += ' WHERE property_id = ?';
+      sql += ' AND property_id = ?';
       params.push(propertyId);
     }
 
@@ -222,7 +223,7 @@ export const notesRepository = {
 
   async getUpcomingReminders(propertyId?: UUID): Promise<Note[]> {
     const now = getCurrentISODate();
-    let sql = 'SELECT * FROM notes WHERE reminder_date IS NOT NULL AND reminder_date >= ?';
+    let sql = 'SELECT * FROM notes WHERE reminder_date IS NOT NULL AND reminder_date >= ? AND deleted_at IS NULL';
     const params: any[] = [now];
 
     if (propertyId) {
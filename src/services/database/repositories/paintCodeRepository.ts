@@ -2,6 +2,7 @@ import { PaintCode, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
 
 interface PaintCodeRow {
   id: string;
@@ -38,14 +39,14 @@ function mapRowToPaintCode(row: PaintCodeRow): PaintCode {
 export const paintCodeRepository = {
   async getAll(): Promise<PaintCode[]> {
     const rows = await queryAll<PaintCodeRow>(
-      'SELECT * FROM paint_codes ORDER BY location ASC'
+      'SELECT * FROM paint_codes WHERE deleted_at IS NULL ORDER BY location ASC'
     );
     return rows.map(mapRowToPaintCode);
   },
 
   async getByPropertyId(propertyId: UUID): Promise<PaintCode[]> {
     const rows = await queryAll<PaintCodeRow>(
-      'SELECT * FROM paint_codes WHERE property_id = ? ORDER BY location ASC',
+      'SELECT * FROM paint_codes WHERE property_id = ? AND deleted_at IS NULL ORDER BY location ASC',
       [propertyId]
     );
     return rows.map(mapRowToPaintCode);
@@ -53,7 +54,7 @@ export const paintCodeRepository = {
 
   async getByRoomId(roomId: UUID): Promise<PaintCode[]> {
     const rows = await queryAll<PaintCodeRow>(
-      'SELECT * FROM paint_codes WHERE room_id = ? ORDER BY location ASC',
+      'SELECT * FROM paint_codes WHERE room_id = ? AND deleted_at IS NULL ORDER BY location ASC',
       [roomId]
     );
     return rows.map(mapRowToPaintCode);
@@ -61,7 +62,7 @@ export const paintCodeRepository = {
 
   async getById(id: UUID): Promise<PaintCode | null> {
     const row = await queryFirst<PaintCodeRow>(
-      'SELECT * FROM paint_codes WHERE id = ?',
+      'SELECT * FROM paint_codes WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToPaintCode(row) : null;
@@ -148,6 +149,6 @@ export const paintCodeRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM paint_codes WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('paint_codes', id);
   },
 };
@@ -0,0 +1,102 @@
+import { PayeeRule, ExpenseType, UUID } from '../../../types';
+import { queryAll, queryFirst, execute } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+
+interface PayeeRuleRow {
+  id: string;
+  property_id: string;
+  pattern: string;
+  template_id: string | null;
+  expense_type: string;
+  category: string;
+  created_at: string;
+  updated_at: string;
+}
+
+function mapRowToPayeeRule(row: PayeeRuleRow): PayeeRule {
+  return {
+    id: row.id,
+    propertyId: row.property_id,
+    pattern: row.pattern,
+    templateId: row.template_id || undefined,
+    expenseType: row.expense_type as ExpenseType,
+    category: row.category,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const payeeRuleRepository = {
+  async getAll(): Promise<PayeeRule[]> {
+    const rows = await queryAll<PayeeRuleRow>(
+      'SELECT * FROM payee_rules ORDER BY pattern'
+    );
+    return rows.map(mapRowToPayeeRule);
+  },
+
+  async getByPropertyId(propertyId: UUID): Promise<PayeeRule[]> {
+    const rows = await queryAll<PayeeRuleRow>(
+      'SELECT * FROM payee_rules WHERE property_id = ? ORDER BY pattern',
+      [propertyId]
+    );
+    return rows.map(mapRowToPayeeRule);
+  },
+
+  async getById(id: UUID): Promise<PayeeRule | null> {
+    const row = await queryFirst<PayeeRuleRow>(
+      'SELECT * FROM payee_rules WHERE id = ?',
+      [id]
+    );
+    return row ? mapRowToPayeeRule(row) : null;
+  },
+
+  async create(data: Omit<PayeeRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<PayeeRule> {
+    const id = generateUUID();
+    const now = getCurrentISODate();
+
+    await execute(
+      `INSERT INTO payee_rules (id, property_id, pattern, template_id, expense_type, category, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        data.propertyId,
+        data.pattern,
+        data.templateId || null,
+        data.expenseType,
+        data.category,
+        now,
+        now,
+      ]
+    );
+
+    const rule = await this.getById(id);
+    if (!rule) throw new Error('Failed to create payee rule');
+    return rule;
+  },
+
+  // Creates the rule, or points the existing rule for this pattern at the new
+  // bill or category
+  async upsert(data: Omit<PayeeRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<PayeeRule> {
+    const existing = await queryFirst<PayeeRuleRow>(
+      'SELECT * FROM payee_rules WHERE property_id = ? AND pattern = ?',
+      [data.propertyId, data.pattern]
+    );
+    if (!existing) {
+      return this.create(data);
+    }
+
+    await execute(
+      `UPDATE payee_rules SET template_id = ?, expense_type = ?, category = ?, updated_at = ? WHERE id = ?`,
+      [data.templateId || null, data.expenseType, data.category, getCurrentISODate(), existing.id]
+    );
+
+    const rule = await this.getById(existing.id);
+    if (!rule) throw new Error('Payee rule not found');
+    return rule;
+  },
+
+  async delete(id: UUID): Promise<void> {
+    await execute('DELETE FROM payee_rules WHERE id = ?', [id]);
+  },
+};
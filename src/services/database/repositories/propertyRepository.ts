@@ -2,54 +2,37 @@ import { Property, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
+import { propertyEntity } from '../entities';
+import { Row } from '../entity';
 
-interface PropertyRow {
-  id: string;
-  name: string;
-  address: string;
-  type: string;
-  image_uri: string | null;
-  created_at: string;
-  updated_at: string;
-}
-
-function mapRowToProperty(row: PropertyRow): Property {
-  return {
-    id: row.id,
-    name: row.name,
-    address: row.address,
-    type: row.type as Property['type'],
-    imageUri: row.image_uri || undefined,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  };
+function mapRowToProperty(row: Row): Property {
+  return propertyEntity.fromRow(row);
 }
 
 export const propertyRepository = {
   async getAll(): Promise<Property[]> {
-    const rows = await queryAll<PropertyRow>(
-      'SELECT * FROM properties ORDER BY created_at DESC'
+    const rows = await queryAll<Row>(
+      'SELECT * FROM properties WHERE deleted_at IS NULL ORDER BY created_at DESC'
     );
     return rows.map(mapRowToProperty);
   },
 
   async getById(id: UUID): Promise<Property | null> {
-    const row = await queryFirst<PropertyRow>(
-      'SELECT * FROM properties WHERE id = ?',
+    const row = await queryFirst<Row>(
+      'SELECT * FROM properties WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToProperty(row) : null;
   },
 
   async create(data: Omit<Property, 'id' | 'createdAt' | 'updatedAt'>): Promise<Property> {
+    propertyEntity.assertValid(data);
     const id = generateUUID();
     const now = getCurrentISODate();
 
-    await execute(
-      `INSERT INTO properties (id, name, address, type, image_uri, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [id, data.name, data.address, data.type, data.imageUri || null, now, now]
-    );
+    const { sql, params } = propertyEntity.toInsert({ ...data, id, createdAt: now, updatedAt: now });
+    await execute(sql, params);
 
     const property = await this.getById(id);
     if (!property) throw new Error('Failed to create property');
@@ -57,35 +40,9 @@ export const propertyRepository = {
   },
 
   async update(id: UUID, data: Partial<Omit<Property, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Property> {
-    const now = getCurrentISODate();
-    const fields: string[] = [];
-    const values: any[] = [];
-
-    if (data.name !== undefined) {
-      fields.push('name = ?');
-      values.push(data.name);
-    }
-    if (data.address !== undefined) {
-      fields.push('address = ?');
-      values.push(data.address);
-    }
-    if (data.type !== undefined) {
-      fields.push('type = ?');
-      values.push(data.type);
-    }
-    if (data.imageUri !== undefined) {
-      fields.push('image_uri = ?');
-      values.push(data.imageUri || null);
-    }
-
-    fields.push('updated_at = ?');
-    values.push(now);
-    values.push(id);
-
-    await execute(
-      `UPDATE properties SET ${fields.join(', ')} WHERE id = ?`,
-      values
-    );
+    propertyEntity.assertValid(data, { partial: true });
+    const { sql, params } = propertyEntity.toUpdate(id, { ...data, updatedAt: getCurrentISODate() });
+    await execute(sql, params);
 
     const property = await this.getById(id);
     if (!property) throw new Error('Property not found');
@@ -93,12 +50,12 @@ export const propertyRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM properties WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('properties', id);
   },
 
   async count(): Promise<number> {
     const result = await queryFirst<{ count: number }>(
-      'SELECT COUNT(*) as count FROM properties'
+      'SELECT COUNT(*) as count FROM properties WHERE deleted_at IS NULL'
     );
     return result?.count ?? 0;
   },
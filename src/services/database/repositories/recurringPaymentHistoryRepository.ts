@@ -2,6 +2,7 @@ import { RecurringPaymentHistory, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
 
 interface PaymentHistoryRow {
   id: string;
@@ -24,9 +25,16 @@ function mapRowToPaymentHistory(row: PaymentHistoryRow): RecurringPaymentHistory
 }
 
 export const recurringPaymentHistoryRepository = {
+  async getAll(): Promise<RecurringPaymentHistory[]> {
+    const rows = await queryAll<PaymentHistoryRow>(
+      'SELECT * FROM recurring_payment_history WHERE deleted_at IS NULL ORDER BY paid_date DESC'
+    );
+    return rows.map(mapRowToPaymentHistory);
+  },
+
   async getByTemplateId(templateId: UUID): Promise<RecurringPaymentHistory[]> {
     const rows = await queryAll<PaymentHistoryRow>(
-      'SELECT * FROM recurring_payment_history WHERE template_id = ? ORDER BY paid_date DESC',
+      'SELECT * FROM recurring_payment_history WHERE template_id = ? AND deleted_at IS NULL ORDER BY paid_date DESC',
       [templateId]
     );
     return rows.map(mapRowToPaymentHistory);
@@ -34,7 +42,7 @@ export const recurringPaymentHistoryRepository = {
 
   async getById(id: UUID): Promise<RecurringPaymentHistory | null> {
     const row = await queryFirst<PaymentHistoryRow>(
-      'SELECT * FROM recurring_payment_history WHERE id = ?',
+      'SELECT * FROM recurring_payment_history WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToPaymentHistory(row) : null;
@@ -42,7 +50,7 @@ export const recurringPaymentHistoryRepository = {
 
   async getLatestByTemplateId(templateId: UUID): Promise<RecurringPaymentHistory | null> {
     const row = await queryFirst<PaymentHistoryRow>(
-      'SELECT * FROM recurring_payment_history WHERE template_id = ? ORDER BY paid_date DESC LIMIT 1',
+      'SELECT * FROM recurring_payment_history WHERE template_id = ? AND deleted_at IS NULL ORDER BY paid_date DESC LIMIT 1',
       [templateId]
     );
     return row ? mapRowToPaymentHistory(row) : null;
@@ -50,7 +58,7 @@ export const recurringPaymentHistoryRepository = {
 
   async getCountByTemplateId(templateId: UUID): Promise<number> {
     const result = await queryFirst<{ count: number }>(
-      'SELECT COUNT(*) as count FROM recurring_payment_history WHERE template_id = ?',
+      'SELECT COUNT(*) as count FROM recurring_payment_history WHERE template_id = ? AND deleted_at IS NULL',
       [templateId]
     );
     return result?.count || 0;
@@ -58,7 +66,7 @@ export const recurringPaymentHistoryRepository = {
 
   async getTotalByTemplateId(templateId: UUID): Promise<number> {
     const result = await queryFirst<{ total: number }>(
-      'SELECT SUM(amount) as total FROM recurring_payment_history WHERE template_id = ?',
+      'SELECT SUM(amount) as total FROM recurring_payment_history WHERE template_id = ? AND deleted_at IS NULL',
       [templateId]
     );
     return result?.total || 0;
@@ -121,7 +129,7 @@ export const recurringPaymentHistoryRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM recurring_payment_history WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('recurring_payment_history', id);
   },
 
   async deleteByTemplateId(templateId: UUID): Promise<void> {
@@ -2,6 +2,8 @@ import { RecurringTemplate, RecurringTemplateWithHistory, UUID } from '../../../
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { getCachedCurrency } from '../../../utils/currency';
+import { trashRepository } from './trashRepository';
 
 interface RecurringTemplateRow {
   id: string;
@@ -9,6 +11,7 @@ interface RecurringTemplateRow {
   name: string;
   category: string;
   estimated_amount: number | null;
+  currency: string | null;
   frequency: string;
   typical_payment_day: string | null;
   is_active: number;
@@ -29,6 +32,7 @@ function mapRowToTemplate(row: RecurringTemplateRow): RecurringTemplate {
     name: row.name,
     category: row.category,
     estimatedAmount: row.estimated_amount || undefined,
+    currency: row.currency || undefined,
     frequency: row.frequency as RecurringTemplate['frequency'],
     typicalPaymentDay: row.typical_payment_day || undefined,
     isActive: row.is_active === 1,
@@ -49,14 +53,14 @@ function mapRowToTemplateWithHistory(row: RecurringTemplateWithHistoryRow): Recu
 export const recurringTemplateRepository = {
   async getAll(): Promise<RecurringTemplate[]> {
     const rows = await queryAll<RecurringTemplateRow>(
-      'SELECT * FROM recurring_templates ORDER BY name ASC'
+      'SELECT * FROM recurring_templates WHERE deleted_at IS NULL ORDER BY name ASC'
     );
     return rows.map(mapRowToTemplate);
   },
 
   async getByPropertyId(propertyId: UUID): Promise<RecurringTemplate[]> {
     const rows = await queryAll<RecurringTemplateRow>(
-      'SELECT * FROM recurring_templates WHERE property_id = ? ORDER BY name ASC',
+      'SELECT * FROM recurring_templates WHERE property_id = ? AND deleted_at IS NULL ORDER BY name ASC',
       [propertyId]
     );
     return rows.map(mapRowToTemplate);
@@ -65,11 +69,11 @@ export const recurringTemplateRepository = {
   async getByPropertyIdWithHistory(propertyId: UUID): Promise<RecurringTemplateWithHistory[]> {
     const rows = await queryAll<RecurringTemplateWithHistoryRow>(
       `SELECT rt.*,
-              (SELECT COUNT(*) FROM recurring_payment_history rph WHERE rph.template_id = rt.id) as payment_count,
-              (SELECT rph.paid_date FROM recurring_payment_history rph WHERE rph.template_id = rt.id ORDER BY rph.paid_date DESC LIMIT 1) as last_payment_date,
-              (SELECT rph.amount FROM recurring_payment_history rph WHERE rph.template_id = rt.id ORDER BY rph.paid_date DESC LIMIT 1) as last_payment_amount
+              (SELECT COUNT(*) FROM recurring_payment_history rph WHERE rph.template_id = rt.id AND rph.deleted_at IS NULL) as payment_count,
+              (SELECT rph.paid_date FROM recurring_payment_history rph WHERE rph.template_id = rt.id AND rph.deleted_at IS NULL ORDER BY rph.paid_date DESC LIMIT 1) as last_payment_date,
+              (SELECT rph.amount FROM recurring_payment_history rph WHERE rph.template_id = rt.id AND rph.deleted_at IS NULL ORDER BY rph.paid_date DESC LIMIT 1) as last_payment_amount
        FROM recurring_templates rt
-       WHERE rt.property_id = ?
+       WHERE rt.property_id = ? AND rt.deleted_at IS NULL
        ORDER BY rt.is_active DESC, rt.name ASC`,
       [propertyId]
     );
@@ -78,7 +82,7 @@ export const recurringTemplateRepository = {
 
   async getActiveByPropertyId(propertyId: UUID): Promise<RecurringTemplate[]> {
     const rows = await queryAll<RecurringTemplateRow>(
-      'SELECT * FROM recurring_templates WHERE property_id = ? AND is_active = 1 ORDER BY name ASC',
+      'SELECT * FROM recurring_templates WHERE property_id = ? AND is_active = 1 AND deleted_at IS NULL ORDER BY name ASC',
       [propertyId]
     );
     return rows.map(mapRowToTemplate);
@@ -86,7 +90,7 @@ export const recurringTemplateRepository = {
 
   async getById(id: UUID): Promise<RecurringTemplate | null> {
     const row = await queryFirst<RecurringTemplateRow>(
-      'SELECT * FROM recurring_templates WHERE id = ?',
+      'SELECT * FROM recurring_templates WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToTemplate(row) : null;
@@ -95,11 +99,11 @@ export const recurringTemplateRepository = {
   async getByIdWithHistory(id: UUID): Promise<RecurringTemplateWithHistory | null> {
     const row = await queryFirst<RecurringTemplateWithHistoryRow>(
       `SELECT rt.*,
-              (SELECT COUNT(*) FROM recurring_payment_history rph WHERE rph.template_id = rt.id) as payment_count,
-              (SELECT rph.paid_date FROM recurring_payment_history rph WHERE rph.template_id = rt.id ORDER BY rph.paid_date DESC LIMIT 1) as last_payment_date,
-              (SELECT rph.amount FROM recurring_payment_history rph WHERE rph.template_id = rt.id ORDER BY rph.paid_date DESC LIMIT 1) as last_payment_amount
+              (SELECT COUNT(*) FROM recurring_payment_history rph WHERE rph.template_id = rt.id AND rph.deleted_at IS NULL) as payment_count,
+              (SELECT rph.paid_date FROM recurring_payment_history rph WHERE rph.template_id = rt.id AND rph.deleted_at IS NULL ORDER BY rph.paid_date DESC LIMIT 1) as last_payment_date,
+              (SELECT rph.amount FROM recurring_payment_history rph WHERE rph.template_id = rt.id AND rph.deleted_at IS NULL ORDER BY rph.paid_date DESC LIMIT 1) as last_payment_amount
        FROM recurring_templates rt
-       WHERE rt.id = ?`,
+       WHERE rt.id = ? AND rt.deleted_at IS NULL`,
       [id]
     );
     return row ? mapRowToTemplateWithHistory(row) : null;
@@ -110,14 +114,15 @@ export const recurringTemplateRepository = {
     const now = getCurrentISODate();
 
     await execute(
-      `INSERT INTO recurring_templates (id, property_id, name, category, estimated_amount, frequency, typical_payment_day, is_active, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO recurring_templates (id, property_id, name, category, estimated_amount, currency, frequency, typical_payment_day, is_active, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         data.propertyId,
         data.name,
         data.category,
         data.estimatedAmount ?? 0,
+        data.currency || getCachedCurrency(),
         data.frequency,
         data.typicalPaymentDay || null,
         data.isActive ? 1 : 0,
@@ -148,6 +153,10 @@ export const recurringTemplateRepository = {
       fields.push('estimated_amount = ?');
       values.push(data.estimatedAmount ?? 0);
     }
+    if (data.currency !== undefined) {
+      fields.push('currency = ?');
+      values.push(data.currency);
+    }
     if (data.frequency !== undefined) {
       fields.push('frequency = ?');
       values.push(data.frequency);
@@ -176,7 +185,7 @@ export const recurringTemplateRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM recurring_templates WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('recurring_templates', id);
   },
 
   async toggleActive(id: UUID): Promise<RecurringTemplate> {
@@ -37,12 +37,19 @@ function mapRowToRenovationAssetWithDetails(row: RenovationAssetWithDetailsRow):
 }
 
 export const renovationAssetRepository = {
+  async getAll(): Promise<RenovationAsset[]> {
+    const rows = await queryAll<RenovationAssetRow>(
+      'SELECT * FROM renovation_assets WHERE deleted_at IS NULL ORDER BY created_at ASC'
+    );
+    return rows.map(mapRowToRenovationAsset);
+  },
+
   async getByRenovationId(renovationId: UUID): Promise<RenovationAssetWithDetails[]> {
     const rows = await queryAll<RenovationAssetWithDetailsRow>(
       `SELECT ra.*, a.name as asset_name, a.category as asset_category, a.brand as asset_brand
        FROM renovation_assets ra
        JOIN assets a ON ra.asset_id = a.id
-       WHERE ra.renovation_id = ?
+       WHERE ra.renovation_id = ? AND ra.deleted_at IS NULL
        ORDER BY ra.created_at ASC`,
       [renovationId]
     );
@@ -60,13 +67,14 @@ export const renovationAssetRepository = {
     );
 
     const result = await queryFirst<RenovationAssetRow>(
-      'SELECT * FROM renovation_assets WHERE id = ?',
+      'SELECT * FROM renovation_assets WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     if (!result) throw new Error('Failed to create renovation asset');
     return mapRowToRenovationAsset(result);
   },
 
+  // Unlinking leaves both records in place, so it skips the trash
   async delete(id: UUID): Promise<void> {
     await execute('DELETE FROM renovation_assets WHERE id = ?', [id]);
   },
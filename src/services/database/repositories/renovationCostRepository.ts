@@ -1,15 +1,20 @@
-import { RenovationCost, UUID } from '../../../types';
+import { RenovationCost, TaxTreatment, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { getCachedCurrency } from '../../../utils/currency';
+import { trashRepository } from './trashRepository';
+import { toReportingCurrencySql } from './exchangeRateRepository';
 
 interface RenovationCostRow {
   id: string;
   renovation_id: string;
   description: string;
   amount: number;
+  currency: string | null;
   category: string | null;
   date: string | null;
+  tax_treatment: string | null;
   created_at: string;
 }
 
@@ -19,24 +24,35 @@ function mapRowToRenovationCost(row: RenovationCostRow): RenovationCost {
     renovationId: row.renovation_id,
     description: row.description,
     amount: row.amount,
+    currency: row.currency || undefined,
     category: row.category || undefined,
     date: row.date || undefined,
+    taxTreatment: (row.tax_treatment as TaxTreatment) || undefined,
     createdAt: row.created_at,
   };
 }
 
 export const renovationCostRepository = {
+  async getAll(): Promise<RenovationCost[]> {
+    const rows = await queryAll<RenovationCostRow>(
+      'SELECT * FROM renovation_costs WHERE deleted_at IS NULL ORDER BY created_at ASC'
+    );
+    return rows.map(mapRowToRenovationCost);
+  },
+
   async getByRenovationId(renovationId: UUID): Promise<RenovationCost[]> {
     const rows = await queryAll<RenovationCostRow>(
-      `SELECT * FROM renovation_costs WHERE renovation_id = ? ORDER BY created_at ASC`,
+      `SELECT * FROM renovation_costs WHERE renovation_id = ? AND deleted_at IS NULL ORDER BY created_at ASC`,
       [renovationId]
     );
     return rows.map(mapRowToRenovationCost);
   },
 
+  // In the reporting currency, leaving out costs no stored rate converts
   async getTotalByRenovationId(renovationId: UUID): Promise<number> {
+    const amount = toReportingCurrencySql('c.amount', 'c.currency', 'COALESCE(c.date, c.created_at)');
     const result = await queryFirst<{ total: number }>(
-      'SELECT COALESCE(SUM(amount), 0) as total FROM renovation_costs WHERE renovation_id = ?',
+      `SELECT COALESCE(SUM(${amount}), 0) as total FROM renovation_costs c WHERE c.renovation_id = ? AND c.deleted_at IS NULL`,
       [renovationId]
     );
     return result?.total || 0;
@@ -47,20 +63,34 @@ export const renovationCostRepository = {
     const now = getCurrentISODate();
 
     await execute(
-      `INSERT INTO renovation_costs (id, renovation_id, description, amount, category, date, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [id, data.renovationId, data.description, data.amount, data.category || null, data.date || null, now]
+      `INSERT INTO renovation_costs (id, renovation_id, description, amount, currency, category, date, tax_treatment, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        data.renovationId,
+        data.description,
+        data.amount,
+        data.currency || getCachedCurrency(),
+        data.category || null,
+        data.date || null,
+        data.taxTreatment || null,
+        now,
+      ]
     );
 
     const result = await queryFirst<RenovationCostRow>(
-      'SELECT * FROM renovation_costs WHERE id = ?',
+      'SELECT * FROM renovation_costs WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     if (!result) throw new Error('Failed to create renovation cost');
     return mapRowToRenovationCost(result);
   },
 
-  async update(id: UUID, data: Partial<Omit<RenovationCost, 'id' | 'renovationId' | 'createdAt'>>): Promise<RenovationCost> {
+  // An empty tax treatment clears it
+  async update(
+    id: UUID,
+    data: Partial<Omit<RenovationCost, 'id' | 'renovationId' | 'taxTreatment' | 'createdAt'>> & { taxTreatment?: TaxTreatment | '' }
+  ): Promise<RenovationCost> {
     const fields: string[] = [];
     const values: any[] = [];
 
@@ -72,6 +102,10 @@ export const renovationCostRepository = {
       fields.push('amount = ?');
       values.push(data.amount);
     }
+    if (data.currency !== undefined) {
+      fields.push('currency = ?');
+      values.push(data.currency);
+    }
     if (data.category !== undefined) {
       fields.push('category = ?');
       values.push(data.category || null);
@@ -80,6 +114,10 @@ export const renovationCostRepository = {
       fields.push('date = ?');
       values.push(data.date || null);
     }
+    if (data.taxTreatment !== undefined) {
+      fields.push('tax_treatment = ?');
+      values.push(data.taxTreatment || null);
+    }
 
     if (fields.length > 0) {
       values.push(id);
@@ -90,7 +128,7 @@ export const renovationCostRepository = {
     }
 
     const result = await queryFirst<RenovationCostRow>(
-      'SELECT * FROM renovation_costs WHERE id = ?',
+      'SELECT * FROM renovation_costs WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     if (!result) throw new Error('Renovation cost not found');
@@ -98,7 +136,7 @@ export const renovationCostRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM renovation_costs WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('renovation_costs', id);
   },
 
   async deleteByRenovationId(renovationId: UUID): Promise<void> {
@@ -1,10 +1,12 @@
-import { Renovation, RenovationWithDetails, UUID, ExpenseType } from '../../../types';
+import { Renovation, RenovationCost, RenovationWithDetails, UUID, ExpenseType } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
 import { renovationWorkerRepository } from './renovationWorkerRepository';
 import { renovationAssetRepository } from './renovationAssetRepository';
 import { renovationCostRepository } from './renovationCostRepository';
+import { trashRepository } from './trashRepository';
+import { exchangeRateRepository, sumInReportingCurrency, CurrencyConverter } from './exchangeRateRepository';
 
 interface RenovationRow {
   id: string;
@@ -42,17 +44,22 @@ function mapRowToRenovation(row: RenovationRow): Renovation {
   };
 }
 
+// In the reporting currency, leaving out costs no stored rate converts
+function sumCosts(costs: RenovationCost[], convert: CurrencyConverter): number {
+  return sumInReportingCurrency(costs.map(cost => ({ ...cost, date: cost.date ?? cost.createdAt })), convert);
+}
+
 export const renovationRepository = {
   async getAll(): Promise<Renovation[]> {
     const rows = await queryAll<RenovationRow>(
-      'SELECT * FROM renovations ORDER BY created_at DESC'
+      'SELECT * FROM renovations WHERE deleted_at IS NULL ORDER BY created_at DESC'
     );
     return rows.map(mapRowToRenovation);
   },
 
   async getByPropertyId(propertyId: UUID): Promise<Renovation[]> {
     const rows = await queryAll<RenovationRow>(
-      'SELECT * FROM renovations WHERE property_id = ? ORDER BY created_at DESC',
+      'SELECT * FROM renovations WHERE property_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
       [propertyId]
     );
     return rows.map(mapRowToRenovation);
@@ -60,7 +67,7 @@ export const renovationRepository = {
 
   async getByRoomId(roomId: UUID): Promise<Renovation[]> {
     const rows = await queryAll<RenovationRow>(
-      'SELECT * FROM renovations WHERE room_id = ? ORDER BY created_at DESC',
+      'SELECT * FROM renovations WHERE room_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
       [roomId]
     );
     return rows.map(mapRowToRenovation);
@@ -68,7 +75,7 @@ export const renovationRepository = {
 
   async getById(id: UUID): Promise<Renovation | null> {
     const row = await queryFirst<RenovationRow>(
-      'SELECT * FROM renovations WHERE id = ?',
+      'SELECT * FROM renovations WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToRenovation(row) : null;
@@ -76,7 +83,7 @@ export const renovationRepository = {
 
   async getCompleted(propertyId: UUID): Promise<Renovation[]> {
     const rows = await queryAll<RenovationRow>(
-      'SELECT * FROM renovations WHERE property_id = ? AND after_image_uri IS NOT NULL ORDER BY completed_date DESC',
+      'SELECT * FROM renovations WHERE property_id = ? AND after_image_uri IS NOT NULL AND deleted_at IS NULL ORDER BY completed_date DESC',
       [propertyId]
     );
     return rows.map(mapRowToRenovation);
@@ -84,7 +91,7 @@ export const renovationRepository = {
 
   async getInProgress(propertyId: UUID): Promise<Renovation[]> {
     const rows = await queryAll<RenovationRow>(
-      'SELECT * FROM renovations WHERE property_id = ? AND after_image_uri IS NULL ORDER BY created_at DESC',
+      'SELECT * FROM renovations WHERE property_id = ? AND after_image_uri IS NULL AND deleted_at IS NULL ORDER BY created_at DESC',
       [propertyId]
     );
     return rows.map(mapRowToRenovation);
@@ -171,12 +178,12 @@ export const renovationRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM renovations WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('renovations', id);
   },
 
   async getTotalCostByPropertyId(propertyId: UUID): Promise<number> {
     const result = await queryFirst<{ total: number }>(
-      'SELECT COALESCE(SUM(cost), 0) as total FROM renovations WHERE property_id = ?',
+      'SELECT COALESCE(SUM(cost), 0) as total FROM renovations WHERE property_id = ? AND deleted_at IS NULL',
       [propertyId]
     );
     return result?.total || 0;
@@ -186,19 +193,20 @@ export const renovationRepository = {
     const row = await queryFirst<RenovationWithRoomRow>(
       `SELECT r.*, rm.name as room_name
        FROM renovations r
-       LEFT JOIN rooms rm ON r.room_id = rm.id
-       WHERE r.id = ?`,
+       LEFT JOIN rooms rm ON r.room_id = rm.id AND rm.deleted_at IS NULL
+       WHERE r.id = ? AND r.deleted_at IS NULL`,
       [id]
     );
     if (!row) return null;
 
-    const [workers, assets, costs] = await Promise.all([
+    const [workers, assets, costs, convert] = await Promise.all([
       renovationWorkerRepository.getByRenovationId(id),
       renovationAssetRepository.getByRenovationId(id),
       renovationCostRepository.getByRenovationId(id),
+      exchangeRateRepository.getConverter(),
     ]);
 
-    const totalCost = costs.reduce((sum, c) => sum + c.amount, 0) + (row.cost || 0);
+    const totalCost = sumCosts(costs, convert) + (row.cost || 0);
 
     return {
       ...mapRowToRenovation(row),
@@ -214,12 +222,13 @@ export const renovationRepository = {
     const rows = await queryAll<RenovationWithRoomRow>(
       `SELECT r.*, rm.name as room_name
        FROM renovations r
-       LEFT JOIN rooms rm ON r.room_id = rm.id
-       WHERE r.property_id = ?
+       LEFT JOIN rooms rm ON r.room_id = rm.id AND rm.deleted_at IS NULL
+       WHERE r.property_id = ? AND r.deleted_at IS NULL
        ORDER BY r.created_at DESC`,
       [propertyId]
     );
 
+    const convert = await exchangeRateRepository.getConverter();
     const results: RenovationWithDetails[] = [];
     for (const row of rows) {
       const [workers, assets, costs] = await Promise.all([
@@ -228,7 +237,7 @@ export const renovationRepository = {
         renovationCostRepository.getByRenovationId(row.id),
       ]);
 
-      const totalCost = costs.reduce((sum, c) => sum + c.amount, 0) + (row.cost || 0);
+      const totalCost = sumCosts(costs, convert) + (row.cost || 0);
 
       results.push({
         ...mapRowToRenovation(row),
@@ -2,6 +2,7 @@ import { RenovationWorker, RenovationWorkerWithDetails, UUID } from '../../../ty
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { parseList } from '../entity';
 
 interface RenovationWorkerRow {
   id: string;
@@ -32,17 +33,24 @@ function mapRowToRenovationWorkerWithDetails(row: RenovationWorkerWithDetailsRow
     ...mapRowToRenovationWorker(row),
     workerName: row.worker_name,
     workerPhone: row.worker_phone || undefined,
-    workerSpecialty: JSON.parse(row.worker_specialty || '[]'),
+    workerSpecialty: parseList(row.worker_specialty),
   };
 }
 
 export const renovationWorkerRepository = {
+  async getAll(): Promise<RenovationWorker[]> {
+    const rows = await queryAll<RenovationWorkerRow>(
+      'SELECT * FROM renovation_workers WHERE deleted_at IS NULL ORDER BY created_at ASC'
+    );
+    return rows.map(mapRowToRenovationWorker);
+  },
+
   async getByRenovationId(renovationId: UUID): Promise<RenovationWorkerWithDetails[]> {
     const rows = await queryAll<RenovationWorkerWithDetailsRow>(
       `SELECT rw.*, w.name as worker_name, w.phone as worker_phone, w.specialty as worker_specialty
        FROM renovation_workers rw
        JOIN workers w ON rw.worker_id = w.id
-       WHERE rw.renovation_id = ?
+       WHERE rw.renovation_id = ? AND rw.deleted_at IS NULL
        ORDER BY rw.created_at ASC`,
       [renovationId]
     );
@@ -60,13 +68,14 @@ export const renovationWorkerRepository = {
     );
 
     const result = await queryFirst<RenovationWorkerRow>(
-      'SELECT * FROM renovation_workers WHERE id = ?',
+      'SELECT * FROM renovation_workers WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     if (!result) throw new Error('Failed to create renovation worker');
     return mapRowToRenovationWorker(result);
   },
 
+  // Unlinking leaves both records in place, so it skips the trash
   async delete(id: UUID): Promise<void> {
     await execute('DELETE FROM renovation_workers WHERE id = ?', [id]);
   },
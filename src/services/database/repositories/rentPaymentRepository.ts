@@ -0,0 +1,111 @@
+import { endOfYear, format } from 'date-fns';
+import { ProfitAndLoss, RentPayment, UUID } from '../../../types';
+import { queryAll, queryFirst, execute } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
+import { leaseRepository } from './leaseRepository';
+import { expenseRepository } from './expenseRepository';
+import { toReportingCurrencySql } from './exchangeRateRepository';
+import { rentPaymentEntity } from '../entities';
+import { Row } from '../entity';
+
+const RENT_AMOUNT = toReportingCurrencySql('p.amount', 'p.currency', 'p.paid_date');
+
+function mapRowToRentPayment(row: Row): RentPayment {
+  return rentPaymentEntity.fromRow(row);
+}
+
+export const rentPaymentRepository = {
+  async getAll(): Promise<RentPayment[]> {
+    const rows = await queryAll<Row>('SELECT * FROM rent_payments WHERE deleted_at IS NULL ORDER BY paid_date DESC');
+    return rows.map(mapRowToRentPayment);
+  },
+
+  // Newest first
+  async getByLeaseId(leaseId: UUID): Promise<RentPayment[]> {
+    const rows = await queryAll<Row>(
+      'SELECT * FROM rent_payments WHERE lease_id = ? AND deleted_at IS NULL ORDER BY paid_date DESC',
+      [leaseId]
+    );
+    return rows.map(mapRowToRentPayment);
+  },
+
+  // Newest first
+  async getByPropertyId(propertyId: UUID, limit?: number): Promise<RentPayment[]> {
+    const rows = await queryAll<Row>(
+      `SELECT p.* FROM rent_payments p JOIN leases l ON l.id = p.lease_id
+       WHERE l.property_id = ? AND p.deleted_at IS NULL AND l.deleted_at IS NULL
+       ORDER BY p.paid_date DESC${limit ? ' LIMIT ?' : ''}`,
+      limit ? [propertyId, limit] : [propertyId]
+    );
+    return rows.map(mapRowToRentPayment);
+  },
+
+  async getById(id: UUID): Promise<RentPayment | null> {
+    const row = await queryFirst<Row>('SELECT * FROM rent_payments WHERE id = ? AND deleted_at IS NULL', [id]);
+    return row ? mapRowToRentPayment(row) : null;
+  },
+
+  // In the lease's currency unless given
+  async create(data: Omit<RentPayment, 'id' | 'createdAt' | 'updatedAt'>): Promise<RentPayment> {
+    rentPaymentEntity.assertValid(data);
+    const lease = await leaseRepository.getById(data.leaseId);
+    if (!lease) throw new Error('Lease not found');
+    const id = generateUUID();
+    const now = getCurrentISODate();
+
+    const { sql, params } = rentPaymentEntity.toInsert({
+      ...data,
+      id,
+      currency: data.currency ?? lease.currency,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await execute(sql, params);
+
+    const payment = await this.getById(id);
+    if (!payment) throw new Error('Failed to create rent payment');
+    return payment;
+  },
+
+  async delete(id: UUID): Promise<void> {
+    await trashRepository.moveToTrash('rent_payments', id);
+  },
+
+  // Rent received and the property's expenses for each month of a year that
+  // had either, in the reporting currency. Amounts no stored rate converts are
+  // left out, as they are from expense totals.
+  async getProfitAndLoss(propertyId: UUID, year: number): Promise<ProfitAndLoss> {
+    const from = new Date(year, 0, 1);
+    const to = endOfYear(from);
+    const incomeRows = await queryAll<{ month: string; total: number }>(
+      `SELECT strftime('%Y-%m', p.paid_date, 'localtime') AS month, COALESCE(SUM(${RENT_AMOUNT}), 0) AS total
+       FROM rent_payments p JOIN leases l ON l.id = p.lease_id
+       WHERE l.property_id = ? AND p.paid_date >= ? AND p.paid_date <= ?
+         AND p.deleted_at IS NULL AND l.deleted_at IS NULL
+       GROUP BY month`,
+      [propertyId, from.toISOString(), to.toISOString()]
+    );
+    const expenseRows = await expenseRepository.getTotalsBy('month', {
+      propertyId,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+
+    const income = new Map(incomeRows.map(row => [row.month, row.total]));
+    const expenses = new Map(expenseRows.map(row => [row.key, row.total]));
+    const keys = new Set([...income.keys(), ...expenses.keys()]);
+    const months = Array.from({ length: 12 }, (_, index) => format(new Date(year, index, 1), 'yyyy-MM'))
+      .filter(month => keys.has(month))
+      .map(month => {
+        const monthIncome = income.get(month) ?? 0;
+        const monthExpenses = expenses.get(month) ?? 0;
+        return { month, income: monthIncome, expenses: monthExpenses, net: monthIncome - monthExpenses };
+      });
+
+    const totalIncome = months.reduce((sum, month) => sum + month.income, 0);
+    const totalExpenses = months.reduce((sum, month) => sum + month.expenses, 0);
+    return { months, income: totalIncome, expenses: totalExpenses, net: totalIncome - totalExpenses };
+  },
+};
@@ -0,0 +1,176 @@
+import { SearchEntityType, SearchOptions, SearchResult, SearchSnippet } from '../../../types';
+import { queryAll } from '../database';
+
+interface SearchRow {
+  entity_type: string;
+  entity_id: string;
+  property_id: string | null;
+  parent_id: string | null;
+  parent_type: string | null;
+  title_text: string;
+  body_text: string;
+  title_marked: string;
+  body_marked: string;
+  property_name: string | null;
+  amount: number | null;
+  currency: string | null;
+  date: string | null;
+}
+
+// highlight() wraps matches in these, which never occur in user text
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+
+const DEFAULT_LIMIT = 50;
+
+// Characters of body text shown around the first match
+const SNIPPET_LENGTH = 120;
+const SNIPPET_LEAD = 30;
+
+// Titles weigh ten times the body; the other columns are not indexed
+const RANK = 'bm25(search_index, 0, 0, 0, 0, 0, 0, 10, 1)';
+
+// Folds the query the way the index folds its text, see foldSql in schema.ts
+function foldQuery(text: string): string {
+  return text.replace(/[ıİ]/g, 'i');
+}
+
+// Every word must match the start of a word in the record, so "kom" finds
+// "Kombi". Punctuation separates words as it does in the tokenizer.
+function buildMatchExpression(query: string): string | null {
+  const words = foldQuery(query).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (words.length === 0) return null;
+  return words.map(word => `"${word.replace(/"/g, '""')}"*`).join(' ');
+}
+
+// Lays the highlight markers from the folded text over the original text.
+// Folding keeps every character in place, so the two walk in step.
+function toSnippet(original: string, marked: string): SearchSnippet {
+  const snippet: SearchSnippet = [];
+  let position = 0;
+  let match = false;
+  let text = '';
+
+  for (const char of marked) {
+    if (char === MATCH_START || char === MATCH_END) {
+      if (text) snippet.push({ text, match });
+      text = '';
+      match = char === MATCH_START;
+      continue;
+    }
+    text += original.slice(position, position + char.length);
+    position += char.length;
+  }
+  if (text) snippet.push({ text, match });
+  return snippet;
+}
+
+// Cuts a long body down to a window that starts a little before the first match
+function trimSnippet(snippet: SearchSnippet): SearchSnippet {
+  const length = snippet.reduce((sum, part) => sum + part.text.length, 0);
+  if (length <= SNIPPET_LENGTH) return snippet;
+
+  let firstMatch = 0;
+  for (const part of snippet) {
+    if (part.match) break;
+    firstMatch += part.text.length;
+  }
+  const start = firstMatch >= length ? 0 : Math.max(0, firstMatch - SNIPPET_LEAD);
+  const end = Math.min(length, start + SNIPPET_LENGTH);
+
+  const trimmed: SearchSnippet = [];
+  let offset = 0;
+  for (const part of snippet) {
+    const from = Math.max(start, offset);
+    const to = Math.min(end, offset + part.text.length);
+    if (from < to) trimmed.push({ text: part.text.slice(from - offset, to - offset), match: part.match });
+    offset += part.text.length;
+  }
+  if (start > 0) trimmed.unshift({ text: '…', match: false });
+  if (end < length) trimmed.push({ text: '…', match: false });
+  return trimmed;
+}
+
+function mapRowToSearchResult(row: SearchRow): SearchResult {
+  return {
+    type: row.entity_type as SearchEntityType,
+    id: row.entity_id,
+    propertyId: row.property_id || undefined,
+    propertyName: row.property_name || undefined,
+    parentId: row.parent_id || undefined,
+    parentType: (row.parent_type as SearchResult['parentType']) || undefined,
+    title: toSnippet(row.title_text, row.title_marked),
+    snippet: trimSnippet(toSnippet(row.body_text, row.body_marked)),
+    amount: row.amount ?? undefined,
+    currency: row.currency || undefined,
+    date: row.date || undefined,
+  };
+}
+
+export const searchRepository = {
+  // Ranked matches across every indexed record. The index only holds records
+  // that are not in the trash.
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const expression = buildMatchExpression(query);
+    if (!expression) return [];
+
+    const conditions = ['search_index MATCH ?'];
+    const params: any[] = [expression];
+
+    if (options.types && options.types.length > 0) {
+      conditions.push(`search_index.entity_type IN (${options.types.map(() => '?').join(', ')})`);
+      params.push(...options.types);
+    }
+
+    const expense = options.expense;
+    if (expense) {
+      const expenseConditions: string[] = [];
+      if (expense.type) {
+        expenseConditions.push('e.type = ?');
+        params.push(expense.type);
+      }
+      if (expense.minAmount !== undefined) {
+        expenseConditions.push('e.amount >= ?');
+        params.push(expense.minAmount);
+      }
+      if (expense.maxAmount !== undefined) {
+        expenseConditions.push('e.amount < ?');
+        params.push(expense.maxAmount);
+      }
+      if (expense.from) {
+        expenseConditions.push('e.date >= ?');
+        params.push(expense.from);
+      }
+      if (expense.to) {
+        expenseConditions.push('e.date < ?');
+        params.push(expense.to);
+      }
+      if (expenseConditions.length > 0) {
+        conditions.push(`(search_index.entity_type <> 'expense' OR (${expenseConditions.join(' AND ')}))`);
+      }
+    }
+
+    params.push(options.limit ?? DEFAULT_LIMIT);
+
+    const rows = await queryAll<SearchRow>(
+      `SELECT search_index.entity_type, search_index.entity_id, search_index.property_id,
+              search_index.parent_id, search_index.title_text, search_index.body_text,
+              highlight(search_index, 6, char(1), char(2)) as title_marked,
+              highlight(search_index, 7, char(1), char(2)) as body_marked,
+              CASE
+                WHEN search_index.parent_id IS NULL THEN NULL
+                WHEN EXISTS (SELECT 1 FROM assets WHERE id = search_index.parent_id) THEN 'asset'
+                ELSE 'worker'
+              END as parent_type,
+              p.name as property_name, e.amount, e.currency, e.date
+       FROM search_index
+       LEFT JOIN properties p ON p.id = search_index.property_id
+       LEFT JOIN expenses e ON search_index.entity_type = 'expense' AND e.id = search_index.entity_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${RANK}
+       LIMIT ?`,
+      params
+    );
+    return rows.map(mapRowToSearchResult);
+  },
+};
@@ -11,10 +11,19 @@ interface SettingsRow {
   id: string;
   theme: string;
   currency: string;
+  reporting_currency: string | null;
   date_format: string;
   biometric_enabled: number;
   photo_quality: string;
   encrypt_exports: number;
+  auto_backup_frequency: string;
+  auto_backup_interval_days: number;
+  backup_keep_daily: number;
+  backup_keep_monthly: number;
+  last_auto_backup_at: string | null;
+  trash_retention_days: number;
+  fiscal_year_start_month: number;
+  fiscal_year_start_day: number;
   created_at: string;
   updated_at: string;
 }
@@ -24,10 +33,19 @@ function mapRowToSettings(row: SettingsRow): AppSettings {
     id: row.id,
     theme: row.theme as AppSettings['theme'],
     currency: row.currency,
+    reportingCurrency: row.reporting_currency || undefined,
     dateFormat: row.date_format,
     biometricEnabled: row.biometric_enabled === 1,
     photoQuality: row.photo_quality as AppSettings['photoQuality'],
     encryptExports: row.encrypt_exports === 1,
+    autoBackupFrequency: row.auto_backup_frequency as AppSettings['autoBackupFrequency'],
+    autoBackupIntervalDays: row.auto_backup_interval_days,
+    backupKeepDaily: row.backup_keep_daily,
+    backupKeepMonthly: row.backup_keep_monthly,
+    lastAutoBackupAt: row.last_auto_backup_at || undefined,
+    trashRetentionDays: row.trash_retention_days,
+    fiscalYearStartMonth: row.fiscal_year_start_month,
+    fiscalYearStartDay: row.fiscal_year_start_day,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -40,6 +58,13 @@ const DEFAULT_SETTINGS: Omit<AppSettings, 'id' | 'createdAt' | 'updatedAt'> = {
   biometricEnabled: false,
   photoQuality: 'high',
   encryptExports: false,
+  autoBackupFrequency: 'off',
+  autoBackupIntervalDays: 3,
+  backupKeepDaily: 7,
+  backupKeepMonthly: 6,
+  trashRetentionDays: 30,
+  fiscalYearStartMonth: 1,
+  fiscalYearStartDay: 1,
 };
 
 export const settingsRepository = {
@@ -61,16 +86,28 @@ export const settingsRepository = {
     const now = getCurrentISODate();
 
     await execute(
-      `INSERT INTO app_settings (id, theme, currency, date_format, biometric_enabled, photo_quality, encrypt_exports, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO app_settings (id, theme, currency, reporting_currency, date_format, biometric_enabled, photo_quality, encrypt_exports,
+        auto_backup_frequency, auto_backup_interval_days, backup_keep_daily, backup_keep_monthly, last_auto_backup_at, trash_retention_days,
+        fiscal_year_start_month, fiscal_year_start_day, device_id, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         data.theme,
         data.currency,
+        data.reportingCurrency || null,
         data.dateFormat,
         data.biometricEnabled ? 1 : 0,
         data.photoQuality,
         data.encryptExports ? 1 : 0,
+        data.autoBackupFrequency,
+        data.autoBackupIntervalDays,
+        data.backupKeepDaily,
+        data.backupKeepMonthly,
+        data.lastAutoBackupAt || null,
+        data.trashRetentionDays,
+        data.fiscalYearStartMonth,
+        data.fiscalYearStartDay,
+        generateUUID(),
         now,
         now,
       ]
@@ -98,6 +135,11 @@ export const settingsRepository = {
       fields.push('currency = ?');
       values.push(data.currency);
     }
+    // An empty reporting currency goes back to the app currency
+    if (data.reportingCurrency !== undefined) {
+      fields.push('reporting_currency = ?');
+      values.push(data.reportingCurrency || null);
+    }
     if (data.dateFormat !== undefined) {
       fields.push('date_format = ?');
       values.push(data.dateFormat);
@@ -114,6 +156,38 @@ export const settingsRepository = {
       fields.push('encrypt_exports = ?');
       values.push(data.encryptExports ? 1 : 0);
     }
+    if (data.autoBackupFrequency !== undefined) {
+      fields.push('auto_backup_frequency = ?');
+      values.push(data.autoBackupFrequency);
+    }
+    if (data.autoBackupIntervalDays !== undefined) {
+      fields.push('auto_backup_interval_days = ?');
+      values.push(data.autoBackupIntervalDays);
+    }
+    if (data.backupKeepDaily !== undefined) {
+      fields.push('backup_keep_daily = ?');
+      values.push(data.backupKeepDaily);
+    }
+    if (data.backupKeepMonthly !== undefined) {
+      fields.push('backup_keep_monthly = ?');
+      values.push(data.backupKeepMonthly);
+    }
+    if (data.lastAutoBackupAt !== undefined) {
+      fields.push('last_auto_backup_at = ?');
+      values.push(data.lastAutoBackupAt);
+    }
+    if (data.trashRetentionDays !== undefined) {
+      fields.push('trash_retention_days = ?');
+      values.push(data.trashRetentionDays);
+    }
+    if (data.fiscalYearStartMonth !== undefined) {
+      fields.push('fiscal_year_start_month = ?');
+      values.push(data.fiscalYearStartMonth);
+    }
+    if (data.fiscalYearStartDay !== undefined) {
+      fields.push('fiscal_year_start_day = ?');
+      values.push(data.fiscalYearStartDay);
+    }
 
     if (fields.length === 0) {
       return current;
@@ -139,6 +213,10 @@ export const settingsRepository = {
     await this.update({ currency });
   },
 
+  async setReportingCurrency(reportingCurrency: string): Promise<void> {
+    await this.update({ reportingCurrency });
+  },
+
   async setDateFormat(dateFormat: string): Promise<void> {
     await this.update({ dateFormat });
   },
@@ -0,0 +1,51 @@
+import { Settlement, UUID } from '../../../types';
+import { queryAll, queryFirst, execute } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+import { getCachedCurrency } from '../../../utils/currency';
+import { settlementEntity } from '../entities';
+import { Row } from '../entity';
+
+function mapRowToSettlement(row: Row): Settlement {
+  return settlementEntity.fromRow(row);
+}
+
+export const settlementRepository = {
+  // Newest first
+  async getAll(): Promise<Settlement[]> {
+    const rows = await queryAll<Row>('SELECT * FROM settlements ORDER BY date DESC, created_at DESC');
+    return rows.map(mapRowToSettlement);
+  },
+
+  async getById(id: UUID): Promise<Settlement | null> {
+    const row = await queryFirst<Row>('SELECT * FROM settlements WHERE id = ?', [id]);
+    return row ? mapRowToSettlement(row) : null;
+  },
+
+  // In the app currency unless given
+  async create(data: Omit<Settlement, 'id' | 'createdAt' | 'updatedAt'>): Promise<Settlement> {
+    settlementEntity.assertValid(data);
+    if (data.fromMemberId === data.toMemberId) {
+      throw new Error('A settlement needs two different members');
+    }
+    const id = generateUUID();
+    const now = getCurrentISODate();
+
+    const { sql, params } = settlementEntity.toInsert({
+      ...data,
+      id,
+      currency: data.currency ?? getCachedCurrency(),
+      createdAt: now,
+      updatedAt: now,
+    });
+    await execute(sql, params);
+
+    const settlement = await this.getById(id);
+    if (!settlement) throw new Error('Failed to create settlement');
+    return settlement;
+  },
+
+  async delete(id: UUID): Promise<void> {
+    await execute('DELETE FROM settlements WHERE id = ?', [id]);
+  },
+};
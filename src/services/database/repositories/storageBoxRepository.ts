@@ -2,6 +2,7 @@ import { StorageBox, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
 
 interface StorageBoxRow {
   id: string;
@@ -34,14 +35,14 @@ function mapRowToStorageBox(row: StorageBoxRow): StorageBox {
 export const storageBoxRepository = {
   async getAll(): Promise<StorageBox[]> {
     const rows = await queryAll<StorageBoxRow>(
-      'SELECT * FROM storage_boxes ORDER BY name ASC'
+      'SELECT * FROM storage_boxes WHERE deleted_at IS NULL ORDER BY name ASC'
     );
     return rows.map(mapRowToStorageBox);
   },
 
   async getByPropertyId(propertyId: UUID): Promise<StorageBox[]> {
     const rows = await queryAll<StorageBoxRow>(
-      'SELECT * FROM storage_boxes WHERE property_id = ? ORDER BY name ASC',
+      'SELECT * FROM storage_boxes WHERE property_id = ? AND deleted_at IS NULL ORDER BY name ASC',
       [propertyId]
     );
     return rows.map(mapRowToStorageBox);
@@ -49,7 +50,7 @@ export const storageBoxRepository = {
 
   async getById(id: UUID): Promise<StorageBox | null> {
     const row = await queryFirst<StorageBoxRow>(
-      'SELECT * FROM storage_boxes WHERE id = ?',
+      'SELECT * FROM storage_boxes WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToStorageBox(row) : null;
@@ -59,7 +60,7 @@ export const storageBoxRepository = {
     const searchQuery = `%${query}%`;
     const rows = await queryAll<StorageBoxRow>(
       `SELECT * FROM storage_boxes
-       WHERE property_id = ? AND (name LIKE ? OR contents LIKE ? OR location LIKE ?)
+       WHERE property_id = ? AND deleted_at IS NULL AND (name LIKE ? OR contents LIKE ? OR location LIKE ?)
        ORDER BY name ASC`,
       [propertyId, searchQuery, searchQuery, searchQuery]
     );
@@ -137,6 +138,6 @@ export const storageBoxRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM storage_boxes WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('storage_boxes', id);
   },
 };
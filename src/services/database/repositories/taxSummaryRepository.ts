@@ -0,0 +1,148 @@
+import { format, getDaysInMonth, setDate } from 'date-fns';
+import { TaxSummary, TaxSummaryItem, TaxSummaryTotal, TaxTreatment } from '../../../types';
+import { queryAll } from '../database';
+import { settingsRepository } from './settingsRepository';
+import { toReportingCurrencySql } from './exchangeRateRepository';
+import { EXPENSE_SHARES_SQL } from './expenseSplitRepository';
+import { TAX_TREATMENTS } from '../entities';
+
+interface ItemRow {
+  id: string;
+  date: string;
+  description: string;
+  category: string | null;
+  tax_treatment: string | null;
+  currency: string | null;
+  property_id: string;
+  property_name: string;
+  amount: number;
+  converted_amount: number | null;
+}
+
+type CostRow = ItemRow & { renovation_title: string };
+
+const SHARE_AMOUNT = toReportingCurrencySql('sh.amount', 'e.currency', 'e.date');
+const COST_DATE = 'COALESCE(c.date, c.created_at)';
+const COST_AMOUNT = toReportingCurrencySql('c.amount', 'c.currency', COST_DATE);
+
+// First day of the tax year named `year`. A start day past the end of the
+// month falls on the month's last day.
+export function getFiscalYearStart(year: number, month: number, day: number): Date {
+  const first = new Date(year, month - 1, 1);
+  return setDate(first, Math.min(day, getDaysInMonth(first)));
+}
+
+// The tax year a date falls in
+export function getFiscalYear(date: Date, month: number, day: number): number {
+  const year = date.getFullYear();
+  return date < getFiscalYearStart(year, month, day) ? year - 1 : year;
+}
+
+// '2026' for calendar years, '2026/27' for years that start later on
+function getFiscalYearLabel(year: number, month: number, day: number): string {
+  if (month === 1 && day === 1) return String(year);
+  return `${year}/${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+function toItem(row: ItemRow, source: TaxSummaryItem['source'], description: string, receiptUris: string[]): TaxSummaryItem {
+  return {
+    source,
+    id: row.id,
+    propertyId: row.property_id,
+    propertyName: row.property_name,
+    date: row.date,
+    description,
+    category: row.category || undefined,
+    taxTreatment: (row.tax_treatment as TaxTreatment) || undefined,
+    amount: row.amount,
+    currency: row.currency || undefined,
+    convertedAmount: row.converted_amount ?? undefined,
+    receiptUris,
+  };
+}
+
+// Tagged treatments in the order they are listed, untagged costs last
+function treatmentOrder(treatment?: TaxTreatment): number {
+  return treatment ? TAX_TREATMENTS.indexOf(treatment) : TAX_TREATMENTS.length;
+}
+
+export const taxSummaryRepository = {
+  // The tax year today falls in
+  async getCurrentFiscalYear(): Promise<number> {
+    const settings = await settingsRepository.get();
+    return getFiscalYear(new Date(), settings.fiscalYearStartMonth, settings.fiscalYearStartDay);
+  },
+
+  // Expense shares and renovation costs dated in the tax year, totalled by
+  // property and treatment. Split expenses count toward each property for
+  // its share.
+  async getSummary(fiscalYear: number): Promise<TaxSummary> {
+    const settings = await settingsRepository.get();
+    const { fiscalYearStartMonth: month, fiscalYearStartDay: day } = settings;
+    const start = getFiscalYearStart(fiscalYear, month, day);
+    const end = new Date(getFiscalYearStart(fiscalYear + 1, month, day).getTime() - 1);
+    const range = [start.toISOString(), end.toISOString()];
+
+    const expenseRows = await queryAll<ItemRow>(
+      `SELECT e.id, e.date, e.description, e.category, e.tax_treatment, e.currency, sh.property_id,
+              p.name AS property_name, SUM(sh.amount) AS amount, SUM(${SHARE_AMOUNT}) AS converted_amount
+       FROM expenses e JOIN ${EXPENSE_SHARES_SQL} sh ON sh.expense_id = e.id
+       JOIN properties p ON p.id = sh.property_id
+       WHERE e.deleted_at IS NULL AND p.deleted_at IS NULL AND e.date >= ? AND e.date <= ?
+       GROUP BY e.id, sh.property_id`,
+      range
+    );
+    const costRows = await queryAll<CostRow>(
+      `SELECT c.id, ${COST_DATE} AS date, c.description, c.category, c.tax_treatment, c.currency, r.property_id,
+              p.name AS property_name, c.amount, ${COST_AMOUNT} AS converted_amount, r.title AS renovation_title
+       FROM renovation_costs c JOIN renovations r ON r.id = c.renovation_id
+       JOIN properties p ON p.id = r.property_id
+       WHERE c.deleted_at IS NULL AND r.deleted_at IS NULL AND p.deleted_at IS NULL
+         AND ${COST_DATE} >= ? AND ${COST_DATE} <= ?`,
+      range
+    );
+    const receiptRows = await queryAll<{ entity_id: string; file_uri: string }>(
+      `SELECT a.entity_id, a.file_uri FROM attachments a JOIN expenses e ON e.id = a.entity_id
+       WHERE a.entity_type = 'expense' AND e.deleted_at IS NULL AND e.date >= ? AND e.date <= ?
+       ORDER BY a.sort_order, a.created_at`,
+      range
+    );
+
+    const receipts = new Map<string, string[]>();
+    for (const row of receiptRows) {
+      receipts.set(row.entity_id, [...(receipts.get(row.entity_id) ?? []), row.file_uri]);
+    }
+
+    const items = [
+      ...expenseRows.map(row => toItem(row, 'expense', row.description, receipts.get(row.id) ?? [])),
+      ...costRows.map(row => toItem(row, 'renovation_cost', `${row.renovation_title}: ${row.description}`, [])),
+    ].sort((a, b) => a.propertyName.localeCompare(b.propertyName) || a.date.localeCompare(b.date));
+
+    const totals = new Map<string, TaxSummaryTotal>();
+    const missingCurrencies = new Set<string>();
+    for (const item of items) {
+      const key = `${item.propertyId}|${item.taxTreatment ?? ''}`;
+      const total = totals.get(key)
+        ?? { propertyId: item.propertyId, propertyName: item.propertyName, taxTreatment: item.taxTreatment, total: 0, count: 0 };
+      if (item.convertedAmount === undefined) {
+        missingCurrencies.add(item.currency ?? settings.currency);
+      } else {
+        total.total += item.convertedAmount;
+      }
+      total.count += 1;
+      totals.set(key, total);
+    }
+
+    return {
+      fiscalYear,
+      label: getFiscalYearLabel(fiscalYear, month, day),
+      from: format(start, 'yyyy-MM-dd'),
+      to: format(end, 'yyyy-MM-dd'),
+      totals: Array.from(totals.values()).sort((a, b) =>
+        a.propertyName.localeCompare(b.propertyName) || treatmentOrder(a.taxTreatment) - treatmentOrder(b.taxTreatment)
+      ),
+      items,
+      missingCurrencies: Array.from(missingCurrencies).sort(),
+    };
+  },
+};
@@ -0,0 +1,59 @@
+import { Tenant, UUID } from '../../../types';
+import { queryAll, queryFirst, execute } from '../database';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
+import { tenantEntity } from '../entities';
+import { Row } from '../entity';
+
+function mapRowToTenant(row: Row): Tenant {
+  return tenantEntity.fromRow(row);
+}
+
+export const tenantRepository = {
+  async getAll(): Promise<Tenant[]> {
+    const rows = await queryAll<Row>('SELECT * FROM tenants WHERE deleted_at IS NULL ORDER BY name COLLATE NOCASE');
+    return rows.map(mapRowToTenant);
+  },
+
+  async getByPropertyId(propertyId: UUID): Promise<Tenant[]> {
+    const rows = await queryAll<Row>(
+      'SELECT * FROM tenants WHERE property_id = ? AND deleted_at IS NULL ORDER BY name COLLATE NOCASE',
+      [propertyId]
+    );
+    return rows.map(mapRowToTenant);
+  },
+
+  async getById(id: UUID): Promise<Tenant | null> {
+    const row = await queryFirst<Row>('SELECT * FROM tenants WHERE id = ? AND deleted_at IS NULL', [id]);
+    return row ? mapRowToTenant(row) : null;
+  },
+
+  async create(data: Omit<Tenant, 'id' | 'createdAt' | 'updatedAt'>): Promise<Tenant> {
+    tenantEntity.assertValid(data);
+    const id = generateUUID();
+    const now = getCurrentISODate();
+
+    const { sql, params } = tenantEntity.toInsert({ ...data, id, createdAt: now, updatedAt: now });
+    await execute(sql, params);
+
+    const tenant = await this.getById(id);
+    if (!tenant) throw new Error('Failed to create tenant');
+    return tenant;
+  },
+
+  async update(id: UUID, data: Partial<Omit<Tenant, 'id' | 'propertyId' | 'createdAt' | 'updatedAt'>>): Promise<Tenant> {
+    tenantEntity.assertValid(data, { partial: true });
+    const { sql, params } = tenantEntity.toUpdate(id, { ...data, updatedAt: getCurrentISODate() });
+    await execute(sql, params);
+
+    const tenant = await this.getById(id);
+    if (!tenant) throw new Error('Tenant not found');
+    return tenant;
+  },
+
+  // Their leases and the rent paid on them go to the trash with them
+  async delete(id: UUID): Promise<void> {
+    await trashRepository.moveToTrash('tenants', id);
+  },
+};
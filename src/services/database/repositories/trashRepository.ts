@@ -0,0 +1,312 @@
+import { TrashItem, UUID } from '../../../types';
+import { queryAll, queryFirst, execute, withTransaction } from '../database';
+import { SOFT_DELETE_TABLES, SoftDeleteTable } from '../schema';
+import { generateUUID } from '../../../utils/uuid';
+import { getCurrentISODate } from '../../../utils/date';
+
+interface TrashItemRow {
+  id: string;
+  table_name: string;
+  record_id: string;
+  label: string;
+  children: string;
+  deleted_at: string;
+}
+
+// Ids of the records deleted along with an item, by table
+type TrashChildren = Partial<Record<SoftDeleteTable, string[]>>;
+
+interface CascadeKey {
+  table: SoftDeleteTable;
+  column: string;
+}
+
+interface CascadeGraph {
+  // Tables whose rows are deleted with a row of the key table
+  children: Map<string, CascadeKey[]>;
+  // Tables a row of the key table cannot exist without
+  parents: Map<string, CascadeKey[]>;
+}
+
+// Columns that name a record in the trash list, in order of preference
+const LABEL_COLUMNS = [
+  'name',
+  'title',
+  'network_name',
+  'color_name',
+  'description',
+  'content',
+  'location',
+  'role',
+  'paid_date',
+  'completed_date',
+  'date',
+];
+
+// Keeps IN (...) lists well under SQLite's bound parameter limit
+const ID_CHUNK_SIZE = 500;
+
+function parseChildren(value: string): TrashChildren {
+  try {
+    return JSON.parse(value) ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function mapRowToTrashItem(row: TrashItemRow): TrashItem {
+  const children = parseChildren(row.children);
+  const childCounts: Record<string, number> = {};
+  for (const [table, ids] of Object.entries(children)) {
+    if (ids && ids.length > 0) childCounts[table] = ids.length;
+  }
+  return {
+    id: row.id,
+    tableName: row.table_name,
+    recordId: row.record_id,
+    label: row.label,
+    childCounts,
+    deletedAt: row.deleted_at,
+  };
+}
+
+// How a record is named in the trash and in integrity reports
+export function getRecordLabel(row: Record<string, unknown>): string {
+  const column = LABEL_COLUMNS.find(name => typeof row[name] === 'string' && row[name] !== '');
+  const text = column ? String(row[column]) : String(row.id);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += ID_CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + ID_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+function placeholders(items: unknown[]): string {
+  return items.map(() => '?').join(', ');
+}
+
+let cascadeGraph: Promise<CascadeGraph> | null = null;
+
+// Read from the ON DELETE CASCADE foreign keys in the schema, so the trash
+// takes along exactly what a hard delete would have removed
+function getCascadeGraph(): Promise<CascadeGraph> {
+  if (!cascadeGraph) {
+    cascadeGraph = (async () => {
+      const graph: CascadeGraph = { children: new Map(), parents: new Map() };
+      for (const table of SOFT_DELETE_TABLES) {
+        const keys = await queryAll<{ table: string; from: string; on_delete: string }>(
+          `PRAGMA foreign_key_list(${table})`
+        );
+        for (const key of keys) {
+          if (key.on_delete !== 'CASCADE') continue;
+          graph.children.set(key.table, [...(graph.children.get(key.table) ?? []), { table, column: key.from }]);
+          graph.parents.set(table, [
+            ...(graph.parents.get(table) ?? []),
+            { table: key.table as SoftDeleteTable, column: key.from },
+          ]);
+        }
+      }
+      return graph;
+    })().catch(error => {
+      cascadeGraph = null;
+      throw error;
+    });
+  }
+  return cascadeGraph;
+}
+
+// Marks every live record that depends on the given rows, level by level.
+// Rows are marked as they are found, so a record reachable along two paths
+// (an expense asset through both its expense and its asset) is taken once.
+async function trashChildren(table: string, ids: string[], deletedAt: string): Promise<TrashChildren> {
+  const { children: cascade } = await getCascadeGraph();
+  const children: TrashChildren = {};
+  const queue: Array<{ table: string; ids: string[] }> = [{ table, ids }];
+
+  while (queue.length > 0) {
+    const parent = queue.shift()!;
+    for (const key of cascade.get(parent.table) ?? []) {
+      const found: string[] = [];
+      for (const parentIds of chunk(parent.ids)) {
+        const rows = await queryAll<{ id: string }>(
+          `SELECT id FROM ${key.table} WHERE ${key.column} IN (${placeholders(parentIds)}) AND deleted_at IS NULL`,
+          parentIds
+        );
+        found.push(...rows.map(row => row.id));
+      }
+      if (found.length === 0) continue;
+
+      for (const childIds of chunk(found)) {
+        await execute(
+          `UPDATE ${key.table} SET deleted_at = ? WHERE id IN (${placeholders(childIds)})`,
+          [deletedAt, ...childIds]
+        );
+      }
+      children[key.table] = [...(children[key.table] ?? []), ...found];
+      queue.push({ table: key.table, ids: found });
+    }
+  }
+
+  return children;
+}
+
+export const trashRepository = {
+  async getAll(): Promise<TrashItem[]> {
+    await this.removeStale();
+    const rows = await queryAll<TrashItemRow>(
+      'SELECT * FROM trash_items ORDER BY deleted_at DESC'
+    );
+    return rows.map(mapRowToTrashItem);
+  },
+
+  async getById(id: UUID): Promise<TrashItem | null> {
+    const row = await queryFirst<TrashItemRow>(
+      'SELECT * FROM trash_items WHERE id = ?',
+      [id]
+    );
+    return row ? mapRowToTrashItem(row) : null;
+  },
+
+  async count(): Promise<number> {
+    const result = await queryFirst<{ count: number }>(
+      'SELECT COUNT(*) as count FROM trash_items'
+    );
+    return result?.count || 0;
+  },
+
+  // Hides the record and everything that cascades from it, and lists it in
+  // the trash. Used by the repositories' delete methods.
+  async moveToTrash(table: SoftDeleteTable, recordId: UUID): Promise<void> {
+    const record = await queryFirst<Record<string, unknown>>(
+      `SELECT * FROM ${table} WHERE id = ? AND deleted_at IS NULL`,
+      [recordId]
+    );
+    if (!record) return;
+
+    const deletedAt = getCurrentISODate();
+    await withTransaction(async () => {
+      await execute(`UPDATE ${table} SET deleted_at = ? WHERE id = ?`, [deletedAt, recordId]);
+      const children = await trashChildren(table, [recordId], deletedAt);
+      await execute(
+        `INSERT INTO trash_items (id, table_name, record_id, label, children, deleted_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [generateUUID(), table, recordId, getRecordLabel(record), JSON.stringify(children), deletedAt]
+      );
+    });
+  },
+
+  // The trash item holding a record this item cannot be restored without,
+  // such as the property of a deleted room when the property is also deleted
+  async getBlockingItem(id: UUID): Promise<TrashItem | null> {
+    const item = await queryFirst<TrashItemRow>('SELECT * FROM trash_items WHERE id = ?', [id]);
+    if (!item) return null;
+
+    const { parents } = await getCascadeGraph();
+    const record = await queryFirst<Record<string, string | null>>(
+      `SELECT * FROM ${item.table_name} WHERE id = ?`,
+      [item.record_id]
+    );
+    if (!record) return null;
+
+    for (const key of parents.get(item.table_name) ?? []) {
+      const parentId = record[key.column];
+      if (!parentId) continue;
+      const parent = await queryFirst<{ deleted_at: string | null }>(
+        `SELECT deleted_at FROM ${key.table} WHERE id = ?`,
+        [parentId]
+      );
+      if (!parent?.deleted_at) continue;
+
+      const holder = await queryFirst<TrashItemRow>(
+        `SELECT * FROM trash_items
+         WHERE (table_name = ? AND record_id = ?) OR children LIKE ?
+         ORDER BY deleted_at DESC LIMIT 1`,
+        [key.table, parentId, `%"${parentId}"%`]
+      );
+      if (holder) return mapRowToTrashItem(holder);
+    }
+    return null;
+  },
+
+  // Brings back the record and the children deleted with it. Children that
+  // were restored or purged on their own since are left as they are.
+  async restore(id: UUID): Promise<void> {
+    const item = await queryFirst<TrashItemRow>('SELECT * FROM trash_items WHERE id = ?', [id]);
+    if (!item) return;
+
+    const blocking = await this.getBlockingItem(id);
+    if (blocking) {
+      throw new Error(`Restore "${blocking.label}" first`);
+    }
+
+    await withTransaction(async () => {
+      await execute(
+        `UPDATE ${item.table_name} SET deleted_at = NULL WHERE id = ? AND deleted_at = ?`,
+        [item.record_id, item.deleted_at]
+      );
+      for (const [table, ids] of Object.entries(parseChildren(item.children))) {
+        for (const childIds of chunk(ids ?? [])) {
+          await execute(
+            `UPDATE ${table} SET deleted_at = NULL WHERE id IN (${placeholders(childIds)}) AND deleted_at = ?`,
+            [...childIds, item.deleted_at]
+          );
+        }
+      }
+      await execute('DELETE FROM trash_items WHERE id = ?', [id]);
+    });
+  },
+
+  // Deletes the record for good. Foreign keys remove its children and unlink
+  // anything that only referenced it.
+  async deleteForever(id: UUID): Promise<void> {
+    const item = await queryFirst<TrashItemRow>('SELECT * FROM trash_items WHERE id = ?', [id]);
+    if (!item) return;
+
+    await withTransaction(async () => {
+      await execute(
+        `DELETE FROM ${item.table_name} WHERE id = ? AND deleted_at IS NOT NULL`,
+        [item.record_id]
+      );
+      await execute('DELETE FROM trash_items WHERE id = ?', [id]);
+    });
+    await this.removeStale();
+  },
+
+  async empty(): Promise<void> {
+    const rows = await queryAll<TrashItemRow>('SELECT * FROM trash_items');
+    for (const row of rows) {
+      await this.deleteForever(row.id);
+    }
+  },
+
+  // Deletes items that have been in the trash longer than the retention period
+  async purgeExpired(retentionDays: number): Promise<number> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - retentionDays);
+
+    const rows = await queryAll<TrashItemRow>(
+      'SELECT * FROM trash_items WHERE deleted_at < ?',
+      [cutoff.toISOString()]
+    );
+    for (const row of rows) {
+      await this.deleteForever(row.id);
+    }
+    return rows.length;
+  },
+
+  // Drops items whose record is gone or no longer deleted, e.g. a child
+  // deleted on its own before its parent was purged
+  async removeStale(): Promise<void> {
+    for (const table of SOFT_DELETE_TABLES) {
+      await execute(
+        `DELETE FROM trash_items
+         WHERE table_name = ? AND record_id NOT IN (SELECT id FROM ${table} WHERE deleted_at IS NOT NULL)`,
+        [table]
+      );
+    }
+  },
+};
@@ -2,6 +2,7 @@ import { WiFiInfo, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
 
 interface WiFiInfoRow {
   id: string;
@@ -30,14 +31,14 @@ function mapRowToWiFiInfo(row: WiFiInfoRow): WiFiInfo {
 export const wifiInfoRepository = {
   async getAll(): Promise<WiFiInfo[]> {
     const rows = await queryAll<WiFiInfoRow>(
-      'SELECT * FROM wifi_info ORDER BY is_guest ASC, network_name ASC'
+      'SELECT * FROM wifi_info WHERE deleted_at IS NULL ORDER BY is_guest ASC, network_name ASC'
     );
     return rows.map(mapRowToWiFiInfo);
   },
 
   async getByPropertyId(propertyId: UUID): Promise<WiFiInfo[]> {
     const rows = await queryAll<WiFiInfoRow>(
-      'SELECT * FROM wifi_info WHERE property_id = ? ORDER BY is_guest ASC, network_name ASC',
+      'SELECT * FROM wifi_info WHERE property_id = ? AND deleted_at IS NULL ORDER BY is_guest ASC, network_name ASC',
       [propertyId]
     );
     return rows.map(mapRowToWiFiInfo);
@@ -45,7 +46,7 @@ export const wifiInfoRepository = {
 
   async getById(id: UUID): Promise<WiFiInfo | null> {
     const row = await queryFirst<WiFiInfoRow>(
-      'SELECT * FROM wifi_info WHERE id = ?',
+      'SELECT * FROM wifi_info WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToWiFiInfo(row) : null;
@@ -112,6 +113,6 @@ export const wifiInfoRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM wifi_info WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('wifi_info', id);
   },
 };
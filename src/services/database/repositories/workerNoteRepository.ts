@@ -2,6 +2,7 @@ import { WorkerNote, UUID } from '../../../types';
 import { queryAll, queryFirst, execute } from '../database';
 import { generateUUID } from '../../../utils/uuid';
 import { getCurrentISODate } from '../../../utils/date';
+import { trashRepository } from './trashRepository';
 
 interface WorkerNoteRow {
   id: string;
@@ -24,9 +25,16 @@ function mapRowToWorkerNote(row: WorkerNoteRow): WorkerNote {
 }
 
 export const workerNoteRepository = {
+  async getAll(): Promise<WorkerNote[]> {
+    const rows = await queryAll<WorkerNoteRow>(
+      'SELECT * FROM worker_notes WHERE deleted_at IS NULL ORDER BY date DESC, created_at DESC'
+    );
+    return rows.map(mapRowToWorkerNote);
+  },
+
   async getByWorkerId(workerId: UUID): Promise<WorkerNote[]> {
     const rows = await queryAll<WorkerNoteRow>(
-      `SELECT * FROM worker_notes WHERE worker_id = ? ORDER BY date DESC, created_at DESC`,
+      `SELECT * FROM worker_notes WHERE worker_id = ? AND deleted_at IS NULL ORDER BY date DESC, created_at DESC`,
       [workerId]
     );
     return rows.map(mapRowToWorkerNote);
@@ -34,7 +42,7 @@ export const workerNoteRepository = {
 
   async getById(id: UUID): Promise<WorkerNote | null> {
     const row = await queryFirst<WorkerNoteRow>(
-      'SELECT * FROM worker_notes WHERE id = ?',
+      'SELECT * FROM worker_notes WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     return row ? mapRowToWorkerNote(row) : null;
@@ -51,7 +59,7 @@ export const workerNoteRepository = {
     );
 
     const result = await queryFirst<WorkerNoteRow>(
-      'SELECT * FROM worker_notes WHERE id = ?',
+      'SELECT * FROM worker_notes WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     if (!result) throw new Error('Failed to create worker note');
@@ -82,7 +90,7 @@ export const workerNoteRepository = {
     );
 
     const result = await queryFirst<WorkerNoteRow>(
-      'SELECT * FROM worker_notes WHERE id = ?',
+      'SELECT * FROM worker_notes WHERE id = ? AND deleted_at IS NULL',
       [id]
     );
     if (!result) throw new Error('Worker note not found');
@@ -90,7 +98,7 @@ export const workerNoteRepository = {
   },
 
   async delete(id: UUID): Promise<void> {
-    await execute('DELETE FROM worker_notes WHERE id = ?', [id]);
+    await trashRepository.moveToTrash('worker_notes', id);
   },
 
   async deleteByWorkerId(workerId: UUID): Promise<void> {
@@ -99,7 +107,7 @@ export const workerNoteRepository = {
 
   async getCountByWorkerId(workerId: UUID): Promise<number> {
     const result = await queryFirst<{ count: number }>(
-      'SELECT COUNT(*) as count FROM worker_notes WHERE worker_id = ?',
+      'SELECT COUNT(*) as count FROM worker_notes WHERE worker_id = ? AND deleted_at IS NULL',
       [workerId]
     );
     return result?.count || 0;
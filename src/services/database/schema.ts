@@ -1,7 +1,379 @@
 // Database Schema Definitions
 // All tables use UUID as primary keys for future data merge scenarios
 
-export const SCHEMA_VERSION = 6;
+export const SCHEMA_VERSION = 21;
+
+// Tables whose records go to the trash instead of being deleted. Rows with a
+// deleted_at date are hidden from every query until restored or purged.
+export const SOFT_DELETE_TABLES = [
+  'properties',
+  'rooms',
+  'assets',
+  'expenses',
+  'expense_assets',
+  'expense_splits',
+  'workers',
+  'worker_notes',
+  'maintenance_tasks',
+  'maintenance_completions',
+  'paint_codes',
+  'measurements',
+  'storage_boxes',
+  'wifi_info',
+  'documents',
+  'renovations',
+  'renovation_workers',
+  'renovation_assets',
+  'renovation_costs',
+  'emergency_shutoffs',
+  'recurring_templates',
+  'recurring_payment_history',
+  'notes',
+  'tenants',
+  'leases',
+  'rent_payments',
+] as const;
+
+export type SoftDeleteTable = typeof SOFT_DELETE_TABLES[number];
+
+// Records that can have custom fields, by the table they are kept in. Like
+// attachments, values name their record by type and id, and triggers remove
+// them when the record is deleted for good.
+export const CUSTOM_FIELD_OWNERS = {
+  property: 'properties',
+  room: 'rooms',
+  asset: 'assets',
+  expense: 'expenses',
+  worker: 'workers',
+} as const;
+
+type CustomFieldOwnerType = keyof typeof CUSTOM_FIELD_OWNERS;
+
+export const CUSTOM_FIELDS_SQL = `
+CREATE TABLE IF NOT EXISTS custom_field_definitions (
+  id TEXT PRIMARY KEY,
+  entity_type TEXT NOT NULL,
+  name TEXT NOT NULL,
+  field_type TEXT NOT NULL,
+  options TEXT NOT NULL DEFAULT '[]',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS custom_field_values (
+  id TEXT PRIMARY KEY,
+  definition_id TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  value TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (definition_id) REFERENCES custom_field_definitions(id) ON DELETE CASCADE
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_custom_field_definitions_name ON custom_field_definitions(entity_type, name);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_custom_field_values_record ON custom_field_values(definition_id, entity_id);
+CREATE INDEX IF NOT EXISTS idx_custom_field_values_entity ON custom_field_values(entity_type, entity_id);
+${Object.entries(CUSTOM_FIELD_OWNERS).map(([type, table]) => `
+CREATE TRIGGER IF NOT EXISTS custom_field_values_${table}_delete AFTER DELETE ON ${table} BEGIN
+  DELETE FROM custom_field_values WHERE entity_type = '${type}' AND entity_id = old.id;
+END;`).join('\n')}
+`;
+
+// Adds a record's custom field values to its search body. Dates and
+// booleans are left out, as their stored text is no use as a search term.
+function withCustomFields(type: CustomFieldOwnerType, body: string): string {
+  return `TRIM(${body} || ' ' || COALESCE((SELECT group_concat(v.value, ' ') FROM custom_field_values v `
+    + 'JOIN custom_field_definitions d ON d.id = v.definition_id '
+    + `WHERE v.entity_type = '${type}' AND v.entity_id = r.id AND d.field_type IN ('text', 'number', 'select')), ''))`;
+}
+
+// Records the search screen finds through the search_index FTS5 table. The
+// expressions read the row as `r`; `parent` is the record a result opens
+// when it has no screen of its own.
+interface SearchSource {
+  table: SoftDeleteTable;
+  type: string;
+  propertyId: string;
+  parent: string;
+  title: string;
+  body: string;
+}
+
+export const SEARCH_SOURCES: SearchSource[] = [
+  {
+    table: 'properties',
+    type: 'property',
+    propertyId: 'r.id',
+    parent: 'NULL',
+    title: 'r.name',
+    body: withCustomFields('property', 'r.address'),
+  },
+  {
+    table: 'rooms',
+    type: 'room',
+    propertyId: 'r.property_id',
+    parent: 'NULL',
+    title: 'r.name',
+    body: withCustomFields('room', "COALESCE(r.notes, '')"),
+  },
+  {
+    table: 'assets',
+    type: 'asset',
+    propertyId: 'r.property_id',
+    parent: 'NULL',
+    title: 'r.name',
+    body: withCustomFields(
+      'asset',
+      "COALESCE(r.brand, '') || ' ' || COALESCE(r.model, '') || ' ' || COALESCE(r.serial_number, '') || ' ' || COALESCE(r.notes, '')"
+    ),
+  },
+  {
+    table: 'expenses',
+    type: 'expense',
+    propertyId: 'r.property_id',
+    parent: 'NULL',
+    title: 'r.description',
+    body: withCustomFields('expense', 'r.category'),
+  },
+  {
+    table: 'workers',
+    type: 'worker',
+    propertyId: 'NULL',
+    parent: 'NULL',
+    title: 'r.name',
+    body: withCustomFields(
+      'worker',
+      "COALESCE(r.company, '') || ' ' || replace(replace(replace(r.specialty, '[', ''), ']', ''), '\"', '') || ' ' || COALESCE(r.notes, '')"
+    ),
+  },
+  { table: 'worker_notes', type: 'worker_note', propertyId: 'NULL', parent: 'r.worker_id', title: "''", body: 'r.content' },
+  { table: 'notes', type: 'note', propertyId: 'r.property_id', parent: 'COALESCE(r.asset_id, r.worker_id)', title: "''", body: 'r.content' },
+  { table: 'documents', type: 'document', propertyId: 'r.property_id', parent: 'COALESCE(r.asset_id, r.worker_id)', title: 'r.name', body: "''" },
+  {
+    table: 'paint_codes',
+    type: 'paint_code',
+    propertyId: 'r.property_id',
+    parent: 'NULL',
+    title: 'r.color_name',
+    body: "r.brand || ' ' || r.color_code || ' ' || r.location || ' ' || COALESCE(r.notes, '')",
+  },
+  {
+    table: 'storage_boxes',
+    type: 'storage_box',
+    propertyId: 'r.property_id',
+    parent: 'NULL',
+    title: 'r.name',
+    body: "r.contents || ' ' || r.location",
+  },
+];
+
+// Dotless ı and dotted İ have no decomposition, so remove_diacritics cannot
+// fold them; they are replaced before indexing and in queries instead. Both
+// are one character like "i", so the folded text lines up with the original.
+function foldSql(expression: string): string {
+  return `replace(replace(${expression}, 'ı', 'i'), 'İ', 'i')`;
+}
+
+function searchRowSql(source: SearchSource, row: string): string {
+  const read = (expression: string) => expression.replace(/\br\./g, `${row}.`);
+  return `'${source.type}', ${read('r.id')}, ${read(source.propertyId)}, ${read(source.parent)}, `
+    + `${read(source.title)}, ${read(source.body)}, ${foldSql(read(source.title))}, ${foldSql(read(source.body))}`;
+}
+
+const SEARCH_COLUMNS = 'entity_type, entity_id, property_id, parent_id, title_text, body_text, title, body';
+
+// Indexes the record a custom field value belongs to again. Index rows use
+// the same type names as custom fields.
+function reindexCustomFieldOwnerSql(row: string): string {
+  return [
+    `DELETE FROM search_index WHERE entity_type = ${row}.entity_type AND entity_id = ${row}.entity_id;`,
+    ...SEARCH_SOURCES.filter(source => source.type in CUSTOM_FIELD_OWNERS).map(source =>
+      `INSERT INTO search_index (${SEARCH_COLUMNS}) SELECT ${searchRowSql(source, 'r')} FROM ${source.table} r `
+      + `WHERE ${row}.entity_type = '${source.type}' AND r.id = ${row}.entity_id AND r.deleted_at IS NULL;`
+    ),
+  ].join('\n  ');
+}
+
+// Triggers keep the index in step with every write, including moves to and
+// from the trash. Changing a source means a new migration that drops its
+// triggers and creates them again, with their SQL written out in the step.
+export const SEARCH_INDEX_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  entity_type UNINDEXED,
+  entity_id UNINDEXED,
+  property_id UNINDEXED,
+  parent_id UNINDEXED,
+  title_text UNINDEXED,
+  body_text UNINDEXED,
+  title,
+  body,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+${SEARCH_SOURCES.map(source => `
+CREATE TRIGGER IF NOT EXISTS search_${source.table}_insert AFTER INSERT ON ${source.table}
+WHEN new.deleted_at IS NULL BEGIN
+  INSERT INTO search_index (${SEARCH_COLUMNS}) VALUES (${searchRowSql(source, 'new')});
+END;
+CREATE TRIGGER IF NOT EXISTS search_${source.table}_update AFTER UPDATE ON ${source.table} BEGIN
+  DELETE FROM search_index WHERE entity_type = '${source.type}' AND entity_id = old.id;
+  INSERT INTO search_index (${SEARCH_COLUMNS}) SELECT ${searchRowSql(source, 'new')} WHERE new.deleted_at IS NULL;
+END;
+CREATE TRIGGER IF NOT EXISTS search_${source.table}_delete AFTER DELETE ON ${source.table} BEGIN
+  DELETE FROM search_index WHERE entity_type = '${source.type}' AND entity_id = old.id;
+END;`).join('\n')}
+CREATE TRIGGER IF NOT EXISTS search_custom_field_values_insert AFTER INSERT ON custom_field_values BEGIN
+  ${reindexCustomFieldOwnerSql('new')}
+END;
+CREATE TRIGGER IF NOT EXISTS search_custom_field_values_update AFTER UPDATE ON custom_field_values BEGIN
+  ${reindexCustomFieldOwnerSql('old')}
+  ${reindexCustomFieldOwnerSql('new')}
+END;
+CREATE TRIGGER IF NOT EXISTS search_custom_field_values_delete AFTER DELETE ON custom_field_values BEGIN
+  ${reindexCustomFieldOwnerSql('old')}
+END;
+`;
+
+// Fills the index from scratch, for databases created before it existed
+export const SEARCH_REBUILD_SQL = `
+DELETE FROM search_index;
+${SEARCH_SOURCES.map(source =>
+  `INSERT INTO search_index (${SEARCH_COLUMNS}) SELECT ${searchRowSql(source, 'r')} FROM ${source.table} r WHERE r.deleted_at IS NULL;`
+).join('\n')}
+`;
+
+// Columns whose changes are kept in change_log, by table. Ids and
+// timestamps are left out; moves to and from the trash are logged as
+// deletes and restores.
+export const CHANGE_LOG_COLUMNS: Partial<Record<SoftDeleteTable, string[]>> = {
+  expenses: [
+    'property_id',
+    'room_id',
+    'asset_id',
+    'worker_id',
+    'type',
+    'category',
+    'amount',
+    'currency',
+    'date',
+    'description',
+    'is_recurring',
+    'recurring_template_id',
+    'tags',
+    'paid_by_member_id',
+    'tax_treatment',
+  ],
+  assets: [
+    'property_id',
+    'room_id',
+    'name',
+    'category',
+    'brand',
+    'model',
+    'serial_number',
+    'purchase_date',
+    'purchase_price',
+    'purchase_currency',
+    'warranty_end_date',
+    'notes',
+  ],
+  maintenance_tasks: [
+    'property_id',
+    'asset_id',
+    'assigned_worker_id',
+    'title',
+    'description',
+    'frequency',
+    'last_completed_date',
+    'next_due_date',
+    'reminder_days_before',
+    'is_completed',
+    'is_active',
+  ],
+};
+
+const CHANGE_LOG_INSERT = 'INSERT INTO change_log (id, table_name, record_id, action, changes, device_id, changed_at)';
+
+// Same format as toISOString(), so entries sort with the app's own dates
+const CHANGE_LOG_NOW = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+
+const CHANGE_LOG_DEVICE = "COALESCE((SELECT device_id FROM app_settings LIMIT 1), '')";
+
+// {"column": [old, new]} for every listed column the update changed
+function changesSql(columns: string[]): string {
+  const diffs = columns
+    .map(column => `SELECT '${column}' AS field, old.${column} AS old_value, new.${column} AS new_value WHERE old.${column} IS NOT new.${column}`)
+    .join('\n    UNION ALL ');
+  return `SELECT json_group_object(field, json_array(old_value, new_value)) AS changes FROM (\n    ${diffs}\n  )`;
+}
+
+// Triggers write the log, so every write is recorded whichever code makes
+// it. The log is never edited: entries are only added, and cleared along
+// with all other data.
+export const CHANGE_LOG_SQL = `
+CREATE TABLE IF NOT EXISTS change_log (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  changes TEXT NOT NULL DEFAULT '{}',
+  device_id TEXT NOT NULL DEFAULT '',
+  changed_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_change_log_record ON change_log(table_name, record_id, changed_at);
+CREATE TRIGGER IF NOT EXISTS change_log_no_update BEFORE UPDATE ON change_log BEGIN
+  SELECT RAISE(ABORT, 'change_log is append-only');
+END;
+${Object.entries(CHANGE_LOG_COLUMNS).map(([table, columns]) => `
+CREATE TRIGGER IF NOT EXISTS change_log_${table}_insert AFTER INSERT ON ${table} BEGIN
+  ${CHANGE_LOG_INSERT}
+  VALUES (lower(hex(randomblob(16))), '${table}', new.id, 'create', '{}', ${CHANGE_LOG_DEVICE}, ${CHANGE_LOG_NOW});
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_${table}_update AFTER UPDATE ON ${table}
+WHEN old.deleted_at IS new.deleted_at BEGIN
+  ${CHANGE_LOG_INSERT}
+  SELECT lower(hex(randomblob(16))), '${table}', new.id, 'update', changes, ${CHANGE_LOG_DEVICE}, ${CHANGE_LOG_NOW}
+  FROM (${changesSql(columns!)})
+  WHERE changes <> '{}';
+END;
+CREATE TRIGGER IF NOT EXISTS change_log_${table}_trash AFTER UPDATE OF deleted_at ON ${table}
+WHEN old.deleted_at IS NOT new.deleted_at BEGIN
+  ${CHANGE_LOG_INSERT}
+  VALUES (
+    lower(hex(randomblob(16))), '${table}', new.id,
+    CASE WHEN new.deleted_at IS NULL THEN 'restore' ELSE 'delete' END,
+    '{}', ${CHANGE_LOG_DEVICE}, ${CHANGE_LOG_NOW}
+  );
+END;`).join('\n')}
+`;
+
+// Records that can have attachments, by the table they are kept in.
+// Attachments name their record by type and id instead of a foreign key, so
+// triggers remove them when the record is deleted for good; moving the
+// record to the trash leaves them in place for a restore.
+export const ATTACHMENT_OWNERS = {
+  expense: 'expenses',
+  asset: 'assets',
+  maintenance_completion: 'maintenance_completions',
+} as const;
+
+export const ATTACHMENTS_SQL = `
+CREATE TABLE IF NOT EXISTS attachments (
+  id TEXT PRIMARY KEY,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  file_uri TEXT NOT NULL,
+  file_type TEXT NOT NULL DEFAULT 'image',
+  caption TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_attachments_entity ON attachments(entity_type, entity_id, sort_order);
+${Object.entries(ATTACHMENT_OWNERS).map(([type, table]) => `
+CREATE TRIGGER IF NOT EXISTS attachments_${table}_delete AFTER DELETE ON ${table} BEGIN
+  DELETE FROM attachments WHERE entity_type = '${type}' AND entity_id = old.id;
+END;`).join('\n')}
+`;
 
 export const CREATE_TABLES_SQL = `
 -- Properties table
@@ -12,7 +384,8 @@ CREATE TABLE IF NOT EXISTS properties (
   type TEXT NOT NULL DEFAULT 'home',
   image_uri TEXT,
   created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  deleted_at TEXT
 );
 
 -- Rooms table
@@ -25,6 +398,7 @@ CREATE TABLE IF NOT EXISTS rooms (
   notes TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
 );
 
@@ -40,12 +414,12 @@ CREATE TABLE IF NOT EXISTS assets (
   serial_number TEXT,
   purchase_date TEXT,
   purchase_price REAL,
+  purchase_currency TEXT,
   warranty_end_date TEXT,
   notes TEXT,
-  image_uri TEXT,
-  manual_uri TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
   FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL
 );
@@ -61,9 +435,9 @@ CREATE TABLE IF NOT EXISTS workers (
   rating REAL,
   notes TEXT,
   image_uri TEXT,
-  total_paid REAL NOT NULL DEFAULT 0,
   created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  deleted_at TEXT
 );
 
 -- Recurring templates table (renamed to recurring payments conceptually)
@@ -73,11 +447,13 @@ CREATE TABLE IF NOT EXISTS recurring_templates (
   name TEXT NOT NULL,
   category TEXT NOT NULL,
   estimated_amount REAL,
+  currency TEXT,
   frequency TEXT NOT NULL,
   typical_payment_day TEXT,
   is_active INTEGER NOT NULL DEFAULT 1,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
 );
 
@@ -89,6 +465,7 @@ CREATE TABLE IF NOT EXISTS recurring_payment_history (
   paid_date TEXT NOT NULL,
   notes TEXT,
   created_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (template_id) REFERENCES recurring_templates(id) ON DELETE CASCADE
 );
 
@@ -102,19 +479,23 @@ CREATE TABLE IF NOT EXISTS expenses (
   type TEXT NOT NULL,
   category TEXT NOT NULL,
   amount REAL NOT NULL,
+  currency TEXT,
   date TEXT NOT NULL,
   description TEXT NOT NULL,
-  receipt_uri TEXT,
   is_recurring INTEGER NOT NULL DEFAULT 0,
   recurring_template_id TEXT,
   tags TEXT DEFAULT '[]',
+  paid_by_member_id TEXT,
+  tax_treatment TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
   FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL,
   FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE SET NULL,
   FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE SET NULL,
-  FOREIGN KEY (recurring_template_id) REFERENCES recurring_templates(id) ON DELETE SET NULL
+  FOREIGN KEY (recurring_template_id) REFERENCES recurring_templates(id) ON DELETE SET NULL,
+  FOREIGN KEY (paid_by_member_id) REFERENCES household_members(id) ON DELETE SET NULL
 );
 
 -- Documents table
@@ -129,6 +510,7 @@ CREATE TABLE IF NOT EXISTS documents (
   file_type TEXT NOT NULL,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
   FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE,
   FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE CASCADE
@@ -150,6 +532,7 @@ CREATE TABLE IF NOT EXISTS maintenance_tasks (
   is_active INTEGER NOT NULL DEFAULT 1,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
   FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE SET NULL,
   FOREIGN KEY (assigned_worker_id) REFERENCES workers(id) ON DELETE SET NULL
@@ -164,6 +547,7 @@ CREATE TABLE IF NOT EXISTS maintenance_completions (
   notes TEXT,
   cost REAL,
   created_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (task_id) REFERENCES maintenance_tasks(id) ON DELETE CASCADE,
   FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE SET NULL
 );
@@ -182,6 +566,7 @@ CREATE TABLE IF NOT EXISTS paint_codes (
   notes TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
   FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL
 );
@@ -196,6 +581,7 @@ CREATE TABLE IF NOT EXISTS emergency_shutoffs (
   image_uri TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
 );
 
@@ -214,6 +600,7 @@ CREATE TABLE IF NOT EXISTS measurements (
   image_uri TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
   FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL,
   FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE SET NULL
@@ -231,6 +618,7 @@ CREATE TABLE IF NOT EXISTS storage_boxes (
   qr_code TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
   FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL
 );
@@ -245,6 +633,7 @@ CREATE TABLE IF NOT EXISTS wifi_info (
   qr_code_uri TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
 );
 
@@ -262,6 +651,7 @@ CREATE TABLE IF NOT EXISTS renovations (
   expense_type TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
   FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL
 );
@@ -273,6 +663,7 @@ CREATE TABLE IF NOT EXISTS renovation_workers (
   worker_id TEXT NOT NULL,
   role TEXT,
   created_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE,
   FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE CASCADE
 );
@@ -284,6 +675,7 @@ CREATE TABLE IF NOT EXISTS renovation_assets (
   asset_id TEXT NOT NULL,
   notes TEXT,
   created_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE,
   FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
 );
@@ -294,9 +686,12 @@ CREATE TABLE IF NOT EXISTS renovation_costs (
   renovation_id TEXT NOT NULL,
   description TEXT NOT NULL,
   amount REAL NOT NULL,
+  currency TEXT,
   category TEXT,
   date TEXT,
+  tax_treatment TEXT,
   created_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE
 );
 
@@ -308,6 +703,7 @@ CREATE TABLE IF NOT EXISTS worker_notes (
   date TEXT NOT NULL,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE CASCADE
 );
 
@@ -324,6 +720,7 @@ CREATE TABLE IF NOT EXISTS notes (
   reminder_notification_id TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
   FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE,
   FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE,
@@ -335,10 +732,20 @@ CREATE TABLE IF NOT EXISTS app_settings (
   id TEXT PRIMARY KEY,
   theme TEXT NOT NULL DEFAULT 'system',
   currency TEXT NOT NULL DEFAULT 'USD',
+  reporting_currency TEXT,
   date_format TEXT NOT NULL DEFAULT 'MM/dd/yyyy',
   biometric_enabled INTEGER NOT NULL DEFAULT 0,
   photo_quality TEXT NOT NULL DEFAULT 'high',
   encrypt_exports INTEGER NOT NULL DEFAULT 0,
+  auto_backup_frequency TEXT NOT NULL DEFAULT 'off',
+  auto_backup_interval_days INTEGER NOT NULL DEFAULT 3,
+  backup_keep_daily INTEGER NOT NULL DEFAULT 7,
+  backup_keep_monthly INTEGER NOT NULL DEFAULT 6,
+  last_auto_backup_at TEXT,
+  trash_retention_days INTEGER NOT NULL DEFAULT 30,
+  fiscal_year_start_month INTEGER NOT NULL DEFAULT 1,
+  fiscal_year_start_day INTEGER NOT NULL DEFAULT 1,
+  device_id TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL
 );
@@ -364,10 +771,156 @@ CREATE TABLE IF NOT EXISTS expense_assets (
   amount REAL NOT NULL,
   notes TEXT,
   created_at TEXT NOT NULL,
+  deleted_at TEXT,
   FOREIGN KEY (expense_id) REFERENCES expenses(id) ON DELETE CASCADE,
   FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
 );
 
+-- Payee rules (bank statement payees mapped to a bill or category)
+CREATE TABLE IF NOT EXISTS payee_rules (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  pattern TEXT NOT NULL,
+  template_id TEXT,
+  expense_type TEXT NOT NULL DEFAULT 'bill',
+  category TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (template_id) REFERENCES recurring_templates(id) ON DELETE SET NULL
+);
+
+-- Budgets (planned spending per property, expense type or category)
+CREATE TABLE IF NOT EXISTS budgets (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  expense_type TEXT,
+  category TEXT,
+  period TEXT NOT NULL,
+  amount REAL NOT NULL,
+  rollover INTEGER NOT NULL DEFAULT 0,
+  start_date TEXT NOT NULL,
+  alerted_period TEXT,
+  alerted_percent INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
+);
+
+-- Exchange rates, entered by hand or imported, for totals in the app currency
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id TEXT PRIMARY KEY,
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  rate REAL NOT NULL,
+  date TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- Household members (people expenses are paid by and split with)
+CREATE TABLE IF NOT EXISTS household_members (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- Expense splits (shares of an expense by property, room and member)
+CREATE TABLE IF NOT EXISTS expense_splits (
+  id TEXT PRIMARY KEY,
+  expense_id TEXT NOT NULL,
+  property_id TEXT NOT NULL,
+  room_id TEXT,
+  member_id TEXT,
+  percent REAL,
+  amount REAL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  deleted_at TEXT,
+  FOREIGN KEY (expense_id) REFERENCES expenses(id) ON DELETE CASCADE,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL,
+  FOREIGN KEY (member_id) REFERENCES household_members(id) ON DELETE SET NULL
+);
+
+-- Settlements (payments between household members to settle up)
+CREATE TABLE IF NOT EXISTS settlements (
+  id TEXT PRIMARY KEY,
+  from_member_id TEXT NOT NULL,
+  to_member_id TEXT NOT NULL,
+  amount REAL NOT NULL,
+  currency TEXT,
+  date TEXT NOT NULL,
+  notes TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (from_member_id) REFERENCES household_members(id) ON DELETE CASCADE,
+  FOREIGN KEY (to_member_id) REFERENCES household_members(id) ON DELETE CASCADE
+);
+
+-- Tenants of rental properties
+CREATE TABLE IF NOT EXISTS tenants (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  phone TEXT,
+  email TEXT,
+  notes TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  deleted_at TEXT,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
+);
+
+-- Leases (a tenant's contract: term, rent, deposit and renewal)
+CREATE TABLE IF NOT EXISTS leases (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  tenant_id TEXT NOT NULL,
+  start_date TEXT NOT NULL,
+  end_date TEXT,
+  rent_amount REAL NOT NULL,
+  currency TEXT,
+  rent_frequency TEXT NOT NULL DEFAULT 'monthly',
+  rent_due_day INTEGER NOT NULL DEFAULT 1,
+  deposit_amount REAL,
+  renewal_date TEXT,
+  grace_days INTEGER NOT NULL DEFAULT 5,
+  reminder_days_before INTEGER NOT NULL DEFAULT 3,
+  notes TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  deleted_at TEXT,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
+
+-- Rent payments received, each for one due date of a lease
+CREATE TABLE IF NOT EXISTS rent_payments (
+  id TEXT PRIMARY KEY,
+  lease_id TEXT NOT NULL,
+  due_date TEXT NOT NULL,
+  amount REAL NOT NULL,
+  currency TEXT,
+  paid_date TEXT NOT NULL,
+  notes TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  deleted_at TEXT,
+  FOREIGN KEY (lease_id) REFERENCES leases(id) ON DELETE CASCADE
+);
+
+-- Trash (deleted records and the children deleted along with them)
+CREATE TABLE IF NOT EXISTS trash_items (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  label TEXT NOT NULL,
+  children TEXT NOT NULL DEFAULT '{}',
+  deleted_at TEXT NOT NULL
+);
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_rooms_property ON rooms(property_id);
 CREATE INDEX IF NOT EXISTS idx_assets_property ON assets(property_id);
@@ -375,10 +928,13 @@ CREATE INDEX IF NOT EXISTS idx_assets_room ON assets(room_id);
 CREATE INDEX IF NOT EXISTS idx_expenses_property ON expenses(property_id);
 CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
 CREATE INDEX IF NOT EXISTS idx_expenses_type ON expenses(type);
+CREATE INDEX IF NOT EXISTS idx_expenses_property_date ON expenses(property_id, date, id);
+CREATE INDEX IF NOT EXISTS idx_expenses_date_id ON expenses(date, id);
 CREATE INDEX IF NOT EXISTS idx_maintenance_property ON maintenance_tasks(property_id);
 CREATE INDEX IF NOT EXISTS idx_maintenance_due ON maintenance_tasks(next_due_date);
 CREATE INDEX IF NOT EXISTS idx_documents_property ON documents(property_id);
 CREATE INDEX IF NOT EXISTS idx_notes_property ON notes(property_id);
+CREATE INDEX IF NOT EXISTS idx_notes_reminder ON notes(reminder_date);
 CREATE INDEX IF NOT EXISTS idx_renovations_property ON renovations(property_id);
 CREATE INDEX IF NOT EXISTS idx_expense_assets_expense ON expense_assets(expense_id);
 CREATE INDEX IF NOT EXISTS idx_expense_assets_asset ON expense_assets(asset_id);
@@ -394,9 +950,37 @@ CREATE INDEX IF NOT EXISTS idx_renovation_assets_asset ON renovation_assets(asse
 CREATE INDEX IF NOT EXISTS idx_renovation_costs_renovation ON renovation_costs(renovation_id);
 CREATE INDEX IF NOT EXISTS idx_worker_notes_worker ON worker_notes(worker_id);
 CREATE INDEX IF NOT EXISTS idx_custom_categories_type ON custom_categories(type);
-`;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payee_rules_pattern ON payee_rules(property_id, pattern);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_pair ON exchange_rates(from_currency, to_currency, date);
+CREATE INDEX IF NOT EXISTS idx_budgets_property ON budgets(property_id);
+CREATE INDEX IF NOT EXISTS idx_expense_splits_expense ON expense_splits(expense_id);
+CREATE INDEX IF NOT EXISTS idx_expense_splits_property ON expense_splits(property_id);
+CREATE INDEX IF NOT EXISTS idx_tenants_property ON tenants(property_id);
+CREATE INDEX IF NOT EXISTS idx_leases_property ON leases(property_id);
+CREATE INDEX IF NOT EXISTS idx_leases_tenant ON leases(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_rent_payments_lease ON rent_payments(lease_id, due_date);
+CREATE INDEX IF NOT EXISTS idx_rent_payments_paid ON rent_payments(paid_date);
+CREATE INDEX IF NOT EXISTS idx_trash_items_deleted ON trash_items(deleted_at);
+${CUSTOM_FIELDS_SQL}
+${SEARCH_INDEX_SQL}
+${CHANGE_LOG_SQL}
+${ATTACHMENTS_SQL}`;
 
 export const DROP_TABLES_SQL = `
+DROP TABLE IF EXISTS custom_field_values;
+DROP TABLE IF EXISTS custom_field_definitions;
+DROP TABLE IF EXISTS attachments;
+DROP TABLE IF EXISTS change_log;
+DROP TABLE IF EXISTS search_index;
+DROP TABLE IF EXISTS trash_items;
+DROP TABLE IF EXISTS settlements;
+DROP TABLE IF EXISTS rent_payments;
+DROP TABLE IF EXISTS leases;
+DROP TABLE IF EXISTS tenants;
+DROP TABLE IF EXISTS expense_splits;
+DROP TABLE IF EXISTS exchange_rates;
+DROP TABLE IF EXISTS budgets;
+DROP TABLE IF EXISTS payee_rules;
 DROP TABLE IF EXISTS custom_categories;
 DROP TABLE IF EXISTS recurring_payment_history;
 DROP TABLE IF EXISTS maintenance_completions;
@@ -415,6 +999,7 @@ DROP TABLE IF EXISTS paint_codes;
 DROP TABLE IF EXISTS maintenance_tasks;
 DROP TABLE IF EXISTS documents;
 DROP TABLE IF EXISTS expenses;
+DROP TABLE IF EXISTS household_members;
 DROP TABLE IF EXISTS recurring_templates;
 DROP TABLE IF EXISTS workers;
 DROP TABLE IF EXISTS assets;
@@ -422,111 +1007,3 @@ DROP TABLE IF EXISTS rooms;
 DROP TABLE IF EXISTS properties;
 DROP TABLE IF EXISTS app_settings;
 `;
-
-// Migration SQL for updating from version 2 to version 3
-export const MIGRATION_V2_TO_V3 = `
--- Add new columns to maintenance_tasks
-ALTER TABLE maintenance_tasks ADD COLUMN assigned_worker_id TEXT REFERENCES workers(id) ON DELETE SET NULL;
-ALTER TABLE maintenance_tasks ADD COLUMN is_active INTEGER NOT NULL DEFAULT 1;
-
--- Create maintenance_completions table
-CREATE TABLE IF NOT EXISTS maintenance_completions (
-  id TEXT PRIMARY KEY,
-  task_id TEXT NOT NULL,
-  worker_id TEXT,
-  completed_date TEXT NOT NULL,
-  notes TEXT,
-  cost REAL,
-  created_at TEXT NOT NULL,
-  FOREIGN KEY (task_id) REFERENCES maintenance_tasks(id) ON DELETE CASCADE,
-  FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE SET NULL
-);
-
--- Create indexes for maintenance_completions
-CREATE INDEX IF NOT EXISTS idx_maintenance_completions_task ON maintenance_completions(task_id);
-CREATE INDEX IF NOT EXISTS idx_maintenance_completions_worker ON maintenance_completions(worker_id);
-CREATE INDEX IF NOT EXISTS idx_maintenance_completions_date ON maintenance_completions(completed_date);
-`;
-
-// Migration SQL for updating from version 4 to version 5
-export const MIGRATION_V4_TO_V5 = `
--- Add expense_type column to renovations
-ALTER TABLE renovations ADD COLUMN expense_type TEXT;
-
--- Add reminder columns to notes
-ALTER TABLE notes ADD COLUMN reminder_date TEXT;
-ALTER TABLE notes ADD COLUMN reminder_notification_id TEXT;
-
--- Create renovation_workers table
-CREATE TABLE IF NOT EXISTS renovation_workers (
-  id TEXT PRIMARY KEY,
-  renovation_id TEXT NOT NULL,
-  worker_id TEXT NOT NULL,
-  role TEXT,
-  created_at TEXT NOT NULL,
-  FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE,
-  FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE CASCADE
-);
-
--- Create renovation_assets table
-CREATE TABLE IF NOT EXISTS renovation_assets (
-  id TEXT PRIMARY KEY,
-  renovation_id TEXT NOT NULL,
-  asset_id TEXT NOT NULL,
-  notes TEXT,
-  created_at TEXT NOT NULL,
-  FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE,
-  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
-);
-
--- Create renovation_costs table
-CREATE TABLE IF NOT EXISTS renovation_costs (
-  id TEXT PRIMARY KEY,
-  renovation_id TEXT NOT NULL,
-  description TEXT NOT NULL,
-  amount REAL NOT NULL,
-  category TEXT,
-  date TEXT,
-  created_at TEXT NOT NULL,
-  FOREIGN KEY (renovation_id) REFERENCES renovations(id) ON DELETE CASCADE
-);
-
--- Create worker_notes table
-CREATE TABLE IF NOT EXISTS worker_notes (
-  id TEXT PRIMARY KEY,
-  worker_id TEXT NOT NULL,
-  content TEXT NOT NULL,
-  date TEXT NOT NULL,
-  created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL,
-  FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE CASCADE
-);
-
--- Create indexes
-CREATE INDEX IF NOT EXISTS idx_renovation_workers_renovation ON renovation_workers(renovation_id);
-CREATE INDEX IF NOT EXISTS idx_renovation_workers_worker ON renovation_workers(worker_id);
-CREATE INDEX IF NOT EXISTS idx_renovation_assets_renovation ON renovation_assets(renovation_id);
-CREATE INDEX IF NOT EXISTS idx_renovation_assets_asset ON renovation_assets(asset_id);
-CREATE INDEX IF NOT EXISTS idx_renovation_costs_renovation ON renovation_costs(renovation_id);
-CREATE INDEX IF NOT EXISTS idx_worker_notes_worker ON worker_notes(worker_id);
-CREATE INDEX IF NOT EXISTS idx_notes_reminder ON notes(reminder_date);
-`;
-
-// Migration SQL for updating from version 5 to version 6
-export const MIGRATION_V5_TO_V6 = `
--- Create custom_categories table for user-defined categories
-CREATE TABLE IF NOT EXISTS custom_categories (
-  id TEXT PRIMARY KEY,
-  type TEXT NOT NULL,
-  name TEXT NOT NULL,
-  icon TEXT,
-  color TEXT,
-  is_default INTEGER NOT NULL DEFAULT 0,
-  sort_order INTEGER NOT NULL DEFAULT 0,
-  created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
-);
-
--- Create index
-CREATE INDEX IF NOT EXISTS idx_custom_categories_type ON custom_categories(type);
-`;
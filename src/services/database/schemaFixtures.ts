@@ -0,0 +1,288 @@
+// The schema as the first release created it. Migrations are checked by
+// upgrading this to every later version and comparing with CREATE_TABLES_SQL.
+export const SCHEMA_V1_SQL = `
+-- Properties table
+CREATE TABLE IF NOT EXISTS properties (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  address TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'home',
+  image_uri TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- Rooms table
+CREATE TABLE IF NOT EXISTS rooms (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'other',
+  image_uri TEXT,
+  notes TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
+);
+
+-- Assets table
+CREATE TABLE IF NOT EXISTS assets (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  room_id TEXT,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'other',
+  brand TEXT,
+  model TEXT,
+  serial_number TEXT,
+  purchase_date TEXT,
+  purchase_price REAL,
+  warranty_end_date TEXT,
+  notes TEXT,
+  image_uri TEXT,
+  manual_uri TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL
+);
+
+-- Workers table
+CREATE TABLE IF NOT EXISTS workers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  phone TEXT,
+  email TEXT,
+  company TEXT,
+  specialty TEXT NOT NULL DEFAULT '[]',
+  rating REAL,
+  notes TEXT,
+  image_uri TEXT,
+  total_paid REAL NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- Recurring templates table (renamed to recurring payments conceptually)
+CREATE TABLE IF NOT EXISTS recurring_templates (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  estimated_amount REAL,
+  frequency TEXT NOT NULL,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
+);
+
+
+-- Expenses table
+CREATE TABLE IF NOT EXISTS expenses (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  room_id TEXT,
+  asset_id TEXT,
+  worker_id TEXT,
+  type TEXT NOT NULL,
+  category TEXT NOT NULL,
+  amount REAL NOT NULL,
+  date TEXT NOT NULL,
+  description TEXT NOT NULL,
+  receipt_uri TEXT,
+  is_recurring INTEGER NOT NULL DEFAULT 0,
+  recurring_template_id TEXT,
+  tags TEXT DEFAULT '[]',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL,
+  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE SET NULL,
+  FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE SET NULL,
+  FOREIGN KEY (recurring_template_id) REFERENCES recurring_templates(id) ON DELETE SET NULL
+);
+
+-- Documents table
+CREATE TABLE IF NOT EXISTS documents (
+  id TEXT PRIMARY KEY,
+  property_id TEXT,
+  asset_id TEXT,
+  worker_id TEXT,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  file_uri TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE,
+  FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE CASCADE
+);
+
+-- Maintenance tasks table
+CREATE TABLE IF NOT EXISTS maintenance_tasks (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  asset_id TEXT,
+  title TEXT NOT NULL,
+  description TEXT,
+  frequency TEXT NOT NULL,
+  last_completed_date TEXT,
+  next_due_date TEXT NOT NULL,
+  reminder_days_before INTEGER NOT NULL DEFAULT 7,
+  is_completed INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE SET NULL
+);
+
+
+-- Paint codes table
+CREATE TABLE IF NOT EXISTS paint_codes (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  room_id TEXT,
+  location TEXT NOT NULL,
+  brand TEXT NOT NULL,
+  color_name TEXT NOT NULL,
+  color_code TEXT NOT NULL,
+  finish TEXT,
+  image_uri TEXT,
+  notes TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL
+);
+
+-- Emergency shutoffs table
+CREATE TABLE IF NOT EXISTS emergency_shutoffs (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  location TEXT NOT NULL,
+  instructions TEXT,
+  image_uri TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
+);
+
+-- Measurements table
+CREATE TABLE IF NOT EXISTS measurements (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  room_id TEXT,
+  asset_id TEXT,
+  name TEXT NOT NULL,
+  width REAL,
+  height REAL,
+  depth REAL,
+  unit TEXT NOT NULL DEFAULT 'in',
+  notes TEXT,
+  image_uri TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL,
+  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE SET NULL
+);
+
+-- Storage boxes table
+CREATE TABLE IF NOT EXISTS storage_boxes (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  room_id TEXT,
+  name TEXT NOT NULL,
+  location TEXT NOT NULL,
+  contents TEXT NOT NULL,
+  image_uri TEXT,
+  qr_code TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL
+);
+
+-- WiFi info table
+CREATE TABLE IF NOT EXISTS wifi_info (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  network_name TEXT NOT NULL,
+  password TEXT NOT NULL,
+  is_guest INTEGER NOT NULL DEFAULT 0,
+  qr_code_uri TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
+);
+
+-- Renovations table (before/after gallery)
+CREATE TABLE IF NOT EXISTS renovations (
+  id TEXT PRIMARY KEY,
+  property_id TEXT NOT NULL,
+  room_id TEXT,
+  title TEXT NOT NULL,
+  description TEXT,
+  before_image_uri TEXT NOT NULL,
+  after_image_uri TEXT,
+  completed_date TEXT,
+  cost REAL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL
+);
+
+
+
+
+
+-- Notes table
+CREATE TABLE IF NOT EXISTS notes (
+  id TEXT PRIMARY KEY,
+  property_id TEXT,
+  room_id TEXT,
+  asset_id TEXT,
+  worker_id TEXT,
+  content TEXT NOT NULL,
+  is_pinned INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE,
+  FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE,
+  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE,
+  FOREIGN KEY (worker_id) REFERENCES workers(id) ON DELETE CASCADE
+);
+
+-- App settings table
+CREATE TABLE IF NOT EXISTS app_settings (
+  id TEXT PRIMARY KEY,
+  theme TEXT NOT NULL DEFAULT 'system',
+  currency TEXT NOT NULL DEFAULT 'USD',
+  date_format TEXT NOT NULL DEFAULT 'MM/dd/yyyy',
+  biometric_enabled INTEGER NOT NULL DEFAULT 0,
+  photo_quality TEXT NOT NULL DEFAULT 'high',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+
+
+
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_rooms_property ON rooms(property_id);
+CREATE INDEX IF NOT EXISTS idx_assets_property ON assets(property_id);
+CREATE INDEX IF NOT EXISTS idx_assets_room ON assets(room_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_property ON expenses(property_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
+CREATE INDEX IF NOT EXISTS idx_expenses_type ON expenses(type);
+CREATE INDEX IF NOT EXISTS idx_maintenance_property ON maintenance_tasks(property_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_due ON maintenance_tasks(next_due_date);
+CREATE INDEX IF NOT EXISTS idx_documents_property ON documents(property_id);
+CREATE INDEX IF NOT EXISTS idx_notes_property ON notes(property_id);
+CREATE INDEX IF NOT EXISTS idx_renovations_property ON renovations(property_id);
+`;
@@ -0,0 +1,8 @@
+export { spreadsheetExportService, SPREADSHEET_DATASETS } from './spreadsheetExport';
+export type { SpreadsheetDataset, SpreadsheetFormat, SpreadsheetFilters } from './spreadsheetExport';
+export { toCsv, toXlsx } from './spreadsheet';
+export type { Sheet, SheetColumn, CellValue } from './spreadsheet';
+export { taxSummaryExportService, TAX_SUMMARY_FORMATS } from './taxSummaryExport';
+export type { TaxSummaryFormat } from './taxSummaryExport';
+export { toPdf } from './pdf';
+export type { PdfDocument } from './pdf';
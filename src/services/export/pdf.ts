@@ -0,0 +1,206 @@
+import { strToU8 } from 'fflate';
+import { CellValue, Sheet, SheetColumn } from './spreadsheet';
+
+export interface PdfDocument {
+  title: string;
+  subtitle?: string;
+  // Each drawn as a heading and a table, the header repeated on every page
+  tables: Sheet[];
+}
+
+// A4 landscape, in points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const ROW_HEIGHT = 13;
+const CELL_PADDING = 3;
+const FONT_SIZE = 8;
+
+// Advance widths of Helvetica for the characters from space to tilde, in
+// thousandths of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// WinAnsiEncoding matches Latin-1 except for these. The Turkish letters it
+// lacks are written without their marks.
+const WIN_ANSI: Record<string, string> = {
+  '€': '\x80',
+  '…': '\x85',
+  '‘': '\x91',
+  '’': '\x92',
+  '“': '\x93',
+  '”': '\x94',
+  '•': '\x95',
+  '–': '\x96',
+  '—': '\x97',
+  'ğ': 'g',
+  'Ğ': 'G',
+  'ş': 's',
+  'Ş': 'S',
+  'ı': 'i',
+  'İ': 'I',
+  '₺': 'TL',
+};
+
+// Text as single-byte WinAnsi characters, '?' for anything else
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map(char => WIN_ANSI[char] ?? (char.charCodeAt(0) < 256 ? char : '?'))
+    .join('');
+}
+
+function textWidth(text: string, size: number, bold = false): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  // Helvetica-Bold runs about five percent wider
+  return (width * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+// Shortened with an ellipsis to fit the width
+function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}\x85`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}\x85`;
+}
+
+function escapePdfText(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function formatCell(value: CellValue, column: SheetColumn): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' && column.type === 'amount') {
+    const [whole, fraction] = Math.abs(value).toFixed(2).split('.');
+    return `${value < 0 ? '-' : ''}${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}.${fraction}`;
+  }
+  return String(value);
+}
+
+function isNumeric(column: SheetColumn): boolean {
+  return column.type === 'amount' || column.type === 'number';
+}
+
+class PageWriter {
+  pages: string[][] = [];
+  y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Starts a new page unless `height` more fits on this one
+  ensureSpace(height: number): boolean {
+    if (this.y - height >= MARGIN) return false;
+    this.addPage();
+    return true;
+  }
+
+  text(raw: string, x: number, size: number, bold = false, maxWidth?: number, alignRight = false): void {
+    let text = toWinAnsi(raw);
+    if (maxWidth !== undefined) text = fitText(text, maxWidth, size, bold);
+    const left = alignRight && maxWidth !== undefined ? x + maxWidth - textWidth(text, size, bold) : x;
+    this.current.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${this.y.toFixed(2)} Td (${escapePdfText(text)}) Tj ET`);
+  }
+
+  line(y: number): void {
+    this.current.push(`0.5 w ${MARGIN} ${y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(2)} l S`);
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
+
+function drawTable(writer: PageWriter, table: Sheet): void {
+  const available = PAGE_WIDTH - MARGIN * 2;
+  const weights = table.columns.map(column => column.width ?? 12);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map(weight => (weight / totalWeight) * available);
+  const lefts = widths.map((_, index) => MARGIN + widths.slice(0, index).reduce((sum, width) => sum + width, 0));
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    writer.y -= ROW_HEIGHT;
+    cells.forEach((cell, index) => {
+      writer.text(cell, lefts[index] + CELL_PADDING, FONT_SIZE, bold, widths[index] - CELL_PADDING * 2, isNumeric(table.columns[index]));
+    });
+  };
+  const drawHeader = () => {
+    drawRow(table.columns.map(column => column.header), true);
+    writer.line(writer.y - 4);
+  };
+
+  writer.ensureSpace(ROW_HEIGHT * 4 + 20);
+  writer.y -= 20;
+  writer.text(table.name, MARGIN, 12, true);
+  writer.y -= 4;
+  drawHeader();
+  for (const row of table.rows) {
+    if (writer.ensureSpace(ROW_HEIGHT)) drawHeader();
+    drawRow(table.columns.map((column, index) => formatCell(row[index], column)), false);
+  }
+}
+
+// Builds a PDF of tables in the standard Helvetica fonts, which every reader
+// has, so nothing needs to be embedded. Pages are numbered at the bottom.
+export function toPdf(document: PdfDocument): Uint8Array {
+  const writer = new PageWriter();
+  writer.y -= 16;
+  writer.text(document.title, MARGIN, 16, true);
+  if (document.subtitle) {
+    writer.y -= 16;
+    writer.text(document.subtitle, MARGIN, 10);
+  }
+  document.tables.forEach(table => drawTable(writer, table));
+
+  writer.pages.forEach((page, index) => {
+    const number = `${index + 1} / ${writer.pages.length}`;
+    page.push(`BT /F1 ${FONT_SIZE} Tf ${(PAGE_WIDTH - MARGIN - textWidth(number, FONT_SIZE)).toFixed(2)} ${MARGIN / 2} Td (${number}) Tj ET`);
+  });
+
+  // Catalog, page tree and fonts, then each page followed by its content
+  const pageIds = writer.pages.map((_, index) => 5 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  writer.pages.forEach((page, index) => {
+    const content = page.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every character is one byte, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return strToU8(pdf, true);
+}
@@ -0,0 +1,360 @@
+import { Alert } from 'react-native';
+import { Paths, File, Directory } from 'expo-file-system';
+import { queryAll, settingsRepository, customFieldRepository, customFieldValueRepository, toReportingCurrencySql } from '../database';
+import { t } from '../../i18n';
+import { loadSharing } from '../../utils/sharing';
+import { AppSettings, CustomFieldEntityType, CustomFieldType } from '../../types';
+import { Sheet, SheetColumn, CellValue, toCsv, toXlsx } from './spreadsheet';
+
+export type SpreadsheetDataset = 'expenses' | 'assets' | 'maintenance';
+export type SpreadsheetFormat = 'xlsx' | 'csv';
+
+export const SPREADSHEET_DATASETS: SpreadsheetDataset[] = ['expenses', 'assets', 'maintenance'];
+
+export interface SpreadsheetFilters {
+  propertyId?: string;
+  // Inclusive, as 'yyyy-MM-dd'. Assets are listed regardless of dates.
+  startDate?: string;
+  endDate?: string;
+}
+
+interface ExpenseExportRow {
+  id: string;
+  date: string;
+  property_name: string;
+  room_name: string | null;
+  asset_name: string | null;
+  linked_assets: string | null;
+  worker_name: string | null;
+  type: string;
+  category: string;
+  description: string;
+  amount: number;
+  currency: string | null;
+  // In the reporting currency, or null when no stored rate converts it
+  converted_amount: number | null;
+  is_recurring: number;
+  tags: string | null;
+}
+
+interface AssetExportRow {
+  id: string;
+  property_name: string;
+  room_name: string | null;
+  name: string;
+  category: string;
+  brand: string | null;
+  model: string | null;
+  serial_number: string | null;
+  purchase_date: string | null;
+  purchase_price: number | null;
+  purchase_currency: string | null;
+  converted_price: number | null;
+  warranty_end_date: string | null;
+  notes: string | null;
+}
+
+interface MaintenanceExportRow {
+  completed_date: string;
+  property_name: string;
+  task_title: string;
+  frequency: string;
+  asset_name: string | null;
+  worker_name: string | null;
+  cost: number | null;
+  notes: string | null;
+}
+
+// Builds the WHERE clause shared by the dated queries, leaving out rows in the
+// trash. Dates are stored as ISO strings, so comparing the date part keeps the
+// range inclusive on both ends.
+function buildWhere(filters: SpreadsheetFilters, alias: string, dateColumn?: string): { sql: string; params: string[] } {
+  const conditions: string[] = [`${alias}.deleted_at IS NULL`];
+  const params: string[] = [];
+
+  if (filters.propertyId) {
+    conditions.push('p.id = ?');
+    params.push(filters.propertyId);
+  }
+  if (dateColumn && filters.startDate) {
+    conditions.push(`substr(${dateColumn}, 1, 10) >= ?`);
+    params.push(filters.startDate);
+  }
+  if (dateColumn && filters.endDate) {
+    conditions.push(`substr(${dateColumn}, 1, 10) <= ?`);
+    params.push(filters.endDate);
+  }
+
+  return {
+    sql: `WHERE ${conditions.join(' AND ')}`,
+    params,
+  };
+}
+
+function datePart(value: string | null): string | null {
+  return value ? value.slice(0, 10) : null;
+}
+
+// Looks up a label for a stored key, falling back to the key itself for
+// custom values the user typed in
+function label(scope: string, key: string): string {
+  return t(`${scope}.${key}`, { defaultValue: key });
+}
+
+function parseTags(value: string | null): string {
+  if (!value) return '';
+  try {
+    const tags = JSON.parse(value);
+    return Array.isArray(tags) ? tags.join(', ') : '';
+  } catch {
+    return '';
+  }
+}
+
+const CUSTOM_FIELD_COLUMN_TYPES: Record<CustomFieldType, SheetColumn['type']> = {
+  text: 'text',
+  number: 'number',
+  date: 'date',
+  select: 'text',
+  boolean: 'text',
+};
+
+// One extra column per custom field of the record type, after the fixed ones
+async function getCustomFieldColumns(entityType: CustomFieldEntityType): Promise<{
+  columns: SheetColumn[];
+  cells: (id: string) => CellValue[];
+}> {
+  const definitions = await customFieldRepository.getByEntityType(entityType);
+  const values = await customFieldValueRepository.getByEntityType(entityType);
+
+  return {
+    columns: definitions.map(definition => ({ header: definition.name, type: CUSTOM_FIELD_COLUMN_TYPES[definition.fieldType] })),
+    cells: id => definitions.map(definition => {
+      const value = values[id]?.[definition.id];
+      if (!value) return null;
+      if (definition.fieldType === 'number') return Number(value);
+      if (definition.fieldType === 'boolean') return value === 'true' ? t('common.yes') : t('common.no');
+      return value;
+    }),
+  };
+}
+
+async function buildExpenseSheet(filters: SpreadsheetFilters, settings: AppSettings): Promise<Sheet> {
+  const currency = settings.reportingCurrency || settings.currency;
+  const where = buildWhere(filters, 'e', 'e.date');
+  const rows = await queryAll<ExpenseExportRow>(
+    `SELECT e.id, e.date, p.name AS property_name, r.name AS room_name, a.name AS asset_name,
+            (SELECT GROUP_CONCAT(la.name, ', ')
+               FROM expense_assets ea JOIN assets la ON la.id = ea.asset_id
+              WHERE ea.expense_id = e.id AND ea.deleted_at IS NULL) AS linked_assets,
+            w.name AS worker_name, e.type, e.category, e.description, e.amount, e.currency,
+            ${toReportingCurrencySql('e.amount', 'e.currency', 'e.date')} AS converted_amount,
+            e.is_recurring, e.tags
+       FROM expenses e
+       JOIN properties p ON p.id = e.property_id
+       LEFT JOIN rooms r ON r.id = e.room_id AND r.deleted_at IS NULL
+       LEFT JOIN assets a ON a.id = e.asset_id AND a.deleted_at IS NULL
+       LEFT JOIN workers w ON w.id = e.worker_id AND w.deleted_at IS NULL
+       ${where.sql}
+      ORDER BY e.date DESC`,
+    where.params
+  );
+  const customFields = await getCustomFieldColumns('expense');
+
+  return {
+    name: t('spreadsheetExport.datasets.expenses'),
+    columns: [
+      { header: t('spreadsheetExport.columns.date'), type: 'date', width: 12 },
+      { header: t('spreadsheetExport.columns.property'), type: 'text', width: 20 },
+      { header: t('spreadsheetExport.columns.room'), type: 'text' },
+      { header: t('spreadsheetExport.columns.asset'), type: 'text', width: 24 },
+      { header: t('spreadsheetExport.columns.worker'), type: 'text' },
+      { header: t('spreadsheetExport.columns.type'), type: 'text' },
+      { header: t('spreadsheetExport.columns.category'), type: 'text' },
+      { header: t('spreadsheetExport.columns.description'), type: 'text', width: 32 },
+      { header: t('spreadsheetExport.columns.amount', { currency }), type: 'amount', width: 14 },
+      { header: t('spreadsheetExport.columns.originalAmount'), type: 'amount', width: 14 },
+      { header: t('spreadsheetExport.columns.currency'), type: 'text', width: 10 },
+      { header: t('spreadsheetExport.columns.recurring'), type: 'text', width: 10 },
+      { header: t('spreadsheetExport.columns.tags'), type: 'text' },
+      ...customFields.columns,
+    ],
+    rows: rows.map((row): CellValue[] => [
+      datePart(row.date),
+      row.property_name,
+      row.room_name,
+      // Split expenses name every asset they were spread across
+      row.linked_assets || row.asset_name,
+      row.worker_name,
+      label('expense.types', row.type),
+      row.category,
+      row.description,
+      row.converted_amount,
+      row.amount,
+      row.currency,
+      row.is_recurring ? t('common.yes') : t('common.no'),
+      parseTags(row.tags),
+      ...customFields.cells(row.id),
+    ]),
+  };
+}
+
+async function buildAssetSheet(filters: SpreadsheetFilters, settings: AppSettings): Promise<Sheet> {
+  const currency = settings.reportingCurrency || settings.currency;
+  const where = buildWhere(filters, 'a');
+  const rows = await queryAll<AssetExportRow>(
+    `SELECT a.id, p.name AS property_name, r.name AS room_name, a.name, a.category, a.brand,
+            a.model, a.serial_number, a.purchase_date, a.purchase_price, a.purchase_currency,
+            ${toReportingCurrencySql('a.purchase_price', 'a.purchase_currency', 'COALESCE(a.purchase_date, a.created_at)')} AS converted_price,
+            a.warranty_end_date, a.notes
+       FROM assets a
+       JOIN properties p ON p.id = a.property_id
+       LEFT JOIN rooms r ON r.id = a.room_id AND r.deleted_at IS NULL
+       ${where.sql}
+      ORDER BY p.name, r.name, a.name`,
+    where.params
+  );
+  const customFields = await getCustomFieldColumns('asset');
+
+  return {
+    name: t('spreadsheetExport.datasets.assets'),
+    columns: [
+      { header: t('spreadsheetExport.columns.property'), type: 'text', width: 20 },
+      { header: t('spreadsheetExport.columns.room'), type: 'text' },
+      { header: t('spreadsheetExport.columns.name'), type: 'text', width: 24 },
+      { header: t('spreadsheetExport.columns.category'), type: 'text' },
+      { header: t('spreadsheetExport.columns.brand'), type: 'text' },
+      { header: t('spreadsheetExport.columns.model'), type: 'text' },
+      { header: t('spreadsheetExport.columns.serialNumber'), type: 'text', width: 20 },
+      { header: t('spreadsheetExport.columns.purchaseDate'), type: 'date', width: 12 },
+      { header: t('spreadsheetExport.columns.purchasePrice', { currency }), type: 'amount', width: 14 },
+      { header: t('spreadsheetExport.columns.originalAmount'), type: 'amount', width: 14 },
+      { header: t('spreadsheetExport.columns.currency'), type: 'text', width: 10 },
+      { header: t('spreadsheetExport.columns.warrantyEnd'), type: 'date', width: 12 },
+      { header: t('spreadsheetExport.columns.notes'), type: 'text', width: 32 },
+      ...customFields.columns,
+    ],
+    rows: rows.map((row): CellValue[] => [
+      row.property_name,
+      row.room_name,
+      row.name,
+      label('asset.categories', row.category),
+      row.brand,
+      row.model,
+      row.serial_number,
+      datePart(row.purchase_date),
+      row.converted_price,
+      row.purchase_price,
+      row.purchase_currency,
+      datePart(row.warranty_end_date),
+      row.notes,
+      ...customFields.cells(row.id),
+    ]),
+  };
+}
+
+// Completion costs have no currency of their own and are not converted
+async function buildMaintenanceSheet(filters: SpreadsheetFilters, settings: AppSettings): Promise<Sheet> {
+  const currency = settings.currency;
+  const where = buildWhere(filters, 'c', 'c.completed_date');
+  const rows = await queryAll<MaintenanceExportRow>(
+    `SELECT c.completed_date, p.name AS property_name, m.title AS task_title, m.frequency,
+            a.name AS asset_name, w.name AS worker_name, c.cost, c.notes
+       FROM maintenance_completions c
+       JOIN maintenance_tasks m ON m.id = c.task_id
+       JOIN properties p ON p.id = m.property_id
+       LEFT JOIN assets a ON a.id = m.asset_id AND a.deleted_at IS NULL
+       LEFT JOIN workers w ON w.id = c.worker_id AND w.deleted_at IS NULL
+       ${where.sql}
+      ORDER BY c.completed_date DESC`,
+    where.params
+  );
+
+  return {
+    name: t('spreadsheetExport.datasets.maintenance'),
+    columns: [
+      { header: t('spreadsheetExport.columns.completedDate'), type: 'date', width: 12 },
+      { header: t('spreadsheetExport.columns.property'), type: 'text', width: 20 },
+      { header: t('spreadsheetExport.columns.task'), type: 'text', width: 28 },
+      { header: t('spreadsheetExport.columns.frequency'), type: 'text' },
+      { header: t('spreadsheetExport.columns.asset'), type: 'text', width: 24 },
+      { header: t('spreadsheetExport.columns.worker'), type: 'text' },
+      { header: t('spreadsheetExport.columns.cost', { currency }), type: 'amount', width: 14 },
+      { header: t('spreadsheetExport.columns.notes'), type: 'text', width: 32 },
+    ],
+    rows: rows.map((row): CellValue[] => [
+      datePart(row.completed_date),
+      row.property_name,
+      row.task_title,
+      label('maintenance.frequency_options', row.frequency),
+      row.asset_name,
+      row.worker_name,
+      row.cost,
+      row.notes,
+    ]),
+  };
+}
+
+const SHEET_BUILDERS: Record<SpreadsheetDataset, (filters: SpreadsheetFilters, settings: AppSettings) => Promise<Sheet>> = {
+  expenses: buildExpenseSheet,
+  assets: buildAssetSheet,
+  maintenance: buildMaintenanceSheet,
+};
+
+export const spreadsheetExportService = {
+  get directory(): Directory {
+    return new Directory(Paths.cache, 'exports');
+  },
+
+  async buildSheets(datasets: SpreadsheetDataset[], filters: SpreadsheetFilters): Promise<Sheet[]> {
+    const settings = await settingsRepository.get();
+    const sheets: Sheet[] = [];
+    for (const dataset of SPREADSHEET_DATASETS.filter(d => datasets.includes(d))) {
+      sheets.push(await SHEET_BUILDERS[dataset](filters, settings));
+    }
+    return sheets;
+  },
+
+  // Writes the selected datasets and opens the share sheet. XLSX puts every
+  // dataset in its own worksheet; CSV holds a single table, so only the first
+  // selected dataset is written.
+  async export(
+    datasets: SpreadsheetDataset[],
+    format: SpreadsheetFormat,
+    filters: SpreadsheetFilters = {}
+  ): Promise<{ success: boolean; filePath?: string; rowCount?: number; error?: string }> {
+    try {
+      if (datasets.length === 0) {
+        return { success: false, error: t('spreadsheetExport.nothingSelected') };
+      }
+
+      const sheets = await this.buildSheets(format === 'csv' ? datasets.slice(0, 1) : datasets, filters);
+      const rowCount = sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0);
+
+      if (!this.directory.exists) {
+        this.directory.create({ intermediates: true, idempotent: true });
+      }
+
+      const timestamp = new Date().toISOString().slice(0, 10);
+      const baseName = format === 'csv' ? `hometrack-${datasets[0]}` : 'hometrack-export';
+      const file = new File(this.directory, `${baseName}-${timestamp}.${format}`);
+      file.create({ overwrite: true });
+      file.write(format === 'csv' ? toCsv(sheets[0]) : toXlsx(sheets));
+
+      const sharing = await loadSharing();
+      if (sharing && await sharing.isAvailableAsync()) {
+        await sharing.shareAsync(file.uri, format === 'csv'
+          ? { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' }
+          : { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', UTI: 'org.openxmlformats.spreadsheetml.sheet' }
+        );
+      } else {
+        Alert.alert(t('spreadsheetExport.title'), file.uri);
+      }
+
+      return { success: true, filePath: file.uri, rowCount };
+    } catch (error) {
+      console.error('Spreadsheet export failed:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+};
@@ -0,0 +1,157 @@
+import { Alert } from 'react-native';
+import { zipSync, strToU8 } from 'fflate';
+import { Paths, File, Directory } from 'expo-file-system';
+import { taxSummaryRepository, settingsRepository } from '../database';
+import { t } from '../../i18n';
+import { loadSharing } from '../../utils/sharing';
+import { TaxSummary, TaxTreatment } from '../../types';
+import { Sheet, CellValue, toCsv } from './spreadsheet';
+import { toPdf } from './pdf';
+
+export type TaxSummaryFormat = 'pdf' | 'csv';
+
+export const TAX_SUMMARY_FORMATS: TaxSummaryFormat[] = ['pdf', 'csv'];
+
+function treatmentLabel(treatment?: TaxTreatment): string {
+  return t(`taxSummary.treatments.${treatment ?? 'none'}`);
+}
+
+// A file name from the receipt's date and description, keeping its extension
+function getReceiptName(date: string, description: string, uri: string, index: number): string {
+  const extension = uri.match(/\.([a-z0-9]{1,5})$/i)?.[1]?.toLowerCase() ?? 'jpg';
+  const slug = description
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .slice(0, 40);
+  return `${date.slice(0, 10)}-${slug || 'receipt'}-${index + 1}.${extension}`;
+}
+
+function buildTotalsSheet(summary: TaxSummary, currency: string): Sheet {
+  // Each treatment's total over every property follows the properties
+  const overall = new Map<TaxTreatment | undefined, { total: number; count: number }>();
+  for (const row of summary.totals) {
+    const sum = overall.get(row.taxTreatment) ?? { total: 0, count: 0 };
+    overall.set(row.taxTreatment, { total: sum.total + row.total, count: sum.count + row.count });
+  }
+
+  return {
+    name: t('taxSummary.byProperty'),
+    columns: [
+      { header: t('spreadsheetExport.columns.property'), type: 'text', width: 28 },
+      { header: t('taxSummary.treatment'), type: 'text', width: 22 },
+      { header: t('taxSummary.columns.count'), type: 'number', width: 10 },
+      { header: t('spreadsheetExport.columns.amount', { currency }), type: 'amount', width: 16 },
+    ],
+    rows: [
+      ...summary.totals.map((row): CellValue[] => [row.propertyName, treatmentLabel(row.taxTreatment), row.count, row.total]),
+      ...Array.from(overall.entries()).map(([treatment, sum]): CellValue[] => [
+        t('taxSummary.allProperties'),
+        treatmentLabel(treatment),
+        sum.count,
+        sum.total,
+      ]),
+    ],
+  };
+}
+
+function buildItemsSheet(summary: TaxSummary, currency: string, receiptNames: Map<string, string>): Sheet {
+  return {
+    name: t('taxSummary.items'),
+    columns: [
+      { header: t('spreadsheetExport.columns.date'), type: 'date', width: 11 },
+      { header: t('spreadsheetExport.columns.property'), type: 'text', width: 18 },
+      { header: t('spreadsheetExport.columns.description'), type: 'text', width: 30 },
+      { header: t('spreadsheetExport.columns.category'), type: 'text', width: 14 },
+      { header: t('taxSummary.treatment'), type: 'text', width: 16 },
+      { header: t('spreadsheetExport.columns.amount', { currency }), type: 'amount', width: 13 },
+      { header: t('spreadsheetExport.columns.originalAmount'), type: 'amount', width: 13 },
+      { header: t('spreadsheetExport.columns.currency'), type: 'text', width: 8 },
+      { header: t('taxSummary.columns.receipts'), type: 'text', width: 28 },
+    ],
+    rows: summary.items.map((item): CellValue[] => [
+      item.date.slice(0, 10),
+      item.propertyName,
+      item.description,
+      item.category,
+      treatmentLabel(item.taxTreatment),
+      item.convertedAmount,
+      item.amount,
+      item.currency,
+      item.receiptUris.map(uri => receiptNames.get(uri)).filter(Boolean).join(', '),
+    ]),
+  };
+}
+
+export const taxSummaryExportService = {
+  get directory(): Directory {
+    return new Directory(Paths.cache, 'exports');
+  },
+
+  // Writes a zip of the year's summary, as a PDF or as CSV files of the
+  // totals and the items, with the receipts of its expenses under receipts/,
+  // and opens the share sheet. Receipt files that are gone are left out.
+  async export(
+    fiscalYear: number,
+    format: TaxSummaryFormat
+  ): Promise<{ success: boolean; filePath?: string; receiptCount?: number; error?: string }> {
+    try {
+      const [summary, settings] = await Promise.all([
+        taxSummaryRepository.getSummary(fiscalYear),
+        settingsRepository.get(),
+      ]);
+      const currency = settings.reportingCurrency || settings.currency;
+
+      const files: Record<string, Uint8Array> = {};
+      const receiptNames = new Map<string, string>();
+      for (const item of summary.items) {
+        for (const uri of item.receiptUris) {
+          if (receiptNames.has(uri)) continue;
+          try {
+            const file = new File(uri);
+            if (!file.exists) continue;
+            const name = getReceiptName(item.date, item.description, uri, receiptNames.size);
+            files[`receipts/${name}`] = await file.bytes();
+            receiptNames.set(uri, name);
+          } catch (e) {
+            console.log('Error reading receipt:', uri, e);
+          }
+        }
+      }
+
+      const totalsSheet = buildTotalsSheet(summary, currency);
+      const itemsSheet = buildItemsSheet(summary, currency, receiptNames);
+      const baseName = `tax-summary-${summary.label.replace('/', '-')}`;
+      if (format === 'pdf') {
+        files[`${baseName}.pdf`] = toPdf({
+          title: t('taxSummary.documentTitle', { year: summary.label }),
+          subtitle: t('taxSummary.period', { from: summary.from, to: summary.to, currency }),
+          tables: [totalsSheet, itemsSheet],
+        });
+      } else {
+        files[`${baseName}-totals.csv`] = strToU8(toCsv(totalsSheet));
+        files[`${baseName}-items.csv`] = strToU8(toCsv(itemsSheet));
+      }
+
+      if (!this.directory.exists) {
+        this.directory.create({ intermediates: true, idempotent: true });
+      }
+      const file = new File(this.directory, `hometrack-${baseName}.zip`);
+      file.create({ overwrite: true });
+      file.write(zipSync(files));
+
+      const sharing = await loadSharing();
+      if (sharing && await sharing.isAvailableAsync()) {
+        await sharing.shareAsync(file.uri, { mimeType: 'application/zip', UTI: 'public.zip-archive' });
+      } else {
+        Alert.alert(t('taxSummary.title'), file.uri);
+      }
+
+      return { success: true, filePath: file.uri, receiptCount: receiptNames.size };
+    } catch (error) {
+      console.error('Tax summary export failed:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+};
@@ -0,0 +1,84 @@
+import { DATE_ORDERS, DateOrder, parseCsv, parseStatementDate } from './statementParser';
+
+export interface ParsedExchangeRate {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: string; // yyyy-MM-dd
+}
+
+const HEADER_PATTERNS: Record<'date' | 'from' | 'to' | 'rate', RegExp> = {
+  date: /date|tarih|datum/i,
+  from: /from|base|kaynak|^currency$|döviz|doviz/i,
+  to: /^to($|[\s_-])|target|quote|hedef|karşı|karsi/i,
+  rate: /rate|kur|value|değer|deger/i,
+};
+
+// Rates have more decimals than amounts, so the last separator is taken as
+// the decimal one, and a lone comma too: "35,2134", "1.234,5" and "0.0284"
+function parseRate(value: string): number | null {
+  const text = value.trim().replace(/\s/g, '');
+  if (!/^\d[\d.,]*$/.test(text)) return null;
+  const decimal = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+  const normalized = decimal < 0
+    ? text
+    : `${text.slice(0, decimal).replace(/[.,]/g, '')}.${text.slice(decimal + 1)}`;
+  const rate = Number(normalized);
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+// The date order that reads the most samples, so a bad row does not decide it
+function detectDateOrder(samples: string[]): DateOrder {
+  const counts = DATE_ORDERS.map(order => samples.filter(sample => parseStatementDate(sample, order) !== null).length);
+  return DATE_ORDERS[counts.indexOf(Math.max(...counts))];
+}
+
+function parseCurrency(value: string): string | null {
+  const code = value.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+// Reads a CSV of rates with date, from, to and rate columns, in that order
+// unless a header row names them. Rows that cannot be read are counted and
+// left out.
+export function parseExchangeRates(content: string): { rates: ParsedExchangeRate[]; skippedRows: number } {
+  const table = parseCsv(content.replace(/^﻿/, ''));
+  if (table.headers.length === 0) {
+    return { rates: [], skippedRows: 0 };
+  }
+
+  // A file without a header starts with a rate
+  const hasHeader = !DATE_ORDERS.some(order => parseStatementDate(table.headers[0], order) !== null);
+  const rows = hasHeader ? table.rows : [table.headers, ...table.rows];
+
+  const columns = { date: 0, from: 1, to: 2, rate: 3 };
+  if (hasHeader) {
+    const used: number[] = [];
+    for (const key of ['date', 'rate', 'to', 'from'] as const) {
+      const index = table.headers.findIndex((header, i) => !used.includes(i) && HEADER_PATTERNS[key].test(header.trim()));
+      if (index >= 0) {
+        columns[key] = index;
+        used.push(index);
+      }
+    }
+  }
+
+  const dateOrder = detectDateOrder(rows.slice(0, 50).map(row => row[columns.date] ?? ''));
+  const rates: ParsedExchangeRate[] = [];
+  let skippedRows = 0;
+
+  for (const row of rows) {
+    const date = parseStatementDate(row[columns.date] ?? '', dateOrder);
+    const fromCurrency = parseCurrency(row[columns.from] ?? '');
+    const toCurrency = parseCurrency(row[columns.to] ?? '');
+    const rate = parseRate(row[columns.rate] ?? '');
+
+    if (!date || !fromCurrency || !toCurrency || fromCurrency === toCurrency || rate === null) {
+      skippedRows++;
+      continue;
+    }
+    rates.push({ fromCurrency, toCurrency, rate, date });
+  }
+
+  return { rates, skippedRows };
+}
@@ -0,0 +1,23 @@
+export {
+  parseStatement,
+  guessCsvMapping,
+  applyCsvMapping,
+  parseStatementDate,
+  DATE_ORDERS,
+} from './statementParser';
+export type {
+  StatementFormat,
+  StatementTransaction,
+  CsvTable,
+  CsvColumnMapping,
+  DateOrder,
+  ParsedStatement,
+} from './statementParser';
+export { parseExchangeRates } from './exchangeRateParser';
+export type { ParsedExchangeRate } from './exchangeRateParser';
+export {
+  buildStatementImport,
+  importStatementItems,
+  getPayeePattern,
+} from './statementImport';
+export type { StatementImportItem, StatementTarget, StatementMatchSource } from './statementImport';
@@ -0,0 +1,243 @@
+import { CustomCategory, ExpenseType, PayeeRule, RecurringTemplate, UUID } from '../../types';
+import {
+  customCategoryRepository,
+  expenseRepository,
+  payeeRuleRepository,
+  recurringPaymentHistoryRepository,
+  recurringTemplateRepository,
+  withTransaction,
+  queryAll,
+} from '../database';
+import { StatementTransaction } from './statementParser';
+
+// Bank posting dates can trail the date the expense was entered by hand
+const DUPLICATE_DAY_WINDOW = 3;
+
+export type StatementMatchSource = 'rule' | 'template' | 'category';
+
+// Where a statement line goes: a recurring bill, or a custom category
+export interface StatementTarget {
+  templateId?: UUID;
+  expenseType: ExpenseType;
+  category: string;
+  label: string;
+}
+
+export interface StatementImportItem {
+  transaction: StatementTransaction;
+  target?: StatementTarget;
+  matchedBy?: StatementMatchSource;
+  // An expense already recorded with the same amount around the same date
+  duplicateOf?: { id: UUID; description: string; date: string };
+  include: boolean;
+  // Save the target as a payee rule for future imports
+  remember: boolean;
+}
+
+export interface StatementImportOptions {
+  targets: StatementTarget[];
+  rules: PayeeRule[];
+}
+
+interface ExistingExpenseRow {
+  id: string;
+  description: string;
+  date: string;
+  amount: number;
+}
+
+// Folds case and diacritics (banks often export "ELEKTRIK" for "Elektrik")
+// and drops digits and punctuation, so reference and subscriber numbers do
+// not stop a payee from matching
+export function normalizePayee(payee: string): string {
+  return payee
+    .toLocaleLowerCase('tr-TR')
+    .replace(/ı/g, 'i')
+    .normalize('NFD')
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The part of a payee that stays the same from one month to the next
+export function getPayeePattern(payee: string): string {
+  return normalizePayee(payee)
+    .split(' ')
+    .filter(word => word.length > 1)
+    .slice(0, 3)
+    .join(' ');
+}
+
+function containsWords(text: string, phrase: string): boolean {
+  if (!phrase) return false;
+  return ` ${text} `.includes(` ${phrase} `);
+}
+
+function dayDistance(a: string, b: string): number {
+  return Math.abs(Date.parse(a.slice(0, 10)) - Date.parse(b.slice(0, 10))) / 86400000;
+}
+
+// Everything a statement line can be recorded as for this property:
+// its recurring bills first, then the custom categories
+export async function getStatementTargets(propertyId: UUID): Promise<StatementTarget[]> {
+  const [templates, billCategories, expenseCategories] = await Promise.all([
+    recurringTemplateRepository.getByPropertyId(propertyId),
+    customCategoryRepository.getByType('bill_category'),
+    customCategoryRepository.getByType('expense_category'),
+  ]);
+
+  const fromTemplate = (template: RecurringTemplate): StatementTarget => ({
+    templateId: template.id,
+    expenseType: 'bill',
+    category: template.category,
+    label: template.name,
+  });
+  const fromCategory = (expenseType: ExpenseType) => (category: CustomCategory): StatementTarget => ({
+    expenseType,
+    category: category.name,
+    label: category.name,
+  });
+
+  return [
+    ...templates.filter(template => template.isActive).map(fromTemplate),
+    ...billCategories.map(fromCategory('bill')),
+    ...expenseCategories.map(fromCategory('other')),
+  ];
+}
+
+function matchTransaction(
+  transaction: StatementTransaction,
+  { targets, rules }: StatementImportOptions
+): { target?: StatementTarget; matchedBy?: StatementMatchSource } {
+  const payee = normalizePayee(`${transaction.payee} ${transaction.memo ?? ''}`);
+
+  // Longer patterns are more specific
+  const rule = [...rules]
+    .sort((a, b) => b.pattern.length - a.pattern.length)
+    .find(r => containsWords(payee, r.pattern));
+  if (rule) {
+    const target = targets.find(t => rule.templateId
+      ? t.templateId === rule.templateId
+      : !t.templateId && t.expenseType === rule.expenseType && t.category === rule.category);
+    return {
+      target: target ?? { templateId: undefined, expenseType: rule.expenseType, category: rule.category, label: rule.category },
+      matchedBy: 'rule',
+    };
+  }
+
+  const template = targets.find(t => t.templateId && containsWords(payee, normalizePayee(t.label)));
+  if (template) {
+    return { target: template, matchedBy: 'template' };
+  }
+
+  const category = targets.find(t => !t.templateId && containsWords(payee, normalizePayee(t.category)));
+  if (category) {
+    return { target: category, matchedBy: 'category' };
+  }
+
+  return {};
+}
+
+// Matches money going out of the account to bills and categories, and flags
+// lines that look like expenses already entered
+export async function buildStatementImport(
+  propertyId: UUID,
+  transactions: StatementTransaction[]
+): Promise<{ items: StatementImportItem[]; targets: StatementTarget[]; ignoredIncoming: number }> {
+  const [targets, rules] = await Promise.all([
+    getStatementTargets(propertyId),
+    payeeRuleRepository.getByPropertyId(propertyId),
+  ]);
+
+  const outgoing = transactions.filter(transaction => transaction.amount < 0);
+  const dates = outgoing.map(transaction => transaction.date).sort();
+  const existing = dates.length > 0
+    ? await queryAll<ExistingExpenseRow>(
+        `SELECT id, description, date, amount FROM expenses
+          WHERE property_id = ? AND deleted_at IS NULL AND date(substr(date, 1, 10)) BETWEEN date(?, '-${DUPLICATE_DAY_WINDOW} days') AND date(?, '+${DUPLICATE_DAY_WINDOW} days')`,
+        [propertyId, dates[0], dates[dates.length - 1]]
+      )
+    : [];
+
+  // Each existing expense can only explain one statement line
+  const claimed = new Set<string>();
+  const items = outgoing.map((transaction): StatementImportItem => {
+    const amount = Math.abs(transaction.amount);
+    const duplicate = existing
+      .filter(expense => !claimed.has(expense.id)
+        && Math.abs(expense.amount - amount) < 0.005
+        && dayDistance(expense.date, transaction.date) <= DUPLICATE_DAY_WINDOW)
+      .sort((a, b) => dayDistance(a.date, transaction.date) - dayDistance(b.date, transaction.date))[0];
+    if (duplicate) claimed.add(duplicate.id);
+
+    return {
+      transaction,
+      ...matchTransaction(transaction, { targets, rules }),
+      duplicateOf: duplicate
+        ? { id: duplicate.id, description: duplicate.description, date: duplicate.date }
+        : undefined,
+      include: !duplicate,
+      remember: false,
+    };
+  });
+
+  return { items, targets, ignoredIncoming: transactions.length - outgoing.length };
+}
+
+// Creates an expense for every included line in one transaction. Lines
+// recorded as a recurring bill also go into that bill's payment history.
+export async function importStatementItems(
+  propertyId: UUID,
+  items: StatementImportItem[]
+): Promise<{ created: number; rulesSaved: number }> {
+  const included = items.filter(item => item.include);
+
+  return withTransaction(async () => {
+    let created = 0;
+    let rulesSaved = 0;
+
+    for (const item of included) {
+      const { transaction, target } = item;
+      const amount = Math.abs(transaction.amount);
+      const date = new Date(`${transaction.date}T12:00:00`).toISOString();
+
+      await expenseRepository.create({
+        propertyId,
+        type: target?.expenseType ?? 'other',
+        category: target?.category ?? 'other',
+        amount,
+        date,
+        description: transaction.payee || transaction.memo || '',
+        isRecurring: !!target?.templateId,
+        recurringTemplateId: target?.templateId,
+      });
+      if (target?.templateId) {
+        await recurringPaymentHistoryRepository.create({
+          templateId: target.templateId,
+          amount,
+          paidDate: date,
+          notes: transaction.memo,
+        });
+      }
+      created++;
+    }
+
+    // Rules are saved for every line marked, even skipped ones
+    const saved = new Set<string>();
+    for (const item of items) {
+      const pattern = getPayeePattern(item.transaction.payee);
+      if (!item.remember || !item.target || !pattern || saved.has(pattern)) continue;
+      await payeeRuleRepository.upsert({
+        propertyId,
+        pattern,
+        templateId: item.target.templateId,
+        expenseType: item.target.expenseType,
+        category: item.target.category,
+      });
+      saved.add(pattern);
+      rulesSaved++;
+    }
+
+    return { created, rulesSaved };
+  });
+}
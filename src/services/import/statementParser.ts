@@ -0,0 +1,412 @@
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+// Order of day, month and year in the file's dates
+export type DateOrder = 'ymd' | 'dmy' | 'mdy';
+
+export const DATE_ORDERS: DateOrder[] = ['ymd', 'dmy', 'mdy'];
+
+// One line of a bank statement. Amounts are negative for money leaving the
+// account, whatever convention the file used.
+export interface StatementTransaction {
+  key: string;
+  date: string; // yyyy-MM-dd
+  amount: number;
+  payee: string;
+  memo?: string;
+  reference?: string;
+}
+
+// A CSV file before its columns are mapped
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface CsvColumnMapping {
+  date: number;
+  payee: number;
+  memo?: number;
+  // Either one signed amount column, or separate money out / in columns
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  dateOrder: DateOrder;
+  decimalSeparator: ',' | '.';
+  // Credit card exports list purchases as positive amounts
+  spendingIsPositive: boolean;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  // Set for CSV files, which need a column mapping first
+  table?: CsvTable;
+  transactions: StatementTransaction[];
+  skippedRows: number;
+}
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(content)) return 'ofx';
+  if (extension === 'qif' || /^!Type:/im.test(content)) return 'qif';
+  return 'csv';
+}
+
+export function parseStatement(fileName: string, content: string): ParsedStatement {
+  const text = content.replace(/^﻿/, '');
+  const format = detectStatementFormat(fileName, text);
+
+  if (format === 'ofx') {
+    return { format, ...parseOfx(text) };
+  }
+  if (format === 'qif') {
+    return { format, ...parseQif(text) };
+  }
+  return { format, table: parseCsv(text), transactions: [], skippedRows: 0 };
+}
+
+// ---------------------------------------------------------------------------
+// Dates and amounts
+
+// Reads a date in the given order into yyyy-MM-dd. Two-digit years are taken
+// as 20xx. Time parts after the date are ignored.
+export function parseStatementDate(value: string, order: DateOrder): string | null {
+  const trimmed = value.trim();
+  let parts: string[] | null = null;
+
+  const compact = /^(\d{4})(\d{2})(\d{2})/.exec(trimmed);
+  if (compact && order === 'ymd') {
+    parts = [compact[1], compact[2], compact[3]];
+  } else {
+    const match = /^(\d{1,4})[./\-\s'](\d{1,2})[./\-\s'](\d{2,4})/.exec(trimmed);
+    if (match) parts = [match[1], match[2], match[3]];
+  }
+  if (!parts || (order === 'ymd' && parts[0].length !== 4)) return null;
+
+  let [year, month, day] = order === 'ymd'
+    ? [parts[0], parts[1], parts[2]]
+    : order === 'dmy'
+      ? [parts[2], parts[1], parts[0]]
+      : [parts[2], parts[0], parts[1]];
+
+  if (year.length === 2) year = `20${year}`;
+  if (year.length !== 4) return null;
+
+  const y = Number(year);
+  const m = Number(month);
+  const d = Number(day);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) {
+    return null;
+  }
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// Picks the first date order that reads every sample
+export function detectDateOrder(samples: string[]): DateOrder {
+  const values = samples.filter(sample => sample.trim() !== '');
+  return DATE_ORDERS.find(order => values.every(value => parseStatementDate(value, order) !== null)) ?? 'dmy';
+}
+
+// Handles "1.234,56", "-1,234.56", "(12.00)", "12,00-" and currency symbols
+export function parseStatementAmount(value: string, decimalSeparator: ',' | '.'): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/-\s*$/.test(text) || /^[^\d]*-/.test(text)) {
+    negative = true;
+  }
+
+  text = text.replace(/[^\d.,]/g, '');
+  text = decimalSeparator === ','
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  if (!text || !/\d/.test(text)) return null;
+
+  const amount = Number(text);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+// The separator followed by one or two digits at the end is the decimal one
+export function detectDecimalSeparator(samples: string[]): ',' | '.' {
+  let comma = 0;
+  let dot = 0;
+  for (const sample of samples) {
+    const match = /([.,])\d{1,2}\s*\D*$/.exec(sample.trim());
+    if (match?.[1] === ',') comma++;
+    if (match?.[1] === '.') dot++;
+  }
+  return comma > dot ? ',' : '.';
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+
+// The delimiter that splits the most lines into the same number of columns
+function detectDelimiter(lines: string[]): string {
+  let best = ',';
+  let bestScore = 0;
+  for (const candidate of [',', ';', '\t', '|']) {
+    const counts = new Map<number, number>();
+    for (const line of lines) {
+      const columns = splitCsvLine(line, candidate).length;
+      if (columns > 1) counts.set(columns, (counts.get(columns) ?? 0) + 1);
+    }
+    for (const [columns, lineCount] of counts) {
+      const score = lineCount * 100 + columns;
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+  }
+  return best;
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+// Splits into lines, keeping line breaks that sit inside quotes
+function splitCsvRecords(text: string): string[] {
+  const records: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') quoted = !quoted;
+    if (!quoted && (char === '\n' || char === '\r')) {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      if (current.trim()) records.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) records.push(current);
+  return records;
+}
+
+// Bank exports often start with account details above the table, so the
+// header is the first line with as many columns as the widest line
+export function parseCsv(text: string): CsvTable {
+  const records = splitCsvRecords(text);
+  if (records.length === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const delimiter = detectDelimiter(records.slice(0, 20));
+  const lines = records.map(record => splitCsvLine(record, delimiter));
+  const width = Math.max(...lines.slice(0, 20).map(line => line.length));
+  const headerIndex = Math.max(0, lines.findIndex(line => line.length === width));
+
+  return {
+    headers: lines[headerIndex],
+    rows: lines.slice(headerIndex + 1).filter(line => line.length >= Math.min(width, 2)),
+  };
+}
+
+const HEADER_PATTERNS: Record<'date' | 'payee' | 'memo' | 'amount' | 'debit' | 'credit', RegExp> = {
+  date: /date|tarih|datum/i,
+  payee: /payee|description|açıklama|aciklama|details|narrative|name|işlem|islem|merchant/i,
+  memo: /memo|reference|referans|note|not/i,
+  amount: /amount|tutar|miktar|betrag/i,
+  debit: /debit|borç|borc|withdraw|paid out|money out|çıkan|cikan/i,
+  credit: /credit|alacak|deposit|paid in|money in|giren/i,
+};
+
+// Guesses the mapping from header names and the values below them
+export function guessCsvMapping(table: CsvTable): CsvColumnMapping {
+  const find = (pattern: RegExp, exclude: number[] = []) =>
+    table.headers.findIndex((header, index) => !exclude.includes(index) && pattern.test(header));
+  const column = (index: number) => table.rows.slice(0, 50).map(row => row[index] ?? '');
+
+  const dateIndex = find(HEADER_PATTERNS.date);
+  const date = dateIndex >= 0 ? dateIndex : 0;
+  const payeeIndex = find(HEADER_PATTERNS.payee, [date]);
+  const payee = payeeIndex >= 0 ? payeeIndex : Math.min(1, table.headers.length - 1);
+  const debit = find(HEADER_PATTERNS.debit, [date, payee]);
+  const credit = find(HEADER_PATTERNS.credit, [date, payee, debit]);
+  const amountIndex = find(HEADER_PATTERNS.amount, [date, payee, debit, credit]);
+  const memo = find(HEADER_PATTERNS.memo, [date, payee, debit, credit, amountIndex]);
+
+  const useDebitCredit = debit >= 0 && amountIndex < 0;
+  const amount = useDebitCredit ? undefined : amountIndex >= 0 ? amountIndex : table.headers.length - 1;
+  const amountSamples = useDebitCredit ? [...column(debit), ...(credit >= 0 ? column(credit) : [])] : column(amount!);
+  const decimalSeparator = detectDecimalSeparator(amountSamples.filter(Boolean));
+
+  // Mostly positive amounts in a single column means purchases are positive
+  const signed = amount !== undefined
+    ? column(amount).map(value => parseStatementAmount(value, decimalSeparator)).filter((value): value is number => value !== null)
+    : [];
+  const spendingIsPositive = signed.length > 0 && signed.filter(value => value > 0).length > signed.length / 2;
+
+  return {
+    date,
+    payee,
+    memo: memo >= 0 ? memo : undefined,
+    amount,
+    debit: useDebitCredit ? debit : undefined,
+    credit: useDebitCredit && credit >= 0 ? credit : undefined,
+    dateOrder: detectDateOrder(column(date)),
+    decimalSeparator,
+    spendingIsPositive,
+  };
+}
+
+export function applyCsvMapping(table: CsvTable, mapping: CsvColumnMapping): { transactions: StatementTransaction[]; skippedRows: number } {
+  const transactions: StatementTransaction[] = [];
+  let skippedRows = 0;
+
+  table.rows.forEach((row, index) => {
+    const date = parseStatementDate(row[mapping.date] ?? '', mapping.dateOrder);
+    let amount: number | null = null;
+
+    if (mapping.amount !== undefined) {
+      amount = parseStatementAmount(row[mapping.amount] ?? '', mapping.decimalSeparator);
+      if (amount !== null && mapping.spendingIsPositive) amount = -amount;
+    } else {
+      const debit = mapping.debit !== undefined ? parseStatementAmount(row[mapping.debit] ?? '', mapping.decimalSeparator) : null;
+      const credit = mapping.credit !== undefined ? parseStatementAmount(row[mapping.credit] ?? '', mapping.decimalSeparator) : null;
+      if (debit) amount = -Math.abs(debit);
+      else if (credit) amount = Math.abs(credit);
+    }
+
+    if (!date || amount === null) {
+      skippedRows++;
+      return;
+    }
+
+    transactions.push({
+      key: `row-${index}`,
+      date,
+      amount,
+      payee: row[mapping.payee] ?? '',
+      memo: mapping.memo !== undefined ? row[mapping.memo] || undefined : undefined,
+    });
+  });
+
+  return { transactions, skippedRows };
+}
+
+// ---------------------------------------------------------------------------
+// OFX (SGML and XML flavours)
+
+function ofxField(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match ? decodeEntities(match[1].trim()) : undefined;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function parseOfx(text: string): { transactions: StatementTransaction[]; skippedRows: number } {
+  const transactions: StatementTransaction[] = [];
+  let skippedRows = 0;
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+
+  blocks.forEach((block, index) => {
+    const body = block.split(/<\/STMTTRN>/i)[0];
+    const date = parseStatementDate(ofxField(body, 'DTPOSTED') ?? '', 'ymd');
+    const amount = parseStatementAmount(ofxField(body, 'TRNAMT') ?? '', '.');
+    if (!date || amount === null) {
+      skippedRows++;
+      return;
+    }
+    const name = ofxField(body, 'NAME') ?? '';
+    const memo = ofxField(body, 'MEMO');
+    transactions.push({
+      key: ofxField(body, 'FITID') || `ofx-${index}`,
+      date,
+      amount,
+      payee: name || memo || '',
+      memo: name ? memo : undefined,
+      reference: ofxField(body, 'FITID'),
+    });
+  });
+
+  return { transactions, skippedRows };
+}
+
+// ---------------------------------------------------------------------------
+// QIF
+
+function parseQif(text: string): { transactions: StatementTransaction[]; skippedRows: number } {
+  const records: Record<string, string>[] = [];
+  let current: Record<string, string> = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) continue;
+    if (line === '^') {
+      records.push(current);
+      current = {};
+      continue;
+    }
+    const code = line[0];
+    // Split lines (S, E, $) repeat per category; only the first is kept
+    if (!(code in current)) current[code] = line.slice(1).trim();
+  }
+  if (Object.keys(current).length > 0) records.push(current);
+
+  const dateOrder = detectDateOrder(records.map(record => record.D ?? ''));
+  const decimalSeparator = detectDecimalSeparator(records.map(record => record.T ?? record.U ?? ''));
+  const transactions: StatementTransaction[] = [];
+  let skippedRows = 0;
+
+  records.forEach((record, index) => {
+    const date = parseStatementDate(record.D ?? '', dateOrder);
+    const amount = parseStatementAmount(record.T ?? record.U ?? '', decimalSeparator);
+    if (!date || amount === null) {
+      skippedRows++;
+      return;
+    }
+    transactions.push({
+      key: `qif-${index}`,
+      date,
+      amount,
+      payee: record.P || record.M || '',
+      memo: record.P ? record.M : undefined,
+      reference: record.N,
+    });
+  });
+
+  return { transactions, skippedRows };
+}
@@ -1,2 +1,2 @@
 export { notificationService } from './notificationService';
-export type { ScheduledNotification } from './notificationService';
+export type { RentalReminder, ScheduledNotification } from './notificationService';
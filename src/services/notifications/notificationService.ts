@@ -23,6 +23,18 @@ export interface ScheduledNotification {
   scheduledFor: Date;
 }
 
+// A rent-due or lease renewal reminder, with its text already translated
+export interface RentalReminder {
+  identifier: string;
+  leaseId: string;
+  date: Date;
+  title: string;
+  body: string;
+}
+
+// Identifier prefixes of rent-due and lease renewal reminders
+const RENTAL_PREFIXES = ['rent-', 'lease-renewal-'];
+
 class NotificationService {
   private initialized = false;
 
@@ -58,6 +70,20 @@ class NotificationService {
           vibrationPattern: [0, 250, 250, 250],
           lightColor: '#3b82f6',
         });
+
+        await Notifications.setNotificationChannelAsync('budgets', {
+          name: 'Budget Alerts',
+          importance: Notifications.AndroidImportance.HIGH,
+          vibrationPattern: [0, 250, 250, 250],
+          lightColor: '#f59e0b',
+        });
+
+        await Notifications.setNotificationChannelAsync('rentals', {
+          name: 'Rent Reminders',
+          importance: Notifications.AndroidImportance.HIGH,
+          vibrationPattern: [0, 250, 250, 250],
+          lightColor: '#8b5cf6',
+        });
       }
 
       this.initialized = true;
@@ -145,6 +171,76 @@ class NotificationService {
     }
   }
 
+  // Shown right away. A later alert for the same budget replaces this one.
+  async sendBudgetAlert(budgetId: string, title: string, body: string): Promise<string | null> {
+    try {
+      return await Notifications.scheduleNotificationAsync({
+        content: {
+          title,
+          body,
+          data: {
+            type: 'budget',
+            budgetId,
+          },
+          sound: true,
+        },
+        trigger: Platform.OS === 'android' ? { channelId: 'budgets' } : null,
+        identifier: `budget-${budgetId}`,
+      });
+    } catch (error) {
+      console.error('Failed to send budget alert:', error);
+      return null;
+    }
+  }
+
+  async scheduleRentalReminder(reminder: RentalReminder): Promise<string | null> {
+    try {
+      if (reminder.date <= new Date()) {
+        return null;
+      }
+
+      await this.cancelNotification(reminder.identifier);
+
+      return await Notifications.scheduleNotificationAsync({
+        content: {
+          title: reminder.title,
+          body: reminder.body,
+          data: {
+            type: 'rental',
+            leaseId: reminder.leaseId,
+          },
+          sound: true,
+        },
+        trigger: {
+          date: reminder.date,
+          channelId: 'rentals',
+        },
+        identifier: reminder.identifier,
+      });
+    } catch (error) {
+      console.error('Failed to schedule rental reminder:', error);
+      return null;
+    }
+  }
+
+  // Cancels rental reminders that are no longer expected and schedules the
+  // rest again, as their dates and amounts follow the leases and payments
+  async syncRentalNotifications(reminders: RentalReminder[]): Promise<void> {
+    const scheduled = await this.getScheduledNotifications();
+    const expected = new Set(reminders.map(reminder => reminder.identifier));
+
+    for (const notification of scheduled) {
+      const isRental = RENTAL_PREFIXES.some(prefix => notification.identifier.startsWith(prefix));
+      if (isRental && !expected.has(notification.identifier)) {
+        await this.cancelNotification(notification.identifier);
+      }
+    }
+
+    for (const reminder of reminders) {
+      await this.scheduleRentalReminder(reminder);
+    }
+  }
+
   async cancelNotification(identifier: string): Promise<void> {
     try {
       await Notifications.cancelScheduledNotificationAsync(identifier);
@@ -232,20 +328,23 @@ class NotificationService {
   }
 
   // Get upcoming notifications summary
-  async getUpcomingReminders(): Promise<{ maintenance: number; bills: number }> {
+  async getUpcomingReminders(): Promise<{ maintenance: number; bills: number; rentals: number }> {
     const scheduled = await this.getScheduledNotifications();
     let maintenance = 0;
     let bills = 0;
+    let rentals = 0;
 
     for (const notification of scheduled) {
       if (notification.identifier.startsWith('maintenance-')) {
         maintenance++;
       } else if (notification.identifier.startsWith('bill-')) {
         bills++;
+      } else if (RENTAL_PREFIXES.some(prefix => notification.identifier.startsWith(prefix))) {
+        rentals++;
       }
     }
 
-    return { maintenance, bills };
+    return { maintenance, bills, rentals };
   }
 
   // Register notification listeners
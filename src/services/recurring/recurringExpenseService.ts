@@ -133,7 +133,7 @@ export const recurringExpenseService = {
     // We need to query all active templates
     const { queryAll } = await import('../database/database');
     const rows = await queryAll<any>(
-      'SELECT * FROM recurring_templates WHERE is_active = 1'
+      'SELECT * FROM recurring_templates WHERE is_active = 1 AND deleted_at IS NULL'
     );
     return rows.map((row: any) => ({
       id: row.id,
@@ -154,7 +154,7 @@ export const recurringExpenseService = {
     const { queryFirst } = await import('../database/database');
     return queryFirst<any>(
       `SELECT * FROM expenses
-       WHERE recurring_template_id = ?
+       WHERE recurring_template_id = ? AND deleted_at IS NULL
        ORDER BY created_at DESC
        LIMIT 1`,
       [templateId]
@@ -174,6 +174,7 @@ export const recurringExpenseService = {
       type: 'bill',
       category: template.category,
       amount: template.estimatedAmount,
+      currency: template.currency,
       date: new Date().toISOString(),
       description: `${template.name} (Auto-generated)`,
       isRecurring: true,
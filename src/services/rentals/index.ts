@@ -0,0 +1 @@
+export { rentalReminderService, RENEWAL_REMINDER_DAYS } from './rentalReminderService';
@@ -0,0 +1,104 @@
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
+import { LeaseWithTenant, RentDue } from '../../types';
+import { leaseRepository, propertyRepository, subscribeToChanges } from '../database';
+import { notificationService, RentalReminder } from '../notifications';
+import { t } from '../../i18n';
+import { formatCurrency } from '../../utils/currency';
+import { formatDate } from '../../utils/date';
+
+// Days before a lease's renewal date its reminder is sent
+export const RENEWAL_REMINDER_DAYS = 30;
+
+// What is due follows the leases and what was paid on them; reminders name
+// the tenant and the property
+const WATCHED_TABLES = ['tenants', 'leases', 'rent_payments', 'properties'];
+
+// The earliest due date from today on that is not paid in full
+function getNextUnpaid(schedule: RentDue[], lease: LeaseWithTenant, today: string): RentDue | undefined {
+  return schedule
+    .filter(due => due.lease.id === lease.id && due.status !== 'paid' && due.dueDate >= today)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))[0];
+}
+
+let running = false;
+let runAgain = false;
+
+// One sync at a time; changes made during a sync lead to one more
+async function runSync(): Promise<void> {
+  if (running) {
+    runAgain = true;
+    return;
+  }
+  running = true;
+  try {
+    do {
+      runAgain = false;
+      await rentalReminderService.syncReminders();
+    } while (runAgain);
+  } catch (error) {
+    console.log('Rental reminder sync failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export const rentalReminderService = {
+  // The reminders every lease should have now: one before its next unpaid
+  // rent, and one ahead of its renewal date
+  async getReminders(date: Date = new Date()): Promise<RentalReminder[]> {
+    const [leases, schedule, properties] = await Promise.all([
+      leaseRepository.getAll(),
+      leaseRepository.getRentSchedule(undefined, date),
+      propertyRepository.getAll(),
+    ]);
+    const propertyNames = new Map(properties.map(property => [property.id, property.name]));
+    const today = format(startOfDay(date), 'yyyy-MM-dd');
+    const reminders: RentalReminder[] = [];
+
+    for (const lease of leases) {
+      if (lease.endDate && lease.endDate < today) continue;
+      const values = { tenant: lease.tenantName, property: propertyNames.get(lease.propertyId) ?? '' };
+
+      const due = getNextUnpaid(schedule, lease, today);
+      if (due) {
+        reminders.push({
+          identifier: `rent-${lease.id}`,
+          leaseId: lease.id,
+          date: addDays(parseISO(due.dueDate), -lease.reminderDaysBefore),
+          title: t('rentals.reminder.rentTitle', values),
+          body: t('rentals.reminder.rentBody', {
+            ...values,
+            amount: formatCurrency(due.amount - due.paid, lease.currency),
+            date: formatDate(due.dueDate),
+          }),
+        });
+      }
+
+      if (lease.renewalDate && lease.renewalDate >= today) {
+        reminders.push({
+          identifier: `lease-renewal-${lease.id}`,
+          leaseId: lease.id,
+          date: addDays(parseISO(lease.renewalDate), -RENEWAL_REMINDER_DAYS),
+          title: t('rentals.reminder.renewalTitle', values),
+          body: t('rentals.reminder.renewalBody', { ...values, date: formatDate(lease.renewalDate) }),
+        });
+      }
+    }
+    return reminders;
+  },
+
+  async syncReminders(): Promise<void> {
+    await notificationService.syncRentalNotifications(await this.getReminders());
+  },
+
+  // Syncs now and again whenever leases or payments change, until the
+  // returned function is called
+  watch(): () => void {
+    runSync();
+    return subscribeToChanges(changes => {
+      if (changes.some(change => WATCHED_TABLES.includes(change.table))) {
+        runSync();
+      }
+    });
+  },
+};
@@ -0,0 +1,2 @@
+export { mediaStorageService, MEDIA_CATEGORIES } from './mediaStorage';
+export type { MediaCategory, MediaFile, StorageUsage } from './mediaStorage';
@@ -0,0 +1,163 @@
+import { Paths, File, Directory } from 'expo-file-system';
+import { queryAll } from '../database';
+import { BACKUP_TABLES, BackupCollection } from '../backup/backupTables';
+import { MEDIA_FIELDS } from '../backup/backupMedia';
+
+export type MediaCategory = 'photos' | 'receipts' | 'documents' | 'renovations' | 'unused';
+
+export const MEDIA_CATEGORIES: MediaCategory[] = ['photos', 'receipts', 'documents', 'renovations', 'unused'];
+
+export interface MediaFile {
+  uri: string;
+  size: number;
+  modifiedAt: number | null;
+}
+
+export interface StorageUsage {
+  totalSize: number;
+  categories: Record<MediaCategory, { size: number; count: number }>;
+  // Files in the app's media folders that no record points at
+  unusedFiles: MediaFile[];
+  // Unused files left alone because they may belong to a form still open
+  recentUnusedCount: number;
+}
+
+// Files newer than this may have just been picked for a record that has not
+// been saved yet, so they never count as unused
+const RECENT_FILE_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Where picked and restored files are kept: the image and document pickers'
+// copies, and media written by backup restores
+function getMediaDirectories(): Directory[] {
+  return [
+    new Directory(Paths.cache, 'ImagePicker'),
+    new Directory(Paths.cache, 'DocumentPicker'),
+    new Directory(Paths.document, 'media'),
+  ];
+}
+
+function getCategory(collection: BackupCollection, field: string, row: Record<string, string | null>): MediaCategory {
+  if (collection === 'attachments') {
+    if (row.entity_type === 'expense') return 'receipts';
+    return row.file_type === 'pdf' ? 'documents' : 'photos';
+  }
+  if (field === 'fileUri') return 'documents';
+  if (field === 'beforeImageUri' || field === 'afterImageUri') return 'renovations';
+  return 'photos';
+}
+
+function camelToSnake(field: string): string {
+  return field.replace(/[A-Z]/g, char => `_${char.toLowerCase()}`);
+}
+
+// Stored URIs and listed files can differ in escaping and scheme
+function toPath(uri: string): string {
+  let path = uri;
+  try {
+    path = decodeURI(uri);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  return path.replace(/^file:\/\//, '');
+}
+
+// Every file a record points at, by path, with the category of the first
+// field that does. Records in the trash count, as they can be restored.
+async function getReferencedFiles(): Promise<Map<string, { uri: string; category: MediaCategory }>> {
+  const referenced = new Map<string, { uri: string; category: MediaCategory }>();
+  for (const [collection, fields] of Object.entries(MEDIA_FIELDS) as [BackupCollection, string[]][]) {
+    const columns = fields.map(camelToSnake);
+    const rows = await queryAll<Record<string, string | null>>(`SELECT * FROM ${BACKUP_TABLES[collection]}`);
+    for (const row of rows) {
+      fields.forEach((field, index) => {
+        const uri = row[columns[index]];
+        if (!uri || /^(https?|data|content):/i.test(uri)) return;
+        const path = toPath(uri);
+        if (!referenced.has(path)) referenced.set(path, { uri, category: getCategory(collection, field, row) });
+      });
+    }
+  }
+  return referenced;
+}
+
+function listFiles(directory: Directory): File[] {
+  if (!directory.exists) return [];
+  const files: File[] = [];
+  for (const entry of directory.list()) {
+    if (entry instanceof Directory) {
+      files.push(...listFiles(entry));
+    } else {
+      files.push(entry);
+    }
+  }
+  return files;
+}
+
+function isInMediaDirectory(uri: string): boolean {
+  const path = toPath(uri);
+  return getMediaDirectories().some(directory => path.startsWith(toPath(directory.uri)));
+}
+
+export const mediaStorageService = {
+  // Space taken by the files records point at, by category, and by files in
+  // the media folders that nothing points at any more
+  async getUsage(): Promise<StorageUsage> {
+    const referenced = await getReferencedFiles();
+    const categories = Object.fromEntries(
+      MEDIA_CATEGORIES.map(category => [category, { size: 0, count: 0 }])
+    ) as StorageUsage['categories'];
+
+    for (const { uri, category } of referenced.values()) {
+      try {
+        const file = new File(uri);
+        if (!file.exists) continue;
+        categories[category].size += file.size;
+        categories[category].count++;
+      } catch (e) {
+        console.log('Error reading media file:', uri, e);
+      }
+    }
+
+    const unusedFiles: MediaFile[] = [];
+    let recentUnusedCount = 0;
+    const cutoff = Date.now() - RECENT_FILE_AGE_MS;
+    for (const directory of getMediaDirectories()) {
+      for (const file of listFiles(directory)) {
+        if (referenced.has(toPath(file.uri))) continue;
+        const modifiedAt = file.modificationTime;
+        if (modifiedAt !== null && modifiedAt > cutoff) {
+          recentUnusedCount++;
+          continue;
+        }
+        unusedFiles.push({ uri: file.uri, size: file.size, modifiedAt });
+        categories.unused.size += file.size;
+        categories.unused.count++;
+      }
+    }
+
+    const totalSize = MEDIA_CATEGORIES.reduce((sum, category) => sum + categories[category].size, 0);
+    return { totalSize, categories, unusedFiles, recentUnusedCount };
+  },
+
+  // Deletes the given unused files. References are read again first, so a
+  // file that a record started using since the scan is kept.
+  async deleteUnusedFiles(files: MediaFile[]): Promise<{ deleted: number; freed: number }> {
+    const referenced = await getReferencedFiles();
+    let deleted = 0;
+    let freed = 0;
+    for (const { uri } of files) {
+      if (referenced.has(toPath(uri)) || !isInMediaDirectory(uri)) continue;
+      try {
+        const file = new File(uri);
+        if (!file.exists) continue;
+        const size = file.size;
+        file.delete();
+        deleted++;
+        freed += size;
+      } catch (e) {
+        console.log('Error deleting media file:', uri, e);
+      }
+    }
+    return { deleted, freed };
+  },
+};
@@ -52,10 +52,12 @@ export interface Asset {
   serialNumber?: string;
   purchaseDate?: string;
   purchasePrice?: number;
+  // Currency code of purchasePrice; the app currency when the asset was added
+  purchaseCurrency?: string;
   warrantyEndDate?: string;
   notes?: string;
+  // The first photo among the asset's attachments
   imageUri?: string;
-  manualUri?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -81,18 +83,110 @@ export interface Expense {
   type: ExpenseType;
   category: string;
   amount: number;
+  // Currency code of amount; the app currency when the expense was added
+  currency?: string;
   date: string;
   description: string;
-  receiptUri?: string;
   isRecurring: boolean;
   recurringTemplateId?: UUID;
   tags?: string[];
+  // The household member who paid it, for settling up
+  paidByMemberId?: UUID;
+  taxTreatment?: TaxTreatment;
+  // Of a split expense, the part attributed to the property or room it was
+  // listed for
+  shareAmount?: number;
   createdAt: string;
   updatedAt: string;
 }
 
 export type ExpenseType = 'repair' | 'bill' | 'maintenance' | 'purchase' | 'other';
 
+// How a cost is treated on a tax return; untagged costs have none
+export type TaxTreatment = 'deductible' | 'capital_improvement' | 'non_deductible';
+
+// Position of the last item of a page in newest-first (date, id) order
+export interface PageCursor {
+  date: string;
+  id: UUID;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Null on the last page
+  nextCursor: PageCursor | null;
+}
+
+// Narrows expense lists and totals; dates are ISO strings, both ends included
+export interface ExpenseFilters {
+  propertyId?: UUID;
+  type?: ExpenseType;
+  from?: string;
+  to?: string;
+}
+
+export interface ExpenseSummary {
+  count: number;
+  total: number;
+  average: number;
+  largest: number;
+}
+
+export type ExpenseGrouping = 'month' | 'type' | 'category' | 'room' | 'asset' | 'worker';
+
+// Total for one month (yyyy-MM), type, category or linked record. Expenses
+// without a room, asset or worker are grouped under an empty key.
+export interface ExpenseGroupTotal {
+  key: string;
+  label: string;
+  total: number;
+  count: number;
+}
+
+export type SearchEntityType =
+  | 'property'
+  | 'room'
+  | 'asset'
+  | 'expense'
+  | 'worker'
+  | 'worker_note'
+  | 'note'
+  | 'document'
+  | 'paint_code'
+  | 'storage_box';
+
+// Text split into the parts that matched the query and the rest
+export type SearchSnippet = Array<{ text: string; match: boolean }>;
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: UUID;
+  propertyId?: UUID;
+  propertyName?: string;
+  // The asset or worker a note or document belongs to
+  parentId?: UUID;
+  parentType?: 'asset' | 'worker';
+  title: SearchSnippet;
+  snippet: SearchSnippet;
+  // Expense results only
+  amount?: number;
+  currency?: string;
+  date?: string;
+}
+
+export interface SearchOptions {
+  types?: SearchEntityType[];
+  // Narrows expense results; other results are not affected
+  expense?: {
+    type?: ExpenseType;
+    minAmount?: number;
+    maxAmount?: number;
+    from?: string;
+    to?: string;
+  };
+  limit?: number;
+}
+
 // Recurring Payment Template
 export interface RecurringTemplate {
   id: UUID;
@@ -100,6 +194,8 @@ export interface RecurringTemplate {
   name: string;
   category: string;
   estimatedAmount?: number; // Optional - user may not know the amount
+  // Currency code of the template's amounts and the payments made with it
+  currency?: string;
   frequency: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
   typicalPaymentDay?: string; // e.g., "15th", "End of month", "1st week"
   isActive: boolean;
@@ -164,6 +260,26 @@ export interface Document {
   updatedAt: string;
 }
 
+// Attachment: a photo or PDF kept with an expense, asset or maintenance
+// completion. A record's attachments are shown in sort order.
+export type AttachmentEntityType = 'expense' | 'asset' | 'maintenance_completion';
+
+export interface Attachment {
+  id: UUID;
+  entityType: AttachmentEntityType;
+  entityId: UUID;
+  fileUri: string;
+  fileType: 'pdf' | 'image';
+  caption?: string;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// An attachment being edited in a form, before the record it belongs to is
+// saved. Drafts without an id are new.
+export type AttachmentDraft = Pick<Attachment, 'fileUri' | 'fileType' | 'caption'> & { id?: UUID };
+
 // Maintenance Types
 export interface MaintenanceTask {
   id: UUID;
@@ -330,8 +446,10 @@ export interface RenovationCost {
   renovationId: UUID;
   description: string;
   amount: number;
+  currency?: string;
   category?: string;
   date?: string;
+  taxTreatment?: TaxTreatment;
   createdAt: string;
 }
 
@@ -377,14 +495,30 @@ export interface AppSettings {
   id: UUID;
   theme: 'light' | 'dark' | 'system';
   currency: string;
+  // Totals and reports are converted into this currency; the app currency when unset
+  reportingCurrency?: string;
   dateFormat: string;
   biometricEnabled: boolean;
   photoQuality: 'original' | 'high' | 'medium' | 'low';
   encryptExports: boolean;
+  autoBackupFrequency: AutoBackupFrequency;
+  // Days between backups when frequency is 'foreground'
+  autoBackupIntervalDays: number;
+  backupKeepDaily: number;
+  backupKeepMonthly: number;
+  lastAutoBackupAt?: string;
+  // Days a deleted item stays in the trash before it is purged
+  trashRetentionDays: number;
+  // First day of the tax year, e.g. 4 and 6 for a year starting 6 April
+  fiscalYearStartMonth: number;
+  fiscalYearStartDay: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// 'foreground' backs up when the app is opened and the interval has passed
+export type AutoBackupFrequency = 'off' | 'daily' | 'weekly' | 'foreground';
+
 // Custom Category for user-defined expense categories and types
 export type CustomCategoryType = 'expense_category' | 'expense_type' | 'bill_category';
 
@@ -400,6 +534,38 @@ export interface CustomCategory {
   updatedAt: string;
 }
 
+// Custom field: an extra field the user adds to the forms of one kind of
+// record. Select fields offer `options`; the other types leave it empty.
+export type CustomFieldEntityType = 'property' | 'room' | 'asset' | 'expense' | 'worker';
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'boolean';
+
+export interface CustomFieldDefinition {
+  id: UUID;
+  entityType: CustomFieldEntityType;
+  name: string;
+  fieldType: CustomFieldType;
+  options: string[];
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A record's value for a custom field, stored as text: numbers as typed,
+// dates as yyyy-MM-dd and booleans as 'true' or 'false'
+export interface CustomFieldValue {
+  id: UUID;
+  definitionId: UUID;
+  entityType: CustomFieldEntityType;
+  entityId: UUID;
+  value: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A record's custom field values in a form, by definition id
+export type CustomFieldValues = Record<UUID, string>;
+
 // Expense-Asset junction for tracking costs per asset
 export interface ExpenseAsset {
   id: UUID;
@@ -418,6 +584,313 @@ export interface ExpenseAssetWithDetails extends ExpenseAsset {
   assetModel?: string;
 }
 
+// Someone an expense can be paid by or split with, such as a housemate
+export interface HouseholdMember {
+  id: UUID;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Expense split: a share of an expense attributed to a property, optionally
+// one of its rooms, and optionally a household member who owes it. A share
+// is either a percentage of the expense's amount or a fixed amount in its
+// currency; an expense's shares add up to its amount.
+export interface ExpenseSplit {
+  id: UUID;
+  expenseId: UUID;
+  propertyId: UUID;
+  roomId?: UUID;
+  memberId?: UUID;
+  percent?: number;
+  amount?: number;
+  sortOrder: number;
+  createdAt: string;
+}
+
+// ExpenseSplit with names and the share worked out, for display
+export interface ExpenseSplitWithDetails extends ExpenseSplit {
+  propertyName: string;
+  roomName?: string;
+  memberName?: string;
+  // In the expense's currency
+  shareAmount: number;
+}
+
+// A share as the expense forms edit it
+export type ExpenseSplitData = Pick<ExpenseSplit, 'propertyId' | 'roomId' | 'memberId' | 'percent' | 'amount'>;
+
+// Settlement: money one household member paid another to settle up
+export interface Settlement {
+  id: UUID;
+  fromMemberId: UUID;
+  toMemberId: UUID;
+  amount: number;
+  currency?: string;
+  date: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Where a member stands, in the reporting currency: what they paid for others and
+// sent in settlements, against what they owe for shares others paid and
+// received. A positive balance is owed to the member.
+export interface MemberBalance {
+  member: HouseholdMember;
+  paidForOthers: number;
+  owes: number;
+  balance: number;
+}
+
+// A payment that would settle up, in the reporting currency
+export interface SettleUpTransfer {
+  from: HouseholdMember;
+  to: HouseholdMember;
+  amount: number;
+}
+
+// Payee rule: bank statement lines whose payee contains the pattern are
+// recorded as this bill or category when imported
+export interface PayeeRule {
+  id: UUID;
+  propertyId: UUID;
+  pattern: string;
+  templateId?: UUID;
+  expenseType: ExpenseType;
+  category: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Exchange rate: one unit of fromCurrency is worth `rate` of toCurrency from
+// `date` ('yyyy-MM-dd') until the pair's next rate
+export interface ExchangeRate {
+  id: UUID;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BudgetPeriod = 'monthly' | 'yearly';
+
+// Budget: what a property plans to spend per month or year, on all its
+// expenses, on one expense type, or on one category of that type
+export interface Budget {
+  id: UUID;
+  propertyId: UUID;
+  expenseType?: ExpenseType;
+  category?: string;
+  period: BudgetPeriod;
+  amount: number;
+  // Whether what is left over (or overspent) in a period carries into the next
+  rollover: boolean;
+  // First day of the first period, as 'yyyy-MM-dd'
+  startDate: string;
+  // The period (its first day) and the highest percentage of the budget an
+  // alert has been sent for
+  alertedPeriod?: string;
+  alertedPercent: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A budget's current period and what has been spent in it. `available` is
+// the amount plus what carried over from earlier periods.
+export interface BudgetStatus {
+  budget: Budget;
+  propertyName: string;
+  periodStart: string;
+  periodEnd: string;
+  carriedOver: number;
+  available: number;
+  spent: number;
+  // Of available; above 100 when overspent
+  percent: number;
+}
+
+// Budgeted against spent for a budget over a range of its periods
+export interface BudgetReportRow {
+  budget: Budget;
+  propertyName: string;
+  periods: number;
+  budgeted: number;
+  spent: number;
+}
+
+export type RentFrequency = 'monthly' | 'quarterly' | 'yearly';
+
+// Tenant of a rental property
+export interface Tenant {
+  id: UUID;
+  propertyId: UUID;
+  name: string;
+  phone?: string;
+  email?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Lease: a tenant's contract for a property. Dates are 'yyyy-MM-dd'; rent
+// is due on rentDueDay (the month's last day in shorter months) every
+// period from the start date until the end date, if there is one.
+export interface Lease {
+  id: UUID;
+  propertyId: UUID;
+  tenantId: UUID;
+  startDate: string;
+  endDate?: string;
+  rentAmount: number;
+  currency?: string;
+  rentFrequency: RentFrequency;
+  rentDueDay: number;
+  depositAmount?: number;
+  renewalDate?: string;
+  // Days after a due date before unpaid rent is late
+  graceDays: number;
+  // Days before a due date the rent reminder is sent
+  reminderDaysBefore: number;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LeaseWithTenant extends Lease {
+  tenantName: string;
+}
+
+// Rent received for one due date of a lease. Several payments can cover
+// one due date.
+export interface RentPayment {
+  id: UUID;
+  leaseId: UUID;
+  // The due date ('yyyy-MM-dd') the payment is for
+  dueDate: string;
+  amount: number;
+  currency?: string;
+  paidDate: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RentDueStatus = 'paid' | 'partial' | 'due' | 'late' | 'upcoming';
+
+// One due date of a lease and what has been paid for it, in the lease's
+// currency. `paidLate` is set when the rent was paid after the grace days.
+export interface RentDue {
+  lease: LeaseWithTenant;
+  dueDate: string;
+  amount: number;
+  paid: number;
+  status: RentDueStatus;
+  paidLate: boolean;
+}
+
+// Rent received against the property's expenses for one month (yyyy-MM),
+// in the app currency
+export interface ProfitAndLossMonth {
+  month: string;
+  income: number;
+  expenses: number;
+  net: number;
+}
+
+export interface ProfitAndLoss {
+  months: ProfitAndLossMonth[];
+  income: number;
+  expenses: number;
+  net: number;
+}
+
+// A cost on the tax summary: an expense's share of one property, or a
+// renovation cost. The amount is in its own currency; convertedAmount is in
+// the reporting currency, unless no stored rate converts it.
+export interface TaxSummaryItem {
+  source: 'expense' | 'renovation_cost';
+  id: UUID;
+  propertyId: UUID;
+  propertyName: string;
+  date: string;
+  description: string;
+  category?: string;
+  taxTreatment?: TaxTreatment;
+  amount: number;
+  currency?: string;
+  convertedAmount?: number;
+  // Files attached to the expense; renovation costs have none
+  receiptUris: string[];
+}
+
+// Costs of a property with one treatment, or untagged ones, in the app
+// currency
+export interface TaxSummaryTotal {
+  propertyId: UUID;
+  propertyName: string;
+  taxTreatment?: TaxTreatment;
+  total: number;
+  count: number;
+}
+
+// Costs of one tax year, named after the year it starts in. Dates are
+// 'yyyy-MM-dd', both ends included.
+export interface TaxSummary {
+  fiscalYear: number;
+  label: string;
+  from: string;
+  to: string;
+  totals: TaxSummaryTotal[];
+  items: TaxSummaryItem[];
+  // Of items left out of the totals for want of a rate
+  missingCurrencies: string[];
+}
+
+// Trash item: a deleted record, with the number of records of each table
+// that were deleted along with it
+export interface TrashItem {
+  id: UUID;
+  tableName: string;
+  recordId: UUID;
+  label: string;
+  childCounts: Record<string, number>;
+  deletedAt: string;
+}
+
+// Moves to and from the trash are logged as 'delete' and 'restore'
+export type ChangeAction = 'create' | 'update' | 'delete' | 'restore';
+
+// One changed column. Labels name the records that id columns point to.
+export interface FieldChange {
+  field: string;
+  oldValue: string | number | null;
+  newValue: string | number | null;
+  oldLabel?: string;
+  newLabel?: string;
+}
+
+// Change log entry: one write to a record, with the columns it changed
+export interface ChangeLogEntry {
+  id: UUID;
+  tableName: string;
+  recordId: UUID;
+  action: ChangeAction;
+  changes: FieldChange[];
+  deviceId: string;
+  isThisDevice: boolean;
+  changedAt: string;
+}
+
+// Outcome of reverting a change: columns set back, and columns left alone
+// because they have been changed again since
+export interface RevertResult {
+  reverted: string[];
+  skipped: string[];
+}
+
 // Navigation Types
 export type RootStackParamList = {
   Main: undefined;
@@ -34,6 +34,7 @@ const CURRENCY_LOCALES: Record<string, string> = {
 
 // Cache for settings to avoid async calls in render
 let cachedCurrency: string = 'USD';
+let cachedReportingCurrency: string | null = null;
 let cacheInitialized = false;
 
 // Initialize cache from settings
@@ -43,6 +44,7 @@ export async function initializeCurrencyCache(): Promise<void> {
     if (settings?.currency) {
       cachedCurrency = settings.currency;
     }
+    cachedReportingCurrency = settings?.reportingCurrency || null;
     cacheInitialized = true;
   } catch (error) {
     console.error('Failed to initialize currency cache:', error);
@@ -60,6 +62,16 @@ export function getCachedCurrency(): string {
   return cachedCurrency;
 }
 
+// Update the reporting currency cache; empty reports in the app currency
+export function updateReportingCurrencyCache(currency?: string): void {
+  cachedReportingCurrency = currency || null;
+}
+
+// Currency that totals and reports are converted into
+export function getReportingCurrency(): string {
+  return cachedReportingCurrency || cachedCurrency;
+}
+
 // Get currency symbol for display
 export function getCurrencySymbol(currency?: string): string {
   const curr = currency || cachedCurrency;
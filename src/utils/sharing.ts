@@ -0,0 +1,13 @@
+// Lazy load expo-sharing to avoid crash in Expo Go
+let Sharing: typeof import('expo-sharing') | null = null;
+
+export const loadSharing = async () => {
+  if (Sharing === null) {
+    try {
+      Sharing = await import('expo-sharing');
+    } catch (e) {
+      console.log('expo-sharing not available');
+    }
+  }
+  return Sharing;
+};
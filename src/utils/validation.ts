@@ -2,6 +2,10 @@
  * Input validation utilities
  */
 
+import { isValidationError, ValidationIssue } from '../services/database/entity';
+
+type Translate = (scope: string, options?: Record<string, string | number>) => string;
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -142,3 +146,38 @@ export function parseAmount(amount: string): number {
   const cleanAmount = amount.replace(/[$€£¥,\s]/g, '');
   return parseFloat(cleanAmount) || 0;
 }
+
+/**
+ * Describes each rejected field of a record, one per line
+ */
+export function formatValidationIssues(issues: ValidationIssue[], t: Translate): string {
+  return issues
+    .map(issue => t(`validation.issues.${issue.code}`, {
+      field: t(`validation.fields.${issue.field}`, { defaultValue: issue.field }),
+      expected: issue.expected ?? '',
+    }))
+    .join('\n');
+}
+
+/**
+ * Message for a failed save: the rejected fields when the data was invalid,
+ * otherwise the fallback
+ */
+export function describeSaveError(error: unknown, fallback: string, t: Translate): string {
+  return isValidationError(error) ? formatValidationIssues(error.issues, t) : fallback;
+}
+
+/**
+ * Lists records an import skipped for invalid data, the first few in full
+ */
+export function formatRejectedRecords(
+  records: Array<{ label: string; issues: ValidationIssue[] }>,
+  t: Translate,
+  limit: number = 5
+): string {
+  const lines = records
+    .slice(0, limit)
+    .map(record => `${record.label}: ${formatValidationIssues(record.issues, t).split('\n').join('; ')}`);
+  if (records.length > limit) lines.push('…');
+  return lines.join('\n');
+}